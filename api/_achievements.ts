@@ -0,0 +1,316 @@
+// ============================================================
+// API/_ACHIEVEMENTS.TS - Motor de conquistas (badges e skill tree)
+// ============================================================
+// As regras (métrica de player_stats + alvo) e recompensas ficam em
+// app/shared/achievements.ts. Outros handlers chamam evaluateAchievements
+// depois de cada ação relevante (aberturas, vendas, batalhas, XP); o
+// desbloqueio é uma linha única (user_id, achievement_id) em
+// `player_achievements`, então a recompensa sai exatamente uma vez. Se a
+// entrega dos diamantes falhar, a linha é removida e a próxima avaliação
+// tenta de novo.
+
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import {
+  applyCors,
+  checkRateLimit,
+  getIdentifier,
+  grantPlayerXp,
+  logAudit,
+  maybeCleanupRateLimits,
+  updatePlayerDiamonds,
+  validateCsrfMiddleware,
+  validateSessionAndFetchPlayerStats,
+  type RateLimitEntry,
+} from './_utils.js';
+import { grantBattlePassXp } from './_battlepass.js';
+import {
+  ACHIEVEMENT_RULES,
+  findNewAchievements,
+  getAchievementMetricValue,
+  getAchievementProgress,
+  type AchievementStats,
+  type AchievementUnlock
+} from '../app/shared/achievements.js';
+import { mergeXpAwards, type XpAward } from '../app/shared/levels.js';
+
+dotenv.config();
+
+// ============================================================
+// TYPES
+// ============================================================
+
+interface ApiRequest {
+  method?: string;
+  body?: Record<string, any>;
+  headers?: Record<string, string | string[] | undefined>;
+  connection?: { remoteAddress?: string };
+}
+
+interface ApiResponse {
+  status: (code: number) => ApiResponse;
+  json: (data: any) => void;
+  end: (data?: any) => void;
+  setHeader: (key: string, value: string) => void;
+}
+
+interface HandlerContext {
+  userId: string;
+}
+
+export interface AchievementEvaluation {
+  unlocked: AchievementUnlock[];
+  xp: XpAward | null;
+  newDiamonds?: number;
+}
+
+const supabase: SupabaseClient = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const STATS_SELECT = 'xp, money, total_battles, total_wins, total_gains, total_spent, best_drop, total_cases_opened';
+const REWARD_ATTEMPTS = 3;
+
+// XP de badges pode subir o nível e liberar badges de nível
+const EVALUATION_PASSES = 3;
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+const rateLimits = new Map<string, RateLimitEntry>();
+let lastRateLimitCleanupAt = 0;
+
+function cleanupRateLimits(): void {
+  lastRateLimitCleanupAt = maybeCleanupRateLimits(rateLimits, lastRateLimitCleanupAt, { maxIdleMs: 15 * 60_000, minIntervalMs: 5 * 60_000 });
+}
+
+async function fetchStats(userId: string): Promise<AchievementStats> {
+  const { data, error } = await supabase
+    .from('player_stats')
+    .select(STATS_SELECT)
+    .eq('user_id', userId)
+    .single();
+
+  if (error || !data) throw new Error(`Failed to load player stats: ${error?.message || 'not found'}`);
+  return data as AchievementStats;
+}
+
+async function fetchUnlocked(userId: string): Promise<Record<string, string>> {
+  const { data, error } = await supabase
+    .from('player_achievements')
+    .select('achievement_id, unlocked_at')
+    .eq('user_id', userId);
+
+  if (error) throw new Error(`Failed to load achievements: ${error.message}`);
+  return Object.fromEntries((data || []).map(row => [row.achievement_id, row.unlocked_at]));
+}
+
+async function grantDiamondsWithRetry(userId: string, amount: number, reason: string, req?: ApiRequest): Promise<number> {
+  let lastError: unknown = null;
+  for (let attempt = 0; attempt < REWARD_ATTEMPTS; attempt++) {
+    try {
+      return await updatePlayerDiamonds(supabase, userId, amount, reason, false, req as any);
+    } catch (err) {
+      lastError = err;
+      if (!(err instanceof Error) || err.message !== 'Concurrent modification detected') break;
+    }
+  }
+  throw lastError;
+}
+
+/**
+ * Registra o desbloqueio e entrega as recompensas. Retorna null se o badge
+ * já estava desbloqueado (outra requisição chegou antes) ou se falhou.
+ */
+async function unlockAchievement(
+  userId: string,
+  id: string,
+  result: AchievementEvaluation,
+  req?: ApiRequest
+): Promise<AchievementUnlock | null> {
+  const rule = ACHIEVEMENT_RULES[id];
+  const unlockedAt = new Date().toISOString();
+
+  const { error: insertError } = await supabase
+    .from('player_achievements')
+    .insert({ user_id: userId, achievement_id: id, unlocked_at: unlockedAt });
+
+  if (insertError) {
+    if (insertError.code !== '23505') {
+      console.error('⚠️ Failed to unlock achievement:', id, insertError.message);
+    }
+    return null;
+  }
+
+  if (rule.diamonds > 0) {
+    try {
+      result.newDiamonds = await grantDiamondsWithRetry(userId, rule.diamonds, `Achievement: ${id}`, req);
+    } catch (err) {
+      console.error('⚠️ Failed to grant achievement diamonds:', id, err instanceof Error ? err.message : err);
+      await supabase
+        .from('player_achievements')
+        .delete()
+        .eq('user_id', userId)
+        .eq('achievement_id', id);
+      logAudit(supabase, userId, 'ACHIEVEMENT_REWARD_FAILED', { achievementId: id }, req as any).catch(() => {});
+      return null;
+    }
+  }
+
+  if (rule.xp > 0) {
+    const xp = await grantPlayerXp(supabase, userId, 'badge', { amount: rule.xp, reference: id, req: req as any });
+    if (xp) {
+      result.xp = mergeXpAwards(result.xp, xp);
+      if (typeof xp.newDiamonds === 'number') result.newDiamonds = xp.newDiamonds;
+    }
+  }
+
+  grantBattlePassXp(userId, 'badge').catch(() => {});
+  logAudit(supabase, userId, 'ACHIEVEMENT_UNLOCKED', { achievementId: id, diamonds: rule.diamonds, xp: rule.xp }, req as any).catch(() => {});
+
+  return { id, diamonds: rule.diamonds, xp: rule.xp, unlockedAt };
+}
+
+async function syncCollectedBadges(userId: string): Promise<void> {
+  const unlocked = await fetchUnlocked(userId);
+  const { error } = await supabase
+    .from('player_stats')
+    .update({ collected_badges: Object.keys(unlocked) })
+    .eq('user_id', userId);
+
+  if (error) console.error('⚠️ Failed to sync collected badges:', error.message);
+}
+
+/**
+ * Avalia todas as regras contra player_stats e desbloqueia o que for novo.
+ * Nunca lança: uma falha aqui não pode quebrar a ação que a disparou.
+ */
+export async function evaluateAchievements(userId: string, req?: ApiRequest): Promise<AchievementEvaluation> {
+  const result: AchievementEvaluation = { unlocked: [], xp: null };
+  if (!userId) return result;
+
+  try {
+    for (let pass = 0; pass < EVALUATION_PASSES; pass++) {
+      const [stats, unlocked] = await Promise.all([fetchStats(userId), fetchUnlocked(userId)]);
+      const candidates = findNewAchievements(stats, Object.keys(unlocked));
+      if (!candidates.length) break;
+
+      // Em ordem; badges de coletor são conferidos de novo contra o que
+      // realmente foi gravado, caso algum desbloqueio anterior tenha falhado
+      for (const id of candidates) {
+        const rule = ACHIEVEMENT_RULES[id];
+        const unlockedIds = [...Object.keys(unlocked), ...result.unlocked.map(u => u.id)];
+        if (getAchievementMetricValue(rule.metric, stats, unlockedIds) < rule.target) continue;
+
+        const unlock = await unlockAchievement(userId, id, result, req);
+        if (unlock) result.unlocked.push(unlock);
+      }
+    }
+
+    if (result.unlocked.length) {
+      await syncCollectedBadges(userId);
+    }
+  } catch (err) {
+    console.error('⚠️ Failed to evaluate achievements:', err instanceof Error ? err.message : err);
+  }
+
+  return result;
+}
+
+// ============================================================
+// ACTION HANDLERS
+// ============================================================
+
+async function handleGetAchievements(req: ApiRequest, res: ApiResponse, ctx: HandlerContext): Promise<void> {
+  const [stats, unlocked] = await Promise.all([fetchStats(ctx.userId), fetchUnlocked(ctx.userId)]);
+  return res.status(200).json({ success: true, progress: getAchievementProgress(stats, unlocked) });
+}
+
+async function handleSyncAchievements(req: ApiRequest, res: ApiResponse, ctx: HandlerContext): Promise<void> {
+  const evaluation = await evaluateAchievements(ctx.userId, req);
+  const [stats, unlocked] = await Promise.all([fetchStats(ctx.userId), fetchUnlocked(ctx.userId)]);
+
+  return res.status(200).json({
+    success: true,
+    progress: getAchievementProgress(stats, unlocked),
+    ...evaluation
+  });
+}
+
+// ============================================================
+// MAIN HANDLER
+// ============================================================
+
+export default async function handler(req: ApiRequest, res: ApiResponse): Promise<void> {
+  applyCors(req as any, res as any);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { action, userId, authToken } = req.body || {};
+  cleanupRateLimits();
+
+  const identifier = getIdentifier(req as any, userId);
+  if (!checkRateLimit(rateLimits, identifier, { maxRequests: 40, windowMs: 60_000 })) {
+    logAudit(supabase, userId || 'unknown', 'ACHIEVEMENTS_RATE_LIMIT', { action }, req as any).catch(() => {});
+    return res.status(429).json({ error: 'Too many requests. Please wait.' });
+  }
+
+  if (!action || typeof action !== 'string') {
+    return res.status(400).json({ error: 'Invalid action' });
+  }
+  if (!userId || typeof userId !== 'string') {
+    return res.status(400).json({ error: 'Invalid userId' });
+  }
+  if (!authToken || typeof authToken !== 'string') {
+    return res.status(400).json({ error: 'Invalid authToken' });
+  }
+
+  const { valid, error: sessionError } = await validateSessionAndFetchPlayerStats(supabase, authToken, userId, {
+    select: 'user_id'
+  });
+  if (!valid) {
+    logAudit(supabase, userId, 'ACHIEVEMENTS_AUTH_FAILED', { action, error: sessionError }, req as any).catch(() => {});
+    return res.status(401).json({ error: sessionError });
+  }
+
+  // 🛡️ Validar CSRF token (apenas para ações que fazem mutações)
+  const mutationActions = ['syncAchievements'];
+  if (mutationActions.includes(action)) {
+    const csrfValidation = await validateCsrfMiddleware(supabase, req as any, userId);
+    if (!csrfValidation.valid) {
+      console.warn('⚠️ CSRF validation failed:', { userId, action, error: csrfValidation.error });
+      logAudit(supabase, userId, 'ACHIEVEMENTS_CSRF_VALIDATION_FAILED', { action }, req as any).catch(() => {});
+      return res.status(403).json({ error: 'Security validation failed' });
+    }
+  }
+
+  const ctx: HandlerContext = { userId };
+
+  try {
+    switch (action) {
+      case 'getAchievements':
+        return await handleGetAchievements(req, res, ctx);
+      case 'syncAchievements':
+        return await handleSyncAchievements(req, res, ctx);
+      default:
+        return res.status(400).json({ error: 'Invalid action' });
+    }
+  } catch (error) {
+    const err = error as Error;
+    console.error('💥 Achievements: unhandled error', err);
+    logAudit(supabase, userId, 'ACHIEVEMENTS_ERROR', { action, error: err.message }, req as any).catch(() => {});
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
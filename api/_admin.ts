@@ -21,6 +21,38 @@ import {
   type RateLimitEntry,
 } from './_utils.js';
 import { applyReferralDiamondBonus } from './_referrals.js';
+import { getPaymentGateway, PaymentGatewayError } from './_payments.js';
+import { getActiveShopCatalog, invalidateShopCatalogCache } from './_shop.js';
+import { fetchPromoCode, parsePromoCodeRow, type PromoCodeRow } from './_promocodes.js';
+import { getThemeConfig } from './_profile.js';
+import { getActiveCatalog, invalidateCatalogCache } from './_caseopening.js';
+import {
+  validateCatalog,
+  validatePityRules,
+  type CaseCatalog,
+  type CatalogCase,
+  type CatalogItem,
+  type CatalogPityRule
+} from '../app/shared/case-catalog.js';
+import { computeCaseOdds, simulateOpenings, MAX_SIMULATION_OPENINGS } from '../app/shared/case-odds.js';
+import {
+  SHOP_CURRENCIES,
+  SHOP_MAX_DISCOUNT,
+  SHOP_REQUIRED_CURRENCIES,
+  validateShopCatalog,
+  type ShopCatalog,
+  type ShopPackage,
+  type ShopPromotion,
+  type ShopPromotionType
+} from '../app/shared/shop-catalog.js';
+import {
+  PROMO_MAX_PER_USER,
+  isValidPromoCode,
+  normalizePromoCode,
+  validatePromoReward,
+  type PromoCode,
+  type PromoReward
+} from '../app/shared/promo-codes.js';
 dotenv.config();
 
 // ============================================================
@@ -280,6 +312,846 @@ async function handleUnblockIp(req: ApiRequest, res: ApiResponse, validation: an
   }
 }
 
+// ============================================================
+// CASE EDITOR HANDLERS
+// ============================================================
+// Cada alteração publica uma versão nova em `case_catalogs`; versões antigas
+// nunca são editadas para que aberturas passadas continuem verificáveis.
+// Aposentar um case = publicar uma versão sem ele.
+
+const CASE_ID_REGEX = /^[a-z0-9_-]{2,40}$/;
+const MAX_CASE_ITEMS = 50;
+const MAX_CASE_PRICE = 100000;
+
+function isAdminRole(validation: ValidationResult): boolean {
+  return validation.role === 'admin';
+}
+
+function cleanText(value: unknown, maxLength: number): string {
+  return typeof value === 'string' ? value.trim().slice(0, maxLength) : '';
+}
+
+/**
+ * Reconstrói o case só com os campos conhecidos (nada do body vai direto
+ * para o catálogo) e devolve a lista de problemas encontrados.
+ */
+function normalizeCaseDraft(raw: any, rarityCount: number): { caseData: CatalogCase | null; errors: string[] } {
+  const errors: string[] = [];
+  if (!raw || typeof raw !== 'object') {
+    return { caseData: null, errors: ['Invalid case'] };
+  }
+
+  const id = cleanText(raw.id, 40).toLowerCase();
+  if (!CASE_ID_REGEX.test(id)) errors.push('Case id must be 2-40 chars of a-z, 0-9, _ or -');
+
+  const name = cleanText(raw.name, 40);
+  if (!name) errors.push('Name is required');
+
+  const price = Number(raw.price);
+  if (!Number.isFinite(price) || price <= 0 || price > MAX_CASE_PRICE) errors.push('Invalid price');
+
+  if (!Array.isArray(raw.items) || raw.items.length === 0 || raw.items.length > MAX_CASE_ITEMS) {
+    errors.push(`A case needs between 1 and ${MAX_CASE_ITEMS} items`);
+    return { caseData: null, errors };
+  }
+
+  const items: CatalogItem[] = raw.items.map((item: any, idx: number) => {
+    const minValue = Number(item?.minValue);
+    const maxValue = Number(item?.maxValue);
+    const rarityIndex = Number(item?.rarityIndex);
+    const itemName = cleanText(item?.name, 40);
+
+    if (!itemName) errors.push(`Item #${idx + 1}: name is required`);
+    if (!Number.isFinite(minValue) || !Number.isFinite(maxValue) || minValue < 0 || minValue > maxValue) {
+      errors.push(`Item #${idx + 1}: invalid value range`);
+    }
+    if (!Number.isInteger(rarityIndex) || rarityIndex < 0 || rarityIndex >= rarityCount) {
+      errors.push(`Item #${idx + 1}: invalid rarity`);
+    }
+
+    return {
+      name: itemName,
+      icon: cleanText(item?.icon, 8) || '📦',
+      minValue: parseFloat(minValue.toFixed(2)),
+      maxValue: parseFloat(maxValue.toFixed(2)),
+      rarityIndex
+    };
+  });
+
+  if (errors.length) return { caseData: null, errors };
+
+  // Pity é opcional; campos vazios da regra ficam de fora
+  const optionalNumber = (value: unknown): number | undefined =>
+    value === undefined || value === null || value === '' ? undefined : Number(value);
+  const pity: CatalogPityRule[] | undefined = Array.isArray(raw.pity) && raw.pity.length > 0
+    ? raw.pity.map((rule: any) => {
+      const normalized: CatalogPityRule = { rarityIndex: Number(rule?.rarityIndex) };
+      const softStart = optionalNumber(rule?.softStart);
+      const softStep = optionalNumber(rule?.softStep);
+      const hardAt = optionalNumber(rule?.hardAt);
+      if (softStart !== undefined) normalized.softStart = softStart;
+      if (softStep !== undefined) normalized.softStep = softStep;
+      if (hardAt !== undefined) normalized.hardAt = hardAt;
+      return normalized;
+    })
+    : undefined;
+
+  errors.push(...validatePityRules({ id, items, pity }, rarityCount));
+  if (errors.length) return { caseData: null, errors };
+
+  return {
+    caseData: {
+      id,
+      name,
+      icon: cleanText(raw.icon, 8) || '📦',
+      iconImage: cleanText(raw.iconImage, 200),
+      price: parseFloat(price.toFixed(2)),
+      color: cleanText(raw.color, 20) || '#6b7280',
+      items,
+      ...(pity ? { pity } : {})
+    },
+    errors
+  };
+}
+
+/**
+ * Publica uma nova versão do catálogo a partir da versão ativa.
+ * `baseVersion` é a versão que o admin editou: se outra publicação
+ * aconteceu nesse meio tempo, a edição é recusada (409).
+ */
+async function publishCatalog(
+  baseVersion: unknown,
+  cases: (current: CaseCatalog) => CatalogCase[],
+  userId: string
+): Promise<{ catalog?: CaseCatalog; status?: number; error?: string }> {
+  invalidateCatalogCache();
+  const current = await getActiveCatalog();
+
+  if (Number(baseVersion) !== current.version) {
+    return { status: 409, error: 'CATALOG_CHANGED' };
+  }
+
+  const next: CaseCatalog = {
+    version: current.version + 1,
+    publishedAt: new Date().toISOString(),
+    rarities: current.rarities,
+    cases: cases(current)
+  };
+
+  const errors = validateCatalog(next);
+  if (errors.length) {
+    return { status: 400, error: errors[0] };
+  }
+
+  // A coluna version é única: duas publicações simultâneas não passam
+  const { error } = await supabase
+    .from('case_catalogs')
+    .insert({
+      version: next.version,
+      data: { rarities: next.rarities, cases: next.cases },
+      published_at: next.publishedAt,
+      published_by: userId
+    });
+
+  if (error) {
+    console.error('Error publishing case catalog:', error.message);
+    return { status: 409, error: 'CATALOG_CHANGED' };
+  }
+
+  invalidateCatalogCache();
+  return { catalog: next };
+}
+
+/**
+ * Catálogo ativo para o editor
+ */
+async function handleGetCaseCatalog(req: ApiRequest, res: ApiResponse, validation: ValidationResult): Promise<void> {
+  try {
+    invalidateCatalogCache();
+    const catalog = await getActiveCatalog();
+
+    return res.status(200).json({
+      success: true,
+      catalog,
+      canEdit: isAdminRole(validation)
+    });
+  } catch (err) {
+    console.error('handleGetCaseCatalog error:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Relatório de odds (e simulação opcional) de um case ainda não publicado
+ */
+async function handleAnalyzeCase(req: ApiRequest, res: ApiResponse, validation: ValidationResult): Promise<void> {
+  try {
+    const { caseData: draft, simulations } = req.body || {};
+    const catalog = await getActiveCatalog();
+
+    const { caseData, errors } = normalizeCaseDraft(draft, catalog.rarities.length);
+    if (!caseData) {
+      return res.status(400).json({ error: errors[0] || 'Invalid case', errors });
+    }
+
+    const report = computeCaseOdds(caseData, catalog.rarities);
+
+    const simulationCount = Number(simulations || 0);
+    if (!Number.isInteger(simulationCount) || simulationCount < 0 || simulationCount > MAX_SIMULATION_OPENINGS) {
+      return res.status(400).json({ error: `Simulations must be between 0 and ${MAX_SIMULATION_OPENINGS}` });
+    }
+
+    const simulation = simulationCount > 0
+      ? simulateOpenings(caseData, catalog.rarities, simulationCount, `admin-sim-${validation.userId}-${Date.now()}`)
+      : null;
+
+    return res.status(200).json({ success: true, report, simulation });
+  } catch (err) {
+    console.error('handleAnalyzeCase error:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Cria ou edita um case (publica nova versão do catálogo)
+ */
+async function handleSaveCase(req: ApiRequest, res: ApiResponse, validation: ValidationResult): Promise<void> {
+  try {
+    const { userId } = validation;
+    const { caseData: draft, baseVersion, isNew } = req.body || {};
+
+    if (!userId || !isAdminRole(validation)) {
+      return res.status(403).json({ error: 'Only admins can edit cases' });
+    }
+
+    const current = await getActiveCatalog();
+    const { caseData, errors } = normalizeCaseDraft(draft, current.rarities.length);
+    if (!caseData) {
+      return res.status(400).json({ error: errors[0] || 'Invalid case', errors });
+    }
+
+    const exists = current.cases.some(c => c.id === caseData.id);
+    if (isNew && exists) {
+      return res.status(409).json({ error: 'A case with this id already exists' });
+    }
+    if (!isNew && !exists) {
+      return res.status(404).json({ error: 'Case not found' });
+    }
+
+    const result = await publishCatalog(baseVersion, catalog => (
+      exists
+        ? catalog.cases.map(c => (c.id === caseData.id ? caseData : c))
+        : [...catalog.cases, caseData]
+    ), userId);
+
+    if (!result.catalog) {
+      return res.status(result.status || 500).json({ error: result.error });
+    }
+
+    const report = computeCaseOdds(caseData, result.catalog.rarities);
+    await logAudit(supabase, userId, isNew ? 'ADMIN_CASE_CREATED' : 'ADMIN_CASE_UPDATED', {
+      caseId: caseData.id,
+      catalogVersion: result.catalog.version,
+      price: caseData.price,
+      items: caseData.items.length,
+      returnToPlayer: report.returnToPlayer
+    }, req).catch(() => {});
+
+    return res.status(200).json({ success: true, catalog: result.catalog, report });
+  } catch (err) {
+    console.error('handleSaveCase error:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Aposenta um case (some do catálogo a partir da nova versão)
+ */
+async function handleRetireCase(req: ApiRequest, res: ApiResponse, validation: ValidationResult): Promise<void> {
+  try {
+    const { userId } = validation;
+    const { caseId, baseVersion } = req.body || {};
+
+    if (!userId || !isAdminRole(validation)) {
+      return res.status(403).json({ error: 'Only admins can edit cases' });
+    }
+
+    if (!caseId || typeof caseId !== 'string' || !CASE_ID_REGEX.test(caseId)) {
+      return res.status(400).json({ error: 'Invalid caseId' });
+    }
+
+    const current = await getActiveCatalog();
+    if (!current.cases.some(c => c.id === caseId)) {
+      return res.status(404).json({ error: 'Case not found' });
+    }
+    if (current.cases.length === 1) {
+      return res.status(400).json({ error: 'Cannot retire the last case' });
+    }
+
+    const result = await publishCatalog(baseVersion, catalog => catalog.cases.filter(c => c.id !== caseId), userId);
+    if (!result.catalog) {
+      return res.status(result.status || 500).json({ error: result.error });
+    }
+
+    await logAudit(supabase, userId, 'ADMIN_CASE_RETIRED', {
+      caseId,
+      catalogVersion: result.catalog.version
+    }, req).catch(() => {});
+
+    return res.status(200).json({ success: true, catalog: result.catalog });
+  } catch (err) {
+    console.error('handleRetireCase error:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// ============================================================
+// SHOP CATALOG (FLASH SALES, BÔNUS E BUNDLES AGENDADOS)
+// ============================================================
+// Mesmo modelo do catálogo de cases: cada alteração publica uma versão nova
+// em `shop_catalogs` e as ordens guardam a versão em que foram criadas.
+
+const SHOP_ENTRY_ID_REGEX = /^[a-z0-9_-]{2,40}$/;
+const MAX_SHOP_PRICE = 100_000; // na moeda do preço (MXN usa valores altos)
+const MAX_BUNDLE_DIAMONDS = 1_000_000;
+
+function cleanDate(value: unknown): string | null {
+  if (typeof value !== 'string' || !value) return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+function normalizeSchedule(raw: any, errors: string[]): { startsAt: string; endsAt: string } {
+  const startsAt = cleanDate(raw?.startsAt);
+  const endsAt = cleanDate(raw?.endsAt);
+  if (!startsAt || !endsAt) {
+    errors.push('Start and end dates are required');
+  } else if (Date.parse(startsAt) >= Date.parse(endsAt)) {
+    errors.push('End date must be after the start date');
+  } else if (Date.parse(endsAt) <= Date.now()) {
+    errors.push('End date must be in the future');
+  }
+  return { startsAt: startsAt || '', endsAt: endsAt || '' };
+}
+
+function normalizePromotionDraft(raw: any, catalog: ShopCatalog): { promotion: ShopPromotion | null; errors: string[] } {
+  const errors: string[] = [];
+  if (!raw || typeof raw !== 'object') {
+    return { promotion: null, errors: ['Invalid promotion'] };
+  }
+
+  const id = cleanText(raw.id, 40).toLowerCase();
+  if (!SHOP_ENTRY_ID_REGEX.test(id)) errors.push('Promotion id must be 2-40 chars of a-z, 0-9, _ or -');
+
+  const type: ShopPromotionType | null = raw.type === 'bonus' || raw.type === 'flash_sale' ? raw.type : null;
+  if (!type) errors.push('Invalid promotion type');
+
+  const percentage = Number(raw.percentage);
+  const maxPercentage = type === 'flash_sale' ? SHOP_MAX_DISCOUNT : 500;
+  if (!Number.isFinite(percentage) || percentage <= 0 || percentage > maxPercentage) {
+    errors.push(`Percentage must be between 1 and ${maxPercentage}`);
+  }
+
+  const productIds: string[] = Array.isArray(raw.productIds)
+    ? [...new Set<string>(raw.productIds.map((value: unknown) => cleanText(value, 40)))].filter(Boolean)
+    : [];
+  if (!productIds.length || productIds.some(productId => !catalog.packages.some(p => p.id === productId))) {
+    errors.push('Select at least one existing package');
+  }
+
+  const schedule = normalizeSchedule(raw, errors);
+  const label = cleanText(raw.label, 40)
+    || (type === 'flash_sale' ? `-${percentage}% Flash Sale` : `+${percentage}% Limited Time`);
+
+  if (errors.length || !type) return { promotion: null, errors };
+
+  return {
+    promotion: {
+      id,
+      type,
+      label,
+      percentage: parseFloat(percentage.toFixed(2)),
+      productIds,
+      ...schedule
+    },
+    errors
+  };
+}
+
+function normalizeBundleDraft(raw: any): { bundle: ShopPackage | null; errors: string[] } {
+  const errors: string[] = [];
+  if (!raw || typeof raw !== 'object') {
+    return { bundle: null, errors: ['Invalid bundle'] };
+  }
+
+  const id = cleanText(raw.id, 40).toLowerCase();
+  if (!SHOP_ENTRY_ID_REGEX.test(id)) errors.push('Bundle id must be 2-40 chars of a-z, 0-9, _ or -');
+
+  const name = cleanText(raw.name, 40).toUpperCase();
+  if (!name) errors.push('Name is required');
+
+  const diamonds = Number(raw.diamonds);
+  if (!Number.isInteger(diamonds) || diamonds <= 0 || diamonds > MAX_BUNDLE_DIAMONDS) errors.push('Invalid diamonds');
+
+  // USD e BRL obrigatórios; as outras moedas são opcionais (sem preço = cobra em USD)
+  const prices = {} as ShopPackage['prices'];
+  SHOP_CURRENCIES.forEach(currency => {
+    const value = raw.prices?.[currency];
+    if ((value === undefined || value === null || value === '') && !SHOP_REQUIRED_CURRENCIES.includes(currency)) return;
+
+    const price = Number(value);
+    if (!Number.isFinite(price) || price <= 0 || price > MAX_SHOP_PRICE) {
+      errors.push(`Invalid ${currency} price`);
+    }
+    prices[currency] = parseFloat((Number.isFinite(price) ? price : 0).toFixed(2));
+  });
+
+  const schedule = normalizeSchedule(raw, errors);
+  if (errors.length) return { bundle: null, errors };
+
+  return {
+    bundle: {
+      id,
+      name,
+      icon: cleanText(raw.icon, 8) || '🎁',
+      diamonds,
+      prices,
+      // Bundles não têm Price ID: a Stripe cobra o valor da ordem
+      stripePriceId: null,
+      availability: {
+        label: cleanText(raw.label, 40) || 'Limited Offer',
+        ...schedule
+      }
+    },
+    errors
+  };
+}
+
+/**
+ * Publica uma nova versão do catálogo da loja a partir da versão ativa
+ * (409 se outra publicação aconteceu desde `baseVersion`).
+ */
+async function publishShopCatalog(
+  baseVersion: unknown,
+  update: (current: ShopCatalog) => Pick<ShopCatalog, 'packages' | 'promotions'>,
+  userId: string
+): Promise<{ catalog?: ShopCatalog; status?: number; error?: string }> {
+  invalidateShopCatalogCache();
+  const current = await getActiveShopCatalog();
+
+  if (Number(baseVersion) !== current.version) {
+    return { status: 409, error: 'CATALOG_CHANGED' };
+  }
+
+  const next: ShopCatalog = {
+    version: current.version + 1,
+    publishedAt: new Date().toISOString(),
+    subscriptions: current.subscriptions,
+    ...update(current)
+  };
+
+  const errors = validateShopCatalog(next);
+  if (errors.length) {
+    return { status: 400, error: errors[0] };
+  }
+
+  // A coluna version é única: duas publicações simultâneas não passam
+  const { error } = await supabase
+    .from('shop_catalogs')
+    .insert({
+      version: next.version,
+      data: { packages: next.packages, subscriptions: next.subscriptions, promotions: next.promotions },
+      published_at: next.publishedAt,
+      published_by: userId
+    });
+
+  if (error) {
+    console.error('Error publishing shop catalog:', error.message);
+    return { status: 409, error: 'CATALOG_CHANGED' };
+  }
+
+  invalidateShopCatalogCache();
+  return { catalog: next };
+}
+
+/**
+ * Catálogo ativo da loja para o painel de promoções
+ */
+async function handleGetShopCatalog(req: ApiRequest, res: ApiResponse, validation: ValidationResult): Promise<void> {
+  try {
+    invalidateShopCatalogCache();
+    const catalog = await getActiveShopCatalog();
+
+    return res.status(200).json({
+      success: true,
+      catalog,
+      canEdit: isAdminRole(validation)
+    });
+  } catch (err) {
+    console.error('handleGetShopCatalog error:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Agenda (ou edita) uma flash sale / bônus temporário
+ */
+async function handleSaveShopPromotion(req: ApiRequest, res: ApiResponse, validation: ValidationResult): Promise<void> {
+  try {
+    const { userId } = validation;
+    const { promotion: draft, baseVersion } = req.body || {};
+
+    if (!userId || !isAdminRole(validation)) {
+      return res.status(403).json({ error: 'Only admins can edit the shop' });
+    }
+
+    const current = await getActiveShopCatalog();
+    const { promotion, errors } = normalizePromotionDraft(draft, current);
+    if (!promotion) {
+      return res.status(400).json({ error: errors[0] || 'Invalid promotion', errors });
+    }
+
+    const exists = current.promotions.some(p => p.id === promotion.id);
+    const result = await publishShopCatalog(baseVersion, catalog => ({
+      packages: catalog.packages,
+      promotions: exists
+        ? catalog.promotions.map(p => (p.id === promotion.id ? promotion : p))
+        : [...catalog.promotions, promotion]
+    }), userId);
+
+    if (!result.catalog) {
+      return res.status(result.status || 500).json({ error: result.error });
+    }
+
+    await logAudit(supabase, userId, exists ? 'ADMIN_SHOP_PROMOTION_UPDATED' : 'ADMIN_SHOP_PROMOTION_CREATED', {
+      promotionId: promotion.id,
+      type: promotion.type,
+      percentage: promotion.percentage,
+      productIds: promotion.productIds,
+      startsAt: promotion.startsAt,
+      endsAt: promotion.endsAt,
+      catalogVersion: result.catalog.version
+    }, req).catch(() => {});
+
+    return res.status(200).json({ success: true, catalog: result.catalog });
+  } catch (err) {
+    console.error('handleSaveShopPromotion error:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Agenda (ou edita) um bundle: pacote vendido só dentro da janela
+ */
+async function handleSaveShopBundle(req: ApiRequest, res: ApiResponse, validation: ValidationResult): Promise<void> {
+  try {
+    const { userId } = validation;
+    const { bundle: draft, baseVersion } = req.body || {};
+
+    if (!userId || !isAdminRole(validation)) {
+      return res.status(403).json({ error: 'Only admins can edit the shop' });
+    }
+
+    const current = await getActiveShopCatalog();
+    const { bundle, errors } = normalizeBundleDraft(draft);
+    if (!bundle) {
+      return res.status(400).json({ error: errors[0] || 'Invalid bundle', errors });
+    }
+
+    const existing = current.packages.find(p => p.id === bundle.id);
+    if (existing && !existing.availability) {
+      return res.status(409).json({ error: 'A permanent package already uses this id' });
+    }
+    if (current.subscriptions.some(s => s.id === bundle.id)) {
+      return res.status(409).json({ error: 'A subscription already uses this id' });
+    }
+
+    const result = await publishShopCatalog(baseVersion, catalog => ({
+      packages: existing
+        ? catalog.packages.map(p => (p.id === bundle.id ? bundle : p))
+        : [...catalog.packages, bundle],
+      promotions: catalog.promotions
+    }), userId);
+
+    if (!result.catalog) {
+      return res.status(result.status || 500).json({ error: result.error });
+    }
+
+    await logAudit(supabase, userId, existing ? 'ADMIN_SHOP_BUNDLE_UPDATED' : 'ADMIN_SHOP_BUNDLE_CREATED', {
+      bundleId: bundle.id,
+      diamonds: bundle.diamonds,
+      prices: bundle.prices,
+      startsAt: bundle.availability?.startsAt,
+      endsAt: bundle.availability?.endsAt,
+      catalogVersion: result.catalog.version
+    }, req).catch(() => {});
+
+    return res.status(200).json({ success: true, catalog: result.catalog });
+  } catch (err) {
+    console.error('handleSaveShopBundle error:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Remove uma promoção ou bundle agendado (pacotes permanentes ficam)
+ */
+async function handleRemoveShopEntry(req: ApiRequest, res: ApiResponse, validation: ValidationResult): Promise<void> {
+  try {
+    const { userId } = validation;
+    const { entryId, kind, baseVersion } = req.body || {};
+
+    if (!userId || !isAdminRole(validation)) {
+      return res.status(403).json({ error: 'Only admins can edit the shop' });
+    }
+
+    if (typeof entryId !== 'string' || !SHOP_ENTRY_ID_REGEX.test(entryId) || (kind !== 'promotion' && kind !== 'bundle')) {
+      return res.status(400).json({ error: 'Invalid entry' });
+    }
+
+    const current = await getActiveShopCatalog();
+    const exists = kind === 'promotion'
+      ? current.promotions.some(p => p.id === entryId)
+      : current.packages.some(p => p.id === entryId && p.availability);
+    if (!exists) {
+      return res.status(404).json({ error: 'Entry not found' });
+    }
+
+    // Promoções que só apontavam para o bundle removido saem junto
+    const result = await publishShopCatalog(baseVersion, catalog => (
+      kind === 'promotion'
+        ? { packages: catalog.packages, promotions: catalog.promotions.filter(p => p.id !== entryId) }
+        : {
+          packages: catalog.packages.filter(p => p.id !== entryId),
+          promotions: catalog.promotions
+            .map(p => ({ ...p, productIds: p.productIds.filter(id => id !== entryId) }))
+            .filter(p => p.productIds.length > 0)
+        }
+    ), userId);
+
+    if (!result.catalog) {
+      return res.status(result.status || 500).json({ error: result.error });
+    }
+
+    await logAudit(supabase, userId, kind === 'promotion' ? 'ADMIN_SHOP_PROMOTION_REMOVED' : 'ADMIN_SHOP_BUNDLE_REMOVED', {
+      entryId,
+      catalogVersion: result.catalog.version
+    }, req).catch(() => {});
+
+    return res.status(200).json({ success: true, catalog: result.catalog });
+  } catch (err) {
+    console.error('handleRemoveShopEntry error:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// ============================================================
+// PROMO CODES (CAMPANHAS E CÓDIGOS DE PRESENTE)
+// ============================================================
+// Resgate em api/_promocodes.ts. Depois do primeiro resgate a recompensa
+// fica fixa: quem já resgatou recebeu a versão antiga.
+
+const MAX_PROMO_USES = 1_000_000;
+
+function optionalInteger(value: unknown, min: number, max: number, label: string, errors: string[]): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    errors.push(`${label} must be a whole number between ${min} and ${max}`);
+    return null;
+  }
+  return number;
+}
+
+function normalizePromoReward(raw: any): PromoReward | null {
+  switch (raw?.type) {
+    case 'diamonds':
+    case 'money':
+      return { type: raw.type, amount: parseFloat(Number(raw.amount).toFixed(2)) };
+    case 'pass':
+      return { type: 'pass', passId: cleanText(raw.passId, 40) };
+    case 'theme':
+      return { type: 'theme', themeId: cleanText(raw.themeId, 50) };
+    case 'shop_discount':
+      return { type: 'shop_discount', percentage: Number(raw.percentage) };
+    default:
+      return null;
+  }
+}
+
+function normalizePromoCodeDraft(raw: any): { promo: PromoCode | null; errors: string[] } {
+  const errors: string[] = [];
+  if (!raw || typeof raw !== 'object') {
+    return { promo: null, errors: ['Invalid promo code'] };
+  }
+
+  const code = normalizePromoCode(raw.code);
+  if (!isValidPromoCode(code)) errors.push('Code must be 4-24 chars of A-Z, 0-9, _ or -');
+
+  const reward = normalizePromoReward(raw.reward);
+  const rewardError = validatePromoReward(reward, themeId => !!getThemeConfig(themeId));
+  if (rewardError) errors.push(rewardError);
+
+  const maxUses = optionalInteger(raw.maxUses, 1, MAX_PROMO_USES, 'Max uses', errors);
+  const perUserLimit = optionalInteger(raw.perUserLimit, 1, PROMO_MAX_PER_USER, 'Uses per player', errors) ?? 1;
+
+  const startsAt = cleanDate(raw.startsAt);
+  const expiresAt = cleanDate(raw.expiresAt);
+  if (startsAt && expiresAt && Date.parse(startsAt) >= Date.parse(expiresAt)) {
+    errors.push('Expiry must be after the start date');
+  }
+
+  const eligibility = {
+    maxAccountAgeDays: optionalInteger(raw.eligibility?.maxAccountAgeDays, 1, 3650, 'Account age', errors),
+    minLevel: optionalInteger(raw.eligibility?.minLevel, 1, 1000, 'Minimum level', errors),
+    firstPurchaseOnly: raw.eligibility?.firstPurchaseOnly === true
+  };
+
+  if (errors.length || !reward) return { promo: null, errors };
+
+  return {
+    promo: {
+      code,
+      reward,
+      maxUses,
+      perUserLimit,
+      uses: 0,
+      startsAt,
+      expiresAt,
+      eligibility,
+      active: raw.active !== false,
+      note: cleanText(raw.note, 200)
+    },
+    errors
+  };
+}
+
+async function handleListPromoCodes(req: ApiRequest, res: ApiResponse, validation: ValidationResult): Promise<void> {
+  try {
+    const { data, error } = await supabase
+      .from('promo_codes')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(200);
+
+    if (error) {
+      console.error('Error fetching promo codes:', error);
+      return res.status(500).json({ error: 'Failed to fetch promo codes' });
+    }
+
+    return res.status(200).json({
+      success: true,
+      codes: (data || []).map(row => parsePromoCodeRow(row as PromoCodeRow)),
+      canEdit: isAdminRole(validation)
+    });
+  } catch (err) {
+    console.error('handleListPromoCodes error:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Cria ou edita um código. `uses` nunca vem do body: só o resgate mexe nele.
+ */
+async function handleSavePromoCode(req: ApiRequest, res: ApiResponse, validation: ValidationResult): Promise<void> {
+  try {
+    const { userId } = validation;
+    if (!userId || !isAdminRole(validation)) {
+      return res.status(403).json({ error: 'Only admins can manage promo codes' });
+    }
+
+    const { promo, errors } = normalizePromoCodeDraft(req.body?.promo);
+    if (!promo) {
+      return res.status(400).json({ error: errors[0] || 'Invalid promo code', errors });
+    }
+
+    const existing = await fetchPromoCode(promo.code);
+    if (existing && req.body?.isNew === true) {
+      return res.status(409).json({ error: 'A promo code with this name already exists' });
+    }
+    if (existing && existing.uses > 0 && JSON.stringify(existing.reward) !== JSON.stringify(promo.reward)) {
+      return res.status(409).json({ error: 'The reward cannot change after the code was redeemed' });
+    }
+    if (existing && promo.maxUses !== null && promo.maxUses < existing.uses) {
+      return res.status(400).json({ error: `Max uses cannot be lower than the ${existing.uses} redemptions so far` });
+    }
+
+    const row = {
+      reward: promo.reward,
+      max_uses: promo.maxUses,
+      per_user_limit: promo.perUserLimit,
+      starts_at: promo.startsAt,
+      expires_at: promo.expiresAt,
+      eligibility: promo.eligibility,
+      active: promo.active,
+      note: promo.note || null,
+      updated_at: new Date().toISOString()
+    };
+
+    const { data, error } = existing
+      ? await supabase.from('promo_codes').update(row).eq('code', promo.code).select('*').single()
+      : await supabase.from('promo_codes').insert({ ...row, code: promo.code, uses: 0, created_by: userId }).select('*').single();
+
+    if (error || !data) {
+      if (error?.code === '23505') {
+        return res.status(409).json({ error: 'A promo code with this name already exists' });
+      }
+      console.error('Error saving promo code:', error);
+      return res.status(500).json({ error: 'Failed to save promo code' });
+    }
+
+    await logAudit(supabase, userId, existing ? 'ADMIN_PROMO_CODE_UPDATED' : 'ADMIN_PROMO_CODE_CREATED', {
+      code: promo.code,
+      reward: promo.reward,
+      maxUses: promo.maxUses,
+      perUserLimit: promo.perUserLimit,
+      expiresAt: promo.expiresAt,
+      eligibility: promo.eligibility
+    }, req).catch(() => {});
+
+    return res.status(200).json({ success: true, code: parsePromoCodeRow(data as PromoCodeRow) });
+  } catch (err) {
+    console.error('handleSavePromoCode error:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+async function handleSetPromoCodeActive(req: ApiRequest, res: ApiResponse, validation: ValidationResult): Promise<void> {
+  try {
+    const { userId } = validation;
+    if (!userId || !isAdminRole(validation)) {
+      return res.status(403).json({ error: 'Only admins can manage promo codes' });
+    }
+
+    const code = normalizePromoCode(req.body?.code);
+    const active = req.body?.active === true;
+    if (!isValidPromoCode(code)) {
+      return res.status(400).json({ error: 'Invalid promo code' });
+    }
+
+    const { data, error } = await supabase
+      .from('promo_codes')
+      .update({ active, updated_at: new Date().toISOString() })
+      .eq('code', code)
+      .select('*');
+
+    if (error) {
+      console.error('Error updating promo code:', error);
+      return res.status(500).json({ error: 'Failed to update promo code' });
+    }
+    if (!data || data.length === 0) {
+      return res.status(404).json({ error: 'Promo code not found' });
+    }
+
+    await logAudit(supabase, userId, active ? 'ADMIN_PROMO_CODE_ENABLED' : 'ADMIN_PROMO_CODE_DISABLED', { code }, req).catch(() => {});
+
+    return res.status(200).json({ success: true, code: parsePromoCodeRow(data[0] as PromoCodeRow) });
+  } catch (err) {
+    console.error('handleSetPromoCodeActive error:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
 export default async function handler(req: ApiRequest, res: ApiResponse): Promise<void> {
   const startTime = Date.now();
   
@@ -405,6 +1277,9 @@ export default async function handler(req: ApiRequest, res: ApiResponse): Promis
       case 'rejectOrder':
         result = await handleRejectOrder(req, res, validation);
         break;
+      case 'refundOrder':
+        result = await handleRefundOrder(req, res, validation);
+        break;
       case 'listBlockedIps':
         result = await handleListBlockedIps(req, res, validation);
         break;
@@ -414,6 +1289,39 @@ export default async function handler(req: ApiRequest, res: ApiResponse): Promis
       case 'unblockIp':
         result = await handleUnblockIp(req, res, validation);
         break;
+      case 'getCaseCatalog':
+        result = await handleGetCaseCatalog(req, res, validation);
+        break;
+      case 'analyzeCase':
+        result = await handleAnalyzeCase(req, res, validation);
+        break;
+      case 'saveCase':
+        result = await handleSaveCase(req, res, validation);
+        break;
+      case 'retireCase':
+        result = await handleRetireCase(req, res, validation);
+        break;
+      case 'getShopCatalog':
+        result = await handleGetShopCatalog(req, res, validation);
+        break;
+      case 'saveShopPromotion':
+        result = await handleSaveShopPromotion(req, res, validation);
+        break;
+      case 'saveShopBundle':
+        result = await handleSaveShopBundle(req, res, validation);
+        break;
+      case 'removeShopEntry':
+        result = await handleRemoveShopEntry(req, res, validation);
+        break;
+      case 'listPromoCodes':
+        result = await handleListPromoCodes(req, res, validation);
+        break;
+      case 'savePromoCode':
+        result = await handleSavePromoCode(req, res, validation);
+        break;
+      case 'setPromoCodeActive':
+        result = await handleSetPromoCodeActive(req, res, validation);
+        break;
       default:
         return res.status(400).json({ error: 'Invalid action' });
     }
@@ -738,4 +1646,92 @@ async function handleRejectOrder(req: ApiRequest, res: ApiResponse, validation:
     }, req).catch(() => {});
     return res.status(500).json({ error: 'Internal server error' });
   }
+}
+
+/**
+ * Pede ao gateway o reembolso de uma ordem já creditada. O estorno em si
+ * (diamantes, assinatura, referral) acontece quando o webhook de reembolso
+ * do gateway chega, igual a um reembolso feito pelo painel do gateway.
+ */
+async function handleRefundOrder(req: ApiRequest, res: ApiResponse, validation: ValidationResult): Promise<void> {
+  const { userId, role } = validation;
+  const { orderId } = req.body || {};
+
+  try {
+    if (!orderId || typeof orderId !== 'string' || orderId.length > 100) {
+      return res.status(400).json({ error: 'Invalid orderId' });
+    }
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    if (!isAdminRole(validation)) {
+      logAction(userId, 'REFUND_ORDER_FORBIDDEN', { orderId, role }, req).catch(() => {});
+      return res.status(403).json({ error: 'Only admins can refund orders' });
+    }
+
+    const { data: order, error: orderError } = await supabase
+      .from('shop_orders')
+      .select('id, status, user_id, amount, quantity, order_type, payment_method, payment_id, metadata')
+      .eq('id', orderId)
+      .single();
+
+    if (orderError || !order) {
+      logAction(userId, 'REFUND_ORDER_NOT_FOUND', { orderId }, req).catch(() => {});
+      return res.status(404).json({ error: 'Order not found' });
+    }
+
+    if (order.status !== 'success') {
+      return res.status(400).json({ error: `Only completed orders can be refunded (${order.status})` });
+    }
+
+    if (order.metadata?.refund_requested_at) {
+      return res.status(409).json({ error: 'Refund already requested for this order' });
+    }
+
+    const gateway = getPaymentGateway(order.payment_method);
+    if (!gateway) {
+      return res.status(400).json({ error: `Refunds are not available for ${order.payment_method}` });
+    }
+
+    const { refundId } = await gateway.refund(order);
+
+    await supabase
+      .from('shop_orders')
+      .update({
+        metadata: {
+          ...(order.metadata || {}),
+          refund_requested_by: userId,
+          refund_requested_at: new Date().toISOString(),
+          refund_id: refundId
+        },
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', orderId)
+      .eq('status', 'success');
+
+    logAction(userId, 'REFUND_ORDER_REQUESTED', {
+      orderId,
+      gateway: gateway.id,
+      refundId,
+      adminRole: role
+    }, req).catch(() => {});
+
+    return res.status(200).json({
+      success: true,
+      refundId,
+      message: 'Refund requested; the order is reversed when the gateway confirms it'
+    });
+
+  } catch (error) {
+    const err = error as Error;
+    console.error('💥 Error in handleRefundOrder:', err.message);
+    logAction(validation.userId || 'unknown', 'REFUND_ORDER_ERROR', { orderId, error: err.message }, req).catch(() => {});
+
+    if (error instanceof PaymentGatewayError) {
+      return res.status(error.status).json({ error: err.message });
+    }
+    return res.status(500).json({ error: 'Internal server error' });
+  }
 }
\ No newline at end of file
@@ -0,0 +1,399 @@
+// ============================================================
+// API/_BATTLEPASS.TS - Battle Pass sazonal (trilhas free e premium)
+// ============================================================
+// Temporadas, tiers e recompensas ficam em app/shared/battle-pass.ts.
+// O XP é ganho em outros handlers (aberturas em _caseopening, vendas em
+// _inventory, badges) via grantBattlePassXp e guardado em
+// `battle_pass_progress` por (user_id, season): a virada de temporada não
+// precisa de cron, o progresso da nova temporada simplesmente começa vazio.
+// O resgate marca o tier como resgatado (lock otimista) antes de entregar a
+// recompensa e desfaz a marcação se a entrega falhar.
+
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import {
+  applyCors,
+  checkRateLimit,
+  getIdentifier,
+  logAudit,
+  maybeCleanupRateLimits,
+  updatePlayerBalance,
+  updatePlayerDiamonds,
+  validateCsrfMiddleware,
+  validateSessionAndFetchPlayerStats,
+  type RateLimitEntry,
+} from './_utils.js';
+import { getThemeConfig, unlockThemeForPlayer } from './_profile.js';
+import {
+  BATTLE_PASS_DUPLICATE_DIAMONDS,
+  BATTLE_PASS_XP,
+  getBattlePassLevel,
+  getBattlePassSeason,
+  getBattlePassTier,
+  type BattlePassReward,
+  type BattlePassTrack,
+  type BattlePassXpSource
+} from '../app/shared/battle-pass.js';
+
+dotenv.config();
+
+// ============================================================
+// TYPES
+// ============================================================
+
+interface ApiRequest {
+  method?: string;
+  body?: Record<string, any>;
+  headers?: Record<string, string | string[] | undefined>;
+  connection?: { remoteAddress?: string };
+}
+
+interface ApiResponse {
+  status: (code: number) => ApiResponse;
+  json: (data: any) => void;
+  end: (data?: any) => void;
+  setHeader: (key: string, value: string) => void;
+}
+
+interface ProgressRow {
+  user_id: string;
+  season: number;
+  xp: number;
+  claimed_free: number[];
+  claimed_premium: number[];
+  updated_at: string | null;
+}
+
+interface HandlerContext {
+  userId: string;
+  premium: boolean;
+}
+
+interface GrantResult {
+  duplicate: boolean;
+  newBalance?: number;
+  newDiamonds?: number;
+  unlockedThemes?: string[];
+  unlockedPasses?: string[];
+}
+
+const supabase: SupabaseClient = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const CLAIM_LOCK_ATTEMPTS = 3;
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+const rateLimits = new Map<string, RateLimitEntry>();
+let lastRateLimitCleanupAt = 0;
+
+function cleanupRateLimits(): void {
+  lastRateLimitCleanupAt = maybeCleanupRateLimits(rateLimits, lastRateLimitCleanupAt, { maxIdleMs: 15 * 60_000, minIntervalMs: 5 * 60_000 });
+}
+
+function claimColumn(track: BattlePassTrack): 'claimed_free' | 'claimed_premium' {
+  return track === 'premium' ? 'claimed_premium' : 'claimed_free';
+}
+
+function toPublicProgress(row: ProgressRow | null, premium: boolean) {
+  const season = getBattlePassSeason();
+  const xp = Number(row?.xp) || 0;
+  return {
+    ...season,
+    xp,
+    level: getBattlePassLevel(xp),
+    premium,
+    claimedFree: row?.claimed_free || [],
+    claimedPremium: row?.claimed_premium || []
+  };
+}
+
+async function fetchProgress(userId: string, season: number): Promise<ProgressRow | null> {
+  const { data, error } = await supabase
+    .from('battle_pass_progress')
+    .select('user_id, season, xp, claimed_free, claimed_premium, updated_at')
+    .eq('user_id', userId)
+    .eq('season', season)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load battle pass progress: ${error.message}`);
+  return data as ProgressRow | null;
+}
+
+/**
+ * Adiciona XP à temporada atual. Nunca lança: falhar em dar XP não pode
+ * quebrar a ação que o gerou (abertura, venda...).
+ */
+export async function grantBattlePassXp(userId: string, source: BattlePassXpSource, count: number = 1): Promise<void> {
+  const amount = BATTLE_PASS_XP[source] * Math.max(0, Math.floor(count));
+  if (!userId || amount <= 0) return;
+
+  try {
+    const { error } = await supabase.rpc('add_battle_pass_xp', {
+      p_user_id: userId,
+      p_season: getBattlePassSeason().season,
+      p_xp: amount
+    });
+    if (error) console.error('⚠️ Failed to grant battle pass XP:', error.message);
+  } catch (err) {
+    console.error('⚠️ Failed to grant battle pass XP:', err instanceof Error ? err.message : err);
+  }
+}
+
+/**
+ * Adiciona (ou remove) o tier da lista de resgatados com lock otimista em
+ * updated_at. Retorna false se outra requisição alterou a linha antes.
+ */
+async function setTierClaimed(row: ProgressRow, track: BattlePassTrack, tier: number, claimed: boolean): Promise<boolean> {
+  const column = claimColumn(track);
+  const current = row[column] || [];
+  const next = claimed ? [...current, tier] : current.filter(t => t !== tier);
+
+  let query = supabase
+    .from('battle_pass_progress')
+    .update({ [column]: next, updated_at: new Date().toISOString() })
+    .eq('user_id', row.user_id)
+    .eq('season', row.season);
+
+  query = row.updated_at ? query.eq('updated_at', row.updated_at) : query.is('updated_at', null);
+
+  const { data, error } = await query.select('updated_at');
+  if (error || !data || data.length === 0) return false;
+
+  row[column] = next;
+  row.updated_at = data[0].updated_at;
+  return true;
+}
+
+export async function unlockPassForPlayer(userId: string, passId: string): Promise<{ unlockedPasses: string[]; added: boolean } | null> {
+  for (let attempt = 0; attempt < CLAIM_LOCK_ATTEMPTS; attempt++) {
+    const { data: current, error: fetchError } = await supabase
+      .from('player_stats')
+      .select('unlocked_passes, updated_at')
+      .eq('user_id', userId)
+      .single();
+
+    if (fetchError || !current) return null;
+
+    const unlockedPasses: string[] = Array.isArray(current.unlocked_passes) ? current.unlocked_passes : [];
+    if (unlockedPasses.includes(passId)) {
+      return { unlockedPasses, added: false };
+    }
+
+    const nextPasses = [...unlockedPasses, passId];
+    let query = supabase
+      .from('player_stats')
+      .update({ unlocked_passes: nextPasses, updated_at: new Date().toISOString() })
+      .eq('user_id', userId);
+
+    query = current.updated_at ? query.eq('updated_at', current.updated_at) : query.is('updated_at', null);
+
+    const { data: updated, error: updateError } = await query.select('unlocked_passes');
+    if (updateError) return null;
+    if (updated && updated.length > 0) {
+      return { unlockedPasses: nextPasses, added: true };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Entrega a recompensa. Tema ou pass que o jogador já tem vira
+ * BATTLE_PASS_DUPLICATE_DIAMONDS diamantes.
+ */
+async function grantReward(userId: string, reward: BattlePassReward, reason: string, req: ApiRequest): Promise<GrantResult> {
+  switch (reward.type) {
+    case 'money': {
+      const newBalance = await updatePlayerBalance(supabase, userId, reward.amount, reason, { casesOpened: 0, req: req as any });
+      return { duplicate: false, newBalance };
+    }
+    case 'diamonds': {
+      const newDiamonds = await updatePlayerDiamonds(supabase, userId, reward.amount, reason, false, req as any);
+      return { duplicate: false, newDiamonds };
+    }
+    case 'theme': {
+      if (!getThemeConfig(reward.themeId)) throw new Error(`Unknown theme: ${reward.themeId}`);
+      const result = await unlockThemeForPlayer(userId, reward.themeId, { activate: false });
+      if (!result) throw new Error('Failed to unlock theme');
+      if (result.added) return { duplicate: false, unlockedThemes: result.unlockedThemes };
+      break;
+    }
+    case 'pass': {
+      const result = await unlockPassForPlayer(userId, reward.passId);
+      if (!result) throw new Error('Failed to unlock pass');
+      if (result.added) return { duplicate: false, unlockedPasses: result.unlockedPasses };
+      break;
+    }
+  }
+
+  const newDiamonds = await updatePlayerDiamonds(supabase, userId, BATTLE_PASS_DUPLICATE_DIAMONDS, `${reason} (duplicate)`, false, req as any);
+  return { duplicate: true, newDiamonds };
+}
+
+// ============================================================
+// ACTIONS
+// ============================================================
+
+async function handleGetBattlePass(_req: ApiRequest, res: ApiResponse, ctx: HandlerContext): Promise<void> {
+  const row = await fetchProgress(ctx.userId, getBattlePassSeason().season);
+  return res.status(200).json({ success: true, progress: toPublicProgress(row, ctx.premium), xpSources: BATTLE_PASS_XP });
+}
+
+async function handleClaimReward(req: ApiRequest, res: ApiResponse, ctx: HandlerContext): Promise<void> {
+  const { tier, track: rawTrack } = req.body || {};
+
+  if (rawTrack !== 'free' && rawTrack !== 'premium') {
+    return res.status(400).json({ error: 'Invalid track' });
+  }
+  const track: BattlePassTrack = rawTrack;
+  const tierDef = Number.isInteger(tier) ? getBattlePassTier(tier) : undefined;
+  if (!tierDef) {
+    return res.status(400).json({ error: 'Invalid tier' });
+  }
+  const reward = tierDef[track];
+  if (!reward) {
+    return res.status(400).json({ error: 'NO_REWARD' });
+  }
+  if (track === 'premium' && !ctx.premium) {
+    return res.status(403).json({ error: 'PREMIUM_REQUIRED' });
+  }
+
+  const { season } = getBattlePassSeason();
+  let row: ProgressRow | null = null;
+  let marked = false;
+
+  for (let attempt = 0; attempt < CLAIM_LOCK_ATTEMPTS && !marked; attempt++) {
+    row = await fetchProgress(ctx.userId, season);
+    if (!row || getBattlePassLevel(Number(row.xp) || 0) < tierDef.tier) {
+      return res.status(400).json({ error: 'TIER_LOCKED' });
+    }
+    if ((row[claimColumn(track)] || []).includes(tierDef.tier)) {
+      return res.status(400).json({ error: 'ALREADY_CLAIMED' });
+    }
+    marked = await setTierClaimed(row, track, tierDef.tier, true);
+  }
+
+  if (!row || !marked) {
+    return res.status(409).json({ error: 'Battle pass changed. Please try again.' });
+  }
+
+  const reason = `Battle Pass S${season} tier ${tierDef.tier} (${track})`;
+  let granted: GrantResult;
+  try {
+    granted = await grantReward(ctx.userId, reward, reason, req);
+  } catch (error) {
+    const err = error as Error;
+    console.error('❌ Battle pass reward failed:', err.message);
+
+    // Desfazer a marcação para o jogador poder tentar de novo
+    let reverted = false;
+    for (let attempt = 0; attempt < CLAIM_LOCK_ATTEMPTS && !reverted; attempt++) {
+      const fresh = await fetchProgress(ctx.userId, season).catch(() => null);
+      if (!fresh) break;
+      reverted = await setTierClaimed(fresh, track, tierDef.tier, false);
+    }
+    if (!reverted) {
+      logAudit(supabase, ctx.userId, 'BATTLE_PASS_CLAIM_ROLLBACK_FAILED', { season, tier: tierDef.tier, track }, req as any).catch(() => {});
+    }
+    return res.status(500).json({ error: 'Failed to deliver reward. Please try again.' });
+  }
+
+  logAudit(supabase, ctx.userId, 'BATTLE_PASS_REWARD_CLAIMED', {
+    season,
+    tier: tierDef.tier,
+    track,
+    reward,
+    duplicate: granted.duplicate
+  }, req as any).catch(() => {});
+
+  return res.status(200).json({
+    success: true,
+    reward,
+    ...granted,
+    progress: toPublicProgress(row, ctx.premium)
+  });
+}
+
+// ============================================================
+// MAIN HANDLER
+// ============================================================
+
+export default async function handler(req: ApiRequest, res: ApiResponse): Promise<void> {
+  applyCors(req as any, res as any);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { action, userId, authToken } = req.body || {};
+  cleanupRateLimits();
+
+  const identifier = getIdentifier(req as any, userId);
+  if (!checkRateLimit(rateLimits, identifier, { maxRequests: 40, windowMs: 60_000 })) {
+    logAudit(supabase, userId || 'unknown', 'BATTLE_PASS_RATE_LIMIT', { action }, req as any).catch(() => {});
+    return res.status(429).json({ error: 'Too many requests. Please wait.' });
+  }
+
+  if (!action || typeof action !== 'string') {
+    return res.status(400).json({ error: 'Invalid action' });
+  }
+  if (!userId || typeof userId !== 'string') {
+    return res.status(400).json({ error: 'Invalid userId' });
+  }
+  if (!authToken || typeof authToken !== 'string') {
+    return res.status(400).json({ error: 'Invalid authToken' });
+  }
+
+  const { valid, error: sessionError, stats } = await validateSessionAndFetchPlayerStats(supabase, authToken, userId, {
+    select: 'user_id, battlepass'
+  });
+  if (!valid) {
+    logAudit(supabase, userId, 'BATTLE_PASS_AUTH_FAILED', { action, error: sessionError }, req as any).catch(() => {});
+    return res.status(401).json({ error: sessionError });
+  }
+
+  // 🛡️ Validar CSRF token (apenas para ações que fazem mutações)
+  const mutationActions = ['claimReward'];
+  if (mutationActions.includes(action)) {
+    const csrfValidation = await validateCsrfMiddleware(supabase, req as any, userId);
+    if (!csrfValidation.valid) {
+      console.warn('⚠️ CSRF validation failed:', { userId, action, error: csrfValidation.error });
+      logAudit(supabase, userId, 'BATTLE_PASS_CSRF_VALIDATION_FAILED', { action }, req as any).catch(() => {});
+      return res.status(403).json({ error: 'Security validation failed' });
+    }
+  }
+
+  const ctx: HandlerContext = {
+    userId,
+    premium: (stats as any)?.battlepass === true
+  };
+
+  try {
+    switch (action) {
+      case 'getBattlePass':
+        return await handleGetBattlePass(req, res, ctx);
+      case 'claimReward':
+        return await handleClaimReward(req, res, ctx);
+      default:
+        return res.status(400).json({ error: 'Invalid action' });
+    }
+  } catch (error) {
+    const err = error as Error;
+    console.error('💥 Battle pass: unhandled error', err);
+    logAudit(supabase, userId, 'BATTLE_PASS_ERROR', { action, error: err.message }, req as any).catch(() => {});
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,813 @@
+// ============================================================
+// API/_BATTLES.TS - Case Battles (PvP e vs-bot)
+// ============================================================
+// Lobbies de 2-4 lugares. Cada jogador paga a soma das cases ao entrar;
+// quando todos os lugares estão ocupados (jogadores ou bots) a batalha é
+// rolada no servidor com a mesma geração de itens de handleOpenCases e o
+// vencedor (maior valor somado) leva todos os itens para o inventário.
+
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import {
+  applyCors,
+  checkRateLimit,
+  getIdentifier,
+  logAudit,
+  maybeCleanupRateLimits,
+  updatePlayerBalance,
+  validateCsrfMiddleware,
+  validateSessionAndFetchPlayerStats,
+  type RateLimitEntry,
+} from './_utils.js';
+import {
+  checkInventoryCapacity,
+  deriveRollSeed,
+  generateRollSlots,
+  generateServerSeed,
+  getActiveCatalog,
+  getCaseById,
+  getCatalogVersion,
+  hashServerSeed,
+  type CaseDefinition,
+  type OpenedItem,
+} from './_caseopening.js';
+import { evaluateAchievements } from './_achievements.js';
+import { RNG_VERSION, seededInt } from '../app/shared/case-rng.js';
+import { DEFAULT_CASE_CATALOG, type CaseCatalog } from '../app/shared/case-catalog.js';
+
+dotenv.config();
+
+// ============================================================
+// TYPES
+// ============================================================
+
+interface ApiRequest {
+  method?: string;
+  body?: Record<string, any>;
+  headers?: Record<string, string | string[] | undefined>;
+  connection?: { remoteAddress?: string };
+}
+
+interface ApiResponse {
+  status: (code: number) => ApiResponse;
+  json: (data: any) => void;
+  end: (data?: any) => void;
+  setHeader: (key: string, value: string) => void;
+}
+
+type BattleStatus = 'waiting' | 'rolling' | 'finished' | 'cancelled';
+
+interface BattlePlayer {
+  seat: number;
+  userId: string | null;
+  username: string;
+  avatarUrl: string | null;
+  isBot: boolean;
+}
+
+interface BattleDrop {
+  seat: number;
+  winnerIndex: number;
+  item: OpenedItem | null;
+}
+
+interface BattleRound {
+  round: number;
+  caseId: string;
+  caseName: string;
+  drops: BattleDrop[];
+}
+
+interface BattleRow {
+  id: string;
+  creator_id: string;
+  status: BattleStatus;
+  seats: number;
+  case_ids: string[];
+  catalog_version: number | null;
+  entry_cost: number;
+  players: BattlePlayer[];
+  filled_seats: number;
+  server_seed: string;
+  server_seed_hash: string;
+  rounds: BattleRound[] | null;
+  winner_seat: number | null;
+  winner_id: string | null;
+  total_value: number | null;
+  created_at: string;
+  finished_at: string | null;
+}
+
+interface HandlerContext {
+  userId: string;
+  username: string;
+  avatarUrl: string | null;
+  maxInventory?: number;
+}
+
+const supabase: SupabaseClient = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const MIN_SEATS = 2;
+const MAX_SEATS = 4;
+const MAX_ROUNDS = 10;
+const LOBBY_LIST_LIMIT = 20;
+const HISTORY_LIST_LIMIT = 10;
+
+const BOT_PROFILES = [
+  { username: 'Bot Rusty', avatarSeed: 'bot-rusty' },
+  { username: 'Bot Viper', avatarSeed: 'bot-viper' },
+  { username: 'Bot Nova', avatarSeed: 'bot-nova' },
+  { username: 'Bot Goliath', avatarSeed: 'bot-goliath' }
+];
+
+const PUBLIC_COLUMNS = 'id, creator_id, status, seats, case_ids, catalog_version, entry_cost, players, filled_seats, server_seed_hash, rounds, winner_seat, winner_id, total_value, created_at, finished_at';
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+const rateLimits = new Map<string, RateLimitEntry>();
+let lastRateLimitCleanupAt = 0;
+
+function cleanupRateLimits(): void {
+  lastRateLimitCleanupAt = maybeCleanupRateLimits(rateLimits, lastRateLimitCleanupAt, { maxIdleMs: 15 * 60_000, minIntervalMs: 5 * 60_000 });
+}
+
+function isValidBattleId(battleId: unknown): battleId is string {
+  return typeof battleId === 'string' && /^[0-9a-f-]{36}$/i.test(battleId);
+}
+
+function resolveCases(catalog: CaseCatalog, caseIds: unknown): CaseDefinition[] | null {
+  if (!Array.isArray(caseIds) || caseIds.length < 1 || caseIds.length > MAX_ROUNDS) return null;
+  const cases = caseIds.map(id => (typeof id === 'string' ? getCaseById(catalog, id) : undefined));
+  return cases.every(Boolean) ? (cases as CaseDefinition[]) : null;
+}
+
+/**
+ * A batalha rola com a versão do catálogo em que foi criada, mesmo que
+ * uma nova versão seja publicada enquanto o lobby está aberto.
+ */
+async function getBattleCatalog(battle: BattleRow): Promise<CaseCatalog | null> {
+  return getCatalogVersion(battle.catalog_version ?? DEFAULT_CASE_CATALOG.version);
+}
+
+function getEntryCost(cases: CaseDefinition[]): number {
+  return parseFloat(cases.reduce((sum, c) => sum + c.price, 0).toFixed(2));
+}
+
+function buildBot(seat: number): BattlePlayer {
+  const profile = BOT_PROFILES[(seat - 1) % BOT_PROFILES.length];
+  return {
+    seat,
+    userId: null,
+    username: profile.username,
+    avatarUrl: `https://api.dicebear.com/7.x/bottts/svg?seed=${profile.avatarSeed}`,
+    isBot: true
+  };
+}
+
+function getFreeSeat(battle: BattleRow): number | null {
+  for (let seat = 1; seat <= battle.seats; seat++) {
+    if (!battle.players.some(p => p.seat === seat)) return seat;
+  }
+  return null;
+}
+
+/**
+ * O server seed só é revelado depois que a batalha termina; antes disso
+ * apenas o hash é público (mesmo modelo das aberturas provably fair).
+ */
+function toPublicBattle(battle: BattleRow, serverSeed?: string) {
+  return {
+    id: battle.id,
+    creatorId: battle.creator_id,
+    status: battle.status,
+    seats: battle.seats,
+    caseIds: battle.case_ids,
+    catalogVersion: battle.catalog_version ?? DEFAULT_CASE_CATALOG.version,
+    entryCost: Number(battle.entry_cost) || 0,
+    players: battle.players || [],
+    rounds: battle.rounds || [],
+    winnerSeat: battle.winner_seat,
+    winnerId: battle.winner_id,
+    totalValue: battle.total_value !== null ? Number(battle.total_value) : null,
+    serverSeedHash: battle.server_seed_hash,
+    serverSeed: battle.status === 'finished' ? (serverSeed ?? null) : null,
+    rngVersion: RNG_VERSION,
+    createdAt: battle.created_at,
+    finishedAt: battle.finished_at
+  };
+}
+
+async function fetchBattle(battleId: string): Promise<BattleRow | null> {
+  const { data, error } = await supabase
+    .from('battles')
+    .select('*')
+    .eq('id', battleId)
+    .single();
+
+  if (error || !data) return null;
+  return data as BattleRow;
+}
+
+async function refundPlayer(userId: string, amount: number, reason: string, req: ApiRequest): Promise<number | null> {
+  try {
+    return await updatePlayerBalance(supabase, userId, amount, reason, { casesOpened: 0, req: req as any });
+  } catch (err) {
+    console.error('💥 Battle refund failed:', userId, err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+async function refundHumans(battle: BattleRow, reason: string, req: ApiRequest): Promise<void> {
+  const humans = battle.players.filter(p => !p.isBot && p.userId);
+  await Promise.all(humans.map(p => refundPlayer(p.userId!, Number(battle.entry_cost), reason, req)));
+}
+
+async function debitEntry(userId: string, cases: CaseDefinition[], entryCost: number, req: ApiRequest): Promise<number> {
+  return updatePlayerBalance(
+    supabase,
+    userId,
+    -entryCost,
+    `Case battle entry (${cases.length} rounds)`,
+    { casesOpened: cases.length, req: req as any }
+  );
+}
+
+function mapBalanceError(error: unknown): { status: number; error: string } {
+  const message = error instanceof Error ? error.message : '';
+  if (message === 'Insufficient funds') return { status: 400, error: 'Insufficient funds' };
+  if (message === 'Diamond debt outstanding') return { status: 403, error: 'DIAMOND_DEBT' };
+  if (message === 'Balance changed. Please try again.') return { status: 409, error: message };
+  return { status: 500, error: 'Failed to update balance' };
+}
+
+/**
+ * O vencedor pode levar todos os itens da batalha, então o espaço é
+ * validado na entrada de cada jogador.
+ */
+async function checkBattleCapacity(ctx: HandlerContext, seats: number, rounds: number) {
+  return checkInventoryCapacity(ctx.userId, seats * rounds, ctx.maxInventory);
+}
+
+function capacityErrorResponse(res: ApiResponse, capacity: Awaited<ReturnType<typeof checkInventoryCapacity>>) {
+  if (capacity.error === 'INVENTORY_FULL') {
+    return res.status(400).json({
+      error: 'INVENTORY_FULL',
+      current: capacity.current,
+      max: capacity.max,
+      available: capacity.available
+    });
+  }
+  return res.status(500).json({ error: capacity.error });
+}
+
+// ============================================================
+// BATTLE RESOLUTION
+// ============================================================
+
+/**
+ * Rola todas as rodas: cada roda usa HMAC(serverSeed, `${battleId}:${round}`)
+ * como master seed e gera um slot por lugar, exatamente como uma abertura
+ * de N cases em handleOpenCases. Empates são decididos pelo mesmo seed.
+ */
+function rollBattle(battle: BattleRow, catalog: CaseCatalog): { rounds: BattleRound[]; totals: number[]; winnerSeat: number } {
+  const rounds: BattleRound[] = [];
+  const totals = new Array(battle.seats).fill(0);
+
+  battle.case_ids.forEach((caseId, index) => {
+    const caseData = getCaseById(catalog, caseId)!;
+    const masterSeed = deriveRollSeed(battle.server_seed, battle.id, index);
+    const slots = generateRollSlots(catalog, caseData, masterSeed, battle.seats);
+
+    const drops = slots.map((slot, seatIndex) => {
+      totals[seatIndex] += slot.winner?.value || 0;
+      return { seat: seatIndex + 1, winnerIndex: slot.winnerIndex, item: slot.winner };
+    });
+
+    rounds.push({ round: index + 1, caseId, caseName: caseData.name, drops });
+  });
+
+  const best = Math.max(...totals.map(t => parseFloat(t.toFixed(2))));
+  const tied = totals
+    .map((total, idx) => ({ seat: idx + 1, total: parseFloat(total.toFixed(2)) }))
+    .filter(t => t.total === best);
+
+  const tiebreakSeed = deriveRollSeed(battle.server_seed, battle.id, battle.case_ids.length);
+  const winnerSeat = tied.length === 1 ? tied[0].seat : tied[seededInt(tiebreakSeed, tied.length)].seat;
+
+  return { rounds, totals, winnerSeat };
+}
+
+/**
+ * Soma a batalha (e a vitória) em `player_stats` via RPC
+ * `increment_battle_stats`, um único UPDATE com incremento: batalhas do
+ * mesmo jogador terminando ao mesmo tempo não perdem contagem.
+ */
+async function incrementBattleStats(userId: string, won: boolean): Promise<void> {
+  try {
+    const { error } = await supabase.rpc('increment_battle_stats', {
+      p_user_id: userId,
+      p_won: won
+    });
+
+    if (error) throw new Error(error.message);
+
+    evaluateAchievements(userId).catch(() => {});
+  } catch (err) {
+    console.error('⚠️ Failed to update battle stats:', userId, err instanceof Error ? err.message : err);
+  }
+}
+
+async function deliverWinnings(winner: BattlePlayer, rounds: BattleRound[]): Promise<boolean> {
+  const now = new Date().toISOString();
+  const items = rounds.flatMap(round => round.drops.map(drop => ({ round, item: drop.item })));
+
+  const { error: invError } = await supabase
+    .from('inventory')
+    .insert(items.map(({ round, item }) => ({
+      user_id: winner.userId,
+      item_name: item?.name || 'Unknown',
+      rarity: item?.rarity || 'Unknown',
+      color: item?.rarityColor || '#999999',
+      value: item?.value || 0,
+      case_name: round.caseName,
+      obtained_at: now
+    })));
+
+  if (invError) {
+    console.error('❌ Failed to add battle items to inventory:', invError.message);
+    return false;
+  }
+
+  const bestDrop = Math.max(...items.map(({ item }) => item?.value || 0), 0);
+  if (bestDrop > 0) {
+    supabase
+      .rpc('update_best_drop', { p_user_id: winner.userId, p_new_drop: bestDrop })
+      .then(({ error }) => {
+        if (error) console.error('⚠️ Failed to update best_drop:', error.message);
+      }, () => {});
+  }
+
+  supabase
+    .from('drop_history')
+    .insert(items.map(({ item }) => ({
+      user_id: winner.userId,
+      username: winner.username,
+      item_name: item?.name || 'Unknown',
+      rarity: item?.rarity || 'Unknown',
+      color: item?.rarityColor || '#999999',
+      value: item?.value || 0,
+      drop_type: 'case_battle',
+      created_at: now
+    })))
+    .then(({ error }) => {
+      if (error) console.error('⚠️ Failed to log battle drops:', error.message);
+    }, () => {});
+
+  return true;
+}
+
+/**
+ * Chamado apenas pelo request que moveu a batalha para 'rolling'
+ * (o lock otimista em filled_seats garante um único resolvedor).
+ */
+async function resolveBattle(battle: BattleRow, catalog: CaseCatalog, req: ApiRequest): Promise<BattleRow> {
+  const { rounds, totals, winnerSeat } = rollBattle(battle, catalog);
+  const winner = battle.players.find(p => p.seat === winnerSeat)!;
+  const totalValue = parseFloat(totals.reduce((sum, t) => sum + t, 0).toFixed(2));
+
+  if (!winner.isBot && winner.userId) {
+    const delivered = await deliverWinnings(winner, rounds);
+    if (!delivered) {
+      await refundHumans(battle, `Refund: case battle ${battle.id} failed`, req);
+      await supabase
+        .from('battles')
+        .update({ status: 'cancelled', finished_at: new Date().toISOString() })
+        .eq('id', battle.id);
+      throw new Error('Failed to deliver battle items');
+    }
+  }
+
+  const finishedAt = new Date().toISOString();
+  const { data: finished, error: finishError } = await supabase
+    .from('battles')
+    .update({
+      status: 'finished',
+      rounds,
+      winner_seat: winnerSeat,
+      winner_id: winner.userId,
+      total_value: totalValue,
+      finished_at: finishedAt
+    })
+    .eq('id', battle.id)
+    .select('*')
+    .single();
+
+  if (finishError || !finished) {
+    console.error('⚠️ Failed to store battle result:', finishError?.message);
+  }
+
+  const humans = battle.players.filter(p => !p.isBot && p.userId);
+  await Promise.all(humans.map(p => incrementBattleStats(p.userId!, p.seat === winnerSeat)));
+
+  humans.forEach(p => {
+    logAudit(supabase, p.userId!, 'CASE_BATTLE_FINISHED', {
+      battleId: battle.id,
+      seat: p.seat,
+      won: p.seat === winnerSeat,
+      entryCost: battle.entry_cost,
+      totalValue
+    }, req as any).catch(() => {});
+  });
+
+  return (finished as BattleRow) || {
+    ...battle,
+    status: 'finished',
+    rounds,
+    winner_seat: winnerSeat,
+    winner_id: winner.userId,
+    total_value: totalValue,
+    finished_at: finishedAt
+  };
+}
+
+/**
+ * Atualiza a lista de jogadores com lock otimista em filled_seats.
+ * Se o último lugar foi ocupado, a batalha vai para 'rolling' no mesmo update.
+ */
+async function seatPlayers(battle: BattleRow, newPlayers: BattlePlayer[]): Promise<BattleRow | null> {
+  const players = [...battle.players, ...newPlayers].sort((a, b) => a.seat - b.seat);
+  const isFull = players.length >= battle.seats;
+
+  const { data, error } = await supabase
+    .from('battles')
+    .update({
+      players,
+      filled_seats: players.length,
+      status: isFull ? 'rolling' : 'waiting'
+    })
+    .eq('id', battle.id)
+    .eq('status', 'waiting')
+    .eq('filled_seats', battle.filled_seats)
+    .select('*');
+
+  if (error || !data?.length) return null;
+  return data[0] as BattleRow;
+}
+
+// ============================================================
+// HANDLERS
+// ============================================================
+
+async function handleListBattles(req: ApiRequest, res: ApiResponse, ctx: HandlerContext): Promise<void> {
+  const [{ data: open, error: openError }, { data: history, error: historyError }] = await Promise.all([
+    supabase
+      .from('battles')
+      .select(PUBLIC_COLUMNS)
+      .eq('status', 'waiting')
+      .order('created_at', { ascending: false })
+      .limit(LOBBY_LIST_LIMIT),
+    supabase
+      .from('battles')
+      .select(PUBLIC_COLUMNS)
+      .eq('status', 'finished')
+      .contains('players', [{ userId: ctx.userId }])
+      .order('finished_at', { ascending: false })
+      .limit(HISTORY_LIST_LIMIT)
+  ]);
+
+  if (openError || historyError) {
+    console.error('❌ Failed to list battles:', openError?.message || historyError?.message);
+    return res.status(500).json({ error: 'Failed to load battles' });
+  }
+
+  return res.status(200).json({
+    success: true,
+    open: (open || []).map(b => toPublicBattle(b as unknown as BattleRow)),
+    history: (history || []).map(b => toPublicBattle(b as unknown as BattleRow))
+  });
+}
+
+async function handleGetBattle(req: ApiRequest, res: ApiResponse): Promise<void> {
+  const { battleId } = req.body || {};
+  if (!isValidBattleId(battleId)) {
+    return res.status(400).json({ error: 'Invalid battleId' });
+  }
+
+  const battle = await fetchBattle(battleId);
+  if (!battle) {
+    return res.status(404).json({ error: 'Battle not found' });
+  }
+
+  return res.status(200).json({ success: true, battle: toPublicBattle(battle, battle.server_seed) });
+}
+
+async function handleCreateBattle(req: ApiRequest, res: ApiResponse, ctx: HandlerContext): Promise<void> {
+  const { caseIds, seats } = req.body || {};
+
+  const catalog = await getActiveCatalog();
+  const cases = resolveCases(catalog, caseIds);
+  if (!cases) {
+    return res.status(400).json({ error: `Pick between 1 and ${MAX_ROUNDS} valid cases` });
+  }
+
+  const seatCount = Number(seats);
+  if (!Number.isInteger(seatCount) || seatCount < MIN_SEATS || seatCount > MAX_SEATS) {
+    return res.status(400).json({ error: `Seats must be between ${MIN_SEATS} and ${MAX_SEATS}` });
+  }
+
+  const capacity = await checkBattleCapacity(ctx, seatCount, cases.length);
+  if (!capacity.valid) {
+    return capacityErrorResponse(res, capacity);
+  }
+
+  const entryCost = getEntryCost(cases);
+
+  let newBalance: number;
+  try {
+    newBalance = await debitEntry(ctx.userId, cases, entryCost, req);
+  } catch (error) {
+    const mapped = mapBalanceError(error);
+    return res.status(mapped.status).json({ error: mapped.error });
+  }
+
+  const serverSeed = generateServerSeed();
+  const { data: battle, error: insertError } = await supabase
+    .from('battles')
+    .insert({
+      creator_id: ctx.userId,
+      status: 'waiting',
+      seats: seatCount,
+      case_ids: cases.map(c => c.id),
+      catalog_version: catalog.version,
+      entry_cost: entryCost,
+      players: [{ seat: 1, userId: ctx.userId, username: ctx.username, avatarUrl: ctx.avatarUrl, isBot: false }],
+      filled_seats: 1,
+      server_seed: serverSeed,
+      server_seed_hash: hashServerSeed(serverSeed),
+      created_at: new Date().toISOString()
+    })
+    .select('*')
+    .single();
+
+  if (insertError || !battle) {
+    console.error('❌ Failed to create battle:', insertError?.message);
+    const refundedBalance = await refundPlayer(ctx.userId, entryCost, 'Refund: failed to create case battle', req);
+    return res.status(500).json({
+      error: 'Failed to create battle',
+      refunded: refundedBalance !== null,
+      newBalance: refundedBalance ?? undefined
+    });
+  }
+
+  logAudit(supabase, ctx.userId, 'CASE_BATTLE_CREATED', {
+    battleId: battle.id,
+    seats: seatCount,
+    caseIds: cases.map(c => c.id),
+    entryCost
+  }, req as any).catch(() => {});
+
+  return res.status(200).json({ success: true, battle: toPublicBattle(battle as BattleRow), newBalance });
+}
+
+async function handleJoinBattle(req: ApiRequest, res: ApiResponse, ctx: HandlerContext): Promise<void> {
+  const { battleId } = req.body || {};
+  if (!isValidBattleId(battleId)) {
+    return res.status(400).json({ error: 'Invalid battleId' });
+  }
+
+  const battle = await fetchBattle(battleId);
+  if (!battle) {
+    return res.status(404).json({ error: 'Battle not found' });
+  }
+  if (battle.status !== 'waiting') {
+    return res.status(409).json({ error: 'BATTLE_NOT_OPEN' });
+  }
+  if (battle.players.some(p => p.userId === ctx.userId)) {
+    return res.status(409).json({ error: 'ALREADY_JOINED' });
+  }
+
+  const seat = getFreeSeat(battle);
+  if (!seat) {
+    return res.status(409).json({ error: 'BATTLE_FULL' });
+  }
+
+  const catalog = await getBattleCatalog(battle);
+  const cases = catalog ? resolveCases(catalog, battle.case_ids) : null;
+  if (!catalog || !cases) {
+    return res.status(500).json({ error: 'Battle has invalid cases' });
+  }
+
+  const capacity = await checkBattleCapacity(ctx, battle.seats, cases.length);
+  if (!capacity.valid) {
+    return capacityErrorResponse(res, capacity);
+  }
+
+  let newBalance: number;
+  try {
+    newBalance = await debitEntry(ctx.userId, cases, Number(battle.entry_cost), req);
+  } catch (error) {
+    const mapped = mapBalanceError(error);
+    return res.status(mapped.status).json({ error: mapped.error });
+  }
+
+  const seated = await seatPlayers(battle, [
+    { seat, userId: ctx.userId, username: ctx.username, avatarUrl: ctx.avatarUrl, isBot: false }
+  ]);
+
+  if (!seated) {
+    const refundedBalance = await refundPlayer(ctx.userId, Number(battle.entry_cost), `Refund: could not join case battle ${battle.id}`, req);
+    return res.status(409).json({
+      error: 'BATTLE_CHANGED',
+      refunded: refundedBalance !== null,
+      newBalance: refundedBalance ?? undefined
+    });
+  }
+
+  logAudit(supabase, ctx.userId, 'CASE_BATTLE_JOINED', { battleId: battle.id, seat }, req as any).catch(() => {});
+
+  if (seated.status !== 'rolling') {
+    return res.status(200).json({ success: true, battle: toPublicBattle(seated), newBalance });
+  }
+
+  try {
+    const finished = await resolveBattle(seated, catalog, req);
+    return res.status(200).json({ success: true, battle: toPublicBattle(finished, seated.server_seed), newBalance });
+  } catch (error) {
+    console.error('💥 Battle resolution error:', error instanceof Error ? error.message : error);
+    return res.status(500).json({ error: 'Battle failed and was refunded', refunded: true });
+  }
+}
+
+async function handleFillWithBots(req: ApiRequest, res: ApiResponse, ctx: HandlerContext): Promise<void> {
+  const { battleId } = req.body || {};
+  if (!isValidBattleId(battleId)) {
+    return res.status(400).json({ error: 'Invalid battleId' });
+  }
+
+  const battle = await fetchBattle(battleId);
+  if (!battle) {
+    return res.status(404).json({ error: 'Battle not found' });
+  }
+  if (battle.creator_id !== ctx.userId) {
+    return res.status(403).json({ error: 'Only the creator can add bots' });
+  }
+  if (battle.status !== 'waiting') {
+    return res.status(409).json({ error: 'BATTLE_NOT_OPEN' });
+  }
+
+  const catalog = await getBattleCatalog(battle);
+  if (!catalog) {
+    return res.status(500).json({ error: 'Battle has invalid cases' });
+  }
+
+  const bots: BattlePlayer[] = [];
+  for (let seat = 1; seat <= battle.seats; seat++) {
+    if (!battle.players.some(p => p.seat === seat)) bots.push(buildBot(seat));
+  }
+
+  const seated = await seatPlayers(battle, bots);
+  if (!seated) {
+    return res.status(409).json({ error: 'BATTLE_CHANGED' });
+  }
+
+  try {
+    const finished = await resolveBattle(seated, catalog, req);
+    return res.status(200).json({ success: true, battle: toPublicBattle(finished, seated.server_seed) });
+  } catch (error) {
+    console.error('💥 Battle resolution error:', error instanceof Error ? error.message : error);
+    return res.status(500).json({ error: 'Battle failed and was refunded', refunded: true });
+  }
+}
+
+async function handleCancelBattle(req: ApiRequest, res: ApiResponse, ctx: HandlerContext): Promise<void> {
+  const { battleId } = req.body || {};
+  if (!isValidBattleId(battleId)) {
+    return res.status(400).json({ error: 'Invalid battleId' });
+  }
+
+  const battle = await fetchBattle(battleId);
+  if (!battle) {
+    return res.status(404).json({ error: 'Battle not found' });
+  }
+  if (battle.creator_id !== ctx.userId) {
+    return res.status(403).json({ error: 'Only the creator can cancel' });
+  }
+
+  const { data: cancelled, error: cancelError } = await supabase
+    .from('battles')
+    .update({ status: 'cancelled', finished_at: new Date().toISOString() })
+    .eq('id', battle.id)
+    .eq('status', 'waiting')
+    .eq('filled_seats', battle.filled_seats)
+    .select('id');
+
+  if (cancelError || !cancelled?.length) {
+    return res.status(409).json({ error: 'BATTLE_CHANGED' });
+  }
+
+  await refundHumans(battle, `Refund: case battle ${battle.id} cancelled`, req);
+
+  const { data: stats } = await supabase
+    .from('player_stats')
+    .select('money')
+    .eq('user_id', ctx.userId)
+    .single();
+
+  logAudit(supabase, ctx.userId, 'CASE_BATTLE_CANCELLED', { battleId: battle.id, refunded: battle.filled_seats }, req as any).catch(() => {});
+
+  return res.status(200).json({ success: true, newBalance: stats?.money });
+}
+
+// ============================================================
+// MAIN HANDLER
+// ============================================================
+
+export default async function handler(req: ApiRequest, res: ApiResponse): Promise<void> {
+  applyCors(req as any, res as any);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { action, userId, authToken } = req.body || {};
+  cleanupRateLimits();
+
+  const identifier = getIdentifier(req as any, userId);
+  if (!checkRateLimit(rateLimits, identifier, { maxRequests: 40, windowMs: 60_000 })) {
+    logAudit(supabase, userId || 'unknown', 'BATTLE_RATE_LIMIT', { action }, req as any).catch(() => {});
+    return res.status(429).json({ error: 'Too many requests. Please wait.' });
+  }
+
+  if (!action || typeof action !== 'string') {
+    return res.status(400).json({ error: 'Invalid action' });
+  }
+  if (!userId || typeof userId !== 'string') {
+    return res.status(400).json({ error: 'Invalid userId' });
+  }
+  if (!authToken || typeof authToken !== 'string') {
+    return res.status(400).json({ error: 'Invalid authToken' });
+  }
+
+  const { valid, error: sessionError, stats } = await validateSessionAndFetchPlayerStats(supabase, authToken, userId, {
+    select: 'user_id, username, avatar_url, max_inventory'
+  });
+  if (!valid) {
+    logAudit(supabase, userId, 'BATTLE_AUTH_FAILED', { action, error: sessionError }, req as any).catch(() => {});
+    return res.status(401).json({ error: sessionError });
+  }
+
+  // 🛡️ Validar CSRF token (apenas para ações que fazem mutações)
+  const mutationActions = ['createBattle', 'joinBattle', 'fillWithBots', 'cancelBattle'];
+  if (mutationActions.includes(action)) {
+    const csrfValidation = await validateCsrfMiddleware(supabase, req as any, userId);
+    if (!csrfValidation.valid) {
+      console.warn('⚠️ CSRF validation failed:', { userId, action, error: csrfValidation.error });
+      logAudit(supabase, userId, 'BATTLE_CSRF_VALIDATION_FAILED', { action }, req as any).catch(() => {});
+      return res.status(403).json({ error: 'Security validation failed' });
+    }
+  }
+
+  const ctx: HandlerContext = {
+    userId,
+    username: stats?.username || 'Player',
+    avatarUrl: stats?.avatar_url || null,
+    maxInventory: stats?.max_inventory
+  };
+
+  try {
+    switch (action) {
+      case 'listBattles':
+        return await handleListBattles(req, res, ctx);
+      case 'getBattle':
+        return await handleGetBattle(req, res);
+      case 'createBattle':
+        return await handleCreateBattle(req, res, ctx);
+      case 'joinBattle':
+        return await handleJoinBattle(req, res, ctx);
+      case 'fillWithBots':
+        return await handleFillWithBots(req, res, ctx);
+      case 'cancelBattle':
+        return await handleCancelBattle(req, res, ctx);
+      default:
+        return res.status(400).json({ error: 'Invalid action' });
+    }
+  } catch (error) {
+    const err = error as Error;
+    console.error('💥 Battles: unhandled error', err);
+    logAudit(supabase, userId, 'BATTLE_ERROR', { action, error: err.message }, req as any).catch(() => {});
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
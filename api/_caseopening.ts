@@ -3,7 +3,45 @@
 
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 import crypto from 'crypto';
-import { applyCors, createSecureLog, updatePlayerBalance, validateSessionAndFetchPlayerStats, ValidationSchemas, validateCsrfMiddleware } from './_utils.js';
+// RNG HMAC-SHA256 determinístico e sem viés, compartilhado com o frontend
+// para que qualquer abertura seja reproduzível
+import {
+  RNG_VERSION,
+  advancePityCounters,
+  generateItemSeeded as generateSharedItemSeeded,
+  generateRollSlots as generateSharedRollSlots,
+  normalizePityCounters,
+  type PityCounters,
+  type RolledSlot
+} from '../app/shared/case-rng.js';
+import { DEFAULT_CASE_CATALOG, findCatalogCase, getCatalogRarity, validateCatalog, type CaseCatalog, type CatalogCase } from '../app/shared/case-catalog.js';
+import {
+  UPGRADE_MAX_STAKE_ITEMS,
+  UPGRADE_ROLL_SCALE,
+  computeUpgradeChance,
+  getUpgradeTargetValue,
+  isUpgradeWin,
+  rollUpgrade
+} from '../app/shared/upgrade-odds.js';
+import {
+  CONTRACT_INPUT_COUNT,
+  getContractInputValue,
+  getContractTargetRarity,
+  rollContract
+} from '../app/shared/contract-odds.js';
+import { grantBattlePassXp } from './_battlepass.js';
+import { evaluateAchievements } from './_achievements.js';
+import {
+  FREE_CASES,
+  getFreeCase,
+  getFreeCaseCooldownMs,
+  getFreeCaseNextAvailable,
+  type FreeCase,
+  type FreeCaseStatus
+} from '../app/shared/free-cases.js';
+import { isValidDeviceId } from '../app/shared/device.js';
+import { getLevelInfo, mergeXpAwards } from '../app/shared/levels.js';
+import { applyCors, createSecureLog, getRequestIp, grantPlayerXp, logAudit, updatePlayerBalance, validateSessionAndFetchPlayerStats, ValidationSchemas, validateCsrfMiddleware } from './_utils.js';
 
 import dotenv from 'dotenv';
 dotenv.config();
@@ -15,7 +53,7 @@ interface PassConfig {
   requires?: string | null;
 }
 
-interface OpenedItem {
+export interface OpenedItem {
   name: string;
   icon: string;
   value: number;
@@ -50,29 +88,7 @@ interface ApiResponse {
   setHeader: (name: string, value: string) => void;
 }
 
-interface Rarity {
-  name: string;
-  chance: number;
-  color: string;
-  icon: string;
-}
-
-interface CaseItem {
-  name: string;
-  icon: string;
-  minValue: number;
-  maxValue: number;
-  rarityIndex: number;
-}
-
-interface CaseDefinition {
-  id: string;
-  name: string;
-  icon: string;
-  price: number;
-  color: string;
-  items: CaseItem[];
-}
+export type CaseDefinition = CatalogCase;
 
 interface PassesConfigEntry {
   id: string;
@@ -89,209 +105,91 @@ const supabase: SupabaseClient = createClient(
 );
 
 // ============================================================
-// CONSTANTS
+// CASE CATALOG (VERSIONADO)
 // ============================================================
+// Versões publicadas ficam em `case_catalogs` (version, data, published_at).
+// Sem nenhuma linha publicada, vale o catálogo embutido (versão 1) de
+// app/shared/case-catalog.ts, o mesmo que o frontend usa como fallback.
 
-const RARITIES: Rarity[] = [
-  { name: 'Common', chance: 55, color: '#9ca3af', icon: '⚪' },
-  { name: 'Uncommon', chance: 25, color: '#22c55e', icon: '🟢' },
-  { name: 'Rare', chance: 12, color: '#3b82f6', icon: '🔵' },
-  { name: 'Epic', chance: 5, color: '#a855f7', icon: '🟣' },
-  { name: 'Legendary', chance: 2.5, color: '#eab308', icon: '🟡' },
-  { name: 'Mythic', chance: 0.5, color: '#ef4444', icon: '🔴' }
-];
-
-const OPENING_CASES: CaseDefinition[] = [
-  // Cases organizadas por valor crescente - sincronizado com o frontend
-  {
-    id: 'starter_box',
-    name: 'Starter Box',
-    icon: '📦',
-    price: 5.0,
-    color: '#9ca3af',
-    items: [
-      { name: 'Basic Coin', icon: '🪙', minValue: 0.50, maxValue: 1.50, rarityIndex: 0 },
-      { name: 'Snack Pack', icon: '🧃', minValue: 1.00, maxValue: 2.80, rarityIndex: 0 },
-      { name: 'Mini Plush', icon: '🧸', minValue: 2.00, maxValue: 4.20, rarityIndex: 1 },
-      { name: 'Old Manual', icon: '📄', minValue: 3.50, maxValue: 6.50, rarityIndex: 2 },
-      { name: 'Collector Pin', icon: '📍', minValue: 6.00, maxValue: 11.00, rarityIndex: 3 },
-      { name: 'Mythic Token', icon: '✨', minValue: 12.00, maxValue: 25.00, rarityIndex: 4 }
-    ]
-  },
-  {
-    id: 'utility_box',
-    name: 'Utility Box',
-    icon: '🧰',
-    price: 9.0,
-    color: '#065f46',
-    items: [
-      { name: 'Small Hammer', icon: '🔨', minValue: 1.50, maxValue: 4.00, rarityIndex: 0 },
-      { name: 'Screwdriver', icon: '🪛', minValue: 2.50, maxValue: 5.50, rarityIndex: 0 },
-      { name: 'Weak Flashlight', icon: '🔦', minValue: 4.00, maxValue: 8.00, rarityIndex: 1 },
-      { name: 'Metal Screw', icon: '🔩', minValue: 7.00, maxValue: 13.00, rarityIndex: 2 },
-      { name: 'Mini Canteen', icon: '🧃', minValue: 11.00, maxValue: 20.00, rarityIndex: 3 },
-      { name: 'Compact Extinguisher', icon: '🧯', minValue: 18.00, maxValue: 35.00, rarityIndex: 4 },
-      { name: 'Prototype Gadget', icon: '🛰️', minValue: 30.00, maxValue: 60.00, rarityIndex: 5 }
-    ]
-  },
-  {
-    id: 'green_box',
-    name: 'Green Box',
-    icon: '📦',
-    price: 14.0,
-    color: '#3b82f6',
-    items: [
-      { name: 'Cardboard Stash', icon: '📦', minValue: 2.00, maxValue: 6.00, rarityIndex: 0 },
-      { name: 'Sealed Supply', icon: '📮', minValue: 5.00, maxValue: 11.00, rarityIndex: 1 },
-      { name: 'Crate Cache', icon: '🧰', minValue: 9.00, maxValue: 17.00, rarityIndex: 2 },
-      { name: 'Fortified Box', icon: '🪤', minValue: 15.00, maxValue: 28.00, rarityIndex: 3 },
-      { name: 'Vaulted Shipment', icon: '💼', minValue: 25.00, maxValue: 48.00, rarityIndex: 4 },
-      { name: 'Mythic Cargo', icon: '🎁', minValue: 50.00, maxValue: 95.00, rarityIndex: 5 }
-    ]
-  },
-  {
-    id: 'urban_box',
-    name: 'Urban Box',
-    icon: '🏙️',
-    price: 22.0,
-    color: '#6b7280',
-    items: [
-      { name: 'Street Headphones', icon: '🎧', minValue: 5.00, maxValue: 12.00, rarityIndex: 0 },
-      { name: 'Graffiti Note', icon: '🗒️', minValue: 8.00, maxValue: 18.00, rarityIndex: 1 },
-      { name: 'Keychain Key', icon: '🔑', minValue: 14.00, maxValue: 26.00, rarityIndex: 2 },
-      { name: 'Crushed Can', icon: '🥫', minValue: 22.00, maxValue: 40.00, rarityIndex: 3 },
-      { name: 'Neon Mask', icon: '🎭', minValue: 35.00, maxValue: 65.00, rarityIndex: 4 },
-      { name: 'Underground Pass', icon: '🚇', minValue: 70.00, maxValue: 130.00, rarityIndex: 5 }
-    ]
-  },
-  {
-    id: 'old_stuff',
-    name: 'Old Stuff Box',
-    icon: '🏺',
-    price: 35.0,
-    color: '#a16207',
-    items: [
-      { name: 'Worn Coin', icon: '🪙', minValue: 8.00, maxValue: 18.00, rarityIndex: 0 },
-      { name: 'Rusty Key', icon: '🗝️', minValue: 15.00, maxValue: 28.00, rarityIndex: 1 },
-      { name: 'Old Scroll', icon: '📜', minValue: 24.00, maxValue: 45.00, rarityIndex: 2 },
-      { name: 'Ancient Compass', icon: '🧭', minValue: 38.00, maxValue: 70.00, rarityIndex: 3 },
-      { name: 'Broken Relic', icon: '🪨', minValue: 65.00, maxValue: 120.00, rarityIndex: 4 },
-      { name: 'Forgotten Medallion', icon: '🏺', minValue: 130.00, maxValue: 250.00, rarityIndex: 5 }
-    ]
-  },
-  {
-    id: 'toy_box',
-    name: 'Toy Box',
-    icon: '🧸',
-    price: 48.0,
-    color: '#ec4899',
-    items: [
-      { name: 'Blue Bunny Plush', icon: '🐰', minValue: 12.00, maxValue: 25.00, rarityIndex: 0 },
-      { name: 'Heart Emoji Ball', icon: '😍', minValue: 20.00, maxValue: 38.00, rarityIndex: 1 },
-      { name: 'Toy Dolphin', icon: '🐬', minValue: 32.00, maxValue: 60.00, rarityIndex: 2 },
-      { name: 'Holographic Stickers', icon: '✨', minValue: 50.00, maxValue: 95.00, rarityIndex: 3 },
-      { name: 'Color Spring', icon: '🌀', minValue: 85.00, maxValue: 160.00, rarityIndex: 4 },
-      { name: 'Limited Figure', icon: '🧩', minValue: 170.00, maxValue: 320.00, rarityIndex: 5 }
-    ]
-  },
-  {
-    id: 'scrap_box',
-    name: 'Scrap Box',
-    icon: '⚙️',
-    price: 65.0,
-    color: '#525252',
-    items: [
-      { name: 'Metal Gears', icon: '⚙️', minValue: 15.00, maxValue: 32.00, rarityIndex: 0 },
-      { name: 'Old Circuit Board', icon: '🖥️', minValue: 28.00, maxValue: 52.00, rarityIndex: 1 },
-      { name: 'Bolts & Nuts', icon: '🔩', minValue: 45.00, maxValue: 85.00, rarityIndex: 2 },
-      { name: 'Brushed Metal Block', icon: '⬛', minValue: 70.00, maxValue: 135.00, rarityIndex: 3 },
-      { name: 'Alloy Core', icon: '🧊', minValue: 120.00, maxValue: 230.00, rarityIndex: 4 },
-      { name: 'Singularity Scrap', icon: '🌀', minValue: 250.00, maxValue: 480.00, rarityIndex: 5 }
-    ]
-  },
-  {
-    id: 'mixed_box',
-    name: 'Mixed Box',
-    icon: '🧳',
-    price: 85.0,
-    color: '#22d3ee',
-    items: [
-      { name: 'Thermal Cup', icon: '☕', minValue: 20.00, maxValue: 42.00, rarityIndex: 0 },
-      { name: 'Rest Pillow', icon: '😴', minValue: 35.00, maxValue: 68.00, rarityIndex: 1 },
-      { name: 'Photo Frame', icon: '🖼️', minValue: 55.00, maxValue: 105.00, rarityIndex: 2 },
-      { name: 'Snack Container', icon: '🍱', minValue: 90.00, maxValue: 170.00, rarityIndex: 3 },
-      { name: 'Weekend Bag', icon: '👜', minValue: 150.00, maxValue: 285.00, rarityIndex: 4 },
-      { name: 'Premium Travel Kit', icon: '🧴', minValue: 300.00, maxValue: 550.00, rarityIndex: 5 }
-    ]
-  },
-  {
-    id: 'basic_gun',
-    name: 'Basic Gun',
-    icon: '🔫',
-    price: 120.0,
-    color: '#ef4444',
-    items: [
-      { name: 'Training Pistol', icon: '🔫', minValue: 30.00, maxValue: 65.00, rarityIndex: 0 },
-      { name: 'Old Revolver', icon: '🤠', minValue: 55.00, maxValue: 110.00, rarityIndex: 1 },
-      { name: 'Rusty SMG', icon: '💥', minValue: 90.00, maxValue: 175.00, rarityIndex: 2 },
-      { name: 'Ammo Pack', icon: '📦', minValue: 140.00, maxValue: 270.00, rarityIndex: 3 },
-      { name: 'Weapon Parts', icon: '🧩', minValue: 240.00, maxValue: 450.00, rarityIndex: 4 },
-      { name: 'Collector Weapon', icon: '🎯', minValue: 500.00, maxValue: 900.00, rarityIndex: 5 }
-    ]
-  },
-  {
-    id: 'travel_box',
-    name: 'Travel Box',
-    icon: '🧭',
-    price: 175.0,
-    color: '#f97316',
-    items: [
-      { name: 'Trail Flashlight', icon: '🔦', minValue: 45.00, maxValue: 90.00, rarityIndex: 0 },
-      { name: 'Adventure Passport', icon: '📘', minValue: 75.00, maxValue: 145.00, rarityIndex: 1 },
-      { name: 'Star Map', icon: '🌌', minValue: 120.00, maxValue: 230.00, rarityIndex: 2 },
-      { name: 'Aluminum Canteen', icon: '🥤', minValue: 190.00, maxValue: 360.00, rarityIndex: 3 },
-      { name: 'Magnetic Compass', icon: '🧭', minValue: 320.00, maxValue: 600.00, rarityIndex: 4 },
-      { name: 'First Aid Kit', icon: '🩹', minValue: 650.00, maxValue: 1200.00, rarityIndex: 5 }
-    ]
-  },
-  {
-    id: 'treasure_chest',
-    name: 'Treasure Chest',
-    icon: '💎',
-    price: 250.0,
-    color: '#a855f7',
-    items: [
-      { name: 'Bronze Coin', icon: '🪙', minValue: 60.00, maxValue: 120.00, rarityIndex: 0 },
-      { name: 'Emerald Ring', icon: '💍', minValue: 110.00, maxValue: 210.00, rarityIndex: 1 },
-      { name: 'Sapphire Gem', icon: '💠', minValue: 180.00, maxValue: 350.00, rarityIndex: 2 },
-      { name: 'Ruby Crown', icon: '👑', minValue: 300.00, maxValue: 580.00, rarityIndex: 3 },
-      { name: 'Diamond Scepter', icon: '🔱', minValue: 550.00, maxValue: 1050.00, rarityIndex: 4 },
-      { name: 'Ancient Artifact', icon: '🏺', minValue: 1200.00, maxValue: 2500.00, rarityIndex: 5 }
-    ]
-  },
-  {
-    id: 'military_case',
-    name: 'Military Case',
-    icon: '🪖',
-    price: 400.0,
-    color: '#374151',
-    items: [
-      { name: 'Military Helmet', icon: '🪖', minValue: 100.00, maxValue: 200.00, rarityIndex: 0 },
-      { name: 'Ammo Crate', icon: '📦', minValue: 180.00, maxValue: 350.00, rarityIndex: 1 },
-      { name: 'Light Rifle', icon: '🔫', minValue: 300.00, maxValue: 580.00, rarityIndex: 2 },
-      { name: 'Armored Jeep', icon: '🚙', minValue: 500.00, maxValue: 950.00, rarityIndex: 3 },
-      { name: 'Battle Tank', icon: '🛡️', minValue: 900.00, maxValue: 1700.00, rarityIndex: 4 },
-      { name: 'Fighter Jet', icon: '✈️', minValue: 2000.00, maxValue: 4000.00, rarityIndex: 5 }
-    ]
+const CATALOG_CACHE_TTL_MS = 60_000;
+
+interface CatalogRow {
+  version: number;
+  data: Partial<CaseCatalog>;
+  published_at: string;
+}
+
+let activeCatalogCache: { catalog: CaseCatalog; fetchedAt: number } | null = null;
+const catalogsByVersion = new Map<number, CaseCatalog>([[DEFAULT_CASE_CATALOG.version, DEFAULT_CASE_CATALOG]]);
+
+function parseCatalogRow(row: CatalogRow): CaseCatalog | null {
+  const catalog = {
+    ...row.data,
+    version: Number(row.version),
+    publishedAt: row.published_at
+  } as CaseCatalog;
+
+  const errors = validateCatalog(catalog);
+  if (errors.length) {
+    console.error(`❌ Case catalog v${row.version} is invalid:`, errors.slice(0, 5));
+    return null;
+  }
+  return catalog;
+}
+
+export async function getActiveCatalog(): Promise<CaseCatalog> {
+  if (activeCatalogCache && Date.now() - activeCatalogCache.fetchedAt < CATALOG_CACHE_TTL_MS) {
+    return activeCatalogCache.catalog;
+  }
+
+  let catalog: CaseCatalog = activeCatalogCache?.catalog || DEFAULT_CASE_CATALOG;
+  try {
+    const { data, error } = await supabase
+      .from('case_catalogs')
+      .select('version, data, published_at')
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (data) {
+      catalog = parseCatalogRow(data as CatalogRow) || catalog;
+    }
+  } catch (err) {
+    console.error('⚠️ Failed to load case catalog, keeping current version:', err instanceof Error ? err.message : err);
   }
-];
 
-function getCaseById(caseId: string): CaseDefinition | undefined {
-  return OPENING_CASES.find(c => c.id === caseId);
+  catalogsByVersion.set(catalog.version, catalog);
+  activeCatalogCache = { catalog, fetchedAt: Date.now() };
+  return catalog;
+}
+
+/**
+ * Versão específica do catálogo (para verificar/reproduzir aberturas antigas)
+ */
+export async function getCatalogVersion(version: number): Promise<CaseCatalog | null> {
+  const cached = catalogsByVersion.get(version);
+  if (cached) return cached;
+
+  const { data, error } = await supabase
+    .from('case_catalogs')
+    .select('version, data, published_at')
+    .eq('version', version)
+    .maybeSingle();
+
+  if (error || !data) return null;
+
+  const catalog = parseCatalogRow(data as CatalogRow);
+  if (catalog) catalogsByVersion.set(catalog.version, catalog);
+  return catalog;
+}
+
+export function invalidateCatalogCache(): void {
+  activeCatalogCache = null;
 }
 
-function getRarityByIndex(index: number): Rarity {
-  return RARITIES[Math.min(index, RARITIES.length - 1)];
+export function getCaseById(catalog: CaseCatalog, caseId: string): CaseDefinition | undefined {
+  return findCatalogCase(catalog, caseId);
 }
 
 // ============================================================
@@ -330,108 +228,256 @@ function getPassConfig(passId: string): PassConfig | null {
 }
 
 // ============================================================
-// SECURE RNG
+// PROVABLY FAIR (SERVER SEED COMMIT + CLIENT SEED + NONCE)
 // ============================================================
+// Cada usuário tem um par ativo em `fairness_seeds`. O hash SHA-256 do
+// server seed é mostrado antes de qualquer abertura; o seed em si só é
+// revelado quando o par é rotacionado. Cada abertura consome um nonce e
+// usa HMAC-SHA256(serverSeed, `${clientSeed}:${nonce}`) como master seed.
+
+interface FairnessSeedRow {
+  id: string;
+  user_id: string;
+  server_seed: string;
+  server_seed_hash: string;
+  client_seed: string;
+  nonce: number;
+  active: boolean;
+  created_at?: string;
+  revealed_at?: string | null;
+}
 
-function generateSecureSeed(userId: string, caseId: string, timestamp: number): string {
-  const randomBytes = crypto.randomBytes(32).toString('hex');
-  const nonce = crypto.randomInt(0, 1000000);
-  return `case-${userId}-${caseId}-${timestamp}-${nonce}-${randomBytes}`;
+const CLIENT_SEED_REGEX = /^[A-Za-z0-9_-]{1,64}$/;
+const SERVER_SEED_REGEX = /^[a-f0-9]{64}$/;
+const REVEALED_SEEDS_LIMIT = 10;
+
+export function generateServerSeed(): string {
+  return crypto.randomBytes(32).toString('hex');
 }
 
-function seededRandom(seed: string | number): number {
-  let seedValue = 0;
-  const seedStr = String(seed);
-  
-  for (let i = 0; i < seedStr.length; i++) {
-    seedValue = ((seedValue << 5) - seedValue) + seedStr.charCodeAt(i);
-    seedValue = seedValue & seedValue;
+function generateClientSeed(): string {
+  return crypto.randomBytes(8).toString('hex');
+}
+
+export function hashServerSeed(serverSeed: string): string {
+  return crypto.createHash('sha256').update(serverSeed).digest('hex');
+}
+
+export function deriveRollSeed(serverSeed: string, clientSeed: string, nonce: number): string {
+  return crypto.createHmac('sha256', serverSeed).update(`${clientSeed}:${nonce}`).digest('hex');
+}
+
+function isValidClientSeed(clientSeed: unknown): clientSeed is string {
+  return typeof clientSeed === 'string' && CLIENT_SEED_REGEX.test(clientSeed);
+}
+
+async function createFairnessSeed(userId: string, clientSeed?: string): Promise<FairnessSeedRow> {
+  const serverSeed = generateServerSeed();
+  const { data, error } = await supabase
+    .from('fairness_seeds')
+    .insert({
+      user_id: userId,
+      server_seed: serverSeed,
+      server_seed_hash: hashServerSeed(serverSeed),
+      client_seed: clientSeed || generateClientSeed(),
+      nonce: 0,
+      active: true,
+      created_at: new Date().toISOString()
+    })
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    throw new Error('Failed to create fairness seed');
   }
-  
-  const x = Math.sin(Math.abs(seedValue)) * 10000;
-  return x - Math.floor(x);
+
+  return data as FairnessSeedRow;
 }
 
-function createSeededRNG(seed: string | number): () => number {
-  let seedValue = 0;
-  const seedStr = String(seed);
-  
-  for (let i = 0; i < seedStr.length; i++) {
-    seedValue = ((seedValue << 5) - seedValue) + seedStr.charCodeAt(i);
-    seedValue = seedValue & seedValue;
+async function getActiveFairnessSeed(userId: string): Promise<FairnessSeedRow> {
+  const { data, error } = await supabase
+    .from('fairness_seeds')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('active', true)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error('Failed to fetch fairness seed');
   }
-  
-  return function() {
-    const x = Math.sin(Math.abs(seedValue++)) * 10000;
-    return x - Math.floor(x);
+
+  return data ? (data as FairnessSeedRow) : createFairnessSeed(userId);
+}
+
+/**
+ * Reserva o próximo nonce do par ativo (lock otimista no valor atual).
+ * Um nonce reservado nunca é reutilizado, mesmo que a abertura falhe depois.
+ */
+async function claimFairnessNonce(seed: FairnessSeedRow): Promise<number> {
+  const nonce = Number(seed.nonce) || 0;
+  const { data, error } = await supabase
+    .from('fairness_seeds')
+    .update({ nonce: nonce + 1 })
+    .eq('id', seed.id)
+    .eq('active', true)
+    .eq('nonce', nonce)
+    .select('nonce');
+
+  if (error) {
+    throw new Error('Failed to reserve nonce');
+  }
+  if (!data || data.length === 0) {
+    throw new Error('Concurrent modification detected');
+  }
+
+  return nonce;
+}
+
+async function rotateFairnessSeed(
+  userId: string,
+  clientSeed?: string
+): Promise<{ previous: FairnessSeedRow; current: FairnessSeedRow }> {
+  const previous = await getActiveFairnessSeed(userId);
+
+  const { data, error } = await supabase
+    .from('fairness_seeds')
+    .update({ active: false, revealed_at: new Date().toISOString() })
+    .eq('id', previous.id)
+    .eq('active', true)
+    .select('id');
+
+  if (error) {
+    throw new Error('Failed to rotate fairness seed');
+  }
+  if (!data || data.length === 0) {
+    throw new Error('Concurrent modification detected');
+  }
+
+  const current = await createFairnessSeed(userId, clientSeed || previous.client_seed);
+  return { previous, current };
+}
+
+async function fetchRevealedSeeds(userId: string): Promise<FairnessSeedRow[]> {
+  const { data, error } = await supabase
+    .from('fairness_seeds')
+    .select('server_seed, server_seed_hash, client_seed, nonce, created_at, revealed_at')
+    .eq('user_id', userId)
+    .eq('active', false)
+    .order('revealed_at', { ascending: false })
+    .limit(REVEALED_SEEDS_LIMIT);
+
+  if (error) {
+    console.error('⚠️ Failed to fetch revealed seeds:', error.message);
+    return [];
+  }
+
+  return (data || []) as FairnessSeedRow[];
+}
+
+function toPublicFairness(seed: FairnessSeedRow) {
+  return {
+    serverSeedHash: seed.server_seed_hash,
+    clientSeed: seed.client_seed,
+    nonce: Number(seed.nonce) || 0
   };
 }
 
 // ============================================================
-// ITEM GENERATION
+// PITY COUNTERS
 // ============================================================
-
-interface AdjustedPool {
-  item: CaseItem;
-  rarity: Rarity;
-  cumulative: number;
+// Cases com regras de pity guardam, por usuário e case, as aberturas desde o
+// último drop de cada raridade protegida em `case_pity_counters`
+// (user_id, case_id, counters, version). Os contadores são lidos antes da
+// abertura, entram no roll junto com o master seed e ficam registrados em
+// `case_openings.pity_counters`, então a abertura continua reproduzível.
+// Os contadores seguintes são gravados (lock em `version`) antes da
+// cobrança, então duas aberturas simultâneas não rolam com o mesmo estado.
+
+interface PityState {
+  counters: PityCounters;
+  version: number | null;
 }
 
-function buildAdjustedPools(caseData: CaseDefinition): AdjustedPool[] {
-  const pools: AdjustedPool[] = [];
-  const buckets = RARITIES.map((rarity, idx) => {
-    const items = caseData.items.filter((it) => it.rarityIndex === idx);
-    return items.length ? { rarity, items } : null;
-  }).filter((b): b is { rarity: Rarity; items: CaseItem[] } => b !== null);
+async function getPityState(userId: string, caseData: CaseDefinition): Promise<PityState> {
+  const { data, error } = await supabase
+    .from('case_pity_counters')
+    .select('counters, version')
+    .eq('user_id', userId)
+    .eq('case_id', caseData.id)
+    .maybeSingle();
 
-  if (!buckets.length) return pools;
+  if (error) {
+    throw new Error('Failed to fetch pity counters');
+  }
 
-  const totalBase = buckets.reduce((sum, b) => sum + b.rarity.chance, 0);
-  let cumulative = 0;
+  return {
+    counters: normalizePityCounters(caseData.pity, data?.counters),
+    version: data ? Number(data.version) || 0 : null
+  };
+}
 
-  for (const bucket of buckets) {
-    const rarityChance = (bucket.rarity.chance / totalBase) * 100;
-    const perItemChance = rarityChance / bucket.items.length;
-    for (const item of bucket.items) {
-      cumulative += perItemChance;
-      pools.push({ item, rarity: bucket.rarity, cumulative });
-    }
+/**
+ * Grava os contadores com lock otimista na versão lida antes da abertura.
+ * Retorna false se outra abertura do mesmo case gravou antes.
+ */
+async function savePityState(userId: string, caseId: string, previous: PityState, counters: PityCounters): Promise<boolean> {
+  const updatedAt = new Date().toISOString();
+
+  if (previous.version === null) {
+    const { error } = await supabase
+      .from('case_pity_counters')
+      .insert({ user_id: userId, case_id: caseId, counters, version: 1, updated_at: updatedAt });
+    if (error && error.code !== '23505') throw new Error('Failed to save pity counters');
+    return !error;
   }
 
-  if (pools.length) pools[pools.length - 1].cumulative = 100;
-  return pools;
+  const { data, error } = await supabase
+    .from('case_pity_counters')
+    .update({ counters, version: previous.version + 1, updated_at: updatedAt })
+    .eq('user_id', userId)
+    .eq('case_id', caseId)
+    .eq('version', previous.version)
+    .select('version');
+
+  if (error) throw new Error('Failed to save pity counters');
+  return Boolean(data && data.length > 0);
 }
 
-function generateItemSeeded(caseData: CaseDefinition, seed: string | number): OpenedItem | null {
-  const rng = createSeededRNG(seed);
-  const pools = buildAdjustedPools(caseData);
-  if (!pools.length) {
-    const fallback = caseData.items?.[0];
-    if (!fallback) return null;
-    const rarity = RARITIES[Math.min(fallback.rarityIndex, RARITIES.length - 1)];
-    const mid = (fallback.minValue + fallback.maxValue) / 2;
-    return {
-      name: fallback.name,
-      icon: fallback.icon,
-      rarity: rarity.name,
-      rarityIcon: rarity.icon,
-      rarityColor: rarity.color,
-      value: parseFloat(mid.toFixed(2))
-    };
+async function fetchAllPityCounters(userId: string): Promise<Record<string, PityCounters>> {
+  const { data, error } = await supabase
+    .from('case_pity_counters')
+    .select('case_id, counters')
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('⚠️ Failed to fetch pity counters:', error.message);
+    return {};
   }
 
-  const roll = rng() * 100;
-  const hit = pools.find(p => roll <= p.cumulative) || pools[pools.length - 1];
-  const itemValue = hit.item.minValue + (rng() * (hit.item.maxValue - hit.item.minValue));
-  
-  return {
-    name: hit.item.name,
-    icon: hit.item.icon,
-    rarity: hit.rarity.name,
-    rarityIcon: hit.rarity.icon,
-    rarityColor: hit.rarity.color,
-    value: parseFloat(itemValue.toFixed(2))
-  };
+  return Object.fromEntries((data || []).map(row => [row.case_id, row.counters || {}]));
+}
+
+// ============================================================
+// ITEM GENERATION
+// ============================================================
+
+function generateItemSeeded(catalog: CaseCatalog, caseData: CaseDefinition, seed: string | number): OpenedItem | null {
+  return generateSharedItemSeeded(caseData, catalog.rarities, seed);
+}
+
+/**
+ * Gera os 96 itens de cada slot e o índice vencedor a partir do master seed.
+ * Usado tanto na abertura real quanto na verificação pública. Sem
+ * `pityCounters` (batalhas) as regras de pity do case não se aplicam.
+ */
+export function generateRollSlots(
+  catalog: CaseCatalog,
+  caseData: CaseDefinition,
+  masterSeed: string,
+  qty: number,
+  pityCounters?: PityCounters
+): RolledSlot[] {
+  return generateSharedRollSlots(caseData, catalog.rarities, masterSeed, qty, { pityCounters });
 }
 
 // ============================================================
@@ -446,7 +492,7 @@ interface CapacityCheckResult {
   available?: number;
 }
 
-async function checkInventoryCapacity(userId: string, quantity: number, providedMax?: number): Promise<CapacityCheckResult> {
+export async function checkInventoryCapacity(userId: string, quantity: number, providedMax?: number): Promise<CapacityCheckResult> {
   try {
     // max_inventory can be passed in by caller to avoid extra query
     let maxCapacity = 15;
@@ -590,7 +636,8 @@ export async function handleOpenCases(req: ApiRequest, res: ApiResponse) {
     return res.status(500).json({ error: capacityCheck.error });
     }
     
-    const caseData = getCaseById(caseId);
+    const catalog = await getActiveCatalog();
+    const caseData = getCaseById(catalog, caseId);
     if (!caseData) {
       return res.status(404).json({ error: 'Case not found' });
     }
@@ -604,7 +651,72 @@ export async function handleOpenCases(req: ApiRequest, res: ApiResponse) {
       return res.status(400).json({ error: 'Insufficient funds' });
     }
     
-    // 🔥 PASSO 1: DESCONTAR O CUSTO
+    // 🛡️ Contadores de pity (só cases com regras de pity)
+    let pityState: PityState | null = null;
+    if (caseData.pity?.length) {
+      try {
+        pityState = await getPityState(userId, caseData);
+      } catch (error) {
+        console.error('❌ Failed to load pity counters:', error instanceof Error ? error.message : error);
+        return res.status(500).json({ error: 'Failed to prepare provably fair roll' });
+      }
+    }
+
+    // 🛡️ PASSO 0: RESERVAR NONCE DO PAR DE SEEDS ATIVO (antes de cobrar)
+    let fairnessSeed: FairnessSeedRow;
+    let nonce: number;
+    try {
+      fairnessSeed = await getActiveFairnessSeed(userId);
+      nonce = await claimFairnessNonce(fairnessSeed);
+    } catch (error) {
+      console.error('❌ Failed to reserve fairness nonce:', error instanceof Error ? error.message : error);
+      if (error instanceof Error && error.message === 'Concurrent modification detected') {
+        return res.status(409).json({ error: 'Another opening is in progress. Please try again.' });
+      }
+      return res.status(500).json({ error: 'Failed to prepare provably fair roll' });
+    }
+    
+    // 🔥 PASSO 1: GERAR 96 ITENS + ESCOLHER ÍNDICE VENCEDOR
+    // O master seed vem do par server/client seed já comprometido + nonce
+    const masterSeed = deriveRollSeed(fairnessSeed.server_seed, fairnessSeed.client_seed, nonce);
+    const slots = generateRollSlots(catalog, caseData, masterSeed, qty, pityState?.counters);
+    const winners = slots.map(slot => slot.winner);
+    const lastSlot = slots[slots.length - 1];
+    const nextPityCounters = pityState && lastSlot?.pityCounters
+      ? advancePityCounters(caseData.pity, lastSlot.pityCounters, catalog.rarities.findIndex(r => r.name === lastSlot.winner?.rarity))
+      : null;
+    
+    const totalValue = parseFloat(winners.reduce((sum, item) => sum + (item?.value || 0), 0).toFixed(2));
+
+    // 🛡️ Gravar os contadores de pity antes de cobrar (lock otimista na versão
+    // lida): uma abertura concorrente com os mesmos contadores recebe 409 em vez
+    // de pagar a mesma garantia de pity de novo
+    let claimedPity: PityState | null = null;
+    if (pityState && nextPityCounters) {
+      try {
+        if (!await savePityState(userId, caseData.id, pityState, nextPityCounters)) {
+          return res.status(409).json({ error: 'Another opening is in progress. Please try again.' });
+        }
+      } catch (error) {
+        console.error('❌ Failed to save pity counters:', error instanceof Error ? error.message : error);
+        return res.status(500).json({ error: 'Failed to prepare provably fair roll' });
+      }
+      claimedPity = { counters: nextPityCounters, version: (pityState.version ?? 0) + 1 };
+    }
+
+    // Abertura não entregue: devolve os contadores lidos antes do roll
+    const releasePity = (): void => {
+      if (!pityState || !claimedPity) return;
+      savePityState(userId, caseData.id, claimedPity, pityState.counters).then(restored => {
+        if (!restored) {
+          logAudit(supabase, userId, 'CASE_PITY_RESTORE_FAILED', { caseId: caseData.id, nonce, counters: pityState!.counters }, req as any).catch(() => {});
+        }
+      }).catch(err => {
+        console.error('⚠️ Failed to restore pity counters:', err instanceof Error ? err.message : err);
+      });
+    };
+    
+    // 🔥 PASSO 2: DESCONTAR O CUSTO
     let newBalance;
     try {
       newBalance = await updatePlayerBalance(
@@ -616,48 +728,19 @@ export async function handleOpenCases(req: ApiRequest, res: ApiResponse) {
       );
     } catch (error) {
       console.error('❌ Failed to deduct cost:', error instanceof Error ? error.message : error);
+      releasePity();
       if (error instanceof Error && error.message === 'Insufficient funds') {
         return res.status(400).json({ error: 'Insufficient funds' });
       }
+      if (error instanceof Error && error.message === 'Diamond debt outstanding') {
+        return res.status(403).json({ error: 'DIAMOND_DEBT' });
+      }
       if (error instanceof Error && error.message === 'Balance changed. Please try again.') {
         return res.status(409).json({ error: error.message });
       }
       return res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to update balance' });
     }
     
-    // 🔥 PASSO 2: GERAR 96 ITENS + ESCOLHER ÍNDICE VENCEDOR
-    const timestamp = Date.now();
-    const masterSeed = generateSecureSeed(userId, caseId, timestamp);
-    
-    const slots = [];
-    const winners = [];
-    
-    for (let slot = 0; slot < qty; slot++) {
-      // Gerar 96 itens para este slot
-      const items = [];
-      for (let i = 0; i < 96; i++) {
-        const itemSeed = `${masterSeed}-slot${slot}-item${i}`;
-        const item = generateItemSeeded(caseData, itemSeed);
-        items.push(item);
-      }
-      
-      // Escolher índice aleatório (20-76 para drama visual)
-      const winnerIndexSeed = `${masterSeed}-slot${slot}-index`;
-      const winnerIndex = 20 + Math.floor(seededRandom(winnerIndexSeed) * 57);
-      
-      const winner = items[winnerIndex];
-      
-      slots.push({
-        items: items,
-        winnerIndex: winnerIndex,
-        winner: winner
-      });
-      
-      winners.push(winner);
-    }
-    
-    const totalValue = parseFloat(winners.reduce((sum, item) => sum + (item?.value || 0), 0).toFixed(2));
-    
     // 🔥 PASSO 3: ADICIONAR ITENS AO INVENTÁRIO (ESTRUTURA CORRETA)
     // Se falhar aqui, reembolsa o usuário para evitar cobrar sem entregar itens.
     try {
@@ -677,6 +760,7 @@ export async function handleOpenCases(req: ApiRequest, res: ApiResponse) {
       
       if (invError) {
         console.error('❌ Failed to add items to inventory:', invError);
+        releasePity();
         try {
           const refundedBalance = await updatePlayerBalance(
             supabase,
@@ -701,6 +785,7 @@ export async function handleOpenCases(req: ApiRequest, res: ApiResponse) {
       }
     } catch (error) {
       console.error('❌ Inventory error:', error);
+      releasePity();
       try {
         const refundedBalance = await updatePlayerBalance(
           supabase,
@@ -806,17 +891,66 @@ export async function handleOpenCases(req: ApiRequest, res: ApiResponse) {
     }
     
     const netProfit = parseFloat((totalValue - totalCost).toFixed(2));
+
+    // 📥 PASSO 7: REGISTRAR ABERTURA (seed público para verificação posterior)
+    supabase
+      .from('case_openings')
+      .insert({
+        user_id: userId,
+        case_id: caseData.id,
+        case_name: caseData.name,
+        quantity: qty,
+        total_cost: totalCost,
+        total_value: totalValue,
+        seed: masterSeed,
+        server_seed_hash: fairnessSeed.server_seed_hash,
+        client_seed: fairnessSeed.client_seed,
+        nonce,
+        rng_version: RNG_VERSION,
+        catalog_version: catalog.version,
+        pity_counters: pityState?.counters ?? null,
+        winners,
+        created_at: new Date().toISOString()
+      })
+      .then(({ error }) => {
+        if (error) console.error('⚠️ Failed to record case opening:', error.message);
+      }, () => {});
+
+    logAudit(supabase, userId, 'CASES_OPENED', {
+      caseId: caseData.id,
+      caseName: caseData.name,
+      quantity: qty,
+      totalCost,
+      totalValue
+    }, req as any).catch(() => {});
+
+    grantBattlePassXp(userId, 'case_opened', qty).catch(() => {});
+    const xp = await grantPlayerXp(supabase, userId, 'case_opened', { count: qty, req: req as any });
+    const achievements = await evaluateAchievements(userId, req as any);
+    const xpAward = mergeXpAwards(xp, achievements.xp);
     
     return res.status(200).json({
       success: true,
       seed: masterSeed,
+      fairness: {
+        serverSeedHash: fairnessSeed.server_seed_hash,
+        clientSeed: fairnessSeed.client_seed,
+        nonce,
+        nextNonce: nonce + 1,
+        catalogVersion: catalog.version,
+        pityCounters: pityState?.counters ?? null,
+        nextPityCounters
+      },
       slots: slots,
       winners: winners,
       totalValue: totalValue,
       totalCost: totalCost,
       netProfit: netProfit,
-      newBalance: newBalance,
-      inventoryUpdated: true
+      newBalance: xpAward?.newBalance ?? newBalance,
+      inventoryUpdated: true,
+      xp: xpAward,
+      achievements: achievements.unlocked,
+      newDiamonds: achievements.newDiamonds
     });
     
   } catch (error) {
@@ -840,13 +974,18 @@ export async function handlePurchasePass(req: ApiRequest, res: ApiResponse) {
 
     // Validar sessão
     const session = await validateSessionAndFetchPlayerStats(supabase, authToken, userId, {
-      select: 'diamonds, unlocked_passes'
+      select: 'diamonds, diamond_debt, unlocked_passes'
     });
     const { valid, error: sessionError } = session;
     if (!valid) {
       return res.status(401).json({ error: sessionError });
     }
 
+    // Dívida de estorno (reembolso/chargeback) bloqueia gastos de diamantes
+    if (Number((session.stats as any)?.diamond_debt) > 0) {
+      return res.status(403).json({ error: 'DIAMOND_DEBT', debt: Number((session.stats as any).diamond_debt) });
+    }
+
     // 🛡️ Validar CSRF token
     const csrfValidation = await validateCsrfMiddleware(supabase, req, userId);
     if (!csrfValidation.valid) {
@@ -961,6 +1100,42 @@ export default async function handler(req: ApiRequest, res: ApiResponse) {
     return await handleUpgradeCaseDiscount(req, res);
   }
 
+  if (action === 'getFairness') {
+    return await handleGetFairness(req, res);
+  }
+
+  if (action === 'rotateSeed') {
+    return await handleRotateSeed(req, res);
+  }
+
+  if (action === 'verifyRoll') {
+    return await handleVerifyRoll(req, res);
+  }
+
+  if (action === 'getCatalog') {
+    return await handleGetCatalog(req, res);
+  }
+
+  if (action === 'upgradeItems') {
+    return await handleUpgradeItems(req, res);
+  }
+
+  if (action === 'executeContract') {
+    return await handleExecuteContract(req, res);
+  }
+
+  if (action === 'getOpeningHistory') {
+    return await handleGetOpeningHistory(req, res);
+  }
+
+  if (action === 'getFreeCases') {
+    return await handleGetFreeCases(req, res);
+  }
+
+  if (action === 'openFreeCase') {
+    return await handleOpenFreeCase(req, res);
+  }
+
   return res.status(400).json({ error: 'Invalid action' });
 }
 
@@ -1017,6 +1192,9 @@ export async function handleUpgradeCaseDiscount(req: ApiRequest, res: ApiRespons
       if (err instanceof Error && err.message === 'Insufficient funds') {
         return res.status(400).json({ error: 'INSUFFICIENT_FUNDS' });
       }
+      if (err instanceof Error && err.message === 'Diamond debt outstanding') {
+        return res.status(403).json({ error: 'DIAMOND_DEBT' });
+      }
       if (err instanceof Error && err.message === 'Balance changed. Please try again.') {
         return res.status(409).json({ error: err.message });
       }
@@ -1078,7 +1256,8 @@ export async function handleGeneratePreview(req: ApiRequest, res: ApiResponse) {
       return res.status(400).json({ error: 'Invalid request' });
     }
 
-    const caseData = getCaseById(caseId);
+    const catalog = await getActiveCatalog();
+    const caseData = getCaseById(catalog, caseId);
     if (!caseData) {
       return res.status(404).json({ error: 'Case not found' });
     }
@@ -1091,7 +1270,7 @@ export async function handleGeneratePreview(req: ApiRequest, res: ApiResponse) {
       const items: OpenedItem[] = [];
       for (let i = 0; i < 96; i++) {
         const itemSeed = `${previewSeed}-slot${slot}-item${i}`;
-        const item = generateItemSeeded(caseData, itemSeed);
+        const item = generateItemSeeded(catalog, caseData, itemSeed);
         if (item) items.push(item);
       }
       previews.push(items);
@@ -1102,4 +1281,1043 @@ export async function handleGeneratePreview(req: ApiRequest, res: ApiResponse) {
     console.error('💥 Preview generation error:', error);
     return res.status(500).json({ error: 'Failed to generate preview' });
   }
-}
\ No newline at end of file
+}
+
+// ============================================================
+// PROVABLY FAIR - ESTADO, ROTAÇÃO E VERIFICAÇÃO
+// ============================================================
+
+export async function handleGetFairness(req: ApiRequest, res: ApiResponse) {
+  try {
+    const { userId, authToken } = req.body ?? {};
+
+    if (!userId || !authToken) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    const session = await validateSessionAndFetchPlayerStats(supabase, authToken, userId);
+    if (!session.valid) {
+      return res.status(401).json({ error: session.error });
+    }
+
+    const active = await getActiveFairnessSeed(userId);
+    const revealed = await fetchRevealedSeeds(userId);
+    const pity = await fetchAllPityCounters(userId);
+
+    return res.status(200).json({
+      success: true,
+      active: toPublicFairness(active),
+      pity,
+      revealed: revealed.map(seed => ({
+        serverSeed: seed.server_seed,
+        serverSeedHash: seed.server_seed_hash,
+        clientSeed: seed.client_seed,
+        noncesUsed: Number(seed.nonce) || 0,
+        createdAt: seed.created_at,
+        revealedAt: seed.revealed_at
+      }))
+    });
+  } catch (error) {
+    console.error('💥 Get fairness error:', error);
+    return res.status(500).json({ error: 'Failed to load fairness data' });
+  }
+}
+
+export async function handleRotateSeed(req: ApiRequest, res: ApiResponse) {
+  try {
+    const { userId, authToken, clientSeed } = req.body ?? {};
+
+    if (!userId || !authToken) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    if (clientSeed !== undefined && clientSeed !== null && clientSeed !== '' && !isValidClientSeed(clientSeed)) {
+      return res.status(400).json({ error: 'Invalid client seed (1-64 chars: letters, numbers, _ or -)' });
+    }
+
+    const session = await validateSessionAndFetchPlayerStats(supabase, authToken, userId);
+    if (!session.valid) {
+      return res.status(401).json({ error: session.error });
+    }
+
+    // 🛡️ Validar CSRF token
+    const csrfValidation = await validateCsrfMiddleware(supabase, req, userId);
+    if (!csrfValidation.valid) {
+      console.warn('⚠️ CSRF validation failed:', { userId, error: csrfValidation.error });
+      return res.status(403).json({ error: 'Security validation failed' });
+    }
+
+    let rotation;
+    try {
+      rotation = await rotateFairnessSeed(userId, clientSeed || undefined);
+    } catch (err) {
+      if (err instanceof Error && err.message === 'Concurrent modification detected') {
+        return res.status(409).json({ error: 'Seed changed. Please try again.' });
+      }
+      throw err;
+    }
+
+    const { previous, current } = rotation;
+
+    return res.status(200).json({
+      success: true,
+      revealed: {
+        serverSeed: previous.server_seed,
+        serverSeedHash: previous.server_seed_hash,
+        clientSeed: previous.client_seed,
+        noncesUsed: Number(previous.nonce) || 0
+      },
+      active: toPublicFairness(current)
+    });
+  } catch (error) {
+    console.error('💥 Rotate seed error:', error);
+    return res.status(500).json({ error: 'Failed to rotate seed' });
+  }
+}
+
+/**
+ * Endpoint público: recalcula uma abertura a partir de um server seed já
+ * revelado, do client seed e do nonce. Não depende de sessão nem do banco.
+ */
+export async function handleVerifyRoll(req: ApiRequest, res: ApiResponse) {
+  try {
+    const { serverSeed, clientSeed, nonce, caseId, quantity, catalogVersion, pityCounters } = req.body ?? {};
+    const qty = Number(quantity ?? 1);
+    const nonceValue = Number(nonce);
+    const catalogVersionValue = catalogVersion === undefined || catalogVersion === null ? null : Number(catalogVersion);
+
+    if (typeof serverSeed !== 'string' || !SERVER_SEED_REGEX.test(serverSeed)) {
+      return res.status(400).json({ error: 'Invalid server seed' });
+    }
+    if (!isValidClientSeed(clientSeed)) {
+      return res.status(400).json({ error: 'Invalid client seed' });
+    }
+    if (!Number.isInteger(nonceValue) || nonceValue < 0) {
+      return res.status(400).json({ error: 'Invalid nonce' });
+    }
+    if (!caseId || !Number.isInteger(qty) || qty < 1 || qty > 4) {
+      return res.status(400).json({ error: 'Invalid request' });
+    }
+    if (catalogVersionValue !== null && (!Number.isInteger(catalogVersionValue) || catalogVersionValue < 1)) {
+      return res.status(400).json({ error: 'Invalid catalog version' });
+    }
+    if (pityCounters !== undefined && pityCounters !== null && (typeof pityCounters !== 'object' || Array.isArray(pityCounters))) {
+      return res.status(400).json({ error: 'Invalid pity counters' });
+    }
+
+    // Aberturas antigas devem ser verificadas com o catálogo em que ocorreram
+    const catalog = catalogVersionValue === null
+      ? await getActiveCatalog()
+      : await getCatalogVersion(catalogVersionValue);
+    if (!catalog) {
+      return res.status(404).json({ error: 'Catalog version not found' });
+    }
+
+    // Cases grátis ficam fora do catálogo, mas usam as raridades dele
+    const caseData = getCaseById(catalog, caseId) ?? getFreeCase(caseId);
+    if (!caseData) {
+      return res.status(404).json({ error: 'Case not found' });
+    }
+
+    // Cases com pity precisam dos contadores registrados antes da abertura
+    const pity = caseData.pity?.length ? normalizePityCounters(caseData.pity, pityCounters) : undefined;
+    const masterSeed = deriveRollSeed(serverSeed, clientSeed, nonceValue);
+    const slots = generateRollSlots(catalog, caseData, masterSeed, qty, pity);
+
+    return res.status(200).json({
+      success: true,
+      serverSeedHash: hashServerSeed(serverSeed),
+      seed: masterSeed,
+      rngVersion: RNG_VERSION,
+      catalogVersion: catalog.version,
+      pityCounters: pity ?? null,
+      winners: slots.map(slot => ({ winnerIndex: slot.winnerIndex, winner: slot.winner }))
+    });
+  } catch (error) {
+    console.error('💥 Verify roll error:', error);
+    return res.status(500).json({ error: 'Failed to verify roll' });
+  }
+}
+
+// ============================================================
+// CATALOG
+// ============================================================
+
+/**
+ * Endpoint público: devolve o catálogo ativo ou uma versão específica
+ * (usada pelo frontend para verificar aberturas antigas).
+ */
+export async function handleGetCatalog(req: ApiRequest, res: ApiResponse) {
+  try {
+    const { version } = req.body ?? {};
+
+    if (version === undefined || version === null) {
+      const catalog = await getActiveCatalog();
+      return res.status(200).json({ success: true, catalog });
+    }
+
+    const versionValue = Number(version);
+    if (!Number.isInteger(versionValue) || versionValue < 1) {
+      return res.status(400).json({ error: 'Invalid catalog version' });
+    }
+
+    const catalog = await getCatalogVersion(versionValue);
+    if (!catalog) {
+      return res.status(404).json({ error: 'Catalog version not found' });
+    }
+
+    return res.status(200).json({ success: true, catalog });
+  } catch (error) {
+    console.error('💥 Get catalog error:', error);
+    return res.status(500).json({ error: 'Failed to load catalog' });
+  }
+}
+
+// ============================================================
+// OPENING HISTORY
+// ============================================================
+// Aberturas do próprio jogador a partir de `case_openings` (pagas e
+// grátis), com seed, nonce, versão do catálogo e contadores de pity, tudo o
+// que o frontend precisa para reconstruir o reel e verificar o roll.
+
+const OPENING_HISTORY_PAGE_SIZE = 25;
+// Exportação CSV pede páginas maiores
+const OPENING_HISTORY_MAX_LIMIT = 500;
+const HISTORY_CASE_ID_REGEX = /^[a-z0-9_-]{2,40}$/;
+const HISTORY_DATE_ONLY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 86_400_000;
+
+function parseHistoryDate(value: unknown): string | null | undefined {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string') return undefined;
+  const time = Date.parse(value);
+  return Number.isFinite(time) ? new Date(time).toISOString() : undefined;
+}
+
+/**
+ * Limite superior do período. O frontend manda o fim do dia local como
+ * timestamp (`lte`); uma data sem hora cobre o dia inteiro e vira `lt` no
+ * início do dia seguinte (UTC).
+ */
+function parseHistoryEnd(value: unknown): { iso: string; exclusive: boolean } | null | undefined {
+  const iso = parseHistoryDate(value);
+  if (iso === null || iso === undefined) return iso;
+  if (!HISTORY_DATE_ONLY_REGEX.test(value as string)) return { iso, exclusive: false };
+  return { iso: new Date(Date.parse(iso) + DAY_MS).toISOString(), exclusive: true };
+}
+
+export async function handleGetOpeningHistory(req: ApiRequest, res: ApiResponse) {
+  try {
+    const { userId, authToken, caseId, rarity, from, to, limit, offset } = req.body ?? {};
+
+    if (!userId || !authToken) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    const pageSize = limit === undefined ? OPENING_HISTORY_PAGE_SIZE : Number(limit);
+    const start = offset === undefined ? 0 : Number(offset);
+    const fromIso = parseHistoryDate(from);
+    const toBound = parseHistoryEnd(to);
+
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > OPENING_HISTORY_MAX_LIMIT) {
+      return res.status(400).json({ error: `Limit must be between 1 and ${OPENING_HISTORY_MAX_LIMIT}` });
+    }
+    if (!Number.isInteger(start) || start < 0) {
+      return res.status(400).json({ error: 'Invalid offset' });
+    }
+    if (caseId && (typeof caseId !== 'string' || !HISTORY_CASE_ID_REGEX.test(caseId))) {
+      return res.status(400).json({ error: 'Invalid case' });
+    }
+    if (rarity && (typeof rarity !== 'string' || rarity.length > 20)) {
+      return res.status(400).json({ error: 'Invalid rarity' });
+    }
+    if (fromIso === undefined || toBound === undefined) {
+      return res.status(400).json({ error: 'Invalid date range' });
+    }
+
+    const session = await validateSessionAndFetchPlayerStats(supabase, authToken, userId);
+    if (!session.valid) {
+      return res.status(401).json({ error: session.error });
+    }
+
+    let query = supabase
+      .from('case_openings')
+      .select('id, case_id, case_name, quantity, total_cost, total_value, seed, server_seed_hash, client_seed, nonce, catalog_version, pity_counters, winners, created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .range(start, start + pageSize);
+
+    if (caseId) query = query.eq('case_id', caseId);
+    if (rarity) query = query.contains('winners', [{ rarity }]);
+    if (fromIso) query = query.gte('created_at', fromIso);
+    if (toBound) {
+      query = toBound.exclusive ? query.lt('created_at', toBound.iso) : query.lte('created_at', toBound.iso);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('❌ Failed to load opening history:', error.message);
+      return res.status(500).json({ error: 'Failed to load opening history' });
+    }
+
+    // Uma linha a mais só para saber se há próxima página
+    const rows = data || [];
+    const openings = rows.slice(0, pageSize).map(row => {
+      const totalCost = Number(row.total_cost) || 0;
+      const totalValue = Number(row.total_value) || 0;
+      return {
+        id: row.id,
+        caseId: row.case_id,
+        caseName: row.case_name,
+        quantity: Number(row.quantity) || 1,
+        totalCost,
+        totalValue,
+        netProfit: parseFloat((totalValue - totalCost).toFixed(2)),
+        seed: row.seed,
+        serverSeedHash: row.server_seed_hash,
+        clientSeed: row.client_seed,
+        nonce: row.nonce,
+        catalogVersion: row.catalog_version,
+        pityCounters: row.pity_counters ?? null,
+        winners: Array.isArray(row.winners) ? row.winners : [],
+        createdAt: row.created_at
+      };
+    });
+
+    return res.status(200).json({
+      success: true,
+      openings,
+      hasMore: rows.length > pageSize
+    });
+  } catch (error) {
+    console.error('💥 Get opening history error:', error);
+    return res.status(500).json({ error: 'Failed to load opening history' });
+  }
+}
+
+// ============================================================
+// ITEM UPGRADER
+// ============================================================
+// O jogador aposta 1-5 itens do inventário num item alvo de qualquer case.
+// A chance vem de app/shared/upgrade-odds.ts e o roll usa o mesmo par
+// server/client seed + nonce das aberturas (provably fair).
+// A troca (remover itens apostados + inserir o alvo, se ganhou) roda numa
+// única transação na RPC `resolve_item_upgrade`, que falha sem alterar nada
+// se algum item apostado já não pertence ao jogador.
+
+function isValidInventoryItemId(value: unknown): value is string {
+  return typeof value === 'string' && /^[0-9a-f-]{36}$/i.test(value);
+}
+
+export async function handleUpgradeItems(req: ApiRequest, res: ApiResponse) {
+  try {
+    const { userId, authToken, itemIds, targetCaseId, targetItemName } = req.body ?? {};
+
+    if (!userId || !authToken) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+    if (
+      !Array.isArray(itemIds) ||
+      itemIds.length < 1 ||
+      itemIds.length > UPGRADE_MAX_STAKE_ITEMS ||
+      !itemIds.every(isValidInventoryItemId) ||
+      new Set(itemIds).size !== itemIds.length
+    ) {
+      return res.status(400).json({ error: `Select 1-${UPGRADE_MAX_STAKE_ITEMS} items to stake` });
+    }
+    if (typeof targetCaseId !== 'string' || typeof targetItemName !== 'string') {
+      return res.status(400).json({ error: 'Invalid target item' });
+    }
+
+    const session = await validateSessionAndFetchPlayerStats(supabase, authToken, userId, {
+      select: 'username, level, avatar_url'
+    });
+    if (!session.valid) {
+      return res.status(401).json({ error: session.error });
+    }
+    const stats = session.stats as any;
+
+    // 🛡️ Validar CSRF token
+    const csrfValidation = await validateCsrfMiddleware(supabase, req, userId);
+    if (!csrfValidation.valid) {
+      console.warn('⚠️ CSRF validation failed:', { userId, error: csrfValidation.error });
+      return res.status(403).json({ error: 'Security validation failed' });
+    }
+
+    const catalog = await getActiveCatalog();
+    const targetCase = getCaseById(catalog, targetCaseId);
+    const targetItem = targetCase?.items.find(item => item.name === targetItemName);
+    if (!targetCase || !targetItem) {
+      return res.status(404).json({ error: 'Target item not found' });
+    }
+
+    const { data: stakedItems, error: stakeError } = await supabase
+      .from('inventory')
+      .select('id, item_name, rarity, color, value, case_name')
+      .eq('user_id', userId)
+      .in('id', itemIds);
+
+    if (stakeError) {
+      return res.status(500).json({ error: 'Failed to fetch items' });
+    }
+    if (!stakedItems || stakedItems.length !== itemIds.length) {
+      return res.status(404).json({ error: 'Item not found' });
+    }
+
+    const stakeValue = parseFloat(stakedItems.reduce((sum, item) => sum + (Number(item.value) || 0), 0).toFixed(2));
+    const targetValue = getUpgradeTargetValue(targetItem);
+    const chance = computeUpgradeChance(stakeValue, targetValue);
+    if (chance === null) {
+      return res.status(400).json({
+        error: targetValue <= stakeValue ? 'TARGET_TOO_CHEAP' : 'CHANCE_TOO_LOW',
+        stakeValue,
+        targetValue
+      });
+    }
+
+    // 🛡️ Reservar nonce antes do roll (nunca reutilizado)
+    let fairnessSeed: FairnessSeedRow;
+    let nonce: number;
+    try {
+      fairnessSeed = await getActiveFairnessSeed(userId);
+      nonce = await claimFairnessNonce(fairnessSeed);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Concurrent modification detected') {
+        return res.status(409).json({ error: 'Another roll is in progress. Please try again.' });
+      }
+      return res.status(500).json({ error: 'Failed to prepare provably fair roll' });
+    }
+
+    const masterSeed = deriveRollSeed(fairnessSeed.server_seed, fairnessSeed.client_seed, nonce);
+    const roll = rollUpgrade(masterSeed);
+    const won = isUpgradeWin(roll, chance);
+
+    const rarity = getCatalogRarity(catalog, targetItem.rarityIndex);
+    const wonItem = {
+      user_id: userId,
+      item_name: targetItem.name,
+      rarity: rarity.name,
+      color: rarity.color,
+      value: targetValue,
+      case_name: targetCase.name,
+      obtained_at: new Date().toISOString()
+    };
+
+    const { error: swapError } = await supabase.rpc('resolve_item_upgrade', {
+      p_user_id: userId,
+      p_item_ids: itemIds,
+      p_new_item: won ? wonItem : null
+    });
+
+    if (swapError) {
+      console.error('❌ Upgrade swap failed:', swapError.message);
+      if (swapError.message?.includes('ITEMS_NOT_OWNED')) {
+        return res.status(409).json({ error: 'UPGRADE_ITEMS_CHANGED' });
+      }
+      return res.status(500).json({ error: 'Failed to resolve upgrade' });
+    }
+
+    if (won) {
+      const { error: dropError } = await supabase.from('drop_history').insert({
+        user_id: userId,
+        username: stats.username,
+        item_name: wonItem.item_name,
+        rarity: wonItem.rarity,
+        color: wonItem.color,
+        value: wonItem.value,
+        drop_type: 'upgrade',
+        created_at: new Date().toISOString()
+      });
+      if (dropError) console.error('⚠️ Failed to log upgrade drop:', dropError.message);
+
+      try {
+        await supabase.rpc('update_best_drop', { p_user_id: userId, p_new_drop: targetValue });
+      } catch (err) {
+        console.error('⚠️ Failed to update best_drop:', err instanceof Error ? err.message : err);
+      }
+
+      evaluateAchievements(userId, req as any).catch(() => {});
+    }
+
+    logAudit(supabase, userId, 'ITEM_UPGRADE_RESOLVED', {
+      itemIds,
+      stakedItems: stakedItems.map(item => ({ id: item.id, name: item.item_name, value: item.value, case: item.case_name })),
+      stakeValue,
+      target: { caseId: targetCase.id, name: targetItem.name, value: targetValue },
+      chance,
+      roll,
+      won,
+      serverSeedHash: fairnessSeed.server_seed_hash,
+      clientSeed: fairnessSeed.client_seed,
+      nonce,
+      catalogVersion: catalog.version
+    }, req as any).catch(() => {});
+
+    // 📥 Registrar upgrade (seed público para verificação posterior)
+    supabase
+      .from('item_upgrades')
+      .insert({
+        user_id: userId,
+        staked_items: stakedItems,
+        stake_value: stakeValue,
+        target_case_id: targetCase.id,
+        target_item_name: targetItem.name,
+        target_value: targetValue,
+        chance,
+        roll,
+        won,
+        seed: masterSeed,
+        server_seed_hash: fairnessSeed.server_seed_hash,
+        client_seed: fairnessSeed.client_seed,
+        nonce,
+        rng_version: RNG_VERSION,
+        catalog_version: catalog.version,
+        created_at: new Date().toISOString()
+      })
+      .then(({ error }) => {
+        if (error) console.error('⚠️ Failed to record upgrade:', error.message);
+      }, () => {});
+
+    return res.status(200).json({
+      success: true,
+      won,
+      chance,
+      roll,
+      rollScale: UPGRADE_ROLL_SCALE,
+      stakeValue,
+      item: won ? { ...wonItem, icon: targetItem.icon } : null,
+      seed: masterSeed,
+      fairness: {
+        serverSeedHash: fairnessSeed.server_seed_hash,
+        clientSeed: fairnessSeed.client_seed,
+        nonce,
+        nextNonce: nonce + 1,
+        catalogVersion: catalog.version
+      }
+    });
+  } catch (error) {
+    console.error('💥 Upgrade items error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// ============================================================
+// ITEM CONTRACTS
+// ============================================================
+// O jogador entrega CONTRACT_INPUT_COUNT itens da mesma raridade e recebe um
+// item da raridade seguinte (regras e sorteio em app/shared/contract-odds.ts).
+// Usa o mesmo seed provably fair das aberturas e a mesma RPC atômica do
+// Upgrader (`resolve_item_upgrade`) para remover as entradas e inserir o
+// resultado numa única transação.
+
+export async function handleExecuteContract(req: ApiRequest, res: ApiResponse) {
+  try {
+    const { userId, authToken, itemIds } = req.body ?? {};
+
+    if (!userId || !authToken) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+    if (
+      !Array.isArray(itemIds) ||
+      itemIds.length !== CONTRACT_INPUT_COUNT ||
+      !itemIds.every(isValidInventoryItemId) ||
+      new Set(itemIds).size !== itemIds.length
+    ) {
+      return res.status(400).json({ error: `Select exactly ${CONTRACT_INPUT_COUNT} items` });
+    }
+
+    const session = await validateSessionAndFetchPlayerStats(supabase, authToken, userId, {
+      select: 'username, level, avatar_url'
+    });
+    if (!session.valid) {
+      return res.status(401).json({ error: session.error });
+    }
+    const stats = session.stats as any;
+
+    // 🛡️ Validar CSRF token
+    const csrfValidation = await validateCsrfMiddleware(supabase, req, userId);
+    if (!csrfValidation.valid) {
+      console.warn('⚠️ CSRF validation failed:', { userId, error: csrfValidation.error });
+      return res.status(403).json({ error: 'Security validation failed' });
+    }
+
+    const { data: inputItems, error: inputError } = await supabase
+      .from('inventory')
+      .select('id, item_name, rarity, color, value, case_name')
+      .eq('user_id', userId)
+      .in('id', itemIds);
+
+    if (inputError) {
+      return res.status(500).json({ error: 'Failed to fetch items' });
+    }
+    if (!inputItems || inputItems.length !== itemIds.length) {
+      return res.status(404).json({ error: 'Item not found' });
+    }
+
+    const catalog = await getActiveCatalog();
+    if (getContractTargetRarity(catalog, inputItems) === null) {
+      return res.status(400).json({ error: 'CONTRACT_INVALID_RARITY' });
+    }
+
+    // 🛡️ Reservar nonce antes do roll (nunca reutilizado)
+    let fairnessSeed: FairnessSeedRow;
+    let nonce: number;
+    try {
+      fairnessSeed = await getActiveFairnessSeed(userId);
+      nonce = await claimFairnessNonce(fairnessSeed);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Concurrent modification detected') {
+        return res.status(409).json({ error: 'Another roll is in progress. Please try again.' });
+      }
+      return res.status(500).json({ error: 'Failed to prepare provably fair roll' });
+    }
+
+    const masterSeed = deriveRollSeed(fairnessSeed.server_seed, fairnessSeed.client_seed, nonce);
+    const outcome = rollContract(catalog, inputItems, masterSeed);
+    if (!outcome) {
+      return res.status(500).json({ error: 'Failed to roll contract' });
+    }
+
+    const inputValue = getContractInputValue(inputItems);
+    const rarity = getCatalogRarity(catalog, outcome.rarityIndex);
+    const resultItem = {
+      user_id: userId,
+      item_name: outcome.item.name,
+      rarity: rarity.name,
+      color: rarity.color,
+      value: outcome.value,
+      case_name: outcome.caseData.name,
+      obtained_at: new Date().toISOString()
+    };
+
+    const { error: swapError } = await supabase.rpc('resolve_item_upgrade', {
+      p_user_id: userId,
+      p_item_ids: itemIds,
+      p_new_item: resultItem
+    });
+
+    if (swapError) {
+      console.error('❌ Contract swap failed:', swapError.message);
+      if (swapError.message?.includes('ITEMS_NOT_OWNED')) {
+        return res.status(409).json({ error: 'CONTRACT_ITEMS_CHANGED' });
+      }
+      return res.status(500).json({ error: 'Failed to execute contract' });
+    }
+
+    const { error: dropError } = await supabase.from('drop_history').insert({
+      user_id: userId,
+      username: stats.username,
+      item_name: resultItem.item_name,
+      rarity: resultItem.rarity,
+      color: resultItem.color,
+      value: resultItem.value,
+      drop_type: 'contract',
+      created_at: new Date().toISOString()
+    });
+    if (dropError) console.error('⚠️ Failed to log contract drop:', dropError.message);
+
+    try {
+      await supabase.rpc('update_best_drop', { p_user_id: userId, p_new_drop: resultItem.value });
+    } catch (err) {
+      console.error('⚠️ Failed to update best_drop:', err instanceof Error ? err.message : err);
+    }
+
+    evaluateAchievements(userId, req as any).catch(() => {});
+
+    logAudit(supabase, userId, 'ITEM_CONTRACT_EXECUTED', {
+      inputs: inputItems.map(item => ({ id: item.id, name: item.item_name, value: item.value, case: item.case_name })),
+      inputValue,
+      result: { name: resultItem.item_name, rarity: resultItem.rarity, value: resultItem.value, case: resultItem.case_name },
+      multiplier: outcome.multiplier,
+      serverSeedHash: fairnessSeed.server_seed_hash,
+      clientSeed: fairnessSeed.client_seed,
+      nonce,
+      catalogVersion: catalog.version
+    }, req as any).catch(() => {});
+
+    return res.status(200).json({
+      success: true,
+      inputValue,
+      multiplier: outcome.multiplier,
+      item: { ...resultItem, icon: outcome.item.icon },
+      seed: masterSeed,
+      fairness: {
+        serverSeedHash: fairnessSeed.server_seed_hash,
+        clientSeed: fairnessSeed.client_seed,
+        nonce,
+        nextNonce: nonce + 1,
+        catalogVersion: catalog.version
+      }
+    });
+  } catch (error) {
+    console.error('💥 Execute contract error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// ============================================================
+// FREE CASES
+// ============================================================
+// Case grátis diário + cases liberados por nível (app/shared/free-cases.ts).
+// Cada conta tem uma linha por case em `free_case_cooldowns`
+// (user_id, free_case_id, last_opened_at, ip_address, device_hash); a
+// abertura só passa se o cooldown venceu, via update condicional no
+// `last_opened_at` lido. Anti-abuso: e-mail verificado e nenhum outro
+// jogador abriu o mesmo case no cooldown a partir do mesmo dispositivo.
+// O dispositivo é o id por instalação que o cliente manda
+// (`deviceId`, o mesmo de `active_devices`); IP compartilhado (NAT, rede
+// pública) só é registrado no audit log, não bloqueia.
+
+interface FreeCaseCooldownRow {
+  free_case_id: string;
+  last_opened_at: string;
+}
+
+interface FreeCaseOrigin {
+  ip: string;
+  deviceId: string | null;
+}
+
+function getFreeCaseOrigin(req: ApiRequest): FreeCaseOrigin {
+  const deviceId = req.body?.deviceId;
+  return {
+    ip: getRequestIp(req as any),
+    deviceId: isValidDeviceId(deviceId) ? deviceId : null
+  };
+}
+
+async function fetchFreeCaseCooldowns(userId: string): Promise<FreeCaseCooldownRow[]> {
+  const { data, error } = await supabase
+    .from('free_case_cooldowns')
+    .select('free_case_id, last_opened_at')
+    .eq('user_id', userId);
+
+  if (error) throw new Error('Failed to fetch free case cooldowns');
+  return (data || []) as FreeCaseCooldownRow[];
+}
+
+async function findFreeCaseOtherOpener(
+  userId: string,
+  freeCase: FreeCase,
+  column: 'device_hash' | 'ip_address',
+  values: string[]
+): Promise<string | null> {
+  const since = new Date(Date.now() - getFreeCaseCooldownMs(freeCase)).toISOString();
+  const { data, error } = await supabase
+    .from('free_case_cooldowns')
+    .select('user_id')
+    .eq('free_case_id', freeCase.id)
+    .neq('user_id', userId)
+    .gt('last_opened_at', since)
+    .in(column, values)
+    .limit(1);
+
+  if (error) throw new Error('Failed to check free case origin');
+  return data?.[0]?.user_id ?? null;
+}
+
+/**
+ * Outra conta abriu este case grátis dentro do cooldown a partir de um dos
+ * dispositivos deste jogador? IP em comum só gera `FREE_CASE_SHARED_IP`.
+ */
+async function isFreeCaseSharedOrigin(userId: string, freeCase: FreeCase, origin: FreeCaseOrigin, req: ApiRequest): Promise<boolean> {
+  const { data: devices } = await supabase
+    .from('active_devices')
+    .select('device_hash')
+    .eq('user_id', userId);
+
+  const deviceIds = new Set<string>();
+  if (origin.deviceId) deviceIds.add(origin.deviceId);
+  for (const device of devices || []) {
+    if (isValidDeviceId(device.device_hash)) deviceIds.add(device.device_hash);
+  }
+
+  if (deviceIds.size && await findFreeCaseOtherOpener(userId, freeCase, 'device_hash', [...deviceIds])) {
+    return true;
+  }
+
+  if (origin.ip !== 'unknown') {
+    const otherUserId = await findFreeCaseOtherOpener(userId, freeCase, 'ip_address', [origin.ip]);
+    if (otherUserId) {
+      logAudit(supabase, userId, 'FREE_CASE_SHARED_IP', { freeCaseId: freeCase.id, ip: origin.ip, otherUserId }, req as any).catch(() => {});
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Marca a abertura se o cooldown já venceu. Retorna o `last_opened_at`
+ * anterior (para desfazer) ou `claimed: false` com a próxima liberação.
+ */
+async function claimFreeCaseCooldown(
+  userId: string,
+  freeCase: FreeCase,
+  origin: FreeCaseOrigin,
+  openedAt: string
+): Promise<{ claimed: boolean; previous: string | null; nextAvailableAt: string | null }> {
+  const { data: row, error } = await supabase
+    .from('free_case_cooldowns')
+    .select('last_opened_at')
+    .eq('user_id', userId)
+    .eq('free_case_id', freeCase.id)
+    .maybeSingle();
+
+  if (error) throw new Error('Failed to fetch free case cooldown');
+
+  const fields = { last_opened_at: openedAt, ip_address: origin.ip, device_hash: origin.deviceId };
+
+  if (!row) {
+    const { error: insertError } = await supabase
+      .from('free_case_cooldowns')
+      .insert({ user_id: userId, free_case_id: freeCase.id, ...fields });
+    if (!insertError) return { claimed: true, previous: null, nextAvailableAt: null };
+    if (insertError.code !== '23505') throw new Error('Failed to save free case cooldown');
+    // Outra abertura criou a linha ao mesmo tempo
+    return { claimed: false, previous: null, nextAvailableAt: getFreeCaseNextAvailable(freeCase, openedAt) };
+  }
+
+  const nextAvailableAt = getFreeCaseNextAvailable(freeCase, row.last_opened_at);
+  if (nextAvailableAt) return { claimed: false, previous: row.last_opened_at, nextAvailableAt };
+
+  const { data: updated, error: updateError } = await supabase
+    .from('free_case_cooldowns')
+    .update(fields)
+    .eq('user_id', userId)
+    .eq('free_case_id', freeCase.id)
+    .eq('last_opened_at', row.last_opened_at)
+    .select('free_case_id');
+
+  if (updateError) throw new Error('Failed to save free case cooldown');
+  if (!updated || updated.length === 0) {
+    return { claimed: false, previous: row.last_opened_at, nextAvailableAt: getFreeCaseNextAvailable(freeCase, openedAt) };
+  }
+  return { claimed: true, previous: row.last_opened_at, nextAvailableAt: null };
+}
+
+/**
+ * Desfaz a marcação quando a abertura falha depois do claim.
+ */
+async function revertFreeCaseCooldown(userId: string, freeCase: FreeCase, openedAt: string, previous: string | null): Promise<void> {
+  const query = previous
+    ? supabase.from('free_case_cooldowns').update({ last_opened_at: previous })
+    : supabase.from('free_case_cooldowns').delete();
+
+  const { error } = await query
+    .eq('user_id', userId)
+    .eq('free_case_id', freeCase.id)
+    .eq('last_opened_at', openedAt);
+
+  if (error) console.error('⚠️ Failed to revert free case cooldown:', error.message);
+}
+
+export async function handleGetFreeCases(req: ApiRequest, res: ApiResponse) {
+  try {
+    const { userId, authToken } = req.body ?? {};
+
+    if (!userId || !authToken) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    const session = await validateSessionAndFetchPlayerStats(supabase, authToken, userId, { select: 'xp' });
+    if (!session.valid) {
+      return res.status(401).json({ error: session.error });
+    }
+
+    const level = getLevelInfo(Number(session.stats?.xp) || 0).level;
+    const cooldowns = await fetchFreeCaseCooldowns(userId);
+
+    const freeCases: FreeCaseStatus[] = FREE_CASES.map(freeCase => ({
+      ...freeCase,
+      unlocked: level >= freeCase.minLevel,
+      nextAvailableAt: getFreeCaseNextAvailable(
+        freeCase,
+        cooldowns.find(row => row.free_case_id === freeCase.id)?.last_opened_at
+      )
+    }));
+
+    return res.status(200).json({
+      success: true,
+      level,
+      emailVerified: Boolean(session.user?.email_confirmed_at),
+      freeCases
+    });
+  } catch (error) {
+    console.error('💥 Get free cases error:', error);
+    return res.status(500).json({ error: 'Failed to load free cases' });
+  }
+}
+
+export async function handleOpenFreeCase(req: ApiRequest, res: ApiResponse) {
+  try {
+    const { userId, authToken, freeCaseId } = req.body ?? {};
+
+    if (!userId || !authToken || !freeCaseId) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    const freeCase = getFreeCase(freeCaseId);
+    if (!freeCase) {
+      return res.status(404).json({ error: 'Case not found' });
+    }
+
+    const session = await validateSessionAndFetchPlayerStats(supabase, authToken, userId, {
+      select: 'xp, username, max_inventory'
+    });
+    if (!session.valid) {
+      return res.status(401).json({ error: session.error });
+    }
+    const stats = session.stats;
+
+    // 🛡️ Validar CSRF token
+    const csrfValidation = await validateCsrfMiddleware(supabase, req, userId);
+    if (!csrfValidation.valid) {
+      console.warn('⚠️ CSRF validation failed:', { userId, error: csrfValidation.error });
+      return res.status(403).json({ error: 'Security validation failed' });
+    }
+
+    if (!session.user?.email_confirmed_at) {
+      return res.status(403).json({ error: 'EMAIL_NOT_VERIFIED' });
+    }
+
+    const level = getLevelInfo(Number(stats.xp) || 0).level;
+    if (level < freeCase.minLevel) {
+      return res.status(403).json({ error: 'LEVEL_REQUIRED', requiredLevel: freeCase.minLevel });
+    }
+
+    const capacityCheck = await checkInventoryCapacity(userId, 1, stats.max_inventory);
+    if (!capacityCheck.valid) {
+      if (capacityCheck.error === 'INVENTORY_FULL') {
+        return res.status(400).json({
+          error: 'INVENTORY_FULL',
+          current: capacityCheck.current,
+          max: capacityCheck.max,
+          available: capacityCheck.available
+        });
+      }
+      return res.status(500).json({ error: capacityCheck.error });
+    }
+
+    // 🛡️ Anti-abuso: contas diferentes no mesmo dispositivo
+    const origin = getFreeCaseOrigin(req);
+    if (await isFreeCaseSharedOrigin(userId, freeCase, origin, req)) {
+      logAudit(supabase, userId, 'FREE_CASE_ABUSE_BLOCKED', { freeCaseId: freeCase.id, ip: origin.ip, deviceId: origin.deviceId }, req as any).catch(() => {});
+      return res.status(403).json({ error: 'FREE_CASE_DEVICE_LIMIT' });
+    }
+
+    const catalog = await getActiveCatalog();
+
+    // 🔥 PASSO 0: MARCAR O COOLDOWN (uma abertura por período)
+    const openedAt = new Date().toISOString();
+    const cooldown = await claimFreeCaseCooldown(userId, freeCase, origin, openedAt);
+    if (!cooldown.claimed) {
+      return res.status(400).json({ error: 'FREE_CASE_COOLDOWN', nextAvailableAt: cooldown.nextAvailableAt });
+    }
+
+    // 🛡️ PASSO 1: RESERVAR NONCE DO PAR DE SEEDS ATIVO
+    let fairnessSeed: FairnessSeedRow;
+    let nonce: number;
+    try {
+      fairnessSeed = await getActiveFairnessSeed(userId);
+      nonce = await claimFairnessNonce(fairnessSeed);
+    } catch (error) {
+      console.error('❌ Failed to reserve fairness nonce:', error instanceof Error ? error.message : error);
+      await revertFreeCaseCooldown(userId, freeCase, openedAt, cooldown.previous);
+      if (error instanceof Error && error.message === 'Concurrent modification detected') {
+        return res.status(409).json({ error: 'Another opening is in progress. Please try again.' });
+      }
+      return res.status(500).json({ error: 'Failed to prepare provably fair roll' });
+    }
+
+    // 🔥 PASSO 2: ROLL (mesmo seed provably fair, raridades do catálogo ativo)
+    const masterSeed = deriveRollSeed(fairnessSeed.server_seed, fairnessSeed.client_seed, nonce);
+    const slots = generateRollSlots(catalog, freeCase, masterSeed, 1);
+    const winners = slots.map(slot => slot.winner);
+    const totalValue = parseFloat(winners.reduce((sum, item) => sum + (item?.value || 0), 0).toFixed(2));
+
+    // 🔥 PASSO 3: INVENTÁRIO (falhou: libera o cooldown de novo)
+    const { error: invError } = await supabase
+      .from('inventory')
+      .insert(winners.map(item => ({
+        user_id: userId,
+        item_name: item?.name || 'Unknown',
+        rarity: item?.rarity || 'Unknown',
+        color: item?.rarityColor || '#999999',
+        value: item?.value || 0,
+        case_name: freeCase.name,
+        obtained_at: openedAt
+      })));
+
+    if (invError) {
+      console.error('❌ Failed to add free case item:', invError.message);
+      await revertFreeCaseCooldown(userId, freeCase, openedAt, cooldown.previous);
+      return res.status(500).json({ error: 'Failed to add items to inventory' });
+    }
+
+    supabase
+      .from('drop_history')
+      .insert(winners.map(item => ({
+        user_id: userId,
+        username: stats.username,
+        item_name: item?.name || 'Unknown',
+        rarity: item?.rarity || 'Unknown',
+        color: item?.rarityColor || '#999999',
+        value: item?.value || 0,
+        drop_type: 'free_case',
+        created_at: openedAt
+      })))
+      .then(({ error }) => {
+        if (error) console.error('⚠️ Failed to record free case drop:', error.message);
+      }, () => {});
+
+    // 📥 Registrar abertura (verificável como as pagas)
+    supabase
+      .from('case_openings')
+      .insert({
+        user_id: userId,
+        case_id: freeCase.id,
+        case_name: freeCase.name,
+        quantity: 1,
+        total_cost: 0,
+        total_value: totalValue,
+        seed: masterSeed,
+        server_seed_hash: fairnessSeed.server_seed_hash,
+        client_seed: fairnessSeed.client_seed,
+        nonce,
+        rng_version: RNG_VERSION,
+        catalog_version: catalog.version,
+        winners,
+        created_at: openedAt
+      })
+      .then(({ error }) => {
+        if (error) console.error('⚠️ Failed to record free case opening:', error.message);
+      }, () => {});
+
+    logAudit(supabase, userId, 'FREE_CASE_OPENED', {
+      freeCaseId: freeCase.id,
+      totalValue,
+      nonce,
+      ip: origin.ip
+    }, req as any).catch(() => {});
+
+    return res.status(200).json({
+      success: true,
+      freeCaseId: freeCase.id,
+      seed: masterSeed,
+      fairness: {
+        serverSeedHash: fairnessSeed.server_seed_hash,
+        clientSeed: fairnessSeed.client_seed,
+        nonce,
+        nextNonce: nonce + 1,
+        catalogVersion: catalog.version
+      },
+      slots,
+      winners,
+      totalValue,
+      nextAvailableAt: getFreeCaseNextAvailable(freeCase, openedAt)
+    });
+  } catch (error) {
+    console.error('💥 Open free case error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
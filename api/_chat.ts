@@ -3,7 +3,7 @@
 // ============================================================
 
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
-import { applyCors, validateSessionAndFetchPlayerStats, validateSupabaseSession, ValidationSchemas, createSecureLog, validateCsrfMiddleware, sanitizeHtml, containsDangerousContent } from './_utils.js';
+import { applyCors, validateSessionAndFetchPlayerStats, validateSupabaseSession, ValidationSchemas, createSecureLog, validateCsrfMiddleware, sanitizeHtml, containsDangerousContent, logAudit } from './_utils.js';
 
 import dotenv from 'dotenv';
 dotenv.config();
@@ -237,6 +237,8 @@ async function handleSendMessage(req: ApiRequest, res: ApiResponse): Promise<voi
       return res.status(500).json({ error: 'Failed to send message' });
     }
     
+    logAudit(supabase, userId, 'CHAT_MESSAGE_SENT', { length: sanitizedMessage.length }, req as any).catch(() => {});
+    
     return res.status(200).json({
       success: true,
       message: 'Message sent'
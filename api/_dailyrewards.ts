@@ -0,0 +1,428 @@
+// ============================================================
+// API/_DAILYREWARDS.TS - Recompensas de login diário e streak
+// ============================================================
+// Calendário, regras de streak e preços ficam em
+// app/shared/daily-rewards.ts. Cada resgate é uma linha única
+// (user_id, claim_date) em `daily_login_claims`, com claim_date no dia UTC
+// do servidor: um resgate por dia, sem depender do relógio do cliente. A
+// linha guarda a streak alcançada, então o próximo resgate só precisa do
+// último registro. Congelamentos de streak ficam em
+// `player_stats.streak_freezes` e são consumidos automaticamente quando
+// cobrem os dias perdidos.
+
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import {
+  applyCors,
+  checkRateLimit,
+  getIdentifier,
+  logAudit,
+  maybeCleanupRateLimits,
+  updatePlayerBalance,
+  updatePlayerDiamonds,
+  validateCsrfMiddleware,
+  validateSessionAndFetchPlayerStats,
+  type RateLimitEntry,
+} from './_utils.js';
+import { unlockPassForPlayer } from './_battlepass.js';
+import {
+  DAILY_CYCLE_LENGTH,
+  DAILY_DUPLICATE_PASS_DIAMONDS,
+  STREAK_FREEZE_MAX,
+  STREAK_FREEZE_PRICE,
+  STREAK_GRACE_HOURS,
+  getCycleDay,
+  getDailyRewards,
+  getNextUtcDayStart,
+  getUtcDayKey,
+  resolveStreak,
+  type DailyReward
+} from '../app/shared/daily-rewards.js';
+
+dotenv.config();
+
+// ============================================================
+// TYPES
+// ============================================================
+
+interface ApiRequest {
+  method?: string;
+  body?: Record<string, any>;
+  headers?: Record<string, string | string[] | undefined>;
+  connection?: { remoteAddress?: string };
+}
+
+interface ApiResponse {
+  status: (code: number) => ApiResponse;
+  json: (data: any) => void;
+  end: (data?: any) => void;
+  setHeader: (key: string, value: string) => void;
+}
+
+interface ClaimRow {
+  claim_date: string;
+  streak: number;
+}
+
+interface HandlerContext {
+  userId: string;
+}
+
+interface DeliveredReward {
+  reward: DailyReward;
+  duplicate: boolean;
+}
+
+const supabase: SupabaseClient = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const FREEZE_LOCK_ATTEMPTS = 3;
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+const rateLimits = new Map<string, RateLimitEntry>();
+let lastRateLimitCleanupAt = 0;
+
+function cleanupRateLimits(): void {
+  lastRateLimitCleanupAt = maybeCleanupRateLimits(rateLimits, lastRateLimitCleanupAt, { maxIdleMs: 15 * 60_000, minIntervalMs: 5 * 60_000 });
+}
+
+async function fetchLastClaim(userId: string): Promise<ClaimRow | null> {
+  const { data, error } = await supabase
+    .from('daily_login_claims')
+    .select('claim_date, streak')
+    .eq('user_id', userId)
+    .order('claim_date', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load daily claims: ${error.message}`);
+  return data as ClaimRow | null;
+}
+
+async function fetchFreezes(userId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('player_stats')
+    .select('streak_freezes')
+    .eq('user_id', userId)
+    .single();
+
+  if (error || !data) throw new Error(`Failed to load streak freezes: ${error?.message || 'not found'}`);
+  return Math.max(0, Number(data.streak_freezes) || 0);
+}
+
+/**
+ * Soma delta aos congelamentos com lock otimista no valor atual. Retorna o
+ * novo total, ou null se o limite (ou zero) impedir a mudança.
+ */
+async function adjustFreezes(userId: string, delta: number): Promise<number | null> {
+  for (let attempt = 0; attempt < FREEZE_LOCK_ATTEMPTS; attempt++) {
+    const current = await fetchFreezes(userId);
+    const next = current + delta;
+    if (next < 0 || next > STREAK_FREEZE_MAX) return null;
+
+    const { data, error } = await supabase
+      .from('player_stats')
+      .update({ streak_freezes: next })
+      .eq('user_id', userId)
+      .eq('streak_freezes', current)
+      .select('streak_freezes');
+
+    if (error) throw new Error(`Failed to update streak freezes: ${error.message}`);
+    if (data && data.length > 0) return next;
+  }
+
+  throw new Error('Concurrent modification detected');
+}
+
+/**
+ * Status público: streak atual (0 se já quebrou), se pode resgatar hoje e o
+ * que o próximo resgate entrega.
+ */
+function buildStatus(lastClaim: ClaimRow | null, freezes: number, now: Date = new Date()) {
+  const today = getUtcDayKey(now);
+  const claimedToday = lastClaim?.claim_date === today;
+  const next = claimedToday
+    ? { streak: lastClaim!.streak + 1, freezesUsed: 0, missedDays: 0, broken: false }
+    : resolveStreak(lastClaim ? { claimDate: lastClaim.claim_date, streak: lastClaim.streak } : null, now, freezes);
+
+  const currentStreak = claimedToday || (lastClaim && !next.broken) ? lastClaim!.streak : 0;
+
+  return {
+    today,
+    claimedToday,
+    streak: currentStreak,
+    cycleDay: currentStreak > 0 ? getCycleDay(currentStreak) : 0,
+    nextStreak: next.streak,
+    nextCycleDay: getCycleDay(next.streak),
+    nextRewards: getDailyRewards(next.streak),
+    freezesNeeded: claimedToday ? 0 : next.freezesUsed,
+    freezes,
+    nextClaimAt: claimedToday ? getNextUtcDayStart(now).toISOString() : now.toISOString(),
+    lastClaimDate: lastClaim?.claim_date || null
+  };
+}
+
+async function deliverReward(userId: string, reward: DailyReward, reason: string, req: ApiRequest) {
+  switch (reward.type) {
+    case 'money': {
+      const newBalance = await updatePlayerBalance(supabase, userId, reward.amount, reason, { casesOpened: 0, req: req as any });
+      return { duplicate: false, newBalance };
+    }
+    case 'diamonds': {
+      const newDiamonds = await updatePlayerDiamonds(supabase, userId, reward.amount, reason, false, req as any);
+      return { duplicate: false, newDiamonds };
+    }
+    case 'pass': {
+      const result = await unlockPassForPlayer(userId, reward.passId);
+      if (!result) throw new Error('Failed to unlock pass');
+      if (result.added) return { duplicate: false, unlockedPasses: result.unlockedPasses };
+
+      const newDiamonds = await updatePlayerDiamonds(supabase, userId, DAILY_DUPLICATE_PASS_DIAMONDS, `${reason} (duplicate)`, false, req as any);
+      return { duplicate: true, newDiamonds };
+    }
+  }
+}
+
+async function rollbackClaim(userId: string, claimDate: string, freezesUsed: number, req: ApiRequest): Promise<void> {
+  const { error } = await supabase
+    .from('daily_login_claims')
+    .delete()
+    .eq('user_id', userId)
+    .eq('claim_date', claimDate);
+
+  let refunded = freezesUsed === 0;
+  if (!refunded) {
+    refunded = await adjustFreezes(userId, freezesUsed).then(v => v !== null).catch(() => false);
+  }
+
+  if (error || !refunded) {
+    logAudit(supabase, userId, 'DAILY_REWARD_ROLLBACK_FAILED', { claimDate, freezesUsed, error: error?.message }, req as any).catch(() => {});
+  }
+}
+
+// ============================================================
+// ACTIONS
+// ============================================================
+
+async function handleGetStatus(_req: ApiRequest, res: ApiResponse, ctx: HandlerContext): Promise<void> {
+  const [lastClaim, freezes] = await Promise.all([fetchLastClaim(ctx.userId), fetchFreezes(ctx.userId)]);
+  return res.status(200).json({
+    success: true,
+    status: buildStatus(lastClaim, freezes),
+    config: {
+      cycleLength: DAILY_CYCLE_LENGTH,
+      graceHours: STREAK_GRACE_HOURS,
+      freezePrice: STREAK_FREEZE_PRICE,
+      freezeMax: STREAK_FREEZE_MAX
+    }
+  });
+}
+
+async function handleClaim(req: ApiRequest, res: ApiResponse, ctx: HandlerContext): Promise<void> {
+  const now = new Date();
+  const today = getUtcDayKey(now);
+  const [lastClaim, freezes] = await Promise.all([fetchLastClaim(ctx.userId), fetchFreezes(ctx.userId)]);
+
+  if (lastClaim?.claim_date === today) {
+    return res.status(400).json({ error: 'ALREADY_CLAIMED_TODAY', nextClaimAt: getNextUtcDayStart(now).toISOString() });
+  }
+
+  const resolution = resolveStreak(lastClaim ? { claimDate: lastClaim.claim_date, streak: lastClaim.streak } : null, now, freezes);
+  const rewards = getDailyRewards(resolution.streak);
+
+  // A linha única (user_id, claim_date) garante um resgate por dia
+  const { error: insertError } = await supabase
+    .from('daily_login_claims')
+    .insert({
+      user_id: ctx.userId,
+      claim_date: today,
+      streak: resolution.streak,
+      freezes_used: resolution.freezesUsed,
+      rewards,
+      claimed_at: now.toISOString()
+    });
+
+  if (insertError) {
+    if (insertError.code === '23505') {
+      return res.status(400).json({ error: 'ALREADY_CLAIMED_TODAY', nextClaimAt: getNextUtcDayStart(now).toISOString() });
+    }
+    throw new Error(`Failed to record daily claim: ${insertError.message}`);
+  }
+
+  if (resolution.freezesUsed > 0) {
+    const remaining = await adjustFreezes(ctx.userId, -resolution.freezesUsed).catch(() => null);
+    if (remaining === null) {
+      await rollbackClaim(ctx.userId, today, 0, req);
+      return res.status(409).json({ error: 'Streak freezes changed. Please try again.' });
+    }
+  }
+
+  const reason = `Daily reward day ${getCycleDay(resolution.streak)} (streak ${resolution.streak})`;
+  const delivered: DeliveredReward[] = [];
+  const result: { newBalance?: number; newDiamonds?: number; unlockedPasses?: string[] } = {};
+
+  for (const reward of rewards) {
+    try {
+      const granted = await deliverReward(ctx.userId, reward, reason, req);
+      delivered.push({ reward, duplicate: granted.duplicate });
+      if ('newBalance' in granted) result.newBalance = granted.newBalance;
+      if ('newDiamonds' in granted) result.newDiamonds = granted.newDiamonds;
+      if ('unlockedPasses' in granted) result.unlockedPasses = granted.unlockedPasses;
+    } catch (error) {
+      const err = error as Error;
+      console.error('❌ Daily reward delivery failed:', err.message);
+
+      // Nada entregue ainda: desfaz o resgate para o jogador tentar de novo
+      if (delivered.length === 0) {
+        await rollbackClaim(ctx.userId, today, resolution.freezesUsed, req);
+        return res.status(500).json({ error: 'Failed to deliver reward. Please try again.' });
+      }
+
+      // Entrega parcial: mantém o resgate e registra o que faltou para o suporte
+      logAudit(supabase, ctx.userId, 'DAILY_REWARD_PARTIAL_DELIVERY', {
+        claimDate: today,
+        reward,
+        error: err.message
+      }, req as any).catch(() => {});
+    }
+  }
+
+  logAudit(supabase, ctx.userId, 'DAILY_REWARD_CLAIMED', {
+    claimDate: today,
+    streak: resolution.streak,
+    freezesUsed: resolution.freezesUsed,
+    broken: resolution.broken,
+    rewards: delivered
+  }, req as any).catch(() => {});
+
+  const remainingFreezes = await fetchFreezes(ctx.userId).catch(() => Math.max(0, freezes - resolution.freezesUsed));
+
+  return res.status(200).json({
+    success: true,
+    streak: resolution.streak,
+    freezesUsed: resolution.freezesUsed,
+    streakBroken: resolution.broken,
+    delivered,
+    ...result,
+    status: buildStatus({ claim_date: today, streak: resolution.streak }, remainingFreezes, now)
+  });
+}
+
+async function handleBuyStreakFreeze(req: ApiRequest, res: ApiResponse, ctx: HandlerContext): Promise<void> {
+  if (await fetchFreezes(ctx.userId) >= STREAK_FREEZE_MAX) {
+    return res.status(400).json({ error: 'FREEZE_LIMIT_REACHED' });
+  }
+
+  let newDiamonds: number;
+  try {
+    newDiamonds = await updatePlayerDiamonds(supabase, ctx.userId, -STREAK_FREEZE_PRICE, 'Streak freeze purchase', false, req as any);
+  } catch (error) {
+    const err = error as Error;
+    if (err.message === 'Insufficient diamonds') {
+      return res.status(400).json({ error: 'INSUFFICIENT_DIAMONDS' });
+    }
+    if (err.message === 'Diamond debt outstanding') {
+      return res.status(403).json({ error: 'DIAMOND_DEBT' });
+    }
+    throw err;
+  }
+
+  const freezes = await adjustFreezes(ctx.userId, 1).catch(() => null);
+  if (freezes === null) {
+    // Limite atingido por outra requisição: devolver os diamantes
+    try {
+      newDiamonds = await updatePlayerDiamonds(supabase, ctx.userId, STREAK_FREEZE_PRICE, 'Streak freeze refund', false, req as any);
+    } catch {
+      logAudit(supabase, ctx.userId, 'STREAK_FREEZE_REFUND_FAILED', { price: STREAK_FREEZE_PRICE }, req as any).catch(() => {});
+    }
+    return res.status(409).json({ error: 'FREEZE_LIMIT_REACHED', newDiamonds });
+  }
+
+  logAudit(supabase, ctx.userId, 'STREAK_FREEZE_PURCHASED', { price: STREAK_FREEZE_PRICE, freezes }, req as any).catch(() => {});
+
+  const lastClaim = await fetchLastClaim(ctx.userId);
+  return res.status(200).json({ success: true, freezes, newDiamonds, status: buildStatus(lastClaim, freezes) });
+}
+
+// ============================================================
+// MAIN HANDLER
+// ============================================================
+
+export default async function handler(req: ApiRequest, res: ApiResponse): Promise<void> {
+  applyCors(req as any, res as any);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { action, userId, authToken } = req.body || {};
+  cleanupRateLimits();
+
+  const identifier = getIdentifier(req as any, userId);
+  if (!checkRateLimit(rateLimits, identifier, { maxRequests: 40, windowMs: 60_000 })) {
+    logAudit(supabase, userId || 'unknown', 'DAILY_REWARD_RATE_LIMIT', { action }, req as any).catch(() => {});
+    return res.status(429).json({ error: 'Too many requests. Please wait.' });
+  }
+
+  if (!action || typeof action !== 'string') {
+    return res.status(400).json({ error: 'Invalid action' });
+  }
+  if (!userId || typeof userId !== 'string') {
+    return res.status(400).json({ error: 'Invalid userId' });
+  }
+  if (!authToken || typeof authToken !== 'string') {
+    return res.status(400).json({ error: 'Invalid authToken' });
+  }
+
+  const { valid, error: sessionError } = await validateSessionAndFetchPlayerStats(supabase, authToken, userId, {
+    select: 'user_id'
+  });
+  if (!valid) {
+    logAudit(supabase, userId, 'DAILY_REWARD_AUTH_FAILED', { action, error: sessionError }, req as any).catch(() => {});
+    return res.status(401).json({ error: sessionError });
+  }
+
+  // 🛡️ Validar CSRF token (apenas para ações que fazem mutações)
+  const mutationActions = ['claimDailyReward', 'buyStreakFreeze'];
+  if (mutationActions.includes(action)) {
+    const csrfValidation = await validateCsrfMiddleware(supabase, req as any, userId);
+    if (!csrfValidation.valid) {
+      console.warn('⚠️ CSRF validation failed:', { userId, action, error: csrfValidation.error });
+      logAudit(supabase, userId, 'DAILY_REWARD_CSRF_VALIDATION_FAILED', { action }, req as any).catch(() => {});
+      return res.status(403).json({ error: 'Security validation failed' });
+    }
+  }
+
+  const ctx: HandlerContext = { userId };
+
+  try {
+    switch (action) {
+      case 'getDailyStatus':
+        return await handleGetStatus(req, res, ctx);
+      case 'claimDailyReward':
+        return await handleClaim(req, res, ctx);
+      case 'buyStreakFreeze':
+        return await handleBuyStreakFreeze(req, res, ctx);
+      default:
+        return res.status(400).json({ error: 'Invalid action' });
+    }
+  } catch (error) {
+    const err = error as Error;
+    console.error('💥 Daily rewards: unhandled error', err);
+    logAudit(supabase, userId, 'DAILY_REWARD_ERROR', { action, error: err.message }, req as any).catch(() => {});
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -13,8 +13,12 @@ import {
   logMoneyTransactionAsync,
   updatePlayerBalance,
   validateCsrfMiddleware,
+  grantPlayerXp,
 } from './_utils.js';
 import { applyReferralCommissionForSpend } from './_referrals.js';
+import { grantBattlePassXp } from './_battlepass.js';
+import { evaluateAchievements } from './_achievements.js';
+import { mergeXpAwards } from '../app/shared/levels.js';
 
 import dotenv from 'dotenv';
 dotenv.config();
@@ -87,6 +91,14 @@ async function logAction(userId: string, action: string, details: any, req: ApiR
   return logAudit(supabase, userId, action, details, req as any);
 }
 
+// Quantidade vendida por raridade (usada pelo progresso das missões)
+function countByRarity(items: InventoryItem[]): Record<string, number> {
+  return items.reduce<Record<string, number>>((acc, item) => {
+    acc[item.rarity] = (acc[item.rarity] || 0) + 1;
+    return acc;
+  }, {});
+}
+
 // ============================================================
 // 🔐 VALIDAÇÃO DE SESSÃO
 // ============================================================
@@ -258,9 +270,15 @@ async function handleSellItem(req: ApiRequest, res: ApiResponse, userId: string,
       return res.status(500).json({ error: 'Transaction failed. Item restored.' });
     }
     
+    grantBattlePassXp(userId, 'item_sold').catch(() => {});
+    const soldXp = await grantPlayerXp(supabase, userId, 'item_sold', { req: req as any });
+    const achievements = await evaluateAchievements(userId, req as any);
+    const xp = mergeXpAwards(soldXp, achievements.xp);
+
     logAction(userId, 'SELL_ITEM_SUCCESS', {
       itemId,
       itemName: item.item_name,
+      rarity: item.rarity,
       value: itemValue,
       newBalance
     }, req).catch(() => {});
@@ -268,8 +286,11 @@ async function handleSellItem(req: ApiRequest, res: ApiResponse, userId: string,
     return res.status(200).json({
       success: true,
       soldValue: itemValue,
-      newBalance: newBalance,
-      itemName: item.item_name
+      newBalance: xp?.newBalance ?? newBalance,
+      itemName: item.item_name,
+      xp,
+      achievements: achievements.unlocked,
+      newDiamonds: achievements.newDiamonds
     });
     
   } catch (error) {
@@ -372,17 +393,26 @@ async function handleSellSelected(req: ApiRequest, res: ApiResponse, userId: str
       return res.status(500).json({ error: 'Transaction failed. Items restored.' });
     }
     
+    grantBattlePassXp(userId, 'item_sold', validItems.length).catch(() => {});
+    const soldXp = await grantPlayerXp(supabase, userId, 'item_sold', { count: validItems.length, req: req as any });
+    const achievements = await evaluateAchievements(userId, req as any);
+    const xp = mergeXpAwards(soldXp, achievements.xp);
+
     logAction(userId, 'SELL_SELECTED_SUCCESS', {
       count: validItems.length,
       totalValue,
-      newBalance
+      newBalance,
+      rarityCounts: countByRarity(validItems)
     }, req).catch(() => {});
     
     return res.status(200).json({
       success: true,
       soldCount: validItems.length,
       totalValue: totalValue,
-      newBalance: newBalance
+      newBalance: xp?.newBalance ?? newBalance,
+      xp,
+      achievements: achievements.unlocked,
+      newDiamonds: achievements.newDiamonds
     });
     
   } catch (error) {
@@ -488,18 +518,27 @@ async function handleSellAll(req: ApiRequest, res: ApiResponse, userId: string,
       return res.status(500).json({ error: 'Transaction failed. Items restored.' });
     }
     
+    grantBattlePassXp(userId, 'item_sold', validItems.length).catch(() => {});
+    const soldXp = await grantPlayerXp(supabase, userId, 'item_sold', { count: validItems.length, req: req as any });
+    const achievements = await evaluateAchievements(userId, req as any);
+    const xp = mergeXpAwards(soldXp, achievements.xp);
+
     logAction(userId, 'SELL_ALL_SUCCESS', {
       rarities: filteredRarities,
       count: validItems.length,
       totalValue,
-      newBalance
+      newBalance,
+      rarityCounts: countByRarity(validItems)
     }, req).catch(() => {});
     
     return res.status(200).json({
       success: true,
       soldCount: validItems.length,
       totalValue: totalValue,
-      newBalance: newBalance
+      newBalance: xp?.newBalance ?? newBalance,
+      xp,
+      achievements: achievements.unlocked,
+      newDiamonds: achievements.newDiamonds
     });
     
   } catch (error) {
@@ -515,13 +554,18 @@ async function handleSellAll(req: ApiRequest, res: ApiResponse, userId: string,
 async function handleUpgradeInventory(req: ApiRequest, res: ApiResponse, userId: string, authToken: string): Promise<void> {
   try {
     const session = await validateSessionAndFetchPlayerStats(supabase, authToken, userId, {
-      select: 'diamonds, max_inventory'
+      select: 'diamonds, diamond_debt, max_inventory'
     });
 
     if (!session.valid) {
       return res.status(401).json({ error: session.error });
     }
 
+    // Dívida de estorno (reembolso/chargeback) bloqueia gastos de diamantes
+    if (Number((session.stats as any)?.diamond_debt) > 0) {
+      return res.status(403).json({ error: 'DIAMOND_DEBT', debt: Number((session.stats as any).diamond_debt) });
+    }
+
     const { data: rpcResult, error: rpcError } = await supabase.rpc('upgrade_inventory', {
       p_user_id: userId
     });
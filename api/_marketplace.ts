@@ -0,0 +1,560 @@
+// ============================================================
+// API/_MARKETPLACE.TS - Mercado entre jogadores
+// ============================================================
+// Qualquer jogador anuncia um item do inventário por um preço escolhido.
+// Escrow: enquanto anunciado, o item sai de `inventory` e fica guardado no
+// próprio anúncio (`market_listings`), então não pode ser vendido por
+// handleSellAll/handleSellSelected, trocado ou usado em outro lugar.
+// Na compra a linha volta para `inventory` (mesmo id) com o comprador como
+// dono; no cancelamento/expiração volta para o vendedor. Cada passagem do
+// item (anunciar, comprar, cancelar, expirar) é uma única RPC transacional.
+// A plataforma fica com MARKET_FEE_RATE do preço (padrão 5%).
+
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import {
+  applyCors,
+  checkRateLimit,
+  getIdentifier,
+  logAudit,
+  logMoneyTransactionAsync,
+  maybeCleanupRateLimits,
+  validateCsrfMiddleware,
+  validateSessionAndFetchPlayerStats,
+  type RateLimitEntry,
+} from './_utils.js';
+import { checkInventoryCapacity } from './_caseopening.js';
+
+dotenv.config();
+
+// ============================================================
+// TYPES
+// ============================================================
+
+interface ApiRequest {
+  method?: string;
+  body?: Record<string, any>;
+  headers?: Record<string, string | string[] | undefined>;
+  connection?: { remoteAddress?: string };
+}
+
+interface ApiResponse {
+  status: (code: number) => ApiResponse;
+  json: (data: any) => void;
+  end: (data?: any) => void;
+  setHeader: (key: string, value: string) => void;
+}
+
+type ListingStatus = 'active' | 'sold' | 'cancelled' | 'expired';
+
+interface ListingRow {
+  id: string;
+  seller_id: string;
+  seller_username: string;
+  item_id: string;
+  item_name: string;
+  rarity: string;
+  color: string;
+  value: number;
+  case_name: string | null;
+  obtained_at: string | null;
+  price: number;
+  fee: number;
+  status: ListingStatus;
+  buyer_id: string | null;
+  created_at: string;
+  expires_at: string;
+  sold_at: string | null;
+  closed_at: string | null;
+}
+
+interface HandlerContext {
+  userId: string;
+  username: string;
+  maxInventory?: number;
+  diamondDebt: number;
+}
+
+const supabase: SupabaseClient = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const MIN_PRICE = 0.01;
+const MAX_PRICE = 100000;
+const MAX_ACTIVE_LISTINGS = 20;
+const LISTING_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const PAGE_SIZE = 24;
+const MY_LISTINGS_LIMIT = 30;
+const PRICE_HISTORY_LIMIT = 100;
+const EXPIRE_BATCH_SIZE = 50;
+const VALID_RARITIES = ['Common', 'Uncommon', 'Rare', 'Epic', 'Legendary', 'Mythic'];
+const SORTS: Record<string, { column: string; ascending: boolean }> = {
+  newest: { column: 'created_at', ascending: false },
+  price_asc: { column: 'price', ascending: true },
+  price_desc: { column: 'price', ascending: false }
+};
+
+function parseFeeRate(raw: string | undefined): number {
+  const rate = Number(raw);
+  if (raw === undefined || raw === '' || !Number.isFinite(rate)) return 0.05;
+  return Math.min(Math.max(rate, 0), 0.5);
+}
+
+const MARKET_FEE_RATE = parseFeeRate(process.env.MARKET_FEE_RATE);
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+const rateLimits = new Map<string, RateLimitEntry>();
+let lastRateLimitCleanupAt = 0;
+
+function cleanupRateLimits(): void {
+  lastRateLimitCleanupAt = maybeCleanupRateLimits(rateLimits, lastRateLimitCleanupAt, { maxIdleMs: 15 * 60_000, minIntervalMs: 5 * 60_000 });
+}
+
+function isValidUuid(value: unknown): value is string {
+  return typeof value === 'string' && /^[0-9a-f-]{36}$/i.test(value);
+}
+
+function calculateFee(price: number): number {
+  return parseFloat((price * MARKET_FEE_RATE).toFixed(2));
+}
+
+function toPublicListing(listing: ListingRow, userId: string) {
+  return {
+    id: listing.id,
+    sellerId: listing.seller_id,
+    sellerUsername: listing.seller_username,
+    isMine: listing.seller_id === userId,
+    itemName: listing.item_name,
+    rarity: listing.rarity,
+    color: listing.color,
+    value: Number(listing.value) || 0,
+    caseName: listing.case_name,
+    price: Number(listing.price) || 0,
+    fee: Number(listing.fee) || 0,
+    status: listing.status,
+    createdAt: listing.created_at,
+    expiresAt: listing.expires_at,
+    soldAt: listing.sold_at,
+    closedAt: listing.closed_at
+  };
+}
+
+async function fetchListing(listingId: string): Promise<ListingRow | null> {
+  const { data, error } = await supabase
+    .from('market_listings')
+    .select('*')
+    .eq('id', listingId)
+    .single();
+
+  if (error || !data) return null;
+  return data as ListingRow;
+}
+
+/**
+ * Fecha um anúncio ativo e devolve o item ao vendedor numa única transação
+ * (RPC `release_market_listing`): ou o anúncio fecha e o item volta para
+ * `inventory`, ou nada muda. Retorna false se o anúncio já não está ativo.
+ */
+async function releaseListing(listing: ListingRow, to: 'cancelled' | 'expired'): Promise<boolean> {
+  const { error } = await supabase.rpc('release_market_listing', {
+    p_listing_id: listing.id,
+    p_seller_id: listing.seller_id,
+    p_status: to
+  });
+
+  if (!error) return true;
+  if (error.message?.includes('LISTING_NOT_ACTIVE')) return false;
+  throw new Error(`release_market_listing failed: ${error.message}`);
+}
+
+/**
+ * Expira anúncios vencidos e devolve os itens aos vendedores.
+ * Não há cron para isso: roda (em lotes) quando o mercado é consultado.
+ */
+async function expireListings(sellerId?: string): Promise<void> {
+  let query = supabase
+    .from('market_listings')
+    .select('*')
+    .eq('status', 'active')
+    .lt('expires_at', new Date().toISOString())
+    .limit(EXPIRE_BATCH_SIZE);
+
+  if (sellerId) query = query.eq('seller_id', sellerId);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('⚠️ Failed to load expired listings:', error.message);
+    return;
+  }
+
+  // Se a devolução falhar o anúncio continua ativo e é tentado de novo
+  for (const listing of (data || []) as ListingRow[]) {
+    try {
+      await releaseListing(listing, 'expired');
+    } catch (err) {
+      console.error('💥 Failed to expire listing:', listing.id, err instanceof Error ? err.message : err);
+      logAudit(supabase, listing.seller_id, 'MARKET_ESCROW_RELEASE_FAILED', { listingId: listing.id, reason: 'expired' }).catch(() => {});
+    }
+  }
+}
+
+// ============================================================
+// HANDLERS
+// ============================================================
+
+async function handleBrowseListings(req: ApiRequest, res: ApiResponse, ctx: HandlerContext): Promise<void> {
+  const { rarity, caseName, search, sort } = req.body || {};
+  const page = Math.max(0, Math.floor(Number(req.body?.page) || 0));
+
+  await expireListings();
+
+  const order = SORTS[typeof sort === 'string' ? sort : ''] || SORTS.newest;
+  let query = supabase
+    .from('market_listings')
+    .select('*', { count: 'exact' })
+    .eq('status', 'active')
+    .gt('expires_at', new Date().toISOString());
+
+  if (typeof rarity === 'string' && VALID_RARITIES.includes(rarity)) {
+    query = query.eq('rarity', rarity);
+  }
+  if (typeof caseName === 'string' && caseName.trim()) {
+    query = query.eq('case_name', caseName.trim().slice(0, 60));
+  }
+  if (typeof search === 'string' && search.trim()) {
+    const escaped = search.trim().slice(0, 40).replace(/[%_\\]/g, '\\$&');
+    query = query.ilike('item_name', `%${escaped}%`);
+  }
+
+  const { data, count, error } = await query
+    .order(order.column, { ascending: order.ascending })
+    .range(page * PAGE_SIZE, page * PAGE_SIZE + PAGE_SIZE - 1);
+
+  if (error) {
+    return res.status(500).json({ error: 'Failed to load listings' });
+  }
+
+  return res.status(200).json({
+    listings: (data || []).map(row => toPublicListing(row as ListingRow, ctx.userId)),
+    total: count || 0,
+    page,
+    pageSize: PAGE_SIZE,
+    feeRate: MARKET_FEE_RATE
+  });
+}
+
+async function handleMyListings(req: ApiRequest, res: ApiResponse, ctx: HandlerContext): Promise<void> {
+  await expireListings(ctx.userId);
+
+  const { data, error } = await supabase
+    .from('market_listings')
+    .select('*')
+    .eq('seller_id', ctx.userId)
+    .order('created_at', { ascending: false })
+    .limit(MY_LISTINGS_LIMIT);
+
+  if (error) {
+    return res.status(500).json({ error: 'Failed to load listings' });
+  }
+
+  return res.status(200).json({
+    listings: (data || []).map(row => toPublicListing(row as ListingRow, ctx.userId)),
+    feeRate: MARKET_FEE_RATE
+  });
+}
+
+async function handleGetPriceHistory(req: ApiRequest, res: ApiResponse): Promise<void> {
+  const { itemName } = req.body || {};
+  if (!itemName || typeof itemName !== 'string' || itemName.length > 60) {
+    return res.status(400).json({ error: 'Invalid itemName' });
+  }
+
+  const { data, error } = await supabase
+    .from('market_listings')
+    .select('price, sold_at')
+    .eq('item_name', itemName)
+    .eq('status', 'sold')
+    .order('sold_at', { ascending: false })
+    .limit(PRICE_HISTORY_LIMIT);
+
+  if (error) {
+    return res.status(500).json({ error: 'Failed to load price history' });
+  }
+
+  const sales = (data || [])
+    .map((row: any) => ({ price: Number(row.price) || 0, soldAt: row.sold_at }))
+    .reverse();
+  const prices = sales.map(sale => sale.price);
+
+  return res.status(200).json({
+    itemName,
+    sales,
+    stats: prices.length ? {
+      count: prices.length,
+      last: prices[prices.length - 1],
+      average: parseFloat((prices.reduce((sum, p) => sum + p, 0) / prices.length).toFixed(2)),
+      min: Math.min(...prices),
+      max: Math.max(...prices)
+    } : null
+  });
+}
+
+async function handleCreateListing(req: ApiRequest, res: ApiResponse, ctx: HandlerContext): Promise<void> {
+  const { itemId } = req.body || {};
+  const price = parseFloat(Number(req.body?.price).toFixed(2));
+
+  if (!isValidUuid(itemId)) {
+    return res.status(400).json({ error: 'Invalid itemId' });
+  }
+  if (!Number.isFinite(price) || price < MIN_PRICE || price > MAX_PRICE) {
+    return res.status(400).json({ error: `Price must be between ${MIN_PRICE} and ${MAX_PRICE}` });
+  }
+  if (ctx.diamondDebt > 0) {
+    return res.status(403).json({ error: 'DIAMOND_DEBT' });
+  }
+
+  const { count: activeCount } = await supabase
+    .from('market_listings')
+    .select('id', { count: 'exact', head: true })
+    .eq('seller_id', ctx.userId)
+    .eq('status', 'active');
+
+  if ((activeCount || 0) >= MAX_ACTIVE_LISTINGS) {
+    return res.status(400).json({ error: 'TOO_MANY_LISTINGS', max: MAX_ACTIVE_LISTINGS });
+  }
+
+  // Escrow numa transação (RPC `create_market_listing`): o item sai de
+  // `inventory` e o anúncio é criado juntos, ou nada muda
+  const { data, error: createError } = await supabase.rpc('create_market_listing', {
+    p_seller_id: ctx.userId,
+    p_seller_username: ctx.username,
+    p_item_id: itemId,
+    p_price: price,
+    p_fee: calculateFee(price),
+    p_expires_at: new Date(Date.now() + LISTING_TTL_MS).toISOString()
+  });
+
+  if (createError) {
+    if (createError.message?.includes('ITEM_NOT_OWNED')) {
+      return res.status(404).json({ error: 'Item not found' });
+    }
+    console.error('💥 Failed to create listing:', createError.message);
+    return res.status(500).json({ error: 'Failed to create listing' });
+  }
+
+  const listing = (Array.isArray(data) ? data[0] : data) as ListingRow | null;
+  if (!listing) {
+    return res.status(500).json({ error: 'Failed to create listing' });
+  }
+
+  logAudit(supabase, ctx.userId, 'MARKET_LISTING_CREATED', {
+    listingId: listing.id,
+    itemId: listing.item_id,
+    itemName: listing.item_name,
+    price
+  }, req as any).catch(() => {});
+
+  return res.status(200).json({ success: true, listing: toPublicListing(listing, ctx.userId) });
+}
+
+async function handleCancelListing(req: ApiRequest, res: ApiResponse, ctx: HandlerContext): Promise<void> {
+  const { listingId } = req.body || {};
+  if (!isValidUuid(listingId)) {
+    return res.status(400).json({ error: 'Invalid listingId' });
+  }
+
+  const listing = await fetchListing(listingId);
+  if (!listing) {
+    return res.status(404).json({ error: 'Listing not found' });
+  }
+  if (listing.seller_id !== ctx.userId) {
+    return res.status(403).json({ error: 'Only the seller can cancel' });
+  }
+  if (listing.status !== 'active') {
+    return res.status(409).json({ error: 'LISTING_NOT_ACTIVE' });
+  }
+
+  const capacity = await checkInventoryCapacity(ctx.userId, 1, ctx.maxInventory);
+  if (!capacity.valid) {
+    return res.status(400).json({ error: capacity.error, current: capacity.current, max: capacity.max });
+  }
+
+  try {
+    if (!(await releaseListing(listing, 'cancelled'))) {
+      return res.status(409).json({ error: 'LISTING_NOT_ACTIVE' });
+    }
+  } catch (err) {
+    console.error('💥 Failed to cancel listing:', listing.id, err instanceof Error ? err.message : err);
+    return res.status(500).json({ error: 'Failed to return item' });
+  }
+
+  logAudit(supabase, ctx.userId, 'MARKET_LISTING_CANCELLED', { listingId: listing.id, itemId: listing.item_id }, req as any).catch(() => {});
+
+  return res.status(200).json({ success: true });
+}
+
+async function handleBuyListing(req: ApiRequest, res: ApiResponse, ctx: HandlerContext): Promise<void> {
+  const { listingId } = req.body || {};
+  if (!isValidUuid(listingId)) {
+    return res.status(400).json({ error: 'Invalid listingId' });
+  }
+
+  const listing = await fetchListing(listingId);
+  if (!listing) {
+    return res.status(404).json({ error: 'Listing not found' });
+  }
+  if (listing.seller_id === ctx.userId) {
+    return res.status(400).json({ error: 'You cannot buy your own listing' });
+  }
+  if (ctx.diamondDebt > 0) {
+    return res.status(403).json({ error: 'DIAMOND_DEBT' });
+  }
+  if (listing.status !== 'active' || new Date(listing.expires_at).getTime() <= Date.now()) {
+    return res.status(409).json({ error: 'LISTING_NOT_ACTIVE' });
+  }
+
+  const capacity = await checkInventoryCapacity(ctx.userId, 1, ctx.maxInventory);
+  if (!capacity.valid) {
+    return res.status(400).json({ error: capacity.error, current: capacity.current, max: capacity.max });
+  }
+
+  const price = Number(listing.price);
+  const payout = parseFloat((price - Number(listing.fee)).toFixed(2));
+
+  // Compra numa transação (RPC `execute_market_purchase`): trava o anúncio
+  // ativo, debita o comprador, entrega o item e paga o vendedor, ou nada muda
+  const { data, error: purchaseError } = await supabase.rpc('execute_market_purchase', {
+    p_listing_id: listing.id,
+    p_buyer_id: ctx.userId
+  });
+
+  if (purchaseError) {
+    const message = purchaseError.message || '';
+    if (message.includes('LISTING_NOT_ACTIVE')) {
+      return res.status(409).json({ error: 'LISTING_NOT_ACTIVE' });
+    }
+    logAudit(supabase, ctx.userId, 'MARKET_PURCHASE_FAILED', { listingId: listing.id, error: message }, req as any).catch(() => {});
+    if (message.includes('INSUFFICIENT_FUNDS')) {
+      return res.status(400).json({ error: 'INSUFFICIENT_FUNDS' });
+    }
+    if (message.includes('DIAMOND_DEBT')) {
+      return res.status(403).json({ error: 'DIAMOND_DEBT' });
+    }
+    console.error('💥 Market purchase failed:', listing.id, message);
+    return res.status(500).json({ error: 'Purchase failed. Nothing was charged.' });
+  }
+
+  const result = Array.isArray(data) ? data[0] : data;
+  const soldAt: string = result?.sold_at || new Date().toISOString();
+  const newBalance = typeof result?.buyer_money === 'number' ? result.buyer_money : null;
+
+  // Extrato de dinheiro dos dois lados (saldos finais devolvidos pela RPC)
+  if (newBalance !== null) {
+    logMoneyTransactionAsync(supabase, ctx.userId, -price, `Market purchase: ${listing.item_name}`, newBalance);
+  }
+  if (payout > 0 && typeof result?.seller_money === 'number') {
+    logMoneyTransactionAsync(supabase, listing.seller_id, payout, `Market sale: ${listing.item_name}`, result.seller_money);
+  }
+
+  logAudit(supabase, ctx.userId, 'MARKET_PURCHASE', { listingId: listing.id, itemId: listing.item_id, sellerId: listing.seller_id, price }, req as any).catch(() => {});
+  logAudit(supabase, listing.seller_id, 'MARKET_SALE', { listingId: listing.id, itemId: listing.item_id, buyerId: ctx.userId, price, fee: listing.fee, payout }, req as any).catch(() => {});
+
+  return res.status(200).json({
+    success: true,
+    listing: toPublicListing({ ...listing, status: 'sold', buyer_id: ctx.userId, sold_at: soldAt, closed_at: soldAt }, ctx.userId),
+    newBalance
+  });
+}
+
+// ============================================================
+// MAIN HANDLER
+// ============================================================
+
+export default async function handler(req: ApiRequest, res: ApiResponse): Promise<void> {
+  applyCors(req as any, res as any);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { action, userId, authToken } = req.body || {};
+  cleanupRateLimits();
+
+  const identifier = getIdentifier(req as any, userId);
+  if (!checkRateLimit(rateLimits, identifier, { maxRequests: 60, windowMs: 60_000 })) {
+    logAudit(supabase, userId || 'unknown', 'MARKET_RATE_LIMIT', { action }, req as any).catch(() => {});
+    return res.status(429).json({ error: 'Too many requests. Please wait.' });
+  }
+
+  if (!action || typeof action !== 'string') {
+    return res.status(400).json({ error: 'Invalid action' });
+  }
+  if (!userId || typeof userId !== 'string') {
+    return res.status(400).json({ error: 'Invalid userId' });
+  }
+  if (!authToken || typeof authToken !== 'string') {
+    return res.status(400).json({ error: 'Invalid authToken' });
+  }
+
+  const { valid, error: sessionError, stats } = await validateSessionAndFetchPlayerStats(supabase, authToken, userId, {
+    select: 'user_id, username, max_inventory, diamond_debt'
+  });
+  if (!valid) {
+    logAudit(supabase, userId, 'MARKET_AUTH_FAILED', { action, error: sessionError }, req as any).catch(() => {});
+    return res.status(401).json({ error: sessionError });
+  }
+
+  // 🛡️ Validar CSRF token (apenas para ações que fazem mutações)
+  const mutationActions = ['createListing', 'cancelListing', 'buyListing'];
+  if (mutationActions.includes(action)) {
+    const csrfValidation = await validateCsrfMiddleware(supabase, req as any, userId);
+    if (!csrfValidation.valid) {
+      console.warn('⚠️ CSRF validation failed:', { userId, action, error: csrfValidation.error });
+      logAudit(supabase, userId, 'MARKET_CSRF_VALIDATION_FAILED', { action }, req as any).catch(() => {});
+      return res.status(403).json({ error: 'Security validation failed' });
+    }
+  }
+
+  const ctx: HandlerContext = {
+    userId,
+    username: stats?.username || 'Player',
+    maxInventory: stats?.max_inventory,
+    diamondDebt: Number(stats?.diamond_debt) || 0
+  };
+
+  try {
+    switch (action) {
+      case 'browseListings':
+        return await handleBrowseListings(req, res, ctx);
+      case 'myListings':
+        return await handleMyListings(req, res, ctx);
+      case 'getPriceHistory':
+        return await handleGetPriceHistory(req, res);
+      case 'createListing':
+        return await handleCreateListing(req, res, ctx);
+      case 'cancelListing':
+        return await handleCancelListing(req, res, ctx);
+      case 'buyListing':
+        return await handleBuyListing(req, res, ctx);
+      default:
+        return res.status(400).json({ error: 'Invalid action' });
+    }
+  } catch (error) {
+    const err = error as Error;
+    console.error('💥 Marketplace: unhandled error', err);
+    logAudit(supabase, userId, 'MARKET_ERROR', { action, error: err.message }, req as any).catch(() => {});
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,303 @@
+// ============================================================
+// API/_MISSIONS.TS - Missões diárias e semanais
+// ============================================================
+// Pool de modelos, sorteio por jogador e períodos ficam em
+// app/shared/missions.ts. O progresso é contado no servidor por
+// trackMissionProgress (api/_utils.ts) a partir das ações registradas no
+// audit log; aqui só se lê o progresso e se entregam as recompensas. Cada
+// missão é uma linha única (user_id, period_key, mission_id) em
+// `player_missions`, e o resgate marca `claimed_at` uma única vez.
+
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import {
+  applyCors,
+  checkRateLimit,
+  getIdentifier,
+  grantPlayerXp,
+  logAudit,
+  maybeCleanupRateLimits,
+  updatePlayerBalance,
+  updatePlayerDiamonds,
+  validateCsrfMiddleware,
+  validateSessionAndFetchPlayerStats,
+  type RateLimitEntry,
+} from './_utils.js';
+import {
+  getAllAssignedMissions,
+  getMissionPeriodEnd,
+  type AssignedMission,
+  type MissionReward
+} from '../app/shared/missions.js';
+import type { XpAward } from '../app/shared/levels.js';
+
+dotenv.config();
+
+// ============================================================
+// TYPES
+// ============================================================
+
+interface ApiRequest {
+  method?: string;
+  body?: Record<string, any>;
+  headers?: Record<string, string | string[] | undefined>;
+  connection?: { remoteAddress?: string };
+}
+
+interface ApiResponse {
+  status: (code: number) => ApiResponse;
+  json: (data: any) => void;
+  end: (data?: any) => void;
+  setHeader: (key: string, value: string) => void;
+}
+
+interface MissionRow {
+  period_key: string;
+  mission_id: string;
+  progress: number;
+  claimed_at: string | null;
+}
+
+interface HandlerContext {
+  userId: string;
+}
+
+const supabase: SupabaseClient = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+const rateLimits = new Map<string, RateLimitEntry>();
+let lastRateLimitCleanupAt = 0;
+
+function cleanupRateLimits(): void {
+  lastRateLimitCleanupAt = maybeCleanupRateLimits(rateLimits, lastRateLimitCleanupAt, { maxIdleMs: 15 * 60_000, minIntervalMs: 5 * 60_000 });
+}
+
+async function fetchMissionRows(userId: string, missions: AssignedMission[]): Promise<MissionRow[]> {
+  const periodKeys = [...new Set(missions.map(m => m.periodKey))];
+  const { data, error } = await supabase
+    .from('player_missions')
+    .select('period_key, mission_id, progress, claimed_at')
+    .eq('user_id', userId)
+    .in('period_key', periodKeys);
+
+  if (error) throw new Error(`Failed to load missions: ${error.message}`);
+  return (data || []) as MissionRow[];
+}
+
+function buildMissionList(missions: AssignedMission[], rows: MissionRow[]) {
+  return missions.map(mission => {
+    const row = rows.find(r => r.period_key === mission.periodKey && r.mission_id === mission.id);
+    const progress = Math.min(mission.target, Math.max(0, Number(row?.progress) || 0));
+    return {
+      ...mission,
+      progress,
+      completed: progress >= mission.target,
+      claimed: Boolean(row?.claimed_at),
+      claimedAt: row?.claimed_at || null
+    };
+  });
+}
+
+async function setClaimedAt(userId: string, mission: AssignedMission, claimedAt: string | null) {
+  let query = supabase
+    .from('player_missions')
+    .update({ claimed_at: claimedAt })
+    .eq('user_id', userId)
+    .eq('period_key', mission.periodKey)
+    .eq('mission_id', mission.id);
+
+  // Marcar exige missão completa e ainda não resgatada; desfazer só limpa
+  query = claimedAt
+    ? query.is('claimed_at', null).gte('progress', mission.target)
+    : query.not('claimed_at', 'is', null);
+
+  const { data, error } = await query.select('mission_id');
+  if (error) throw new Error(`Failed to update mission claim: ${error.message}`);
+  return Boolean(data && data.length > 0);
+}
+
+async function deliverReward(userId: string, mission: AssignedMission, reward: MissionReward, req: ApiRequest) {
+  const reason = `Mission reward: ${mission.id}`;
+  switch (reward.type) {
+    case 'money':
+      return { newBalance: await updatePlayerBalance(supabase, userId, reward.amount, reason, { casesOpened: 0, req: req as any }) };
+    case 'diamonds':
+      return { newDiamonds: await updatePlayerDiamonds(supabase, userId, reward.amount, reason, false, req as any) };
+    case 'xp': {
+      const xp = await grantPlayerXp(supabase, userId, 'mission', {
+        amount: reward.amount,
+        reference: `${mission.periodKey}:${mission.id}`,
+        req: req as any
+      });
+      if (!xp) throw new Error('Failed to grant XP');
+      return { xp };
+    }
+  }
+}
+
+// ============================================================
+// ACTIONS
+// ============================================================
+
+async function handleGetMissions(_req: ApiRequest, res: ApiResponse, ctx: HandlerContext): Promise<void> {
+  const now = new Date();
+  const missions = getAllAssignedMissions(ctx.userId, now);
+  const rows = await fetchMissionRows(ctx.userId, missions);
+
+  return res.status(200).json({
+    success: true,
+    missions: buildMissionList(missions, rows),
+    resets: {
+      daily: getMissionPeriodEnd('daily', now).toISOString(),
+      weekly: getMissionPeriodEnd('weekly', now).toISOString()
+    }
+  });
+}
+
+async function handleClaimMission(req: ApiRequest, res: ApiResponse, ctx: HandlerContext): Promise<void> {
+  const { missionId } = req.body || {};
+  if (!missionId || typeof missionId !== 'string') {
+    return res.status(400).json({ error: 'Invalid missionId' });
+  }
+
+  // Só as missões do período atual podem ser resgatadas
+  const mission = getAllAssignedMissions(ctx.userId).find(m => m.id === missionId);
+  if (!mission) {
+    return res.status(400).json({ error: 'MISSION_NOT_ACTIVE' });
+  }
+
+  if (!await setClaimedAt(ctx.userId, mission, new Date().toISOString())) {
+    const rows = await fetchMissionRows(ctx.userId, [mission]);
+    const row = rows.find(r => r.mission_id === mission.id);
+    return res.status(400).json({ error: row?.claimed_at ? 'ALREADY_CLAIMED' : 'MISSION_NOT_COMPLETED' });
+  }
+
+  const delivered: MissionReward[] = [];
+  const result: { newBalance?: number; newDiamonds?: number; xp?: XpAward } = {};
+
+  for (const reward of mission.rewards) {
+    try {
+      const granted = await deliverReward(ctx.userId, mission, reward, req);
+      delivered.push(reward);
+      if ('newBalance' in granted) result.newBalance = granted.newBalance;
+      if ('newDiamonds' in granted) result.newDiamonds = granted.newDiamonds;
+      if ('xp' in granted && granted.xp) {
+        result.xp = granted.xp;
+        // Recompensas de nível também mexem nos saldos
+        if (granted.xp.newBalance !== undefined) result.newBalance = granted.xp.newBalance;
+        if (granted.xp.newDiamonds !== undefined) result.newDiamonds = granted.xp.newDiamonds;
+      }
+    } catch (error) {
+      const err = error as Error;
+      console.error('❌ Mission reward delivery failed:', err.message);
+
+      // Nada entregue ainda: desfaz o resgate para o jogador tentar de novo
+      if (delivered.length === 0) {
+        const reverted = await setClaimedAt(ctx.userId, mission, null).catch(() => false);
+        if (!reverted) {
+          logAudit(supabase, ctx.userId, 'MISSION_CLAIM_ROLLBACK_FAILED', { missionId, periodKey: mission.periodKey }, req as any).catch(() => {});
+        }
+        return res.status(500).json({ error: 'Failed to deliver reward. Please try again.' });
+      }
+
+      // Entrega parcial: mantém o resgate e registra o que faltou para o suporte
+      logAudit(supabase, ctx.userId, 'MISSION_REWARD_PARTIAL_DELIVERY', {
+        missionId,
+        periodKey: mission.periodKey,
+        reward,
+        error: err.message
+      }, req as any).catch(() => {});
+    }
+  }
+
+  logAudit(supabase, ctx.userId, 'MISSION_REWARD_CLAIMED', {
+    missionId,
+    periodKey: mission.periodKey,
+    rewards: delivered
+  }, req as any).catch(() => {});
+
+  return res.status(200).json({
+    success: true,
+    missionId,
+    delivered,
+    ...result
+  });
+}
+
+// ============================================================
+// MAIN HANDLER
+// ============================================================
+
+export default async function handler(req: ApiRequest, res: ApiResponse): Promise<void> {
+  applyCors(req as any, res as any);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { action, userId, authToken } = req.body || {};
+  cleanupRateLimits();
+
+  const identifier = getIdentifier(req as any, userId);
+  if (!checkRateLimit(rateLimits, identifier, { maxRequests: 40, windowMs: 60_000 })) {
+    logAudit(supabase, userId || 'unknown', 'MISSIONS_RATE_LIMIT', { action }, req as any).catch(() => {});
+    return res.status(429).json({ error: 'Too many requests. Please wait.' });
+  }
+
+  if (!action || typeof action !== 'string') {
+    return res.status(400).json({ error: 'Invalid action' });
+  }
+  if (!userId || typeof userId !== 'string') {
+    return res.status(400).json({ error: 'Invalid userId' });
+  }
+  if (!authToken || typeof authToken !== 'string') {
+    return res.status(400).json({ error: 'Invalid authToken' });
+  }
+
+  const { valid, error: sessionError } = await validateSessionAndFetchPlayerStats(supabase, authToken, userId, {
+    select: 'user_id'
+  });
+  if (!valid) {
+    logAudit(supabase, userId, 'MISSIONS_AUTH_FAILED', { action, error: sessionError }, req as any).catch(() => {});
+    return res.status(401).json({ error: sessionError });
+  }
+
+  // 🛡️ Validar CSRF token (apenas para ações que fazem mutações)
+  const mutationActions = ['claimMission'];
+  if (mutationActions.includes(action)) {
+    const csrfValidation = await validateCsrfMiddleware(supabase, req as any, userId);
+    if (!csrfValidation.valid) {
+      console.warn('⚠️ CSRF validation failed:', { userId, action, error: csrfValidation.error });
+      logAudit(supabase, userId, 'MISSIONS_CSRF_VALIDATION_FAILED', { action }, req as any).catch(() => {});
+      return res.status(403).json({ error: 'Security validation failed' });
+    }
+  }
+
+  const ctx: HandlerContext = { userId };
+
+  try {
+    switch (action) {
+      case 'getMissions':
+        return await handleGetMissions(req, res, ctx);
+      case 'claimMission':
+        return await handleClaimMission(req, res, ctx);
+      default:
+        return res.status(400).json({ error: 'Invalid action' });
+    }
+  } catch (error) {
+    const err = error as Error;
+    console.error('💥 Missions: unhandled error', err);
+    logAudit(supabase, userId, 'MISSIONS_ERROR', { action, error: err.message }, req as any).catch(() => {});
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,961 @@
+// ============================================================
+// API/_PAYMENTS.TS - Payment Gateways (Stripe, MercadoPago, NOWPayments, Sandbox)
+// ============================================================
+// Cada gateway implementa a mesma interface: criar checkout, verificar e
+// interpretar webhooks e pedir reembolso. O _shop só conhece PaymentEvent;
+// crédito, estorno e idempotência continuam lá.
+//
+// O gateway "sandbox" simula um checkout hospedado (/api/sandbox/shop) e
+// envia webhooks assinados para /api/webhooks/shop?gateway=sandbox, então o
+// fluxo handleCreateOrder → webhook → processSuccessfulPayment roda offline.
+// Só fica ativo com PAYMENT_SANDBOX_ENABLED=true fora de produção.
+
+import crypto from 'crypto';
+import Stripe from 'stripe';
+import fetch from 'node-fetch';
+import { verifyMercadoPagoSignature } from './_utils.js';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type PaymentGatewayId = 'stripe' | 'mercadopago' | 'nowpayments' | 'sandbox';
+
+export interface CheckoutOrder {
+  id: string;
+  order_type: string;
+  quantity: number;
+  amount: number;
+  currency?: string | null;
+  metadata?: Record<string, any> | null;
+  // O checkout do gateway não pode durar mais que a ordem
+  expires_at?: string | null;
+}
+
+// O valor cobrado é sempre `order.amount` (na moeda `order.currency`)
+export interface CheckoutProduct {
+  id: string;
+  name: string;
+  // Price ID da Stripe; sem ele (ou com desconto) o checkout usa o valor da ordem
+  priceId?: string | null;
+  duration?: number;
+}
+
+export interface CheckoutSession {
+  url: string | null;
+  // Id do gateway salvo em shop_orders.payment_id
+  paymentId: string | null;
+}
+
+export interface WebhookRequest {
+  headers: Record<string, string | string[] | undefined>;
+  query: Record<string, string | string[] | undefined>;
+  rawBody: Buffer | null;
+  body: any;
+}
+
+export interface WebhookVerification {
+  valid: boolean;
+  status?: number;
+  error?: string;
+  // Assinatura inválida (vai para o log de segurança)
+  securityEvent?: boolean;
+  // Id da entrega para a proteção contra replay
+  deliveryId?: string | null;
+}
+
+export type PaymentEventType = 'paid' | 'failed' | 'pending' | 'cancelled' | 'refunded' | 'disputed';
+
+export interface PaymentEvent {
+  type: PaymentEventType;
+  orderId: string | null;
+  // Valor pago normalizado (validado contra a ordem antes do crédito)
+  amount?: number;
+  currency?: string;
+  paymentId?: string | null;
+  paymentIntentId?: string | null;
+  reason?: string;
+  // Reembolso parcial: sem estorno automático
+  partial?: boolean;
+  // Sem referência da ordem: o shop procura uma ordem pendente pelo valor
+  match?: { amount: number; payerEmail?: string | null };
+  // Dados do gateway gravados junto com o estorno da ordem
+  details?: Record<string, any>;
+}
+
+export interface RefundResult {
+  refundId: string | null;
+}
+
+export interface PaymentGateway {
+  readonly id: PaymentGatewayId;
+  // Moedas que o gateway cobra (em ordem de preferência); null = qualquer uma
+  readonly currencies: readonly string[] | null;
+  // O checkout vence junto com a ordem (`expires_at`). Sem isso um pagamento
+  // pode chegar depois da janela da ordem, que então não pode ser cancelada
+  readonly expiresCheckout: boolean;
+  createCheckout(order: CheckoutOrder, product: CheckoutProduct, userId: string): Promise<CheckoutSession>;
+  verifyWebhook(request: WebhookRequest): Promise<WebhookVerification>;
+  parseWebhook(request: WebhookRequest): Promise<PaymentEvent[]>;
+  refund(order: CheckoutOrder & { payment_id?: string | null }): Promise<RefundResult>;
+}
+
+export class PaymentGatewayError extends Error {
+  constructor(message: string, public status: number = 500) {
+    super(message);
+  }
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+function getHeader(headers: WebhookRequest['headers'], name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function getQuery(query: WebhookRequest['query'], name: string): string | undefined {
+  const value = query[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function toNumber(value: any): number {
+  const num = Number(value);
+  return Number.isFinite(num) ? num : 0;
+}
+
+function getBaseUrl(): string {
+  return (process.env.WEBHOOK_BASE_URL || 'http://localhost:3000').replace(/\/$/, '');
+}
+
+function getReturnUrls(orderId: string): { success: string; cancel: string } {
+  return {
+    success: `${getBaseUrl()}/shop?payment=success&order_id=${orderId}`,
+    cancel: `${getBaseUrl()}/shop?payment=cancelled`
+  };
+}
+
+function getOrderCurrency(order: CheckoutOrder): string {
+  return String(order.currency || order.metadata?.payment_currency || 'USD').toUpperCase();
+}
+
+/**
+ * Momento em que o checkout do gateway deve expirar: o fim da ordem, mas
+ * nunca depois de `maxMs` a partir de agora.
+ */
+function getCheckoutExpiry(order: CheckoutOrder, maxMs: number): Date {
+  const limit = Date.now() + maxMs;
+  const orderExpiry = order.expires_at ? Date.parse(order.expires_at) : NaN;
+  return new Date(Number.isNaN(orderExpiry) ? limit : Math.min(orderExpiry, limit));
+}
+
+function describeProduct(order: CheckoutOrder, product: CheckoutProduct): string {
+  return order.order_type === 'package'
+    ? `${order.quantity} Diamonds`
+    : `${product.duration ?? 30} days`;
+}
+
+// ============================================================
+// STRIPE
+// ============================================================
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: '2023-10-16'
+});
+
+function constructStripeEvent(request: WebhookRequest): Stripe.Event {
+  return stripe.webhooks.constructEvent(
+    request.rawBody!,
+    getHeader(request.headers, 'stripe-signature')!,
+    process.env.STRIPE_WEBHOOK_SECRET!
+  );
+}
+
+/**
+ * Ordem de uma cobrança (refund/dispute) via sessão de checkout do payment intent.
+ */
+async function findStripeSessionOrderId(paymentIntentId: string | null): Promise<string | null> {
+  if (!paymentIntentId) return null;
+  try {
+    const sessions = await stripe.checkout.sessions.list({ payment_intent: paymentIntentId, limit: 1 });
+    const session = sessions.data[0];
+    return session?.metadata?.order_id || session?.client_reference_id || null;
+  } catch (error) {
+    console.error('❌ [Stripe] Failed to look up checkout session:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+function getPaymentIntentId(value: string | { id: string } | null | undefined): string | null {
+  if (!value) return null;
+  return typeof value === 'string' ? value : value.id;
+}
+
+const stripeGateway: PaymentGateway = {
+  id: 'stripe',
+  currencies: null,
+  expiresCheckout: true,
+
+  async createCheckout(order, product, userId) {
+    console.log('🔄 [Stripe] Iniciando checkout para pedido:', order.id);
+    const urls = getReturnUrls(order.id);
+    // A Stripe aceita expiração entre 30 min e 24h (a ordem dura 2h)
+    const expiresAt = Math.max(getCheckoutExpiry(order, 24 * 60 * 60 * 1000).getTime(), Date.now() + 31 * 60 * 1000);
+
+    try {
+      const session = await stripe.checkout.sessions.create({
+        payment_method_types: ['card'],
+        line_items: [
+          product.priceId
+            ? { price: product.priceId, quantity: 1 } // Usa o Price ID da Stripe
+            : {
+              price_data: {
+                currency: getOrderCurrency(order).toLowerCase(),
+                unit_amount: Math.round(toNumber(order.amount) * 100),
+                product_data: { name: product.name },
+                ...(order.order_type === 'subscription'
+                  ? { recurring: { interval: 'day' as const, interval_count: product.duration ?? 30 } }
+                  : {})
+              },
+              quantity: 1
+            }
+        ],
+        mode: order.order_type === 'subscription' ? 'subscription' : 'payment',
+        success_url: urls.success,
+        cancel_url: urls.cancel,
+        client_reference_id: order.id,
+        expires_at: Math.floor(expiresAt / 1000),
+        metadata: {
+          order_id: order.id,
+          user_id: userId,
+          product_type: order.order_type
+        }
+      });
+
+      console.log('✅ [Stripe] Sessão criada:', session.id);
+      return { url: session.url, paymentId: session.id };
+    } catch (error) {
+      const err = error as any;
+      console.error('❌ [Stripe] Erro:', err);
+      throw new Error(`Stripe error: ${err.message}`);
+    }
+  },
+
+  async verifyWebhook(request) {
+    if (!process.env.STRIPE_WEBHOOK_SECRET) {
+      console.error('❌ Stripe webhook secret not configured');
+      return { valid: false, status: 500, error: 'Webhook secret not configured' };
+    }
+    if (!getHeader(request.headers, 'stripe-signature')) {
+      return { valid: false, status: 400, error: 'Missing signature header' };
+    }
+    if (!request.rawBody?.length) {
+      return { valid: false, status: 400, error: 'Missing payload' };
+    }
+
+    try {
+      const event = constructStripeEvent(request);
+      return { valid: true, deliveryId: event.id };
+    } catch (err) {
+      console.error('❌ Webhook signature verification failed:', (err as Error).message);
+      return { valid: false, status: 400, error: 'Invalid signature', securityEvent: true };
+    }
+  },
+
+  async parseWebhook(request) {
+    const event = constructStripeEvent(request);
+    console.log('✅ Stripe webhook verified:', event.type);
+
+    if (event.type === 'checkout.session.completed') {
+      const session = event.data.object;
+      return [{
+        type: 'paid',
+        orderId: session.metadata?.order_id || session.client_reference_id,
+        amount: toNumber(session.amount_total) / 100,
+        currency: (session.currency || 'USD').toUpperCase(),
+        paymentId: session.id,
+        paymentIntentId: getPaymentIntentId(session.payment_intent)
+      }];
+    }
+
+    if (event.type === 'charge.refunded') {
+      const charge = event.data.object;
+      const paymentIntentId = getPaymentIntentId(charge.payment_intent);
+      return [{
+        type: 'refunded',
+        orderId: await findStripeSessionOrderId(paymentIntentId),
+        paymentId: charge.id,
+        paymentIntentId,
+        reason: 'charge.refunded',
+        partial: !charge.refunded,
+        details: { charge_id: charge.id, amount_refunded: charge.amount_refunded / 100 }
+      }];
+    }
+
+    if (event.type === 'charge.dispute.created') {
+      const dispute = event.data.object;
+      const paymentIntentId = getPaymentIntentId(dispute.payment_intent);
+      return [{
+        type: 'disputed',
+        orderId: await findStripeSessionOrderId(paymentIntentId),
+        paymentId: dispute.id,
+        paymentIntentId,
+        reason: `dispute: ${dispute.reason}`,
+        details: { dispute_id: dispute.id, dispute_amount: dispute.amount / 100 }
+      }];
+    }
+
+    console.log('ℹ️ Ignoring Stripe webhook event type:', event.type);
+    return [];
+  },
+
+  async refund(order) {
+    let paymentIntentId: string | null = order.metadata?.stripe_payment_intent || null;
+
+    if (!paymentIntentId && order.payment_id) {
+      const session = await stripe.checkout.sessions.retrieve(order.payment_id);
+      paymentIntentId = getPaymentIntentId(session.payment_intent);
+    }
+    if (!paymentIntentId) {
+      throw new PaymentGatewayError('Stripe payment intent not found for this order', 400);
+    }
+
+    const refund = await stripe.refunds.create({
+      payment_intent: paymentIntentId,
+      metadata: { order_id: order.id }
+    });
+    return { refundId: refund.id };
+  }
+};
+
+// ============================================================
+// MERCADOPAGO
+// ============================================================
+
+function getMercadoPagoToken(): string {
+  const accessToken = process.env.MERCADOPAGO_ACCESS_TOKEN;
+  if (!accessToken) {
+    console.error('❌ MercadoPago access token not configured');
+    throw new PaymentGatewayError('Access token not configured', 500);
+  }
+  return accessToken;
+}
+
+async function fetchMercadoPago(path: string): Promise<any | null> {
+  const response = await fetch(`https://api.mercadopago.com${path}`, {
+    headers: {
+      'Authorization': `Bearer ${getMercadoPagoToken()}`
+    }
+  });
+
+  if (!response.ok) {
+    console.error('❌ Erro ao buscar', path, response.status);
+    return null;
+  }
+  return response.json();
+}
+
+const MERCADOPAGO_EVENT_TYPES: Record<string, PaymentEventType> = {
+  approved: 'paid',
+  rejected: 'failed',
+  pending: 'pending',
+  in_process: 'pending',
+  cancelled: 'cancelled',
+  refunded: 'refunded',
+  charged_back: 'disputed',
+  in_mediation: 'disputed'
+};
+
+function toMercadoPagoEvent(payment: any, type: PaymentEventType): PaymentEvent {
+  return {
+    type,
+    orderId: payment.external_reference || null,
+    amount: toNumber(payment.transaction_amount),
+    currency: (payment.currency_id || '').toUpperCase(),
+    paymentId: payment.id ? String(payment.id) : null,
+    reason: payment.status_detail || `payment ${payment.status}`,
+    // Sem external_reference: o shop tenta achar uma ordem pendente pelo valor/e-mail
+    match: payment.external_reference ? undefined : {
+      amount: toNumber(payment.transaction_amount),
+      payerEmail: payment.payer?.email || payment.additional_info?.payer?.email || null
+    },
+    details: { status_detail: payment.status_detail }
+  };
+}
+
+const mercadoPagoGateway: PaymentGateway = {
+  id: 'mercadopago',
+  // Conta brasileira: o MercadoPago só cobra em reais
+  currencies: ['BRL'],
+  expiresCheckout: true,
+
+  async createCheckout(order, product, userId) {
+    console.log('🔄 [MercadoPago] Iniciando checkout para pedido:', order.id);
+    const urls = getReturnUrls(order.id);
+
+    const preference = {
+      items: [
+        {
+          id: product.id,
+          title: product.name,
+          description: order.order_type === 'package'
+            ? `${order.quantity} 💎 Diamonds`
+            : `${product.duration ?? 30} days subscription`,
+          quantity: 1,
+          currency_id: getOrderCurrency(order),
+          unit_price: toNumber(order.amount),
+        }
+      ],
+      back_urls: {
+        success: urls.success,
+        failure: `${getBaseUrl()}/shop?payment=failed`,
+        pending: `${getBaseUrl()}/shop?payment=pending`
+      },
+      auto_return: 'approved',
+      binary_mode: true, // Força retorno imediato (approved ou rejected, sem pending)
+      statement_descriptor: 'LOOTSKIRMISH', // Nome que aparece na fatura
+      external_reference: order.id,
+      notification_url: `${getBaseUrl()}/api/webhooks/shop?gateway=mercadopago`,
+      metadata: {
+        order_id: order.id,
+        user_id: userId
+      },
+      expires: true,
+      expiration_date_from: new Date().toISOString(),
+      expiration_date_to: getCheckoutExpiry(order, 30 * 60 * 1000).toISOString() // Expira em até 30 minutos
+    };
+
+    const response = await fetch('https://api.mercadopago.com/checkout/preferences', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${getMercadoPagoToken()}`
+      },
+      body: JSON.stringify(preference)
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      console.error('❌ [MercadoPago] Erro na API:', errorData);
+      throw new Error(`MercadoPago error: ${JSON.stringify(errorData)}`);
+    }
+
+    const data: any = await response.json();
+    console.log('✅ [MercadoPago] Preferência criada:', data.id);
+    return { url: data.init_point, paymentId: data.id };
+  },
+
+  async verifyWebhook(request) {
+    const notification = request.body || {};
+    const notificationId = getQuery(request.query, 'id') || notification.id;
+    const xSignature = getHeader(request.headers, 'x-signature');
+    const webhookSecret = process.env.MERCADOPAGO_WEBHOOK_SECRET;
+
+    // Assinatura opcional (só quando configurada e enviada)
+    if (webhookSecret && xSignature && notification.id && notification.topic) {
+      if (!verifyMercadoPagoSignature(notification, xSignature, webhookSecret)) {
+        console.error('❌ MercadoPago signature verification failed');
+        return { valid: false, status: 400, error: 'Invalid signature', securityEvent: true };
+      }
+    }
+
+    return { valid: true, deliveryId: `mp_${notification.id}_${notificationId}` };
+  },
+
+  async parseWebhook(request) {
+    const notification = request.body || {};
+    const topic = (getQuery(request.query, 'topic') || getQuery(request.query, 'type') || notification.type || '').toLowerCase();
+    const notificationId = getQuery(request.query, 'id') || notification.id;
+
+    if (topic === 'payment' || notification.type === 'payment') {
+      const paymentId = notification.data?.id || notificationId;
+      if (!paymentId) {
+        console.warn('⚠️ Payment ID não encontrado na notificação');
+        return [];
+      }
+
+      console.log('🔍 Buscando detalhes do pagamento:', paymentId);
+      const payment = await fetchMercadoPago(`/v1/payments/${paymentId}`);
+      if (!payment) throw new PaymentGatewayError('Failed to fetch payment', 500);
+
+      const type = MERCADOPAGO_EVENT_TYPES[payment.status];
+      if (!type) {
+        console.log('ℹ️ Status de pagamento ignorado:', payment.status);
+        return [];
+      }
+      return [toMercadoPagoEvent(payment, type)];
+    }
+
+    // Chargebacks chegam com o id do chargeback; os pagamentos afetados vêm na consulta
+    if (topic === 'chargebacks' || topic === 'chargeback') {
+      const chargebackId = notification.data?.id || notificationId;
+      if (!chargebackId) return [];
+
+      const chargeback = await fetchMercadoPago(`/v1/chargebacks/${chargebackId}`);
+      if (!chargeback) throw new PaymentGatewayError('Failed to fetch chargeback', 500);
+
+      const paymentIds: string[] = (Array.isArray(chargeback.payments) ? chargeback.payments : [])
+        .map((p: any) => String(typeof p === 'object' ? p?.id : p))
+        .filter(Boolean);
+
+      const events: PaymentEvent[] = [];
+      for (const paymentId of paymentIds) {
+        const payment = await fetchMercadoPago(`/v1/payments/${paymentId}`);
+        if (!payment) continue;
+        events.push({
+          ...toMercadoPagoEvent(payment, 'disputed'),
+          reason: 'chargeback',
+          details: { chargeback_id: String(chargebackId), payment_id: payment.id }
+        });
+      }
+      return events;
+    }
+
+    // Algumas integrações do MercadoPago enviam merchant_order em vez de payment
+    if (topic === 'merchant_order') {
+      if (!notificationId) {
+        console.warn('⚠️ Merchant order id não informado');
+        return [];
+      }
+
+      const merchantOrder = await fetchMercadoPago(`/merchant_orders/${notificationId}`);
+      const approvedPayment = merchantOrder?.payments?.find((p: any) => p.status === 'approved');
+
+      if (!merchantOrder?.external_reference || !approvedPayment?.id) {
+        console.log('ℹ️ Merchant order sem pagamento aprovado ainda:', { orderId: merchantOrder?.external_reference, payments: merchantOrder?.payments?.length });
+        return [];
+      }
+
+      return [{
+        type: 'paid',
+        orderId: merchantOrder.external_reference,
+        amount: toNumber(approvedPayment.transaction_amount),
+        currency: (approvedPayment.currency_id || '').toUpperCase(),
+        paymentId: String(approvedPayment.id)
+      }];
+    }
+
+    return [];
+  },
+
+  async refund(order) {
+    const paymentId = order.metadata?.processed_payment_id;
+    if (!paymentId) {
+      throw new PaymentGatewayError('MercadoPago payment id not found for this order', 400);
+    }
+
+    const response = await fetch(`https://api.mercadopago.com/v1/payments/${paymentId}/refunds`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${getMercadoPagoToken()}`,
+        'X-Idempotency-Key': `refund-${order.id}`
+      },
+      body: JSON.stringify({})
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new PaymentGatewayError(`MercadoPago refund failed: ${JSON.stringify(errorData)}`, 502);
+    }
+
+    const data: any = await response.json();
+    return { refundId: data.id ? String(data.id) : null };
+  }
+};
+
+// ============================================================
+// NOWPAYMENTS
+// ============================================================
+
+// Assinatura do IPN: HMAC-SHA512 do JSON com as chaves ordenadas
+function sortKeysDeep(value: any): any {
+  if (Array.isArray(value)) return value.map(sortKeysDeep);
+  if (value && typeof value === 'object') {
+    return Object.keys(value).sort().reduce((acc: Record<string, any>, key) => {
+      acc[key] = sortKeysDeep(value[key]);
+      return acc;
+    }, {});
+  }
+  return value;
+}
+
+const nowPaymentsGateway: PaymentGateway = {
+  id: 'nowpayments',
+  currencies: null,
+  expiresCheckout: false,
+
+  async createCheckout(order, product) {
+    console.log('🔄 [NOWPayments] Iniciando checkout para pedido:', order.id);
+
+    const apiKey = process.env.NOWPAYMENTS_API_KEY;
+    if (!apiKey) {
+      console.error('❌ [NOWPayments] API key não configurada');
+      throw new Error('NOWPayments API key not configured');
+    }
+
+    const urls = getReturnUrls(order.id);
+    const payment = {
+      price_amount: toNumber(order.amount),
+      price_currency: getOrderCurrency(order).toLowerCase(),
+      // Cripto recebida (Litecoin por padrão); o preço segue na moeda da ordem
+      pay_currency: (process.env.NOWPAYMENTS_PAY_CURRENCY || 'ltc').toLowerCase(),
+      ipn_callback_url: `${getBaseUrl()}/api/webhooks/shop?gateway=nowpayments`,
+      order_id: order.id,
+      order_description: `${product.name} - ${describeProduct(order, product)}`,
+      success_url: urls.success,
+      cancel_url: urls.cancel
+    };
+
+    const response = await fetch('https://api.nowpayments.io/v1/payment', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey
+      },
+      body: JSON.stringify(payment)
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      console.error('❌ [NOWPayments] Erro na API:', errorData);
+      throw new Error(`NOWPayments error: ${JSON.stringify(errorData)}`);
+    }
+
+    const data: any = await response.json();
+    console.log('✅ [NOWPayments] Pagamento criado:', data.payment_id);
+    return { url: data.payment_url, paymentId: data.payment_id ? String(data.payment_id) : null };
+  },
+
+  async verifyWebhook(request) {
+    const data = request.body || {};
+    const ipnSecret = process.env.NOWPAYMENTS_IPN_SECRET;
+
+    if (ipnSecret) {
+      const signature = getHeader(request.headers, 'x-nowpayments-sig') || '';
+      const expected = crypto
+        .createHmac('sha512', ipnSecret)
+        .update(JSON.stringify(sortKeysDeep(data)))
+        .digest('hex');
+
+      if (signature.length !== expected.length || !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+        console.error('❌ NOWPayments IPN signature verification failed');
+        return { valid: false, status: 400, error: 'Invalid signature', securityEvent: true };
+      }
+    } else {
+      console.warn('⚠️ NOWPAYMENTS_IPN_SECRET not configured, IPN accepted without signature');
+    }
+
+    return { valid: true, deliveryId: data.payment_id ? `np_${data.payment_id}_${data.payment_status}` : null };
+  },
+
+  async parseWebhook(request) {
+    const data = request.body || {};
+    console.log('🪙 NOWPayments webhook data:', data);
+
+    if (!data.order_id) return [];
+
+    // Sem validade configurável no checkout: a ordem só é encerrada quando o
+    // próprio NOWPayments expira ou recusa o pagamento
+    if (data.payment_status === 'expired' || data.payment_status === 'failed') {
+      return [{
+        type: 'failed',
+        orderId: String(data.order_id),
+        paymentId: data.payment_id ? String(data.payment_id) : null,
+        reason: `nowpayments_${data.payment_status}`
+      }];
+    }
+    if (data.payment_status !== 'finished') return [];
+
+    // price_amount/price_currency são o valor cobrado (moeda da ordem); pay_* é a cripto recebida
+    return [{
+      type: 'paid',
+      orderId: String(data.order_id),
+      amount: toNumber(data.price_amount),
+      currency: (data.price_currency || '').toUpperCase(),
+      paymentId: data.payment_id ? String(data.payment_id) : null
+    }];
+  },
+
+  async refund() {
+    throw new PaymentGatewayError('NOWPayments does not support automatic refunds', 501);
+  }
+};
+
+// ============================================================
+// SANDBOX (CHECKOUT LOCAL + WEBHOOKS ASSINADOS)
+// ============================================================
+
+const SANDBOX_SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+// Sem PAYMENT_SANDBOX_SECRET, um segredo por processo (checkout e webhook no mesmo servidor)
+const SANDBOX_SECRET = process.env.PAYMENT_SANDBOX_SECRET || crypto.randomBytes(32).toString('hex');
+
+type SandboxEventType = 'payment.succeeded' | 'payment.failed' | 'payment.refunded' | 'payment.disputed';
+
+const SANDBOX_EVENT_TYPES: Record<SandboxEventType, PaymentEventType> = {
+  'payment.succeeded': 'paid',
+  'payment.failed': 'failed',
+  'payment.refunded': 'refunded',
+  'payment.disputed': 'disputed'
+};
+
+interface SandboxPayment {
+  order_id: string;
+  payment_id: string;
+  amount: number;
+  currency: string;
+}
+
+export function isSandboxEnabled(): boolean {
+  const isProduction = process.env.VERCEL_ENV === 'production' || process.env.NODE_ENV === 'production';
+  return process.env.PAYMENT_SANDBOX_ENABLED === 'true' && !isProduction;
+}
+
+function signSandbox(payload: string): string {
+  return crypto.createHmac('sha256', SANDBOX_SECRET).update(payload).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  return a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
+
+function getCheckoutToken(payment: SandboxPayment): string {
+  return signSandbox(`${payment.order_id}.${payment.payment_id}.${payment.amount.toFixed(2)}.${payment.currency}`);
+}
+
+/**
+ * Envia um webhook assinado (formato `t=<timestamp>,v1=<hmac>` como o da
+ * Stripe) para o endpoint de webhooks do próprio servidor.
+ */
+async function sendSandboxWebhook(type: SandboxEventType, payment: SandboxPayment): Promise<void> {
+  const body = JSON.stringify({
+    id: `evt_sbx_${crypto.randomUUID()}`,
+    type,
+    created: new Date().toISOString(),
+    data: payment
+  });
+  const timestamp = Date.now();
+
+  const response = await fetch(`${getBaseUrl()}/api/webhooks/shop?gateway=sandbox`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-sandbox-signature': `t=${timestamp},v1=${signSandbox(`${timestamp}.${body}`)}`
+    },
+    body
+  });
+
+  if (!response.ok) {
+    throw new PaymentGatewayError(`Sandbox webhook failed (${response.status})`, 502);
+  }
+}
+
+const sandboxGateway: PaymentGateway = {
+  id: 'sandbox',
+  currencies: null,
+  expiresCheckout: false,
+
+  async createCheckout(order, product) {
+    if (!isSandboxEnabled()) throw new Error('Sandbox gateway is disabled');
+
+    const payment: SandboxPayment = {
+      order_id: order.id,
+      payment_id: `sbx_${crypto.randomUUID()}`,
+      amount: toNumber(order.amount),
+      currency: getOrderCurrency(order)
+    };
+
+    const params = new URLSearchParams({
+      order_id: payment.order_id,
+      payment_id: payment.payment_id,
+      amount: payment.amount.toFixed(2),
+      currency: payment.currency,
+      product: `${product.name} - ${describeProduct(order, product)}`,
+      token: getCheckoutToken(payment)
+    });
+
+    console.log('🧪 [Sandbox] Checkout criado para pedido:', order.id);
+    return { url: `${getBaseUrl()}/api/sandbox/shop?${params.toString()}`, paymentId: payment.payment_id };
+  },
+
+  async verifyWebhook(request) {
+    if (!isSandboxEnabled()) {
+      return { valid: false, status: 404, error: 'Sandbox gateway is disabled' };
+    }
+
+    const header = getHeader(request.headers, 'x-sandbox-signature') || '';
+    const parts = Object.fromEntries(header.split(',').map(part => part.split('=') as [string, string]));
+    const timestamp = Number(parts.t);
+    const raw = request.rawBody?.toString('utf8') || '';
+
+    if (!parts.v1 || !Number.isFinite(timestamp) || !raw) {
+      return { valid: false, status: 400, error: 'Missing signature header' };
+    }
+    if (Math.abs(Date.now() - timestamp) > SANDBOX_SIGNATURE_TOLERANCE_MS) {
+      return { valid: false, status: 400, error: 'Signature expired', securityEvent: true };
+    }
+    if (!safeEqual(parts.v1, signSandbox(`${timestamp}.${raw}`))) {
+      return { valid: false, status: 400, error: 'Invalid signature', securityEvent: true };
+    }
+
+    return { valid: true, deliveryId: request.body?.id || null };
+  },
+
+  async parseWebhook(request) {
+    const event = request.body || {};
+    const type = SANDBOX_EVENT_TYPES[event.type as SandboxEventType];
+    const payment = event.data || {};
+    if (!type || !payment.order_id) return [];
+
+    return [{
+      type,
+      orderId: String(payment.order_id),
+      amount: toNumber(payment.amount),
+      currency: String(payment.currency || '').toUpperCase(),
+      paymentId: payment.payment_id || null,
+      reason: event.type,
+      details: { sandbox_event: event.id }
+    }];
+  },
+
+  async refund(order) {
+    if (!isSandboxEnabled()) throw new PaymentGatewayError('Sandbox gateway is disabled', 400);
+
+    await sendSandboxWebhook('payment.refunded', {
+      order_id: order.id,
+      payment_id: order.payment_id || 'sbx_unknown',
+      amount: toNumber(order.amount),
+      currency: getOrderCurrency(order)
+    });
+    return { refundId: `re_sbx_${crypto.randomUUID()}` };
+  }
+};
+
+// ============================================================
+// SANDBOX HOSTED CHECKOUT PAGE
+// ============================================================
+
+interface SandboxResponse {
+  status: (code: number) => SandboxResponse;
+  json: (data: any) => void;
+  end: (data?: any) => void;
+  setHeader: (key: string, value: string) => void;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+}
+
+function renderSandboxPage(fields: Record<string, string>): string {
+  const hidden = ['order_id', 'payment_id', 'amount', 'currency', 'token']
+    .map(name => `<input type="hidden" name="${name}" value="${escapeHtml(fields[name] || '')}">`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>LootSkirmish Sandbox Checkout</title>
+  <style>
+    body { font-family: system-ui, sans-serif; background: #0f172a; color: #e2e8f0; display: flex; justify-content: center; padding: 48px 16px; }
+    .box { background: #1e293b; border: 1px dashed #f59e0b; border-radius: 12px; padding: 24px; max-width: 420px; width: 100%; }
+    .tag { color: #f59e0b; font-weight: 700; font-size: 0.8rem; letter-spacing: 0.08em; }
+    .amount { font-size: 2rem; font-weight: 800; margin: 12px 0; }
+    code { font-size: 0.75rem; color: #94a3b8; word-break: break-all; }
+    .actions { display: flex; gap: 12px; margin-top: 20px; }
+    button { flex: 1; padding: 12px; border: 0; border-radius: 8px; font-weight: 700; cursor: pointer; }
+    .pay { background: #22c55e; color: #052e16; }
+    .decline { background: #334155; color: #e2e8f0; }
+  </style>
+</head>
+<body>
+  <form class="box" method="POST" action="/api/sandbox/shop">
+    <div class="tag">🧪 SANDBOX — NO REAL MONEY</div>
+    <h2>${escapeHtml(fields.product || 'LootSkirmish order')}</h2>
+    <div class="amount">${escapeHtml(fields.amount)} ${escapeHtml(fields.currency)}</div>
+    <code>Order ${escapeHtml(fields.order_id)}<br>Payment ${escapeHtml(fields.payment_id)}</code>
+    ${hidden}
+    <div class="actions">
+      <button class="pay" name="outcome" value="pay">Pay</button>
+      <button class="decline" name="outcome" value="decline">Decline</button>
+    </div>
+  </form>
+</body>
+</html>`;
+}
+
+/**
+ * Página de checkout fake do sandbox. GET mostra o pedido; POST "paga" ou
+ * recusa, envia o webhook assinado e redireciona de volta para a loja.
+ */
+export async function handleSandboxCheckout(
+  req: { method?: string; query?: WebhookRequest['query'] },
+  res: SandboxResponse,
+  { rawBody, parsedBody }: { rawBody?: Buffer | null; parsedBody?: any } = {}
+): Promise<void> {
+  if (!isSandboxEnabled()) {
+    return res.status(404).json({ error: 'Sandbox gateway is disabled' });
+  }
+
+  const isPost = req.method === 'POST';
+  // Em produção (bodyParser desligado) o form chega como urlencoded cru
+  const source: Record<string, any> = isPost
+    ? (parsedBody && Object.keys(parsedBody).length ? parsedBody : Object.fromEntries(new URLSearchParams(rawBody?.toString('utf8') || '')))
+    : Object.fromEntries(Object.entries(req.query || {}).map(([key, value]) => [key, Array.isArray(value) ? value[0] : value]));
+
+  const fields: Record<string, string> = Object.fromEntries(
+    ['order_id', 'payment_id', 'amount', 'currency', 'product', 'token', 'outcome'].map(name => [name, String(source[name] ?? '')])
+  );
+  const payment: SandboxPayment = {
+    order_id: fields.order_id,
+    payment_id: fields.payment_id,
+    amount: toNumber(fields.amount),
+    currency: fields.currency.toUpperCase()
+  };
+
+  if (!payment.order_id || !payment.payment_id || !safeEqual(fields.token, getCheckoutToken(payment))) {
+    return res.status(400).json({ error: 'Invalid sandbox checkout link' });
+  }
+
+  if (!isPost) {
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    return res.status(200).end(renderSandboxPage(fields));
+  }
+
+  const urls = getReturnUrls(payment.order_id);
+  const paid = fields.outcome === 'pay';
+
+  try {
+    await sendSandboxWebhook(paid ? 'payment.succeeded' : 'payment.failed', payment);
+  } catch (error) {
+    console.error('❌ [Sandbox] Webhook delivery failed:', error instanceof Error ? error.message : error);
+    return res.status(502).json({ error: 'Sandbox webhook delivery failed' });
+  }
+
+  res.setHeader('Location', paid ? urls.success : `${getBaseUrl()}/shop?payment=failed`);
+  return res.status(303).end();
+}
+
+// ============================================================
+// REGISTRY
+// ============================================================
+
+const PAYMENT_GATEWAYS: Record<PaymentGatewayId, PaymentGateway> = {
+  stripe: stripeGateway,
+  mercadopago: mercadoPagoGateway,
+  nowpayments: nowPaymentsGateway,
+  sandbox: sandboxGateway
+};
+
+/**
+ * Gateway pelo id (`paymentMethod` da ordem ou `?gateway=` do webhook).
+ * O sandbox só existe quando habilitado.
+ */
+export function getPaymentGateway(id: unknown): PaymentGateway | null {
+  if (typeof id !== 'string' || !Object.prototype.hasOwnProperty.call(PAYMENT_GATEWAYS, id)) return null;
+  if (id === 'sandbox' && !isSandboxEnabled()) return null;
+  return PAYMENT_GATEWAYS[id as PaymentGatewayId];
+}
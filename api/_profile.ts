@@ -163,6 +163,14 @@ export default async function handler(req: ApiRequest, res: ApiResponse) {
     if (action === 'checkPublicProfile') {
       return await handleCheckPublicProfile(req, res);
     }
+
+    // Theme actions
+    if (action === 'purchaseTheme') {
+      return await handlePurchaseTheme(req, res);
+    }
+    if (action === 'activateTheme') {
+      return await handleActivateTheme(req, res);
+    }
     
     // Friends actions
     if (action === 'fetchState') return await handleFetchState(req, res, body);
@@ -237,6 +245,9 @@ async function handleChangeUsername(req: ApiRequest, res: ApiResponse): Promise<
         if (err instanceof Error && err.message === 'Insufficient diamonds') {
           return res.status(400).json({ error: 'INSUFFICIENT_DIAMONDS', needed: cost });
         }
+        if (err instanceof Error && err.message === 'Diamond debt outstanding') {
+          return res.status(403).json({ error: 'DIAMOND_DEBT' });
+        }
         return res.status(500).json({ error: 'Failed to charge diamonds' });
       }
     }
@@ -462,6 +473,255 @@ async function handleCheckPublicProfile(req: ApiRequest, res: ApiResponse): Prom
   }
 }
 
+// ============================================================
+// THEMES SECTION - Purchase & Activation (DUPLICADO DO FRONTEND)
+// ============================================================
+// Cópia server-side de AVAILABLE_THEMES (app/shared/themes.ts) com apenas
+// o que importa para cobrança. Preços devem ficar em sincronia com o frontend.
+
+interface ThemeConfig {
+  id: string;
+  name: string;
+  price: number;
+  defaultUnlocked: boolean;
+}
+
+const DEFAULT_THEME_ID = 'default';
+
+const AVAILABLE_THEMES: ThemeConfig[] = [
+  { id: 'default', name: 'Default', price: 0, defaultUnlocked: true },
+  { id: 'gold', name: 'Golden Luxury', price: 100, defaultUnlocked: false },
+  { id: 'cyberpunk', name: 'Cyberpunk', price: 100, defaultUnlocked: false },
+  { id: 'sunset', name: 'Sunset', price: 100, defaultUnlocked: false },
+  { id: 'ocean', name: 'Deep Ocean', price: 100, defaultUnlocked: false },
+  { id: 'forest', name: 'Dark Forest', price: 100, defaultUnlocked: false },
+  { id: 'royal', name: 'Royal Purple', price: 100, defaultUnlocked: false },
+  { id: 'blood-moon', name: 'Blood Moon', price: 100, defaultUnlocked: false },
+  { id: 'aurora', name: 'Aurora Borealis', price: 150, defaultUnlocked: false },
+  { id: 'galaxy', name: 'Deep Galaxy', price: 150, defaultUnlocked: false },
+  { id: 'sakura', name: 'Cherry Blossom', price: 150, defaultUnlocked: false },
+  { id: 'miku', name: 'Hatsune Miku', price: 500, defaultUnlocked: false }
+];
+
+export function getThemeConfig(themeId: unknown): ThemeConfig | undefined {
+  if (typeof themeId !== 'string' || themeId.length > 50) return undefined;
+  return AVAILABLE_THEMES.find(t => t.id === themeId);
+}
+
+function getUnlockedThemes(stats: any): string[] {
+  const unlocked = Array.isArray(stats?.unlocked_themes) ? stats.unlocked_themes.filter((t: unknown) => typeof t === 'string') : [];
+  return unlocked.includes(DEFAULT_THEME_ID) ? unlocked : [DEFAULT_THEME_ID, ...unlocked];
+}
+
+function ownsTheme(stats: any, theme: ThemeConfig): boolean {
+  return theme.defaultUnlocked || getUnlockedThemes(stats).includes(theme.id);
+}
+
+/**
+ * Adiciona o tema em unlocked_themes com lock otimista em updated_at
+ * (duas compras simultâneas não podem sobrescrever a lista uma da outra).
+ * Retorna null se não conseguiu gravar e `added: false` se já era dono.
+ * `activate: false` só desbloqueia (recompensas do Battle Pass).
+ */
+export async function unlockThemeForPlayer(
+  userId: string,
+  themeId: string,
+  { activate = true }: { activate?: boolean } = {}
+): Promise<{ unlockedThemes: string[]; added: boolean } | null> {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { data: current, error: fetchError } = await supabase
+      .from('player_stats')
+      .select('unlocked_themes, updated_at')
+      .eq('user_id', userId)
+      .single();
+
+    if (fetchError || !current) return null;
+
+    const unlockedThemes = getUnlockedThemes(current);
+    if (unlockedThemes.includes(themeId)) {
+      return { unlockedThemes, added: false };
+    }
+
+    const nextThemes = [...unlockedThemes, themeId];
+    let query = supabase
+      .from('player_stats')
+      .update({
+        unlocked_themes: nextThemes,
+        ...(activate ? { active_theme: themeId } : {}),
+        updated_at: new Date().toISOString()
+      })
+      .eq('user_id', userId);
+
+    query = current.updated_at ? query.eq('updated_at', current.updated_at) : query.is('updated_at', null);
+
+    const { data: updated, error: updateError } = await query.select('unlocked_themes');
+    if (updateError) return null;
+    if (updated && updated.length > 0) {
+      return { unlockedThemes: nextThemes, added: true };
+    }
+  }
+
+  return null;
+}
+
+async function refundThemePurchase(userId: string, theme: ThemeConfig, req: ApiRequest): Promise<number | null> {
+  try {
+    return await updatePlayerDiamonds(supabase, userId, theme.price, `Refund: theme purchase failed (${theme.id})`, false, req);
+  } catch (err) {
+    console.error('Refund after theme purchase failure failed:', err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+async function handlePurchaseTheme(req: ApiRequest, res: ApiResponse): Promise<void> {
+  try {
+    const { userId, authToken, themeId, price } = req.body || {};
+
+    if (!userId || !authToken || !themeId) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    if (typeof userId !== 'string' || userId.length > 128) {
+      return res.status(400).json({ error: 'Invalid userId' });
+    }
+
+    if (typeof authToken !== 'string' || authToken.length > 8192) {
+      return res.status(400).json({ error: 'Invalid authToken' });
+    }
+
+    const session = await validateSessionAndFetchPlayerStats(supabase, authToken, userId, {
+      select: 'diamonds, unlocked_themes'
+    });
+    if (!session.valid) {
+      return res.status(401).json({ error: session.error || 'Invalid session' });
+    }
+
+    // 🛡️ Validar CSRF token
+    const csrfValidation = await validateCsrfMiddleware(supabase, req, userId);
+    if (!csrfValidation.valid) {
+      console.warn('⚠️ CSRF validation failed:', { userId, error: csrfValidation.error });
+      return res.status(403).json({ error: 'Security validation failed' });
+    }
+
+    const theme = getThemeConfig(themeId);
+    if (!theme) {
+      return res.status(404).json({ error: 'Theme not found' });
+    }
+
+    // Validar preço (anti-cheat)
+    if (price !== theme.price) {
+      console.warn('Theme price mismatch:', { themeId, expected: theme.price, received: price });
+      return res.status(400).json({ error: 'Invalid theme price' });
+    }
+
+    const stats = session.stats || {};
+    if (ownsTheme(stats, theme)) {
+      return res.status(400).json({ error: 'THEME_ALREADY_OWNED' });
+    }
+
+    if ((stats.diamonds || 0) < theme.price) {
+      return res.status(400).json({ error: 'INSUFFICIENT_DIAMONDS', needed: theme.price - (stats.diamonds || 0) });
+    }
+
+    let newDiamonds: number;
+    try {
+      newDiamonds = await updatePlayerDiamonds(supabase, userId, -theme.price, `Theme purchase: ${theme.name}`, false, req);
+    } catch (err) {
+      if (err instanceof Error && err.message === 'Insufficient diamonds') {
+        return res.status(400).json({ error: 'INSUFFICIENT_DIAMONDS', needed: theme.price });
+      }
+      if (err instanceof Error && err.message === 'Diamond debt outstanding') {
+        return res.status(403).json({ error: 'DIAMOND_DEBT' });
+      }
+      if (err instanceof Error && err.message === 'Concurrent modification detected') {
+        return res.status(409).json({ error: 'Balance changed. Please try again.' });
+      }
+      return res.status(500).json({ error: 'Failed to charge diamonds' });
+    }
+
+    const unlock = await unlockThemeForPlayer(userId, theme.id);
+    if (!unlock || !unlock.added) {
+      const refundedDiamonds = await refundThemePurchase(userId, theme, req);
+      return res.status(unlock ? 400 : 500).json({
+        error: unlock ? 'THEME_ALREADY_OWNED' : 'Failed to unlock theme',
+        refunded: refundedDiamonds !== null,
+        diamonds: refundedDiamonds ?? undefined
+      });
+    }
+
+    logAudit(supabase, userId, 'THEME_PURCHASED', { themeId: theme.id, price: theme.price, newDiamonds }, req).catch(() => {});
+
+    return res.status(200).json({
+      success: true,
+      themeId: theme.id,
+      diamonds: newDiamonds,
+      unlockedThemes: unlock.unlockedThemes,
+      activeTheme: theme.id
+    });
+  } catch (error) {
+    console.error('💥 Purchase theme error:', error instanceof Error ? error.message : error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+async function handleActivateTheme(req: ApiRequest, res: ApiResponse): Promise<void> {
+  try {
+    const { userId, authToken, themeId } = req.body || {};
+
+    if (!userId || !authToken || !themeId) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    if (typeof userId !== 'string' || userId.length > 128) {
+      return res.status(400).json({ error: 'Invalid userId' });
+    }
+
+    if (typeof authToken !== 'string' || authToken.length > 8192) {
+      return res.status(400).json({ error: 'Invalid authToken' });
+    }
+
+    const session = await validateSessionAndFetchPlayerStats(supabase, authToken, userId, {
+      select: 'unlocked_themes, active_theme'
+    });
+    if (!session.valid) {
+      return res.status(401).json({ error: session.error || 'Invalid session' });
+    }
+
+    // 🛡️ Validar CSRF token
+    const csrfValidation = await validateCsrfMiddleware(supabase, req, userId);
+    if (!csrfValidation.valid) {
+      console.warn('⚠️ CSRF validation failed:', { userId, error: csrfValidation.error });
+      return res.status(403).json({ error: 'Security validation failed' });
+    }
+
+    const theme = getThemeConfig(themeId);
+    if (!theme) {
+      return res.status(404).json({ error: 'Theme not found' });
+    }
+
+    const stats = session.stats || {};
+    if (!ownsTheme(stats, theme)) {
+      return res.status(403).json({ error: 'THEME_NOT_OWNED' });
+    }
+
+    if (stats.active_theme !== theme.id) {
+      const { error: updateError } = await supabase
+        .from('player_stats')
+        .update({ active_theme: theme.id })
+        .eq('user_id', userId);
+
+      if (updateError) {
+        return res.status(500).json({ error: 'Failed to activate theme' });
+      }
+    }
+
+    return res.status(200).json({ success: true, activeTheme: theme.id });
+  } catch (error) {
+    console.error('💥 Activate theme error:', error instanceof Error ? error.message : error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
 // ============================================================
 // FRIENDS SECTION - Friend Requests & Graph
 // ============================================================
@@ -571,6 +831,14 @@ function relationship(state: any, targetId: string): string {
   return 'none';
 }
 
+/**
+ * Usado por _trades: trocas só são permitidas entre amigos.
+ */
+export async function areFriends(userId: string, otherUserId: string): Promise<boolean> {
+  const state = await loadState(userId);
+  return relationship(state, otherUserId) === 'friend';
+}
+
 async function fetchUserSummary(userId: string): Promise<any> {
   const { data, error } = await supabase
     .from('player_stats')
@@ -0,0 +1,515 @@
+// ============================================================
+// API/_PROMOCODES.TS - Resgate de códigos promocionais e de presente
+// ============================================================
+// Regras, recompensas e mensagens ficam em app/shared/promo-codes.ts; os
+// códigos são criados pelo painel admin (api/_admin.ts).
+//
+// Resgate atômico: o uso global é reservado com lock otimista em
+// `promo_codes.uses` e cada resgate é uma linha única
+// (code, user_id, use_number) em `promo_code_redemptions`, o que segura o
+// limite por jogador mesmo com requisições simultâneas. Se a entrega
+// falhar, a linha é apagada e o uso devolvido. O cliente manda uma chave de
+// idempotência: repetir o pedido devolve o resultado já gravado.
+//
+// Descontos na loja não são entregues aqui: a linha fica como cupom
+// pendente e a próxima ordem de api/_shop.ts a reserva (`order_id`). Se essa
+// ordem for cancelada, falhar ou expirar, o cupom volta a valer; a ordem
+// pendente vencida é cancelada antes de o cupom ir para a ordem nova, então
+// ela não pode mais ser paga com o desconto.
+
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import {
+  applyCors,
+  checkIdempotencyKey,
+  checkRateLimit,
+  getIdentifier,
+  logAudit,
+  maybeCleanupRateLimits,
+  saveIdempotencyKey,
+  updateIdempotencyKey,
+  updatePlayerBalance,
+  updatePlayerDiamonds,
+  validateCsrfMiddleware,
+  validateSessionAndFetchPlayerStats,
+  type RateLimitEntry,
+} from './_utils.js';
+import { unlockPassForPlayer } from './_battlepass.js';
+import { getThemeConfig, unlockThemeForPlayer } from './_profile.js';
+import { getPaymentGateway } from './_payments.js';
+import {
+  DEFAULT_PROMO_ELIGIBILITY,
+  PROMO_DUPLICATE_DIAMONDS,
+  checkPromoCodeAvailability,
+  isValidPromoCode,
+  normalizePromoCode,
+  type PromoCode,
+  type PromoPlayerContext,
+  type PromoRedeemError,
+  type PromoReward
+} from '../app/shared/promo-codes.js';
+import { getLevelInfo } from '../app/shared/levels.js';
+
+dotenv.config();
+
+// ============================================================
+// TYPES
+// ============================================================
+
+interface ApiRequest {
+  method?: string;
+  body?: Record<string, any>;
+  headers?: Record<string, string | string[] | undefined>;
+  connection?: { remoteAddress?: string };
+}
+
+interface ApiResponse {
+  status: (code: number) => ApiResponse;
+  json: (data: any) => void;
+  end: (data?: any) => void;
+  setHeader: (key: string, value: string) => void;
+}
+
+export interface PromoCodeRow {
+  code: string;
+  reward: PromoReward;
+  max_uses: number | null;
+  per_user_limit: number;
+  uses: number;
+  starts_at: string | null;
+  expires_at: string | null;
+  eligibility: Partial<PromoCode['eligibility']> | null;
+  active: boolean;
+  note: string | null;
+  created_at?: string;
+  created_by?: string | null;
+}
+
+export interface PendingPromoDiscount {
+  redemptionId: string;
+  code: string;
+  percentage: number;
+  orderId: string | null;
+  // Status da ordem que reservou o cupom ('pending' = vencida, ainda não fechada)
+  orderStatus: string | null;
+}
+
+interface HandlerContext {
+  userId: string;
+  player: PromoPlayerContext;
+}
+
+interface GrantResult {
+  duplicate: boolean;
+  newBalance?: number;
+  newDiamonds?: number;
+  unlockedPasses?: string[];
+  unlockedThemes?: string[];
+}
+
+const supabase: SupabaseClient = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const USE_LOCK_ATTEMPTS = 3;
+
+// Status de ordem que devolvem o cupom reservado (pendente vencida também)
+const RELEASED_ORDER_STATUSES = ['cancelled', 'failed'];
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+const rateLimits = new Map<string, RateLimitEntry>();
+let lastRateLimitCleanupAt = 0;
+
+function cleanupRateLimits(): void {
+  lastRateLimitCleanupAt = maybeCleanupRateLimits(rateLimits, lastRateLimitCleanupAt, { maxIdleMs: 15 * 60_000, minIntervalMs: 5 * 60_000 });
+}
+
+export function parsePromoCodeRow(row: PromoCodeRow): PromoCode {
+  return {
+    code: row.code,
+    reward: row.reward,
+    maxUses: row.max_uses ?? null,
+    perUserLimit: Math.max(1, Number(row.per_user_limit) || 1),
+    uses: Math.max(0, Number(row.uses) || 0),
+    startsAt: row.starts_at || null,
+    expiresAt: row.expires_at || null,
+    eligibility: { ...DEFAULT_PROMO_ELIGIBILITY, ...(row.eligibility || {}) },
+    active: row.active !== false,
+    note: row.note || '',
+    createdAt: row.created_at,
+    createdBy: row.created_by ?? null
+  };
+}
+
+export async function fetchPromoCode(code: string): Promise<PromoCode | null> {
+  const { data, error } = await supabase
+    .from('promo_codes')
+    .select('*')
+    .eq('code', code)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load promo code: ${error.message}`);
+  return data ? parsePromoCodeRow(data as PromoCodeRow) : null;
+}
+
+async function countUserRedemptions(code: string, userId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('promo_code_redemptions')
+    .select('id', { count: 'exact', head: true })
+    .eq('code', code)
+    .eq('user_id', userId);
+
+  if (error) throw new Error(`Failed to count redemptions: ${error.message}`);
+  return count || 0;
+}
+
+/**
+ * Soma delta em `uses` com lock otimista no valor atual. Retorna false se o
+ * limite global impedir a reserva.
+ */
+async function adjustPromoUses(code: string, delta: number): Promise<boolean> {
+  for (let attempt = 0; attempt < USE_LOCK_ATTEMPTS; attempt++) {
+    const promo = await fetchPromoCode(code);
+    if (!promo) return false;
+
+    const next = promo.uses + delta;
+    if (next < 0 || (delta > 0 && promo.maxUses !== null && next > promo.maxUses)) return false;
+
+    const { data, error } = await supabase
+      .from('promo_codes')
+      .update({ uses: next })
+      .eq('code', code)
+      .eq('uses', promo.uses)
+      .select('code');
+
+    if (error) throw new Error(`Failed to update promo code uses: ${error.message}`);
+    if (data && data.length > 0) return true;
+  }
+
+  throw new Error('Concurrent modification detected');
+}
+
+/**
+ * Cupom de desconto ainda não usado: sem ordem, ou reservado por uma ordem
+ * que não vai mais ser paga. Ordem pendente vencida só libera o cupom se o
+ * checkout do gateway venceu junto (`expiresCheckout`); nos outros gateways
+ * o cupom espera o gateway encerrar a ordem.
+ */
+export async function findPendingPromoDiscount(userId: string, now: Date = new Date()): Promise<PendingPromoDiscount | null> {
+  const { data: redemptions, error } = await supabase
+    .from('promo_code_redemptions')
+    .select('id, code, reward, order_id')
+    .eq('user_id', userId)
+    .eq('reward_type', 'shop_discount')
+    .order('redeemed_at', { ascending: false })
+    .limit(20);
+
+  if (error) throw new Error(`Failed to load promo discounts: ${error.message}`);
+  if (!redemptions?.length) return null;
+
+  const orderIds = redemptions.map(r => r.order_id).filter(Boolean);
+  const orders = new Map<string, { status: string; expires_at: string | null; payment_method: string | null }>();
+  if (orderIds.length) {
+    const { data: orderRows, error: ordersError } = await supabase
+      .from('shop_orders')
+      .select('id, status, expires_at, payment_method')
+      .in('id', orderIds);
+
+    if (ordersError) throw new Error(`Failed to load promo discount orders: ${ordersError.message}`);
+    (orderRows || []).forEach(order => orders.set(order.id, order));
+  }
+
+  const pending = redemptions.find(redemption => {
+    if (!redemption.order_id) return true;
+    const order = orders.get(redemption.order_id);
+    if (!order || RELEASED_ORDER_STATUSES.includes(order.status)) return true;
+    return order.status === 'pending'
+      && !!order.expires_at
+      && Date.parse(order.expires_at) <= now.getTime()
+      && !!getPaymentGateway(order.payment_method)?.expiresCheckout;
+  });
+  if (!pending) return null;
+
+  return {
+    redemptionId: pending.id,
+    code: pending.code,
+    percentage: Number((pending.reward as PromoReward & { percentage?: number }).percentage) || 0,
+    orderId: pending.order_id || null,
+    orderStatus: pending.order_id ? orders.get(pending.order_id)?.status || null : null
+  };
+}
+
+/**
+ * Reserva o cupom para a ordem com lock otimista na ordem anterior. Ordem
+ * anterior ainda pendente (vencida) é cancelada antes, só se continuar
+ * pendente: se o pagamento dela chegou nesse meio tempo, o cupom já foi
+ * usado. False se o cupom não pode ir para a ordem nova.
+ */
+export async function reservePromoDiscount(discount: PendingPromoDiscount, orderId: string): Promise<boolean> {
+  if (discount.orderId && discount.orderStatus === 'pending') {
+    const { data: cancelled, error: cancelError } = await supabase
+      .from('shop_orders')
+      .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+      .eq('id', discount.orderId)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (cancelError) throw new Error(`Failed to cancel expired promo order: ${cancelError.message}`);
+    if (!cancelled || cancelled.length === 0) return false;
+  }
+
+  let query = supabase
+    .from('promo_code_redemptions')
+    .update({ order_id: orderId })
+    .eq('id', discount.redemptionId);
+  query = discount.orderId ? query.eq('order_id', discount.orderId) : query.is('order_id', null);
+
+  const { data, error } = await query.select('id');
+  if (error) throw new Error(`Failed to reserve promo discount: ${error.message}`);
+  return !!data && data.length > 0;
+}
+
+async function grantPromoReward(userId: string, reward: PromoReward, reason: string, req: ApiRequest): Promise<GrantResult> {
+  switch (reward.type) {
+    case 'money': {
+      const newBalance = await updatePlayerBalance(supabase, userId, reward.amount, reason, { casesOpened: 0, req: req as any });
+      return { duplicate: false, newBalance };
+    }
+    case 'diamonds': {
+      const newDiamonds = await updatePlayerDiamonds(supabase, userId, reward.amount, reason, false, req as any);
+      return { duplicate: false, newDiamonds };
+    }
+    case 'theme': {
+      if (!getThemeConfig(reward.themeId)) throw new Error(`Unknown theme: ${reward.themeId}`);
+      const result = await unlockThemeForPlayer(userId, reward.themeId, { activate: false });
+      if (!result) throw new Error('Failed to unlock theme');
+      if (result.added) return { duplicate: false, unlockedThemes: result.unlockedThemes };
+      break;
+    }
+    case 'pass': {
+      const result = await unlockPassForPlayer(userId, reward.passId);
+      if (!result) throw new Error('Failed to unlock pass');
+      if (result.added) return { duplicate: false, unlockedPasses: result.unlockedPasses };
+      break;
+    }
+    case 'shop_discount':
+      return { duplicate: false };
+  }
+
+  const newDiamonds = await updatePlayerDiamonds(supabase, userId, PROMO_DUPLICATE_DIAMONDS, `${reason} (duplicate)`, false, req as any);
+  return { duplicate: true, newDiamonds };
+}
+
+async function rollbackRedemption(userId: string, code: string, redemptionId: string, req: ApiRequest): Promise<void> {
+  const { error } = await supabase
+    .from('promo_code_redemptions')
+    .delete()
+    .eq('id', redemptionId);
+
+  const released = await adjustPromoUses(code, -1).catch(() => false);
+
+  if (error || !released) {
+    logAudit(supabase, userId, 'PROMO_CODE_ROLLBACK_FAILED', { code, redemptionId, error: error?.message }, req as any).catch(() => {});
+  }
+}
+
+// ============================================================
+// ACTIONS
+// ============================================================
+
+async function handleGetStatus(_req: ApiRequest, res: ApiResponse, ctx: HandlerContext): Promise<void> {
+  const discount = await findPendingPromoDiscount(ctx.userId);
+  return res.status(200).json({
+    success: true,
+    pendingDiscount: discount ? { code: discount.code, percentage: discount.percentage } : null
+  });
+}
+
+async function handleRedeem(req: ApiRequest, res: ApiResponse, ctx: HandlerContext): Promise<void> {
+  const { code: rawCode, idempotencyKey } = req.body || {};
+  if (typeof idempotencyKey !== 'string' || !idempotencyKey || idempotencyKey.length > 100) {
+    return res.status(400).json({ error: 'Invalid idempotency key' });
+  }
+
+  // 🔑 Mesmo pedido repetido (clique duplo, retry de rede) devolve o resultado gravado
+  const idempotencyCheck = await checkIdempotencyKey(supabase, idempotencyKey, ctx.userId);
+  if (idempotencyCheck.exists) {
+    if (idempotencyCheck.status === 'processing') {
+      return res.status(409).json({ error: 'Request is being processed', status: 'processing' });
+    }
+    return res.status(idempotencyCheck.response_code || 200).json(idempotencyCheck.result);
+  }
+
+  const code = normalizePromoCode(rawCode);
+  const saved = await saveIdempotencyKey(supabase, {
+    idempotency_key: idempotencyKey,
+    user_id: ctx.userId,
+    action: 'redeem_promo_code',
+    status: 'processing',
+    request_data: { code }
+  });
+  if (!saved) {
+    return res.status(409).json({ error: 'Request is being processed', status: 'processing' });
+  }
+
+  const respond = async (statusCode: number, body: Record<string, any>): Promise<void> => {
+    await updateIdempotencyKey(supabase, idempotencyKey, statusCode < 400 ? 'completed' : 'failed', body, statusCode);
+    return res.status(statusCode).json(body);
+  };
+  const reject = (statusCode: number, error: PromoRedeemError) => respond(statusCode, { error });
+
+  try {
+    if (!isValidPromoCode(code)) return await reject(404, 'CODE_NOT_FOUND');
+
+    const promo = await fetchPromoCode(code);
+    if (!promo) return await reject(404, 'CODE_NOT_FOUND');
+
+    const unavailable = checkPromoCodeAvailability(promo, ctx.player);
+    if (unavailable) return await reject(400, unavailable);
+
+    const previous = await countUserRedemptions(code, ctx.userId);
+    if (previous >= promo.perUserLimit) return await reject(400, 'CODE_ALREADY_REDEEMED');
+
+    // Um cupom de loja por vez: "desconto na próxima ordem" não acumula
+    if (promo.reward.type === 'shop_discount' && await findPendingPromoDiscount(ctx.userId)) {
+      return await reject(400, 'DISCOUNT_ALREADY_PENDING');
+    }
+
+    if (!await adjustPromoUses(code, 1)) return await reject(400, 'CODE_EXHAUSTED');
+
+    // A linha única (code, user_id, use_number) garante o limite por jogador
+    const { data: redemption, error: insertError } = await supabase
+      .from('promo_code_redemptions')
+      .insert({
+        code,
+        user_id: ctx.userId,
+        use_number: previous + 1,
+        reward: promo.reward,
+        reward_type: promo.reward.type,
+        idempotency_key: idempotencyKey,
+        redeemed_at: new Date().toISOString()
+      })
+      .select('id')
+      .single();
+
+    if (insertError || !redemption) {
+      await adjustPromoUses(code, -1).catch(() => false);
+      if (insertError?.code === '23505') return await reject(409, 'CODE_ALREADY_REDEEMED');
+      throw new Error(`Failed to record redemption: ${insertError?.message || 'no row'}`);
+    }
+
+    let granted: GrantResult;
+    try {
+      granted = await grantPromoReward(ctx.userId, promo.reward, `Promo code ${code}`, req);
+    } catch (error) {
+      const err = error as Error;
+      console.error('❌ Promo code delivery failed:', err.message);
+      await rollbackRedemption(ctx.userId, code, redemption.id, req);
+      if (err.message === 'Diamond debt outstanding') {
+        return await respond(403, { error: 'DIAMOND_DEBT' });
+      }
+      return await respond(500, { error: 'Failed to deliver reward. Please try again.' });
+    }
+
+    logAudit(supabase, ctx.userId, 'PROMO_CODE_REDEEMED', {
+      code,
+      reward: promo.reward,
+      duplicate: granted.duplicate,
+      useNumber: previous + 1
+    }, req as any).catch(() => {});
+
+    return await respond(200, { success: true, code, reward: promo.reward, ...granted });
+  } catch (error) {
+    const err = error as Error;
+    console.error('💥 Promo code redemption error:', err.message);
+    return await respond(500, { error: 'Internal server error' });
+  }
+}
+
+// ============================================================
+// MAIN HANDLER
+// ============================================================
+
+export default async function handler(req: ApiRequest, res: ApiResponse): Promise<void> {
+  applyCors(req as any, res as any);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { action, userId, authToken } = req.body || {};
+  cleanupRateLimits();
+
+  // Limite baixo: protege contra tentativa de adivinhar códigos
+  const identifier = getIdentifier(req as any, userId);
+  if (!checkRateLimit(rateLimits, identifier, { maxRequests: 10, windowMs: 60_000 })) {
+    logAudit(supabase, userId || 'unknown', 'PROMO_CODE_RATE_LIMIT', { action }, req as any).catch(() => {});
+    return res.status(429).json({ error: 'Too many requests. Please wait.' });
+  }
+
+  if (!action || typeof action !== 'string') {
+    return res.status(400).json({ error: 'Invalid action' });
+  }
+  if (!userId || typeof userId !== 'string') {
+    return res.status(400).json({ error: 'Invalid userId' });
+  }
+  if (!authToken || typeof authToken !== 'string') {
+    return res.status(400).json({ error: 'Invalid authToken' });
+  }
+
+  const { valid, error: sessionError, user, stats } = await validateSessionAndFetchPlayerStats(supabase, authToken, userId, {
+    select: 'user_id, xp, total_purchases'
+  });
+  if (!valid) {
+    logAudit(supabase, userId, 'PROMO_CODE_AUTH_FAILED', { action, error: sessionError }, req as any).catch(() => {});
+    return res.status(401).json({ error: sessionError });
+  }
+
+  // 🛡️ Validar CSRF token (apenas para ações que fazem mutações)
+  const mutationActions = ['redeemPromoCode'];
+  if (mutationActions.includes(action)) {
+    const csrfValidation = await validateCsrfMiddleware(supabase, req as any, userId);
+    if (!csrfValidation.valid) {
+      console.warn('⚠️ CSRF validation failed:', { userId, action, error: csrfValidation.error });
+      logAudit(supabase, userId, 'PROMO_CODE_CSRF_VALIDATION_FAILED', { action }, req as any).catch(() => {});
+      return res.status(403).json({ error: 'Security validation failed' });
+    }
+  }
+
+  const ctx: HandlerContext = {
+    userId,
+    player: {
+      accountCreatedAt: user?.created_at || null,
+      level: getLevelInfo(Number(stats?.xp) || 0).level,
+      totalPurchases: Number(stats?.total_purchases) || 0
+    }
+  };
+
+  try {
+    switch (action) {
+      case 'getPromoStatus':
+        return await handleGetStatus(req, res, ctx);
+      case 'redeemPromoCode':
+        return await handleRedeem(req, res, ctx);
+      default:
+        return res.status(400).json({ error: 'Invalid action' });
+    }
+  } catch (error) {
+    const err = error as Error;
+    console.error('💥 Promo codes: unhandled error', err);
+    logAudit(supabase, userId, 'PROMO_CODE_ERROR', { action, error: err.message }, req as any).catch(() => {});
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
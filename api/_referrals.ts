@@ -14,7 +14,9 @@ import {
   logMoneyTransactionAsync,
   validateCsrfMiddleware,
   validateRequestSignature,
+  grantPlayerXp,
 } from './_utils.js';
+import { evaluateAchievements } from './_achievements.js';
 
 dotenv.config();
 
@@ -70,6 +72,18 @@ interface ApplyDiamondBonusParams {
   req?: ApiRequest | null;
 }
 
+export interface ReferralDiamondBonus {
+  referrerId: string;
+  amount: number;
+}
+
+interface ReverseDiamondBonusParams {
+  supabase: SupabaseClient;
+  buyerId: string;
+  bonus: ReferralDiamondBonus;
+  orderId: string;
+}
+
 const supabase: SupabaseClient = createClient(
   process.env.SUPABASE_URL!,
   process.env.SUPABASE_SERVICE_KEY!
@@ -101,6 +115,7 @@ export const REFERRAL_EVENT_TYPES = {
   SPEND_COMMISSION: 'spend_commission',
   WIN_COMMISSION: 'win_commission',
   DIAMOND_BONUS: 'diamond_bonus',
+  DIAMOND_BONUS_REVERSAL: 'diamond_bonus_reversal',
   WITHDRAWAL: 'withdrawal',
   DAILY_INTEREST: 'daily_interest'
 };
@@ -252,27 +267,27 @@ export async function applyReferralDiamondBonus({
   diamondsBought,
   source = 'diamond_purchase',
   req = null
-}: ApplyDiamondBonusParams): Promise<void> {
+}: ApplyDiamondBonusParams): Promise<ReferralDiamondBonus | null> {
   if (!sb || !buyerId) {
     console.warn('referral diamond bonus: missing supabase or buyerId');
-    return;
+    return null;
   }
   const diamonds = normalizeNumber(diamondsBought, 0);
   if (diamonds <= 0) {
     console.warn('referral diamond bonus: invalid diamonds amount', diamondsBought);
-    return;
+    return null;
   }
 
   const referrerId = await fetchReferrerId(buyerId, sb);
   if (!referrerId) {
     console.log('referral diamond bonus: no referrer found for buyer', buyerId);
-    return;
+    return null;
   }
 
   const bonus = getDiamondBonusForPackage(diamonds);
   if (!bonus) {
     console.warn('referral diamond bonus: no bonus for diamonds amount', diamonds);
-    return;
+    return null;
   }
 
   console.log('💎 Applying referral diamond bonus:', { referrerId, buyerId, diamonds, bonus });
@@ -285,6 +300,50 @@ export async function applyReferralDiamondBonus({
     source,
     meta: { diamonds }
   });
+
+  return { referrerId, amount: bonus };
+}
+
+/**
+ * Desfaz o bônus de referral de uma compra estornada (reembolso/disputa).
+ * Lança um payout negativo; o saldo pendente do referrer pode ficar negativo,
+ * o que já bloqueia o saque até ser coberto por novas comissões.
+ */
+export async function reverseReferralDiamondBonus({
+  supabase: sb,
+  buyerId,
+  bonus,
+  orderId
+}: ReverseDiamondBonusParams): Promise<void> {
+  const amount = normalizeNumber(bonus?.amount, 0);
+  if (!sb || !bonus?.referrerId || amount <= 0) return;
+
+  const metadata = { source: 'shop_reversal', order_id: orderId };
+
+  const { error } = await sb.rpc('apply_referral_payout', {
+    p_referrer_id: bonus.referrerId,
+    p_referred_id: buyerId,
+    p_amount: -amount,
+    p_kind: REFERRAL_EVENT_TYPES.DIAMOND_BONUS_REVERSAL,
+    p_source: 'shop_reversal',
+    p_metadata: metadata
+  });
+
+  if (!error) return;
+
+  console.warn('referral: RPC apply_referral_payout failed for reversal, using fallback', error.message);
+
+  const { error: insertError } = await sb.from('referral_events').insert({
+    referrer_id: bonus.referrerId,
+    referred_id: buyerId,
+    amount: -parseFloat(amount.toFixed(2)),
+    kind: REFERRAL_EVENT_TYPES.DIAMOND_BONUS_REVERSAL,
+    metadata
+  });
+
+  if (insertError) {
+    throw new Error(`Failed to reverse referral bonus: ${insertError.message}`);
+  }
 }
 
 export async function getReferralSnapshot(userId: string, { limit = 10, offset = 0 }: { limit?: number; offset?: number } = {}): Promise<any> {
@@ -478,6 +537,10 @@ async function handleRegisterReferral(req: ApiRequest, res: ApiResponse, { userI
     console.warn('referral: grant diamonds failed', error.message);
   }
 
+  grantPlayerXp(supabase, referrer.user_id, 'referral', { reference: userId })
+    .then(() => evaluateAchievements(referrer.user_id))
+    .catch(() => {});
+
   logAudit(supabase, userId, 'REFERRAL_LINKED', { referrerId: referrer.user_id }, req as any).catch(() => {});
   logAudit(supabase, referrer.user_id, 'REFERRAL_NEW_USER', { referredId: userId }, req as any).catch(() => {});
 
@@ -3,8 +3,6 @@
 // ============================================================
 
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
-import Stripe from 'stripe';
-import fetch from 'node-fetch';
 import dotenv from 'dotenv';
 import {
   applyCors,
@@ -15,11 +13,12 @@ import {
   cleanupOldEntries,
   ValidationSchemas,
   verifyStripeSignature,
-  verifyMercadoPagoSignature,
   createSecureLog,
   maskUserId,
   maskEmail,
   validateCsrfMiddleware,
+  updatePlayerDiamonds,
+  settlePlayerDiamondDebt,
   checkIdempotencyKey,
   saveIdempotencyKey,
   updateIdempotencyKey,
@@ -29,8 +28,35 @@ import {
 } from './_utils.js';
 
 import { 
-  applyReferralDiamondBonus 
+  applyReferralDiamondBonus,
+  reverseReferralDiamondBonus,
+  type ReferralDiamondBonus
 } from './_referrals.js';
+import { queueSubscriptionReminderEmail } from './_support.js';
+import { findPendingPromoDiscount, reservePromoDiscount } from './_promocodes.js';
+import {
+  getPaymentGateway,
+  handleSandboxCheckout,
+  PaymentGatewayError,
+  type PaymentEvent,
+  type PaymentEventType,
+  type PaymentGatewayId,
+  type WebhookRequest
+} from './_payments.js';
+import {
+  DEFAULT_SHOP_CATALOG,
+  calculateShopOffer,
+  findShopProduct,
+  findShopSubscription,
+  isShopCurrency,
+  isShopPackage,
+  isShopProductAvailable,
+  validateShopCatalog,
+  SHOP_REPORTING_CURRENCY,
+  type ShopCatalog,
+  type ShopCurrency,
+  type ShopSubscription
+} from '../app/shared/shop-catalog.js';
 
 dotenv.config();
 
@@ -57,35 +83,6 @@ interface ApiResponse {
   setHeader: (key: string, value: string) => void;
 }
 
-interface Package {
-  id: string;
-  name: string;
-  diamonds: number;
-  price: number;
-  priceBRL: number;
-  priceId: string;
-  firstPurchaseBonus?: {
-    type: string;
-    value: number;
-  };
-  timedBonus?: {
-    percentage: number;
-    endsAt: string;
-  };
-}
-
-interface Subscription {
-  id: string;
-  name: string;
-  price: number;
-  priceBRL: number;
-  priceId: string;
-  duration: number;
-  diamonds: number;
-  dailyDiamonds: number;
-  battlepass?: boolean;
-}
-
 // Vercel webhook endpoints (Stripe) need raw body to validate signatures.
 export const config = {
   api: {
@@ -102,10 +99,6 @@ const supabase: SupabaseClient = createClient(
   process.env.SUPABASE_SERVICE_KEY!
 );
 
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-  apiVersion: '2023-10-16'
-});
-
 // ============================================================
 // CLASSES (shop-only implementations - must be before instantiation)
 // ============================================================
@@ -266,6 +259,23 @@ class WebhookReplayProtection {
     this.processedWebhooks.set(webhookId, Date.now());
   }
 
+  /**
+   * Libera uma entrega que falhou antes de ser aplicada, para que o reenvio
+   * do gateway (mesmo id) seja processado em vez de virar duplicata
+   */
+  async unmarkProcessed(webhookId: string, supabase: any): Promise<void> {
+    try {
+      await supabase
+        .from('processed_webhooks')
+        .delete()
+        .eq('webhook_id', webhookId);
+    } catch (err) {
+      console.error('Error removing webhook from database:', err);
+    }
+
+    this.processedWebhooks.delete(webhookId);
+  }
+
   cleanup(): void {
     const now = Date.now();
     const oneDay = 24 * 60 * 60 * 1000;
@@ -335,97 +345,97 @@ function maybeCleanupSecurity(): void {
 }
 
 // ============================================================
-// CONFIGURAÇÃO DE PACOTES E ASSINATURAS
+// CATÁLOGO DA LOJA (VERSIONADO)
 // ============================================================
+// Versões publicadas ficam em `shop_catalogs` (version, data, published_at).
+// Sem nenhuma linha publicada, vale o catálogo embutido (versão 1) de
+// app/shared/shop-catalog.ts, o mesmo que o frontend usa como fallback.
 
-const STRIPE_PRICE_IDS = {
-  STARTER: 'price_1SqJPQC4sph1j0MSvLNLrkwu',
-  BRONZE: 'price_1SqJQYC4sph1j0MSSQkVIedf',
-  SILVER: 'price_1SqJS8C4sph1j0MSRUeprzMN',
-  GOLD: 'price_1SqJSnC4sph1j0MS33EgkX3J',
-  PLATINUM: 'price_1SqJUlC4sph1j0MShNC5nlRN',
-  PREMIUM_SUB: 'price_1SqJWNC4sph1j0MSsOMyeaxv',
-  PREMIUM_SUB_BP: 'price_1SqJXpC4sph1j0MSLgmS9rd8'
-};
+const SHOP_CATALOG_CACHE_TTL_MS = 60_000;
 
-const PACKAGES: Package[] = [
-  {
-    id: 'pkg_250',
-    name: 'STARTER PACK',
-    diamonds: 250,
-    price: 1.99, // USD
-    priceBRL: 14.99, // ← Adicione o preço em BRL
-    priceId: STRIPE_PRICE_IDS.STARTER,
-    firstPurchaseBonus: {
-      type: 'percentage',
-      value: 10
-    }
-  },
-  {
-    id: 'pkg_600',
-    name: 'BRONZE PACK',
-    diamonds: 600,
-    price: 4.49,
-    priceBRL: 27.49,
-    priceId: STRIPE_PRICE_IDS.BRONZE
-  },
-  {
-    id: 'pkg_1400',
-    name: 'SILVER PACK',
-    diamonds: 1400,
-    price: 9.99,
-    priceBRL: 59.99,
-    priceId: STRIPE_PRICE_IDS.SILVER,
-    timedBonus: {
-      percentage: 40,
-      endsAt: '2026-01-16T23:59:59Z'
-    }
-  },
-  {
-    id: 'pkg_2800',
-    name: 'GOLD PACK',
-    diamonds: 2800,
-    price: 17.99,
-    priceBRL: 109.99,
-    priceId: STRIPE_PRICE_IDS.GOLD
-  },
-  {
-    id: 'pkg_3750',
-    name: 'PLATINUM PACK',
-    diamonds: 3750,
-    price: 27.99,
-    priceBRL: 159.99,
-    priceId: STRIPE_PRICE_IDS.PLATINUM,
-    timedBonus: {
-      percentage: 20,
-      endsAt: '2026-02-20T23:59:59Z'
+interface ShopCatalogRow {
+  version: number;
+  data: Partial<ShopCatalog>;
+  published_at: string;
+}
+
+let activeShopCatalogCache: { catalog: ShopCatalog; fetchedAt: number } | null = null;
+const shopCatalogsByVersion = new Map<number, ShopCatalog>([[DEFAULT_SHOP_CATALOG.version, DEFAULT_SHOP_CATALOG]]);
+
+function parseShopCatalogRow(row: ShopCatalogRow): ShopCatalog | null {
+  const catalog = {
+    ...row.data,
+    version: Number(row.version),
+    publishedAt: row.published_at
+  } as ShopCatalog;
+
+  const errors = validateShopCatalog(catalog);
+  if (errors.length) {
+    console.error(`❌ Shop catalog v${row.version} is invalid:`, errors.slice(0, 5));
+    return null;
+  }
+  return catalog;
+}
+
+export async function getActiveShopCatalog(): Promise<ShopCatalog> {
+  if (activeShopCatalogCache && Date.now() - activeShopCatalogCache.fetchedAt < SHOP_CATALOG_CACHE_TTL_MS) {
+    return activeShopCatalogCache.catalog;
+  }
+
+  let catalog: ShopCatalog = activeShopCatalogCache?.catalog || DEFAULT_SHOP_CATALOG;
+  try {
+    const { data, error } = await supabase
+      .from('shop_catalogs')
+      .select('version, data, published_at')
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (data) {
+      catalog = parseShopCatalogRow(data as ShopCatalogRow) || catalog;
     }
+  } catch (err) {
+    console.error('⚠️ Failed to load shop catalog, keeping current version:', err instanceof Error ? err.message : err);
   }
-];
-
-const SUBSCRIPTIONS: Subscription[] = [
-  {
-    id: 'sub_premium',
-    name: 'PREMIUM SUBSCRIPTION',
-    price: 5.99,
-    priceBRL: 34.99,
-    priceId: STRIPE_PRICE_IDS.PREMIUM_SUB,
-    duration: 30,
-    diamonds: 300,
-    dailyDiamonds: 15
-  },
-  {
-    id: 'sub_premium_bp',
-    name: 'PREMIUM SUBSCRIPTION + BP',
-    price: 9.99,
-    priceBRL: 59.99,
-    priceId: STRIPE_PRICE_IDS.PREMIUM_SUB_BP,
-    duration: 30,
-    diamonds: 300,
-    dailyDiamonds: 15,
-    battlepass: true
-  }
-];
+
+  shopCatalogsByVersion.set(catalog.version, catalog);
+  activeShopCatalogCache = { catalog, fetchedAt: Date.now() };
+  return catalog;
+}
+
+/**
+ * Versão específica do catálogo (a da ordem, para processar/estornar
+ * com o produto que foi vendido)
+ */
+async function getShopCatalogVersion(version: unknown): Promise<ShopCatalog | null> {
+  const versionValue = Number(version);
+  if (!Number.isInteger(versionValue) || versionValue < 1) return null;
+
+  const cached = shopCatalogsByVersion.get(versionValue);
+  if (cached) return cached;
+
+  const { data, error } = await supabase
+    .from('shop_catalogs')
+    .select('version, data, published_at')
+    .eq('version', versionValue)
+    .maybeSingle();
+
+  if (error || !data) return null;
+
+  const catalog = parseShopCatalogRow(data as ShopCatalogRow);
+  if (catalog) shopCatalogsByVersion.set(catalog.version, catalog);
+  return catalog;
+}
+
+export function invalidateShopCatalogCache(): void {
+  activeShopCatalogCache = null;
+}
+
+async function getOrderSubscription(order: { product_name?: string | null; metadata?: Record<string, any> | null }): Promise<ShopSubscription | null> {
+  const catalog = (await getShopCatalogVersion(order.metadata?.catalog_version)) || (await getActiveShopCatalog());
+  return findShopSubscription(catalog, order.product_name);
+}
 
 // ============================================================
 // RATE LIMITING
@@ -497,243 +507,11 @@ async function getJsonBody(req: ApiRequest, rawBody?: Buffer | null): Promise<an
   }
 }
 
-function calculateBonus(product: Package | Subscription, isFirstPurchase: boolean): { bonus: number; type: string | null; total: number } {
-  let bonus = 0;
-  let bonusType: string | null = null;
-
-  // Bônus de primeira compra
-  if (isFirstPurchase && 'firstPurchaseBonus' in product && product.firstPurchaseBonus) {
-    if (product.firstPurchaseBonus.type === 'percentage') {
-      bonus = Math.floor(product.diamonds * (product.firstPurchaseBonus.value / 100));
-    } else {
-      bonus = product.firstPurchaseBonus.value;
-    }
-    bonusType = 'first_purchase';
-  }
-
-  // Bônus temporário (substitui o de primeira compra se maior)
-  if ('timedBonus' in product && product.timedBonus && new Date(product.timedBonus.endsAt) > new Date()) {
-    const timedBonus = Math.floor(product.diamonds * (product.timedBonus.percentage / 100));
-    if (timedBonus > bonus) {
-      bonus = timedBonus;
-      bonusType = 'timed';
-    }
-  }
-
-  return {
-    bonus,
-    type: bonusType,
-    total: product.diamonds + bonus
-  };
-}
-
-function getProduct(productId: string, productType: string): Package | Subscription | null {
-  if (productType === 'package') {
-    return PACKAGES.find(p => p.id === productId) || null;
-  } else if (productType === 'subscription') {
-    return SUBSCRIPTIONS.find(s => s.id === productId) || null;
-  }
-  return null;
-}
-
-// ============================================================
-// STRIPE CHECKOUT
-// ============================================================
-
-async function createStripeCheckout(order: any, product: Package | Subscription, userId: string): Promise<string | null> {
-  try {
-    console.log('🔄 [Stripe] Iniciando checkout para pedido:', order.id);
-    
-    const successUrl = `${process.env.WEBHOOK_BASE_URL}/shop?payment=success&order_id=${order.id}`;
-    const cancelUrl = `${process.env.WEBHOOK_BASE_URL}/shop?payment=cancelled`;
-
-    console.log('🔄 [Stripe] URLs:', { successUrl, cancelUrl });
-
-    const session = await stripe.checkout.sessions.create({
-      payment_method_types: ['card'],
-      line_items: [
-        {
-          price: product.priceId, // Usa o Price ID da Stripe
-          quantity: 1,
-        },
-      ],
-      mode: order.order_type === 'subscription' ? 'subscription' : 'payment', // ← MUDANÇA AQUI
-      success_url: successUrl,
-      cancel_url: cancelUrl,
-      client_reference_id: order.id,
-      metadata: {
-        order_id: order.id,
-        user_id: userId,
-        product_type: order.order_type
-      }
-    });
-
-    console.log('✅ [Stripe] Sessão criada:', session.id);
-
-    await supabase
-      .from('shop_orders')
-      .update({ payment_id: session.id })
-      .eq('id', order.id);
-
-    console.log('✅ [Stripe] Order atualizada com payment_id');
-
-    return session.url;
-  } catch (error) {
-    const err = error as any;
-    console.error('❌ [Stripe] Erro:', err);
-    throw new Error(`Stripe error: ${err.message}`);
-  }
-}
-
-// ============================================================
-// MERCADOPAGO CHECKOUT
-// ============================================================
-
-async function createMercadoPagoCheckout(order: any, product: Package | Subscription, userId: string): Promise<string | null> {
-  try {
-    console.log('🔄 [MercadoPago] Iniciando checkout para pedido:', order.id);
-    
-    const accessToken = process.env.MERCADOPAGO_ACCESS_TOKEN;
-    
-    if (!accessToken) {
-      console.error('❌ [MercadoPago] Access token não configurado');
-      throw new Error('MercadoPago access token not configured');
-    }
-
-    const preference = {
-      items: [
-        {
-          id: product.id, // ID do seu produto
-          title: product.name,
-          description: order.order_type === 'package' 
-            ? `${order.quantity} 💎 Diamonds` 
-            : `${'duration' in product ? product.duration : 30} days subscription`,
-          quantity: 1,
-          currency_id: 'BRL',
-          unit_price: product.priceBRL, // ← Agora você define o preço em BRL direto no produto
-        }
-      ],
-      back_urls: {
-        success: `${process.env.WEBHOOK_BASE_URL}/shop?payment=success&order_id=${order.id}`,
-        failure: `${process.env.WEBHOOK_BASE_URL}/shop?payment=failed`,
-        pending: `${process.env.WEBHOOK_BASE_URL}/shop?payment=pending`
-      },
-      auto_return: 'approved',
-      binary_mode: true, // Força retorno imediato (approved ou rejected, sem pending)
-      statement_descriptor: 'LOOTSKIRMISH', // Nome que aparece na fatura
-      external_reference: order.id,
-      notification_url: `${process.env.WEBHOOK_BASE_URL}/api/webhooks/shop?gateway=mercadopago`,
-      metadata: {
-        order_id: order.id,
-        user_id: userId
-      },
-      expires: true,
-      expiration_date_from: new Date().toISOString(),
-      expiration_date_to: new Date(Date.now() + 30 * 60 * 1000).toISOString() // Expira em 30 minutos
-    };
-
-    console.log('🔄 [MercadoPago] Enviando preferência...');
-
-    const response = await fetch('https://api.mercadopago.com/checkout/preferences', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${accessToken}`
-      },
-      body: JSON.stringify(preference)
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      console.error('❌ [MercadoPago] Erro na API:', errorData);
-      throw new Error(`MercadoPago error: ${JSON.stringify(errorData)}`);
-    }
-
-    const data: any = await response.json();
-    console.log('✅ [MercadoPago] Preferência criada:', data.id);
-
-    await supabase
-      .from('shop_orders')
-      .update({ payment_id: data.id })
-      .eq('id', order.id);
-
-    console.log('✅ [MercadoPago] Order atualizada com payment_id');
-
-    return data.init_point;
-  } catch (error) {
-    const err = error as any;
-    console.error('❌ [MercadoPago] Erro:', err);
-    throw new Error(`MercadoPago error: ${err.message}`);
-  }
-}
-
-// ============================================================
-// NOWPAYMENTS CHECKOUT
-// ============================================================
-
-async function createNOWPaymentsCheckout(order: any, product: Package | Subscription, userId: string): Promise<string | null> {
-  try {
-    console.log('🔄 [NOWPayments] Iniciando checkout para pedido:', order.id);
-    
-    const apiKey = process.env.NOWPAYMENTS_API_KEY;
-    
-    if (!apiKey) {
-      console.error('❌ [NOWPayments] API key não configurada');
-      throw new Error('NOWPayments API key not configured');
-    }
-
-    const payment = {
-      price_amount: product.price,
-      price_currency: 'usd',
-      pay_currency: 'ltc', // Litecoin recomendado
-      ipn_callback_url: `${process.env.WEBHOOK_BASE_URL}/api/webhooks/shop?gateway=nowpayments`,
-      order_id: order.id,
-      order_description: `${product.name} - ${order.order_type === 'package' ? `${order.quantity} Diamonds` : `${'duration' in product ? product.duration : 30} days`}`,
-      success_url: `${process.env.WEBHOOK_BASE_URL}/shop?payment=success&order_id=${order.id}`,
-      cancel_url: `${process.env.WEBHOOK_BASE_URL}/shop?payment=cancelled`
-    };
-
-    console.log('🔄 [NOWPayments] Enviando pagamento...');
-
-    const response = await fetch('https://api.nowpayments.io/v1/payment', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey
-      },
-      body: JSON.stringify(payment)
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      console.error('❌ [NOWPayments] Erro na API:', errorData);
-      throw new Error(`NOWPayments error: ${JSON.stringify(errorData)}`);
-    }
-
-    const data: any = await response.json();
-    console.log('✅ [NOWPayments] Pagamento criado:', data.payment_id);
-
-    // Atualizar order com payment_id
-    await supabase
-      .from('shop_orders')
-      .update({ payment_id: data.payment_id })
-      .eq('id', order.id);
-
-    console.log('✅ [NOWPayments] Order atualizada com payment_id');
-
-    return data.payment_url;
-  } catch (error) {
-    const err = error as any;
-    console.error('❌ [NOWPayments] Erro:', err);
-    throw new Error(`NOWPayments error: ${err.message}`);
-  }
-}
-
 // ============================================================
 // PROCESSAR PAGAMENTO APROVADO
 // ============================================================
 
-async function processSuccessfulPayment(orderId: string, { gateway = 'unknown', paymentDetails = null }: { gateway?: string; paymentDetails?: any } = {}): Promise<any> {
+async function processSuccessfulPayment(orderId: string, { gateway = 'unknown', payment = null }: { gateway?: string; payment?: PaymentEvent | null } = {}): Promise<any> {
   let order: any = null;
   try {
     console.log('🔄 Processing payment for order:', orderId);
@@ -816,26 +594,15 @@ async function processSuccessfulPayment(orderId: string, { gateway = 'unknown',
 
     // Validação básica de gateway/valor para evitar creditamentos indevidos
     const expectedAmount = normalizeNumber(baseMetadata?.expected_amount ?? order.amount, 0);
-    const expectedCurrency = (baseMetadata?.payment_currency || (order.payment_method === 'mercadopago' ? 'BRL' : 'USD')).toUpperCase();
-
-    if (paymentDetails) {
-      let paidAmount = 0;
-      let paidCurrency = '';
-
-      if (gateway === 'stripe') {
-        // Stripe retorna amount_total em centavos
-        paidAmount = normalizeNumber((paymentDetails as any).amount_total, 0) / 100;
-        paidCurrency = ((paymentDetails as any).currency || 'USD').toUpperCase();
-      } else if (gateway === 'mercadopago') {
-        paidAmount = normalizeNumber((paymentDetails as any).transaction_amount, 0);
-        paidCurrency = ((paymentDetails as any).currency_id || '').toUpperCase();
-      } else if (gateway === 'nowpayments') {
-        paidAmount = normalizeNumber((paymentDetails as any).amount, 0);
-        paidCurrency = ((paymentDetails as any).pay_currency || '').toUpperCase();
-      }
+    const expectedCurrency = (order.currency || baseMetadata?.payment_currency || (order.payment_method === 'mercadopago' ? 'BRL' : 'USD')).toUpperCase();
+
+    if (payment) {
+      // Valor/moeda já normalizados pelo adapter do gateway
+      const paidAmount = normalizeNumber(payment.amount, 0);
+      const paidCurrency = (payment.currency || '').toUpperCase();
 
       if (paidAmount > 0 && expectedAmount > 0 && Math.abs(paidAmount - expectedAmount) > 1) {
-        console.error('❌ Payment amount mismatch for order', orderId, { expectedAmount, paidAmount, gateway, rawAmount: (paymentDetails as any).amount_total || (paymentDetails as any).transaction_amount });
+        console.error('❌ Payment amount mismatch for order', orderId, { expectedAmount, paidAmount, gateway, paymentId: payment.paymentId });
         await supabase
           .from('shop_orders')
           .update({
@@ -873,6 +640,9 @@ async function processSuccessfulPayment(orderId: string, { gateway = 'unknown',
 
     const userId = order.user_id;
     const productType = order.order_type;
+    // Guardados na ordem para um eventual estorno (reembolso/disputa)
+    let creditedDiamonds = 0;
+    let referralBonus: ReferralDiamondBonus | null = null;
 
     console.log('📦 Order details:', {
       id: orderId,
@@ -911,10 +681,11 @@ async function processSuccessfulPayment(orderId: string, { gateway = 'unknown',
         console.warn('⚠️ RPC returned null/undefined - possible constraint issue');
         throw new Error('Diamond credit validation failed');
       }
+      creditedDiamonds = order.quantity;
 
       // Aplicar bônus de referral (se aplicável)
       try {
-        await applyReferralDiamondBonus({
+        referralBonus = await applyReferralDiamondBonus({
           supabase,
           buyerId: userId,
           diamondsBought: order.quantity,
@@ -930,8 +701,8 @@ async function processSuccessfulPayment(orderId: string, { gateway = 'unknown',
         p_subscription_name: order.product_name
       });
 
-      // Buscar produto para pegar quantidade de diamonds
-      const product = SUBSCRIPTIONS.find(s => s.name === order.product_name);
+      // Produto da versão do catálogo em que a ordem foi criada
+      const product = await getOrderSubscription(order);
       const duration = product?.duration || 30;
       const instantDiamonds = product?.diamonds || 0;
 
@@ -962,6 +733,7 @@ async function processSuccessfulPayment(orderId: string, { gateway = 'unknown',
           console.warn('⚠️ Diamond credit RPC returned null/undefined');
           throw new Error('Subscription diamond credit validation failed');
         }
+        creditedDiamonds = instantDiamonds;
       }
 
       // Ativar assinatura
@@ -1006,6 +778,15 @@ async function processSuccessfulPayment(orderId: string, { gateway = 'unknown',
       }
     }
 
+    // Diamantes creditados pelo RPC quitam uma dívida de estorno anterior
+    if (creditedDiamonds > 0) {
+      try {
+        await settlePlayerDiamondDebt(supabase, userId);
+      } catch (debtError) {
+        console.warn('⚠️ Failed to settle diamond debt (non-blocking):', debtError instanceof Error ? debtError.message : debtError);
+      }
+    }
+
     // Incrementar contador de compras
     console.log('📊 Incrementing total purchases counter for user:', userId);
     const { error: incrementError } = await supabase.rpc('increment_total_purchases', { p_user_id: userId });
@@ -1020,11 +801,12 @@ async function processSuccessfulPayment(orderId: string, { gateway = 'unknown',
       processing_started_at: baseMetadata.processing_started_at || nowIso,
       processed_gateway: gateway,
       processed_at: nowIso,
-      processed_payment_id: paymentDetails?.id || paymentDetails?.payment_id || paymentDetails?.collection_id || paymentDetails?.session_id,
-      paid_amount: gateway === 'stripe' 
-        ? (paymentDetails?.amount_total ? paymentDetails.amount_total / 100 : order.amount)
-        : (paymentDetails?.transaction_amount ?? paymentDetails?.amount ?? paymentDetails?.total_paid_amount ?? order.amount),
-      paid_currency: (paymentDetails?.currency || paymentDetails?.currency_id || paymentDetails?.pay_currency || expectedCurrency).toUpperCase()
+      processed_payment_id: payment?.paymentId || null,
+      paid_amount: payment?.amount ?? order.amount,
+      paid_currency: (payment?.currency || expectedCurrency).toUpperCase(),
+      credited_diamonds: creditedDiamonds,
+      ...(referralBonus ? { referral_bonus: { referrer_id: referralBonus.referrerId, amount: referralBonus.amount } } : {}),
+      ...(payment?.paymentIntentId ? { stripe_payment_intent: payment.paymentIntentId } : {})
     };
 
     // Atualizar status da ordem
@@ -1070,19 +852,217 @@ async function processSuccessfulPayment(orderId: string, { gateway = 'unknown',
   }
 }
 
+// ============================================================
+// ESTORNOS (REEMBOLSO / CHARGEBACK)
+// ============================================================
+
+type ReversalStatus = 'refunded' | 'disputed';
+
+// Status terminais de estorno: a ordem não volta a ser processada
+const REVERSED_ORDER_STATUSES: ReversalStatus[] = ['refunded', 'disputed'];
+
+/**
+ * Estorna uma ordem reembolsada ou contestada. A troca de status (lock
+ * condicional no status lido) garante uma única execução por ordem; só
+ * ordens já creditadas (`success`) têm diamantes, bônus de referral e
+ * assinatura desfeitos. Se o saldo não cobre o estorno, o restante vira
+ * `diamond_debt` e os gastos (diamantes, dinheiro, mercado, trocas) ficam
+ * bloqueados.
+ */
+async function reverseOrderPayment(
+  orderId: string,
+  status: ReversalStatus,
+  { gateway, reason, details = {} }: { gateway: string; reason: string; details?: Record<string, any> }
+): Promise<{ success: boolean; alreadyReversed?: boolean; clawedBack?: number; error?: string }> {
+  const { data: order, error: orderError } = await supabase
+    .from('shop_orders')
+    .select('*')
+    .eq('id', orderId)
+    .single();
+
+  if (orderError || !order) {
+    console.error('❌ Order not found for reversal:', orderId, orderError?.message);
+    return { success: false, error: 'Order not found' };
+  }
+
+  if (REVERSED_ORDER_STATUSES.includes(order.status)) {
+    console.log('⚠️ Order already reversed:', orderId, order.status);
+    return { success: true, alreadyReversed: true };
+  }
+
+  const nowIso = new Date().toISOString();
+  const wasCredited = order.status === 'success';
+  const baseMetadata = { ...(order.metadata || {}) };
+  const reversalMetadata: Record<string, any> = {
+    ...baseMetadata,
+    reversal: {
+      status,
+      gateway,
+      reason,
+      previous_status: order.status,
+      reversed_at: nowIso,
+      ...details
+    }
+  };
+
+  const { data: claimRows, error: claimError } = await supabase
+    .from('shop_orders')
+    .update({ status, metadata: reversalMetadata, updated_at: nowIso })
+    .eq('id', orderId)
+    .eq('status', order.status)
+    .select('id');
+
+  if (claimError) {
+    console.error('❌ Failed to claim order for reversal:', claimError.message);
+    return { success: false, error: 'Failed to claim order' };
+  }
+
+  if (!claimRows || claimRows.length === 0) {
+    console.warn('⚠️ Order status changed during reversal, skipping:', orderId);
+    return { success: false, error: 'Order status changed' };
+  }
+
+  if (!wasCredited) {
+    console.log('ℹ️ Order reversed before being credited, nothing to claw back:', orderId);
+    return { success: true, clawedBack: 0 };
+  }
+
+  const userId = order.user_id;
+  const product = order.order_type === 'subscription' ? await getOrderSubscription(order) : null;
+  // Ordens antigas não têm credited_diamonds: usa o que o processamento creditaria
+  const creditedDiamonds = normalizeNumber(
+    baseMetadata.credited_diamonds,
+    order.order_type === 'package' ? normalizeNumber(order.quantity, 0) : (product?.diamonds || 0)
+  );
+  const errors: string[] = [];
+  let newDiamonds: number | null = null;
+
+  if (creditedDiamonds > 0) {
+    try {
+      newDiamonds = await updatePlayerDiamonds(
+        supabase,
+        userId,
+        -creditedDiamonds,
+        `Shop ${status === 'refunded' ? 'refund' : 'chargeback'}: ${order.product_name}`,
+        false,
+        undefined,
+        { allowDebt: true }
+      );
+    } catch (error) {
+      errors.push(`diamonds: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (product) {
+    const { error: subError } = await supabase
+      .from('player_stats')
+      .update({
+        active_subscription: null,
+        subscription_expires_at: nowIso,
+        ...(product.battlepass ? { battlepass: false } : {}),
+        updated_at: nowIso
+      })
+      .eq('user_id', userId)
+      .in('active_subscription', [product.id, product.name]);
+
+    if (subError) errors.push(`subscription: ${subError.message}`);
+  }
+
+  const referralBonus = baseMetadata.referral_bonus;
+  if (referralBonus?.referrer_id) {
+    try {
+      await reverseReferralDiamondBonus({
+        supabase,
+        buyerId: userId,
+        bonus: { referrerId: referralBonus.referrer_id, amount: normalizeNumber(referralBonus.amount, 0) },
+        orderId
+      });
+    } catch (error) {
+      errors.push(`referral: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  await supabase
+    .from('shop_orders')
+    .update({
+      metadata: {
+        ...reversalMetadata,
+        reversal: {
+          ...reversalMetadata.reversal,
+          clawed_back_diamonds: errors.some(e => e.startsWith('diamonds:')) ? 0 : creditedDiamonds,
+          balance_after: newDiamonds,
+          ...(errors.length ? { errors } : {})
+        }
+      },
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', orderId);
+
+  logAudit(supabase, userId, status === 'refunded' ? 'SHOP_ORDER_REFUNDED' : 'SHOP_ORDER_DISPUTED', {
+    orderId,
+    gateway,
+    reason,
+    clawedBack: creditedDiamonds,
+    errors
+  }).catch(() => {});
+
+  if (errors.length) {
+    console.error('❌ Reversal completed with errors (manual review needed):', orderId, errors);
+    return { success: false, error: errors.join('; ') };
+  }
+
+  console.log('✅ Order reversed:', orderId, { status, clawedBack: creditedDiamonds });
+  return { success: true, clawedBack: creditedDiamonds };
+}
+
+/**
+ * Encontra a ordem de uma cobrança (refund/dispute) pelo payment intent
+ * gravado no crédito, quando o evento do gateway não traz a ordem.
+ */
+async function findOrderIdByPaymentIntent(gateway: string, paymentIntentId: string): Promise<string | null> {
+  const { data: orders } = await supabase
+    .from('shop_orders')
+    .select('id')
+    .eq('payment_method', gateway)
+    .eq('metadata->>stripe_payment_intent', paymentIntentId)
+    .limit(1);
+
+  return orders?.[0]?.id || null;
+}
+
 // ============================================================
 // HANDLERS
 // ============================================================
 
+/**
+ * Endpoint público: catálogo ativo da loja (produtos, preços e promoções).
+ * A loja calcula preço/bônus com ele e o createOrder cobra o mesmo valor.
+ */
+async function handleGetCatalog(req: ApiRequest, res: ApiResponse): Promise<void> {
+  try {
+    const catalog = await getActiveShopCatalog();
+    return res.status(200).json({ success: true, catalog, serverTime: new Date().toISOString() });
+  } catch (error) {
+    console.error('💥 Get shop catalog error:', error);
+    return res.status(500).json({ error: 'Failed to load catalog' });
+  }
+}
+
 async function handleCreateOrder(req: ApiRequest, res: ApiResponse, body: any): Promise<void> {
   try {
-    const { userId, authToken, productId, productType, paymentMethod, idempotencyKey } = body || {};
+    const { userId, authToken, productId, productType, paymentMethod, currency, idempotencyKey } = body || {};
 
     // Validações básicas
     if (!userId || !authToken || !productId || !productType || !paymentMethod) {
       return res.status(400).json({ error: 'Missing required fields' });
     }
 
+    const gateway = getPaymentGateway(paymentMethod);
+    if (!gateway) {
+      console.error('❌ Método de pagamento inválido:', paymentMethod);
+      return res.status(400).json({ error: 'Invalid payment method' });
+    }
+
     // 🛡️ Verificar IP bloqueado PRIMEIRO
     const ipCheck = await ipBlockMiddleware(supabase, req);
     if (ipCheck.blocked) {
@@ -1185,8 +1165,9 @@ async function handleCreateOrder(req: ApiRequest, res: ApiResponse, body: any):
     }
 
     // Buscar produto
-    const product = getProduct(productId, productType);
-    if (!product) {
+    const catalog = await getActiveShopCatalog();
+    const product = findShopProduct(catalog, productId, productType);
+    if (!product || !isShopProductAvailable(product)) {
       // Atualizar idempotency key como failed
       if (idempotencyKey) {
         await updateIdempotencyKey(supabase, idempotencyKey, 'failed',
@@ -1198,29 +1179,52 @@ async function handleCreateOrder(req: ApiRequest, res: ApiResponse, body: any):
     const stats = session.stats || {};
     const isFirstPurchase = (stats.total_purchases || 0) === 0;
 
-    const paymentCurrency = paymentMethod === 'mercadopago' ? 'BRL' : 'USD';
-    const expectedAmount = paymentCurrency === 'BRL'
-      ? normalizeNumber(product.priceBRL, product.price)
-      : normalizeNumber(product.price, 0);
+    // Moeda pedida pela loja, limitada às que o gateway cobra
+    const requestedCurrency: ShopCurrency = isShopCurrency(currency) ? currency : SHOP_REPORTING_CURRENCY;
+    const paymentCurrency = (gateway.currencies && !gateway.currencies.includes(requestedCurrency)
+      ? gateway.currencies[0]
+      : requestedCurrency) as ShopCurrency;
+
+    // Cupom de código promocional pendente vale para esta ordem
+    const promoDiscount = await findPendingPromoDiscount(userId);
+
+    // Preço e bônus saem do mesmo cálculo que a loja mostrou
+    const offer = calculateShopOffer(catalog, product, {
+      currency: paymentCurrency,
+      isFirstPurchase,
+      couponPercentage: promoDiscount?.percentage || 0
+    });
+    const expectedAmount = offer.price;
 
     // Calcular quantidade final (com bônus se for pacote)
-    let finalQuantity = product.diamonds || ('duration' in product ? product.duration : 30);
+    const finalQuantity = isShopPackage(product) ? offer.totalDiamonds : (product.diamonds || product.duration);
     let metadata: Record<string, any> = {
-      payment_currency: paymentCurrency,
+      payment_currency: offer.currency,
       expected_amount: expectedAmount,
-      price_usd: product.price,
-      price_brl: product.priceBRL,
+      list_price: offer.listPrice,
+      price_usd: product.prices.USD,
+      catalog_version: catalog.version,
       use_direct_link: false
     };
 
-    if (productType === 'package') {
-      const bonus = calculateBonus(product, isFirstPurchase);
-      finalQuantity = bonus.total;
+    if (offer.discountPercentage > 0) {
+      metadata.discount_percentage = offer.discountPercentage;
+    }
+    if (offer.promotionIds.length) {
+      metadata.promotion_ids = offer.promotionIds;
+    }
+    if (promoDiscount && offer.couponPercentage > 0) {
+      metadata.promo_code = promoDiscount.code;
+      metadata.promo_redemption_id = promoDiscount.redemptionId;
+      metadata.coupon_percentage = offer.couponPercentage;
+    }
+
+    if (isShopPackage(product)) {
       metadata = {
         ...metadata,
         base_diamonds: product.diamonds,
-        bonus_diamonds: bonus.bonus,
-        bonus_type: bonus.type
+        bonus_diamonds: offer.bonus,
+        bonus_type: offer.bonusType
       };
     }
 
@@ -1243,6 +1247,8 @@ async function handleCreateOrder(req: ApiRequest, res: ApiResponse, body: any):
         order_type: productType,
         product_name: product.name,
         amount: expectedAmount,
+        currency: offer.currency,
+        reporting_amount: offer.reportingPrice,
         quantity: finalQuantity,
         payment_method: paymentMethod,
         status: 'pending',
@@ -1266,32 +1272,43 @@ async function handleCreateOrder(req: ApiRequest, res: ApiResponse, body: any):
 
     console.log('✅ Order created:', order.id);
 
+    // Reserva o cupom; se outra ordem simultânea já o pegou, esta é cancelada
+    if (promoDiscount && offer.couponPercentage > 0 && !await reservePromoDiscount(promoDiscount, order.id)) {
+      await supabase
+        .from('shop_orders')
+        .update({ status: 'cancelled' })
+        .eq('id', order.id);
+
+      if (idempotencyKey) {
+        await updateIdempotencyKey(supabase, idempotencyKey, 'failed',
+          { error: 'Promo discount changed. Please try again.' }, 409);
+      }
+      return res.status(409).json({ error: 'Promo discount changed. Please try again.' });
+    }
+
     // Criar checkout URL baseado no método de pagamento
     let checkoutUrl = null;
 
     try {
       console.log('🔄 Criando checkout para método:', paymentMethod);
       
-      switch (paymentMethod) {
-        case 'stripe':
-          console.log('🔄 Criando Stripe checkout...');
-          checkoutUrl = await createStripeCheckout(order, product, userId);
-          console.log('✅ Stripe checkout criado:', checkoutUrl ? 'URL gerada' : 'sem URL');
-          break;
-        case 'mercadopago':
-          console.log('🔄 Criando MercadoPago checkout...');
-          checkoutUrl = await createMercadoPagoCheckout(order, product, userId);
-          console.log('✅ MercadoPago checkout criado:', checkoutUrl ? 'URL gerada' : 'sem URL');
-          break;
-        case 'nowpayments':
-          console.log('🔄 Criando NOWPayments checkout...');
-          checkoutUrl = await createNOWPaymentsCheckout(order, product, userId);
-          console.log('✅ NOWPayments checkout criado:', checkoutUrl ? 'URL gerada' : 'sem URL');
-          break;
-        default:
-          console.error('❌ Método de pagamento inválido:', paymentMethod);
-          return res.status(400).json({ error: 'Invalid payment method' });
+      const checkout = await gateway.createCheckout(order, {
+        id: product.id,
+        name: isShopPackage(product) ? product.name : product.displayName,
+        // Os Price IDs da Stripe são em USD sem desconto; fora disso o gateway cobra o valor da ordem
+        priceId: offer.discountPercentage > 0 || offer.couponPercentage > 0 || offer.currency !== 'USD' ? null : product.stripePriceId || null,
+        duration: isShopPackage(product) ? undefined : product.duration
+      }, userId);
+      checkoutUrl = checkout.url;
+
+      if (checkout.paymentId) {
+        await supabase
+          .from('shop_orders')
+          .update({ payment_id: checkout.paymentId })
+          .eq('id', order.id);
       }
+
+      console.log(`✅ Checkout ${gateway.id} criado:`, checkoutUrl ? 'URL gerada' : 'sem URL');
     } catch (checkoutError) {
       console.error('❌ Erro ao criar checkout:', checkoutError);
       
@@ -1318,13 +1335,18 @@ async function handleCreateOrder(req: ApiRequest, res: ApiResponse, body: any):
       orderId: order.id, 
       productId, 
       productType, 
-      paymentMethod 
+      paymentMethod,
+      currency: offer.currency,
+      amount: expectedAmount,
+      ...(metadata.promo_code ? { promoCode: metadata.promo_code } : {})
     }, req).catch(() => {});
 
     const successResult = {
       success: true,
       orderId: order.id,
       checkoutUrl,
+      currency: offer.currency,
+      amount: expectedAmount,
       expiresAt: expiresAt.toISOString()
     };
 
@@ -1353,357 +1375,462 @@ async function handleCreateOrder(req: ApiRequest, res: ApiResponse, body: any):
 // WEBHOOK HANDLER
 // ============================================================
 
-// ============================================================
-// WEBHOOK HANDLER - VERSÃO CORRIGIDA
-// ============================================================
+/**
+ * Ordem de uma notificação sem referência (MercadoPago): procura uma ordem
+ * pendente do gateway com o mesmo valor, desempatando pelo e-mail do pagador.
+ * Só serve para pagamentos; estornos nunca usam essa correspondência.
+ */
+async function findPendingOrderByAmount(
+  gateway: string,
+  { amount, payerEmail }: { amount: number; payerEmail?: string | null }
+): Promise<string | null> {
+  console.warn('⚠️ Order ID não encontrado na notificação; tentando correspondência por valor...');
+
+  const { data: candidates, error: findError } = await supabase
+    .from('shop_orders')
+    .select('id, user_id, amount, payment_method, status, metadata, expires_at, updated_at')
+    .eq('payment_method', gateway)
+    .eq('status', 'pending')
+    .eq('amount', normalizeNumber(amount, 0))
+    .gte('expires_at', new Date().toISOString())
+    .order('updated_at', { ascending: false })
+    .limit(5);
+
+  if (findError) {
+    console.error('❌ Erro ao buscar ordens candidatas:', findError.message);
+  }
+
+  if (!Array.isArray(candidates) || !candidates.length) {
+    console.warn('⚠️ Nenhuma ordem pendente correspondente ao valor foi encontrada');
+    return null;
+  }
+
+  let matched = candidates[0];
+
+  if (payerEmail && candidates.length > 1) {
+    try {
+      const { data: emailUsers, error: emailErr } = await supabase.auth.admin.listUsers();
+      if (!emailErr && emailUsers?.users) {
+        const emailUser = emailUsers.users.find(u => u.email === payerEmail);
+        if (emailUser?.id) {
+          const emailUserId = emailUser.id;
+          matched = candidates.find(c => c.user_id === emailUserId) || matched;
+        }
+      }
+    } catch (e) {
+      console.warn('⚠️ Falha ao consultar usuário por email:', e instanceof Error ? e.message : e);
+    }
+  }
+
+  console.log('✅ Ordem correspondente encontrada por valor/email:', matched.id);
+  return matched.id;
+}
+
+// Status intermediários vindos do gateway (só alteram ordens ainda pendentes)
+const PENDING_EVENT_STATUSES: Partial<Record<PaymentEventType, string>> = {
+  failed: 'failed',
+  pending: 'pending',
+  cancelled: 'cancelled'
+};
+
+/**
+ * Aplica um evento normalizado do gateway na ordem: crédito, estorno ou
+ * mudança de status da ordem pendente.
+ */
+async function applyPaymentEvent(gateway: PaymentGatewayId, event: PaymentEvent, ip: string): Promise<void> {
+  const isReversal = event.type === 'refunded' || event.type === 'disputed';
+  let orderId = event.orderId;
+
+  if (!orderId && event.paymentIntentId) {
+    orderId = await findOrderIdByPaymentIntent(gateway, event.paymentIntentId);
+  }
+  // Correspondência por valor só encontra ordens pendentes: nunca usar para estornos
+  if (!orderId && event.match && !isReversal) {
+    orderId = await findPendingOrderByAmount(gateway, event.match);
+  }
+
+  const log = createSecureLog({
+    action: `${gateway.toUpperCase()}_PAYMENT_${event.type.toUpperCase()}`,
+    ip,
+    statusCode: 200,
+    isSecurityEvent: event.type === 'disputed',
+    details: {
+      orderId,
+      paymentId: event.paymentId,
+      amount: event.amount,
+      currency: event.currency,
+      reason: event.reason
+    }
+  });
+  console.log(isReversal ? '🚨' : '✅', JSON.stringify(log));
+
+  if (!orderId) {
+    console.warn('⚠️ Order not found for payment event:', { gateway, type: event.type, paymentId: event.paymentId });
+    return;
+  }
+
+  if (event.type === 'paid') {
+    console.log('✅ Pagamento aprovado, processando ordem:', orderId);
+    await processSuccessfulPayment(orderId, { gateway, payment: event });
+    return;
+  }
+
+  if (isReversal) {
+    if (event.partial) {
+      // Reembolso parcial: sem estorno automático, fica para revisão manual
+      console.warn('⚠️ Partial refund, manual review needed:', { orderId, gateway, details: event.details });
+      return;
+    }
+
+    await reverseOrderPayment(orderId, event.type as ReversalStatus, {
+      gateway,
+      reason: event.reason || event.type,
+      details: { payment_id: event.paymentId, ...event.details }
+    });
+    return;
+  }
+
+  const nextStatus = PENDING_EVENT_STATUSES[event.type];
+  if (!nextStatus) return;
+
+  console.log(`ℹ️ Pagamento ${event.type}:`, orderId);
+  await supabase
+    .from('shop_orders')
+    .update({
+      status: nextStatus,
+      metadata: event.type === 'failed'
+        ? { rejection_reason: event.reason }
+        : { payment_status: event.type, status_detail: event.reason },
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', orderId)
+    .eq('status', 'pending');
+}
 
 async function handleWebhook(req: ApiRequest, res: ApiResponse, { rawBody, parsedBody }: { rawBody?: Buffer | null; parsedBody?: any } = {}): Promise<void> {
+  let deliveryId: string | null = null;
   try {
-    const gateway = req.query?.gateway || 'stripe';
+    const gatewayParam = req.query?.gateway || 'stripe';
     const ip = getIdentifier(req);
 
-    console.log('🔔 Webhook received from:', gateway, '| IP:', ip);
-
-    // ============================================================
-    // STRIPE WEBHOOK
-    // ============================================================
-    if (gateway === 'stripe') {
-      const sig = req.headers?.['stripe-signature'];
-      const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+    console.log('🔔 Webhook received from:', gatewayParam, '| IP:', ip);
 
-      if (!webhookSecret) {
-        console.error('❌ Stripe webhook secret not configured');
-        return res.status(500).json({ error: 'Webhook secret not configured' });
-      }
+    const gateway = getPaymentGateway(gatewayParam);
+    if (!gateway) {
+      return res.status(400).json({ error: 'Invalid gateway' });
+    }
 
-      if (!sig) {
-        console.error('❌ [Stripe] Missing signature header');
-        securityMonitor.recordWebhookFailure();
-        return res.status(400).json({ error: 'Missing signature header' });
-      }
+    const webhookRequest: WebhookRequest = {
+      headers: req.headers || {},
+      query: req.query || {},
+      rawBody: rawBody || (await getRawBody(req)),
+      body: parsedBody && Object.keys(parsedBody).length ? parsedBody : {}
+    };
 
-      let event;
-      try {
-        const payload = rawBody || (await getRawBody(req));
+    const verification = await gateway.verifyWebhook(webhookRequest);
+    if (!verification.valid) {
+      console.error(`❌ [${gateway.id}] Webhook verification failed:`, verification.error);
+      securityMonitor.recordWebhookFailure();
 
-        if (!payload || !payload.length) {
-          console.error('❌ Missing raw body for Stripe webhook');
-          securityMonitor.recordWebhookFailure();
-          return res.status(400).json({ error: 'Missing payload' });
-        }
-
-        event = stripe.webhooks.constructEvent(payload, sig as string, webhookSecret);
-      } catch (err) {
-        const error = err as any;
-        console.error('❌ Webhook signature verification failed:', error.message);
-        securityMonitor.recordWebhookFailure();
+      if (verification.securityEvent) {
         const log = createSecureLog({
-          action: 'STRIPE_WEBHOOK_INVALID_SIGNATURE',
+          action: `${gateway.id.toUpperCase()}_WEBHOOK_INVALID_SIGNATURE`,
           ip,
-          statusCode: 400,
+          statusCode: verification.status || 400,
           isSecurityEvent: true
         });
         console.log('🚨', JSON.stringify(log));
-        return res.status(400).json({ error: 'Invalid signature' });
       }
+      return res.status(verification.status || 400).json({ error: verification.error || 'Invalid webhook' });
+    }
 
-      // Replay attack protection
-      if (await webhookReplayProtection.hasBeenProcessed(event.id, supabase)) {
-        console.warn('⚠️ Stripe webhook already processed:', event.id);
-        securityMonitor.recordWebhookFailure();
+    // Replay attack protection
+    if (verification.deliveryId) {
+      if (await webhookReplayProtection.hasBeenProcessed(verification.deliveryId, supabase)) {
+        console.warn(`⚠️ [${gateway.id}] Webhook already processed:`, verification.deliveryId);
         return res.status(200).json({ received: true, duplicate: true });
       }
+      await webhookReplayProtection.markAsProcessed(verification.deliveryId, supabase);
+      deliveryId = verification.deliveryId;
+    }
 
-      console.log('✅ Stripe webhook verified:', event.type);
-      await webhookReplayProtection.markAsProcessed(event.id, supabase);
-
-      if (event.type === 'checkout.session.completed') {
-        const session = event.data.object;
-        const orderId = session.metadata?.order_id || session.client_reference_id;
+    const events = await gateway.parseWebhook(webhookRequest);
+    for (const event of events) {
+      await applyPaymentEvent(gateway.id, event, ip);
+    }
 
-        const log = createSecureLog({
-          action: 'STRIPE_PAYMENT_COMPLETED',
-          userId: session.metadata?.user_id,
-          ip,
-          statusCode: 200,
-          details: {
-            sessionId: session.id,
-            orderId,
-            amount: session.amount_total,
-            currency: session.currency
-          }
-        });
-        console.log('✅', JSON.stringify(log));
+    // IMPORTANTE: Sempre retornar 200 para o gateway
+    // Caso contrário ele vai ficar reenviando o webhook
+    return res.status(200).json({ received: true });
 
-        if (orderId) {
-          await processSuccessfulPayment(orderId, { gateway: 'stripe', paymentDetails: session });
-        } else {
-          console.warn('⚠️ Order ID not found in Stripe session metadata');
-        }
-      } else {
-        console.log('ℹ️ Ignoring Stripe webhook event type:', event.type);
-      }
+  } catch (error) {
+    console.error('❌ Webhook error:', error);
 
-      return res.status(200).json({ received: true });
+    // Falha ao consultar o gateway: 5xx para ele reenviar a notificação, e a
+    // entrega deixa de contar como processada para o reenvio passar
+    if (error instanceof PaymentGatewayError) {
+      securityMonitor.recordWebhookFailure();
+      if (deliveryId) await webhookReplayProtection.unmarkProcessed(deliveryId, supabase);
+      return res.status(error.status).json({ error: error.message });
     }
 
-    // ============================================================
-    // MERCADOPAGO WEBHOOK - CORRIGIDO
-    // ============================================================
-    else if (gateway === 'mercadopago') {
-      const notification = parsedBody && Object.keys(parsedBody).length ? parsedBody : {};
-      const topic = (req.query?.topic || req.query?.type || notification.type || '').toLowerCase();
-      const notificationId = req.query?.id || notification.id;
-      
-      // Signature verification (optional but recommended)
-      const xSignature = req.headers?.['x-signature'] as string;
-      const webhookSecret = process.env.MERCADOPAGO_WEBHOOK_SECRET;
-      
-      if (webhookSecret && xSignature && notification.id && notification.topic) {
-        const isValid = verifyMercadoPagoSignature(notification, xSignature, webhookSecret);
-        if (!isValid) {
-          console.error('❌ MercadoPago signature verification failed');
-          securityMonitor.recordWebhookFailure();
-          const log = createSecureLog({
-            action: 'MERCADOPAGO_WEBHOOK_INVALID_SIGNATURE',
-            ip,
-            statusCode: 400,
-            isSecurityEvent: true
-          });
-          console.log('🚨', JSON.stringify(log));
-          return res.status(400).json({ error: 'Invalid signature' });
-        }
-      }
+    // IMPORTANTE: Mesmo com erro, retornar 200 para evitar retentativas infinitas
+    // O erro já foi logado, então podemos investigar depois
+    return res.status(200).json({ 
+      received: true, 
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
 
-      // Replay attack protection
-      const webhookUniqueId = `mp_${notification.id}_${notificationId}`;
-      if (await webhookReplayProtection.hasBeenProcessed(webhookUniqueId, supabase)) {
-        console.warn('⚠️ MercadoPago notification already processed:', webhookUniqueId);
-        return res.status(200).json({ received: true, duplicate: true });
-      }
-      await webhookReplayProtection.markAsProcessed(webhookUniqueId, supabase);
+// ============================================================
+// SUBSCRIPTION LIFECYCLE (DAILY DIAMONDS, EXPIRY, REMINDERS)
+// ============================================================
+// Os diamantes diários são creditados uma única vez por dia (UTC): a linha
+// (user_id, claim_date) em `subscription_daily_claims` é única, então o job
+// diário (scripts/email-queue-processor.ts) e a action manual `claimDaily`
+// nunca creditam o mesmo dia duas vezes.
+
+const SUBSCRIPTION_REMINDER_DAYS = 3;
+const SUBSCRIPTION_BATCH_SIZE = 500;
+
+interface SubscriberRow {
+  user_id: string;
+  username: string | null;
+  active_subscription: string;
+  subscription_expires_at: string;
+  subscription_reminder_sent_for: string | null;
+}
 
-      // MercadoPago envia diferentes tipos de notificação
-      // Tipo 'payment' é o que nos interessa
-      if (topic === 'payment' || notification.type === 'payment') {
-        const paymentId = notification.data?.id || notificationId;
-        
-        if (!paymentId) {
-          console.warn('⚠️ Payment ID não encontrado na notificação');
-          return res.status(200).json({ received: true });
-        }
+interface SubscriptionJobResult {
+  expired: number;
+  credited: number;
+  reminders: number;
+  failed: number;
+}
 
-        console.log('🔍 Buscando detalhes do pagamento:', paymentId);
+function getUtcDay(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
 
-        // Buscar detalhes completos do pagamento
-        const accessToken = process.env.MERCADOPAGO_ACCESS_TOKEN;
-        
-        if (!accessToken) {
-          console.error('❌ MercadoPago access token not configured');
-          securityMonitor.recordWebhookFailure();
-          return res.status(500).json({ error: 'Access token not configured' });
-        }
+function getNextUtcDay(date: Date = new Date()): string {
+  const next = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1));
+  return next.toISOString();
+}
 
-        const paymentResponse = await fetch(
-          `https://api.mercadopago.com/v1/payments/${paymentId}`,
-          {
-            headers: {
-              'Authorization': `Bearer ${accessToken}`
-            }
-          }
-        );
-
-        if (!paymentResponse.ok) {
-          console.error('❌ Erro ao buscar pagamento:', paymentResponse.status);
-          securityMonitor.recordWebhookFailure();
-          return res.status(500).json({ error: 'Failed to fetch payment' });
-        }
+/**
+ * Credita os diamantes diários da assinatura. Retorna null se o dia já foi
+ * creditado; desfaz o registro do dia se o crédito falhar.
+ */
+async function creditSubscriptionDailyDiamonds(
+  userId: string,
+  subscription: ShopSubscription,
+  req?: ApiRequest
+): Promise<{ diamonds: number; newDiamonds: number } | null> {
+  const claimDate = getUtcDay();
+
+  const { error: claimError } = await supabase
+    .from('subscription_daily_claims')
+    .insert({
+      user_id: userId,
+      claim_date: claimDate,
+      subscription: subscription.id,
+      diamonds: subscription.dailyDiamonds,
+      created_at: new Date().toISOString()
+    });
 
-        const payment: any = await paymentResponse.json();
-        
-        const log = createSecureLog({
-          action: 'MERCADOPAGO_PAYMENT_RECEIVED',
-          ip,
-          statusCode: 200,
-          details: {
-            paymentId: payment.id,
-            status: payment.status,
-            amount: payment.transaction_amount
-          }
-        });
-        console.log('✅', JSON.stringify(log));
-
-        let orderId = payment.external_reference;
-
-        if (!orderId) {
-          console.warn('⚠️ Order ID (external_reference) não encontrado; tentando correspondência por valor...');
-
-          const amountPaid = normalizeNumber(payment.transaction_amount, 0);
-
-          const { data: candidates, error: findError } = await supabase
-            .from('shop_orders')
-            .select('id, user_id, amount, payment_method, status, metadata, expires_at, updated_at')
-            .eq('payment_method', 'mercadopago')
-            .eq('status', 'pending')
-            .eq('amount', amountPaid)
-            .gte('expires_at', new Date().toISOString())
-            .order('updated_at', { ascending: false })
-            .limit(5);
-
-          if (findError) {
-            console.error('❌ Erro ao buscar ordens candidatas:', findError.message);
-          }
-
-          if (Array.isArray(candidates) && candidates.length) {
-            let matched = candidates[0];
-            const payerEmail = payment.payer?.email || payment.additional_info?.payer?.email;
-
-            if (payerEmail && candidates.length > 1) {
-              try {
-                const { data: emailUsers, error: emailErr } = await supabase.auth.admin.listUsers();
-                if (!emailErr && emailUsers?.users) {
-                  const emailUser = emailUsers.users.find(u => u.email === payerEmail);
-                  if (emailUser?.id) {
-                    const emailUserId = emailUser.id;
-                    matched = candidates.find(c => c.user_id === emailUserId) || matched;
-                  }
-                }
-              } catch (e) {
-                console.warn('⚠️ Falha ao consultar usuário por email:', e instanceof Error ? e.message : e);
-              }
-            }
-
-            orderId = matched.id;
-            console.log('✅ Ordem correspondente encontrada por valor/email:', orderId);
-          } else {
-            console.warn('⚠️ Nenhuma ordem pendente correspondente ao valor foi encontrada');
-            return res.status(200).json({ received: true });
-          }
-        }
+  if (claimError) {
+    if (claimError.code === '23505') return null;
+    throw new Error(`Failed to register daily claim: ${claimError.message}`);
+  }
 
-        // Processar baseado no status
-        if (payment.status === 'approved') {
-          console.log('✅ Pagamento aprovado, processando ordem:', orderId);
-          await processSuccessfulPayment(orderId, { gateway: 'mercadopago', paymentDetails: payment });
-        } 
-        else if (payment.status === 'rejected') {
-          console.log('❌ Pagamento rejeitado:', orderId);
-          await supabase
-            .from('shop_orders')
-            .update({ 
-              status: 'failed',
-              metadata: { 
-                rejection_reason: payment.status_detail 
-              },
-              updated_at: new Date().toISOString()
-            })
-            .eq('id', orderId);
-        }
-        else if (payment.status === 'pending' || payment.status === 'in_process') {
-          console.log('⏳ Pagamento pendente:', orderId);
-          await supabase
-            .from('shop_orders')
-            .update({ 
-              status: 'pending',
-              metadata: { 
-                payment_status: payment.status,
-                status_detail: payment.status_detail
-              },
-              updated_at: new Date().toISOString()
-            })
-            .eq('id', orderId);
-        }
-        else if (payment.status === 'cancelled' || payment.status === 'refunded') {
-          console.log('🔄 Pagamento cancelado/reembolsado:', orderId);
-          await supabase
-            .from('shop_orders')
-            .update({ 
-              status: 'cancelled',
-              metadata: { 
-                payment_status: payment.status 
-              },
-              updated_at: new Date().toISOString()
-            })
-            .eq('id', orderId);
-        }
-      }
+  try {
+    const newDiamonds = await updatePlayerDiamonds(
+      supabase,
+      userId,
+      subscription.dailyDiamonds,
+      `Daily subscription diamonds: ${subscription.name}`,
+      false,
+      req as any
+    );
+    return { diamonds: subscription.dailyDiamonds, newDiamonds };
+  } catch (error) {
+    await supabase
+      .from('subscription_daily_claims')
+      .delete()
+      .eq('user_id', userId)
+      .eq('claim_date', claimDate);
+    throw error;
+  }
+}
 
-      // Algumas integrações do MercadoPago enviam merchant_order em vez de payment
-      else if (topic === 'merchant_order') {
-        if (!notificationId) {
-          console.warn('⚠️ Merchant order id não informado');
-          return res.status(200).json({ received: true });
-        }
+async function handleClaimDaily(req: ApiRequest, res: ApiResponse, body: any): Promise<void> {
+  const { userId, authToken } = body || {};
 
-        const accessToken = process.env.MERCADOPAGO_ACCESS_TOKEN;
-        if (!accessToken) {
-          console.error('❌ MercadoPago access token not configured');
-          return res.status(500).json({ error: 'Access token not configured' });
-        }
+  if (!userId || !authToken) {
+    return res.status(400).json({ error: 'Missing required fields' });
+  }
 
-        const merchantOrderResponse = await fetch(
-          `https://api.mercadopago.com/merchant_orders/${notificationId}`,
-          {
-            headers: {
-              'Authorization': `Bearer ${accessToken}`
-            }
-          }
-        );
-
-        if (!merchantOrderResponse.ok) {
-          console.error('❌ Erro ao buscar merchant_order:', merchantOrderResponse.status);
-          return res.status(200).json({ received: true });
-        }
+  const session = await validateSessionAndFetchPlayerStats(
+    supabase,
+    authToken,
+    userId,
+    { select: 'active_subscription, subscription_expires_at' }
+  );
+  if (!session.valid) {
+    return res.status(401).json({ error: session.error || 'Invalid session' });
+  }
 
-        const merchantOrder: any = await merchantOrderResponse.json();
+  const csrfValidation = await validateCsrfMiddleware(supabase, req, userId);
+  if (!csrfValidation.valid) {
+    console.warn('⚠️ CSRF validation failed:', { userId, error: csrfValidation.error });
+    logAudit(supabase, userId, 'CSRF_VALIDATION_FAILED', { action: 'claimDaily' }, req as any).catch(() => {});
+    return res.status(403).json({ error: 'Security validation failed' });
+  }
 
-        const orderId = merchantOrder.external_reference;
-        const approvedPayment = merchantOrder.payments?.find((p: any) => p.status === 'approved');
+  const stats = session.stats as any;
+  const subscription = findShopSubscription(await getActiveShopCatalog(), stats?.active_subscription);
+  const expiresAt = stats?.subscription_expires_at ? new Date(stats.subscription_expires_at) : null;
+  if (!subscription || !expiresAt || expiresAt <= new Date()) {
+    return res.status(400).json({ error: 'NO_ACTIVE_SUBSCRIPTION' });
+  }
 
-        if (orderId && approvedPayment?.id) {
-          console.log('✅ Merchant order aprovado, processando ordem:', orderId);
-          await processSuccessfulPayment(orderId, { gateway: 'mercadopago', paymentDetails: approvedPayment });
-        } else {
-          console.log('ℹ️ Merchant order sem pagamento aprovado ainda:', { orderId, payments: merchantOrder.payments?.length });
-        }
-      }
+  const credited = await creditSubscriptionDailyDiamonds(userId, subscription, req);
+  if (!credited) {
+    return res.status(400).json({ error: 'ALREADY_CLAIMED_TODAY', nextClaimAt: getNextUtcDay() });
+  }
+
+  logAudit(supabase, userId, 'SUBSCRIPTION_DAILY_CLAIMED', {
+    subscription: subscription.id,
+    diamonds: credited.diamonds,
+    source: 'manual'
+  }, req as any).catch(() => {});
+
+  return res.status(200).json({
+    success: true,
+    diamonds: credited.diamonds,
+    newDiamonds: credited.newDiamonds,
+    nextClaimAt: getNextUtcDay()
+  });
+}
 
-      // IMPORTANTE: Sempre retornar 200 para o MercadoPago
-      // Caso contrário ele vai ficar reenviando o webhook
-      return res.status(200).json({ received: true });
+async function fetchSubscribers(
+  applyFilter: (query: any) => any
+): Promise<SubscriberRow[]> {
+  const rows: SubscriberRow[] = [];
+
+  for (let from = 0; ; from += SUBSCRIPTION_BATCH_SIZE) {
+    const { data, error } = await applyFilter(
+      supabase
+        .from('player_stats')
+        .select('user_id, username, active_subscription, subscription_expires_at, subscription_reminder_sent_for')
+        .not('active_subscription', 'is', null)
+    )
+      .order('user_id', { ascending: true })
+      .range(from, from + SUBSCRIPTION_BATCH_SIZE - 1);
+
+    if (error) throw new Error(`Failed to load subscribers: ${error.message}`);
+    rows.push(...((data || []) as SubscriberRow[]));
+    if (!data || data.length < SUBSCRIPTION_BATCH_SIZE) break;
+  }
+
+  return rows;
+}
+
+/**
+ * Job diário: expira assinaturas vencidas, credita os diamantes do dia das
+ * ativas e enfileira o lembrete de renovação (uma vez por período).
+ */
+export async function runSubscriptionLifecycleJob(): Promise<SubscriptionJobResult> {
+  const result: SubscriptionJobResult = { expired: 0, credited: 0, reminders: 0, failed: 0 };
+  const nowIso = new Date().toISOString();
+  const catalog = await getActiveShopCatalog();
+
+  // 1) Expirar (lock em subscription_expires_at: uma renovação no meio não é perdida)
+  const expiredRows = await fetchSubscribers(query => query.lte('subscription_expires_at', nowIso));
+  for (const row of expiredRows) {
+    const product = findShopSubscription(catalog, row.active_subscription);
+    const { data, error } = await supabase
+      .from('player_stats')
+      .update({
+        active_subscription: null,
+        ...(product?.battlepass ? { battlepass: false } : {}),
+        updated_at: new Date().toISOString()
+      })
+      .eq('user_id', row.user_id)
+      .eq('subscription_expires_at', row.subscription_expires_at)
+      .select('user_id');
+
+    if (error) {
+      console.error('❌ Failed to expire subscription:', maskUserId(row.user_id), error.message);
+      result.failed++;
+      continue;
     }
+    if (data && data.length > 0) {
+      result.expired++;
+      logAudit(supabase, row.user_id, 'SUBSCRIPTION_EXPIRED', {
+        subscription: row.active_subscription,
+        expiresAt: row.subscription_expires_at
+      }).catch(() => {});
+    }
+  }
 
-    // ============================================================
-    // NOWPAYMENTS WEBHOOK
-    // ============================================================
-    else if (gateway === 'nowpayments') {
-      const data = parsedBody && Object.keys(parsedBody).length ? parsedBody : {};
-      
-      console.log('🪙 NOWPayments webhook data:', data);
+  const activeRows = await fetchSubscribers(query => query.gt('subscription_expires_at', nowIso));
+  const reminderLimit = Date.now() + SUBSCRIPTION_REMINDER_DAYS * 24 * 60 * 60 * 1000;
 
-      if (data.payment_status === 'finished') {
-        const orderId = data.order_id;
-        if (orderId) {
-          await processSuccessfulPayment(orderId, { gateway: 'nowpayments', paymentDetails: data });
-        }
+  for (const row of activeRows) {
+    const product = findShopSubscription(catalog, row.active_subscription);
+    if (!product) continue;
+
+    // 2) Diamantes diários
+    try {
+      const credited = await creditSubscriptionDailyDiamonds(row.user_id, product);
+      if (credited) {
+        result.credited++;
+        logAudit(supabase, row.user_id, 'SUBSCRIPTION_DAILY_CLAIMED', {
+          subscription: product.id,
+          diamonds: credited.diamonds,
+          source: 'scheduled'
+        }).catch(() => {});
       }
+    } catch (error) {
+      console.error('❌ Failed to credit daily diamonds:', maskUserId(row.user_id), error instanceof Error ? error.message : error);
+      result.failed++;
+    }
 
-      return res.status(200).json({ received: true });
+    // 3) Lembrete de renovação
+    const expiresAtMs = Date.parse(row.subscription_expires_at);
+    if (expiresAtMs > reminderLimit || row.subscription_reminder_sent_for === row.subscription_expires_at) {
+      continue;
     }
 
-    // Gateway inválido
-    return res.status(400).json({ error: 'Invalid gateway' });
+    try {
+      const { data: { user }, error: userError } = await supabase.auth.admin.getUserById(row.user_id);
+      if (userError || !user?.email) continue;
+
+      const queued = await queueSubscriptionReminderEmail({
+        to: user.email,
+        userName: row.username || 'Player',
+        subscriptionName: product.name,
+        expiresAt: row.subscription_expires_at
+      });
+      if (!queued) {
+        result.failed++;
+        continue;
+      }
 
-  } catch (error) {
-    console.error('❌ Webhook error:', error);
-    
-    // IMPORTANTE: Mesmo com erro, retornar 200 para evitar retentativas infinitas
-    // O erro já foi logado, então podemos investigar depois
-    return res.status(200).json({ 
-      received: true, 
-      error: error instanceof Error ? error.message : String(error)
-    });
+      await supabase
+        .from('player_stats')
+        .update({ subscription_reminder_sent_for: row.subscription_expires_at })
+        .eq('user_id', row.user_id);
+      result.reminders++;
+    } catch (error) {
+      console.error('❌ Failed to queue subscription reminder:', maskUserId(row.user_id), error instanceof Error ? error.message : error);
+      result.failed++;
+    }
   }
+
+  return result;
 }
 
 // ============================================================
@@ -1719,6 +1846,7 @@ export default async function handler(req: ApiRequest, res: ApiResponse): Promis
   }
 
   const isWebhookPath = req.path?.includes('/webhooks/shop') || req.url?.includes('/api/webhooks/shop');
+  const isSandboxPath = req.path?.includes('/sandbox/shop') || req.url?.includes('/api/sandbox/shop');
 
   // Read raw body once for both normal requests (when body parser is disabled) and webhooks.
   const rawBody = await getRawBody(req);
@@ -1730,6 +1858,11 @@ export default async function handler(req: ApiRequest, res: ApiResponse): Promis
     return handleWebhook(req, res, { rawBody, parsedBody });
   }
 
+  // Checkout hospedado do gateway sandbox (GET mostra, POST paga/recusa)
+  if (isSandboxPath) {
+    return handleSandboxCheckout(req, res, { rawBody, parsedBody });
+  }
+
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -1774,6 +1907,12 @@ export default async function handler(req: ApiRequest, res: ApiResponse): Promis
       retryAfter: Math.ceil((rateLimitCheck.remainingTime || 60000) / 1000)
     });
   }
+
+  // Catálogo é leitura pública: fora do limite estrito de criação de ordens
+  if (action === 'getCatalog') {
+    return handleGetCatalog(req, res);
+  }
+
   const { maxRequests, windowMs } = getShopRateLimitConfig();
 
   const now = Date.now();
@@ -1793,6 +1932,8 @@ export default async function handler(req: ApiRequest, res: ApiResponse): Promis
     switch (action) {
       case 'createOrder':
         return await handleCreateOrder(req, res, parsedBody);
+      case 'claimDaily':
+        return await handleClaimDaily(req, res, parsedBody);
       default:
         return res.status(400).json({ error: 'Invalid action' });
     }
@@ -51,6 +51,13 @@ interface EmailTemplateData {
   message: string;
 }
 
+interface SubscriptionReminderData {
+  to: string;
+  userName: string;
+  subscriptionName: string;
+  expiresAt: string;
+}
+
 interface SendEmailOptions {
   to: string;
   subject: string;
@@ -210,6 +217,61 @@ ${message}
   `;
 }
 
+function escapeEmailHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function generateSubscriptionReminderTemplate({ userName, subscriptionName, expiresAt }: Omit<SubscriptionReminderData, 'to'>): string {
+  const expiresLabel = new Date(expiresAt).toLocaleString('en-US', { timeZone: 'America/Sao_Paulo' });
+  return `
+<!DOCTYPE html>
+<html lang="en-US">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Your LootSkirmish subscription is ending soon</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background-color: #0f172a; color: #e2e8f0;">
+  <div style="max-width: 600px; margin: 0 auto; background-color: #1e293b; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.3);">
+
+    <!-- Header -->
+    <div style="background: linear-gradient(135deg, #8b5cf6 0%, #7c3aed 100%); padding: 32px 24px; text-align: center;">
+      <h1 style="margin: 0; font-size: 28px; font-weight: 700; color: #ffffff; text-shadow: 0 2px 4px rgba(0, 0, 0, 0.2);">
+        💎 LootSkirmish Premium
+      </h1>
+    </div>
+
+    <!-- Content -->
+    <div style="padding: 32px 24px;">
+      <p style="margin: 0 0 16px; font-size: 15px; color: #e2e8f0;">Hi ${escapeEmailHtml(userName)},</p>
+      <div style="background-color: #334155; border-left: 4px solid #8b5cf6; padding: 16px; border-radius: 8px; margin-bottom: 24px;">
+        <p style="margin: 0; font-size: 14px; color: #cbd5e1; line-height: 1.6;">
+          Your <strong style="color: #f1f5f9;">${escapeEmailHtml(subscriptionName)}</strong> expires on
+          <strong style="color: #8b5cf6;">${expiresLabel}</strong>. After that, your daily diamonds stop.
+        </p>
+      </div>
+      <p style="margin: 0; font-size: 13px; color: #94a3b8; line-height: 1.5;">
+        Renew it anytime from the Shop to keep your perks.
+      </p>
+    </div>
+
+    <!-- Footer -->
+    <div style="background-color: #0f172a; padding: 20px 24px; text-align: center; border-top: 1px solid #334155;">
+      <p style="margin: 0; font-size: 12px; color: #64748b;">
+        © ${new Date().getFullYear()} LootSkirmish. Automatic subscription reminder.
+      </p>
+    </div>
+
+  </div>
+</body>
+</html>
+  `;
+}
+
 // ============================================================
 // DAILY COUNTER MANAGEMENT
 // ============================================================
@@ -562,6 +624,24 @@ export async function sendOrQueueSupportEmail({
   }
 }
 
+// ============================================================
+// SUBSCRIPTION REMINDERS
+// ============================================================
+
+/**
+ * Enfileira o lembrete de expiração da assinatura; enviado pelo
+ * processEmailQueue junto com os demais emails, respeitando o limite diário.
+ */
+export async function queueSubscriptionReminderEmail({ to, userName, subscriptionName, expiresAt }: SubscriptionReminderData): Promise<boolean> {
+  const queued = await addToQueue({
+    tipo: 'subscription_reminder',
+    destinatario: to,
+    assunto: `Your ${subscriptionName} expires soon`,
+    mensagem: generateSubscriptionReminderTemplate({ userName, subscriptionName, expiresAt })
+  });
+  return queued !== null;
+}
+
 // ============================================================
 // PROCESS EMAIL QUEUE
 // ============================================================
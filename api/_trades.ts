@@ -0,0 +1,598 @@
+// ============================================================
+// API/_TRADES.TS - Trocas entre amigos
+// ============================================================
+// Um jogador propõe itens do inventário + dinheiro opcional e pede itens +
+// dinheiro do amigo. Criar a oferta é a confirmação de quem propõe; a troca
+// só é executada quando o destinatário confirma (acceptTrade).
+// A execução é uma única transação na RPC `execute_trade_offer`: trava as
+// linhas de `inventory` e `player_stats` dos dois lados, confere posse dos
+// itens e saldo, troca os user_id e move o dinheiro. Qualquer falha
+// (ITEMS_NOT_OWNED, INSUFFICIENT_FUNDS) aborta sem alterar nada.
+
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import {
+  applyCors,
+  checkRateLimit,
+  getIdentifier,
+  hasDiamondDebt,
+  logAudit,
+  maybeCleanupRateLimits,
+  logMoneyTransactionAsync,
+  validateCsrfMiddleware,
+  validateSessionAndFetchPlayerStats,
+  type RateLimitEntry,
+} from './_utils.js';
+import { checkInventoryCapacity } from './_caseopening.js';
+import { areFriends } from './_profile.js';
+
+dotenv.config();
+
+// ============================================================
+// TYPES
+// ============================================================
+
+interface ApiRequest {
+  method?: string;
+  body?: Record<string, any>;
+  headers?: Record<string, string | string[] | undefined>;
+  connection?: { remoteAddress?: string };
+}
+
+interface ApiResponse {
+  status: (code: number) => ApiResponse;
+  json: (data: any) => void;
+  end: (data?: any) => void;
+  setHeader: (key: string, value: string) => void;
+}
+
+type TradeStatus = 'pending' | 'processing' | 'completed' | 'declined' | 'cancelled' | 'expired' | 'failed';
+
+interface TradeItem {
+  id: string;
+  item_name: string;
+  rarity: string;
+  color: string;
+  value: number;
+}
+
+interface TradeRow {
+  id: string;
+  proposer_id: string;
+  proposer_username: string;
+  recipient_id: string;
+  recipient_username: string;
+  offer_items: TradeItem[];
+  offer_money: number;
+  request_items: TradeItem[];
+  request_money: number;
+  status: TradeStatus;
+  failure_reason: string | null;
+  created_at: string;
+  expires_at: string;
+  resolved_at: string | null;
+}
+
+interface HandlerContext {
+  userId: string;
+  username: string;
+  maxInventory?: number;
+  diamondDebt: number;
+}
+
+class TradeExecutionError extends Error {}
+
+const supabase: SupabaseClient = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const MAX_ITEMS_PER_SIDE = 10;
+const MAX_TRADE_MONEY = 100000;
+const MAX_PENDING_OUTGOING = 5;
+const TRADE_TTL_MS = 24 * 60 * 60 * 1000;
+const HISTORY_LIST_LIMIT = 20;
+
+const ITEM_COLUMNS = 'id, user_id, item_name, rarity, color, value';
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+const rateLimits = new Map<string, RateLimitEntry>();
+let lastRateLimitCleanupAt = 0;
+
+function cleanupRateLimits(): void {
+  lastRateLimitCleanupAt = maybeCleanupRateLimits(rateLimits, lastRateLimitCleanupAt, { maxIdleMs: 15 * 60_000, minIntervalMs: 5 * 60_000 });
+}
+
+function isValidUuid(value: unknown): value is string {
+  return typeof value === 'string' && /^[0-9a-f-]{36}$/i.test(value);
+}
+
+function parseItemIds(raw: unknown): string[] | null {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw) || raw.length > MAX_ITEMS_PER_SIDE) return null;
+  if (!raw.every(isValidUuid)) return null;
+  return new Set(raw).size === raw.length ? raw : null;
+}
+
+function parseMoney(raw: unknown): number | null {
+  if (raw === undefined || raw === null || raw === '') return 0;
+  const amount = Number(raw);
+  if (!Number.isFinite(amount) || amount < 0 || amount > MAX_TRADE_MONEY) return null;
+  return parseFloat(amount.toFixed(2));
+}
+
+function toTradeItem(row: any): TradeItem {
+  return {
+    id: row.id,
+    item_name: row.item_name,
+    rarity: row.rarity,
+    color: row.color,
+    value: Number(row.value) || 0
+  };
+}
+
+function toPublicTrade(trade: TradeRow, userId: string) {
+  return {
+    id: trade.id,
+    direction: trade.proposer_id === userId ? 'outgoing' : 'incoming',
+    proposer: { userId: trade.proposer_id, username: trade.proposer_username },
+    recipient: { userId: trade.recipient_id, username: trade.recipient_username },
+    offerItems: trade.offer_items || [],
+    offerMoney: Number(trade.offer_money) || 0,
+    requestItems: trade.request_items || [],
+    requestMoney: Number(trade.request_money) || 0,
+    status: trade.status,
+    failureReason: trade.failure_reason,
+    createdAt: trade.created_at,
+    expiresAt: trade.expires_at,
+    resolvedAt: trade.resolved_at
+  };
+}
+
+async function fetchTrade(tradeId: string): Promise<TradeRow | null> {
+  const { data, error } = await supabase
+    .from('trade_offers')
+    .select('*')
+    .eq('id', tradeId)
+    .single();
+
+  if (error || !data) return null;
+  return data as TradeRow;
+}
+
+async function fetchOwnedItems(userId: string, itemIds: string[]): Promise<any[] | null> {
+  if (!itemIds.length) return [];
+  const { data, error } = await supabase
+    .from('inventory')
+    .select(ITEM_COLUMNS)
+    .eq('user_id', userId)
+    .in('id', itemIds);
+
+  if (error || !data || data.length !== itemIds.length) return null;
+  return data;
+}
+
+async function fetchMoney(userId: string): Promise<number | null> {
+  const { data } = await supabase
+    .from('player_stats')
+    .select('money')
+    .eq('user_id', userId)
+    .single();
+
+  return typeof data?.money === 'number' ? data.money : null;
+}
+
+/**
+ * Marca como expiradas as ofertas pendentes vencidas do jogador.
+ * Não há cron para isso: roda sempre que a lista é consultada.
+ */
+async function expireStaleTrades(userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('trade_offers')
+    .update({ status: 'expired', resolved_at: new Date().toISOString() })
+    .eq('status', 'pending')
+    .lt('expires_at', new Date().toISOString())
+    .or(`proposer_id.eq.${userId},recipient_id.eq.${userId}`);
+
+  if (error) console.error('⚠️ Failed to expire trades:', error.message);
+}
+
+async function setTradeStatus(trade: TradeRow, from: TradeStatus, to: TradeStatus, failureReason: string | null = null): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('trade_offers')
+    .update({ status: to, failure_reason: failureReason, resolved_at: to === 'pending' ? null : new Date().toISOString() })
+    .eq('id', trade.id)
+    .eq('status', from)
+    .select('id');
+
+  return !error && !!data?.length;
+}
+
+/**
+ * Executa a troca numa transação (RPC `execute_trade_offer`). A oferta já
+ * está em `processing`; a RPC só aplica se os itens ainda pertencem a cada
+ * lado e os saldos cobrem o dinheiro oferecido.
+ */
+async function executeTrade(trade: TradeRow): Promise<void> {
+  const offerMoney = Number(trade.offer_money) || 0;
+  const requestMoney = Number(trade.request_money) || 0;
+  const label = `trade ${trade.id}`;
+
+  const { data, error } = await supabase.rpc('execute_trade_offer', {
+    p_trade_id: trade.id,
+    p_proposer_id: trade.proposer_id,
+    p_recipient_id: trade.recipient_id,
+    p_offer_item_ids: trade.offer_items.map(item => item.id),
+    p_request_item_ids: trade.request_items.map(item => item.id),
+    p_offer_money: offerMoney,
+    p_request_money: requestMoney
+  });
+
+  if (error) {
+    if (error.message?.includes('ITEMS_NOT_OWNED')) throw new TradeExecutionError('TRADE_ITEMS_UNAVAILABLE');
+    if (error.message?.includes('INSUFFICIENT_FUNDS')) throw new TradeExecutionError('INSUFFICIENT_FUNDS');
+    if (error.message?.includes('TRADE_NOT_PROCESSING')) throw new TradeExecutionError('TRADE_NOT_PENDING');
+    throw new Error(`execute_trade_offer failed: ${error.message}`);
+  }
+
+  // Extrato de dinheiro dos dois lados (saldos finais devolvidos pela RPC)
+  const result = Array.isArray(data) ? data[0] : data;
+  const net = offerMoney - requestMoney;
+  if (net !== 0 && typeof result?.proposer_money === 'number' && typeof result?.recipient_money === 'number') {
+    logMoneyTransactionAsync(supabase, trade.proposer_id, -net, `Trade: ${label}`, result.proposer_money);
+    logMoneyTransactionAsync(supabase, trade.recipient_id, net, `Trade: ${label}`, result.recipient_money);
+  }
+}
+
+// ============================================================
+// HANDLERS
+// ============================================================
+
+async function handleListTrades(req: ApiRequest, res: ApiResponse, ctx: HandlerContext): Promise<void> {
+  await expireStaleTrades(ctx.userId);
+
+  const participant = `proposer_id.eq.${ctx.userId},recipient_id.eq.${ctx.userId}`;
+  const [pendingResult, historyResult] = await Promise.all([
+    supabase
+      .from('trade_offers')
+      .select('*')
+      .eq('status', 'pending')
+      .or(participant)
+      .order('created_at', { ascending: false }),
+    supabase
+      .from('trade_offers')
+      .select('*')
+      .in('status', ['completed', 'declined', 'cancelled', 'expired', 'failed'])
+      .or(participant)
+      .order('resolved_at', { ascending: false })
+      .limit(HISTORY_LIST_LIMIT)
+  ]);
+
+  if (pendingResult.error || historyResult.error) {
+    return res.status(500).json({ error: 'Failed to load trades' });
+  }
+
+  const pending = (pendingResult.data || []).map(t => toPublicTrade(t as TradeRow, ctx.userId));
+  return res.status(200).json({
+    incoming: pending.filter(t => t.direction === 'incoming'),
+    outgoing: pending.filter(t => t.direction === 'outgoing'),
+    history: (historyResult.data || []).map(t => toPublicTrade(t as TradeRow, ctx.userId))
+  });
+}
+
+/**
+ * Inventários dos dois lados para montar a oferta.
+ * O do amigo só é visível para amigos.
+ */
+async function handleGetTradeInventories(req: ApiRequest, res: ApiResponse, ctx: HandlerContext): Promise<void> {
+  const { friendId } = req.body || {};
+  if (!isValidUuid(friendId)) {
+    return res.status(400).json({ error: 'Invalid friendId' });
+  }
+  if (!(await areFriends(ctx.userId, friendId))) {
+    return res.status(403).json({ error: 'NOT_FRIENDS' });
+  }
+
+  const [mine, theirs] = await Promise.all([
+    supabase.from('inventory').select(ITEM_COLUMNS).eq('user_id', ctx.userId).order('value', { ascending: false }),
+    supabase.from('inventory').select(ITEM_COLUMNS).eq('user_id', friendId).order('value', { ascending: false })
+  ]);
+
+  if (mine.error || theirs.error) {
+    return res.status(500).json({ error: 'Failed to load inventories' });
+  }
+
+  return res.status(200).json({
+    myItems: (mine.data || []).map(toTradeItem),
+    friendItems: (theirs.data || []).map(toTradeItem)
+  });
+}
+
+async function handleCreateTrade(req: ApiRequest, res: ApiResponse, ctx: HandlerContext): Promise<void> {
+  const { friendId } = req.body || {};
+  const offerIds = parseItemIds(req.body?.offerItemIds);
+  const requestIds = parseItemIds(req.body?.requestItemIds);
+  const offerMoney = parseMoney(req.body?.offerMoney);
+  const requestMoney = parseMoney(req.body?.requestMoney);
+
+  if (!isValidUuid(friendId) || friendId === ctx.userId) {
+    return res.status(400).json({ error: 'Invalid friendId' });
+  }
+  if (!offerIds || !requestIds) {
+    return res.status(400).json({ error: `Select up to ${MAX_ITEMS_PER_SIDE} items per side` });
+  }
+  if (offerMoney === null || requestMoney === null) {
+    return res.status(400).json({ error: 'Invalid money amount' });
+  }
+  if (!offerIds.length && !requestIds.length && !offerMoney && !requestMoney) {
+    return res.status(400).json({ error: 'EMPTY_TRADE' });
+  }
+  if (ctx.diamondDebt > 0) {
+    return res.status(403).json({ error: 'DIAMOND_DEBT' });
+  }
+
+  if (!(await areFriends(ctx.userId, friendId))) {
+    return res.status(403).json({ error: 'NOT_FRIENDS' });
+  }
+
+  const { count: pendingCount } = await supabase
+    .from('trade_offers')
+    .select('id', { count: 'exact', head: true })
+    .eq('proposer_id', ctx.userId)
+    .eq('status', 'pending')
+    .gt('expires_at', new Date().toISOString());
+
+  if ((pendingCount || 0) >= MAX_PENDING_OUTGOING) {
+    return res.status(400).json({ error: 'TOO_MANY_PENDING_TRADES', max: MAX_PENDING_OUTGOING });
+  }
+
+  const [offerItems, requestItems, money, friend] = await Promise.all([
+    fetchOwnedItems(ctx.userId, offerIds),
+    fetchOwnedItems(friendId, requestIds),
+    fetchMoney(ctx.userId),
+    supabase.from('player_stats').select('username').eq('user_id', friendId).single()
+  ]);
+
+  if (!offerItems || !requestItems) {
+    return res.status(409).json({ error: 'TRADE_ITEMS_UNAVAILABLE' });
+  }
+  if (offerMoney > 0 && (money === null || money < offerMoney)) {
+    return res.status(400).json({ error: 'INSUFFICIENT_FUNDS' });
+  }
+
+  const { data: trade, error: insertError } = await supabase
+    .from('trade_offers')
+    .insert({
+      proposer_id: ctx.userId,
+      proposer_username: ctx.username,
+      recipient_id: friendId,
+      recipient_username: friend.data?.username || 'Player',
+      offer_items: offerItems.map(toTradeItem),
+      offer_money: offerMoney,
+      request_items: requestItems.map(toTradeItem),
+      request_money: requestMoney,
+      status: 'pending',
+      expires_at: new Date(Date.now() + TRADE_TTL_MS).toISOString()
+    })
+    .select('*')
+    .single();
+
+  if (insertError || !trade) {
+    console.error('💥 Failed to create trade:', insertError?.message);
+    return res.status(500).json({ error: 'Failed to create trade' });
+  }
+
+  logAudit(supabase, ctx.userId, 'TRADE_CREATED', {
+    tradeId: trade.id,
+    recipientId: friendId,
+    offerItems: offerIds.length,
+    offerMoney,
+    requestItems: requestIds.length,
+    requestMoney
+  }, req as any).catch(() => {});
+
+  return res.status(200).json({ success: true, trade: toPublicTrade(trade as TradeRow, ctx.userId) });
+}
+
+async function handleAcceptTrade(req: ApiRequest, res: ApiResponse, ctx: HandlerContext): Promise<void> {
+  const { tradeId } = req.body || {};
+  if (!isValidUuid(tradeId)) {
+    return res.status(400).json({ error: 'Invalid tradeId' });
+  }
+
+  const trade = await fetchTrade(tradeId);
+  if (!trade) {
+    return res.status(404).json({ error: 'Trade not found' });
+  }
+  if (trade.recipient_id !== ctx.userId) {
+    return res.status(403).json({ error: 'Only the recipient can accept' });
+  }
+  if (trade.status !== 'pending') {
+    return res.status(409).json({ error: 'TRADE_NOT_PENDING' });
+  }
+  if (new Date(trade.expires_at).getTime() <= Date.now()) {
+    await setTradeStatus(trade, 'pending', 'expired');
+    return res.status(409).json({ error: 'TRADE_EXPIRED' });
+  }
+  if (!(await areFriends(ctx.userId, trade.proposer_id))) {
+    return res.status(403).json({ error: 'NOT_FRIENDS' });
+  }
+  if (ctx.diamondDebt > 0) {
+    return res.status(403).json({ error: 'DIAMOND_DEBT' });
+  }
+  if (await hasDiamondDebt(supabase, trade.proposer_id)) {
+    return res.status(409).json({ error: 'PARTNER_DIAMOND_DEBT' });
+  }
+
+  // Cada lado recebe N itens e entrega M: só precisa de espaço para a diferença
+  const recipientGain = trade.offer_items.length - trade.request_items.length;
+  if (recipientGain > 0) {
+    const capacity = await checkInventoryCapacity(ctx.userId, recipientGain, ctx.maxInventory);
+    if (!capacity.valid) {
+      return res.status(400).json({ error: capacity.error, current: capacity.current, max: capacity.max });
+    }
+  } else if (recipientGain < 0) {
+    const capacity = await checkInventoryCapacity(trade.proposer_id, -recipientGain);
+    if (!capacity.valid) {
+      return res.status(409).json({ error: 'PROPOSER_INVENTORY_FULL' });
+    }
+  }
+
+  const requestMoney = Number(trade.request_money) || 0;
+  if (requestMoney > 0) {
+    const money = await fetchMoney(ctx.userId);
+    if (money === null || money < requestMoney) {
+      return res.status(400).json({ error: 'INSUFFICIENT_FUNDS' });
+    }
+  }
+
+  // Lock otimista: só uma confirmação executa a troca
+  if (!(await setTradeStatus(trade, 'pending', 'processing'))) {
+    return res.status(409).json({ error: 'TRADE_NOT_PENDING' });
+  }
+
+  try {
+    await executeTrade(trade);
+  } catch (err) {
+    const reason = err instanceof TradeExecutionError ? err.message : 'TRADE_FAILED';
+    await setTradeStatus(trade, 'processing', 'failed', reason);
+    logAudit(supabase, ctx.userId, 'TRADE_FAILED', { tradeId: trade.id, reason }, req as any).catch(() => {});
+    if (!(err instanceof TradeExecutionError)) console.error('💥 Trade execution error:', err);
+    return res.status(409).json({ error: reason });
+  }
+
+  await setTradeStatus(trade, 'processing', 'completed');
+
+  const details = {
+    tradeId: trade.id,
+    offerItems: trade.offer_items.map(item => item.id),
+    offerMoney: trade.offer_money,
+    requestItems: trade.request_items.map(item => item.id),
+    requestMoney: trade.request_money
+  };
+  logAudit(supabase, trade.proposer_id, 'TRADE_COMPLETED', { ...details, role: 'proposer' }, req as any).catch(() => {});
+  logAudit(supabase, trade.recipient_id, 'TRADE_COMPLETED', { ...details, role: 'recipient' }, req as any).catch(() => {});
+
+  return res.status(200).json({
+    success: true,
+    trade: toPublicTrade({ ...trade, status: 'completed', resolved_at: new Date().toISOString() }, ctx.userId),
+    newBalance: await fetchMoney(ctx.userId)
+  });
+}
+
+async function handleCloseTrade(req: ApiRequest, res: ApiResponse, ctx: HandlerContext, outcome: 'declined' | 'cancelled'): Promise<void> {
+  const { tradeId } = req.body || {};
+  if (!isValidUuid(tradeId)) {
+    return res.status(400).json({ error: 'Invalid tradeId' });
+  }
+
+  const trade = await fetchTrade(tradeId);
+  if (!trade) {
+    return res.status(404).json({ error: 'Trade not found' });
+  }
+
+  const allowedUserId = outcome === 'declined' ? trade.recipient_id : trade.proposer_id;
+  if (allowedUserId !== ctx.userId) {
+    return res.status(403).json({ error: outcome === 'declined' ? 'Only the recipient can decline' : 'Only the proposer can cancel' });
+  }
+
+  if (!(await setTradeStatus(trade, 'pending', outcome))) {
+    return res.status(409).json({ error: 'TRADE_NOT_PENDING' });
+  }
+
+  logAudit(supabase, ctx.userId, outcome === 'declined' ? 'TRADE_DECLINED' : 'TRADE_CANCELLED', { tradeId: trade.id }, req as any).catch(() => {});
+
+  return res.status(200).json({ success: true });
+}
+
+// ============================================================
+// MAIN HANDLER
+// ============================================================
+
+export default async function handler(req: ApiRequest, res: ApiResponse): Promise<void> {
+  applyCors(req as any, res as any);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { action, userId, authToken } = req.body || {};
+  cleanupRateLimits();
+
+  const identifier = getIdentifier(req as any, userId);
+  if (!checkRateLimit(rateLimits, identifier, { maxRequests: 40, windowMs: 60_000 })) {
+    logAudit(supabase, userId || 'unknown', 'TRADE_RATE_LIMIT', { action }, req as any).catch(() => {});
+    return res.status(429).json({ error: 'Too many requests. Please wait.' });
+  }
+
+  if (!action || typeof action !== 'string') {
+    return res.status(400).json({ error: 'Invalid action' });
+  }
+  if (!userId || typeof userId !== 'string') {
+    return res.status(400).json({ error: 'Invalid userId' });
+  }
+  if (!authToken || typeof authToken !== 'string') {
+    return res.status(400).json({ error: 'Invalid authToken' });
+  }
+
+  const { valid, error: sessionError, stats } = await validateSessionAndFetchPlayerStats(supabase, authToken, userId, {
+    select: 'user_id, username, max_inventory, diamond_debt'
+  });
+  if (!valid) {
+    logAudit(supabase, userId, 'TRADE_AUTH_FAILED', { action, error: sessionError }, req as any).catch(() => {});
+    return res.status(401).json({ error: sessionError });
+  }
+
+  // 🛡️ Validar CSRF token (apenas para ações que fazem mutações)
+  const mutationActions = ['createTrade', 'acceptTrade', 'declineTrade', 'cancelTrade'];
+  if (mutationActions.includes(action)) {
+    const csrfValidation = await validateCsrfMiddleware(supabase, req as any, userId);
+    if (!csrfValidation.valid) {
+      console.warn('⚠️ CSRF validation failed:', { userId, action, error: csrfValidation.error });
+      logAudit(supabase, userId, 'TRADE_CSRF_VALIDATION_FAILED', { action }, req as any).catch(() => {});
+      return res.status(403).json({ error: 'Security validation failed' });
+    }
+  }
+
+  const ctx: HandlerContext = {
+    userId,
+    username: stats?.username || 'Player',
+    maxInventory: stats?.max_inventory,
+    diamondDebt: Number(stats?.diamond_debt) || 0
+  };
+
+  try {
+    switch (action) {
+      case 'listTrades':
+        return await handleListTrades(req, res, ctx);
+      case 'getTradeInventories':
+        return await handleGetTradeInventories(req, res, ctx);
+      case 'createTrade':
+        return await handleCreateTrade(req, res, ctx);
+      case 'acceptTrade':
+        return await handleAcceptTrade(req, res, ctx);
+      case 'declineTrade':
+        return await handleCloseTrade(req, res, ctx, 'declined');
+      case 'cancelTrade':
+        return await handleCloseTrade(req, res, ctx, 'cancelled');
+      default:
+        return res.status(400).json({ error: 'Invalid action' });
+    }
+  } catch (error) {
+    const err = error as Error;
+    console.error('💥 Trades: unhandled error', err);
+    logAudit(supabase, userId, 'TRADE_ERROR', { action, error: err.message }, req as any).catch(() => {});
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -4,6 +4,18 @@
 
 import type { SupabaseClient } from '@supabase/supabase-js';
 import crypto from 'crypto';
+import {
+  XP_RATES,
+  getLevelInfo,
+  getLevelUpRewards,
+  type XpAward,
+  type XpSource
+} from '../app/shared/levels.js';
+import {
+  getAllAssignedMissions,
+  missionMatchesEvent,
+  type MissionEventData
+} from '../app/shared/missions.js';
 
 // ============================================================
 // TYPES
@@ -296,6 +308,9 @@ export async function logAudit(
     const message = err instanceof Error ? err.message : String(err);
     console.error('Failed to log action:', message);
   }
+
+  // O progresso das missões sai das mesmas ações registradas aqui
+  await trackMissionProgress(supabase, userId, action, details);
 }
 
 export function buildLogAction(supabase: SupabaseClient) {
@@ -938,13 +953,21 @@ export async function usernameExists(
 // 💎 GENERIC DIAMOND/BALANCE UPDATES
 // ============================================================
 
+/**
+ * Soma `amount` ao saldo de diamantes (lock otimista).
+ * `diamond_debt` guarda o que ficou faltando num estorno de compra: enquanto
+ * houver dívida, gastos falham com 'Diamond debt outstanding' e créditos
+ * quitam a dívida antes de entrar no saldo. Só estornos passam `allowDebt`,
+ * que zera o saldo e joga o restante para a dívida.
+ */
 export async function updatePlayerDiamonds(
   supabase: SupabaseClient,
   userId: string,
   amount: number,
   reason: string,
   isAdmin: boolean = false,
-  req?: ApiRequest
+  req?: ApiRequest,
+  { allowDebt = false }: { allowDebt?: boolean } = {}
 ): Promise<number> {
   try {
     // Validar entrada
@@ -959,7 +982,7 @@ export async function updatePlayerDiamonds(
     // Buscar saldo atual COM LOCK
     const { data: currentStats, error: fetchError } = await supabase
       .from('player_stats')
-      .select('diamonds, user_id')
+      .select('diamonds, diamond_debt, user_id')
       .eq('user_id', userId)
       .single();
 
@@ -968,10 +991,28 @@ export async function updatePlayerDiamonds(
     }
 
     const currentDiamonds = currentStats.diamonds || 0;
-    const newDiamonds = currentDiamonds + amount;
+    const currentDebt = Math.max(0, Number(currentStats.diamond_debt) || 0);
+
+    if (amount < 0 && currentDebt > 0 && !allowDebt) {
+      throw new Error('Diamond debt outstanding');
+    }
+
+    let newDiamonds = currentDiamonds + amount;
+    let newDebt = currentDebt;
+
+    // Créditos quitam a dívida primeiro
+    if (amount > 0 && currentDebt > 0) {
+      const repaid = Math.min(currentDebt, amount);
+      newDebt -= repaid;
+      newDiamonds -= repaid;
+    }
 
     if (newDiamonds < 0) {
-      throw new Error('Insufficient diamonds');
+      if (!allowDebt) {
+        throw new Error('Insufficient diamonds');
+      }
+      newDebt += -newDiamonds;
+      newDiamonds = 0;
     }
 
     // Atualizar com verificação de integridade
@@ -979,10 +1020,12 @@ export async function updatePlayerDiamonds(
       .from('player_stats')
       .update({
         diamonds: newDiamonds,
+        diamond_debt: newDebt,
         updated_at: new Date().toISOString()
       })
       .eq('user_id', userId)
       .eq('diamonds', currentDiamonds) // Lock otimista
+      .eq('diamond_debt', currentDebt)
       .select('diamonds, user_id');
 
     if (updateError) {
@@ -1005,7 +1048,7 @@ export async function updatePlayerDiamonds(
         created_at: new Date().toISOString(),
         is_admin: isAdmin
       }),
-      req ? logAudit(supabase, userId, 'DIAMONDS_UPDATED', { amount, reason, newBalance: finalDiamonds }, req) : Promise.resolve()
+      req ? logAudit(supabase, userId, 'DIAMONDS_UPDATED', { amount, reason, newBalance: finalDiamonds, debt: newDebt }, req) : Promise.resolve()
     ]).catch(err => {
       console.error('⚠️ Transaction logging error:', err);
     });
@@ -1018,10 +1061,78 @@ export async function updatePlayerDiamonds(
   }
 }
 
+/**
+ * Usa o saldo atual para quitar `diamond_debt`. Para créditos que não passam
+ * por updatePlayerDiamonds (RPCs da loja). Retorna a dívida restante.
+ */
+export async function settlePlayerDiamondDebt(supabase: SupabaseClient, userId: string): Promise<number> {
+  const { data: stats, error } = await supabase
+    .from('player_stats')
+    .select('diamonds, diamond_debt')
+    .eq('user_id', userId)
+    .single();
+
+  if (error || !stats) {
+    throw new Error('Failed to fetch player stats');
+  }
+
+  const diamonds = stats.diamonds || 0;
+  const debt = Math.max(0, Number(stats.diamond_debt) || 0);
+  const repaid = Math.min(diamonds, debt);
+  if (repaid <= 0) return debt;
+
+  const { data: updated, error: updateError } = await supabase
+    .from('player_stats')
+    .update({
+      diamonds: diamonds - repaid,
+      diamond_debt: debt - repaid,
+      updated_at: new Date().toISOString()
+    })
+    .eq('user_id', userId)
+    .eq('diamonds', diamonds)
+    .eq('diamond_debt', debt)
+    .select('diamond_debt');
+
+  if (updateError || !updated?.length) {
+    throw new Error('Failed to settle diamond debt');
+  }
+
+  supabase.from('diamond_transactions').insert({
+    user_id: userId,
+    amount: -repaid,
+    reason: 'Diamond debt repayment',
+    balance_after: diamonds - repaid,
+    created_at: new Date().toISOString(),
+    is_admin: false
+  }).then(({ error: logError }) => {
+    if (logError) console.error('⚠️ Transaction logging error:', logError.message);
+  });
+
+  return debt - repaid;
+}
+
 // ============================================================
 // 💰 GENERIC MONEY BALANCE UPDATES (RPC)
 // ============================================================
 
+/**
+ * Jogador com `diamond_debt` pendente (estorno de compra)? Enquanto houver
+ * dívida, gastos de dinheiro, anúncios no mercado e trocas ficam bloqueados,
+ * além dos gastos de diamantes (updatePlayerDiamonds).
+ */
+export async function hasDiamondDebt(supabase: SupabaseClient, userId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('player_stats')
+    .select('diamond_debt')
+    .eq('user_id', userId)
+    .single();
+
+  if (error || !data) {
+    throw new Error('Failed to fetch player stats');
+  }
+  return Number(data.diamond_debt) > 0;
+}
+
 interface UpdateBalanceOptions {
   casesOpened?: number;
   req?: ApiRequest | null;
@@ -1044,6 +1155,11 @@ export async function updatePlayerBalance(
       throw new Error('Invalid amount');
     }
 
+    // Débitos falham enquanto houver dívida de diamantes
+    if (amount < 0 && await hasDiamondDebt(supabase, userId)) {
+      throw new Error('Diamond debt outstanding');
+    }
+
     const { data: rpcResult, error: updateError } = await supabase.rpc('update_player_money', {
       p_user_id: userId,
       p_money_change: amount,
@@ -1093,6 +1209,160 @@ export async function updatePlayerBalance(
   }
 }
 
+// ============================================================
+// ⭐ PLAYER XP & LEVELS (LEDGER + RPC)
+// ============================================================
+
+interface GrantXpOptions {
+  count?: number;
+  amount?: number;
+  reference?: string | null;
+  req?: ApiRequest | null;
+}
+
+/**
+ * Concede XP ao jogador. A RPC `add_player_xp` incrementa player_stats.xp e
+ * grava a linha em `xp_ledger` na mesma transação, então cada chamada cruza
+ * cada nível no máximo uma vez e as recompensas de nível saem exatamente uma
+ * vez. Nunca lança: retorna null se o XP não pôde ser concedido.
+ */
+export async function grantPlayerXp(
+  supabase: SupabaseClient,
+  userId: string,
+  source: XpSource,
+  { count = 1, amount, reference = null, req = null }: GrantXpOptions = {}
+): Promise<XpAward | null> {
+  const xpGained = Math.floor(amount ?? XP_RATES[source] * Math.max(0, Math.floor(count)));
+  if (!userId || !(xpGained > 0)) return null;
+
+  try {
+    const { data, error } = await supabase.rpc('add_player_xp', {
+      p_user_id: userId,
+      p_amount: xpGained,
+      p_source: source,
+      p_reference: reference
+    });
+
+    if (error) {
+      console.error('⚠️ Failed to grant XP:', error.message);
+      return null;
+    }
+
+    const first = Array.isArray(data) ? data[0] : data;
+    const totalXP = Number(typeof first === 'object' && first !== null ? first.new_xp : first);
+    if (!Number.isFinite(totalXP)) {
+      console.error('⚠️ Failed to grant XP: invalid RPC response');
+      return null;
+    }
+
+    const oldLevel = getLevelInfo(totalXP - xpGained).level;
+    const info = getLevelInfo(totalXP);
+    const rewards = getLevelUpRewards(oldLevel, info.level);
+    let newBalance: number | undefined;
+    let newDiamonds: number | undefined;
+
+    for (const { level, reward } of rewards) {
+      try {
+        if (reward.type === 'money') {
+          newBalance = await updatePlayerBalance(supabase, userId, reward.amount, `Level ${level} reward`, { req });
+        } else {
+          newDiamonds = await updatePlayerDiamonds(supabase, userId, reward.amount, `Level ${level} reward`, false, req ?? undefined);
+        }
+      } catch (err) {
+        console.error('⚠️ Failed to grant level reward:', level, err instanceof Error ? err.message : err);
+        logAudit(supabase, userId, 'LEVEL_REWARD_FAILED', { level, reward }, req ?? undefined).catch(() => {});
+      }
+    }
+
+    if (info.level > oldLevel) {
+      logAudit(supabase, userId, 'LEVEL_UP', { oldLevel, newLevel: info.level, source, rewards }, req ?? undefined).catch(() => {});
+    }
+
+    return {
+      ...info,
+      xpGained,
+      oldLevel,
+      leveledUp: info.level > oldLevel,
+      rewards,
+      newBalance,
+      newDiamonds
+    };
+  } catch (err) {
+    console.error('⚠️ Failed to grant XP:', err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+// ============================================================
+// 🎯 MISSION PROGRESS (A PARTIR DO AUDIT LOG)
+// ============================================================
+
+/**
+ * Traduz uma ação do audit log nos eventos de missão que ela gera.
+ */
+function getMissionEvents(action: string, details: any): MissionEventData[] {
+  switch (action) {
+    case 'CASES_OPENED':
+      return [{ event: 'case_opened', amount: Number(details?.quantity) || 0, caseId: details?.caseId }];
+    case 'SELL_ITEM_SUCCESS':
+      return [{ event: 'item_sold', amount: 1, rarity: details?.rarity }];
+    case 'SELL_SELECTED_SUCCESS':
+    case 'SELL_ALL_SUCCESS':
+      return Object.entries(details?.rarityCounts ?? {}).map(([rarity, count]) => ({
+        event: 'item_sold' as const,
+        amount: Number(count) || 0,
+        rarity
+      }));
+    case 'CHAT_MESSAGE_SENT':
+      return [{ event: 'chat_message', amount: 1 }];
+    case 'CASE_BATTLE_FINISHED':
+      return [
+        { event: 'battle_played', amount: 1 },
+        ...(details?.won ? [{ event: 'battle_won' as const, amount: 1 }] : [])
+      ];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Soma o progresso das missões ativas do jogador que batem com a ação. A
+ * RPC `add_mission_progress` cria a linha em `player_missions` no primeiro
+ * progresso e limita o valor ao alvo. Nunca lança.
+ */
+export async function trackMissionProgress(
+  supabase: SupabaseClient,
+  userId: string,
+  action: string,
+  details: unknown
+): Promise<void> {
+  const events = getMissionEvents(action, details).filter(e => e.amount > 0);
+  if (!userId || userId === 'unknown' || events.length === 0) return;
+
+  try {
+    const missions = getAllAssignedMissions(userId);
+
+    for (const mission of missions) {
+      const amount = events
+        .filter(e => missionMatchesEvent(mission, e))
+        .reduce((sum, e) => sum + e.amount, 0);
+      if (amount <= 0) continue;
+
+      const { error } = await supabase.rpc('add_mission_progress', {
+        p_user_id: userId,
+        p_period_key: mission.periodKey,
+        p_mission_id: mission.id,
+        p_target: mission.target,
+        p_amount: Math.floor(amount)
+      });
+
+      if (error) console.error('⚠️ Failed to track mission progress:', mission.id, error.message);
+    }
+  } catch (err) {
+    console.error('⚠️ Failed to track mission progress:', err instanceof Error ? err.message : err);
+  }
+}
+
 // ============================================================
 // 🛡️ XSS PROTECTION - SANITIZAÇÃO E VALIDAÇÃO
 // ============================================================
@@ -20,6 +20,14 @@ import {
   showDiamondPopup,
   showXPPopup
 } from './shared/effects';
+import { getLevelInfo, type LevelInfo } from './shared/levels';
+import {
+  clearLegacyTranslationCache,
+  getMissingTranslations,
+  getStoredLocale,
+  setLocale,
+  translateDom
+} from './shared/i18n';
 
 import { 
   setupProfileUploadListeners
@@ -34,10 +42,6 @@ import {
   confirmSellAll
 } from './features/inventory.js';
 
-import { 
-  RARITIES
-} from './shared/constants';
-
 import './features/settings.js';
 import './features/skill-tree.js';
 import './features/support.js';
@@ -56,6 +60,13 @@ import {
 } from './shared/themes';
 
 import './features/caseopening.js';
+import { isInBattle } from './features/battles.js';
+import './features/marketplace.js';
+import './features/upgrader.js';
+import './features/battle-pass.js';
+import { checkDailyRewardReminder } from './features/daily-rewards.js';
+import './features/missions.js';
+import './features/opening-history.js';
 import { bindGlobalClickSfx, bindGlobalHoverSfx } from './shared/sfx';
 
 import { initializeChat } from './features/chat.js';
@@ -244,179 +255,19 @@ function updateDiamondsDisplay(amount: number): void {
 (window as any).updateDiamondsDisplay = updateDiamondsDisplay;
 
 // ============================================================
-// TRANSLATION SYSTEM (AUTO ONLY)
+// TRANSLATION SYSTEM (CATÁLOGOS ESTÁTICOS)
 // ============================================================
 
-let currentLanguage: string = localStorage.getItem('language') || 'en';
-const translationCache: Record<string, string | Promise<string>> = {};
 let translationsRunPromise: Promise<void> | null = null;
 let translationsPending: boolean = false;
 
-const TRANSLATION_CACHE_STORAGE_KEY = 'translationCache_v1';
-const TRANSLATION_CACHE_MAX_ENTRIES = 200;
-let translationCacheOrder: string[] = [];
-let translationCacheSaveTimer: number | null = null;
-
-function loadPersistentTranslationCache(): void {
-  try {
-    const raw = localStorage.getItem(TRANSLATION_CACHE_STORAGE_KEY);
-    if (!raw) return;
-
-    const parsed = JSON.parse(raw);
-    const entries = parsed?.entries;
-    const order = parsed?.order;
-
-    if (entries && typeof entries === 'object') {
-      for (const [key, value] of Object.entries(entries)) {
-        if (typeof value === 'string') translationCache[key] = value;
-      }
-    }
-
-    if (Array.isArray(order)) {
-      translationCacheOrder = order.filter(k => typeof k === 'string');
-    } else {
-      translationCacheOrder = Object.keys(entries || {});
-    }
-  } catch {
-    // se o cache estiver corrompido, ignorar silenciosamente
-  }
-}
-
-function schedulePersistTranslationCache(): void {
-  if (translationCacheSaveTimer) return;
-  translationCacheSaveTimer = window.setTimeout(() => {
-    translationCacheSaveTimer = null;
-    try {
-      const entries: Record<string, string> = {};
-      for (const key of translationCacheOrder) {
-        const value = translationCache[key];
-        if (typeof value === 'string') entries[key] = value;
-      }
-      localStorage.setItem(
-        TRANSLATION_CACHE_STORAGE_KEY,
-        JSON.stringify({ entries, order: translationCacheOrder })
-      );
-    } catch {
-      // sem espaço / modo privado: ignorar
-    }
-  }, 250);
-}
-
-function rememberTranslation(cacheKey: string, translated: string): void {
-  if (typeof translated !== 'string') return;
-  if (!translationCacheOrder.includes(cacheKey)) {
-    translationCacheOrder.push(cacheKey);
-  }
-
-  while (translationCacheOrder.length > TRANSLATION_CACHE_MAX_ENTRIES) {
-    const oldest = translationCacheOrder.shift();
-    if (oldest) delete translationCache[oldest];
-  }
-
-  schedulePersistTranslationCache();
-}
-
-// Carregar cache persistido cedo
-loadPersistentTranslationCache();
-
-async function translateText(text: string, targetLang: string): Promise<string> {
-  const cacheKey = `${text}_${targetLang}`;
-  const cached = translationCache[cacheKey];
-  if (cached) return await cached;
-  
-  // Se for inglês (idioma padrão), não traduzir
-  if (targetLang === 'en') {
-    return text;
-  }
-  
-  try {
-    // Converter código de idioma
-    const langCode = targetLang === 'pt-BR' ? 'pt' : targetLang;
-    const url = `https://api.mymemory.translated.net/get?q=${encodeURIComponent(text)}&langpair=en|${langCode}`;
-
-    const promise = (async () => {
-      const response = await fetch(url);
-      const data = await response.json();
-
-      if (data.responseStatus === 200 && data.responseData) {
-        return data.responseData.translatedText;
-      }
-
-      return text;
-    })();
-
-    // Cache como Promise para deduplicar chamadas concorrentes
-    translationCache[cacheKey] = promise;
-
-    const translated = await promise;
-    translationCache[cacheKey] = translated;
-    rememberTranslation(cacheKey, translated);
-    return translated;
-  } catch (err) {
-    logger.error('Erro na tradução:', { error: err });
-    delete translationCache[cacheKey];
-    return text;
-  }
-}
-
-async function translateElement(element: HTMLElement, text: string): Promise<void> {
-  if (!text || !element) return;
-  
-  const targetLang = currentLanguage;
-  
-  // Se for inglês (idioma padrão), mostrar o texto original
-  if (targetLang === 'en') {
-    if (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA') {
-      (element as HTMLInputElement).placeholder = text;
-    } else {
-      const textNode = Array.from(element.childNodes).find(node => node.nodeType === 3);
-      if (textNode) {
-        textNode.textContent = text;
-      } else {
-        element.textContent = text;
-      }
-    }
-    return;
-  }
-  
-  // Usar API de tradução automática
-  const translated = await translateText(text, targetLang);
-  
-  if (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA') {
-    (element as HTMLInputElement).placeholder = translated;
-  } else {
-    const textNode = Array.from(element.childNodes).find(node => node.nodeType === 3);
-    if (textNode) {
-      textNode.textContent = translated;
-    } else {
-      element.textContent = translated;
-    }
-  }
-}
+// Remove o cache da antiga tradução automática
+clearLegacyTranslationCache();
 
 async function applyTranslations(): Promise<void> {
-  const elements = document.querySelectorAll('[data-translate]');
-
-  // Executar com concorrência limitada para não travar UI
-  const list = Array.from(elements);
-  const concurrency = 4;
-  let index = 0;
-
-  async function worker() {
-    while (index < list.length) {
-      const el = list[index++] as HTMLElement;
-      const originalText = el.getAttribute('data-original') || el.textContent || (el as HTMLInputElement).placeholder || '';
-
-      if (!el.getAttribute('data-original')) {
-        el.setAttribute('data-original', originalText);
-      }
-
-      await translateElement(el, originalText);
-    }
-  }
-
-  const workers = Array.from({ length: Math.min(concurrency, list.length) }, () => worker());
-  await Promise.all(workers);
+  // Carrega (uma vez) os catálogos do idioma salvo e da cadeia de fallback
+  await setLocale(getStoredLocale());
+  translateDom();
 }
 
 function runTranslations(): Promise<void> {
@@ -440,11 +291,8 @@ function runTranslations(): Promise<void> {
 }
 
 (window as any).applyTranslations = runTranslations;
-
-// Atualizar idioma em runtime quando houver troca
-document.addEventListener('languageChanged', function() {
-  currentLanguage = localStorage.getItem('language') || 'en';
-});
+// Relatório para tradutores: chaves usadas que não existem no catálogo do idioma
+(window as any).getMissingTranslations = getMissingTranslations;
 
 // ============================================================
 // AUTHENTICATION & USER DATA
@@ -462,7 +310,7 @@ document.addEventListener('languageChanged', function() {
 // Auth Actions
 (window as any).handleLogin = handleLogin;
 (window as any).handleRegister = handleRegister;
-(window as any).handleLogout = () => authHandleLogout(false);
+(window as any).handleLogout = () => authHandleLogout(isInBattle());
 
 // Load User Data
 async function loadUserData(user: any): Promise<void> {
@@ -528,6 +376,9 @@ async function loadUserData(user: any): Promise<void> {
   if ((window as any).initSupport) {
     (window as any).initSupport();
   }
+
+  // Lembrete da recompensa diária (não bloqueia o login)
+  checkDailyRewardReminder().catch(() => {});
 }
 
 // Auth State Listener
@@ -544,43 +395,10 @@ function ensureThemeLoaded({ force = false } = {}): Promise<void> {
 // UTILITY FUNCTIONS (SHARED)
 // ============================================================
 
-interface LevelInfo {
-  level: number;
-  currentXP: number;
-  nextLevelXP: number;
-  totalXP: number;
-}
-
-// Level Calculation
+// Nível derivado de player_stats.xp com a mesma curva do servidor
+// (app/shared/levels.ts); o XP só é concedido pela API via grantPlayerXp
 function calculateLevel(totalXP: number): LevelInfo {
-  let level = 1;
-  let xpNeeded = 0;
-  let accumulatedXP = 0;
-  
-  // Fórmula quadrática: level² * 50
-  while (true) {
-    xpNeeded = level * level * 50;
-    
-    if (accumulatedXP + xpNeeded > totalXP) {
-      break;
-    }
-    
-    accumulatedXP += xpNeeded;
-    level++;
-    
-    // Limite máximo de level 50
-    if (level >= 50) break;
-  }
-  
-  const currentLevelXP = totalXP - accumulatedXP;
-  const nextLevelXP = level * level * 50;
-  
-  return {
-    level: level,
-    currentXP: currentLevelXP,
-    nextLevelXP: nextLevelXP,
-    totalXP: totalXP
-  };
+  return getLevelInfo(totalXP);
 }
 
 // Inicializar o router cedo (plano A): goTo apenas navega e o loader roda pela rota
@@ -719,9 +537,6 @@ window.addEventListener('beforeunload', () => {
 // GLOBAL EXPORTS
 // ============================================================
 
-// Constants
-(window as any).RARITIES = RARITIES;
-
 // Functions - Effects
 (window as any).showMoneyPopup = showMoneyPopup;
 (window as any).showDiamondPopup = showDiamondPopup;
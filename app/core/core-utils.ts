@@ -47,6 +47,13 @@ export interface RouteLoaderFunctions {
   ) => Promise<void>;
   loadUserThemes?: () => Promise<void>;
   initShop?: () => Promise<void>;
+  initBattles?: () => Promise<void>;
+  initMarketplace?: () => Promise<void>;
+  initUpgrader?: () => Promise<void>;
+  initBattlePass?: () => Promise<void>;
+  initDailyRewards?: () => Promise<void>;
+  initMissions?: () => Promise<void>;
+  initOpeningHistory?: () => Promise<void>;
   loadSettingsData?: () => Promise<void>;
   applyTranslations?: () => Promise<void>;
   initSkillTree?: () => void;
@@ -42,6 +42,13 @@ const routeLoaders: RouteLoader = {
   'inventory': _loadInventoryRoute,
   'leaderboard': _loadLeaderboardRoute,
   'case-opening': _loadCasesRoute,
+  'battles': _loadBattlesRoute,
+  'marketplace': _loadMarketplaceRoute,
+  'upgrader': _loadUpgraderRoute,
+  'battle-pass': _loadBattlePassRoute,
+  'daily-rewards': _loadDailyRewardsRoute,
+  'missions': _loadMissionsRoute,
+  'opening-history': _loadOpeningHistoryRoute,
   'profile': _loadProfileRoute,
   'shop': _loadShopRoute,
   'settings': _loadSettingsRoute,
@@ -246,6 +253,146 @@ function setProfileUIState(show: boolean): void {
   if (content) content.style.display = show ? 'block' : 'none';
 }
 
+/**
+ * Carrega dados das case battles
+ */
+async function _loadBattlesRoute(): Promise<void> {
+  try {
+    const initBattles = WindowManager.getWindowFunction<() => Promise<void>>('initBattles');
+    if (!initBattles) {
+      logger.error('window.initBattles not found');
+      return;
+    }
+
+    await initBattles();
+  } catch (error) {
+    ErrorHandler.handle(error, {
+      operation: 'loadBattlesRoute',
+      config: { shouldThrow: false },
+    });
+  }
+}
+
+/**
+ * Carrega anúncios do mercado
+ */
+async function _loadMarketplaceRoute(): Promise<void> {
+  try {
+    const initMarketplace = WindowManager.getWindowFunction<() => Promise<void>>('initMarketplace');
+    if (!initMarketplace) {
+      logger.error('window.initMarketplace not found');
+      return;
+    }
+
+    await initMarketplace();
+  } catch (error) {
+    ErrorHandler.handle(error, {
+      operation: 'loadMarketplaceRoute',
+      config: { shouldThrow: false },
+    });
+  }
+}
+
+/**
+ * Carrega a tela do Upgrader
+ */
+async function _loadUpgraderRoute(): Promise<void> {
+  try {
+    const initUpgrader = WindowManager.getWindowFunction<() => Promise<void>>('initUpgrader');
+    if (!initUpgrader) {
+      logger.error('window.initUpgrader not found');
+      return;
+    }
+
+    await initUpgrader();
+  } catch (error) {
+    ErrorHandler.handle(error, {
+      operation: 'loadUpgraderRoute',
+      config: { shouldThrow: false },
+    });
+  }
+}
+
+/**
+ * Carrega progresso do Battle Pass
+ */
+async function _loadBattlePassRoute(): Promise<void> {
+  try {
+    const initBattlePass = WindowManager.getWindowFunction<() => Promise<void>>('initBattlePass');
+    if (!initBattlePass) {
+      logger.error('window.initBattlePass not found');
+      return;
+    }
+
+    await initBattlePass();
+  } catch (error) {
+    ErrorHandler.handle(error, {
+      operation: 'loadBattlePassRoute',
+      config: { shouldThrow: false },
+    });
+  }
+}
+
+/**
+ * Carrega status das recompensas diárias
+ */
+async function _loadDailyRewardsRoute(): Promise<void> {
+  try {
+    const initDailyRewards = WindowManager.getWindowFunction<() => Promise<void>>('initDailyRewards');
+    if (!initDailyRewards) {
+      logger.error('window.initDailyRewards not found');
+      return;
+    }
+
+    await initDailyRewards();
+  } catch (error) {
+    ErrorHandler.handle(error, {
+      operation: 'loadDailyRewardsRoute',
+      config: { shouldThrow: false },
+    });
+  }
+}
+
+/**
+ * Carrega missões diárias e semanais
+ */
+async function _loadMissionsRoute(): Promise<void> {
+  try {
+    const initMissions = WindowManager.getWindowFunction<() => Promise<void>>('initMissions');
+    if (!initMissions) {
+      logger.error('window.initMissions not found');
+      return;
+    }
+
+    await initMissions();
+  } catch (error) {
+    ErrorHandler.handle(error, {
+      operation: 'loadMissionsRoute',
+      config: { shouldThrow: false },
+    });
+  }
+}
+
+/**
+ * Carrega o histórico de aberturas do jogador
+ */
+async function _loadOpeningHistoryRoute(): Promise<void> {
+  try {
+    const initOpeningHistory = WindowManager.getWindowFunction<() => Promise<void>>('initOpeningHistory');
+    if (!initOpeningHistory) {
+      logger.error('window.initOpeningHistory not found');
+      return;
+    }
+
+    await initOpeningHistory();
+  } catch (error) {
+    ErrorHandler.handle(error, {
+      operation: 'loadOpeningHistoryRoute',
+      config: { shouldThrow: false },
+    });
+  }
+}
+
 /**
  * Carrega dados do perfil
  */
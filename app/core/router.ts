@@ -72,6 +72,48 @@ export const routes: RouteConfig[] = [
     title: 'Cases',
     requiresAuth: true,
   },
+  {
+    path: '/battles',
+    screen: 'battles',
+    title: 'Battles',
+    requiresAuth: true,
+  },
+  {
+    path: '/marketplace',
+    screen: 'marketplace',
+    title: 'Marketplace',
+    requiresAuth: true,
+  },
+  {
+    path: '/battle-pass',
+    screen: 'battle-pass',
+    title: 'Battle Pass',
+    requiresAuth: true,
+  },
+  {
+    path: '/daily-rewards',
+    screen: 'daily-rewards',
+    title: 'Daily Rewards',
+    requiresAuth: true,
+  },
+  {
+    path: '/missions',
+    screen: 'missions',
+    title: 'Missions',
+    requiresAuth: true,
+  },
+  {
+    path: '/opening-history',
+    screen: 'opening-history',
+    title: 'Opening History',
+    requiresAuth: true,
+  },
+  {
+    path: '/upgrader',
+    screen: 'upgrader',
+    title: 'Upgrader',
+    requiresAuth: true,
+  },
   {
     path: '/inventory',
     screen: 'inventory',
@@ -5,6 +5,11 @@
 import { supabase } from '../features/auth';
 import { ErrorHandler, ErrorCategory, ErrorSeverity } from '../shared/error-handler';
 import { showToast, showAlert } from '../shared/effects';
+import { extractBrowserName, isValidDeviceId } from '../shared/device';
+
+export { extractBrowserName };
+
+const DEVICE_ID_KEY = 'device-id';
 
 // ============================================================
 // TYPES
@@ -66,6 +71,30 @@ export async function getActiveDevices(): Promise<ActiveDevice[]> {
   }
 }
 
+/**
+ * Id aleatório desta instalação, criado no primeiro uso e mantido no
+ * localStorage. Sem storage disponível, vale só para a sessão atual.
+ */
+let sessionDeviceId: string | null = null;
+
+export function getDeviceId(): string {
+  if (sessionDeviceId) return sessionDeviceId;
+  try {
+    const stored = localStorage.getItem(DEVICE_ID_KEY);
+    if (isValidDeviceId(stored)) return (sessionDeviceId = stored);
+  } catch {
+    // localStorage bloqueado (modo privado, cookies desativados)
+  }
+
+  sessionDeviceId = crypto.randomUUID();
+  try {
+    localStorage.setItem(DEVICE_ID_KEY, sessionDeviceId);
+  } catch {
+    // Mantém só em memória
+  }
+  return sessionDeviceId;
+}
+
 /**
  * Registra um novo dispositivo/sessão
  */
@@ -74,9 +103,6 @@ export async function registerDevice(deviceInfo: Partial<ActiveDevice>): Promise
     const { data: { user } } = await supabase.auth.getUser();
     if (!user?.id) return false;
     
-    // Gerar hash do dispositivo (browser + user agent)
-    const deviceHash = btoa(`${deviceInfo.browser || 'unknown'}:${deviceInfo.user_agent || 'unknown'}`);
-    
     const { error } = await supabase.from('active_devices').insert({
       user_id: user.id,
       device_name: deviceInfo.device_name || `Device ${new Date().toLocaleDateString()}`,
@@ -84,7 +110,7 @@ export async function registerDevice(deviceInfo: Partial<ActiveDevice>): Promise
       browser: deviceInfo.browser || 'unknown',
       ip_address: deviceInfo.ip_address || 'unknown',
       user_agent: deviceInfo.user_agent || 'unknown',
-      device_hash: deviceHash,
+      device_hash: getDeviceId(),
       is_current: true,
       created_at: new Date().toISOString(),
       last_activity: new Date().toISOString()
@@ -317,18 +343,6 @@ export function detectDeviceType(userAgent: string): string {
   return 'desktop';
 }
 
-/**
- * Extrai nome do navegador do User Agent
- */
-export function extractBrowserName(userAgent: string): string {
-  if (/Chrome/.test(userAgent)) return 'Chrome';
-  if (/Safari/.test(userAgent)) return 'Safari';
-  if (/Firefox/.test(userAgent)) return 'Firefox';
-  if (/Edge|Edg/.test(userAgent)) return 'Edge';
-  if (/Opera|OPR/.test(userAgent)) return 'Opera';
-  return 'Unknown';
-}
-
 /**
  * Verifica se a sessão atual ainda é válida
  */
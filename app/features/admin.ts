@@ -6,6 +6,34 @@ import { supabase } from './auth';
 import { addCsrfHeader } from '../core/session';
 import { ErrorHandler, ErrorCategory, ErrorSeverity } from '../shared/error-handler';
 import { stateManager } from '../core/state-manager';
+import { loadCatalog } from '../shared/catalog-store';
+import { computeCaseOdds, MAX_SIMULATION_OPENINGS } from '../shared/case-odds';
+import type { CaseCatalog, CatalogCase } from '../shared/case-catalog';
+import {
+  SHOP_CURRENCIES,
+  SHOP_MAX_DISCOUNT,
+  SHOP_REPORTING_CURRENCY,
+  SHOP_REQUIRED_CURRENCIES,
+  getOrderReportingAmount,
+  isShopCurrency
+} from '../shared/shop-catalog';
+import type { ShopCatalog, ShopPackage, ShopPromotion } from '../shared/shop-catalog';
+import {
+  DEFAULT_PROMO_ELIGIBILITY,
+  PROMO_MAX_DIAMONDS,
+  PROMO_MAX_DISCOUNT,
+  PROMO_MAX_MONEY,
+  PROMO_MAX_PER_USER,
+  PROMO_PASS_IDS,
+  describePromoReward,
+  normalizePromoCode,
+  type PromoCode,
+  type PromoReward,
+  type PromoRewardType
+} from '../shared/promo-codes';
+import { AVAILABLE_THEMES } from '../shared/themes';
+import { formatCurrency } from '../shared/effects';
+import type { SimulationResult } from '../shared/case-odds';
 import type { RealtimeChannel } from '@supabase/supabase-js';
 
 // ============================================================
@@ -20,11 +48,14 @@ interface AdminRoleResult {
 interface AdminStats {
   approvedCount: number;
   pendingCount: number;
-  totalUSD: number;
-  totalBRL: number;
-  totalLTC: number;
-  // New shop_orders stats
+  // Receita somada em reportingCurrency (ver getOrderReportingAmount)
+  reportingCurrency: string;
   totalAmount: number;
+  // Valores originais por moeda cobrada
+  currencyBreakdown: Record<string, number>;
+  // Ordens antigas sem como converter (ficam fora do totalAmount)
+  unconvertedCount: number;
+  // New shop_orders stats
   totalQuantity: number;
   orderCount: number;
   statusBreakdown: Record<string, number>;
@@ -58,7 +89,39 @@ interface SupportTicket {
   updated_at?: string;
 }
 
-type AdminTab = 'purchases' | 'support';
+type AdminTab = 'purchases' | 'support' | 'cases' | 'shop' | 'promos';
+
+interface CaseEditorState {
+  catalog: CaseCatalog | null;
+  canEdit: boolean;
+  draft: CatalogCase | null;
+  isNew: boolean;
+  simulation: SimulationResult | null;
+  busy: boolean;
+}
+
+type ShopDraft =
+  | { kind: 'promotion'; isNew: boolean; data: ShopPromotion }
+  | { kind: 'bundle'; isNew: boolean; data: ShopPackage };
+
+interface ShopEditorState {
+  catalog: ShopCatalog | null;
+  canEdit: boolean;
+  draft: ShopDraft | null;
+  busy: boolean;
+}
+
+interface PromoDraft {
+  isNew: boolean;
+  data: PromoCode;
+}
+
+interface PromoEditorState {
+  codes: PromoCode[] | null;
+  canEdit: boolean;
+  draft: PromoDraft | null;
+  busy: boolean;
+}
 
 // ============================================================
 // STATE MANAGEMENT
@@ -69,6 +132,8 @@ let adminSubscription: RealtimeChannel | null = null;
 let adminRoleCache: AdminRoleResult | null = null;
 let adminRoleCacheTime: number = 0;
 const ROLE_CACHE_DURATION = 30000; // 30 segundos
+// PostgREST corta cada resposta em 1000 linhas: relatórios paginam
+const ADMIN_STATS_PAGE_SIZE = 1000;
 
 let adminDelegationBound: boolean = false;
 let adminRefreshTimer: ReturnType<typeof setTimeout> | null = null;
@@ -77,6 +142,32 @@ let adminRefreshQueued: boolean = false;
 
 let activeAdminTab: AdminTab = 'purchases';
 
+const caseEditor: CaseEditorState = {
+  catalog: null,
+  canEdit: false,
+  draft: null,
+  isNew: false,
+  simulation: null,
+  busy: false
+};
+let caseEditorBound: boolean = false;
+
+const shopEditor: ShopEditorState = {
+  catalog: null,
+  canEdit: false,
+  draft: null,
+  busy: false
+};
+let shopEditorBound: boolean = false;
+
+const promoEditor: PromoEditorState = {
+  codes: null,
+  canEdit: false,
+  draft: null,
+  busy: false
+};
+let promoEditorBound: boolean = false;
+
 function isAdminScreenActive(): boolean {
   return document.getElementById('admin')?.classList.contains('active') ?? false;
 }
@@ -262,6 +353,12 @@ export async function renderAdminPanel(): Promise<void> {
     await renderAdminPurchasesTab();
   } else if (activeAdminTab === 'support') {
     await renderAdminSupportTab();
+  } else if (activeAdminTab === 'cases') {
+    await renderAdminCasesTab();
+  } else if (activeAdminTab === 'shop') {
+    await renderAdminShopTab();
+  } else if (activeAdminTab === 'promos') {
+    await renderAdminPromosTab();
   }
 }
 
@@ -273,6 +370,9 @@ async function renderAdminPurchasesTab(): Promise<void> {
     // Show purchases section, hide support if present
     document.getElementById('admin-purchases-section')?.classList.remove('hidden');
     document.getElementById('admin-support-section')?.classList.add('hidden');
+    document.getElementById('admin-cases-section')?.classList.add('hidden');
+    document.getElementById('admin-shop-section')?.classList.add('hidden');
+    document.getElementById('admin-promos-section')?.classList.add('hidden');
 
     const stats = await fetchAdminStats();
     
@@ -284,7 +384,12 @@ async function renderAdminPurchasesTab(): Promise<void> {
         const paymentMethodEl = document.getElementById('admin-payment-methods');
         const orderTypeEl = document.getElementById('admin-order-types');
     
-        if (totalAmountEl) totalAmountEl.textContent = `$ ${stats.totalAmount.toFixed(2)}`;
+        if (totalAmountEl) {
+          totalAmountEl.textContent = formatCurrency(stats.totalAmount, stats.reportingCurrency);
+          totalAmountEl.title = stats.unconvertedCount
+            ? `${stats.unconvertedCount} older orders could not be converted to ${stats.reportingCurrency}`
+            : '';
+        }
         if (totalQuantityEl) totalQuantityEl.textContent = String(stats.totalQuantity);
     if (orderCountEl) orderCountEl.textContent = String(stats.orderCount);
     
@@ -311,9 +416,18 @@ async function renderAdminPurchasesTab(): Promise<void> {
             .join('');
           orderTypeEl.innerHTML = typeHTML;
         }
+
+        // Valores originais por moeda (o total acima é convertido)
+        const currencyEl = document.getElementById('admin-currencies');
+        if (currencyEl) {
+          currencyEl.innerHTML = Object.entries(stats.currencyBreakdown)
+            .map(([currency, amount]) => `<div class="stat-item"><span>${sanitizeHTML(currency)}</span>: <strong>${formatCurrency(amount, currency)}</strong></div>`)
+            .join('');
+        }
     
     await renderAdminPendingOrders();
     await renderAdminHistoryOrders();
+    await renderAdminDisputedOrders();
   } catch (err) {
     ErrorHandler.handleError('Error rendering purchases tab', {
       category: ErrorCategory.UNKNOWN,
@@ -334,6 +448,9 @@ async function renderAdminSupportTab(): Promise<void> {
 
     // Hide purchases section while viewing support
     document.getElementById('admin-purchases-section')?.classList.add('hidden');
+    document.getElementById('admin-cases-section')?.classList.add('hidden');
+    document.getElementById('admin-shop-section')?.classList.add('hidden');
+    document.getElementById('admin-promos-section')?.classList.add('hidden');
 
     let supportSection = document.getElementById('admin-support-section');
     if (!supportSection) {
@@ -583,6 +700,14 @@ function renderSupportInbox(tickets: SupportTicket[]): string {
   `;
 }
 
+function getOrderCurrency(order: any): string {
+  return String(order.currency || order.metadata?.payment_currency || (order.payment_method === 'mercadopago' ? 'BRL' : 'USD')).toUpperCase();
+}
+
+function formatOrderAmount(order: any): string {
+  return formatCurrency(Number(order.total_amount ?? order.amount_paid ?? order.amount ?? 0), getOrderCurrency(order));
+}
+
 /**
  * Busca estatísticas do admin (COM VERIFICAÇÃO)
  */
@@ -594,53 +719,39 @@ async function fetchAdminStats(): Promise<AdminStats> {
       throw new Error('Unauthorized');
     }
     
-    // Prefer aggregated view if available
+    // A view shop_sales_report soma valores de moedas diferentes, então o
+    // total é calculado ordem a ordem já convertido para a moeda de relatório
     let totalAmount = 0;
     let totalQuantity = 0;
+    let unconvertedCount = 0;
     const statusBreakdown: Record<string, number> = {};
     const paymentMethodBreakdown: Record<string, number> = {};
     const orderTypeBreakdown: Record<string, number> = {};
-
-    const { data: report, error: reportError } = await supabase
-      .from('shop_sales_report')
-      .select('*')
-      .limit(1000);
-
-    if (!reportError && report && report.length > 0) {
-      report.forEach(row => {
-        totalAmount += Number(row.total_amount || 0);
-        totalQuantity += Number(row.total_quantity || 0);
-        const count = Number(row.order_count || 0);
-        const status = row.status || 'unknown';
-        const method = row.payment_method || 'unknown';
-        const type = row.order_type || 'unknown';
-        statusBreakdown[status] = (statusBreakdown[status] || 0) + count;
-        paymentMethodBreakdown[method] = (paymentMethodBreakdown[method] || 0) + count;
-        orderTypeBreakdown[type] = (orderTypeBreakdown[type] || 0) + count;
-      });
-      return {
-        approvedCount: statusBreakdown['completed'] || 0,
-        pendingCount: statusBreakdown['pending'] || 0,
-        totalUSD: 0,
-        totalBRL: 0,
-        totalLTC: 0,
-        totalAmount,
-        totalQuantity,
-        orderCount: Object.values(statusBreakdown).reduce((a,b)=>a+b,0),
-        statusBreakdown,
-        paymentMethodBreakdown,
-        orderTypeBreakdown
-      };
-    }
-
-    // Fallback: compute from shop_orders
-    const { data: allOrders } = await supabase
-      .from('shop_orders')
-      .select('*');
-
-    const orders = allOrders || [];
+    const currencyBreakdown: Record<string, number> = {};
+
+    const orders: any[] = [];
+    for (let offset = 0; ; offset += ADMIN_STATS_PAGE_SIZE) {
+      const { data: page, error } = await supabase
+        .from('shop_orders')
+        .select('*')
+        .order('id', { ascending: true })
+        .range(offset, offset + ADMIN_STATS_PAGE_SIZE - 1);
+
+      if (error) throw error;
+      orders.push(...(page || []));
+      if (!page || page.length < ADMIN_STATS_PAGE_SIZE) break;
+    }
     orders.forEach(order => {
-      totalAmount += Number(order.total_amount ?? order.amount_paid ?? 0);
+      const amount = Number(order.total_amount ?? order.amount_paid ?? order.amount ?? 0);
+      const reportingAmount = getOrderReportingAmount({ ...order, amount });
+      if (reportingAmount === null) {
+        unconvertedCount++;
+      } else {
+        totalAmount += reportingAmount;
+      }
+      const currency = getOrderCurrency(order);
+      currencyBreakdown[currency] = (currencyBreakdown[currency] || 0) + amount;
+
       totalQuantity += Number(order.total_quantity ?? order.quantity ?? 0);
       const status = order.status || 'unknown';
       statusBreakdown[status] = (statusBreakdown[status] || 0) + 1;
@@ -653,10 +764,10 @@ async function fetchAdminStats(): Promise<AdminStats> {
     return {
       approvedCount: statusBreakdown['completed'] || 0,
       pendingCount: statusBreakdown['pending'] || 0,
-      totalUSD: 0,
-      totalBRL: 0,
-      totalLTC: 0,
+      reportingCurrency: SHOP_REPORTING_CURRENCY,
       totalAmount,
+      currencyBreakdown,
+      unconvertedCount,
       totalQuantity,
       orderCount: orders.length,
       statusBreakdown,
@@ -669,10 +780,10 @@ async function fetchAdminStats(): Promise<AdminStats> {
     return { 
       approvedCount: 0, 
       pendingCount: 0, 
-      totalUSD: 0, 
-      totalBRL: 0, 
-      totalLTC: 0,
+      reportingCurrency: SHOP_REPORTING_CURRENCY,
       totalAmount: 0,
+      currencyBreakdown: {},
+      unconvertedCount: 0,
       totalQuantity: 0,
       orderCount: 0,
       statusBreakdown: {},
@@ -695,7 +806,7 @@ async function fetchPendingOrders(): Promise<any[]> {
     
     const { data, error } = await supabase
       .from('shop_orders')
-      .select('id,user_id,product_name,order_type,payment_method,status,created_at,total_amount,total_quantity,amount_paid,quantity')
+      .select('id,user_id,product_name,order_type,payment_method,status,created_at,total_amount,total_quantity,amount_paid,quantity,amount,currency,metadata')
       .eq('status', 'pending')
       .order('created_at', { ascending: false })
       .limit(100);
@@ -736,7 +847,7 @@ async function renderAdminPendingOrders(): Promise<void> {
     list.innerHTML = orders.map(order => {
       const date = new Date(order.created_at).toLocaleString('en-US');
       const orderId = String(order.id || '').slice(0, 12);
-      const amount = parseFloat(String(order.total_amount ?? order.amount_paid ?? 0)).toFixed(2);
+      const amount = formatOrderAmount(order);
       const quantity = Number(order.total_quantity ?? order.quantity ?? 0);
       const paymentMethod = sanitizeHTML(String(order.payment_method || 'N/A').toUpperCase());
       const productName = sanitizeHTML(String(order.product_name || 'N/A'));
@@ -760,7 +871,7 @@ async function renderAdminPendingOrders(): Promise<void> {
             </div>
             <div class="admin-order-row">
               <span>💰 Amount:</span>
-              <span class="order-value">$ ${amount}</span>
+              <span class="order-value">${amount}</span>
             </div>
             <div class="admin-order-row">
               <span>💳 Method:</span>
@@ -844,7 +955,7 @@ async function renderAdminHistoryOrders(): Promise<void> {
           ${orders.map((order, idx) => {
             const orderId = String(order.id || '').slice(0, 12);
             const date = new Date(order.created_at).toLocaleString('en-US');
-            const amount = parseFloat(order.total_amount || 0).toFixed(2);
+            const amount = formatOrderAmount(order);
             const quantity = order.total_quantity || 0;
             const status = order.status || 'unknown';
             const method = order.payment_method || 'N/A';
@@ -855,7 +966,9 @@ async function renderAdminHistoryOrders(): Promise<void> {
               'completed': '#22c55e',
               'pending': '#f59e0b',
               'cancelled': '#ef4444',
-              'failed': '#ec4899'
+              'failed': '#ec4899',
+              'refunded': '#a855f7',
+              'disputed': '#dc2626'
             };
             const color = statusColor[status] || '#6b7280';
             
@@ -863,7 +976,9 @@ async function renderAdminHistoryOrders(): Promise<void> {
               'completed': '✅',
               'pending': '⏳',
               'cancelled': '❌',
-              'failed': '⚠️'
+              'failed': '⚠️',
+              'refunded': '↩️',
+              'disputed': '🚨'
             };
             const emoji = statusEmoji[status] || '❓';
             
@@ -887,7 +1002,7 @@ async function renderAdminHistoryOrders(): Promise<void> {
                   </div>
                   <div class="admin-order-row">
                     <span>💰 Amount:</span>
-                    <span><strong>$ ${amount}</strong></span>
+                    <span><strong>${amount}</strong></span>
                   </div>
                   <div class="admin-order-row">
                     <span>📦 Quantity:</span>
@@ -907,6 +1022,9 @@ async function renderAdminHistoryOrders(): Promise<void> {
                       <span><code>${sanitizeHTML(JSON.stringify(order.metadata))}</code></span>
                     </div>
                   ` : ''}
+                  ${status === 'success' && !order.metadata?.refund_requested_at ? `
+                    <button class="reject-btn refund-btn" data-order-id="${escapeAttr(order.id)}" onclick="window.handleRefundOrder(this.dataset.orderId)">↩️ Refund via ${sanitizeHTML(method)}</button>
+                  ` : ''}
                 </div>
               </div>
             `;
@@ -927,6 +1045,113 @@ async function renderAdminHistoryOrders(): Promise<void> {
   }
 }
 
+/**
+ * Renderiza ordens estornadas (reembolso/disputa) e a dívida de diamantes
+ */
+async function renderAdminDisputedOrders(): Promise<void> {
+  try {
+    const { isAdmin } = await checkIsAdmin();
+    if (!isAdmin) {
+      throw new Error('Unauthorized');
+    }
+
+    const [{ data: orders, error }, { data: debtors }] = await Promise.all([
+      supabase
+        .from('shop_orders')
+        .select('id,user_id,product_name,order_type,payment_method,status,created_at,updated_at,total_amount,quantity,amount,currency,metadata')
+        .in('status', ['refunded', 'disputed'])
+        .order('updated_at', { ascending: false })
+        .limit(100),
+      supabase
+        .from('player_stats')
+        .select('user_id,username,diamond_debt')
+        .gt('diamond_debt', 0)
+        .order('diamond_debt', { ascending: false })
+        .limit(50)
+    ]);
+
+    const list = document.getElementById('admin-disputes-list');
+    if (!list) return;
+
+    if (error || !orders || orders.length === 0) {
+      list.innerHTML = '<p class="no-orders">No refunds or disputes.</p>';
+      return;
+    }
+
+    const disputedCount = orders.filter(o => o.status === 'disputed').length;
+    const totalDebt = (debtors || []).reduce((sum, d) => sum + Number(d.diamond_debt || 0), 0);
+
+    list.innerHTML = `
+      <div class="admin-history-container">
+        <div class="admin-history-summary">
+          <p>🚨 <strong>${disputedCount}</strong> disputed • ↩️ <strong>${orders.length - disputedCount}</strong> refunded • 💎 <strong>${totalDebt}</strong> diamonds in debt (${(debtors || []).length} players)</p>
+          ${(debtors || []).length ? `
+            <div class="admin-debtors">
+              ${(debtors || []).map(d => `<span class="stat-item">${sanitizeHTML(d.username || String(d.user_id).slice(0, 8))}: <strong>${Number(d.diamond_debt)} 💎</strong></span>`).join('')}
+            </div>
+          ` : ''}
+        </div>
+        <div class="admin-history-list">
+          ${orders.map(order => {
+            const reversal = order.metadata?.reversal || {};
+            const isDispute = order.status === 'disputed';
+            const color = isDispute ? '#dc2626' : '#a855f7';
+            const errors: string[] = Array.isArray(reversal.errors) ? reversal.errors : [];
+
+            return `
+              <div class="admin-order-card" style="border-left: 4px solid ${color}">
+                <div class="admin-order-header">
+                  <span class="admin-order-id">#${sanitizeHTML(String(order.id || '').slice(0, 12))}</span>
+                  <span class="admin-order-status" style="color: ${color}">${isDispute ? '🚨 disputed' : '↩️ refunded'}</span>
+                </div>
+                <div class="admin-order-body">
+                  <div class="admin-order-row">
+                    <span>👤 User ID:</span>
+                    <span>${sanitizeHTML(order.user_id || 'N/A')}</span>
+                  </div>
+                  <div class="admin-order-row">
+                    <span>📋 Product:</span>
+                    <span>${sanitizeHTML(String(order.product_name || 'N/A'))} (${sanitizeHTML(String(order.payment_method || 'N/A').toUpperCase())})</span>
+                  </div>
+                  <div class="admin-order-row">
+                    <span>💰 Amount:</span>
+                    <span>${formatOrderAmount(order)}</span>
+                  </div>
+                  <div class="admin-order-row">
+                    <span>📝 Reason:</span>
+                    <span>${sanitizeHTML(String(reversal.reason || 'N/A'))}</span>
+                  </div>
+                  <div class="admin-order-row">
+                    <span>💎 Clawed back:</span>
+                    <span><strong>${Number(reversal.clawed_back_diamonds || 0)}</strong> (was ${sanitizeHTML(String(reversal.previous_status || 'N/A'))})</span>
+                  </div>
+                  <div class="admin-order-row">
+                    <span>🕒 Reversed at:</span>
+                    <span>${reversal.reversed_at ? new Date(reversal.reversed_at).toLocaleString('en-US') : 'N/A'}</span>
+                  </div>
+                  ${errors.length ? `
+                    <div class="admin-order-row">
+                      <span>⚠️ Needs review:</span>
+                      <span><code>${sanitizeHTML(errors.join('; '))}</code></span>
+                    </div>
+                  ` : ''}
+                </div>
+              </div>
+            `;
+          }).join('')}
+        </div>
+      </div>
+    `;
+  } catch (err) {
+    ErrorHandler.handleError('Error rendering disputes', {
+      category: ErrorCategory.UNKNOWN,
+      severity: ErrorSeverity.ERROR,
+      details: err,
+      showToUser: false
+    });
+  }
+}
+
 // ============================================================
 // 🔐 ORDER HANDLERS SEGUROS (CHAMAM BACKEND)
 // ============================================================
@@ -1021,11 +1246,11 @@ export async function handleApproveOrder(orderId: string): Promise<void> {
       const stats = await fetchAdminStats();
       const pendingCountEl = document.getElementById('admin-pending-count');
       const approvedCountEl = document.getElementById('admin-approved-count');
-      const totalBrlEl = document.getElementById('admin-total-brl');
+      const totalAmountEl = document.getElementById('admin-total-amount');
       
       if (pendingCountEl) pendingCountEl.textContent = String(stats.pendingCount);
       if (approvedCountEl) approvedCountEl.textContent = String(stats.approvedCount);
-      if (totalBrlEl) totalBrlEl.textContent = `R$ ${stats.totalBRL.toFixed(2)}`;
+      if (totalAmountEl) totalAmountEl.textContent = formatCurrency(stats.totalAmount, stats.reportingCurrency);
       
       alert(result.message || '✅ Order approved successfully!');
     }
@@ -1062,6 +1287,46 @@ export async function handleApproveOrder(orderId: string): Promise<void> {
   }
 }
 
+/**
+ * Pede o reembolso de uma ordem concluída ao gateway; o estorno (diamantes,
+ * assinatura) é aplicado quando o webhook de reembolso chega.
+ */
+export async function handleRefundOrder(orderId: string): Promise<void> {
+  const btn = document.querySelector(`.refund-btn[data-order-id="${orderId}"]`) as HTMLButtonElement | null;
+
+  try {
+    const { isAdmin, role } = await checkIsAdmin();
+    if (!isAdmin || role !== 'admin') {
+      alert('❌ Only admins can refund orders');
+      return;
+    }
+
+    if (!confirm('↩️ Refund this order through its payment gateway? The diamonds will be clawed back when the refund is confirmed.')) return;
+
+    if (btn) {
+      btn.disabled = true;
+      btn.textContent = '⏳ Refunding...';
+    }
+
+    await callAdminApi('refundOrder', { orderId });
+    alert('✅ Refund requested!');
+    await renderAdminHistoryOrders();
+  } catch (err) {
+    ErrorHandler.handleError('❌ Refund error', {
+      category: ErrorCategory.UNKNOWN,
+      severity: ErrorSeverity.ERROR,
+      details: err,
+      showToUser: false
+    });
+    alert('❌ Error: ' + ((err as any)?.message || String(err)));
+
+    if (btn) {
+      btn.disabled = false;
+      btn.textContent = '↩️ Refund';
+    }
+  }
+}
+
 /**
  * Handler seguro para rejeitar pedido
  */
@@ -1182,6 +1447,1283 @@ export async function handleRejectOrder(orderId: string): Promise<void> {
   }
 }
 
+// ============================================================
+// 🎁 CASE EDITOR (CATÁLOGO VERSIONADO)
+// ============================================================
+
+const NEW_CASE_TEMPLATE: CatalogCase = {
+  id: '',
+  name: '',
+  icon: '📦',
+  iconImage: '',
+  price: 1,
+  color: '#6b7280',
+  items: [{ name: '', icon: '📦', minValue: 0.1, maxValue: 0.5, rarityIndex: 0 }]
+};
+
+function escapeAttr(str: string): string {
+  return String(str)
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function formatPercent(value: number, digits: number = 2): string {
+  return Number.isFinite(value) ? `${(value * 100).toFixed(digits)}%` : '—';
+}
+
+function formatMoney(value: number): string {
+  return Number.isFinite(value) ? `$ ${value.toFixed(2)}` : '—';
+}
+
+/**
+ * Chamada autenticada ao backend admin (mesmo fluxo de approve/reject)
+ */
+async function callAdminApi(action: string, payload: Record<string, unknown> = {}): Promise<any> {
+  const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+  if (sessionError || !session) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch('/api/_admin', {
+    method: 'POST',
+    headers: await addCsrfHeader({
+      'Content-Type': 'application/json',
+    }),
+    body: JSON.stringify({
+      action,
+      userId: window.currentUser.id,
+      authToken: session.access_token,
+      ...payload
+    })
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || 'Unknown error');
+  }
+  return result;
+}
+
+/**
+ * Renderiza aba de Cases
+ */
+async function renderAdminCasesTab(force: boolean = false): Promise<void> {
+  try {
+    const container = document.getElementById('admin-content');
+    if (!container) return;
+
+    document.getElementById('admin-purchases-section')?.classList.add('hidden');
+    document.getElementById('admin-support-section')?.classList.add('hidden');
+    document.getElementById('admin-shop-section')?.classList.add('hidden');
+    document.getElementById('admin-promos-section')?.classList.add('hidden');
+
+    let casesSection = document.getElementById('admin-cases-section');
+    if (!casesSection) {
+      casesSection = document.createElement('div');
+      casesSection.id = 'admin-cases-section';
+      casesSection.classList.add('admin-section');
+      container.appendChild(casesSection);
+    }
+    casesSection.classList.remove('hidden');
+    bindCaseEditorOnce(casesSection);
+
+    // O refresh em tempo real dos pedidos não pode apagar uma edição em andamento
+    if (caseEditor.catalog && !force) return;
+
+    casesSection.innerHTML = '<div class="loading">Loading catalog...</div>';
+    const result = await callAdminApi('getCaseCatalog');
+    caseEditor.catalog = result.catalog;
+    caseEditor.canEdit = !!result.canEdit;
+
+    if (caseEditor.draft && !caseEditor.isNew) {
+      const fresh = caseEditor.catalog!.cases.find(c => c.id === caseEditor.draft!.id);
+      caseEditor.draft = fresh ? structuredClone(fresh) : null;
+      caseEditor.simulation = null;
+    }
+
+    renderCaseEditor();
+  } catch (err) {
+    ErrorHandler.handleError('Error rendering cases tab', {
+      category: ErrorCategory.UNKNOWN,
+      severity: ErrorSeverity.ERROR,
+      details: err,
+      showToUser: false
+    });
+    const casesSection = document.getElementById('admin-cases-section');
+    if (casesSection) {
+      casesSection.innerHTML = `<p class="admin-cases-empty">❌ ${sanitizeHTML((err as Error)?.message || 'Failed to load catalog')}</p>`;
+    }
+  }
+}
+
+function renderCaseEditor(): void {
+  const section = document.getElementById('admin-cases-section');
+  const catalog = caseEditor.catalog;
+  if (!section || !catalog) return;
+
+  const caseRows = catalog.cases.map(c => {
+    const report = computeCaseOdds(c, catalog.rarities);
+    const active = caseEditor.draft && !caseEditor.isNew && caseEditor.draft.id === c.id ? 'active' : '';
+    return `
+      <button class="admin-case-row ${active}" data-case-action="edit" data-case-id="${escapeAttr(c.id)}">
+        <span class="admin-case-row-name">${sanitizeHTML(c.icon)} ${sanitizeHTML(c.name)}</span>
+        <span class="admin-case-row-price">${formatMoney(c.price)}</span>
+        <span class="admin-case-row-rtp ${report.houseEdge < 0 ? 'negative' : ''}" ${c.pity?.length ? 'title="Base odds, excl. pity"' : ''}>${c.pity?.length ? 'Base RTP' : 'RTP'} ${formatPercent(report.returnToPlayer, 1)}</span>
+      </button>
+    `;
+  }).join('');
+
+  section.innerHTML = `
+    <div class="admin-cases-container">
+      <div class="admin-cases-list">
+        <div class="admin-cases-list-head">
+          <strong>Catalog v${catalog.version}</strong>
+          <div class="admin-cases-list-actions">
+            <button class="admin-case-btn secondary" data-case-action="reload">🔄 Reload</button>
+            ${caseEditor.canEdit ? '<button class="admin-case-btn" data-case-action="new">➕ New case</button>' : ''}
+          </div>
+        </div>
+        ${caseRows}
+      </div>
+      <div class="admin-case-editor">
+        ${caseEditor.draft ? renderCaseDraftForm(caseEditor.draft) : '<p class="admin-cases-empty">Select a case to edit or create a new one.</p>'}
+      </div>
+    </div>
+  `;
+
+  renderCaseReport();
+  renderCaseSimulation();
+}
+
+function renderCaseDraftForm(draft: CatalogCase): string {
+  const catalog = caseEditor.catalog!;
+  const disabled = caseEditor.canEdit ? '' : 'disabled';
+
+  const rarityOptions = (selected: number) => catalog.rarities.map((r, idx) => `
+    <option value="${idx}" ${idx === selected ? 'selected' : ''}>${sanitizeHTML(r.icon)} ${sanitizeHTML(r.name)} (${r.chance}%)</option>
+  `).join('');
+
+  const itemRows = draft.items.map((item, idx) => `
+    <tr>
+      <td><input type="text" maxlength="8" data-item-index="${idx}" data-item-field="icon" value="${escapeAttr(item.icon)}" ${disabled}></td>
+      <td><input type="text" maxlength="40" data-item-index="${idx}" data-item-field="name" value="${escapeAttr(item.name)}" ${disabled}></td>
+      <td><select data-item-index="${idx}" data-item-field="rarityIndex" ${disabled}>${rarityOptions(item.rarityIndex)}</select></td>
+      <td><input type="number" min="0" step="0.01" data-item-index="${idx}" data-item-field="minValue" value="${item.minValue}" ${disabled}></td>
+      <td><input type="number" min="0" step="0.01" data-item-index="${idx}" data-item-field="maxValue" value="${item.maxValue}" ${disabled}></td>
+      <td>${caseEditor.canEdit && draft.items.length > 1 ? `<button class="admin-case-btn danger" data-case-action="remove-item" data-item-index="${idx}">✕</button>` : ''}</td>
+    </tr>
+  `).join('');
+
+  const pityValue = (value: number | undefined) => value === undefined || Number.isNaN(value) ? '' : value;
+  const pityRows = (draft.pity || []).map((rule, idx) => `
+    <tr>
+      <td><select data-pity-index="${idx}" data-pity-field="rarityIndex" ${disabled}>${rarityOptions(rule.rarityIndex)}</select></td>
+      <td><input type="number" min="1" step="1" data-pity-index="${idx}" data-pity-field="softStart" value="${pityValue(rule.softStart)}" ${disabled}></td>
+      <td><input type="number" min="0.01" max="100" step="0.01" data-pity-index="${idx}" data-pity-field="softStep" value="${pityValue(rule.softStep)}" ${disabled}></td>
+      <td><input type="number" min="2" step="1" data-pity-index="${idx}" data-pity-field="hardAt" value="${pityValue(rule.hardAt)}" ${disabled}></td>
+      <td>${caseEditor.canEdit ? `<button class="admin-case-btn danger" data-case-action="remove-pity" data-pity-index="${idx}">✕</button>` : ''}</td>
+    </tr>
+  `).join('');
+
+  return `
+    <div class="admin-case-form">
+      <h3>${caseEditor.isNew ? '➕ New case' : `✏️ ${sanitizeHTML(draft.name)}`}</h3>
+      <div class="admin-case-fields">
+        <label>Id <input type="text" maxlength="40" data-field="id" value="${escapeAttr(draft.id)}" ${caseEditor.isNew ? disabled : 'disabled'}></label>
+        <label>Name <input type="text" maxlength="40" data-field="name" value="${escapeAttr(draft.name)}" ${disabled}></label>
+        <label>Icon <input type="text" maxlength="8" data-field="icon" value="${escapeAttr(draft.icon)}" ${disabled}></label>
+        <label>Image <input type="text" maxlength="200" data-field="iconImage" value="${escapeAttr(draft.iconImage)}" ${disabled}></label>
+        <label>Price <input type="number" min="0.01" step="0.01" data-field="price" value="${draft.price}" ${disabled}></label>
+        <label>Color <input type="color" data-field="color" value="${escapeAttr(draft.color)}" ${disabled}></label>
+      </div>
+
+      <table class="admin-case-items">
+        <thead>
+          <tr><th>Icon</th><th>Item</th><th>Rarity</th><th>Min</th><th>Max</th><th></th></tr>
+        </thead>
+        <tbody>${itemRows}</tbody>
+      </table>
+      ${caseEditor.canEdit ? '<button class="admin-case-btn secondary" data-case-action="add-item">➕ Add item</button>' : ''}
+
+      <div class="breakdown-title">🛡️ Pity rules</div>
+      ${pityRows ? `
+        <table class="admin-case-items">
+          <thead>
+            <tr><th>Rarity or better</th><th>Soft pity from</th><th>+pp per opening</th><th>Guaranteed at</th><th></th></tr>
+          </thead>
+          <tbody>${pityRows}</tbody>
+        </table>
+      ` : '<small class="admin-cases-note">No pity: every opening uses the base odds.</small>'}
+      ${caseEditor.canEdit ? '<button class="admin-case-btn secondary" data-case-action="add-pity">➕ Add pity rule</button>' : ''}
+
+      <div id="admin-case-report" class="admin-case-report"></div>
+
+      <div class="admin-case-simulate">
+        <label>Monte-Carlo openings
+          <input type="number" id="admin-case-sim-count" min="1" max="${MAX_SIMULATION_OPENINGS}" step="1000" value="10000">
+        </label>
+        <button class="admin-case-btn secondary" data-case-action="simulate">🎲 Run simulation</button>
+      </div>
+      <div id="admin-case-simulation" class="admin-case-report"></div>
+
+      <div class="admin-case-actions">
+        <button class="admin-case-btn secondary" data-case-action="cancel">Cancel</button>
+        ${caseEditor.canEdit && !caseEditor.isNew ? '<button class="admin-case-btn danger" data-case-action="retire">🗑️ Retire case</button>' : ''}
+        ${caseEditor.canEdit ? `<button class="admin-case-btn" data-case-action="save">💾 Publish v${caseEditor.catalog!.version + 1}</button>` : ''}
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Odds exatas do rascunho, recalculadas a cada alteração do formulário
+ */
+function renderCaseReport(): void {
+  const target = document.getElementById('admin-case-report');
+  const catalog = caseEditor.catalog;
+  if (!target || !catalog || !caseEditor.draft) return;
+
+  const report = computeCaseOdds(caseEditor.draft, catalog.rarities);
+  const rows = report.items.map(item => `
+    <tr>
+      <td>${sanitizeHTML(item.icon)} ${sanitizeHTML(item.name || '—')}</td>
+      <td style="color: ${escapeAttr(item.rarityColor)}">${sanitizeHTML(item.rarity)}</td>
+      <td>${formatMoney(item.minValue)} – ${formatMoney(item.maxValue)}</td>
+      <td>${formatPercent(item.probability, 3)}</td>
+      <td>${formatMoney(item.contribution)}</td>
+    </tr>
+  `).join('');
+
+  // O relatório analítico não modela o pity: EV e house edge são das odds base
+  const hasPity = Boolean(caseEditor.draft.pity?.length);
+
+  target.innerHTML = `
+    ${hasPity ? '<div class="breakdown-title">📐 Base odds, excl. pity</div>' : ''}
+    <div class="admin-case-metrics">
+      <div class="stat-item"><span>Expected value</span>: <strong>${formatMoney(report.expectedValue)}</strong></div>
+      <div class="stat-item"><span>Return to player</span>: <strong>${formatPercent(report.returnToPlayer)}</strong></div>
+      <div class="stat-item"><span>House edge</span>: <strong class="${report.houseEdge < 0 ? 'negative' : ''}">${formatPercent(report.houseEdge)}</strong></div>
+      <div class="stat-item"><span>Std. deviation</span>: <strong>${formatMoney(report.stdDev)}</strong> <small>(variance ${Number.isFinite(report.variance) ? report.variance.toFixed(2) : '—'})</small></div>
+      <div class="stat-item"><span>Chance of profit</span>: <strong>${formatPercent(report.profitChance)}</strong></div>
+    </div>
+    ${report.houseEdge < 0 ? '<p class="admin-case-warning">⚠️ Players win on average with these odds.</p>' : ''}
+    <table class="admin-case-odds">
+      <thead>
+        <tr><th>Item</th><th>Rarity</th><th>Value range</th><th>Probability</th><th>EV share</th></tr>
+      </thead>
+      <tbody>${rows}</tbody>
+    </table>
+    <small class="admin-cases-note">List price, before skill tree discounts.${hasPity ? ' Pity raises the real return: run the simulation for EV and house edge with pity.' : ''}</small>
+  `;
+}
+
+function renderCaseSimulation(): void {
+  const target = document.getElementById('admin-case-simulation');
+  if (!target) return;
+
+  const sim = caseEditor.simulation;
+  if (!sim) {
+    target.innerHTML = '';
+    return;
+  }
+
+  const rarityRows = Object.entries(sim.rarityCounts)
+    .map(([rarity, count]) => `<div class="stat-item"><span>${sanitizeHTML(rarity)}</span>: <strong>${count}</strong> (${formatPercent(count / sim.openings)})</div>`)
+    .join('');
+
+  target.innerHTML = `
+    <div class="breakdown-title">🎲 Simulation (${sim.openings} openings)</div>
+    <div class="admin-case-metrics">
+      <div class="stat-item"><span>Total cost</span>: <strong>${formatMoney(sim.totalCost)}</strong></div>
+      <div class="stat-item"><span>Total return</span>: <strong>${formatMoney(sim.totalReturn)}</strong></div>
+      <div class="stat-item"><span>Return to player</span>: <strong>${formatPercent(sim.returnToPlayer)}</strong></div>
+      <div class="stat-item"><span>House edge</span>: <strong class="${sim.houseEdge < 0 ? 'negative' : ''}">${formatPercent(sim.houseEdge)}</strong></div>
+      <div class="stat-item"><span>Std. deviation</span>: <strong>${formatMoney(sim.stdDev)}</strong></div>
+      <div class="stat-item"><span>Best drop</span>: <strong>${formatMoney(sim.bestValue)}</strong></div>
+      <div class="stat-item"><span>Profitable openings</span>: <strong>${formatPercent(sim.profitableOpenings / sim.openings)}</strong></div>
+    </div>
+    <div class="admin-case-metrics">${rarityRows}</div>
+  `;
+}
+
+function updateDraftFromInput(target: HTMLInputElement | HTMLSelectElement): void {
+  const draft = caseEditor.draft;
+  if (!draft) return;
+
+  const field = target.dataset.field;
+  if (field) {
+    if (field === 'price') {
+      draft.price = parseFloat(target.value);
+    } else if (field === 'id' || field === 'name' || field === 'icon' || field === 'iconImage' || field === 'color') {
+      draft[field] = target.value;
+    }
+  }
+
+  const itemField = target.dataset.itemField;
+  const item = draft.items[Number(target.dataset.itemIndex)];
+  if (itemField && item) {
+    if (itemField === 'minValue' || itemField === 'maxValue') {
+      item[itemField] = parseFloat(target.value);
+    } else if (itemField === 'rarityIndex') {
+      item.rarityIndex = Number(target.value);
+    } else if (itemField === 'name' || itemField === 'icon') {
+      item[itemField] = target.value;
+    }
+  }
+
+  // Campo de pity vazio = regra sem aquela parte (soft ou hard)
+  const pityField = target.dataset.pityField;
+  const rule = draft.pity?.[Number(target.dataset.pityIndex)];
+  if (pityField && rule) {
+    if (pityField === 'rarityIndex') {
+      rule.rarityIndex = Number(target.value);
+    } else if (pityField === 'softStart' || pityField === 'softStep' || pityField === 'hardAt') {
+      if (target.value === '') delete rule[pityField];
+      else rule[pityField] = parseFloat(target.value);
+    }
+  }
+
+  caseEditor.simulation = null;
+  renderCaseReport();
+  renderCaseSimulation();
+}
+
+function bindCaseEditorOnce(section: HTMLElement): void {
+  if (caseEditorBound) return;
+
+  section.addEventListener('input', (e: Event) => {
+    const target = e.target;
+    if (target instanceof HTMLInputElement || target instanceof HTMLSelectElement) {
+      if (target.id === 'admin-case-sim-count') return;
+      updateDraftFromInput(target);
+    }
+  });
+
+  section.addEventListener('click', (e: MouseEvent) => {
+    const target = e.target;
+    if (!(target instanceof Element)) return;
+
+    const btn = target.closest('[data-case-action]') as HTMLElement | null;
+    if (!btn || caseEditor.busy) return;
+
+    handleCaseEditorAction(btn.dataset.caseAction || '', btn);
+  });
+
+  caseEditorBound = true;
+}
+
+function handleCaseEditorAction(action: string, btn: HTMLElement): void {
+  const catalog = caseEditor.catalog;
+  if (!catalog) return;
+
+  switch (action) {
+    case 'reload':
+      renderAdminCasesTab(true);
+      return;
+    case 'new':
+      caseEditor.draft = structuredClone(NEW_CASE_TEMPLATE);
+      caseEditor.isNew = true;
+      caseEditor.simulation = null;
+      renderCaseEditor();
+      return;
+    case 'edit': {
+      const selected = catalog.cases.find(c => c.id === btn.dataset.caseId);
+      if (!selected) return;
+      caseEditor.draft = structuredClone(selected);
+      caseEditor.isNew = false;
+      caseEditor.simulation = null;
+      renderCaseEditor();
+      return;
+    }
+    case 'cancel':
+      caseEditor.draft = null;
+      caseEditor.isNew = false;
+      caseEditor.simulation = null;
+      renderCaseEditor();
+      return;
+    case 'add-item':
+      if (!caseEditor.draft) return;
+      caseEditor.draft.items.push({ ...NEW_CASE_TEMPLATE.items[0] });
+      renderCaseEditor();
+      return;
+    case 'remove-item':
+      if (!caseEditor.draft || caseEditor.draft.items.length <= 1) return;
+      caseEditor.draft.items.splice(Number(btn.dataset.itemIndex), 1);
+      renderCaseEditor();
+      return;
+    case 'add-pity': {
+      const draft = caseEditor.draft;
+      if (!draft) return;
+      // Começa pela raridade mais alta do case, com garantia em 50 aberturas
+      const topRarity = Math.max(...draft.items.map(it => it.rarityIndex));
+      draft.pity = [...(draft.pity || []), { rarityIndex: topRarity, hardAt: 50 }];
+      renderCaseEditor();
+      return;
+    }
+    case 'remove-pity':
+      if (!caseEditor.draft?.pity) return;
+      caseEditor.draft.pity.splice(Number(btn.dataset.pityIndex), 1);
+      if (caseEditor.draft.pity.length === 0) delete caseEditor.draft.pity;
+      renderCaseEditor();
+      return;
+    case 'simulate':
+      runCaseSimulation();
+      return;
+    case 'save':
+      saveCaseDraft();
+      return;
+    case 'retire':
+      retireCaseDraft();
+      return;
+  }
+}
+
+async function runCaseSimulation(): Promise<void> {
+  const draft = caseEditor.draft;
+  if (!draft) return;
+
+  const countInput = document.getElementById('admin-case-sim-count') as HTMLInputElement | null;
+  const simulations = Math.floor(Number(countInput?.value || 0));
+  if (!Number.isInteger(simulations) || simulations < 1 || simulations > MAX_SIMULATION_OPENINGS) {
+    alert(`❌ Openings must be between 1 and ${MAX_SIMULATION_OPENINGS}`);
+    return;
+  }
+
+  const target = document.getElementById('admin-case-simulation');
+  if (target) target.innerHTML = '<div class="loading">Simulating...</div>';
+
+  caseEditor.busy = true;
+  try {
+    const result = await callAdminApi('analyzeCase', { caseData: draft, simulations });
+    caseEditor.simulation = result.simulation;
+  } catch (err) {
+    caseEditor.simulation = null;
+    alert('❌ Error: ' + ((err as any)?.message || String(err)));
+  } finally {
+    caseEditor.busy = false;
+    renderCaseSimulation();
+  }
+}
+
+/**
+ * Publica o rascunho como nova versão do catálogo
+ */
+async function saveCaseDraft(): Promise<void> {
+  const draft = caseEditor.draft;
+  const catalog = caseEditor.catalog;
+  if (!draft || !catalog || !caseEditor.canEdit) return;
+
+  const confirmar = confirm(`💾 Publish catalog v${catalog.version + 1} with ${caseEditor.isNew ? 'new case' : 'changes to'} "${draft.name || draft.id}"?`);
+  if (!confirmar) return;
+
+  caseEditor.busy = true;
+  try {
+    const result = await callAdminApi('saveCase', {
+      caseData: draft,
+      baseVersion: catalog.version,
+      isNew: caseEditor.isNew
+    });
+
+    caseEditor.catalog = result.catalog;
+    const saved = result.catalog.cases.find((c: CatalogCase) => c.id === draft.id.trim().toLowerCase());
+    caseEditor.draft = saved ? structuredClone(saved) : null;
+    caseEditor.isNew = false;
+    caseEditor.simulation = null;
+    renderCaseEditor();
+
+    loadCatalog({ force: true });
+    alert(`✅ Catalog v${result.catalog.version} published!`);
+  } catch (err) {
+    const message = (err as any)?.message || String(err);
+    if (message === 'CATALOG_CHANGED') {
+      alert('⚠️ The catalog was changed by someone else. It was reloaded; review and publish again.');
+      caseEditor.busy = false;
+      await renderAdminCasesTab(true);
+      return;
+    }
+    alert('❌ Error: ' + message);
+  } finally {
+    caseEditor.busy = false;
+  }
+}
+
+async function retireCaseDraft(): Promise<void> {
+  const draft = caseEditor.draft;
+  const catalog = caseEditor.catalog;
+  if (!draft || !catalog || !caseEditor.canEdit || caseEditor.isNew) return;
+
+  const confirmar = confirm(`🗑️ Retire "${draft.name}"? It will no longer be sold from catalog v${catalog.version + 1}.`);
+  if (!confirmar) return;
+
+  caseEditor.busy = true;
+  try {
+    const result = await callAdminApi('retireCase', { caseId: draft.id, baseVersion: catalog.version });
+
+    caseEditor.catalog = result.catalog;
+    caseEditor.draft = null;
+    caseEditor.simulation = null;
+    renderCaseEditor();
+
+    loadCatalog({ force: true });
+    alert(`✅ Case retired (catalog v${result.catalog.version})`);
+  } catch (err) {
+    const message = (err as any)?.message || String(err);
+    if (message === 'CATALOG_CHANGED') {
+      alert('⚠️ The catalog was changed by someone else. It was reloaded; try again.');
+      caseEditor.busy = false;
+      await renderAdminCasesTab(true);
+      return;
+    }
+    alert('❌ Error: ' + message);
+  } finally {
+    caseEditor.busy = false;
+  }
+}
+
+// ============================================================
+// SHOP TAB (PROMOÇÕES E BUNDLES AGENDADOS)
+// ============================================================
+
+function toDateTimeInput(iso: string): string {
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return '';
+  // datetime-local usa o fuso do navegador
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
+function fromDateTimeInput(value: string): string {
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? '' : new Date(time).toISOString();
+}
+
+function getScheduleStatus(startsAt: string, endsAt: string): { label: string; className: string } {
+  const now = Date.now();
+  if (Date.parse(endsAt) <= now) return { label: 'Ended', className: 'ended' };
+  if (Date.parse(startsAt) > now) return { label: 'Scheduled', className: 'scheduled' };
+  return { label: 'Live', className: 'live' };
+}
+
+function newShopDraft(kind: ShopDraft['kind']): ShopDraft {
+  const startsAt = new Date().toISOString();
+  const endsAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
+
+  if (kind === 'promotion') {
+    return {
+      kind,
+      isNew: true,
+      data: { id: '', type: 'flash_sale', label: '', percentage: 20, productIds: [], startsAt, endsAt }
+    };
+  }
+  return {
+    kind,
+    isNew: true,
+    data: {
+      id: '',
+      name: '',
+      icon: '🎁',
+      diamonds: 1000,
+      prices: { USD: 4.99, BRL: 29.99 },
+      availability: { label: 'Limited Offer', startsAt, endsAt }
+    }
+  };
+}
+
+/**
+ * Renderiza aba da Loja
+ */
+async function renderAdminShopTab(force: boolean = false): Promise<void> {
+  try {
+    const container = document.getElementById('admin-content');
+    if (!container) return;
+
+    document.getElementById('admin-purchases-section')?.classList.add('hidden');
+    document.getElementById('admin-support-section')?.classList.add('hidden');
+    document.getElementById('admin-cases-section')?.classList.add('hidden');
+    document.getElementById('admin-promos-section')?.classList.add('hidden');
+
+    let shopSection = document.getElementById('admin-shop-section');
+    if (!shopSection) {
+      shopSection = document.createElement('div');
+      shopSection.id = 'admin-shop-section';
+      shopSection.classList.add('admin-section');
+      container.appendChild(shopSection);
+    }
+    shopSection.classList.remove('hidden');
+    bindShopEditorOnce(shopSection);
+
+    if (shopEditor.catalog && !force) return;
+
+    shopSection.innerHTML = '<div class="loading">Loading shop catalog...</div>';
+    const result = await callAdminApi('getShopCatalog');
+    shopEditor.catalog = result.catalog;
+    shopEditor.canEdit = !!result.canEdit;
+    shopEditor.draft = null;
+
+    renderShopEditor();
+  } catch (err) {
+    ErrorHandler.handleError('Error rendering shop tab', {
+      category: ErrorCategory.UNKNOWN,
+      severity: ErrorSeverity.ERROR,
+      details: err,
+      showToUser: false
+    });
+    const shopSection = document.getElementById('admin-shop-section');
+    if (shopSection) {
+      shopSection.innerHTML = `<p class="admin-cases-empty">❌ ${sanitizeHTML((err as Error)?.message || 'Failed to load shop catalog')}</p>`;
+    }
+  }
+}
+
+function renderShopEditor(): void {
+  const section = document.getElementById('admin-shop-section');
+  const catalog = shopEditor.catalog;
+  if (!section || !catalog) return;
+
+  const selectedId = shopEditor.draft && !shopEditor.draft.isNew ? shopEditor.draft.data.id : null;
+
+  const promotionRows = catalog.promotions.map(p => {
+    const status = getScheduleStatus(p.startsAt, p.endsAt);
+    return `
+      <button class="admin-case-row ${selectedId === p.id ? 'active' : ''}" data-shop-action="edit-promotion" data-entry-id="${escapeAttr(p.id)}">
+        <span class="admin-case-row-name">${p.type === 'flash_sale' ? '🔥' : '🎁'} ${sanitizeHTML(p.label)}</span>
+        <span class="admin-shop-status ${status.className}">${status.label}</span>
+        <span class="admin-case-row-rtp">${p.type === 'flash_sale' ? '-' : '+'}${p.percentage}% · ${sanitizeHTML(p.productIds.join(', '))}</span>
+      </button>
+    `;
+  }).join('');
+
+  const bundleRows = catalog.packages.filter(p => p.availability).map(p => {
+    const status = getScheduleStatus(p.availability!.startsAt, p.availability!.endsAt);
+    return `
+      <button class="admin-case-row ${selectedId === p.id ? 'active' : ''}" data-shop-action="edit-bundle" data-entry-id="${escapeAttr(p.id)}">
+        <span class="admin-case-row-name">${sanitizeHTML(p.icon)} ${sanitizeHTML(p.name)}</span>
+        <span class="admin-shop-status ${status.className}">${status.label}</span>
+        <span class="admin-case-row-rtp">${p.diamonds}💎 · ${formatMoney(p.prices.USD)}</span>
+      </button>
+    `;
+  }).join('');
+
+  section.innerHTML = `
+    <div class="admin-cases-container">
+      <div class="admin-cases-list">
+        <div class="admin-cases-list-head">
+          <strong>Shop catalog v${catalog.version}</strong>
+          <div class="admin-cases-list-actions">
+            <button class="admin-case-btn secondary" data-shop-action="reload">🔄 Reload</button>
+          </div>
+        </div>
+        <div class="breakdown-title">🔥 Promotions</div>
+        ${promotionRows || '<small class="admin-cases-note">No promotions scheduled.</small>'}
+        ${shopEditor.canEdit ? '<button class="admin-case-btn secondary" data-shop-action="new-promotion">➕ New promotion</button>' : ''}
+        <div class="breakdown-title">🎁 Bundles</div>
+        ${bundleRows || '<small class="admin-cases-note">No bundles scheduled.</small>'}
+        ${shopEditor.canEdit ? '<button class="admin-case-btn secondary" data-shop-action="new-bundle">➕ New bundle</button>' : ''}
+      </div>
+      <div class="admin-case-editor">
+        ${shopEditor.draft ? renderShopDraftForm(shopEditor.draft) : '<p class="admin-cases-empty">Select a promotion or bundle to edit, or schedule a new one.</p>'}
+      </div>
+    </div>
+  `;
+}
+
+function renderShopDraftForm(draft: ShopDraft): string {
+  const catalog = shopEditor.catalog!;
+  const disabled = shopEditor.canEdit ? '' : 'disabled';
+  const idDisabled = draft.isNew ? disabled : 'disabled';
+
+  let fields = '';
+  let title = '';
+
+  if (draft.kind === 'promotion') {
+    const promotion = draft.data;
+    title = draft.isNew ? '➕ New promotion' : `✏️ ${sanitizeHTML(promotion.label)}`;
+
+    const productOptions = catalog.packages.map(pkg => `
+      <label class="admin-shop-product">
+        <input type="checkbox" data-shop-product="${escapeAttr(pkg.id)}" ${promotion.productIds.includes(pkg.id) ? 'checked' : ''} ${disabled}>
+        ${sanitizeHTML(pkg.icon)} ${sanitizeHTML(pkg.name)}
+      </label>
+    `).join('');
+
+    fields = `
+      <div class="admin-case-fields">
+        <label>Id <input type="text" maxlength="40" data-shop-field="id" value="${escapeAttr(promotion.id)}" ${idDisabled}></label>
+        <label>Type
+          <select data-shop-field="type" ${disabled}>
+            <option value="flash_sale" ${promotion.type === 'flash_sale' ? 'selected' : ''}>🔥 Flash sale (price discount)</option>
+            <option value="bonus" ${promotion.type === 'bonus' ? 'selected' : ''}>🎁 Bonus diamonds</option>
+          </select>
+        </label>
+        <label>Percentage <input type="number" min="1" max="${promotion.type === 'flash_sale' ? SHOP_MAX_DISCOUNT : 500}" step="1" data-shop-field="percentage" value="${promotion.percentage}" ${disabled}></label>
+        <label>Label <input type="text" maxlength="40" data-shop-field="label" value="${escapeAttr(promotion.label)}" placeholder="Auto" ${disabled}></label>
+        <label>Starts <input type="datetime-local" data-shop-field="startsAt" value="${toDateTimeInput(promotion.startsAt)}" ${disabled}></label>
+        <label>Ends <input type="datetime-local" data-shop-field="endsAt" value="${toDateTimeInput(promotion.endsAt)}" ${disabled}></label>
+      </div>
+      <div class="breakdown-title">📦 Packages</div>
+      <div class="admin-shop-products">${productOptions}</div>
+      <small class="admin-cases-note">Flash sales lower the checkout price; bonus promotions add diamonds and replace the first purchase bonus when bigger.</small>
+    `;
+  } else {
+    const bundle = draft.data;
+    const availability = bundle.availability!;
+    title = draft.isNew ? '➕ New bundle' : `✏️ ${sanitizeHTML(bundle.name)}`;
+
+    // USD e BRL obrigatórios; moeda vazia = cobrada em USD
+    const priceFields = SHOP_CURRENCIES.map(currency => `
+      <label>Price (${currency}${SHOP_REQUIRED_CURRENCIES.includes(currency) ? '' : ', optional'})
+        <input type="number" min="0.01" step="0.01" data-shop-field="price" data-currency="${currency}" value="${bundle.prices[currency] ?? ''}" ${disabled}>
+      </label>
+    `).join('');
+
+    fields = `
+      <div class="admin-case-fields">
+        <label>Id <input type="text" maxlength="40" data-shop-field="id" value="${escapeAttr(bundle.id)}" ${idDisabled}></label>
+        <label>Name <input type="text" maxlength="40" data-shop-field="name" value="${escapeAttr(bundle.name)}" ${disabled}></label>
+        <label>Icon <input type="text" maxlength="8" data-shop-field="icon" value="${escapeAttr(bundle.icon)}" ${disabled}></label>
+        <label>Diamonds <input type="number" min="1" step="1" data-shop-field="diamonds" value="${bundle.diamonds}" ${disabled}></label>
+        ${priceFields}
+        <label>Badge <input type="text" maxlength="40" data-shop-field="label" value="${escapeAttr(availability.label)}" ${disabled}></label>
+        <label>Starts <input type="datetime-local" data-shop-field="startsAt" value="${toDateTimeInput(availability.startsAt)}" ${disabled}></label>
+        <label>Ends <input type="datetime-local" data-shop-field="endsAt" value="${toDateTimeInput(availability.endsAt)}" ${disabled}></label>
+      </div>
+      <small class="admin-cases-note">Bundles are only listed and sold between the start and end dates.</small>
+    `;
+  }
+
+  return `
+    <div class="admin-case-form">
+      <h3>${title}</h3>
+      ${fields}
+      <div class="admin-case-actions">
+        <button class="admin-case-btn secondary" data-shop-action="cancel">Cancel</button>
+        ${shopEditor.canEdit && !draft.isNew ? '<button class="admin-case-btn danger" data-shop-action="remove">🗑️ Remove</button>' : ''}
+        ${shopEditor.canEdit ? `<button class="admin-case-btn" data-shop-action="save">💾 Publish v${catalog.version + 1}</button>` : ''}
+      </div>
+    </div>
+  `;
+}
+
+function updateShopDraftFromInput(target: HTMLInputElement | HTMLSelectElement): void {
+  const draft = shopEditor.draft;
+  if (!draft) return;
+
+  const productId = target.dataset.shopProduct;
+  if (productId && draft.kind === 'promotion' && target instanceof HTMLInputElement) {
+    const ids = draft.data.productIds.filter(id => id !== productId);
+    draft.data.productIds = target.checked ? [...ids, productId] : ids;
+    return;
+  }
+
+  const field = target.dataset.shopField;
+  if (!field) return;
+
+  if (draft.kind === 'promotion') {
+    const promotion = draft.data;
+    if (field === 'percentage') promotion.percentage = parseFloat(target.value);
+    else if (field === 'type') promotion.type = target.value === 'bonus' ? 'bonus' : 'flash_sale';
+    else if (field === 'startsAt' || field === 'endsAt') promotion[field] = fromDateTimeInput(target.value);
+    else if (field === 'id' || field === 'label') promotion[field] = target.value;
+    return;
+  }
+
+  const bundle = draft.data;
+  const availability = bundle.availability!;
+  if (field === 'diamonds') bundle.diamonds = Number(target.value);
+  else if (field === 'price' && isShopCurrency(target.dataset.currency)) {
+    const currency = target.dataset.currency;
+    if (target.value === '' && !SHOP_REQUIRED_CURRENCIES.includes(currency)) delete bundle.prices[currency];
+    else bundle.prices[currency] = parseFloat(target.value);
+  }
+  else if (field === 'startsAt' || field === 'endsAt') availability[field] = fromDateTimeInput(target.value);
+  else if (field === 'label') availability.label = target.value;
+  else if (field === 'id' || field === 'name' || field === 'icon') bundle[field] = target.value;
+}
+
+function bindShopEditorOnce(section: HTMLElement): void {
+  if (shopEditorBound) return;
+
+  section.addEventListener('change', (e: Event) => {
+    const target = e.target;
+    if (target instanceof HTMLInputElement || target instanceof HTMLSelectElement) {
+      updateShopDraftFromInput(target);
+      // O limite de porcentagem depende do tipo da promoção
+      if (target.dataset.shopField === 'type') renderShopEditor();
+    }
+  });
+
+  section.addEventListener('click', (e: MouseEvent) => {
+    const target = e.target;
+    if (!(target instanceof Element)) return;
+
+    const btn = target.closest('[data-shop-action]') as HTMLElement | null;
+    if (!btn || shopEditor.busy) return;
+
+    handleShopEditorAction(btn.dataset.shopAction || '', btn);
+  });
+
+  shopEditorBound = true;
+}
+
+function handleShopEditorAction(action: string, btn: HTMLElement): void {
+  const catalog = shopEditor.catalog;
+  if (!catalog) return;
+
+  switch (action) {
+    case 'reload':
+      renderAdminShopTab(true);
+      return;
+    case 'new-promotion':
+    case 'new-bundle':
+      shopEditor.draft = newShopDraft(action === 'new-promotion' ? 'promotion' : 'bundle');
+      renderShopEditor();
+      return;
+    case 'edit-promotion': {
+      const selected = catalog.promotions.find(p => p.id === btn.dataset.entryId);
+      if (!selected) return;
+      shopEditor.draft = { kind: 'promotion', isNew: false, data: structuredClone(selected) };
+      renderShopEditor();
+      return;
+    }
+    case 'edit-bundle': {
+      const selected = catalog.packages.find(p => p.id === btn.dataset.entryId && p.availability);
+      if (!selected) return;
+      shopEditor.draft = { kind: 'bundle', isNew: false, data: structuredClone(selected) };
+      renderShopEditor();
+      return;
+    }
+    case 'cancel':
+      shopEditor.draft = null;
+      renderShopEditor();
+      return;
+    case 'save':
+      saveShopDraft();
+      return;
+    case 'remove':
+      removeShopDraft();
+      return;
+  }
+}
+
+/**
+ * Publica a promoção/bundle do rascunho como nova versão do catálogo da loja
+ */
+async function saveShopDraft(): Promise<void> {
+  const draft = shopEditor.draft;
+  const catalog = shopEditor.catalog;
+  if (!draft || !catalog || !shopEditor.canEdit) return;
+
+  const name = draft.kind === 'promotion' ? draft.data.label || draft.data.id : draft.data.name || draft.data.id;
+  const confirmar = confirm(`💾 Publish shop catalog v${catalog.version + 1} with ${draft.isNew ? 'new' : 'changes to'} ${draft.kind} "${name}"?`);
+  if (!confirmar) return;
+
+  shopEditor.busy = true;
+  try {
+    const result = draft.kind === 'promotion'
+      ? await callAdminApi('saveShopPromotion', { promotion: draft.data, baseVersion: catalog.version })
+      : await callAdminApi('saveShopBundle', { bundle: draft.data, baseVersion: catalog.version });
+
+    shopEditor.catalog = result.catalog;
+    shopEditor.draft = null;
+    renderShopEditor();
+
+    alert(`✅ Shop catalog v${result.catalog.version} published!`);
+  } catch (err) {
+    const message = (err as any)?.message || String(err);
+    if (message === 'CATALOG_CHANGED') {
+      alert('⚠️ The shop catalog was changed by someone else. It was reloaded; review and publish again.');
+      shopEditor.busy = false;
+      await renderAdminShopTab(true);
+      return;
+    }
+    alert('❌ Error: ' + message);
+  } finally {
+    shopEditor.busy = false;
+  }
+}
+
+async function removeShopDraft(): Promise<void> {
+  const draft = shopEditor.draft;
+  const catalog = shopEditor.catalog;
+  if (!draft || !catalog || !shopEditor.canEdit || draft.isNew) return;
+
+  const confirmar = confirm(`🗑️ Remove ${draft.kind} "${draft.data.id}"? Orders already paid keep their price and bonus.`);
+  if (!confirmar) return;
+
+  shopEditor.busy = true;
+  try {
+    const result = await callAdminApi('removeShopEntry', {
+      entryId: draft.data.id,
+      kind: draft.kind,
+      baseVersion: catalog.version
+    });
+
+    shopEditor.catalog = result.catalog;
+    shopEditor.draft = null;
+    renderShopEditor();
+
+    alert(`✅ Removed (shop catalog v${result.catalog.version})`);
+  } catch (err) {
+    const message = (err as any)?.message || String(err);
+    if (message === 'CATALOG_CHANGED') {
+      alert('⚠️ The shop catalog was changed by someone else. It was reloaded; try again.');
+      shopEditor.busy = false;
+      await renderAdminShopTab(true);
+      return;
+    }
+    alert('❌ Error: ' + message);
+  } finally {
+    shopEditor.busy = false;
+  }
+}
+
+// ============================================================
+// PROMO CODES TAB (CAMPANHAS E CÓDIGOS DE PRESENTE)
+// ============================================================
+
+function newPromoDraft(): PromoDraft {
+  return {
+    isNew: true,
+    data: {
+      code: '',
+      reward: { type: 'diamonds', amount: 100 },
+      maxUses: 1000,
+      perUserLimit: 1,
+      uses: 0,
+      startsAt: null,
+      expiresAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
+      eligibility: { ...DEFAULT_PROMO_ELIGIBILITY },
+      active: true,
+      note: ''
+    }
+  };
+}
+
+function defaultPromoReward(type: string): PromoReward {
+  switch (type) {
+    case 'money':
+      return { type: 'money', amount: 5 };
+    case 'pass':
+      return { type: 'pass', passId: PROMO_PASS_IDS[0] };
+    case 'theme':
+      return { type: 'theme', themeId: AVAILABLE_THEMES.find(t => t.id !== 'default')?.id || 'default' };
+    case 'shop_discount':
+      return { type: 'shop_discount', percentage: 10 };
+    default:
+      return { type: 'diamonds', amount: 100 };
+  }
+}
+
+function getPromoStatus(promo: PromoCode): { label: string; className: string } {
+  if (!promo.active) return { label: 'Disabled', className: 'ended' };
+  if (promo.expiresAt && Date.parse(promo.expiresAt) <= Date.now()) return { label: 'Expired', className: 'ended' };
+  if (promo.maxUses !== null && promo.uses >= promo.maxUses) return { label: 'Used up', className: 'ended' };
+  if (promo.startsAt && Date.parse(promo.startsAt) > Date.now()) return { label: 'Scheduled', className: 'scheduled' };
+  return { label: 'Live', className: 'live' };
+}
+
+/**
+ * Renderiza aba de Códigos promocionais
+ */
+async function renderAdminPromosTab(force: boolean = false): Promise<void> {
+  try {
+    const container = document.getElementById('admin-content');
+    if (!container) return;
+
+    document.getElementById('admin-purchases-section')?.classList.add('hidden');
+    document.getElementById('admin-support-section')?.classList.add('hidden');
+    document.getElementById('admin-cases-section')?.classList.add('hidden');
+    document.getElementById('admin-shop-section')?.classList.add('hidden');
+
+    let promosSection = document.getElementById('admin-promos-section');
+    if (!promosSection) {
+      promosSection = document.createElement('div');
+      promosSection.id = 'admin-promos-section';
+      promosSection.classList.add('admin-section');
+      container.appendChild(promosSection);
+    }
+    promosSection.classList.remove('hidden');
+    bindPromoEditorOnce(promosSection);
+
+    if (promoEditor.codes && !force) return;
+
+    promosSection.innerHTML = '<div class="loading">Loading promo codes...</div>';
+    const result = await callAdminApi('listPromoCodes');
+    promoEditor.codes = result.codes || [];
+    promoEditor.canEdit = !!result.canEdit;
+    promoEditor.draft = null;
+
+    renderPromoEditor();
+  } catch (err) {
+    ErrorHandler.handleError('Error rendering promo codes tab', {
+      category: ErrorCategory.UNKNOWN,
+      severity: ErrorSeverity.ERROR,
+      details: err,
+      showToUser: false
+    });
+    const promosSection = document.getElementById('admin-promos-section');
+    if (promosSection) {
+      promosSection.innerHTML = `<p class="admin-cases-empty">❌ ${sanitizeHTML((err as Error)?.message || 'Failed to load promo codes')}</p>`;
+    }
+  }
+}
+
+function renderPromoEditor(): void {
+  const section = document.getElementById('admin-promos-section');
+  const codes = promoEditor.codes;
+  if (!section || !codes) return;
+
+  const selectedCode = promoEditor.draft && !promoEditor.draft.isNew ? promoEditor.draft.data.code : null;
+
+  const rows = codes.map(promo => {
+    const status = getPromoStatus(promo);
+    return `
+      <button class="admin-case-row ${selectedCode === promo.code ? 'active' : ''}" data-promo-action="edit" data-promo-code="${escapeAttr(promo.code)}">
+        <span class="admin-case-row-name">🎟️ ${sanitizeHTML(promo.code)}</span>
+        <span class="admin-shop-status ${status.className}">${status.label}</span>
+        <span class="admin-case-row-rtp">${sanitizeHTML(describePromoReward(promo.reward))} · ${promo.uses}/${promo.maxUses ?? '∞'}</span>
+      </button>
+    `;
+  }).join('');
+
+  section.innerHTML = `
+    <div class="admin-cases-container">
+      <div class="admin-cases-list">
+        <div class="admin-cases-list-head">
+          <strong>Promo codes (${codes.length})</strong>
+          <div class="admin-cases-list-actions">
+            <button class="admin-case-btn secondary" data-promo-action="reload">🔄 Reload</button>
+          </div>
+        </div>
+        ${rows || '<small class="admin-cases-note">No promo codes yet.</small>'}
+        ${promoEditor.canEdit ? '<button class="admin-case-btn secondary" data-promo-action="new">➕ New code</button>' : ''}
+      </div>
+      <div class="admin-case-editor">
+        ${promoEditor.draft ? renderPromoDraftForm(promoEditor.draft) : '<p class="admin-cases-empty">Select a code to edit, or create a new one.</p>'}
+      </div>
+    </div>
+  `;
+}
+
+function renderPromoRewardFields(reward: PromoReward, disabled: string): string {
+  switch (reward.type) {
+    case 'diamonds':
+      return `<label>Diamonds <input type="number" min="1" max="${PROMO_MAX_DIAMONDS}" step="1" data-promo-field="amount" value="${reward.amount}" ${disabled}></label>`;
+    case 'money':
+      return `<label>Money ($) <input type="number" min="0.01" max="${PROMO_MAX_MONEY}" step="0.01" data-promo-field="amount" value="${reward.amount}" ${disabled}></label>`;
+    case 'pass':
+      return `
+        <label>Pass
+          <select data-promo-field="passId" ${disabled}>
+            ${PROMO_PASS_IDS.map(id => `<option value="${id}" ${reward.passId === id ? 'selected' : ''}>${id}</option>`).join('')}
+          </select>
+        </label>
+      `;
+    case 'theme':
+      return `
+        <label>Theme
+          <select data-promo-field="themeId" ${disabled}>
+            ${AVAILABLE_THEMES.map(theme => `<option value="${escapeAttr(theme.id)}" ${reward.themeId === theme.id ? 'selected' : ''}>${sanitizeHTML(theme.name)}</option>`).join('')}
+          </select>
+        </label>
+      `;
+    case 'shop_discount':
+      return `<label>Discount (%) <input type="number" min="1" max="${PROMO_MAX_DISCOUNT}" step="1" data-promo-field="percentage" value="${reward.percentage}" ${disabled}></label>`;
+  }
+}
+
+function renderPromoDraftForm(draft: PromoDraft): string {
+  const promo = draft.data;
+  const disabled = promoEditor.canEdit ? '' : 'disabled';
+  const codeDisabled = draft.isNew ? disabled : 'disabled';
+  // Depois do primeiro resgate a recompensa não muda (o servidor também bloqueia)
+  const rewardDisabled = promo.uses > 0 ? 'disabled' : disabled;
+
+  const rewardOptions: Array<[PromoRewardType, string]> = [
+    ['diamonds', '💎 Diamonds'],
+    ['money', '💵 Money'],
+    ['pass', '⚡ Pass'],
+    ['theme', '🎨 Theme'],
+    ['shop_discount', '🏷️ Shop discount (next order)']
+  ];
+
+  return `
+    <div class="admin-case-form">
+      <h3>${draft.isNew ? '➕ New promo code' : `✏️ ${sanitizeHTML(promo.code)}`}</h3>
+      <div class="admin-case-fields">
+        <label>Code <input type="text" maxlength="24" data-promo-field="code" value="${escapeAttr(promo.code)}" placeholder="SUMMER25" ${codeDisabled}></label>
+        <label>Reward
+          <select data-promo-field="rewardType" ${rewardDisabled}>
+            ${rewardOptions.map(([type, label]) => `<option value="${type}" ${promo.reward.type === type ? 'selected' : ''}>${label}</option>`).join('')}
+          </select>
+        </label>
+        ${renderPromoRewardFields(promo.reward, rewardDisabled)}
+        <label>Max uses <input type="number" min="1" step="1" data-promo-field="maxUses" value="${promo.maxUses ?? ''}" placeholder="Unlimited" ${disabled}></label>
+        <label>Uses per player <input type="number" min="1" max="${PROMO_MAX_PER_USER}" step="1" data-promo-field="perUserLimit" value="${promo.perUserLimit}" ${disabled}></label>
+        <label>Starts <input type="datetime-local" data-promo-field="startsAt" value="${promo.startsAt ? toDateTimeInput(promo.startsAt) : ''}" ${disabled}></label>
+        <label>Expires <input type="datetime-local" data-promo-field="expiresAt" value="${promo.expiresAt ? toDateTimeInput(promo.expiresAt) : ''}" ${disabled}></label>
+        <label>Note <input type="text" maxlength="200" data-promo-field="note" value="${escapeAttr(promo.note)}" placeholder="Campaign, streamer..." ${disabled}></label>
+      </div>
+      <div class="breakdown-title">✅ Eligibility</div>
+      <div class="admin-case-fields">
+        <label>Account age (max days) <input type="number" min="1" step="1" data-promo-field="maxAccountAgeDays" value="${promo.eligibility.maxAccountAgeDays ?? ''}" placeholder="Any" ${disabled}></label>
+        <label>Minimum level <input type="number" min="1" step="1" data-promo-field="minLevel" value="${promo.eligibility.minLevel ?? ''}" placeholder="Any" ${disabled}></label>
+        <label class="admin-shop-product">
+          <input type="checkbox" data-promo-field="firstPurchaseOnly" ${promo.eligibility.firstPurchaseOnly ? 'checked' : ''} ${disabled}>
+          Only players without purchases
+        </label>
+        <label class="admin-shop-product">
+          <input type="checkbox" data-promo-field="active" ${promo.active ? 'checked' : ''} ${disabled}>
+          Active
+        </label>
+      </div>
+      <small class="admin-cases-note">${draft.isNew
+        ? 'Empty dates or limits mean no restriction. Codes are case-insensitive.'
+        : `Redeemed ${promo.uses} time(s). ${promo.uses > 0 ? 'The reward is locked after the first redemption.' : ''}`}</small>
+      <div class="admin-case-actions">
+        <button class="admin-case-btn secondary" data-promo-action="cancel">Cancel</button>
+        ${promoEditor.canEdit && !draft.isNew ? `<button class="admin-case-btn ${promo.active ? 'danger' : 'secondary'}" data-promo-action="toggle">${promo.active ? '⏸️ Disable' : '▶️ Enable'}</button>` : ''}
+        ${promoEditor.canEdit ? '<button class="admin-case-btn" data-promo-action="save">💾 Save</button>' : ''}
+      </div>
+    </div>
+  `;
+}
+
+function parseOptionalInteger(value: string): number | null {
+  if (value.trim() === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+function updatePromoDraftFromInput(target: HTMLInputElement | HTMLSelectElement): void {
+  const promo = promoEditor.draft?.data;
+  const field = target.dataset.promoField;
+  if (!promo || !field) return;
+
+  const checked = target instanceof HTMLInputElement && target.checked;
+  const reward = promo.reward;
+
+  if (field === 'rewardType') promo.reward = defaultPromoReward(target.value);
+  else if (field === 'amount' && (reward.type === 'diamonds' || reward.type === 'money')) reward.amount = parseFloat(target.value);
+  else if (field === 'percentage' && reward.type === 'shop_discount') reward.percentage = Number(target.value);
+  else if (field === 'passId' && reward.type === 'pass') reward.passId = target.value;
+  else if (field === 'themeId' && reward.type === 'theme') reward.themeId = target.value;
+  else if (field === 'maxUses') promo.maxUses = parseOptionalInteger(target.value);
+  else if (field === 'perUserLimit') promo.perUserLimit = parseOptionalInteger(target.value) ?? 1;
+  else if (field === 'startsAt' || field === 'expiresAt') promo[field] = fromDateTimeInput(target.value) || null;
+  else if (field === 'maxAccountAgeDays' || field === 'minLevel') promo.eligibility[field] = parseOptionalInteger(target.value);
+  else if (field === 'firstPurchaseOnly') promo.eligibility.firstPurchaseOnly = checked;
+  else if (field === 'active') promo.active = checked;
+  else if (field === 'code') promo.code = normalizePromoCode(target.value);
+  else if (field === 'note') promo.note = target.value;
+}
+
+function bindPromoEditorOnce(section: HTMLElement): void {
+  if (promoEditorBound) return;
+
+  section.addEventListener('change', (e: Event) => {
+    const target = e.target;
+    if (target instanceof HTMLInputElement || target instanceof HTMLSelectElement) {
+      updatePromoDraftFromInput(target);
+      // Os campos da recompensa dependem do tipo
+      if (target.dataset.promoField === 'rewardType') renderPromoEditor();
+    }
+  });
+
+  section.addEventListener('click', (e: MouseEvent) => {
+    const target = e.target;
+    if (!(target instanceof Element)) return;
+
+    const btn = target.closest('[data-promo-action]') as HTMLElement | null;
+    if (!btn || promoEditor.busy) return;
+
+    handlePromoEditorAction(btn.dataset.promoAction || '', btn);
+  });
+
+  promoEditorBound = true;
+}
+
+function handlePromoEditorAction(action: string, btn: HTMLElement): void {
+  switch (action) {
+    case 'reload':
+      renderAdminPromosTab(true);
+      return;
+    case 'new':
+      promoEditor.draft = newPromoDraft();
+      renderPromoEditor();
+      return;
+    case 'edit': {
+      const selected = promoEditor.codes?.find(p => p.code === btn.dataset.promoCode);
+      if (!selected) return;
+      promoEditor.draft = { isNew: false, data: structuredClone(selected) };
+      renderPromoEditor();
+      return;
+    }
+    case 'cancel':
+      promoEditor.draft = null;
+      renderPromoEditor();
+      return;
+    case 'save':
+      savePromoDraft();
+      return;
+    case 'toggle':
+      togglePromoDraftActive();
+      return;
+  }
+}
+
+function replacePromoCode(promo: PromoCode): void {
+  const codes = promoEditor.codes || [];
+  promoEditor.codes = codes.some(p => p.code === promo.code)
+    ? codes.map(p => (p.code === promo.code ? promo : p))
+    : [promo, ...codes];
+}
+
+async function savePromoDraft(): Promise<void> {
+  const draft = promoEditor.draft;
+  if (!draft || !promoEditor.canEdit) return;
+
+  const confirmar = confirm(`💾 ${draft.isNew ? 'Create' : 'Save changes to'} promo code "${draft.data.code}" (${describePromoReward(draft.data.reward)})?`);
+  if (!confirmar) return;
+
+  promoEditor.busy = true;
+  try {
+    const result = await callAdminApi('savePromoCode', { promo: draft.data, isNew: draft.isNew });
+    replacePromoCode(result.code);
+    promoEditor.draft = null;
+    renderPromoEditor();
+
+    alert(`✅ Promo code ${result.code.code} saved!`);
+  } catch (err) {
+    alert('❌ Error: ' + ((err as any)?.message || String(err)));
+  } finally {
+    promoEditor.busy = false;
+  }
+}
+
+async function togglePromoDraftActive(): Promise<void> {
+  const draft = promoEditor.draft;
+  if (!draft || !promoEditor.canEdit || draft.isNew) return;
+
+  const active = !draft.data.active;
+  const confirmar = confirm(`${active ? '▶️ Enable' : '⏸️ Disable'} promo code "${draft.data.code}"?${active ? '' : ' Rewards already redeemed are kept.'}`);
+  if (!confirmar) return;
+
+  promoEditor.busy = true;
+  try {
+    const result = await callAdminApi('setPromoCodeActive', { code: draft.data.code, active });
+    replacePromoCode(result.code);
+    promoEditor.draft = { isNew: false, data: structuredClone(result.code) };
+    renderPromoEditor();
+  } catch (err) {
+    alert('❌ Error: ' + ((err as any)?.message || String(err)));
+  } finally {
+    promoEditor.busy = false;
+  }
+}
+
 // ============================================================
 // TAB SWITCHING
 // ============================================================
@@ -1360,16 +2902,15 @@ export function switchAdminTab(tab: string): void {
   document.querySelectorAll('.admin-tab').forEach(t => t.classList.remove('active'));
   if (currentTab) (currentTab as HTMLElement).classList.add('active');
   
-  const pendingList = document.getElementById('admin-pending-list');
-  const historyList = document.getElementById('admin-history-list');
+  const lists: Record<string, HTMLElement | null> = {
+    pending: document.getElementById('admin-pending-list'),
+    history: document.getElementById('admin-history-list'),
+    disputes: document.getElementById('admin-disputes-list')
+  };
   
-  if (tab === 'pending') {
-    if (pendingList) pendingList.classList.remove('hidden');
-    if (historyList) historyList.classList.add('hidden');
-  } else {
-    if (pendingList) pendingList.classList.add('hidden');
-    if (historyList) historyList.classList.remove('hidden');
-  }
+  Object.entries(lists).forEach(([name, list]) => {
+    list?.classList.toggle('hidden', name !== tab);
+  });
 }
 
 // ============================================================
@@ -1478,6 +3019,7 @@ declare global {
     renderAdminPanel: typeof renderAdminPanel;
     handleApproveOrder: typeof handleApproveOrder;
     handleRejectOrder: typeof handleRejectOrder;
+    handleRefundOrder: typeof handleRefundOrder;
     switchAdminTab: typeof switchAdminTab;
     switchMainAdminTab: typeof switchMainAdminTab;
     switchSupportSubTab: typeof switchSupportSubTab;
@@ -1498,6 +3040,7 @@ window.checkAndShowAdminButton = checkAndShowAdminButton;
 window.renderAdminPanel = renderAdminPanel;
 window.handleApproveOrder = handleApproveOrder;
 window.handleRejectOrder = handleRejectOrder;
+window.handleRefundOrder = handleRefundOrder;
 window.switchAdminTab = switchAdminTab;
 window.switchMainAdminTab = switchMainAdminTab;
 window.switchSupportSubTab = switchSupportSubTab;
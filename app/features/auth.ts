@@ -1207,7 +1207,7 @@ export async function loadUserData(
     goTo('menu');
   }
   
-  // ⭐ USAR SISTEMA QUADRÁTICO (não bloqueia)
+  // ⭐ Curva de níveis compartilhada com o servidor (app/shared/levels.ts)
   if (calculateLevel) {
     const levelInfo = calculateLevel(data.xp || 0);
     const xpProgress = (levelInfo.currentXP / levelInfo.nextLevelXP) * 100;
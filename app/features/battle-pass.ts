@@ -0,0 +1,240 @@
+// ============================================================
+// BATTLE-PASS.TS - Tela do Battle Pass (progresso e resgates)
+// ============================================================
+
+import { supabase } from './auth';
+import { addCsrfHeader } from '../core/session';
+import {
+  BATTLE_PASS_DUPLICATE_DIAMONDS,
+  BATTLE_PASS_TIERS,
+  BATTLE_PASS_XP_PER_TIER,
+  BATTLE_PASS_TIER_COUNT,
+  describeBattlePassReward,
+  type BattlePassReward,
+  type BattlePassTrack
+} from '../shared/battle-pass';
+import { showAlert, showToast, sanitizeHTML } from '../shared/effects';
+import { playSound } from '../shared/sfx';
+import { ErrorHandler, ErrorCategory, ErrorSeverity } from '../shared/error-handler';
+import { stateManager } from '../core/state-manager';
+import { loadUserThemes } from '../shared/themes';
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+interface BattlePassProgress {
+  season: number;
+  startsAt: string;
+  endsAt: string;
+  xp: number;
+  level: number;
+  premium: boolean;
+  claimedFree: number[];
+  claimedPremium: number[];
+}
+
+declare global {
+  interface Window {
+    initBattlePass: typeof initBattlePass;
+  }
+}
+
+// ============================================================
+// STATE
+// ============================================================
+
+let progress: BattlePassProgress | null = null;
+let xpSources: Record<string, number> = {};
+let isBusy: boolean = false;
+
+// ============================================================
+// API
+// ============================================================
+
+async function callBattlePassApi(action: string, payload: Record<string, unknown> = {}): Promise<any> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.access_token) throw new Error('Not authenticated');
+
+  const response = await fetch('/api/_battlepass', {
+    method: 'POST',
+    headers: await addCsrfHeader({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify({
+      action,
+      userId: session.user.id,
+      authToken: session.access_token,
+      ...payload
+    })
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(describeError(result));
+  }
+  return result;
+}
+
+function describeError(result: any): string {
+  switch (result?.error) {
+    case 'PREMIUM_REQUIRED':
+      return 'The premium track requires the Premium + Battle Pass subscription.';
+    case 'TIER_LOCKED':
+      return 'You have not reached this tier yet.';
+    case 'ALREADY_CLAIMED':
+      return 'This reward was already claimed.';
+    default:
+      return result?.error || 'Battle pass request failed';
+  }
+}
+
+function reportError(message: string, err: unknown, title: string): void {
+  ErrorHandler.handleError(message, {
+    category: ErrorCategory.NETWORK,
+    severity: ErrorSeverity.ERROR,
+    details: err,
+    showToUser: false
+  });
+  showAlert('error', title, (err as Error)?.message || 'Something went wrong');
+}
+
+// ============================================================
+// RENDERING
+// ============================================================
+
+function formatTimeLeft(endsAt: string): string {
+  const ms = Math.max(0, Date.parse(endsAt) - Date.now());
+  const days = Math.floor(ms / 86_400_000);
+  const hours = Math.floor((ms % 86_400_000) / 3_600_000);
+  return days > 0 ? `${days}d ${hours}h` : `${hours}h`;
+}
+
+function renderRewardCell(tier: number, track: BattlePassTrack, reward: BattlePassReward | null): string {
+  if (!reward || !progress) return '<div class="bp-reward empty">—</div>';
+
+  const claimed = (track === 'premium' ? progress.claimedPremium : progress.claimedFree).includes(tier);
+  const unlocked = progress.level >= tier;
+  const lockedPremium = track === 'premium' && !progress.premium;
+  const canClaim = unlocked && !claimed && !lockedPremium;
+  const state = claimed ? 'claimed' : canClaim ? 'ready' : 'locked';
+
+  return `
+    <div class="bp-reward ${track} ${state}">
+      <span class="bp-reward-label">${sanitizeHTML(describeBattlePassReward(reward))}</span>
+      ${claimed
+        ? '<span class="bp-reward-status">✔ Claimed</span>'
+        : canClaim
+          ? `<button class="battles-btn" data-claim-tier="${tier}" data-claim-track="${track}">Claim</button>`
+          : `<span class="bp-reward-status">${lockedPremium ? '🔒 Premium' : '🔒'}</span>`}
+    </div>
+  `;
+}
+
+function renderBattlePass(): void {
+  if (!progress) return;
+
+  const seasonEl = document.getElementById('bp-season');
+  if (seasonEl) seasonEl.textContent = `Season ${progress.season} · ends in ${formatTimeLeft(progress.endsAt)}`;
+
+  const levelEl = document.getElementById('bp-level');
+  if (levelEl) levelEl.textContent = `Tier ${progress.level}/${BATTLE_PASS_TIER_COUNT}`;
+
+  const xpIntoTier = progress.level >= BATTLE_PASS_TIER_COUNT ? BATTLE_PASS_XP_PER_TIER : progress.xp % BATTLE_PASS_XP_PER_TIER;
+  const fillEl = document.getElementById('bp-xp-fill');
+  if (fillEl) fillEl.style.width = `${(xpIntoTier / BATTLE_PASS_XP_PER_TIER) * 100}%`;
+
+  const xpEl = document.getElementById('bp-xp-text');
+  if (xpEl) xpEl.textContent = `${progress.xp} XP · ${xpIntoTier}/${BATTLE_PASS_XP_PER_TIER} to next tier`;
+
+  const premiumEl = document.getElementById('bp-premium-status');
+  if (premiumEl) {
+    premiumEl.textContent = progress.premium ? '⭐ Premium track unlocked' : 'Premium track locked — get Premium + Battle Pass in the shop';
+    premiumEl.classList.toggle('active', progress.premium);
+  }
+
+  const sourcesEl = document.getElementById('bp-xp-sources');
+  if (sourcesEl) {
+    sourcesEl.textContent = `+${xpSources.case_opened ?? 0} XP per case opened · +${xpSources.item_sold ?? 0} XP per item sold · +${xpSources.badge ?? 0} XP per badge`;
+  }
+
+  const tiersEl = document.getElementById('bp-tiers');
+  if (tiersEl) {
+    tiersEl.innerHTML = BATTLE_PASS_TIERS.map(tierDef => `
+      <div class="bp-tier ${progress!.level >= tierDef.tier ? 'reached' : ''}">
+        <div class="bp-tier-number">${tierDef.tier}</div>
+        ${renderRewardCell(tierDef.tier, 'free', tierDef.free)}
+        ${renderRewardCell(tierDef.tier, 'premium', tierDef.premium)}
+      </div>
+    `).join('');
+  }
+}
+
+// ============================================================
+// ACTIONS
+// ============================================================
+
+async function loadBattlePass(): Promise<void> {
+  try {
+    const result = await callBattlePassApi('getBattlePass');
+    progress = result.progress;
+    xpSources = result.xpSources || {};
+    renderBattlePass();
+  } catch (err) {
+    reportError('load battle pass error', err, 'Battle Pass error');
+  }
+}
+
+async function claimReward(tier: number, track: BattlePassTrack): Promise<void> {
+  if (isBusy) return;
+  isBusy = true;
+  try {
+    const result = await callBattlePassApi('claimReward', { tier, track });
+    progress = result.progress;
+
+    if (typeof result.newBalance === 'number') stateManager.updateMoney(result.newBalance);
+    if (typeof result.newDiamonds === 'number') stateManager.updateDiamonds(result.newDiamonds);
+    if (Array.isArray(result.unlockedPasses)) stateManager.updateStats({ unlockedPasses: result.unlockedPasses });
+    if (Array.isArray(result.unlockedThemes)) await loadUserThemes();
+
+    playSound('payout', { volume: 0.5 });
+    showToast(
+      'success',
+      'Reward claimed! 🎁',
+      result.duplicate
+        ? `You already owned it, so you got ${BATTLE_PASS_DUPLICATE_DIAMONDS} 💎 instead.`
+        : describeBattlePassReward(result.reward)
+    );
+    renderBattlePass();
+  } catch (err) {
+    reportError('claim battle pass reward error', err, 'Claim failed');
+  } finally {
+    isBusy = false;
+  }
+}
+
+// ============================================================
+// INITIALIZATION
+// ============================================================
+
+function bindBattlePassUIOnce(): void {
+  const screen = document.getElementById('battle-pass');
+  if (!screen || screen.dataset.bound) return;
+
+  screen.addEventListener('click', (e) => {
+    const button = (e.target as HTMLElement).closest<HTMLElement>('[data-claim-tier]');
+    if (!button) return;
+    const tier = Number(button.dataset.claimTier);
+    const track = button.dataset.claimTrack as BattlePassTrack;
+    void claimReward(tier, track);
+  });
+
+  screen.dataset.bound = '1';
+}
+
+export async function initBattlePass(): Promise<void> {
+  bindBattlePassUIOnce();
+  await loadBattlePass();
+}
+
+if (typeof window !== 'undefined') {
+  window.initBattlePass = initBattlePass;
+}
@@ -0,0 +1,623 @@
+// ============================================================
+// BATTLES.TS - Case Battles (lobbies, bots e revelação das rodadas)
+// ============================================================
+
+import { supabase } from './auth';
+import { addCsrfHeader } from '../core/session';
+import { getCaseById, ERRORS } from '../shared/constants';
+import { getActiveCatalog, loadCatalog } from '../shared/catalog-store';
+import { showAlert, showToast, formatCurrency, sanitizeHTML } from '../shared/effects';
+import { playSound } from '../shared/sfx';
+import { ErrorHandler, ErrorCategory, ErrorSeverity } from '../shared/error-handler';
+import { stateManager } from '../core/state-manager';
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+interface BattleItem {
+  name: string;
+  icon: string;
+  value: number;
+  rarity: string;
+  rarityColor: string;
+  rarityIcon: string;
+}
+
+interface BattlePlayer {
+  seat: number;
+  userId: string | null;
+  username: string;
+  avatarUrl: string | null;
+  isBot: boolean;
+}
+
+interface BattleRound {
+  round: number;
+  caseId: string;
+  caseName: string;
+  drops: { seat: number; winnerIndex: number; item: BattleItem | null }[];
+}
+
+interface Battle {
+  id: string;
+  creatorId: string;
+  status: 'waiting' | 'rolling' | 'finished' | 'cancelled';
+  seats: number;
+  caseIds: string[];
+  entryCost: number;
+  players: BattlePlayer[];
+  rounds: BattleRound[];
+  winnerSeat: number | null;
+  winnerId: string | null;
+  totalValue: number | null;
+  serverSeedHash: string;
+  serverSeed: string | null;
+  createdAt: string;
+  finishedAt: string | null;
+}
+
+interface BattlesElements {
+  casePicker: HTMLElement | null;
+  selectedCases: HTMLElement | null;
+  seats: HTMLSelectElement | null;
+  fillBots: HTMLInputElement | null;
+  entryCost: HTMLElement | null;
+  createBtn: HTMLButtonElement | null;
+  refreshBtn: HTMLButtonElement | null;
+  openList: HTMLElement | null;
+  historyList: HTMLElement | null;
+  room: HTMLElement | null;
+  roomStatus: HTMLElement | null;
+  roomSeats: HTMLElement | null;
+  roomFairness: HTMLElement | null;
+  roomClose: HTMLButtonElement | null;
+}
+
+declare global {
+  interface Window {
+    initBattles: typeof initBattles;
+    isInBattle: typeof isInBattle;
+  }
+}
+
+// ============================================================
+// STATE
+// ============================================================
+
+const MAX_ROUNDS = 10;
+const ROUND_REVEAL_MS = 1100;
+const ROOM_POLL_MS = 5000;
+
+let selectedCaseIds: string[] = [];
+let activeBattle: Battle | null = null;
+let currentUserId: string | null = null;
+let isRevealing: boolean = false;
+let isBusy: boolean = false;
+let roomPollTimer: ReturnType<typeof setInterval> | null = null;
+
+function getBattlesEls(): BattlesElements {
+  return {
+    casePicker: document.getElementById('battles-case-picker'),
+    selectedCases: document.getElementById('battles-selected-cases'),
+    seats: document.getElementById('battles-seats') as HTMLSelectElement | null,
+    fillBots: document.getElementById('battles-fill-bots') as HTMLInputElement | null,
+    entryCost: document.getElementById('battles-entry-cost'),
+    createBtn: document.getElementById('battles-create-btn') as HTMLButtonElement | null,
+    refreshBtn: document.getElementById('battles-refresh-btn') as HTMLButtonElement | null,
+    openList: document.getElementById('battles-open-list'),
+    historyList: document.getElementById('battles-history-list'),
+    room: document.getElementById('battle-room'),
+    roomStatus: document.getElementById('battle-room-status'),
+    roomSeats: document.getElementById('battle-room-seats'),
+    roomFairness: document.getElementById('battle-room-fairness'),
+    roomClose: document.getElementById('battle-room-close') as HTMLButtonElement | null
+  };
+}
+
+// ============================================================
+// API
+// ============================================================
+
+async function callBattlesApi(action: string, payload: Record<string, unknown> = {}): Promise<any> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.access_token) throw new Error('Not authenticated');
+  currentUserId = session.user.id;
+
+  const response = await fetch('/api/_battles', {
+    method: 'POST',
+    headers: await addCsrfHeader({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify({
+      action,
+      userId: session.user.id,
+      authToken: session.access_token,
+      ...payload
+    })
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    if (typeof result.newBalance === 'number') stateManager.updateMoney(result.newBalance);
+    throw new Error(describeError(result));
+  }
+  return result;
+}
+
+function describeError(result: any): string {
+  switch (result?.error) {
+    case 'INVENTORY_FULL':
+      return `Inventory full (${result.current}/${result.max}). The winner takes every item, so free up space first.`;
+    case 'BATTLE_NOT_OPEN':
+      return 'This battle is no longer open.';
+    case 'BATTLE_FULL':
+      return 'This battle is already full.';
+    case 'BATTLE_CHANGED':
+      return 'The battle changed while you were joining. Please try again.';
+    case 'ALREADY_JOINED':
+      return 'You are already in this battle.';
+    case 'DIAMOND_DEBT':
+      return ERRORS.DIAMOND_DEBT;
+    default:
+      return result?.error || 'Battle request failed';
+  }
+}
+
+function reportError(message: string, err: unknown, title: string): void {
+  ErrorHandler.handleError(message, {
+    category: ErrorCategory.NETWORK,
+    severity: ErrorSeverity.ERROR,
+    details: err,
+    showToUser: false
+  });
+  showAlert('error', title, (err as Error)?.message || 'Something went wrong');
+}
+
+// ============================================================
+// CREATE FORM
+// ============================================================
+
+function getEntryCost(caseIds: string[]): number {
+  return parseFloat(caseIds.reduce((sum, id) => sum + (getCaseById(id)?.price || 0), 0).toFixed(2));
+}
+
+function renderCasePicker(): void {
+  const { casePicker } = getBattlesEls();
+  const catalog = getActiveCatalog();
+  if (!casePicker || casePicker.dataset.catalogVersion === String(catalog.version)) return;
+
+  casePicker.innerHTML = catalog.cases.map(c => `
+    <button class="battles-case-option" data-case-id="${c.id}" style="border-color: ${c.color};">
+      <img src="${c.iconImage}" alt="${c.name}" loading="lazy" decoding="async">
+      <span class="battles-case-name">${c.name}</span>
+      <span class="battles-case-price">${formatCurrency(c.price)}</span>
+    </button>
+  `).join('');
+  casePicker.dataset.catalogVersion = String(catalog.version);
+}
+
+function renderSelectedCases(): void {
+  const { selectedCases, entryCost, createBtn } = getBattlesEls();
+
+  if (selectedCases) {
+    selectedCases.innerHTML = selectedCaseIds.length
+      ? selectedCaseIds.map((id, index) => {
+          const caseData = getCaseById(id);
+          return `<button class="battles-round-chip" data-round-index="${index}" title="Remove">${index + 1}. ${caseData?.icon || '📦'} ${caseData?.name || id} ✕</button>`;
+        }).join('')
+      : '<p class="battles-empty">Pick up to 10 cases. Each case is one round.</p>';
+  }
+
+  if (entryCost) entryCost.textContent = formatCurrency(getEntryCost(selectedCaseIds));
+  if (createBtn) createBtn.disabled = selectedCaseIds.length === 0 || isBusy;
+}
+
+function addCase(caseId: string): void {
+  if (selectedCaseIds.length >= MAX_ROUNDS) {
+    showToast('warning', 'Round limit', `A battle can have up to ${MAX_ROUNDS} rounds.`);
+    return;
+  }
+  selectedCaseIds.push(caseId);
+  playSound('click', { volume: 0.35 });
+  renderSelectedCases();
+}
+
+function removeCase(index: number): void {
+  selectedCaseIds.splice(index, 1);
+  renderSelectedCases();
+}
+
+// ============================================================
+// LOBBY LIST
+// ============================================================
+
+function renderCaseIcons(caseIds: string[]): string {
+  return caseIds.map(id => getCaseById(id)?.icon || '📦').join(' ');
+}
+
+function renderBattleCard(battle: Battle, { history = false }: { history?: boolean } = {}): string {
+  const isCreator = battle.creatorId === currentUserId;
+  const isSeated = battle.players.some(p => p.userId === currentUserId);
+  const players = battle.players.map(p => `${p.isBot ? '🤖' : '👤'} ${sanitizeHTML(p.username)}`).join(' • ');
+
+  let actions = `<button class="battles-btn secondary" data-battle-action="view" data-battle-id="${battle.id}">View</button>`;
+  if (!history && battle.status === 'waiting') {
+    if (isCreator) {
+      actions += `<button class="battles-btn" data-battle-action="bots" data-battle-id="${battle.id}">Fill with bots</button>`;
+      actions += `<button class="battles-btn danger" data-battle-action="cancel" data-battle-id="${battle.id}">Cancel</button>`;
+    } else if (!isSeated) {
+      actions += `<button class="battles-btn" data-battle-action="join" data-battle-id="${battle.id}">Join ${formatCurrency(battle.entryCost)}</button>`;
+    }
+  }
+
+  const result = history
+    ? `<span class="battles-result ${battle.winnerId === currentUserId ? 'won' : 'lost'}">${battle.winnerId === currentUserId ? '🏆 Won' : 'Lost'} • ${formatCurrency(battle.totalValue || 0)}</span>`
+    : `<span class="battles-seats">${battle.players.length}/${battle.seats} seats</span>`;
+
+  return `
+    <div class="battles-card">
+      <div class="battles-card-head">
+        <span class="battles-card-cases">${renderCaseIcons(battle.caseIds)}</span>
+        ${result}
+      </div>
+      <div class="battles-card-players">${players}</div>
+      <div class="battles-card-footer">
+        <span>${battle.caseIds.length} rounds • ${formatCurrency(battle.entryCost)}</span>
+        <div class="battles-card-actions">${actions}</div>
+      </div>
+    </div>
+  `;
+}
+
+function renderBattleList(container: HTMLElement | null, battles: Battle[], emptyText: string, history: boolean = false): void {
+  if (!container) return;
+  container.innerHTML = battles.length
+    ? battles.map(b => renderBattleCard(b, { history })).join('')
+    : `<p class="battles-empty">${emptyText}</p>`;
+}
+
+let lastLists: { open: Battle[]; history: Battle[] } = { open: [], history: [] };
+
+async function loadBattles(): Promise<void> {
+  const { openList, historyList, refreshBtn } = getBattlesEls();
+  if (refreshBtn) refreshBtn.disabled = true;
+
+  try {
+    const result = await callBattlesApi('listBattles');
+    lastLists = { open: result.open || [], history: result.history || [] };
+    renderBattleList(openList, lastLists.open, 'No open battles. Create one!');
+    renderBattleList(historyList, lastLists.history, 'You have not finished any battle yet.', true);
+  } catch (err) {
+    reportError('battles list error', err, 'Battles error');
+  } finally {
+    if (refreshBtn) refreshBtn.disabled = false;
+  }
+}
+
+function findListedBattle(battleId: string): Battle | undefined {
+  return [...lastLists.open, ...lastLists.history].find(b => b.id === battleId);
+}
+
+// ============================================================
+// BATTLE ROOM
+// ============================================================
+
+function renderSeatColumn(battle: Battle, player: BattlePlayer | undefined, seat: number, revealedRounds: number): string {
+  const drops = battle.rounds.slice(0, revealedRounds)
+    .map(round => ({ round, drop: round.drops.find(d => d.seat === seat) }));
+  const total = drops.reduce((sum, { drop }) => sum + (drop?.item?.value || 0), 0);
+  const isWinner = battle.status === 'finished' && revealedRounds >= battle.rounds.length && battle.winnerSeat === seat;
+
+  const header = player
+    ? `<img src="${player.avatarUrl || `https://api.dicebear.com/7.x/avataaars/svg?seed=${encodeURIComponent(player.username)}`}" alt="" loading="lazy" decoding="async">
+       <strong>${player.isBot ? '🤖 ' : ''}${sanitizeHTML(player.username)}</strong>`
+    : '<span class="battle-seat-empty">Waiting for player…</span>';
+
+  return `
+    <div class="battle-seat ${isWinner ? 'winner' : ''}">
+      <div class="battle-seat-head">${header}</div>
+      <div class="battle-seat-drops">
+        ${drops.map(({ round, drop }) => drop?.item ? `
+          <div class="battle-drop" style="border-color: ${drop.item.rarityColor};">
+            <span class="battle-drop-round">R${round.round}</span>
+            <span class="battle-drop-icon">${drop.item.icon}</span>
+            <span class="battle-drop-name">${drop.item.name}</span>
+            <span class="battle-drop-value">${formatCurrency(drop.item.value)}</span>
+          </div>
+        ` : '').join('')}
+      </div>
+      <div class="battle-seat-total">${isWinner ? '🏆 ' : ''}${formatCurrency(total)}</div>
+    </div>
+  `;
+}
+
+function renderRoom(battle: Battle, revealedRounds: number): void {
+  const { room, roomStatus, roomSeats, roomFairness } = getBattlesEls();
+  if (!room || !roomSeats) return;
+
+  room.classList.remove('hidden');
+
+  const seats: string[] = [];
+  for (let seat = 1; seat <= battle.seats; seat++) {
+    seats.push(renderSeatColumn(battle, battle.players.find(p => p.seat === seat), seat, revealedRounds));
+  }
+  roomSeats.innerHTML = seats.join('');
+
+  if (roomStatus) {
+    if (battle.status === 'waiting') {
+      roomStatus.textContent = `Waiting for players (${battle.players.length}/${battle.seats})`;
+    } else if (battle.status === 'cancelled') {
+      roomStatus.textContent = 'Battle cancelled. Entries were refunded.';
+    } else if (revealedRounds < battle.rounds.length) {
+      const round = battle.rounds[revealedRounds];
+      roomStatus.textContent = `Round ${revealedRounds + 1}/${battle.rounds.length} • ${round?.caseName || ''}`;
+    } else {
+      const winner = battle.players.find(p => p.seat === battle.winnerSeat);
+      roomStatus.textContent = `${winner ? winner.username : 'Unknown'} wins ${formatCurrency(battle.totalValue || 0)}!`;
+    }
+  }
+
+  if (roomFairness) {
+    roomFairness.innerHTML = `
+      <span>Server seed hash: <code>${battle.serverSeedHash}</code></span>
+      ${battle.serverSeed ? `<span>Server seed: <code>${battle.serverSeed}</code> • client seed: <code>${battle.id}</code> • nonce = round - 1</span>` : ''}
+    `;
+  }
+}
+
+async function revealBattle(battle: Battle): Promise<void> {
+  isRevealing = true;
+  try {
+    for (let revealed = 0; revealed <= battle.rounds.length; revealed++) {
+      if (activeBattle?.id !== battle.id) return;
+      renderRoom(battle, revealed);
+      if (revealed < battle.rounds.length) {
+        playSound('open_case', { volume: 0.55 });
+        await new Promise(resolve => setTimeout(resolve, ROUND_REVEAL_MS));
+      }
+    }
+
+    if (battle.winnerId && battle.winnerId === currentUserId) {
+      playSound('win', { volume: 0.55 });
+      showToast('success', 'Battle won!', `You took every item (${formatCurrency(battle.totalValue || 0)}).`);
+    }
+  } finally {
+    isRevealing = false;
+  }
+}
+
+function stopRoomPoll(): void {
+  if (roomPollTimer) clearInterval(roomPollTimer);
+  roomPollTimer = null;
+}
+
+function startRoomPoll(battleId: string): void {
+  stopRoomPoll();
+  roomPollTimer = setInterval(async () => {
+    const screen = document.getElementById('battles');
+    if (!screen?.classList.contains('active') || activeBattle?.id !== battleId) {
+      stopRoomPoll();
+      return;
+    }
+
+    try {
+      const { battle } = await callBattlesApi('getBattle', { battleId });
+      if (battle.status === 'waiting') {
+        activeBattle = battle;
+        renderRoom(battle, 0);
+        return;
+      }
+      stopRoomPoll();
+      showBattle(battle, { animate: battle.status === 'finished' });
+      loadBattles();
+    } catch {
+      // Silencioso: tenta de novo no próximo tick
+    }
+  }, ROOM_POLL_MS);
+}
+
+function showBattle(battle: Battle, { animate = false }: { animate?: boolean } = {}): void {
+  activeBattle = battle;
+  stopRoomPoll();
+
+  if (battle.status === 'waiting') {
+    renderRoom(battle, 0);
+    startRoomPoll(battle.id);
+    return;
+  }
+
+  if (animate && battle.status === 'finished') {
+    revealBattle(battle);
+    return;
+  }
+
+  renderRoom(battle, battle.rounds.length);
+}
+
+function closeRoom(): void {
+  const { room } = getBattlesEls();
+  stopRoomPoll();
+  activeBattle = null;
+  if (room) room.classList.add('hidden');
+}
+
+// ============================================================
+// ACTIONS
+// ============================================================
+
+async function runAction(action: () => Promise<void>): Promise<void> {
+  if (isBusy) return;
+  isBusy = true;
+  renderSelectedCases();
+  try {
+    await action();
+  } finally {
+    isBusy = false;
+    renderSelectedCases();
+  }
+}
+
+async function createBattle(): Promise<void> {
+  const { seats, fillBots } = getBattlesEls();
+  const seatCount = Number(seats?.value || 2);
+
+  await runAction(async () => {
+    try {
+      const created = await callBattlesApi('createBattle', { caseIds: selectedCaseIds, seats: seatCount });
+      if (typeof created.newBalance === 'number') stateManager.updateMoney(created.newBalance);
+      playSound('buy', { volume: 0.6 });
+
+      if (fillBots?.checked) {
+        const { battle } = await callBattlesApi('fillWithBots', { battleId: created.battle.id });
+        showBattle(battle, { animate: true });
+      } else {
+        showBattle(created.battle);
+        showToast('success', 'Battle created', 'Waiting for other players to join.');
+      }
+
+      selectedCaseIds = [];
+      await loadBattles();
+    } catch (err) {
+      reportError('create battle error', err, 'Battle error');
+    }
+  });
+}
+
+async function joinBattle(battleId: string): Promise<void> {
+  await runAction(async () => {
+    try {
+      const result = await callBattlesApi('joinBattle', { battleId });
+      if (typeof result.newBalance === 'number') stateManager.updateMoney(result.newBalance);
+      playSound('buy', { volume: 0.6 });
+      showBattle(result.battle, { animate: true });
+      await loadBattles();
+    } catch (err) {
+      reportError('join battle error', err, 'Battle error');
+    }
+  });
+}
+
+async function fillWithBots(battleId: string): Promise<void> {
+  await runAction(async () => {
+    try {
+      const { battle } = await callBattlesApi('fillWithBots', { battleId });
+      showBattle(battle, { animate: true });
+      await loadBattles();
+    } catch (err) {
+      reportError('fill battle error', err, 'Battle error');
+    }
+  });
+}
+
+async function cancelBattle(battleId: string): Promise<void> {
+  if (!confirm('Cancel this battle? Every entry will be refunded.')) return;
+
+  await runAction(async () => {
+    try {
+      const result = await callBattlesApi('cancelBattle', { battleId });
+      if (typeof result.newBalance === 'number') stateManager.updateMoney(result.newBalance);
+      if (activeBattle?.id === battleId) closeRoom();
+      showToast('info', 'Battle cancelled', 'Your entry was refunded.');
+      await loadBattles();
+    } catch (err) {
+      reportError('cancel battle error', err, 'Battle error');
+    }
+  });
+}
+
+async function viewBattle(battleId: string): Promise<void> {
+  const listed = findListedBattle(battleId);
+  if (listed && listed.status === 'waiting') {
+    showBattle(listed);
+    return;
+  }
+
+  try {
+    const { battle } = await callBattlesApi('getBattle', { battleId });
+    showBattle(battle);
+  } catch (err) {
+    reportError('view battle error', err, 'Battle error');
+  }
+}
+
+// ============================================================
+// BINDINGS
+// ============================================================
+
+function bindBattlesUIOnce(): void {
+  const { casePicker, selectedCases, createBtn, refreshBtn, openList, historyList, roomClose } = getBattlesEls();
+
+  if (casePicker && !casePicker.dataset.bound) {
+    casePicker.addEventListener('click', (e) => {
+      const btn = (e.target as HTMLElement).closest<HTMLElement>('[data-case-id]');
+      if (btn?.dataset.caseId) addCase(btn.dataset.caseId);
+    });
+    casePicker.dataset.bound = '1';
+  }
+
+  if (selectedCases && !selectedCases.dataset.bound) {
+    selectedCases.addEventListener('click', (e) => {
+      const chip = (e.target as HTMLElement).closest<HTMLElement>('[data-round-index]');
+      if (chip?.dataset.roundIndex) removeCase(Number(chip.dataset.roundIndex));
+    });
+    selectedCases.dataset.bound = '1';
+  }
+
+  if (createBtn && !createBtn.dataset.bound) {
+    createBtn.addEventListener('click', () => createBattle());
+    createBtn.dataset.bound = '1';
+  }
+
+  if (refreshBtn && !refreshBtn.dataset.bound) {
+    refreshBtn.addEventListener('click', () => loadBattles());
+    refreshBtn.dataset.bound = '1';
+  }
+
+  [openList, historyList].forEach(list => {
+    if (!list || list.dataset.bound) return;
+    list.addEventListener('click', (e) => {
+      const btn = (e.target as HTMLElement).closest<HTMLElement>('[data-battle-action]');
+      const battleId = btn?.dataset.battleId;
+      if (!btn || !battleId) return;
+
+      switch (btn.dataset.battleAction) {
+        case 'join': joinBattle(battleId); break;
+        case 'bots': fillWithBots(battleId); break;
+        case 'cancel': cancelBattle(battleId); break;
+        default: viewBattle(battleId);
+      }
+    });
+    list.dataset.bound = '1';
+  });
+
+  if (roomClose && !roomClose.dataset.bound) {
+    roomClose.addEventListener('click', closeRoom);
+    roomClose.dataset.bound = '1';
+  }
+}
+
+// ============================================================
+// INITIALIZATION
+// ============================================================
+
+export async function initBattles(): Promise<void> {
+  bindBattlesUIOnce();
+  await loadCatalog();
+  renderCasePicker();
+  renderSelectedCases();
+  await loadBattles();
+}
+
+/**
+ * Usado pelo logout para avisar quem ainda tem uma batalha em andamento
+ */
+export function isInBattle(): boolean {
+  if (isRevealing) return true;
+  return !!activeBattle
+    && activeBattle.status === 'waiting'
+    && activeBattle.players.some(p => p.userId === currentUserId);
+}
+
+if (typeof window !== 'undefined') {
+  window.initBattles = initBattles;
+  window.isInBattle = isInBattle;
+}
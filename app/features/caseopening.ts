@@ -4,19 +4,29 @@
 
 import { supabase } from './auth';
 import { addCsrfHeader } from '../core/session';
-import { RARITIES, OPENING_CASES, getCaseById, getRarityByIndex, PASSES_CONFIG, getPassConfig, canOpenQuantity, getRequiredPassForQuantity } from '../shared/constants';
+import { getCaseById, ERRORS, PASSES_CONFIG, getPassConfig, canOpenQuantity, getRequiredPassForQuantity } from '../shared/constants';
 import type { Case, CaseItem, Rarity, PassConfig } from '../shared/constants';
+import { buildAdjustedPools, generateRollSlots, hmacSha256Hex, normalizePityCounters, sha256Hex } from '../shared/case-rng';
+import type { PityCounters } from '../shared/case-rng';
+import { computePityStatus } from '../shared/case-odds';
+import { getFreeCase, FREE_CASES } from '../shared/free-cases';
+import type { FreeCaseStatus } from '../shared/free-cases';
+import { findCatalogCase, getCatalogRarity } from '../shared/case-catalog';
+import type { CaseCatalog } from '../shared/case-catalog';
+import { getActiveCatalog, loadCatalog, loadCatalogVersion } from '../shared/catalog-store';
 import { playSound, startLoop } from '../shared/sfx';
 import type { LoopHandle } from '../shared/sfx';
 import { showToast, showAlert } from '../shared/effects';
 import { ErrorHandler, ErrorCategory, ErrorSeverity } from '../shared/error-handler';
 import { stateManager } from '../core/state-manager';
+import { getDeviceId } from '../core/security-manager';
+import { applyXpAward, notifyAchievementUnlocks } from '../shared/level-ui';
 
 // ============================================================
 // TYPE DEFINITIONS
 // ============================================================
 
-interface PreviewItem {
+export interface PreviewItem {
   name: string;
   value: number;
   icon: string;
@@ -27,11 +37,14 @@ interface PreviewItem {
 
 interface CaseOpeningElements {
   galleryGrid: HTMLElement | null;
+  freeCaseSection: HTMLElement | null;
+  freeCaseGrid: HTMLElement | null;
   galleryScreen: HTMLElement | null;
   openingScreen: HTMLElement | null;
   currentCaseName: HTMLElement | null;
   currentCasePrice: HTMLElement | null;
   lootTableGrid: HTMLElement | null;
+  lootTablePity: HTMLElement | null;
   reelWrapper: HTMLElement | null;
   backToGallery: HTMLElement | null;
   quickSpin: HTMLInputElement | null;
@@ -55,6 +68,21 @@ interface CaseOpeningElements {
   passModalBenefits: HTMLElement | null;
   passModalConfirm: HTMLElement | null;
   passModalCancel: HTMLElement | null;
+  fairnessServerHash: HTMLElement | null;
+  fairnessClientSeed: HTMLInputElement | null;
+  fairnessNonce: HTMLElement | null;
+  fairnessRotateBtn: HTMLElement | null;
+  fairnessRevealed: HTMLElement | null;
+  fairnessPity: HTMLElement | null;
+  verifyServerSeed: HTMLInputElement | null;
+  verifyClientSeed: HTMLInputElement | null;
+  verifyNonce: HTMLInputElement | null;
+  verifyCase: HTMLSelectElement | null;
+  verifyQuantity: HTMLSelectElement | null;
+  verifyCatalogVersion: HTMLInputElement | null;
+  verifyPity: HTMLInputElement | null;
+  verifyBtn: HTMLElement | null;
+  verifyResult: HTMLElement | null;
 }
 
 interface CaseCost {
@@ -64,15 +92,7 @@ interface CaseCost {
   savings: number;
 }
 
-interface AdjustedPoolItem {
-  item: CaseItem;
-  min?: number;
-  max?: number;
-  rarity?: Rarity;
-  cumulative?: number;
-}
-
-interface SlotData {
+export interface SlotData {
   items: PreviewItem[];
   winnerIndex: number;
   winner: PreviewItem;
@@ -83,6 +103,35 @@ interface User {
   [key: string]: any;
 }
 
+interface FairnessState {
+  serverSeedHash: string;
+  clientSeed: string;
+  nonce: number;
+}
+
+interface LastPityRoll {
+  caseId: string;
+  nonce: number;
+  counters: PityCounters;
+}
+
+interface RevealedSeed {
+  serverSeed: string;
+  serverSeedHash: string;
+  clientSeed: string;
+  noncesUsed: number;
+  revealedAt?: string;
+}
+
+interface VerifiedItem {
+  name: string;
+  icon: string;
+  value: number;
+  rarity: string;
+  rarityColor: string;
+  rarityIcon: string;
+}
+
 declare global {
   interface Window {
     playerMoney?: { value: number };
@@ -112,17 +161,30 @@ let ownedPasses: string[] = [];
 let reelLoopHandle: LoopHandle | null = null;
 let caseDiscountLevel: number = 0;
 let isUpgradingDiscount: boolean = false;
+let fairnessState: FairnessState | null = null;
+let revealedSeeds: RevealedSeed[] = [];
+let pityCounters: Record<string, PityCounters> = {};
+let lastPityRoll: LastPityRoll | null = null;
+let isRotatingSeed: boolean = false;
+let renderedCatalogVersion: number = 0;
+let freeCases: FreeCaseStatus[] = [];
+let freeCasesEmailVerified: boolean = true;
+let openingFreeCaseId: string | null = null;
+let freeCaseTimer: number | null = null;
 
 const MAX_DISCOUNT_LEVEL: number = 40;
 
 function getCaseOpeningEls(): CaseOpeningElements {
   return {
     galleryGrid: document.getElementById('case-gallery-grid'),
+    freeCaseSection: document.getElementById('free-case-section'),
+    freeCaseGrid: document.getElementById('free-case-grid'),
     galleryScreen: document.getElementById('case-gallery-screen'),
     openingScreen: document.getElementById('case-opening-screen'),
     currentCaseName: document.getElementById('current-case-name'),
     currentCasePrice: document.getElementById('current-case-price'),
     lootTableGrid: document.getElementById('loot-table-grid'),
+    lootTablePity: document.getElementById('loot-table-pity'),
     reelWrapper: document.getElementById('reel-wrapper'),
     backToGallery: document.getElementById('back-to-gallery'),
     quickSpin: document.getElementById('quick-spin-checkbox') as HTMLInputElement | null,
@@ -145,7 +207,22 @@ function getCaseOpeningEls(): CaseOpeningElements {
     passModalCost: document.getElementById('pass-modal-cost'),
     passModalBenefits: document.getElementById('pass-modal-benefits'),
     passModalConfirm: document.getElementById('pass-modal-confirm'),
-    passModalCancel: document.getElementById('pass-modal-cancel')
+    passModalCancel: document.getElementById('pass-modal-cancel'),
+    fairnessServerHash: document.getElementById('fairness-server-hash'),
+    fairnessClientSeed: document.getElementById('fairness-client-seed') as HTMLInputElement | null,
+    fairnessNonce: document.getElementById('fairness-nonce'),
+    fairnessRotateBtn: document.getElementById('fairness-rotate-btn'),
+    fairnessRevealed: document.getElementById('fairness-revealed'),
+    fairnessPity: document.getElementById('fairness-pity'),
+    verifyServerSeed: document.getElementById('verify-server-seed') as HTMLInputElement | null,
+    verifyClientSeed: document.getElementById('verify-client-seed') as HTMLInputElement | null,
+    verifyNonce: document.getElementById('verify-nonce') as HTMLInputElement | null,
+    verifyCase: document.getElementById('verify-case') as HTMLSelectElement | null,
+    verifyQuantity: document.getElementById('verify-quantity') as HTMLSelectElement | null,
+    verifyCatalogVersion: document.getElementById('verify-catalog-version') as HTMLInputElement | null,
+    verifyPity: document.getElementById('verify-pity') as HTMLInputElement | null,
+    verifyBtn: document.getElementById('verify-roll-btn'),
+    verifyResult: document.getElementById('verify-roll-result')
   };
 }
 
@@ -180,83 +257,23 @@ function computeCaseCost(caseData: Case, qty: number = selectedQuantity): CaseCo
   return { baseTotal, discountedTotal, discountPercent, savings };
 }
 
-// ============================================================
-// SEEDED RNG (CLIENT-SIDE - MUST MATCH BACKEND)
-// ============================================================
-
-function seededRandom(seed: number | string): number {
-  let seedValue = 0;
-  const seedStr = String(seed);
-  
-  for (let i = 0; i < seedStr.length; i++) {
-    seedValue = ((seedValue << 5) - seedValue) + seedStr.charCodeAt(i);
-    seedValue = seedValue & seedValue;
-  }
-  
-  const x = Math.sin(Math.abs(seedValue)) * 10000;
-  return x - Math.floor(x);
-}
-
-function createSeededRNG(seed: number | string): () => number {
-  let seedValue = 0;
-  const seedStr = String(seed);
-  
-  for (let i = 0; i < seedStr.length; i++) {
-    seedValue = ((seedValue << 5) - seedValue) + seedStr.charCodeAt(i);
-    seedValue = seedValue & seedValue;
-  }
-  
-  return function() {
-    const x = Math.sin(Math.abs(seedValue++)) * 10000;
-    return x - Math.floor(x);
-  };
-}
-
-// ============================================================
-// ITEM GENERATION (CLIENT-SIDE - FOR VISUAL ONLY)
 // ============================================================
 // ITEM GENERATION (CLIENT-SIDE - FOR VISUAL ONLY)
 // ============================================================
 
-function buildAdjustedPools(caseData: Case): AdjustedPoolItem[] {
-  const pools: AdjustedPoolItem[] = [];
-  const buckets = RARITIES.map((rarity, idx) => {
-    const items = caseData.items.filter((it) => it.rarityIndex === idx);
-    return items.length ? { rarity, items } : null;
-  }).filter((b): b is { rarity: Rarity; items: CaseItem[] } => b !== null);
-
-  if (!buckets.length) return pools;
-
-  const totalBase = buckets.reduce((sum, b) => sum + (b?.rarity?.chance || 0), 0);
-  let cumulative = 0;
-
-  for (const bucket of buckets) {
-    if (!bucket) continue;
-    const rarityChance = (bucket.rarity.chance / totalBase) * 100;
-    const perItemChance = rarityChance / bucket.items.length;
-    for (const item of bucket.items) {
-      cumulative += perItemChance;
-      pools.push({ item, rarity: bucket.rarity, cumulative });
-    }
-  }
-
-  // Garantir 100% para evitar gaps de floating point
-  if (pools.length) pools[pools.length - 1].cumulative = 100;
-  return pools;
-}
-
 function generateRandomItem(caseData: Case | null): CaseItem | null {
   if (!caseData) return null;
   
-  const pools = buildAdjustedPools(caseData);
+  const catalog = getActiveCatalog();
+  const pools = buildAdjustedPools(caseData, catalog.rarities);
   if (!pools.length) {
     const fallback = caseData.items?.[0];
     return fallback
       ? {
           name: fallback.name,
           icon: fallback.icon,
-          minValue: RARITIES[Math.min(fallback.rarityIndex, RARITIES.length - 1)]?.chance || 0,
-          maxValue: RARITIES[Math.min(fallback.rarityIndex, RARITIES.length - 1)]?.chance || 0,
+          minValue: getCatalogRarity(catalog, fallback.rarityIndex)?.chance || 0,
+          maxValue: getCatalogRarity(catalog, fallback.rarityIndex)?.chance || 0,
           rarityIndex: fallback.rarityIndex
         }
       : null;
@@ -277,6 +294,36 @@ function generateRandomItem(caseData: Case | null): CaseItem | null {
   };
 }
 
+// ============================================================
+// PROVABLY FAIR - HELPERS (app/shared/case-rng.ts)
+// ============================================================
+
+const CLIENT_SEED_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Recalcula localmente os vencedores de uma abertura:
+ * masterSeed = HMAC-SHA256(serverSeed, `${clientSeed}:${nonce}`)
+ */
+function computeRollLocally(
+  catalog: CaseCatalog,
+  caseData: Case,
+  serverSeed: string,
+  clientSeed: string,
+  nonce: number,
+  qty: number,
+  pity?: PityCounters
+): { serverSeedHash: string; winners: { winnerIndex: number; winner: VerifiedItem | null }[] } {
+  const serverSeedHash = sha256Hex(serverSeed);
+  const masterSeed = hmacSha256Hex(serverSeed, `${clientSeed}:${nonce}`);
+
+  // Cases com pity: contadores registrados antes da abertura (vazio = tudo zerado)
+  const pityCounters = caseData.pity?.length ? normalizePityCounters(caseData.pity, pity) : undefined;
+  const winners = generateRollSlots(caseData, catalog.rarities, masterSeed, qty, { winnerOnly: true, pityCounters })
+    .map(({ winnerIndex, winner }) => ({ winnerIndex, winner }));
+
+  return { serverSeedHash, winners };
+}
+
 // ============================================================
 // INITIALIZATION
 // ============================================================
@@ -294,6 +341,16 @@ export function initCaseOpening(user: User, money: number, diamonds: number = 0,
   bindCaseOpeningUIOnce();
   renderCaseGallery();
   updateDiscountUI();
+  populateVerifyCaseOptions();
+  loadFairnessState();
+  loadFreeCases();
+
+  loadCatalog().then(catalog => {
+    if (catalog.version !== renderedCatalogVersion) {
+      renderCaseGallery();
+      populateVerifyCaseOptions();
+    }
+  });
 }
 
 // ============================================================
@@ -304,7 +361,10 @@ function renderCaseGallery(): void {
   const { galleryGrid } = getCaseOpeningEls();
   if (!galleryGrid) return;
 
-  galleryGrid.innerHTML = OPENING_CASES.map(caseData => {
+  const catalog = getActiveCatalog();
+  renderedCatalogVersion = catalog.version;
+
+  galleryGrid.innerHTML = catalog.cases.map(caseData => {
     const iconContent = caseData.iconImage
       ? `<img src="${caseData.iconImage}" alt="${caseData.name} icon" style="filter: drop-shadow(0 8px 20px ${caseData.color});">`
       : `<span style="font-size: 5rem; filter: drop-shadow(0 8px 20px ${caseData.color});">${caseData.icon}</span>`;
@@ -323,6 +383,202 @@ function renderCaseGallery(): void {
   }).join('');
 }
 
+// ============================================================
+// FREE CASES (app/shared/free-cases.ts)
+// ============================================================
+
+function formatFreeCaseCountdown(target: string): string {
+  const totalSeconds = Math.max(0, Math.ceil((Date.parse(target) - Date.now()) / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours}h ${String(minutes).padStart(2, '0')}m ${String(seconds).padStart(2, '0')}s`;
+}
+
+function isFreeCaseReady(freeCase: FreeCaseStatus): boolean {
+  return freeCase.unlocked && freeCasesEmailVerified
+    && (!freeCase.nextAvailableAt || Date.parse(freeCase.nextAvailableAt) <= Date.now());
+}
+
+function renderFreeCaseStatus(freeCase: FreeCaseStatus): string {
+  if (!freeCase.unlocked) return `🔒 Unlocks at level ${freeCase.minLevel}`;
+  if (!freeCasesEmailVerified) return '📧 Verify your email to open';
+  if (openingFreeCaseId === freeCase.id) return 'Opening...';
+  if (!isFreeCaseReady(freeCase)) {
+    return `⏳ <span data-free-countdown="${freeCase.id}">${formatFreeCaseCountdown(freeCase.nextAvailableAt!)}</span>`;
+  }
+  return '🎁 Open now!';
+}
+
+function renderFreeCases(): void {
+  const { freeCaseSection, freeCaseGrid } = getCaseOpeningEls();
+  if (!freeCaseGrid) return;
+
+  if (freeCaseSection) freeCaseSection.style.display = freeCases.length ? '' : 'none';
+
+  freeCaseGrid.innerHTML = freeCases.map(freeCase => {
+    const ready = isFreeCaseReady(freeCase) && !openingFreeCaseId;
+    const values = freeCase.items.map(item => item.maxValue);
+    const state = ready ? 'ready' : freeCase.unlocked ? 'cooldown' : 'locked';
+
+    return `
+    <div class="case-card free-case-card ${state}" data-free-case-id="${freeCase.id}">
+      <div class="case-card-icon" style="background: linear-gradient(180deg, ${freeCase.color}40, transparent);">
+        <span style="font-size: 4rem; filter: drop-shadow(0 8px 20px ${freeCase.color});">${freeCase.icon}</span>
+      </div>
+      <div class="case-card-info">
+        <h3 class="case-card-name">${freeCase.name}</h3>
+        <p class="free-case-values">Up to $${Math.max(...values).toFixed(2)} • every ${freeCase.cooldownHours}h</p>
+        <p class="free-case-status">${renderFreeCaseStatus(freeCase)}</p>
+      </div>
+    </div>
+  `;
+  }).join('');
+}
+
+function startFreeCaseCountdown(): void {
+  if (freeCaseTimer !== null) return;
+  freeCaseTimer = window.setInterval(() => {
+    const screen = document.getElementById('case-opening');
+    if (!screen?.classList.contains('active')) {
+      window.clearInterval(freeCaseTimer!);
+      freeCaseTimer = null;
+      return;
+    }
+
+    let becameReady = false;
+    document.querySelectorAll<HTMLElement>('[data-free-countdown]').forEach(el => {
+      const freeCase = freeCases.find(c => c.id === el.dataset.freeCountdown);
+      if (!freeCase?.nextAvailableAt) return;
+      if (Date.parse(freeCase.nextAvailableAt) <= Date.now()) becameReady = true;
+      else el.textContent = formatFreeCaseCountdown(freeCase.nextAvailableAt);
+    });
+    if (becameReady) renderFreeCases();
+  }, 1000);
+}
+
+async function loadFreeCases(): Promise<void> {
+  if (!currentUser?.id) return;
+
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) return;
+
+    const response = await fetch('/api/_caseopening', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        action: 'getFreeCases',
+        userId: currentUser.id,
+        authToken: session.access_token
+      })
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      ErrorHandler.handleError('Failed to load free cases', {
+        category: ErrorCategory.UNKNOWN,
+        severity: ErrorSeverity.WARNING,
+        details: { error: result.error },
+        showToUser: false
+      });
+      return;
+    }
+
+    freeCases = Array.isArray(result.freeCases) ? result.freeCases : [];
+    freeCasesEmailVerified = result.emailVerified !== false;
+    renderFreeCases();
+    startFreeCaseCountdown();
+  } catch (error) {
+    ErrorHandler.handleError('Free cases load error', {
+      category: ErrorCategory.UNKNOWN,
+      severity: ErrorSeverity.WARNING,
+      details: error,
+      showToUser: false
+    });
+  }
+}
+
+function describeFreeCaseError(result: any): string {
+  switch (result?.error) {
+    case 'EMAIL_NOT_VERIFIED':
+      return 'Verify your email to open free cases.';
+    case 'LEVEL_REQUIRED':
+      return `This free case unlocks at level ${result.requiredLevel}.`;
+    case 'FREE_CASE_COOLDOWN':
+      return 'This free case is still on cooldown.';
+    case 'FREE_CASE_DEVICE_LIMIT':
+      return 'Another account already opened this free case from this device.';
+    case 'INVENTORY_FULL':
+      return `You have ${result.current}/${result.max} items. Sell some items to free up space!`;
+    default:
+      return result?.error || 'An unknown error occurred. Please try again.';
+  }
+}
+
+async function openFreeCase(freeCaseId: string): Promise<void> {
+  const freeCase = freeCases.find(c => c.id === freeCaseId);
+  if (!freeCase || openingFreeCaseId || isOpening || !isFreeCaseReady(freeCase) || !currentUser?.id) return;
+
+  openingFreeCaseId = freeCaseId;
+  renderFreeCases();
+  playSound('open_case', { volume: 0.55 });
+
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) throw new Error('Not authenticated');
+
+    const response = await fetch('/api/_caseopening', {
+      method: 'POST',
+      headers: await addCsrfHeader({
+        'Content-Type': 'application/json'
+      }),
+      body: JSON.stringify({
+        action: 'openFreeCase',
+        userId: currentUser.id,
+        authToken: session.access_token,
+        freeCaseId,
+        deviceId: getDeviceId()
+      })
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      if (result.nextAvailableAt) freeCase.nextAvailableAt = result.nextAvailableAt;
+      showAlert('warning', 'Free Case Unavailable', describeFreeCaseError(result));
+      return;
+    }
+
+    freeCase.nextAvailableAt = result.nextAvailableAt || null;
+    if (result.fairness) {
+      fairnessState = {
+        serverSeedHash: result.fairness.serverSeedHash,
+        clientSeed: result.fairness.clientSeed,
+        nonce: result.fairness.nextNonce
+      };
+      renderFairnessPanel();
+    }
+
+    if (typeof window.invalidateInventoryCaches === 'function') {
+      window.invalidateInventoryCaches();
+    }
+
+    const winners: PreviewItem[] = (result.winners || []).map((item: VerifiedItem) => ({ ...item, color: item.rarityColor }));
+    showResultModal(winners, result.totalValue);
+  } catch (error) {
+    ErrorHandler.handleError('Error opening free case', {
+      category: ErrorCategory.UNKNOWN,
+      severity: ErrorSeverity.ERROR,
+      details: error,
+      userMessage: 'Unable to connect to server. Please check your internet connection.',
+      showToUser: true
+    });
+  } finally {
+    openingFreeCaseId = null;
+    renderFreeCases();
+  }
+}
+
 // ============================================================
 // CASE VIEW
 // ============================================================
@@ -351,6 +607,7 @@ async function openCaseView(caseId: string): Promise<void> {
   updatePassUI(); // NOVO
   
   renderLootTable(caseData);
+  renderFairnessPanel();
   
   await generatePreview();
   
@@ -358,13 +615,13 @@ async function openCaseView(caseId: string): Promise<void> {
   if (openingScreen) openingScreen.classList.add('active');
 }
 
-function renderLootTable(caseData: Case): void {
+function renderLootTable(caseData: Case, catalog: CaseCatalog = getActiveCatalog()): void {
   const { lootTableGrid } = getCaseOpeningEls();
   const grid = lootTableGrid;
   if (!grid) return;
   
   grid.innerHTML = caseData.items.map(item => {
-    const rarity = getRarityByIndex(item.rarityIndex);
+    const rarity = getCatalogRarity(catalog, item.rarityIndex);
     return `
       <div class="loot-item" style="border-color: ${rarity.color};">
         <div class="loot-item-icon">${item.icon}</div>
@@ -376,6 +633,49 @@ function renderLootTable(caseData: Case): void {
       </div>
     `;
   }).join('');
+
+  renderPityStatus(caseData, catalog);
+}
+
+/**
+ * Contadores de pity do jogador no case aberto e a chance atual de cada
+ * raridade protegida (a próxima abertura já considera os contadores).
+ */
+function renderPityStatus(caseData: Case, catalog: CaseCatalog = getActiveCatalog()): void {
+  const { lootTablePity } = getCaseOpeningEls();
+  if (!lootTablePity) return;
+
+  if (!caseData.pity?.length) {
+    lootTablePity.innerHTML = '';
+    lootTablePity.style.display = 'none';
+    return;
+  }
+
+  const rows = computePityStatus(caseData, catalog.rarities, pityCounters[caseData.id]).map(status => {
+    const rules = [
+      status.softStart ? `+${status.softStep}% per opening from opening ${status.softStart}` : '',
+      status.hardAt ? `guaranteed by opening ${status.hardAt}` : ''
+    ].filter(Boolean).join(' • ');
+    const boosted = status.currentChance > status.baseChance + 1e-9;
+
+    return `
+      <div class="loot-pity-row" style="border-color: ${status.rarityColor};">
+        <span class="loot-pity-rarity" style="color: ${status.rarityColor};">${status.rarityIcon} ${status.rarity}+</span>
+        <span class="loot-pity-count">${status.count} openings since last drop</span>
+        <span class="loot-pity-chance ${boosted ? 'boosted' : ''}">${status.currentChance.toFixed(2)}% <small>(base ${status.baseChance.toFixed(2)}%)</small></span>
+        <small class="loot-pity-rule">${rules}</small>
+      </div>
+    `;
+  }).join('');
+
+  lootTablePity.innerHTML = `<h4>🛡️ Pity Protection</h4>${rows}`;
+  lootTablePity.style.display = '';
+}
+
+function refreshCurrentPity(): void {
+  const caseData = currentCaseId ? findCatalogCase(getActiveCatalog(), currentCaseId) : null;
+  if (caseData) renderPityStatus(caseData);
+  renderFairnessPanel();
 }
 
 // ============================================================
@@ -750,6 +1050,8 @@ async function purchasePass(passId: string): Promise<void> {
         showAlert('info', 'Already Owned', `You already own ${config.name}!`);
       } else if (result.error === 'INSUFFICIENT_DIAMONDS') {
         showAlert('error', 'Insufficient Diamonds! 💎', `You need ${result.needed} diamonds but only have ${result.current}.`);
+      } else if (result.error === 'DIAMOND_DEBT') {
+        showAlert('error', 'Diamonds Locked 🔒', ERRORS.DIAMOND_DEBT);
       } else if (result.error === 'REQUIRED_PASS_NOT_OWNED') {
         const requiredConfig = getPassConfig(result.requiredPass);
         if (requiredConfig) {
@@ -870,6 +1172,11 @@ async function upgradeCaseDiscount(): Promise<void> {
         return;
       }
 
+      if (result.error === 'DIAMOND_DEBT') {
+        showAlert('error', 'Account Locked 🔒', ERRORS.DIAMOND_DEBT);
+        return;
+      }
+
       showAlert('error', 'Upgrade Failed', result.error || 'Could not upgrade discount.');
       return;
     }
@@ -918,6 +1225,263 @@ async function upgradeCaseDiscount(): Promise<void> {
   }
 }
 
+// ============================================================
+// PROVABLY FAIR PANEL (API CALLS + LOCAL VERIFICATION)
+// ============================================================
+
+async function loadFairnessState(): Promise<void> {
+  if (!currentUser?.id) return;
+
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) return;
+
+    const response = await fetch('/api/_caseopening', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        action: 'getFairness',
+        userId: currentUser.id,
+        authToken: session.access_token
+      })
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      ErrorHandler.handleError('Failed to load fairness data', {
+        category: ErrorCategory.UNKNOWN,
+        severity: ErrorSeverity.WARNING,
+        details: { error: result.error },
+        showToUser: false
+      });
+      return;
+    }
+
+    fairnessState = result.active || null;
+    revealedSeeds = Array.isArray(result.revealed) ? result.revealed : [];
+    pityCounters = result.pity && typeof result.pity === 'object' ? result.pity : {};
+    refreshCurrentPity();
+  } catch (error) {
+    ErrorHandler.handleError('Fairness load error', {
+      category: ErrorCategory.UNKNOWN,
+      severity: ErrorSeverity.WARNING,
+      details: error,
+      showToUser: false
+    });
+  }
+}
+
+function renderFairnessPanel(): void {
+  const { fairnessServerHash, fairnessClientSeed, fairnessNonce, fairnessRotateBtn, fairnessRevealed, fairnessPity } = getCaseOpeningEls();
+
+  if (fairnessServerHash) fairnessServerHash.textContent = fairnessState?.serverSeedHash || '—';
+  if (fairnessNonce) fairnessNonce.textContent = String(fairnessState?.nonce ?? 0);
+  if (fairnessClientSeed && document.activeElement !== fairnessClientSeed) {
+    fairnessClientSeed.value = fairnessState?.clientSeed || '';
+  }
+  if (fairnessRotateBtn) (fairnessRotateBtn as HTMLButtonElement).disabled = isRotatingSeed || isOpening;
+
+  if (fairnessRevealed) {
+    fairnessRevealed.innerHTML = revealedSeeds.length
+      ? revealedSeeds.map((seed, idx) => `
+        <div class="fairness-revealed-item">
+          <div class="fairness-revealed-seed"><span>Server seed</span><code>${seed.serverSeed}</code></div>
+          <div class="fairness-revealed-meta">Client seed <code>${seed.clientSeed}</code> • Nonces 0-${Math.max(seed.noncesUsed - 1, 0)}</div>
+          <button class="fairness-use-btn" data-revealed-index="${idx}">Verify</button>
+        </div>
+      `).join('')
+      : '<p class="fairness-empty">Rotate your seed to reveal the current server seed and verify past rolls.</p>';
+  }
+
+  if (fairnessPity) {
+    const caseData = currentCaseId ? findCatalogCase(getActiveCatalog(), currentCaseId) : null;
+    if (!caseData?.pity?.length) {
+      fairnessPity.innerHTML = '';
+    } else {
+      const counters = normalizePityCounters(caseData.pity, pityCounters[caseData.id]);
+      const lastRoll = lastPityRoll?.caseId === caseData.id ? lastPityRoll : null;
+      fairnessPity.innerHTML = `
+        <div class="fairness-field">
+          <label>Pity counters (next roll)</label>
+          <code>${JSON.stringify(counters)}</code>
+        </div>
+        ${lastRoll ? `<div class="fairness-revealed-meta">Nonce ${lastRoll.nonce} was rolled with <code>${JSON.stringify(lastRoll.counters)}</code></div>` : ''}
+        <p class="fairness-empty">This case has pity protection: enter the counters used by a roll to verify it.</p>
+      `;
+    }
+  }
+}
+
+async function rotateSeed(): Promise<void> {
+  if (isRotatingSeed || isOpening || !currentUser?.id) return;
+
+  const { fairnessClientSeed } = getCaseOpeningEls();
+  const clientSeed = fairnessClientSeed?.value.trim() || '';
+  if (clientSeed && !CLIENT_SEED_PATTERN.test(clientSeed)) {
+    showAlert('warning', 'Invalid Client Seed', 'Use 1-64 letters, numbers, "_" or "-".');
+    return;
+  }
+
+  isRotatingSeed = true;
+  renderFairnessPanel();
+
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+      showAlert('error', 'Auth Error', 'Could not verify your session. Please re-login.');
+      return;
+    }
+
+    const response = await fetch('/api/_caseopening', {
+      method: 'POST',
+      headers: await addCsrfHeader({
+        'Content-Type': 'application/json'
+      }),
+      body: JSON.stringify({
+        action: 'rotateSeed',
+        userId: currentUser.id,
+        authToken: session.access_token,
+        clientSeed: clientSeed || undefined
+      })
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      showAlert('error', 'Rotation Failed', result.error || 'Could not rotate your seed.');
+      return;
+    }
+
+    fairnessState = result.active;
+    if (result.revealed) {
+      revealedSeeds = [result.revealed, ...revealedSeeds].slice(0, 10);
+    }
+    showToast('success', 'Seed Rotated 🔐', 'Previous server seed revealed. You can now verify its rolls.');
+  } catch (error) {
+    ErrorHandler.handleError('Rotate seed error', {
+      category: ErrorCategory.UNKNOWN,
+      severity: ErrorSeverity.ERROR,
+      details: error,
+      userMessage: 'Unable to connect to server. Please try again.',
+      showToUser: true
+    });
+  } finally {
+    isRotatingSeed = false;
+    renderFairnessPanel();
+  }
+}
+
+function populateVerifyCaseOptions(): void {
+  const { verifyCase, verifyCatalogVersion } = getCaseOpeningEls();
+  const catalog = getActiveCatalog();
+  if (verifyCatalogVersion) verifyCatalogVersion.value = String(catalog.version);
+  if (!verifyCase) return;
+
+  const selected = verifyCase.value;
+  verifyCase.innerHTML = [...catalog.cases, ...FREE_CASES].map(c => `<option value="${c.id}">${c.name}</option>`).join('');
+  if (selected) verifyCase.value = selected;
+}
+
+function fillVerifyForm(seed: RevealedSeed): void {
+  const { verifyServerSeed, verifyClientSeed, verifyNonce, verifyCase } = getCaseOpeningEls();
+  if (verifyServerSeed) verifyServerSeed.value = seed.serverSeed;
+  if (verifyClientSeed) verifyClientSeed.value = seed.clientSeed;
+  if (verifyNonce) verifyNonce.value = '0';
+  if (verifyCase && currentCaseId) verifyCase.value = currentCaseId;
+
+  const details = document.getElementById('fairness-verify') as HTMLDetailsElement | null;
+  if (details) details.open = true;
+}
+
+async function verifyRoll(): Promise<void> {
+  const { verifyServerSeed, verifyClientSeed, verifyNonce, verifyCase, verifyQuantity, verifyCatalogVersion, verifyPity, verifyResult } = getCaseOpeningEls();
+  if (!verifyResult) return;
+
+  const serverSeed = verifyServerSeed?.value.trim().toLowerCase() || '';
+  const clientSeed = verifyClientSeed?.value.trim() || '';
+  const nonce = Number(verifyNonce?.value);
+  const qty = Number(verifyQuantity?.value || 1);
+  const catalogVersion = Number(verifyCatalogVersion?.value || getActiveCatalog().version);
+
+  if (!/^[a-f0-9]{64}$/.test(serverSeed)) {
+    verifyResult.innerHTML = '<p class="fairness-error">Server seed must be the 64-character revealed seed.</p>';
+    return;
+  }
+  if (!CLIENT_SEED_PATTERN.test(clientSeed)) {
+    verifyResult.innerHTML = '<p class="fairness-error">Invalid client seed.</p>';
+    return;
+  }
+  if (!Number.isInteger(nonce) || nonce < 0) {
+    verifyResult.innerHTML = '<p class="fairness-error">Nonce must be a non-negative integer.</p>';
+    return;
+  }
+  if (!Number.isInteger(catalogVersion) || catalogVersion < 1) {
+    verifyResult.innerHTML = '<p class="fairness-error">Catalog version must be a positive integer.</p>';
+    return;
+  }
+
+  let pity: PityCounters | undefined;
+  const pityText = verifyPity?.value.trim() || '';
+  if (pityText) {
+    try {
+      pity = JSON.parse(pityText);
+    } catch {
+      pity = undefined;
+    }
+    const validCounters = pity && typeof pity === 'object' && !Array.isArray(pity)
+      && Object.values(pity).every(count => Number.isInteger(count) && count >= 0);
+    if (!validCounters) {
+      verifyResult.innerHTML = '<p class="fairness-error">Pity counters must be a JSON object like {"3": 12}.</p>';
+      return;
+    }
+  }
+
+  let catalog: CaseCatalog;
+  try {
+    catalog = await loadCatalogVersion(catalogVersion);
+  } catch {
+    verifyResult.innerHTML = `<p class="fairness-error">Catalog version ${catalogVersion} not found.</p>`;
+    return;
+  }
+
+  // Cases grátis ficam fora do catálogo, mas usam as raridades dele
+  const caseData = findCatalogCase(catalog, verifyCase?.value) ?? getFreeCase(verifyCase?.value);
+  if (!caseData) {
+    verifyResult.innerHTML = '<p class="fairness-error">Select a case that exists in this catalog version.</p>';
+    return;
+  }
+
+  try {
+    const { serverSeedHash, winners } = computeRollLocally(catalog, caseData, serverSeed, clientSeed, nonce, qty, pity);
+    const knownHash = revealedSeeds.find(s => s.serverSeed === serverSeed)?.serverSeedHash;
+    const hashNote = knownHash
+      ? (knownHash === serverSeedHash ? '✅ Matches the committed hash' : '❌ Does NOT match the committed hash')
+      : 'Compare with the hash shown before your roll';
+
+    verifyResult.innerHTML = `
+      <div class="fairness-verify-hash"><span>SHA-256(server seed)</span><code>${serverSeedHash}</code><small>${hashNote}</small></div>
+      <div class="fairness-verify-items">
+        ${winners.map(({ winnerIndex, winner }, slot) => winner ? `
+          <div class="fairness-verify-item" style="border-color: ${winner.rarityColor};">
+            <span class="fairness-verify-slot">Slot ${slot + 1} • #${winnerIndex}</span>
+            <span class="fairness-verify-icon">${winner.icon}</span>
+            <span class="fairness-verify-name">${winner.name}</span>
+            <span class="fairness-verify-value">$${winner.value.toFixed(2)}</span>
+            <span style="color: ${winner.rarityColor};">${winner.rarityIcon} ${winner.rarity}</span>
+          </div>
+        ` : '').join('')}
+      </div>
+    `;
+  } catch (error) {
+    ErrorHandler.handleError('Verify roll error', {
+      category: ErrorCategory.UNKNOWN,
+      severity: ErrorSeverity.WARNING,
+      details: error,
+      showToUser: false
+    });
+    verifyResult.innerHTML = '<p class="fairness-error">Could not verify this roll.</p>';
+  }
+}
+
 // ============================================================
 // EVENT LISTENERS
 // ============================================================
@@ -948,6 +1512,16 @@ function bindCaseOpeningUIOnce(): void {
     galleryGrid.dataset.bound = '1';
   }
 
+  const { freeCaseGrid } = getCaseOpeningEls();
+  if (freeCaseGrid && !freeCaseGrid.dataset.bound) {
+    freeCaseGrid.addEventListener('click', (e) => {
+      const card = (e.target as HTMLElement)?.closest?.('.free-case-card') as HTMLElement | null;
+      const freeCaseId = card?.getAttribute('data-free-case-id');
+      if (freeCaseId) openFreeCase(freeCaseId);
+    });
+    freeCaseGrid.dataset.bound = '1';
+  }
+
   const qtyContainer = document.querySelector('#case-opening-screen .quantity-selector') as HTMLElement | null;
   if (qtyContainer && !qtyContainer.dataset.bound) {
     qtyContainer.addEventListener('click', async (e) => {
@@ -1084,6 +1658,28 @@ function bindCaseOpeningUIOnce(): void {
     upgradeDiscountBtn.dataset.bound = '1';
   }
 
+  const { fairnessRotateBtn, fairnessRevealed, verifyBtn } = getCaseOpeningEls();
+  if (fairnessRotateBtn && !fairnessRotateBtn.dataset.bound) {
+    fairnessRotateBtn.addEventListener('click', rotateSeed);
+    fairnessRotateBtn.dataset.bound = '1';
+  }
+
+  if (fairnessRevealed && !fairnessRevealed.dataset.bound) {
+    fairnessRevealed.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+      const btn = target?.closest?.('.fairness-use-btn') as HTMLElement | null;
+      if (!btn) return;
+      const seed = revealedSeeds[Number(btn.getAttribute('data-revealed-index'))];
+      if (seed) fillVerifyForm(seed);
+    });
+    fairnessRevealed.dataset.bound = '1';
+  }
+
+  if (verifyBtn && !verifyBtn.dataset.bound) {
+    verifyBtn.addEventListener('click', verifyRoll);
+    verifyBtn.dataset.bound = '1';
+  }
+
   caseOpeningUIBound = true;
 }
 
@@ -1143,6 +1739,8 @@ async function openCase(): Promise<void> {
             ? `Available space: ${available}/${max}. Open ${available} or fewer cases, or sell some items.`
             : `You have ${current}/${max} items. Sell some items to free up space!`
         );
+      } else if (result.error === 'DIAMOND_DEBT') {
+        showAlert('error', 'Account Locked 🔒', ERRORS.DIAMOND_DEBT);
       } else {
         // Other errors
         showAlert('error', 'Opening Failed', result.error || 'An unknown error occurred. Please try again.');
@@ -1153,6 +1751,32 @@ async function openCase(): Promise<void> {
       return;
     }
     
+    // Atualizar painel provably fair (nonce consumido)
+    if (result.fairness) {
+      fairnessState = {
+        serverSeedHash: result.fairness.serverSeedHash,
+        clientSeed: result.fairness.clientSeed,
+        nonce: result.fairness.nextNonce
+      };
+
+      // Contadores de pity: os usados neste roll e os da próxima abertura
+      if (result.fairness.pityCounters && result.fairness.nextPityCounters && currentCaseId) {
+        lastPityRoll = { caseId: currentCaseId, nonce: result.fairness.nonce, counters: result.fairness.pityCounters };
+        pityCounters[currentCaseId] = result.fairness.nextPityCounters;
+        refreshCurrentPity();
+      } else {
+        renderFairnessPanel();
+      }
+
+      // O servidor publicou uma versão nova do catálogo: atualizar a galeria
+      if (result.fairness.catalogVersion && result.fairness.catalogVersion !== getActiveCatalog().version) {
+        loadCatalog({ force: true }).then(() => {
+          renderCaseGallery();
+          populateVerifyCaseOptions();
+        });
+      }
+    }
+
     // Update balance
     playerMoney = result.newBalance;
     stateManager.updateMoney(result.newBalance);
@@ -1177,6 +1801,8 @@ async function openCase(): Promise<void> {
     
     // Show result modal
     showResultModal(result.winners, result.totalValue);
+    applyXpAward(result.xp);
+    notifyAchievementUnlocks(result.achievements, result.newDiamonds);
     
   } catch (error) {
     ErrorHandler.handleError('Error opening case', {
@@ -1222,7 +1848,11 @@ async function animateReels(slots: SlotData[]): Promise<void> {
 // HORIZONTAL REEL ANIMATION (ATUALIZADO)
 // ============================================================
 
-async function animateHorizontalReel(slotIndex: number, slotData: SlotData, duration: number): Promise<void> {
+/**
+ * `slotIndex` compõe os ids `reel-track-*` / `reel-container-*`; o replay do
+ * histórico (opening-history.ts) usa o próprio reel com índice 'replay'.
+ */
+export async function animateHorizontalReel(slotIndex: number | string, slotData: SlotData, duration: number): Promise<void> {
   return new Promise((resolve) => {
     const track = document.getElementById(`reel-track-${slotIndex}`);
     
@@ -1340,7 +1970,7 @@ async function animateVerticalReel(slotIndex: number, slotData: SlotData, durati
 // SHOW WINNER (ATUALIZADO)
 // ============================================================
 
-function showWinner(slotIndex: number, item: PreviewItem, isHorizontal: boolean): void {
+function showWinner(slotIndex: number | string, item: PreviewItem, isHorizontal: boolean): void {
   const container = document.getElementById(`reel-container-${slotIndex}`);
   
   if (!container) {
@@ -0,0 +1,328 @@
+// ============================================================
+// DAILY-REWARDS.TS - Tela de recompensas diárias (calendário e streak)
+// ============================================================
+
+import { supabase } from './auth';
+import { addCsrfHeader } from '../core/session';
+import {
+  DAILY_CALENDAR,
+  STREAK_FREEZE_MAX,
+  STREAK_FREEZE_PRICE,
+  describeDailyReward,
+  getCalendarWeek,
+  type DailyCalendarDay,
+  type DailyReward
+} from '../shared/daily-rewards';
+import { showAlert, showToast, showDiamondPopup, showMoneyPopup, sanitizeHTML } from '../shared/effects';
+import { playSound } from '../shared/sfx';
+import { ErrorHandler, ErrorCategory, ErrorSeverity } from '../shared/error-handler';
+import { ERRORS } from '../shared/constants';
+import { stateManager } from '../core/state-manager';
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+interface DailyStatus {
+  today: string;
+  claimedToday: boolean;
+  streak: number;
+  cycleDay: number;
+  nextStreak: number;
+  nextCycleDay: number;
+  nextRewards: DailyReward[];
+  freezesNeeded: number;
+  freezes: number;
+  nextClaimAt: string;
+  lastClaimDate: string | null;
+}
+
+interface DeliveredReward {
+  reward: DailyReward;
+  duplicate: boolean;
+}
+
+declare global {
+  interface Window {
+    initDailyRewards: typeof initDailyRewards;
+  }
+}
+
+// ============================================================
+// STATE
+// ============================================================
+
+let status: DailyStatus | null = null;
+let isBusy: boolean = false;
+let countdownTimer: number | null = null;
+
+// ============================================================
+// API
+// ============================================================
+
+async function callDailyRewardsApi(action: string, payload: Record<string, unknown> = {}): Promise<any> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.access_token) throw new Error('Not authenticated');
+
+  const response = await fetch('/api/_dailyrewards', {
+    method: 'POST',
+    headers: await addCsrfHeader({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify({
+      action,
+      userId: session.user.id,
+      authToken: session.access_token,
+      ...payload
+    })
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    if (typeof result?.newDiamonds === 'number') stateManager.updateDiamonds(result.newDiamonds);
+    throw new Error(describeError(result));
+  }
+  return result;
+}
+
+function describeError(result: any): string {
+  switch (result?.error) {
+    case 'ALREADY_CLAIMED_TODAY':
+      return 'You already claimed today\'s reward.';
+    case 'FREEZE_LIMIT_REACHED':
+      return `You can hold at most ${STREAK_FREEZE_MAX} streak freezes.`;
+    case 'INSUFFICIENT_DIAMONDS':
+      return `A streak freeze costs ${STREAK_FREEZE_PRICE} 💎.`;
+    case 'DIAMOND_DEBT':
+      return ERRORS.DIAMOND_DEBT;
+    default:
+      return result?.error || 'Daily rewards request failed';
+  }
+}
+
+function reportError(message: string, err: unknown, title: string): void {
+  ErrorHandler.handleError(message, {
+    category: ErrorCategory.NETWORK,
+    severity: ErrorSeverity.ERROR,
+    details: err,
+    showToUser: false
+  });
+  showAlert('error', title, (err as Error)?.message || 'Something went wrong');
+}
+
+// ============================================================
+// RENDERING
+// ============================================================
+
+function formatCountdown(target: string): string {
+  const ms = Math.max(0, Date.parse(target) - Date.now());
+  const hours = Math.floor(ms / 3_600_000);
+  const minutes = Math.floor((ms % 3_600_000) / 60_000);
+  return `${hours}h ${minutes}m`;
+}
+
+function getDayState(day: number): 'claimed' | 'today' | 'upcoming' {
+  if (!status) return 'upcoming';
+  if (status.claimedToday) return day <= status.cycleDay ? 'claimed' : 'upcoming';
+  if (day === status.nextCycleDay) return 'today';
+  return day < status.nextCycleDay ? 'claimed' : 'upcoming';
+}
+
+function renderDay(calendarDay: DailyCalendarDay): string {
+  const state = getDayState(calendarDay.day);
+  return `
+    <div class="daily-day ${state} ${calendarDay.milestone ? 'milestone' : ''}">
+      <span class="daily-day-number">Day ${calendarDay.day}</span>
+      ${calendarDay.rewards.map(r => `<span class="daily-day-reward">${sanitizeHTML(describeDailyReward(r))}</span>`).join('')}
+      ${state === 'claimed' ? '<span class="daily-day-status">✔</span>' : ''}
+    </div>
+  `;
+}
+
+function renderClaimArea(): void {
+  if (!status) return;
+
+  const button = document.getElementById('daily-claim-btn') as HTMLButtonElement | null;
+  if (button) {
+    button.disabled = status.claimedToday || isBusy;
+    button.textContent = status.claimedToday
+      ? `Next reward in ${formatCountdown(status.nextClaimAt)}`
+      : `Claim day ${status.nextCycleDay}: ${status.nextRewards.map(describeDailyReward).join(' + ')}`;
+  }
+
+  const noticeEl = document.getElementById('daily-streak-notice');
+  if (noticeEl) {
+    if (!status.claimedToday && status.freezesNeeded > 0) {
+      noticeEl.textContent = `🧊 You missed a day: claiming now uses ${status.freezesNeeded} streak freeze${status.freezesNeeded === 1 ? '' : 's'}.`;
+    } else if (!status.claimedToday && status.lastClaimDate && status.nextStreak === 1) {
+      noticeEl.textContent = '💔 Your streak was broken. It starts again from day 1.';
+    } else {
+      noticeEl.textContent = '';
+    }
+  }
+}
+
+function renderDailyRewards(): void {
+  if (!status) return;
+
+  const streakEl = document.getElementById('daily-streak');
+  if (streakEl) streakEl.textContent = `🔥 ${status.streak} day streak`;
+
+  const freezesEl = document.getElementById('daily-freezes');
+  if (freezesEl) freezesEl.textContent = `🧊 ${status.freezes}/${STREAK_FREEZE_MAX} streak freezes`;
+
+  const buyBtn = document.getElementById('daily-buy-freeze-btn') as HTMLButtonElement | null;
+  if (buyBtn) {
+    buyBtn.disabled = isBusy || status.freezes >= STREAK_FREEZE_MAX;
+    buyBtn.textContent = `Buy streak freeze (${STREAK_FREEZE_PRICE} 💎)`;
+  }
+
+  const focusDay = status.claimedToday ? status.cycleDay : status.nextCycleDay;
+  const weekEl = document.getElementById('daily-week');
+  if (weekEl) weekEl.innerHTML = getCalendarWeek(focusDay).map(renderDay).join('');
+
+  const monthEl = document.getElementById('daily-month');
+  if (monthEl) monthEl.innerHTML = DAILY_CALENDAR.map(renderDay).join('');
+
+  renderClaimArea();
+}
+
+function startCountdown(): void {
+  if (countdownTimer !== null) return;
+  countdownTimer = window.setInterval(() => {
+    const screen = document.getElementById('daily-rewards');
+    if (!screen?.classList.contains('active')) {
+      window.clearInterval(countdownTimer!);
+      countdownTimer = null;
+      return;
+    }
+    // Virou o dia UTC: buscar o novo status
+    if (status?.claimedToday && Date.parse(status.nextClaimAt) <= Date.now()) {
+      void loadDailyRewards();
+      return;
+    }
+    renderClaimArea();
+  }, 30_000);
+}
+
+// ============================================================
+// ACTIONS
+// ============================================================
+
+function applyDeliveredRewards(result: any): void {
+  const delivered: DeliveredReward[] = Array.isArray(result.delivered) ? result.delivered : [];
+  let money = 0;
+  let diamonds = 0;
+
+  delivered.forEach(({ reward }) => {
+    if (reward.type === 'money') money += reward.amount;
+    if (reward.type === 'diamonds') diamonds += reward.amount;
+  });
+
+  // O saldo da API é a referência; a soma local só cobre respostas sem ele
+  if (typeof result.newBalance === 'number') stateManager.updateMoney(result.newBalance);
+  else if (money > 0) stateManager.addMoney(money);
+
+  if (typeof result.newDiamonds === 'number') stateManager.updateDiamonds(result.newDiamonds);
+  else if (diamonds > 0) stateManager.addDiamonds(diamonds);
+
+  if (Array.isArray(result.unlockedPasses)) stateManager.updateStats({ unlockedPasses: result.unlockedPasses });
+
+  if (money > 0) showMoneyPopup(money);
+  if (diamonds > 0) showDiamondPopup(diamonds);
+}
+
+async function loadDailyRewards(): Promise<void> {
+  try {
+    const result = await callDailyRewardsApi('getDailyStatus');
+    status = result.status;
+    renderDailyRewards();
+    startCountdown();
+  } catch (err) {
+    reportError('load daily rewards error', err, 'Daily rewards error');
+  }
+}
+
+async function claimDailyReward(): Promise<void> {
+  if (isBusy || !status || status.claimedToday) return;
+  isBusy = true;
+  renderClaimArea();
+
+  try {
+    const result = await callDailyRewardsApi('claimDailyReward');
+    status = result.status;
+    applyDeliveredRewards(result);
+
+    playSound('payout', { volume: 0.5 });
+    const delivered: DeliveredReward[] = result.delivered || [];
+    showToast(
+      'success',
+      `Day ${status!.cycleDay} reward claimed! 🎁`,
+      [
+        ...delivered.map(d => d.duplicate ? `${describeDailyReward(d.reward)} (owned → 💎)` : describeDailyReward(d.reward)),
+        result.freezesUsed > 0 ? `🧊 ${result.freezesUsed} freeze used` : '',
+        result.streakBroken ? 'Streak restarted' : `🔥 ${result.streak} day streak`
+      ].filter(Boolean).join(' · ')
+    );
+  } catch (err) {
+    reportError('claim daily reward error', err, 'Claim failed');
+  } finally {
+    isBusy = false;
+    renderDailyRewards();
+  }
+}
+
+async function buyStreakFreeze(): Promise<void> {
+  if (isBusy || !status) return;
+  isBusy = true;
+  renderDailyRewards();
+
+  try {
+    const result = await callDailyRewardsApi('buyStreakFreeze');
+    status = result.status;
+    if (typeof result.newDiamonds === 'number') stateManager.updateDiamonds(result.newDiamonds);
+    showDiamondPopup(-STREAK_FREEZE_PRICE);
+    playSound('buy', { volume: 0.5 });
+  } catch (err) {
+    reportError('buy streak freeze error', err, 'Purchase failed');
+  } finally {
+    isBusy = false;
+    renderDailyRewards();
+  }
+}
+
+/**
+ * Avisa no login se a recompensa do dia ainda não foi resgatada.
+ */
+export async function checkDailyRewardReminder(): Promise<void> {
+  try {
+    const result = await callDailyRewardsApi('getDailyStatus');
+    status = result.status;
+    if (status && !status.claimedToday) {
+      showToast('info', 'Daily reward ready! 🎁', `Day ${status.nextCycleDay}: ${status.nextRewards.map(describeDailyReward).join(' + ')}`);
+    }
+  } catch {
+    // Lembrete opcional: a tela mostra o erro se o jogador abrir
+  }
+}
+
+// ============================================================
+// INITIALIZATION
+// ============================================================
+
+function bindDailyRewardsUIOnce(): void {
+  const screen = document.getElementById('daily-rewards');
+  if (!screen || screen.dataset.bound) return;
+
+  document.getElementById('daily-claim-btn')?.addEventListener('click', () => void claimDailyReward());
+  document.getElementById('daily-buy-freeze-btn')?.addEventListener('click', () => void buyStreakFreeze());
+
+  screen.dataset.bound = '1';
+}
+
+export async function initDailyRewards(): Promise<void> {
+  bindDailyRewardsUIOnce();
+  await loadDailyRewards();
+}
+
+if (typeof window !== 'undefined') {
+  window.initDailyRewards = initDailyRewards;
+}
@@ -7,6 +7,7 @@ import { addCsrfHeader } from '../core/session';
 import { showToast } from '../shared/effects';
 import { navigateTo } from '../core/router';
 import { ErrorHandler, ErrorCategory, ErrorSeverity } from '../shared/error-handler';
+import { initTrades, loadTrades, openTradeComposer } from './trades';
 
 // ============================================================
 // TYPE DEFINITIONS
@@ -230,6 +231,7 @@ function renderFriendsList(): void {
         </div>
       </div>
       <div class="friend-actions">
+        <button class="friend-primary" data-action="trade">Trade</button>
         <button class="friend-danger" data-action="remove">Remove</button>
       </div>
     `;
@@ -245,6 +247,11 @@ function renderFriendsList(): void {
       navigateToProfile();
     });
 
+    const tradeBtn = item.querySelector('[data-action="trade"]') as HTMLElement | null;
+    tradeBtn?.addEventListener('click', () => {
+      void openTradeComposer({ userId: f.user_id, username: f.username || '' });
+    });
+
     const removeBtn = item.querySelector('[data-action="remove"]') as HTMLElement | null;
     if (removeBtn) {
       removeBtn.addEventListener('click', async () => {
@@ -655,6 +662,7 @@ function switchTab(tab: string): void {
   tabButtons?.forEach((btn) => {
     btn.classList.toggle('active', btn.dataset.friendsTab === tab);
   });
+  if (tab === 'trades') void loadTrades();
 }
 
 function toggleFriendsPanel(tab: string = 'friends'): void {
@@ -782,7 +790,9 @@ function bindDomOnce(): void {
 export async function initializeFriends(user: User): Promise<void> {
   currentUser = user;
   bindDomOnce();
+  initTrades();
   await refreshState();
+  await loadTrades();
 }
 
 export function cleanupFriends(): void {
@@ -13,6 +13,18 @@ import {
 } from '../shared/effects';
 import { ErrorHandler, ErrorCategory, ErrorSeverity } from '../shared/error-handler';
 import { stateManager } from '../core/state-manager';
+import { ERRORS } from '../shared/constants';
+import { applyXpAward, notifyAchievementUnlocks } from '../shared/level-ui';
+import { openListingModal } from './marketplace';
+import { getActiveCatalog, loadCatalog } from '../shared/catalog-store';
+import {
+  CONTRACT_INPUT_COUNT,
+  CONTRACT_VALUE_SPREAD,
+  getContractCandidates,
+  getContractInputValue,
+  getContractTargetRarity,
+  type ContractInput
+} from '../shared/contract-odds';
 
 // ============================================================
 // TYPE DEFINITIONS
@@ -67,6 +79,7 @@ declare global {
     setCurrentUserId: typeof setCurrentUserId;
     toggleItemSelection: typeof toggleItemSelection;
     sellSingleItem: typeof sellSingleItem;
+    listItemOnMarket: typeof listItemOnMarket;
     sellSelected: typeof sellSelected;
     openFilterModal: typeof openFilterModal;
     closeFilterModal: typeof closeFilterModal;
@@ -82,6 +95,9 @@ declare global {
     closeInventoryUpgradeModal: typeof closeInventoryUpgradeModal;
     purchaseInventoryUpgrade: typeof purchaseInventoryUpgrade;
     cycleGridMode: typeof cycleGridMode;
+    openContractModal: typeof openContractModal;
+    closeContractModal: typeof closeContractModal;
+    executeContract: typeof executeContract;
   }
 }
 
@@ -129,6 +145,7 @@ let currentFilters: Filters = {
 
 let selectedItems: Set<string> = new Set();
 let isSelling: boolean = false;
+let isContracting: boolean = false;
 let currentUserId: string | null = null;
 let currentGridModeIndex: number = 0;
 let lastGridToggleAt: number = 0;
@@ -387,7 +404,10 @@ export async function renderInventory(userId: string): Promise<void> {
           <div class="value">
             ${item.value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} 💰
           </div>
-          <button onclick="window.sellSingleItem('${itemId}')">Sell</button>
+          <div class="inv-item-actions">
+            <button onclick="window.sellSingleItem('${itemId}')">Sell</button>
+            <button class="inv-list-btn" onclick="window.listItemOnMarket('${itemId}')">List</button>
+          </div>
         </div>
       `;
     }).join('');
@@ -639,6 +659,8 @@ export async function purchaseInventoryUpgrade(): Promise<void> {
       const errorCode = result?.error;
       if (errorCode === 'INSUFFICIENT_DIAMONDS') {
         showAlert('error', 'Insufficient Diamonds 💎', `You need ${result.needed || ''} more diamonds.`);
+      } else if (errorCode === 'DIAMOND_DEBT') {
+        showAlert('error', 'Diamonds Locked 🔒', ERRORS.DIAMOND_DEBT);
       } else if (errorCode === 'MAX_CAPACITY_REACHED') {
         showAlert('info', 'Max Capacity', 'You already reached the maximum inventory capacity.');
       } else {
@@ -711,6 +733,15 @@ export function updateSelectedButton(): void {
   if (textSpan) {
     textSpan.textContent = `Sell Selected (${count})`;
   }
+
+  const contractBtn = document.getElementById('contract-btn') as HTMLButtonElement | null;
+  if (contractBtn) {
+    contractBtn.disabled = count !== CONTRACT_INPUT_COUNT;
+    const contractText = contractBtn.querySelector('span:last-child');
+    if (contractText) {
+      contractText.textContent = `Contract (${count}/${CONTRACT_INPUT_COUNT})`;
+    }
+  }
 }
 
 /**
@@ -744,6 +775,26 @@ export async function sellSingleItem(itemId: string): Promise<void> {
   await sellItem(itemId, currentUserId || '', () => renderInventory(currentUserId || ''));
 }
 
+/**
+ * Abre o modal de anúncio do marketplace. O item sai do inventário
+ * (escrow) assim que o anúncio é criado.
+ */
+export async function listItemOnMarket(itemId: string): Promise<void> {
+  itemId = String(itemId);
+  const item = (lastInventoryItems || []).find((i: any) => String(i.id) === itemId);
+  if (!item) {
+    showToast('error', 'Item not found');
+    return;
+  }
+
+  await openListingModal(item, async () => {
+    selectedItems.delete(itemId);
+    updateSelectedButton();
+    invalidateInventoryCaches();
+    await renderInventory(currentUserId || '');
+  });
+}
+
 /**
  * Vende um item individual - VERSÃO SEGURA
  */
@@ -813,6 +864,8 @@ export async function sellItem(itemId: string, userId: string, renderCallback: (
 
     // 🔥 Toast de sucesso
     showToast('success', 'Item Sold! 💰', `You received $${soldValue.toFixed(2)}`);
+    applyXpAward(result.xp);
+    notifyAchievementUnlocks(result.achievements, result.newDiamonds);
 
     // Remover da seleção se estava selecionado
     selectedItems.delete(itemId);
@@ -907,6 +960,8 @@ export async function sellSelected(): Promise<void> {
     
     // 🔥 Toast de sucesso
     showToast('success', 'Items Sold! 💰', `${soldCount} items sold for $${totalValue.toFixed(2)}`);
+    applyXpAward(result.xp);
+    notifyAchievementUnlocks(result.achievements, result.newDiamonds);
     
     // Mostrar confirmação
     showSellConfirmation(soldCount, totalValue);
@@ -1001,6 +1056,8 @@ export async function confirmSellAll(): Promise<void> {
 
     // 🔥 Alert de sucesso com detalhes
     showAlert('success', 'Mass Sale Completed! 🎉', `${soldCount} items sold for $${totalValue.toFixed(2)}`);
+    applyXpAward(result.xp);
+    notifyAchievementUnlocks(result.achievements, result.newDiamonds);
     
     // Mostrar confirmação
     showSellConfirmation(soldCount, totalValue);
@@ -1198,6 +1255,175 @@ export async function updateSellAllSummary(): Promise<void> {
   }
 }
 
+// ============================================================
+// ITEM CONTRACTS
+// ============================================================
+
+/**
+ * Busca os itens selecionados (podem estar em outras páginas/filtros)
+ */
+async function fetchSelectedContractInputs(): Promise<(ContractInput & { id: string; item_name: string })[] | null> {
+  if (!currentUserId) return null;
+
+  const { data, error } = await supabase
+    .from('inventory')
+    .select('id, item_name, rarity, value, case_name')
+    .eq('user_id', currentUserId)
+    .in('id', Array.from(selectedItems));
+
+  if (error) {
+    ErrorHandler.handleDatabaseError('Failed to load contract items', error);
+    return null;
+  }
+  return (data || []).map(item => ({ ...item, value: Number(item.value) || 0 }));
+}
+
+/**
+ * Abre o modal de contrato com o preview dos resultados possíveis
+ */
+export async function openContractModal(): Promise<void> {
+  const modal = document.getElementById('contract-modal');
+  if (!modal || selectedItems.size !== CONTRACT_INPUT_COUNT) return;
+
+  const summaryEl = document.getElementById('contract-summary');
+  const candidatesEl = document.getElementById('contract-candidates');
+  const resultEl = document.getElementById('contract-result');
+  const ctaEl = document.getElementById('contract-confirm-btn') as HTMLButtonElement | null;
+
+  if (resultEl) resultEl.innerHTML = '';
+  if (candidatesEl) candidatesEl.innerHTML = '';
+  if (ctaEl) ctaEl.disabled = true;
+  modal.classList.remove('hidden');
+
+  const [catalog, inputs] = await Promise.all([loadCatalog().catch(() => getActiveCatalog()), fetchSelectedContractInputs()]);
+  if (!inputs || inputs.length !== CONTRACT_INPUT_COUNT) {
+    if (summaryEl) summaryEl.textContent = 'Some selected items are no longer in your inventory.';
+    return;
+  }
+
+  const targetRarity = getContractTargetRarity(catalog, inputs);
+  if (targetRarity === null) {
+    if (summaryEl) {
+      summaryEl.textContent = `Select ${CONTRACT_INPUT_COUNT} items of the same rarity (${catalog.rarities[catalog.rarities.length - 1].name} items cannot be used).`;
+    }
+    return;
+  }
+
+  const inputValue = getContractInputValue(inputs);
+  const minValue = inputValue * (1 - CONTRACT_VALUE_SPREAD);
+  const maxValue = inputValue * (1 + CONTRACT_VALUE_SPREAD);
+  const nextRarity = catalog.rarities[targetRarity];
+
+  if (summaryEl) {
+    summaryEl.innerHTML = `
+      ${CONTRACT_INPUT_COUNT}× <strong>${inputs[0].rarity}</strong> → 1× <strong style="color:${nextRarity.color}">${nextRarity.name}</strong><br>
+      Input value: <strong>$${inputValue.toFixed(2)}</strong> · Result value: $${minValue.toFixed(2)} – $${maxValue.toFixed(2)}
+    `;
+  }
+
+  if (candidatesEl) {
+    candidatesEl.innerHTML = getContractCandidates(catalog, inputs)
+      .sort((a, b) => b.chance - a.chance)
+      .map(candidate => `
+        <div class="contract-candidate">
+          <span>${candidate.item.icon} ${candidate.item.name}</span>
+          <span class="contract-candidate-case">${candidate.caseData.name}</span>
+          <span class="contract-candidate-chance">${(candidate.chance * 100).toFixed(1)}%</span>
+        </div>
+      `).join('');
+  }
+
+  if (ctaEl) ctaEl.disabled = false;
+}
+
+export function closeContractModal(): void {
+  const modal = document.getElementById('contract-modal');
+  if (!modal || isContracting) return;
+  modal.classList.add('hidden');
+}
+
+/**
+ * Executa o contrato com os itens selecionados - VERSÃO SEGURA
+ */
+export async function executeContract(): Promise<void> {
+  if (isContracting || isSelling || selectedItems.size !== CONTRACT_INPUT_COUNT) return;
+
+  if (!currentUserId) {
+    alert('❌ Authentication error. Please refresh the page.');
+    return;
+  }
+
+  const ctaEl = document.getElementById('contract-confirm-btn') as HTMLButtonElement | null;
+  const resultEl = document.getElementById('contract-result');
+
+  try {
+    isContracting = true;
+    if (ctaEl) {
+      ctaEl.disabled = true;
+      ctaEl.textContent = 'Processing...';
+    }
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      alert('❌ Not authenticated!');
+      return;
+    }
+
+    // 🔒 CHAMAR API BACKEND
+    const response = await fetch('/api/_caseopening', {
+      method: 'POST',
+      headers: await addCsrfHeader({ 'Content-Type': 'application/json' }),
+      body: JSON.stringify({
+        action: 'executeContract',
+        userId: currentUserId,
+        itemIds: Array.from(selectedItems),
+        authToken: session.access_token
+      })
+    });
+
+    const result = await response.json();
+
+    if (!response.ok || !result?.success) {
+      if (result?.error === 'CONTRACT_INVALID_RARITY') {
+        showAlert('error', 'Invalid Contract', `Select ${CONTRACT_INPUT_COUNT} items of the same rarity.`);
+      } else if (result?.error === 'CONTRACT_ITEMS_CHANGED') {
+        showAlert('error', 'Contract Failed', 'Some selected items changed. Please reselect them.');
+      } else {
+        showAlert('error', 'Contract Failed', result?.error || 'Unable to execute contract. Please try again.');
+      }
+      return;
+    }
+
+    const { item } = result;
+    if (resultEl) {
+      resultEl.innerHTML = `
+        <div class="contract-result-item" style="border-color:${item.color}">
+          <span class="contract-result-icon">${item.icon}</span>
+          <strong>${item.item_name}</strong>
+          <span style="color:${item.color}">${item.rarity}</span>
+          <span>$${Number(item.value).toFixed(2)}</span>
+        </div>
+      `;
+    }
+    showToast('success', 'Contract Complete! 📜', `You received ${item.item_name} ($${Number(item.value).toFixed(2)})`);
+
+    clearSelection();
+    invalidateInventoryCaches();
+    await renderInventory(currentUserId);
+  } catch (err) {
+    ErrorHandler.handleError('Error executing contract', {
+      category: ErrorCategory.UNKNOWN,
+      severity: ErrorSeverity.ERROR,
+      details: err,
+      userMessage: 'Unable to connect to server. Check your internet.',
+      showToUser: true
+    });
+  } finally {
+    isContracting = false;
+    if (ctaEl) ctaEl.textContent = 'Sign Contract';
+  }
+}
+
 // ============================================================
 // UTILITY FUNCTIONS
 // ============================================================
@@ -1222,6 +1448,7 @@ window.renderInventory = renderInventory;
 window.setCurrentUserId = setCurrentUserId;
 window.toggleItemSelection = toggleItemSelection;
 window.sellSingleItem = sellSingleItem;
+window.listItemOnMarket = listItemOnMarket;
 window.sellSelected = sellSelected;
 window.openFilterModal = openFilterModal;
 window.closeFilterModal = closeFilterModal;
@@ -1237,6 +1464,9 @@ window.openInventoryUpgradeModal = openInventoryUpgradeModal;
 window.closeInventoryUpgradeModal = closeInventoryUpgradeModal;
 window.purchaseInventoryUpgrade = purchaseInventoryUpgrade;
 window.cycleGridMode = cycleGridMode;
+window.openContractModal = openContractModal;
+window.closeContractModal = closeContractModal;
+window.executeContract = executeContract;
 
 // Garantir estado inicial do botão de upgrade
 updateUpgradeButtonUI();
@@ -0,0 +1,503 @@
+// ============================================================
+// MARKETPLACE.TS - Mercado entre jogadores (anúncios, compra, histórico)
+// ============================================================
+
+import { supabase } from './auth';
+import { addCsrfHeader } from '../core/session';
+import { getActiveCatalog, loadCatalog } from '../shared/catalog-store';
+import { ERRORS } from '../shared/constants';
+import { showAlert, showToast, formatCurrency, sanitizeHTML } from '../shared/effects';
+import { playSound } from '../shared/sfx';
+import { ErrorHandler, ErrorCategory, ErrorSeverity } from '../shared/error-handler';
+import { stateManager } from '../core/state-manager';
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+interface Listing {
+  id: string;
+  sellerId: string;
+  sellerUsername: string;
+  isMine: boolean;
+  itemName: string;
+  rarity: string;
+  color: string;
+  value: number;
+  caseName: string | null;
+  price: number;
+  fee: number;
+  status: 'active' | 'sold' | 'cancelled' | 'expired';
+  createdAt: string;
+  expiresAt: string;
+  soldAt: string | null;
+  closedAt: string | null;
+}
+
+interface PriceHistory {
+  itemName: string;
+  sales: Array<{ price: number; soldAt: string }>;
+  stats: { count: number; last: number; average: number; min: number; max: number } | null;
+}
+
+export interface ListableItem {
+  id: string;
+  item_name: string;
+  rarity: string;
+  color: string;
+  value: number;
+}
+
+declare global {
+  interface Window {
+    initMarketplace: typeof initMarketplace;
+    closeListingModal: typeof closeListingModal;
+  }
+}
+
+// ============================================================
+// STATE
+// ============================================================
+
+let listings: Listing[] = [];
+let currentPage: number = 0;
+let totalListings: number = 0;
+let pageSize: number = 24;
+let feeRate: number = 0.05;
+let isBusy: boolean = false;
+let searchTimer: ReturnType<typeof setTimeout> | null = null;
+let listingItem: ListableItem | null = null;
+let onItemListed: (() => Promise<void> | void) | null = null;
+
+// ============================================================
+// API
+// ============================================================
+
+async function callMarketApi(action: string, payload: Record<string, unknown> = {}): Promise<any> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.access_token) throw new Error('Not authenticated');
+
+  const response = await fetch('/api/_marketplace', {
+    method: 'POST',
+    headers: await addCsrfHeader({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify({
+      action,
+      userId: session.user.id,
+      authToken: session.access_token,
+      ...payload
+    })
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(describeError(result));
+  }
+  if (typeof result.feeRate === 'number') feeRate = result.feeRate;
+  return result;
+}
+
+function describeError(result: any): string {
+  switch (result?.error) {
+    case 'INVENTORY_FULL':
+      return `Inventory full (${result.current}/${result.max}). Free up space first.`;
+    case 'INSUFFICIENT_FUNDS':
+      return 'Not enough balance to buy this item.';
+    case 'LISTING_NOT_ACTIVE':
+      return 'This listing is no longer available.';
+    case 'TOO_MANY_LISTINGS':
+      return `You can have up to ${result.max} active listings.`;
+    case 'DIAMOND_DEBT':
+      return ERRORS.DIAMOND_DEBT;
+    default:
+      return result?.error || 'Marketplace request failed';
+  }
+}
+
+function reportError(message: string, err: unknown, title: string): void {
+  ErrorHandler.handleError(message, {
+    category: ErrorCategory.NETWORK,
+    severity: ErrorSeverity.ERROR,
+    details: err,
+    showToUser: false
+  });
+  showAlert('error', title, (err as Error)?.message || 'Something went wrong');
+}
+
+async function runAction(action: () => Promise<void>): Promise<void> {
+  if (isBusy) return;
+  isBusy = true;
+  try {
+    await action();
+  } finally {
+    isBusy = false;
+  }
+}
+
+function formatFeeRate(): string {
+  return `${parseFloat((feeRate * 100).toFixed(2))}%`;
+}
+
+function getFilters(): Record<string, string> {
+  const value = (id: string) => (document.getElementById(id) as HTMLInputElement | HTMLSelectElement | null)?.value || '';
+  return {
+    search: value('market-search').trim(),
+    rarity: value('market-rarity'),
+    caseName: value('market-case'),
+    sort: value('market-sort') || 'newest'
+  };
+}
+
+// ============================================================
+// RENDERING
+// ============================================================
+
+function renderCaseOptions(): void {
+  const select = document.getElementById('market-case') as HTMLSelectElement | null;
+  if (!select) return;
+
+  const current = select.value;
+  select.innerHTML = '<option value="">All cases</option>' + getActiveCatalog().cases
+    .map(c => `<option value="${sanitizeHTML(c.name)}">${sanitizeHTML(c.name)}</option>`)
+    .join('');
+  select.value = current;
+}
+
+function renderListingCard(listing: Listing): string {
+  const action = listing.isMine
+    ? `<button class="battles-btn danger" data-market-action="cancel" data-listing-id="${listing.id}">Cancel</button>`
+    : `<button class="battles-btn" data-market-action="buy" data-listing-id="${listing.id}">Buy</button>`;
+
+  return `
+    <div class="market-card" style="border-color:${sanitizeHTML(listing.color || '#666')}">
+      <div class="market-card-name">${sanitizeHTML(listing.itemName)}</div>
+      <div class="market-card-meta" style="color:${sanitizeHTML(listing.color || '#999')}">${sanitizeHTML(listing.rarity)}</div>
+      <div class="market-card-meta">${sanitizeHTML(listing.caseName || '')}</div>
+      <div class="market-card-meta">by ${sanitizeHTML(listing.sellerUsername)}</div>
+      <div class="market-card-price">${formatCurrency(listing.price)}</div>
+      <div class="battles-card-actions">
+        <button class="battles-btn secondary" data-market-action="history" data-item-name="${sanitizeHTML(listing.itemName)}">📈</button>
+        ${action}
+      </div>
+    </div>
+  `;
+}
+
+function renderListings(): void {
+  const container = document.getElementById('market-listings');
+  if (container) {
+    container.innerHTML = listings.length
+      ? listings.map(renderListingCard).join('')
+      : '<div class="battles-empty">No items listed with these filters</div>';
+  }
+
+  const pagination = document.getElementById('market-pagination');
+  if (pagination) {
+    const totalPages = Math.max(1, Math.ceil(totalListings / pageSize));
+    pagination.innerHTML = totalPages > 1 ? `
+      <button class="battles-btn secondary" data-market-page="${currentPage - 1}" ${currentPage === 0 ? 'disabled' : ''}>‹</button>
+      <span>Page ${currentPage + 1} of ${totalPages}</span>
+      <button class="battles-btn secondary" data-market-page="${currentPage + 1}" ${currentPage + 1 >= totalPages ? 'disabled' : ''}>›</button>
+    ` : '';
+  }
+
+  const feeEl = document.getElementById('market-fee-rate');
+  if (feeEl) feeEl.textContent = formatFeeRate();
+}
+
+function renderMyListings(mine: Listing[]): void {
+  const container = document.getElementById('market-my-listings');
+  if (!container) return;
+
+  if (!mine.length) {
+    container.innerHTML = '<div class="battles-empty">You have no listings</div>';
+    return;
+  }
+
+  container.innerHTML = mine.map(listing => {
+    const status = listing.status === 'sold'
+      ? `Sold · received ${formatCurrency(listing.price - listing.fee)}`
+      : listing.status === 'active'
+        ? `Expires ${new Date(listing.expiresAt).toLocaleDateString()}`
+        : listing.status;
+    const cancel = listing.status === 'active'
+      ? `<button class="battles-btn danger" data-market-action="cancel" data-listing-id="${listing.id}">Cancel</button>`
+      : '';
+
+    return `
+      <div class="battles-card">
+        <div class="battles-card-head">
+          <strong>${sanitizeHTML(listing.itemName)}</strong>
+          <span>${formatCurrency(listing.price)}</span>
+        </div>
+        <div class="battles-card-footer">
+          <span>${status}</span>
+          ${cancel}
+        </div>
+      </div>
+    `;
+  }).join('');
+}
+
+/**
+ * Gráfico de linha (SVG) com as últimas vendas do item
+ */
+function renderPriceChart(history: PriceHistory): string {
+  if (!history.stats || history.sales.length === 0) {
+    return `<div class="battles-empty">No sales of ${sanitizeHTML(history.itemName)} yet</div>`;
+  }
+
+  const width = 300;
+  const height = 120;
+  const padding = 8;
+  const { min, max } = history.stats;
+  const range = max - min || 1;
+  const step = history.sales.length > 1 ? (width - padding * 2) / (history.sales.length - 1) : 0;
+
+  const points = history.sales.map((sale, index) => {
+    const x = history.sales.length > 1 ? padding + index * step : width / 2;
+    const y = height - padding - ((sale.price - min) / range) * (height - padding * 2);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  }).join(' ');
+
+  return `
+    <div class="market-history-title">${sanitizeHTML(history.itemName)}</div>
+    <svg class="market-chart" viewBox="0 0 ${width} ${height}" preserveAspectRatio="none">
+      <polyline points="${points}" fill="none" stroke="currentColor" stroke-width="2" />
+    </svg>
+    <div class="market-history-stats">
+      <span>Last <strong>${formatCurrency(history.stats.last)}</strong></span>
+      <span>Avg <strong>${formatCurrency(history.stats.average)}</strong></span>
+      <span>Min <strong>${formatCurrency(min)}</strong></span>
+      <span>Max <strong>${formatCurrency(max)}</strong></span>
+      <span>${history.stats.count} sales</span>
+    </div>
+  `;
+}
+
+function renderListingSummary(): void {
+  const summary = document.getElementById('market-list-summary');
+  if (!summary) return;
+
+  const price = parseFloat((document.getElementById('market-list-price') as HTMLInputElement | null)?.value || '0');
+  if (!Number.isFinite(price) || price <= 0) {
+    summary.textContent = `Fee: ${formatFeeRate()}`;
+    return;
+  }
+
+  const fee = parseFloat((price * feeRate).toFixed(2));
+  summary.textContent = `Fee (${formatFeeRate()}): ${formatCurrency(fee)} · You receive ${formatCurrency(price - fee)}`;
+}
+
+// ============================================================
+// ACTIONS
+// ============================================================
+
+async function loadListings(): Promise<void> {
+  try {
+    const result = await callMarketApi('browseListings', { ...getFilters(), page: currentPage });
+    listings = result.listings || [];
+    totalListings = result.total || 0;
+    pageSize = result.pageSize || pageSize;
+    renderListings();
+  } catch (err) {
+    reportError('load listings error', err, 'Marketplace error');
+  }
+}
+
+async function loadMyListings(): Promise<void> {
+  try {
+    const result = await callMarketApi('myListings');
+    renderMyListings(result.listings || []);
+  } catch (err) {
+    reportError('load my listings error', err, 'Marketplace error');
+  }
+}
+
+async function fetchPriceHistory(itemName: string): Promise<PriceHistory | null> {
+  try {
+    return await callMarketApi('getPriceHistory', { itemName });
+  } catch (err) {
+    reportError('load price history error', err, 'Marketplace error');
+    return null;
+  }
+}
+
+async function showPriceHistory(itemName: string): Promise<void> {
+  const container = document.getElementById('market-history');
+  if (!container) return;
+
+  const history = await fetchPriceHistory(itemName);
+  if (history) container.innerHTML = renderPriceChart(history);
+}
+
+async function buyListing(listingId: string): Promise<void> {
+  const listing = listings.find(l => l.id === listingId);
+  if (!listing) return;
+  if (!confirm(`Buy ${listing.itemName} for ${formatCurrency(listing.price)}?`)) return;
+
+  await runAction(async () => {
+    try {
+      const result = await callMarketApi('buyListing', { listingId });
+      if (typeof result.newBalance === 'number') stateManager.updateMoney(result.newBalance);
+      if (typeof window.invalidateInventoryCaches === 'function') {
+        window.invalidateInventoryCaches();
+      }
+      playSound('buy', { volume: 0.6 });
+      showToast('success', 'Item purchased', `${listing.itemName} is now in your inventory.`);
+    } catch (err) {
+      reportError('buy listing error', err, 'Purchase failed');
+    }
+    await loadListings();
+  });
+}
+
+async function cancelListing(listingId: string): Promise<void> {
+  if (!confirm('Cancel this listing? The item returns to your inventory.')) return;
+
+  await runAction(async () => {
+    try {
+      await callMarketApi('cancelListing', { listingId });
+      if (typeof window.invalidateInventoryCaches === 'function') {
+        window.invalidateInventoryCaches();
+      }
+      showToast('info', 'Listing cancelled', 'The item is back in your inventory.');
+    } catch (err) {
+      reportError('cancel listing error', err, 'Marketplace error');
+    }
+    await Promise.all([loadListings(), loadMyListings()]);
+  });
+}
+
+/**
+ * Abre o modal de anúncio a partir do inventário
+ */
+export async function openListingModal(item: ListableItem, onListed?: () => Promise<void> | void): Promise<void> {
+  bindMarketplaceUIOnce();
+  listingItem = item;
+  onItemListed = onListed || null;
+
+  const itemEl = document.getElementById('market-list-item');
+  if (itemEl) {
+    itemEl.innerHTML = `
+      <strong>${sanitizeHTML(item.item_name)}</strong>
+      <span style="color:${sanitizeHTML(item.color || '#999')}">${sanitizeHTML(item.rarity)}</span>
+      <span>Sell-back value: ${formatCurrency(item.value)}</span>
+    `;
+  }
+
+  const priceInput = document.getElementById('market-list-price') as HTMLInputElement | null;
+  if (priceInput) priceInput.value = item.value.toFixed(2);
+
+  const historyEl = document.getElementById('market-list-history');
+  if (historyEl) historyEl.innerHTML = '';
+
+  document.getElementById('market-list-modal')?.classList.remove('hidden');
+  renderListingSummary();
+
+  const history = await fetchPriceHistory(item.item_name);
+  if (history && historyEl && listingItem?.id === item.id) {
+    historyEl.innerHTML = renderPriceChart(history);
+    renderListingSummary();
+  }
+}
+
+export function closeListingModal(): void {
+  document.getElementById('market-list-modal')?.classList.add('hidden');
+  listingItem = null;
+  onItemListed = null;
+}
+
+async function confirmListing(): Promise<void> {
+  if (!listingItem) return;
+  const item = listingItem;
+  const callback = onItemListed;
+  const price = parseFloat((document.getElementById('market-list-price') as HTMLInputElement | null)?.value || '0');
+
+  if (!Number.isFinite(price) || price <= 0) {
+    showToast('error', 'Invalid price');
+    return;
+  }
+
+  await runAction(async () => {
+    try {
+      await callMarketApi('createListing', { itemId: item.id, price });
+      closeListingModal();
+      showToast('success', 'Item listed', `${item.item_name} listed for ${formatCurrency(price)}.`);
+      if (callback) await callback();
+    } catch (err) {
+      reportError('create listing error', err, 'Marketplace error');
+    }
+  });
+}
+
+// ============================================================
+// BINDINGS
+// ============================================================
+
+function reloadFromFirstPage(): void {
+  currentPage = 0;
+  void loadListings();
+}
+
+function bindMarketplaceUIOnce(): void {
+  const screen = document.getElementById('marketplace');
+  if (screen && !screen.dataset.bound) {
+    screen.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+      const actionBtn = target.closest<HTMLElement>('[data-market-action]');
+      if (actionBtn) {
+        const { marketAction, listingId, itemName } = actionBtn.dataset;
+        if (marketAction === 'buy' && listingId) void buyListing(listingId);
+        if (marketAction === 'cancel' && listingId) void cancelListing(listingId);
+        if (marketAction === 'history' && itemName) void showPriceHistory(itemName);
+        return;
+      }
+
+      const pageBtn = target.closest<HTMLElement>('[data-market-page]');
+      if (pageBtn && !(pageBtn as HTMLButtonElement).disabled) {
+        currentPage = Math.max(0, Number(pageBtn.dataset.marketPage) || 0);
+        void loadListings();
+      }
+    });
+
+    document.getElementById('market-refresh-btn')?.addEventListener('click', () => {
+      void Promise.all([loadListings(), loadMyListings()]);
+    });
+
+    ['market-rarity', 'market-case', 'market-sort'].forEach(id => {
+      document.getElementById(id)?.addEventListener('change', reloadFromFirstPage);
+    });
+
+    document.getElementById('market-search')?.addEventListener('input', () => {
+      if (searchTimer) clearTimeout(searchTimer);
+      searchTimer = setTimeout(reloadFromFirstPage, 300);
+    });
+
+    screen.dataset.bound = '1';
+  }
+
+  const modal = document.getElementById('market-list-modal');
+  if (modal && !modal.dataset.bound) {
+    document.getElementById('market-list-price')?.addEventListener('input', renderListingSummary);
+    document.getElementById('market-list-confirm')?.addEventListener('click', () => {
+      void confirmListing();
+    });
+    modal.dataset.bound = '1';
+  }
+}
+
+// ============================================================
+// INITIALIZATION
+// ============================================================
+
+export async function initMarketplace(): Promise<void> {
+  bindMarketplaceUIOnce();
+  await loadCatalog();
+  renderCaseOptions();
+  await Promise.all([loadListings(), loadMyListings()]);
+}
+
+if (typeof window !== 'undefined') {
+  window.initMarketplace = initMarketplace;
+  window.closeListingModal = closeListingModal;
+}
@@ -0,0 +1,256 @@
+// ============================================================
+// MISSIONS.TS - Tela de missões diárias e semanais
+// ============================================================
+
+import { supabase } from './auth';
+import { addCsrfHeader } from '../core/session';
+import {
+  describeMissionReward,
+  type AssignedMission,
+  type MissionPeriod,
+  type MissionReward
+} from '../shared/missions';
+import { getCaseById } from '../shared/constants';
+import { t } from '../shared/i18n';
+import { applyXpAward } from '../shared/level-ui';
+import { showAlert, showToast, showDiamondPopup, showMoneyPopup, sanitizeHTML } from '../shared/effects';
+import { playSound } from '../shared/sfx';
+import { ErrorHandler, ErrorCategory, ErrorSeverity } from '../shared/error-handler';
+import { stateManager } from '../core/state-manager';
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+interface PlayerMission extends AssignedMission {
+  progress: number;
+  completed: boolean;
+  claimed: boolean;
+  claimedAt: string | null;
+}
+
+declare global {
+  interface Window {
+    initMissions: typeof initMissions;
+  }
+}
+
+// ============================================================
+// STATE
+// ============================================================
+
+let missions: PlayerMission[] = [];
+let resets: Record<MissionPeriod, string> | null = null;
+let claimingId: string | null = null;
+let countdownTimer: number | null = null;
+
+// ============================================================
+// API
+// ============================================================
+
+async function callMissionsApi(action: string, payload: Record<string, unknown> = {}): Promise<any> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.access_token) throw new Error('Not authenticated');
+
+  const response = await fetch('/api/_missions', {
+    method: 'POST',
+    headers: await addCsrfHeader({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify({
+      action,
+      userId: session.user.id,
+      authToken: session.access_token,
+      ...payload
+    })
+  });
+
+  const result = await response.json();
+  if (!response.ok) throw new Error(describeError(result));
+  return result;
+}
+
+function describeError(result: any): string {
+  switch (result?.error) {
+    case 'ALREADY_CLAIMED':
+      return 'You already claimed this mission.';
+    case 'MISSION_NOT_COMPLETED':
+      return 'This mission is not completed yet.';
+    case 'MISSION_NOT_ACTIVE':
+      return 'This mission has expired. New missions are available.';
+    default:
+      return result?.error || 'Missions request failed';
+  }
+}
+
+function reportError(message: string, err: unknown, title: string): void {
+  ErrorHandler.handleError(message, {
+    category: ErrorCategory.NETWORK,
+    severity: ErrorSeverity.ERROR,
+    details: err,
+    showToUser: false
+  });
+  showAlert('error', title, (err as Error)?.message || 'Something went wrong');
+}
+
+// ============================================================
+// RENDERING
+// ============================================================
+
+function describeMission(mission: PlayerMission): string {
+  const params = { count: mission.target };
+  if (mission.filter?.caseId) {
+    const caseName = getCaseById(mission.filter.caseId)?.name || mission.filter.caseId;
+    return t(`mission.${mission.event}_case`, { ...params, case: caseName });
+  }
+  if (mission.filter?.rarity) {
+    return t(`mission.${mission.event}_rarity`, { ...params, rarity: mission.filter.rarity });
+  }
+  return t(`mission.${mission.event}`, params);
+}
+
+function formatCountdown(target: string): string {
+  const ms = Math.max(0, Date.parse(target) - Date.now());
+  const days = Math.floor(ms / 86_400_000);
+  const hours = Math.floor((ms % 86_400_000) / 3_600_000);
+  const minutes = Math.floor((ms % 3_600_000) / 60_000);
+  return days > 0 ? `${days}d ${hours}h` : `${hours}h ${minutes}m`;
+}
+
+function renderMission(mission: PlayerMission): string {
+  const percent = Math.min(100, (mission.progress / mission.target) * 100);
+  const busy = claimingId === mission.id;
+  const state = mission.claimed ? 'claimed' : mission.completed ? 'completed' : '';
+  const button = mission.claimed
+    ? `<span class="mission-claimed">✔ ${sanitizeHTML(t('mission.claimed'))}</span>`
+    : `<button class="battles-btn mission-claim-btn" data-mission-id="${sanitizeHTML(mission.id)}" ${mission.completed && !busy ? '' : 'disabled'}>${sanitizeHTML(t('mission.claim'))}</button>`;
+
+  return `
+    <div class="mission-card ${state}">
+      <div class="mission-info">
+        <span class="mission-title">${sanitizeHTML(describeMission(mission))}</span>
+        <span class="mission-rewards">${mission.rewards.map(r => sanitizeHTML(describeMissionReward(r))).join(' + ')}</span>
+      </div>
+      <div class="mission-progress">
+        <div class="mission-progress-bar"><div class="mission-progress-fill" style="width: ${percent}%"></div></div>
+        <span class="mission-progress-text">${mission.progress}/${mission.target}</span>
+      </div>
+      ${button}
+    </div>
+  `;
+}
+
+function renderTimers(): void {
+  if (!resets) return;
+  (['daily', 'weekly'] as MissionPeriod[]).forEach(period => {
+    const timerEl = document.getElementById(`missions-${period}-reset`);
+    if (timerEl) timerEl.textContent = `⏳ ${formatCountdown(resets![period])}`;
+  });
+}
+
+function renderMissions(): void {
+  (['daily', 'weekly'] as MissionPeriod[]).forEach(period => {
+    const listEl = document.getElementById(`missions-${period}`);
+    if (listEl) listEl.innerHTML = missions.filter(m => m.period === period).map(renderMission).join('');
+  });
+  renderTimers();
+}
+
+function startCountdown(): void {
+  if (countdownTimer !== null) return;
+  countdownTimer = window.setInterval(() => {
+    const screen = document.getElementById('missions');
+    if (!screen?.classList.contains('active')) {
+      window.clearInterval(countdownTimer!);
+      countdownTimer = null;
+      return;
+    }
+    // Virou o período: buscar as novas missões
+    if (resets && (Date.parse(resets.daily) <= Date.now() || Date.parse(resets.weekly) <= Date.now())) {
+      void loadMissions();
+      return;
+    }
+    renderTimers();
+  }, 30_000);
+}
+
+// ============================================================
+// ACTIONS
+// ============================================================
+
+function applyClaimResult(result: any): void {
+  const delivered: MissionReward[] = Array.isArray(result.delivered) ? result.delivered : [];
+  const money = delivered.reduce((sum, r) => sum + (r.type === 'money' ? r.amount : 0), 0);
+  const diamonds = delivered.reduce((sum, r) => sum + (r.type === 'diamonds' ? r.amount : 0), 0);
+
+  if (typeof result.newBalance === 'number') stateManager.updateMoney(result.newBalance);
+  else if (money > 0) stateManager.addMoney(money);
+
+  if (typeof result.newDiamonds === 'number') stateManager.updateDiamonds(result.newDiamonds);
+  else if (diamonds > 0) stateManager.addDiamonds(diamonds);
+
+  if (money > 0) showMoneyPopup(money);
+  if (diamonds > 0) showDiamondPopup(diamonds);
+  applyXpAward(result.xp);
+}
+
+async function loadMissions(): Promise<void> {
+  try {
+    const result = await callMissionsApi('getMissions');
+    missions = result.missions || [];
+    resets = result.resets || null;
+    renderMissions();
+    startCountdown();
+  } catch (err) {
+    reportError('load missions error', err, 'Missions error');
+  }
+}
+
+async function claimMission(missionId: string): Promise<void> {
+  const mission = missions.find(m => m.id === missionId);
+  if (claimingId || !mission || !mission.completed || mission.claimed) return;
+  claimingId = missionId;
+  renderMissions();
+
+  try {
+    const result = await callMissionsApi('claimMission', { missionId });
+    mission.claimed = true;
+    applyClaimResult(result);
+
+    playSound('payout', { volume: 0.5 });
+    showToast(
+      'success',
+      t('mission.completed_title'),
+      (result.delivered || []).map(describeMissionReward).join(' · ')
+    );
+  } catch (err) {
+    reportError('claim mission error', err, 'Claim failed');
+    await loadMissions();
+  } finally {
+    claimingId = null;
+    renderMissions();
+  }
+}
+
+// ============================================================
+// INITIALIZATION
+// ============================================================
+
+function bindMissionsUIOnce(): void {
+  const screen = document.getElementById('missions');
+  if (!screen || screen.dataset.bound) return;
+
+  screen.addEventListener('click', (event) => {
+    const button = (event.target as HTMLElement).closest<HTMLButtonElement>('.mission-claim-btn');
+    if (button?.dataset.missionId) void claimMission(button.dataset.missionId);
+  });
+
+  screen.dataset.bound = '1';
+}
+
+export async function initMissions(): Promise<void> {
+  bindMissionsUIOnce();
+  await loadMissions();
+}
+
+if (typeof window !== 'undefined') {
+  window.initMissions = initMissions;
+}
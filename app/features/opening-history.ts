@@ -0,0 +1,431 @@
+// ============================================================
+// OPENING-HISTORY.TS - Histórico de aberturas do jogador + replay
+// ============================================================
+// Lista as aberturas de `case_openings` (action `getOpeningHistory` em
+// _caseopening) com seed, filtros e exportação CSV. O replay reconstrói os
+// 96 itens do reel a partir do seed gravado, com o catálogo e os contadores
+// de pity da época, e roda a mesma animação horizontal das aberturas.
+
+import { supabase } from './auth';
+import { animateHorizontalReel } from './caseopening';
+import type { PreviewItem, SlotData } from './caseopening';
+import { generateRollSlots } from '../shared/case-rng';
+import type { RolledItem, PityCounters } from '../shared/case-rng';
+import { findCatalogCase } from '../shared/case-catalog';
+import { FREE_CASES, getFreeCase } from '../shared/free-cases';
+import { getActiveCatalog, loadCatalogVersion } from '../shared/catalog-store';
+import { showAlert, showToast, sanitizeHTML } from '../shared/effects';
+import { playSound } from '../shared/sfx';
+import { ErrorHandler, ErrorCategory, ErrorSeverity } from '../shared/error-handler';
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+interface OpeningRecord {
+  id: string;
+  caseId: string;
+  caseName: string;
+  quantity: number;
+  totalCost: number;
+  totalValue: number;
+  netProfit: number;
+  seed: string;
+  serverSeedHash: string;
+  clientSeed: string;
+  nonce: number;
+  catalogVersion: number;
+  pityCounters: PityCounters | null;
+  winners: (RolledItem | null)[];
+  createdAt: string;
+}
+
+interface HistoryFilters {
+  caseId: string;
+  rarity: string;
+  from: string;
+  to: string;
+}
+
+declare global {
+  interface Window {
+    initOpeningHistory: typeof initOpeningHistory;
+    closeHistoryReplay: typeof closeHistoryReplay;
+  }
+}
+
+// ============================================================
+// STATE
+// ============================================================
+
+const PAGE_SIZE = 25;
+const EXPORT_PAGE_SIZE = 500;
+const MAX_EXPORT_ROWS = 5000;
+const REPLAY_DURATION_MS = 6000;
+
+let openings: OpeningRecord[] = [];
+let hasMore: boolean = false;
+let isLoading: boolean = false;
+let isExporting: boolean = false;
+let isReplaying: boolean = false;
+let requestToken: number = 0;
+let replayShareText: string = '';
+
+// ============================================================
+// API
+// ============================================================
+
+async function fetchHistoryPage(filters: HistoryFilters, offset: number, limit: number): Promise<{ openings: OpeningRecord[]; hasMore: boolean }> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.access_token) throw new Error('Not authenticated');
+
+  // Datas do filtro são dias locais; o fim do intervalo inclui o dia inteiro
+  const from = filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : undefined;
+  const to = filters.to ? new Date(`${filters.to}T23:59:59.999`).toISOString() : undefined;
+
+  const response = await fetch('/api/_caseopening', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      action: 'getOpeningHistory',
+      userId: session.user.id,
+      authToken: session.access_token,
+      caseId: filters.caseId || undefined,
+      rarity: filters.rarity || undefined,
+      from,
+      to,
+      offset,
+      limit
+    })
+  });
+
+  const result = await response.json();
+  if (!response.ok) throw new Error(result.error || 'Failed to load opening history');
+  return { openings: result.openings || [], hasMore: Boolean(result.hasMore) };
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+function getFilters(): HistoryFilters {
+  const value = (id: string) => (document.getElementById(id) as HTMLInputElement | HTMLSelectElement | null)?.value || '';
+  return {
+    caseId: value('history-case'),
+    rarity: value('history-rarity'),
+    from: value('history-from'),
+    to: value('history-to')
+  };
+}
+
+function formatMoney(value: number): string {
+  return `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+}
+
+function formatDate(iso: string): string {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? '—' : date.toLocaleString();
+}
+
+function reportError(message: string, err: unknown, title: string): void {
+  ErrorHandler.handleError(message, {
+    category: ErrorCategory.NETWORK,
+    severity: ErrorSeverity.ERROR,
+    details: err,
+    showToUser: false
+  });
+  showAlert('error', title, (err as Error)?.message || 'Something went wrong');
+}
+
+function toPreviewItem(item: RolledItem): PreviewItem {
+  return { ...item, color: item.rarityColor };
+}
+
+// ============================================================
+// FILTERS
+// ============================================================
+
+function populateFilterOptions(): void {
+  const catalog = getActiveCatalog();
+  const caseSelect = document.getElementById('history-case') as HTMLSelectElement | null;
+  const raritySelect = document.getElementById('history-rarity') as HTMLSelectElement | null;
+
+  if (caseSelect) {
+    const selected = caseSelect.value;
+    caseSelect.innerHTML = '<option value="">All cases</option>' +
+      [...catalog.cases, ...FREE_CASES].map(c => `<option value="${sanitizeHTML(c.id)}">${sanitizeHTML(c.name)}</option>`).join('');
+    caseSelect.value = selected;
+  }
+
+  if (raritySelect) {
+    const selected = raritySelect.value;
+    raritySelect.innerHTML = '<option value="">All rarities</option>' +
+      catalog.rarities.map(r => `<option value="${sanitizeHTML(r.name)}">${sanitizeHTML(r.icon)} ${sanitizeHTML(r.name)}</option>`).join('');
+    raritySelect.value = selected;
+  }
+}
+
+// ============================================================
+// RENDERING
+// ============================================================
+
+function renderOpening(opening: OpeningRecord): string {
+  const profitClass = opening.netProfit > 0 ? 'positive' : opening.netProfit < 0 ? 'negative' : '';
+  const items = opening.winners.map((item, slot) => item ? `
+    <div class="history-item" style="border-color: ${sanitizeHTML(item.rarityColor)};">
+      <span class="history-item-icon">${sanitizeHTML(item.icon)}</span>
+      <span class="history-item-name">${sanitizeHTML(item.name)}</span>
+      <span class="history-item-value" style="color: ${sanitizeHTML(item.rarityColor)};">${item.rarityIcon} ${formatMoney(item.value)}</span>
+      <button class="history-replay-btn" data-opening-id="${sanitizeHTML(opening.id)}" data-slot="${slot}">▶ Replay</button>
+    </div>
+  ` : '').join('');
+
+  return `
+    <div class="history-card">
+      <div class="history-card-head">
+        <div>
+          <strong>${sanitizeHTML(opening.caseName)}</strong>${opening.quantity > 1 ? ` ×${opening.quantity}` : ''}
+          <span class="history-date">${formatDate(opening.createdAt)}</span>
+        </div>
+        <div class="history-money">
+          <span>Cost <strong>${formatMoney(opening.totalCost)}</strong></span>
+          <span>Value <strong>${formatMoney(opening.totalValue)}</strong></span>
+          <span>Profit <strong class="history-profit ${profitClass}">${formatMoney(opening.netProfit)}</strong></span>
+        </div>
+      </div>
+      <div class="history-items">${items}</div>
+      <div class="history-seed"><span>Seed</span><code>${sanitizeHTML(opening.seed || '—')}</code><small>Nonce ${opening.nonce ?? '—'} • Catalog v${opening.catalogVersion ?? '—'}</small></div>
+    </div>
+  `;
+}
+
+function renderHistory(): void {
+  const list = document.getElementById('history-list');
+  const loadMore = document.getElementById('history-load-more') as HTMLButtonElement | null;
+
+  if (list) {
+    list.innerHTML = openings.length
+      ? openings.map(renderOpening).join('')
+      : `<p class="history-empty">${isLoading ? 'Loading...' : 'No openings match these filters.'}</p>`;
+  }
+
+  if (loadMore) {
+    loadMore.style.display = hasMore ? '' : 'none';
+    loadMore.disabled = isLoading;
+  }
+}
+
+// ============================================================
+// ACTIONS
+// ============================================================
+
+async function loadHistory(reset: boolean): Promise<void> {
+  if (isLoading && !reset) return;
+
+  const myToken = ++requestToken;
+  if (reset) {
+    openings = [];
+    hasMore = false;
+  }
+  isLoading = true;
+  renderHistory();
+
+  try {
+    const page = await fetchHistoryPage(getFilters(), openings.length, PAGE_SIZE);
+    // Filtros mudaram enquanto carregava
+    if (myToken !== requestToken) return;
+
+    openings = [...openings, ...page.openings];
+    hasMore = page.hasMore;
+  } catch (err) {
+    if (myToken === requestToken) reportError('load opening history error', err, 'History error');
+  } finally {
+    if (myToken === requestToken) {
+      isLoading = false;
+      renderHistory();
+    }
+  }
+}
+
+function escapeCsv(value: unknown): string {
+  const text = String(value ?? '');
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+async function exportCsv(): Promise<void> {
+  if (isExporting) return;
+  isExporting = true;
+
+  const button = document.getElementById('history-export') as HTMLButtonElement | null;
+  if (button) button.disabled = true;
+
+  try {
+    const filters = getFilters();
+    const rows: OpeningRecord[] = [];
+    let more = true;
+    while (more && rows.length < MAX_EXPORT_ROWS) {
+      const page = await fetchHistoryPage(filters, rows.length, EXPORT_PAGE_SIZE);
+      rows.push(...page.openings);
+      more = page.hasMore;
+    }
+
+    const header = ['date', 'case', 'case_id', 'quantity', 'cost', 'value', 'net_profit', 'items', 'seed', 'server_seed_hash', 'client_seed', 'nonce', 'catalog_version'];
+    const lines = rows.slice(0, MAX_EXPORT_ROWS).map(opening => [
+      opening.createdAt,
+      opening.caseName,
+      opening.caseId,
+      opening.quantity,
+      opening.totalCost.toFixed(2),
+      opening.totalValue.toFixed(2),
+      opening.netProfit.toFixed(2),
+      opening.winners.filter(Boolean).map(item => `${item!.name} (${item!.rarity}, $${item!.value.toFixed(2)})`).join('; '),
+      opening.seed,
+      opening.serverSeedHash,
+      opening.clientSeed,
+      opening.nonce,
+      opening.catalogVersion
+    ].map(escapeCsv).join(','));
+
+    const blob = new Blob([[header.join(','), ...lines].join('\n')], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+
+    link.href = url;
+    link.download = `lootskirmish-openings-${new Date().toISOString().split('T')[0]}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+
+    showToast('success', '📥 Exported', `${lines.length} opening(s) exported as CSV`);
+  } catch (err) {
+    reportError('export opening history error', err, 'Export failed');
+  } finally {
+    isExporting = false;
+    if (button) button.disabled = false;
+  }
+}
+
+// ============================================================
+// REPLAY
+// ============================================================
+
+/**
+ * Reconstrói o slot a partir do seed gravado. Usa a versão do catálogo e
+ * os contadores de pity da abertura, como o verificador provably fair.
+ */
+async function rebuildSlot(opening: OpeningRecord, slotIndex: number): Promise<SlotData> {
+  const catalog = await loadCatalogVersion(opening.catalogVersion);
+  const caseData = findCatalogCase(catalog, opening.caseId) ?? getFreeCase(opening.caseId);
+  if (!caseData) throw new Error('This case is not available for replay.');
+
+  const pityCounters = opening.pityCounters ?? undefined;
+  const slot = generateRollSlots(caseData, catalog.rarities, opening.seed, opening.quantity, { pityCounters })[slotIndex];
+  if (!slot?.winner || slot.items.some(item => !item)) throw new Error('Could not rebuild this reel.');
+
+  return {
+    items: slot.items.map(item => toPreviewItem(item!)),
+    winnerIndex: slot.winnerIndex,
+    winner: toPreviewItem(slot.winner)
+  };
+}
+
+async function replayOpening(openingId: string, slotIndex: number): Promise<void> {
+  const opening = openings.find(o => o.id === openingId);
+  if (!opening || isReplaying) return;
+
+  const modal = document.getElementById('history-replay-modal');
+  const reel = document.getElementById('history-replay-reel');
+  const info = document.getElementById('history-replay-info');
+  if (!modal || !reel) return;
+
+  isReplaying = true;
+  try {
+    const slot = await rebuildSlot(opening, slotIndex);
+    const recorded = opening.winners[slotIndex];
+    const matches = recorded && recorded.name === slot.winner.name && recorded.value === slot.winner.value;
+
+    replayShareText = `${slot.winner.rarityIcon} ${slot.winner.name} ($${slot.winner.value.toFixed(2)}) from ${opening.caseName} on LootSkirmish • seed ${opening.seed}`;
+    if (info) {
+      info.innerHTML = `
+        <strong>${sanitizeHTML(opening.caseName)}</strong> • ${formatDate(opening.createdAt)}
+        <small>${matches ? '✅ Rebuilt reel matches the recorded drop' : '❌ Rebuilt reel does NOT match the recorded drop'}</small>
+      `;
+    }
+
+    // showWinner troca o conteúdo do container: recriar o reel a cada replay
+    reel.innerHTML = `
+      <div class="reel-container-horizontal" id="reel-container-replay">
+        <div class="reel-indicator-horizontal"></div>
+        <div class="reel-track-horizontal" id="reel-track-replay"></div>
+      </div>
+    `;
+    modal.classList.remove('hidden');
+
+    playSound('open_case', { volume: 0.5 });
+    await animateHorizontalReel('replay', slot, REPLAY_DURATION_MS);
+  } catch (err) {
+    reportError('replay opening error', err, 'Replay failed');
+  } finally {
+    isReplaying = false;
+  }
+}
+
+function copyReplayShare(): void {
+  if (!replayShareText) return;
+  navigator.clipboard.writeText(replayShareText).then(() => {
+    showToast('success', '📋 Copied', 'Share text copied to clipboard');
+  }).catch(() => {
+    showAlert('error', 'Copy failed', 'Could not copy share text');
+  });
+}
+
+export function closeHistoryReplay(): void {
+  if (isReplaying) return;
+  document.getElementById('history-replay-modal')?.classList.add('hidden');
+}
+
+// ============================================================
+// INITIALIZATION
+// ============================================================
+
+function bindHistoryUIOnce(): void {
+  const screen = document.getElementById('opening-history');
+  if (!screen || screen.dataset.bound) return;
+
+  screen.addEventListener('change', (event) => {
+    const target = event.target as HTMLElement;
+    if (target.closest('.history-filters')) void loadHistory(true);
+  });
+
+  screen.addEventListener('click', (event) => {
+    const target = event.target as HTMLElement;
+    const replayBtn = target.closest<HTMLElement>('.history-replay-btn');
+    if (replayBtn?.dataset.openingId) {
+      void replayOpening(replayBtn.dataset.openingId, Number(replayBtn.dataset.slot) || 0);
+      return;
+    }
+    if (target.closest('#history-load-more')) void loadHistory(false);
+    if (target.closest('#history-export')) void exportCsv();
+    if (target.closest('#history-reset-filters')) {
+      screen.querySelectorAll<HTMLInputElement | HTMLSelectElement>('.history-filters input, .history-filters select')
+        .forEach(el => { el.value = ''; });
+      void loadHistory(true);
+    }
+  });
+
+  document.getElementById('history-replay-share')?.addEventListener('click', copyReplayShare);
+
+  screen.dataset.bound = '1';
+}
+
+export async function initOpeningHistory(): Promise<void> {
+  bindHistoryUIOnce();
+  populateFilterOptions();
+  await loadHistory(true);
+}
+
+if (typeof window !== 'undefined') {
+  window.initOpeningHistory = initOpeningHistory;
+  window.closeHistoryReplay = closeHistoryReplay;
+}
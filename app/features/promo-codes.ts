@@ -0,0 +1,178 @@
+// ============================================================
+// PROMO-CODES.TS - Resgate de códigos promocionais (loja e Settings)
+// ============================================================
+
+import { supabase } from './auth';
+import { addSecurityHeaders } from '../core/session';
+import {
+  describePromoError,
+  describePromoReward,
+  normalizePromoCode,
+  type PromoReward
+} from '../shared/promo-codes';
+import { showAlert, showToast, showDiamondPopup, showMoneyPopup } from '../shared/effects';
+import { playSound } from '../shared/sfx';
+import { ErrorHandler, ErrorCategory, ErrorSeverity } from '../shared/error-handler';
+import { ERRORS } from '../shared/constants';
+import { stateManager } from '../core/state-manager';
+import { loadUserThemes } from '../shared/themes';
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+export interface PendingShopDiscount {
+  code: string;
+  percentage: number;
+}
+
+interface RedeemResult {
+  code: string;
+  reward: PromoReward;
+  duplicate: boolean;
+  newBalance?: number;
+  newDiamonds?: number;
+  unlockedPasses?: string[];
+  unlockedThemes?: string[];
+}
+
+interface PromoFormOptions {
+  onRedeemed?: (result: RedeemResult) => void;
+}
+
+// ============================================================
+// STATE
+// ============================================================
+
+let isRedeeming: boolean = false;
+
+// ============================================================
+// API
+// ============================================================
+
+async function callPromoCodesApi(action: string, payload: Record<string, unknown> = {}): Promise<any> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.access_token) throw new Error('Not authenticated');
+
+  // 🔑 A chave de idempotência vai no header e no body (o servidor lê do body)
+  const { headers, idempotencyKey } = await addSecurityHeaders({ 'Content-Type': 'application/json' });
+
+  const response = await fetch('/api/_promocodes', {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      action,
+      userId: session.user.id,
+      authToken: session.access_token,
+      idempotencyKey,
+      ...payload
+    })
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    const message = result?.error === 'DIAMOND_DEBT' ? ERRORS.DIAMOND_DEBT : describePromoError(result?.error);
+    throw new Error(message || result?.error || 'Promo code request failed');
+  }
+  return result;
+}
+
+/**
+ * Cupom de desconto já resgatado e ainda não usado numa ordem paga
+ */
+export async function fetchPendingShopDiscount(): Promise<PendingShopDiscount | null> {
+  try {
+    const result = await callPromoCodesApi('getPromoStatus');
+    return result.pendingDiscount || null;
+  } catch (err) {
+    ErrorHandler.handleError('Failed to load promo discount', {
+      category: ErrorCategory.NETWORK,
+      severity: ErrorSeverity.WARNING,
+      details: err,
+      showToUser: false
+    });
+    return null;
+  }
+}
+
+// ============================================================
+// REDEEM
+// ============================================================
+
+async function applyRedeemResult(result: RedeemResult): Promise<void> {
+  if (typeof result.newBalance === 'number') stateManager.updateMoney(result.newBalance);
+  if (typeof result.newDiamonds === 'number') stateManager.updateDiamonds(result.newDiamonds);
+  if (Array.isArray(result.unlockedPasses)) stateManager.updateStats({ unlockedPasses: result.unlockedPasses });
+  if (Array.isArray(result.unlockedThemes)) await loadUserThemes();
+
+  const { reward } = result;
+  if (reward.type === 'money') showMoneyPopup(reward.amount);
+  if (reward.type === 'diamonds') showDiamondPopup(reward.amount);
+}
+
+export async function redeemPromoCode(rawCode: string): Promise<RedeemResult | null> {
+  const code = normalizePromoCode(rawCode);
+  if (isRedeeming) return null;
+  if (!code) {
+    showToast('error', 'Enter a code first');
+    return null;
+  }
+
+  isRedeeming = true;
+  try {
+    const result: RedeemResult = await callPromoCodesApi('redeemPromoCode', { code });
+    await applyRedeemResult(result);
+
+    playSound('payout', { volume: 0.5 });
+    const rewardText = describePromoReward(result.reward);
+    showToast(
+      'success',
+      `Code ${result.code} redeemed! 🎁`,
+      result.duplicate ? `${rewardText} (owned → 💎)` : rewardText
+    );
+    return result;
+  } catch (err) {
+    ErrorHandler.handleError('redeem promo code error', {
+      category: ErrorCategory.NETWORK,
+      severity: ErrorSeverity.ERROR,
+      details: err,
+      showToUser: false
+    });
+    showAlert('error', 'Code not redeemed', (err as Error)?.message || 'Something went wrong');
+    return null;
+  } finally {
+    isRedeeming = false;
+  }
+}
+
+// ============================================================
+// FORM BINDING
+// ============================================================
+
+/**
+ * Liga um formulário de resgate (input + botão). Chamado por cada tela que
+ * tem o campo; `data-bound` evita listeners duplicados ao reabrir a tela.
+ */
+export function bindPromoCodeForm(formId: string, { onRedeemed }: PromoFormOptions = {}): void {
+  const form = document.getElementById(formId) as HTMLFormElement | null;
+  if (!form || form.dataset.bound === '1') return;
+  form.dataset.bound = '1';
+
+  form.addEventListener('submit', async (e) => {
+    e.preventDefault();
+    const input = form.querySelector('input') as HTMLInputElement | null;
+    const button = form.querySelector('button') as HTMLButtonElement | null;
+    if (!input) return;
+
+    if (button) button.disabled = true;
+    try {
+      const result = await redeemPromoCode(input.value);
+      if (result) {
+        input.value = '';
+        onRedeemed?.(result);
+      }
+    } finally {
+      if (button) button.disabled = false;
+    }
+  });
+}
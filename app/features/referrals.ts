@@ -65,6 +65,7 @@ const TYPE_META: Record<string, TypeMeta> = {
   spend_commission: { icon: '🪙', label: 'Commission' },
   win_commission: { icon: '🏆', label: 'Win commission' },
   diamond_bonus: { icon: '💎', label: 'Diamond bonus' },
+  diamond_bonus_reversal: { icon: '↩️', label: 'Bonus reversed (refund)' },
   withdrawal: { icon: '⬇️', label: 'Withdrawal' },
   commission: { icon: '🪙', label: 'Commission' },
   daily_interest: { icon: '📈', label: 'Daily interest (5%)' }
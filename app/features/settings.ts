@@ -9,6 +9,8 @@ import { playSound, setMasterVolume, setSoundEnabled, setSoundPreference, setAll
 import { showToast, showAlert } from '../shared/effects';
 import { ErrorHandler, ErrorCategory, ErrorSeverity } from '../shared/error-handler';
 import { validateUsername, validatePasswordStrength } from '../shared/validation';
+import { ERRORS } from '../shared/constants';
+import { bindPromoCodeForm } from './promo-codes';
 
 // ============================================================
 // TYPE DEFINITIONS
@@ -582,6 +584,11 @@ function applySavedPreferencesToUI(): void {
     languageSelect.value = savedLanguage;
   }
 
+  const currencySelect = document.getElementById('currency-select') as HTMLSelectElement | null;
+  if (currencySelect) {
+    currencySelect.value = localStorage.getItem('currency') || 'auto';
+  }
+
   syncSoundModalCheckboxes();
   updateSoundChannelEnabledState();
 }
@@ -772,6 +779,23 @@ function bindSettingsUIOnce(): void {
     });
   }
 
+  // Moeda dos preços da loja ('auto' = pela região do navegador/idioma)
+  const currencySelect = document.getElementById('currency-select') as HTMLSelectElement | null;
+  if (currencySelect && currencySelect.dataset.bound !== '1') {
+    currencySelect.dataset.bound = '1';
+    currencySelect.addEventListener('change', function(this: HTMLSelectElement) {
+      if (this.value === 'auto') {
+        localStorage.removeItem('currency');
+      } else {
+        localStorage.setItem('currency', this.value);
+      }
+      showToast('success', 'Currency updated');
+    });
+  }
+
+  // Códigos promocionais (o mesmo formulário da loja)
+  bindPromoCodeForm('settings-promo-form');
+
   bindSoundModal();
 }
 
@@ -1000,6 +1024,8 @@ export async function enableUsernameEdit(): Promise<void> {
         } else if (result.error === 'INSUFFICIENT_DIAMONDS') {
           const missing = typeof result.needed === 'number' ? result.needed : 100;
           showAlert('error', 'Insufficient diamonds', `You need ${missing} more diamonds to rename.`);
+        } else if (result.error === 'DIAMOND_DEBT') {
+          showAlert('error', 'Diamonds locked', ERRORS.DIAMOND_DEBT);
         } else if (result.error === 'SAME_USERNAME') {
           showAlert('info', 'Same username', 'You already have this username.');
         } else {
@@ -4,69 +4,41 @@
 
 import { supabase } from './auth';
 import { addCsrfHeader, addIdempotencyHeader } from '../core/session';
-import { showAlert, showToast } from '../shared/effects';
+import { showAlert, showToast, formatCurrency } from '../shared/effects';
 import { getActiveUser } from '../core/session';
 import { ErrorHandler, ErrorCategory, ErrorSeverity } from '../shared/error-handler';
 import { stateManager } from '../core/state-manager';
+import { formatDate, formatNumber, getLocale, t } from '../shared/i18n';
+import {
+  DEFAULT_SHOP_CATALOG,
+  calculateShopOffer,
+  detectShopCurrency,
+  findShopProduct,
+  findShopSubscription,
+  isShopCurrency,
+  isShopProductAvailable,
+  validateShopCatalog,
+  type ShopCatalog,
+  type ShopCurrency,
+  type ShopOffer,
+  type ShopPackage,
+  type ShopSubscription
+} from '../shared/shop-catalog';
+import { bindPromoCodeForm, fetchPendingShopDiscount, type PendingShopDiscount } from './promo-codes';
 
 // ============================================================
 // TIPOS E INTERFACES
 // ============================================================
 
-interface FirstPurchaseBonus {
-  type: 'percentage' | 'fixed';
-  value: number;
-  label: string;
+interface SubscriptionStatus {
+  sub: ShopSubscription;
+  expiresAt: Date;
+  claimedToday: boolean;
 }
 
-interface TimedBonus {
-  percentage: number;
-  endsAt: string;
-  label: string;
-}
-
-interface ShopPackage {
-  id: string;
-  name: string;
-  diamonds: number;
-  price: number;
-  priceBRL: number;
-  icon: string;
-  popular: boolean;
-  firstPurchaseBonus?: FirstPurchaseBonus;
-  timedBonus?: TimedBonus;
-}
-
-interface ShopSubscription {
-  id: string;
-  name: string;
-  price: number;
-  priceBRL: number;
-  duration: number;
-  icon: string;
-  diamonds: number;
-  dailyDiamonds: number;
-  benefits: string[];
-  popular: boolean;
-}
-
-interface BonusCalculation {
-  bonus: number;
-  type: 'first_purchase' | 'timed' | null;
-  label: string;
-  total: number;
-  hasBonus: boolean;
-}
-
-interface SelectedProduct {
-  id: string;
-  name: string;
-  price: number;
-  priceBRL: number;
-  icon: string;
+type SelectedProduct = (ShopPackage | ShopSubscription) & {
   type: 'package' | 'subscription';
-  [key: string]: any;
-}
+};
 
 interface PlayerStats {
   total_purchases: number;
@@ -93,111 +65,14 @@ declare global {
 }
 
 // ============================================================
-// CONFIGURAÇÃO DE PACOTES E ASSINATURAS
+// CONFIGURAÇÃO
 // ============================================================
 
-const PACKAGES = [
-  {
-    id: 'pkg_250',
-    name: 'STARTER PACK',
-    diamonds: 250,
-    price: 1.99, // USD
-    priceBRL: 14.99,
-    icon: '💎',
-    popular: false,
-    firstPurchaseBonus: {
-      type: 'percentage',
-      value: 10,
-      label: '+10% First Purchase'
-    }
-  },
-  {
-    id: 'pkg_600',
-    name: 'BRONZE PACK',
-    diamonds: 600,
-    price: 4.49,
-    priceBRL: 27.49,
-    icon: '💎',
-    popular: true
-  },
-  {
-    id: 'pkg_1400',
-    name: 'SILVER PACK',
-    diamonds: 1400,
-    price: 9.99,
-    priceBRL: 59.99,
-    icon: '💎',
-    popular: false,
-    timedBonus: {
-      percentage: 40,
-      endsAt: '2026-01-16T23:59:59Z',
-      label: '+40% Limited Time'
-    }
-  },
-  {
-    id: 'pkg_2800',
-    name: 'GOLD PACK',
-    diamonds: 2800,
-    price: 17.99,
-    priceBRL: 109.99,
-    icon: '💎',
-    popular: false
-  },
-  {
-    id: 'pkg_3750',
-    name: 'PLATINUM PACK',
-    diamonds: 3750,
-    price: 27.99,
-    priceBRL: 159.99,
-    icon: '💎',
-    popular: false,
-    timedBonus: {
-      percentage: 20,
-      endsAt: '2026-02-20T23:59:59Z',
-      label: '+20% Limited Time'
-    }
-  }
-];
-
-const SUBSCRIPTIONS = [
-  {
-    id: 'sub_premium',
-    name: 'PREMIUM SUBSCRIPTION',
-    price: 5.99,
-    priceBRL: 34.99,
-    duration: 30,
-    icon: '👑',
-    diamonds: 300,
-    dailyDiamonds: 15,
-    benefits: [
-      '300💎 instantly',
-      '15💎 daily (450 total/30 days)',
-      'Premium badge on your profile',
-      'Access to exclusive cases',
-      'Priority support'
-    ],
-    popular: true
-  },
-  {
-    id: 'sub_premium_bp',
-    name: 'PREMIUM + BATTLE PASS',
-    price: 9.99,
-    priceBRL: 59.99,
-    duration: 30,
-    icon: '👑',
-    diamonds: 300,
-    dailyDiamonds: 15,
-    benefits: [
-      '300💎 instantly',
-      '15💎 daily (450 total/30 days)',
-      'Battle Pass included',
-      'Premium badge on your profile',
-      'Access to exclusive cases',
-      'Priority support'
-    ],
-    popular: false
-  }
-];
+// Moeda escolhida em Settings; 'auto' (ou vazio) = pela região do navegador/idioma
+const CURRENCY_STORAGE_KEY = 'currency';
+
+// Espelha PAYMENT_SANDBOX_ENABLED do servidor (VITE_PAYMENT_SANDBOX=true no .env)
+const PAYMENT_SANDBOX_ENABLED = (import.meta as any).env?.VITE_PAYMENT_SANDBOX === 'true';
 
 // ============================================================
 // ESTADO GLOBAL
@@ -210,6 +85,16 @@ let selectedProduct: SelectedProduct | null = null;
 let selectedPaymentMethod: string = 'stripe';
 let isProcessing: boolean = false;
 let battlePassAddonEnabled: boolean = false; // Add-on Battle Pass
+let subscriptionStatus: SubscriptionStatus | null = null;
+let isClaimingDaily: boolean = false;
+
+// Catálogo servido pelo backend (pacotes, assinaturas e promoções agendadas).
+// O embutido só é usado se a API falhar.
+let shopCatalog: ShopCatalog = DEFAULT_SHOP_CATALOG;
+let serverClockOffset: number = 0;
+
+// Cupom de código promocional aplicado na próxima ordem (o servidor confere de novo)
+let pendingDiscount: PendingShopDiscount | null = null;
 
 // Timer para bônus temporários
 let bonusTimers: Map<string, NodeJS.Timeout> = new Map();
@@ -289,10 +174,20 @@ export async function initShop(): Promise<void> {
       return;
     }
     currentUser = user;
+    await loadShopCatalog();
     await loadUserData();
+    pendingDiscount = await fetchPendingShopDiscount();
     renderShop();
     startBonusTimers();
     bindShopEvents();
+    bindPromoCodeForm('shop-promo-form', {
+      onRedeemed: async result => {
+        if (result.reward.type !== 'shop_discount') return;
+        pendingDiscount = await fetchPendingShopDiscount();
+        renderShop();
+        startBonusTimers();
+      }
+    });
     // Verificar se há retorno de pagamento na URL
     checkPaymentReturn();
   } catch (error) {
@@ -306,6 +201,53 @@ export async function initShop(): Promise<void> {
   }
 }
 
+// ============================================================
+// CARREGAR CATÁLOGO
+// ============================================================
+
+async function loadShopCatalog(): Promise<void> {
+  try {
+    const response = await fetch('/api/_shop', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'getCatalog' })
+    });
+
+    const result = await response.json();
+    if (!response.ok || !result?.catalog) {
+      throw new Error(result?.error || 'Failed to load shop catalog');
+    }
+
+    const errors = validateShopCatalog(result.catalog);
+    if (errors.length) {
+      throw new Error(`Invalid shop catalog: ${errors[0]}`);
+    }
+
+    shopCatalog = result.catalog as ShopCatalog;
+
+    // Janelas de promoção seguem o relógio do servidor, não o do navegador
+    const serverTime = Date.parse(result.serverTime);
+    serverClockOffset = Number.isNaN(serverTime) ? 0 : serverTime - Date.now();
+  } catch (error) {
+    ErrorHandler.handleError('Failed to load shop catalog', {
+      category: ErrorCategory.NETWORK,
+      severity: ErrorSeverity.WARNING,
+      details: error,
+      showToUser: false
+    });
+  }
+}
+
+function getShopNow(): Date {
+  return new Date(Date.now() + serverClockOffset);
+}
+
+function getShopCurrency(): ShopCurrency {
+  const saved = localStorage.getItem(CURRENCY_STORAGE_KEY);
+  if (isShopCurrency(saved)) return saved;
+  return detectShopCurrency([...(navigator.languages || []), navigator.language, getLocale()]);
+}
+
 // ============================================================
 // CARREGAR DADOS DO USUÁRIO
 // ============================================================
@@ -331,13 +273,14 @@ async function loadUserData(): Promise<void> {
     if (error) throw error;
 
     userTotalPurchases = stats?.total_purchases || 0;
-    userActiveSubscription = stats?.active_subscription || null;
+    userActiveSubscription = findSubscription(stats?.active_subscription)?.id || stats?.active_subscription || null;
+    subscriptionStatus = null;
     
     // Atualizar UI de assinatura ativa se houver
     if (stats?.active_subscription && stats?.subscription_expires_at) {
       const expiresAt = new Date(stats.subscription_expires_at);
       if (expiresAt > new Date()) {
-        updateActiveSubscriptionUI(stats.active_subscription, expiresAt);
+        await updateActiveSubscriptionUI(stats.active_subscription, expiresAt);
       }
     }
 
@@ -380,18 +323,25 @@ function renderShop(): void {
   packagesGrid.innerHTML = '';
   subsGrid.innerHTML = '';
 
-  // Renderizar Pacotes
-  PACKAGES.forEach(pkg => {
-    const card = createPackageCard(pkg as any);
+  // Renderizar Pacotes (bundles só dentro da janela de venda)
+  const now = getShopNow();
+  shopCatalog.packages.filter(pkg => isShopProductAvailable(pkg, now)).forEach(pkg => {
+    const card = createPackageCard(pkg);
     packagesGrid.appendChild(card);
   });
 
-  // Renderizar Assinaturas (apenas sub_premium, não mostrar sub_premium_bp como card separado)
-  SUBSCRIPTIONS.filter(sub => sub.id === 'sub_premium').forEach(sub => {
+  // Renderizar Assinaturas (add-ons como sub_premium_bp aparecem só no modal)
+  shopCatalog.subscriptions.filter(sub => !sub.addonOf).forEach(sub => {
     const card = createSubscriptionCard(sub);
     subsGrid.appendChild(card);
   });
 
+  if (subscriptionStatus) {
+    subsGrid.appendChild(createSubscriptionStatusPanel(subscriptionStatus));
+  }
+
+  renderPendingDiscount();
+
   // Aplicar traduções se disponível
   if (window.applyTranslations) {
     window.applyTranslations();
@@ -403,18 +353,29 @@ function renderShop(): void {
   }
 }
 
+function renderPendingDiscount(): void {
+  const banner = document.getElementById('shop-promo-discount');
+  if (!banner) return;
+
+  banner.classList.toggle('hidden', !pendingDiscount);
+  banner.textContent = pendingDiscount
+    ? `🎟️ ${pendingDiscount.code}: ${pendingDiscount.percentage}% off your next order`
+    : '';
+}
+
 // ============================================================
 // CRIAR CARD DE PACOTE
 // ============================================================
 
 function createPackageCard(pkg: ShopPackage): HTMLDivElement {
-  const isFirstPurchase = userTotalPurchases === 0;
-  const bonus = calculateBonus(pkg, isFirstPurchase);
+  const offer = calculateBonus(pkg);
+  const hasBonus = offer.bonus > 0;
   
   const card = document.createElement('div');
   card.className = 'shop-package-card';
   if (pkg.popular) card.classList.add('popular');
-  if (bonus.hasBonus) card.classList.add('has-bonus');
+  if (hasBonus) card.classList.add('has-bonus');
+  if (offer.discountPercentage > 0) card.classList.add('on-sale');
 
   // Badges no topo - CENTRALIZADOS
   let topBadges = '';
@@ -424,25 +385,42 @@ function createPackageCard(pkg: ShopPackage): HTMLDivElement {
     topBadges += '<div class="top-badge popular-badge"><i data-lucide="star"></i><span>POPULAR</span></div>';
   }
   
-  // Badge de Bônus - CENTRALIZADO
-  if (bonus.hasBonus) {
-    if (bonus.type === 'first_purchase') {
-      topBadges += '<div class="top-badge first-purchase-badge"><i data-lucide="gift"></i><span>+50%</span></div>';
-    } else if (bonus.type === 'timed') {
-      topBadges += `
-        <div class="top-badge timed-badge">
-          <span>+25%</span>
-          <div class="badge-timer" id="timer-${pkg.id}">7d 4h</div>
-        </div>
-      `;
-    }
+  // Badge de Promoção - CENTRALIZADO (flash sale > bônus temporário > bundle > primeira compra)
+  const timer = offer.endsAt ? `<div class="badge-timer" id="timer-${pkg.id}">${formatTimeLeft(offer.endsAt)}</div>` : '';
+  if (offer.discountPercentage > 0) {
+    topBadges += `
+      <div class="top-badge timed-badge flash-sale-badge">
+        <span>-${offer.discountPercentage}%</span>
+        ${timer}
+      </div>
+    `;
+  } else if (offer.bonusType === 'timed') {
+    topBadges += `
+      <div class="top-badge timed-badge">
+        <span>+${offer.bonusPercentage}%</span>
+        ${timer}
+      </div>
+    `;
+  } else if (pkg.availability) {
+    topBadges += `
+      <div class="top-badge timed-badge">
+        <span>${pkg.availability.label}</span>
+        ${timer}
+      </div>
+    `;
+  } else if (offer.bonusType === 'first_purchase') {
+    topBadges += `<div class="top-badge first-purchase-badge"><i data-lucide="gift"></i><span>+${offer.bonusPercentage}%</span></div>`;
   }
 
   // Texto do bônus abaixo do valor (se houver)
-  const bonusText = bonus.hasBonus ? `
-    <div class="bonus-text">+${bonus.bonus} bonus</div>
+  const bonusText = hasBonus ? `
+    <div class="bonus-text">+${offer.bonus} bonus</div>
   ` : '';
 
+  const listPrice = offer.price < offer.listPrice
+    ? `<span class="price-original">${formatCurrency(offer.listPrice, offer.currency)}</span>`
+    : '';
+
   card.innerHTML = `
     ${topBadges}
     <div class="package-content">
@@ -453,7 +431,7 @@ function createPackageCard(pkg: ShopPackage): HTMLDivElement {
       <h4 class="package-name">${pkg.name}</h4>
       
       <div class="package-diamonds-row">
-        <span class="diamonds-amount">${pkg.diamonds.toLocaleString()}</span>
+        <span class="diamonds-amount">${formatNumber(pkg.diamonds)}</span>
         <i data-lucide="gem" class="diamonds-icon-lucide"></i>
       </div>
       
@@ -462,8 +440,8 @@ function createPackageCard(pkg: ShopPackage): HTMLDivElement {
       <div class="package-divider"></div>
       
       <div class="package-price">
-        <span class="price-currency">$</span>
-        <span class="price-amount">${pkg.price.toFixed(2)}</span>
+        ${listPrice}
+        <span class="price-amount">${formatCurrency(offer.price, offer.currency)}</span>
       </div>
       
       <button class="package-buy-btn" data-package-id="${pkg.id}">
@@ -486,6 +464,7 @@ function createSubscriptionCard(sub: ShopSubscription): HTMLDivElement {
   if (sub.popular) card.classList.add('popular');
 
   const isActive = userActiveSubscription === sub.id;
+  const offer = calculateBonus(sub);
   const popularBadge = sub.popular ? '<div class="subscription-popular-badge"><i data-lucide="crown"></i><span>MOST POPULAR</span></div>' : '';
   const activeBadge = isActive ? '<div class="subscription-active-badge">✓ Active</div>' : '';
 
@@ -495,9 +474,10 @@ function createSubscriptionCard(sub: ShopSubscription): HTMLDivElement {
     ${popularBadge}
     ${activeBadge}
     <div class="subscription-icon">${sub.icon}</div>
-    <h4 class="subscription-name">${sub.name}</h4>
+    <h4 class="subscription-name">${sub.displayName}</h4>
     <div class="subscription-price">
-      <span class="price-value">$${sub.price.toFixed(2)}</span>
+      ${offer.price < offer.listPrice ? `<span class="price-original">${formatCurrency(offer.listPrice, offer.currency)}</span>` : ''}
+      <span class="price-value">${formatCurrency(offer.price, offer.currency)}</span>
       <span class="price-period">/${sub.duration} days</span>
     </div>
     <div class="subscription-benefits">
@@ -516,39 +496,14 @@ function createSubscriptionCard(sub: ShopSubscription): HTMLDivElement {
 // CALCULAR BÔNUS
 // ============================================================
 
-function calculateBonus(pkg: ShopPackage, isFirstPurchase: boolean): BonusCalculation {
-  let bonus = 0;
-  let bonusType: 'first_purchase' | 'timed' | null = null;
-  let label = '';
-
-  // Bônus de primeira compra
-  if (isFirstPurchase && pkg.firstPurchaseBonus) {
-    if (pkg.firstPurchaseBonus.type === 'percentage') {
-      bonus = Math.floor(pkg.diamonds * (pkg.firstPurchaseBonus.value / 100));
-    } else {
-      bonus = pkg.firstPurchaseBonus.value;
-    }
-    bonusType = 'first_purchase';
-    label = pkg.firstPurchaseBonus.label;
-  }
-
-  // Bônus temporário (substitui o de primeira compra se maior)
-  if (pkg.timedBonus && new Date(pkg.timedBonus.endsAt) > new Date()) {
-    const timedBonus = Math.floor(pkg.diamonds * (pkg.timedBonus.percentage / 100));
-    if (timedBonus > bonus) {
-      bonus = timedBonus;
-      bonusType = 'timed';
-      label = pkg.timedBonus.label;
-    }
-  }
-
-  return {
-    bonus,
-    type: bonusType,
-    label,
-    total: pkg.diamonds + bonus,
-    hasBonus: bonus > 0
-  };
+// Regras em shared/shop-catalog (as mesmas que o servidor aplica na ordem)
+function calculateBonus(product: ShopPackage | ShopSubscription, currency: ShopCurrency = getShopCurrency()): ShopOffer {
+  return calculateShopOffer(shopCatalog, product, {
+    currency,
+    isFirstPurchase: userTotalPurchases === 0,
+    couponPercentage: pendingDiscount?.percentage || 0,
+    now: getShopNow()
+  });
 }
 
 // ============================================================
@@ -556,42 +511,49 @@ function calculateBonus(pkg: ShopPackage, isFirstPurchase: boolean): BonusCalcul
 // ============================================================
 
 function startBonusTimers(): void {
-  PACKAGES.forEach(pkg => {
-    if (pkg.timedBonus && new Date(pkg.timedBonus.endsAt) > new Date()) {
-      startTimerForPackage(pkg.id, pkg.timedBonus.endsAt);
+  const now = getShopNow();
+  shopCatalog.packages.filter(pkg => isShopProductAvailable(pkg, now)).forEach(pkg => {
+    const { endsAt } = calculateBonus(pkg);
+    if (endsAt) {
+      startTimerForPackage(pkg.id, endsAt);
     }
   });
 }
 
+function formatTimeLeft(endsAt: string): string {
+  const diff = Date.parse(endsAt) - getShopNow().getTime();
+  if (diff <= 0) return 'EXPIRED';
+
+  const days = Math.floor(diff / 86400000);
+  const hours = Math.floor((diff % 86400000) / 3600000);
+  const mins = Math.floor((diff % 3600000) / 60000);
+  const secs = Math.floor((diff % 60000) / 1000);
+
+  if (days > 0) {
+    return `${days}d ${hours}h`;
+  }
+  return `${String(hours).padStart(2, '0')}:${String(mins).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+}
+
 function startTimerForPackage(pkgId: string, endsAt: string): void {
   const timerEl = document.getElementById(`timer-${pkgId}`);
   if (!timerEl) return;
 
-  const intervalId = setInterval(() => {
-    const now = new Date().getTime();
-    const end = new Date(endsAt).getTime();
-    const diff = end - now;
+  const previous = bonusTimers.get(pkgId);
+  if (previous) clearInterval(previous);
 
-    if (diff <= 0) {
+  const intervalId = setInterval(() => {
+    if (Date.parse(endsAt) <= getShopNow().getTime()) {
       clearInterval(intervalId);
       bonusTimers.delete(pkgId);
       timerEl.textContent = 'EXPIRED';
-      // Recarregar shop para remover bônus
+      // Recarregar shop para remover a promoção (ou o bundle que saiu de venda)
       renderShop();
       startBonusTimers();
       return;
     }
 
-    const days = Math.floor(diff / 86400000);
-    const hours = Math.floor((diff % 86400000) / 3600000);
-    const mins = Math.floor((diff % 3600000) / 60000);
-    const secs = Math.floor((diff % 60000) / 1000);
-
-    if (days > 0) {
-      timerEl.textContent = `${days}d ${hours}h`;
-    } else {
-      timerEl.textContent = `${String(hours).padStart(2, '0')}:${String(mins).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
-    }
+    timerEl.textContent = formatTimeLeft(endsAt);
   }, 1000);
 
   bonusTimers.set(pkgId, intervalId);
@@ -616,6 +578,10 @@ function bindShopEvents(): void {
       const subId = subBtn.getAttribute('data-subscription-id');
       if (subId) openPaymentModal(subId, 'subscription');
     }
+
+    if (target?.closest('[data-claim-daily]')) {
+      claimDailyDiamonds();
+    }
   });
 }
 
@@ -626,12 +592,8 @@ function bindShopEvents(): void {
 function openPaymentModal(productId: string, type: 'package' | 'subscription'): void {
   if (isProcessing) return;
 
-  let product;
-  if (type === 'package') {
-    product = PACKAGES.find(p => p.id === productId);
-  } else {
-    product = SUBSCRIPTIONS.find(s => s.id === productId);
-    
+  const product = findShopProduct(shopCatalog, productId, type);
+  if (type === 'subscription') {
     // Aviso de upgrade/substituição de assinatura
     if (userActiveSubscription && userActiveSubscription !== productId) {
       const confirmUpgrade = confirm(
@@ -641,7 +603,7 @@ function openPaymentModal(productId: string, type: 'package' | 'subscription'):
     }
   }
 
-  if (!product) {
+  if (!product || !isShopProductAvailable(product, getShopNow())) {
     showAlert('error', 'Product Not Found', 'The selected product could not be found.');
     return;
   }
@@ -663,35 +625,39 @@ function openPaymentModal(productId: string, type: 'package' | 'subscription'):
   }
 
   // Preencher informações do produto
-  const isFirstPurchase = userTotalPurchases === 0;
-  const bonus = type === 'package' ? calculateBonus(product as any, isFirstPurchase) : null;
-
-  if (type === 'package' && bonus) {
+  if (type === 'package') {
+    const offer = calculateBonus(product);
     productContainer.innerHTML = `
       <div class="payment-product-header">
         <div class="payment-product-icon">${product.icon}</div>
         <div class="payment-product-info">
           <h3>${product.name}</h3>
           <div class="payment-diamonds-display">
-            <span class="diamonds-amount">${bonus.total.toLocaleString()}</span>
+            <span class="diamonds-amount">${formatNumber(offer.totalDiamonds)}</span>
             <span class="diamonds-icon">💎</span>
           </div>
-          ${bonus.hasBonus ? `<div class="payment-bonus-tag">🎁 +${bonus.bonus} Bonus Diamonds</div>` : ''}
+          ${offer.bonus > 0 ? `<div class="payment-bonus-tag">🎁 +${offer.bonus} Bonus Diamonds</div>` : ''}
+          ${offer.discountPercentage > 0 ? `<div class="payment-bonus-tag">🔥 -${offer.discountPercentage}% Flash Sale</div>` : ''}
+          ${renderCouponTag(offer)}
         </div>
       </div>
     `;
   } else {
-    // É uma assinatura - verificar se é sub_premium (que pode ter Battle Pass add-on)
-    const canAddBattlePass = product.id === 'sub_premium';
+    // É uma assinatura - verificar se tem add-on de Battle Pass no catálogo
+    const sub = product as ShopSubscription;
+    const addon = shopCatalog.subscriptions.find(s => s.addonOf === sub.id);
+    const canAddBattlePass = !!addon;
+    const addonPrice = addon ? getAddonPrice(sub, addon) : '';
     
     productContainer.innerHTML = `
       <div class="payment-product-header subscription-header">
         <div class="payment-product-icon">${product.icon}</div>
         <div class="payment-product-info">
-          <h3 class="subscription-product-name">${product.name}</h3>
+          <h3 class="subscription-product-name">${sub.displayName}</h3>
           <div class="subscription-features">
-            ${(product as any).benefits?.map((b: string) => `<div class="feature-item">✓ ${b}</div>`).join('') || ''}
+            ${sub.benefits.map(b => `<div class="feature-item">✓ ${b}</div>`).join('')}
           </div>
+          ${renderCouponTag(calculateBonus(sub))}
         </div>
       </div>
       ${canAddBattlePass ? `
@@ -701,7 +667,7 @@ function openPaymentModal(productId: string, type: 'package' | 'subscription'):
             <span class="checkbox-custom"></span>
             <div class="addon-info">
               <span class="addon-title">🎮 Add Battle Pass</span>
-              <span class="addon-price">+$4.00</span>
+              <span class="addon-price">+${addonPrice}</span>
             </div>
           </label>
           <div class="addon-description">Unlock exclusive Battle Pass rewards and challenges!</div>
@@ -716,7 +682,7 @@ function openPaymentModal(productId: string, type: 'package' | 'subscription'):
         if (checkbox) {
           checkbox.addEventListener('change', () => {
             battlePassAddonEnabled = checkbox.checked;
-            toggleBattlePassAddon(product, checkbox.checked);
+            toggleBattlePassAddon(sub, checkbox.checked);
           });
         }
       }, 50);
@@ -724,13 +690,11 @@ function openPaymentModal(productId: string, type: 'package' | 'subscription'):
   }
 
   // Atualizar preços nos métodos de pagamento
-  const stripePriceEl = document.getElementById('stripe-price');
-  const mercadopagoEl = document.getElementById('mercadopago-price');
-  const nowpaymentsEl = document.getElementById('nowpayments-price');
-  
-  if (stripePriceEl) stripePriceEl.textContent = `$${product.price.toFixed(2)}`;
-  if (mercadopagoEl) mercadopagoEl.textContent = `R$ ${product.priceBRL.toFixed(2)}`;
-  if (nowpaymentsEl) nowpaymentsEl.textContent = `$${product.price.toFixed(2)}`;
+  updatePaymentPrices(product);
+
+  // Gateway sandbox (checkout local com webhooks assinados) só em desenvolvimento
+  const sandboxBtn = modal.querySelector('.payment-method-btn[data-method="sandbox"]');
+  sandboxBtn?.classList.toggle('hidden', !PAYMENT_SANDBOX_ENABLED);
 
   // Resetar seleção para Stripe por padrão
   modal.querySelectorAll('.payment-method-btn').forEach(b => b.classList.remove('active'));
@@ -793,16 +757,11 @@ function openPaymentModal(productId: string, type: 'package' | 'subscription'):
 // ALTERNAR BATTLE PASS ADD-ON
 // ============================================================
 
-function toggleBattlePassAddon(baseProduct: any, enabled: boolean): void {
-  // Encontrar o produto correto
-  let newProduct;
-  if (enabled) {
-    // Mudar para sub_premium_bp
-    newProduct = SUBSCRIPTIONS.find(s => s.id === 'sub_premium_bp');
-  } else {
-    // Voltar para sub_premium
-    newProduct = SUBSCRIPTIONS.find(s => s.id === 'sub_premium');
-  }
+function toggleBattlePassAddon(baseProduct: ShopSubscription, enabled: boolean): void {
+  // Encontrar o produto correto (add-on do catálogo ou a assinatura base)
+  const newProduct = enabled
+    ? shopCatalog.subscriptions.find(s => s.addonOf === baseProduct.id)
+    : baseProduct;
   
   if (!newProduct) {
     ErrorHandler.handleError('Subscription product not found', {
@@ -821,13 +780,13 @@ function toggleBattlePassAddon(baseProduct: any, enabled: boolean): void {
   // Atualizar nome do produto no modal
   const productNameEl = document.querySelector('.subscription-product-name');
   if (productNameEl) {
-    productNameEl.textContent = newProduct.name;
+    productNameEl.textContent = newProduct.displayName;
   }
   
   // Atualizar benefícios
   const featuresEl = document.querySelector('.subscription-features');
   if (featuresEl) {
-    featuresEl.innerHTML = newProduct.benefits?.map((b: string) => `<div class="feature-item">✓ ${b}</div>`).join('') || '';
+    featuresEl.innerHTML = newProduct.benefits.map(b => `<div class="feature-item">✓ ${b}</div>`).join('');
   }
   
   // Atualizar preços nos métodos de pagamento com animação
@@ -844,9 +803,41 @@ function toggleBattlePassAddon(baseProduct: any, enabled: boolean): void {
   });
   
   // Atualizar valores
-  if (stripePriceEl) stripePriceEl.textContent = `$${newProduct.price.toFixed(2)}`;
-  if (mercadopagoEl) mercadopagoEl.textContent = `R$ ${newProduct.priceBRL.toFixed(2)}`;
-  if (nowpaymentsEl) nowpaymentsEl.textContent = `$${newProduct.price.toFixed(2)}`;
+  updatePaymentPrices(newProduct);
+}
+
+function renderCouponTag(offer: ShopOffer): string {
+  if (!pendingDiscount || offer.couponPercentage <= 0) return '';
+  return `<div class="payment-bonus-tag">🎟️ -${offer.couponPercentage}% ${pendingDiscount.code}</div>`;
+}
+
+// Preço já com desconto ativo, na moeda cobrada por cada gateway
+// (o MercadoPago só cobra em reais; os outros usam a moeda da loja)
+function updatePaymentPrices(product: ShopPackage | ShopSubscription): void {
+  const offer = calculateBonus(product);
+  const brl = calculateBonus(product, 'BRL');
+  const price = formatCurrency(offer.price, offer.currency);
+
+  const stripePriceEl = document.getElementById('stripe-price');
+  const mercadopagoEl = document.getElementById('mercadopago-price');
+  const nowpaymentsEl = document.getElementById('nowpayments-price');
+  const sandboxPriceEl = document.getElementById('sandbox-price');
+
+  if (stripePriceEl) stripePriceEl.textContent = price;
+  if (mercadopagoEl) mercadopagoEl.textContent = formatCurrency(brl.price, brl.currency);
+  if (nowpaymentsEl) nowpaymentsEl.textContent = price;
+  if (sandboxPriceEl) sandboxPriceEl.textContent = price;
+}
+
+// Diferença de preço do add-on (na moeda da loja, ou USD se um dos dois não tem preço nela)
+function getAddonPrice(base: ShopSubscription, addon: ShopSubscription): string {
+  let baseOffer = calculateBonus(base);
+  let addonOffer = calculateBonus(addon);
+  if (baseOffer.currency !== addonOffer.currency) {
+    baseOffer = calculateBonus(base, 'USD');
+    addonOffer = calculateBonus(addon, 'USD');
+  }
+  return formatCurrency(Math.max(0, addonOffer.price - baseOffer.price), addonOffer.currency);
 }
 
 // ============================================================
@@ -904,6 +895,7 @@ window.proceedToCheckout = async function() {
         productId: selectedProduct.id,
         productType: selectedProduct.type,
         paymentMethod: selectedPaymentMethod,
+        currency: getShopCurrency(),
         battlePassAddon: battlePassAddonEnabled, // 🎮 Battle Pass add-on
         idempotencyKey  // 🛡️ Enviar idempotency key
       })
@@ -963,12 +955,121 @@ window.closeShopPaymentModal = function closeShopPaymentModal() {
 // ATUALIZAR UI DE ASSINATURA ATIVA
 // ============================================================
 
-function updateActiveSubscriptionUI(subId: string, expiresAt: Date): void {
-  const sub = SUBSCRIPTIONS.find(s => s.id === subId);
-  if (!sub) return;
+function findSubscription(value: string | null | undefined): ShopSubscription | undefined {
+  return findShopSubscription(shopCatalog, value) || undefined;
+}
+
+function getUtcDay(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function getDaysRemaining(expiresAt: Date): number {
+  return Math.max(0, Math.ceil((expiresAt.getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+}
+
+async function updateActiveSubscriptionUI(subId: string, expiresAt: Date): Promise<void> {
+  const sub = findSubscription(subId);
+  if (!sub || !currentUser?.id) return;
+
+  // Diamantes diários: um resgate por dia (UTC), manual ou pelo job diário
+  const { data: claim, error } = await supabase
+    .from('subscription_daily_claims')
+    .select('claim_date')
+    .eq('user_id', currentUser.id)
+    .eq('claim_date', getUtcDay())
+    .maybeSingle();
+
+  if (error) {
+    ErrorHandler.handleDatabaseError('Failed to load subscription daily claim', error);
+  }
+
+  subscriptionStatus = { sub, expiresAt, claimedToday: !!claim };
+
+  // Renderizar novamente para atualizar badges e o painel da assinatura
+  renderShop();
+}
+
+function createSubscriptionStatusPanel(status: SubscriptionStatus): HTMLDivElement {
+  const daysRemaining = getDaysRemaining(status.expiresAt);
+  const panel = document.createElement('div');
+  panel.className = 'subscription-status-panel';
+  if (daysRemaining <= 3) panel.classList.add('expiring');
+
+  panel.innerHTML = `
+    <div class="subscription-status-info">
+      <span class="subscription-status-name">${status.sub.icon} ${status.sub.displayName}</span>
+      <span class="subscription-status-days">${t('subscription.days_remaining', { count: daysRemaining, date: formatDate(status.expiresAt) })}</span>
+    </div>
+    <button class="subscription-claim-btn" data-claim-daily ${status.claimedToday || isClaimingDaily ? 'disabled' : ''}>
+      ${status.claimedToday
+        ? '<span data-translate>Claimed today</span> ✓'
+        : `<span data-translate>Claim daily</span> +${status.sub.dailyDiamonds}💎`}
+    </button>
+  `;
+
+  return panel;
+}
+
+// ============================================================
+// RESGATAR DIAMANTES DIÁRIOS
+// ============================================================
+
+async function claimDailyDiamonds(): Promise<void> {
+  if (isClaimingDaily || !subscriptionStatus || subscriptionStatus.claimedToday) return;
 
-  // Renderizar novamente para atualizar badges
+  isClaimingDaily = true;
   renderShop();
+
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+      showAlert('error', 'Error', 'Session expired. Please log in again.');
+      return;
+    }
+
+    const response = await fetch('/api/_shop', {
+      method: 'POST',
+      headers: await addCsrfHeader({ 'Content-Type': 'application/json' }),
+      body: JSON.stringify({
+        action: 'claimDaily',
+        userId: session.user.id,
+        authToken: session.access_token
+      })
+    });
+
+    const result = await response.json();
+
+    if (!response.ok) {
+      if (result?.error === 'ALREADY_CLAIMED_TODAY') {
+        subscriptionStatus.claimedToday = true;
+        showToast('info', 'Already claimed', 'Come back tomorrow for more diamonds.');
+        return;
+      }
+      if (result?.error === 'NO_ACTIVE_SUBSCRIPTION') {
+        subscriptionStatus = null;
+        showAlert('warning', 'Subscription expired', 'Your subscription is no longer active.');
+        return;
+      }
+      throw new Error(result?.error || 'Failed to claim daily diamonds');
+    }
+
+    subscriptionStatus.claimedToday = true;
+    if (typeof result.newDiamonds === 'number') {
+      stateManager.updateDiamonds(result.newDiamonds);
+    }
+    showToast('success', 'Daily diamonds claimed! 💎', `+${result.diamonds} diamonds`);
+  } catch (error) {
+    ErrorHandler.handleError('Failed to claim daily diamonds', {
+      category: ErrorCategory.NETWORK,
+      severity: ErrorSeverity.ERROR,
+      details: error,
+      userMessage: 'Failed to claim daily diamonds. Please try again.',
+      showToUser: true
+    });
+  } finally {
+    isClaimingDaily = false;
+    renderShop();
+  }
 }
 
 // ============================================================
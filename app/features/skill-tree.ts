@@ -3,6 +3,7 @@
 // ============================================================
 
 import { supabase } from './auth';
+import { addCsrfHeader } from '../core/session';
 import { 
   SKILL_TREE_BADGES, 
   SKILL_TREE_CATEGORIES, 
@@ -13,6 +14,9 @@ import {
   showDiamondPopup, 
   showXPPopup 
 } from '../shared/effects';
+import type { AchievementProgress } from '../shared/achievements';
+import { applyXpAward, notifyAchievementUnlocks } from '../shared/level-ui';
+import { ErrorHandler, ErrorCategory, ErrorSeverity } from '../shared/error-handler';
 
 // ============================================================
 // TIPOS E INTERFACES
@@ -67,6 +71,10 @@ let skillTreePanningBound: boolean = false;
 let skillTreeKeyboardBound: boolean = false;
 let skillTreeModalCloseBound: boolean = false;
 
+// Progresso real vindo do motor de conquistas (api/_achievements.ts)
+const achievementProgress = new Map<string, AchievementProgress>();
+let isSyncingAchievements: boolean = false;
+
 // ============================================================
 // SKILL TREE INITIALIZATION
 // ============================================================
@@ -85,6 +93,51 @@ export function initSkillTree(): void {
   if (canvas) {
     canvas.style.transform = `scale(${currentSkillTreeZoom})`;
   }
+
+  syncAchievementProgress();
+}
+
+/**
+ * Avalia as conquistas no servidor (desbloqueando o que já foi atingido)
+ * e redesenha os badges com o progresso real
+ */
+async function syncAchievementProgress(): Promise<void> {
+  if (isSyncingAchievements) return;
+  isSyncingAchievements = true;
+
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) return;
+
+    const response = await fetch('/api/_achievements', {
+      method: 'POST',
+      headers: await addCsrfHeader({ 'Content-Type': 'application/json' }),
+      body: JSON.stringify({
+        action: 'syncAchievements',
+        userId: session.user.id,
+        authToken: session.access_token
+      })
+    });
+
+    const result = await response.json();
+    if (!response.ok) throw new Error(result?.error || 'Failed to load achievements');
+
+    achievementProgress.clear();
+    (result.progress as AchievementProgress[] || []).forEach(entry => achievementProgress.set(entry.id, entry));
+
+    applyXpAward(result.xp);
+    notifyAchievementUnlocks(result.unlocked, result.newDiamonds);
+    createSkillTreeBadges();
+  } catch (error) {
+    ErrorHandler.handleError('Failed to sync achievements', {
+      category: ErrorCategory.NETWORK,
+      severity: ErrorSeverity.WARNING,
+      details: error,
+      showToUser: false
+    });
+  } finally {
+    isSyncingAchievements = false;
+  }
 }
 
 /**
@@ -102,15 +155,18 @@ function createSkillTreeBadges(): void {
     const cat = getSkillTreeCategoryByBadge(id);
     if (!cat) return;
     
+    const entry = achievementProgress.get(id);
+    const current = entry?.current ?? badge.current;
+    
     const div = document.createElement('div');
     div.id = id;
-    div.className = 'st-badge locked';
+    div.className = `st-badge ${entry?.unlocked ? 'collected' : 'locked'}`;
     div.style.left = (badge.x - 80) + 'px';
     div.style.top = (badge.y - 80) + 'px';
     div.style.borderColor = cat.color;
     div.onclick = () => openSkillTreeModal(id);
     
-    const progress = Math.round((badge.current / badge.max) * 100);
+    const progress = Math.round((current / badge.max) * 100);
     
     div.innerHTML = `
       <div class="st-badge-icon">${badge.icon}</div>
@@ -119,7 +175,7 @@ function createSkillTreeBadges(): void {
         <div class="st-progress-bar">
           <div class="st-progress-fill" style="width: ${progress}%"></div>
         </div>
-        <span class="st-progress-text">${badge.current}/${badge.max}</span>
+        <span class="st-progress-text">${current}/${badge.max}</span>
       </div>
       <div class="st-badge-rewards">
         <span>💎 ${badge.diamonds}</span>
@@ -227,7 +283,11 @@ export function openSkillTreeModal(badgeId: string): void {
 
   if (iconEl) iconEl.textContent = badge.icon;
   if (titleEl) titleEl.textContent = badge.name;
-  if (descEl) descEl.textContent = badge.desc + '\n\nRequirement: ' + badge.requirement;
+  const entry = achievementProgress.get(badgeId);
+  const status = entry?.unlocked && entry.unlockedAt
+    ? `Unlocked on ${new Date(entry.unlockedAt).toLocaleDateString()}`
+    : `Progress: ${entry?.current ?? badge.current}/${badge.max}`;
+  if (descEl) descEl.textContent = badge.desc + '\n\nRequirement: ' + badge.requirement + '\n' + status;
   if (rewardsEl) rewardsEl.innerHTML = `
     <span>💎 ${badge.diamonds}</span>
     <span>⭐ ${badge.xp} XP</span>
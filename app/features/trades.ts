@@ -0,0 +1,411 @@
+// ============================================================
+// TRADES.TS - Trocas entre amigos (aba Trades do painel de amigos)
+// ============================================================
+
+import { supabase } from './auth';
+import { addCsrfHeader } from '../core/session';
+import { ERRORS } from '../shared/constants';
+import { showToast, formatCurrency, sanitizeHTML } from '../shared/effects';
+import { ErrorHandler, ErrorCategory, ErrorSeverity } from '../shared/error-handler';
+import { stateManager } from '../core/state-manager';
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+interface TradeItem {
+  id: string;
+  item_name: string;
+  rarity: string;
+  color: string;
+  value: number;
+}
+
+interface TradeParty {
+  userId: string;
+  username: string;
+}
+
+interface Trade {
+  id: string;
+  direction: 'incoming' | 'outgoing';
+  proposer: TradeParty;
+  recipient: TradeParty;
+  offerItems: TradeItem[];
+  offerMoney: number;
+  requestItems: TradeItem[];
+  requestMoney: number;
+  status: 'pending' | 'processing' | 'completed' | 'declined' | 'cancelled' | 'expired' | 'failed';
+  failureReason: string | null;
+  createdAt: string;
+  expiresAt: string;
+  resolvedAt: string | null;
+}
+
+interface TradeFriend {
+  userId: string;
+  username: string;
+}
+
+declare global {
+  interface Window {
+    openTradeComposer: typeof openTradeComposer;
+    closeTradeComposer: typeof closeTradeComposer;
+  }
+}
+
+// ============================================================
+// STATE
+// ============================================================
+
+const MAX_ITEMS_PER_SIDE = 10;
+
+let composerFriend: TradeFriend | null = null;
+let myItems: TradeItem[] = [];
+let friendItems: TradeItem[] = [];
+const selectedOffer = new Set<string>();
+const selectedRequest = new Set<string>();
+let isBusy: boolean = false;
+let uiBound: boolean = false;
+
+// ============================================================
+// API
+// ============================================================
+
+async function callTradesApi(action: string, payload: Record<string, unknown> = {}): Promise<any> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.access_token) throw new Error('Not authenticated');
+
+  const response = await fetch('/api/_trades', {
+    method: 'POST',
+    headers: await addCsrfHeader({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify({
+      action,
+      userId: session.user.id,
+      authToken: session.access_token,
+      ...payload
+    })
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(describeError(result));
+  }
+  return result;
+}
+
+function describeError(result: any): string {
+  switch (result?.error) {
+    case 'NOT_FRIENDS':
+      return 'You can only trade with friends.';
+    case 'EMPTY_TRADE':
+      return 'Add at least one item or some money to the trade.';
+    case 'TOO_MANY_PENDING_TRADES':
+      return `You already have ${result.max} pending offers. Wait for answers or cancel one.`;
+    case 'TRADE_ITEMS_UNAVAILABLE':
+      return 'Some items in this trade are no longer available.';
+    case 'INSUFFICIENT_FUNDS':
+      return 'Not enough balance for this trade.';
+    case 'INVENTORY_FULL':
+      return `Inventory full (${result.current}/${result.max}). Free up space first.`;
+    case 'PROPOSER_INVENTORY_FULL':
+      return "Your friend's inventory is full.";
+    case 'TRADE_NOT_PENDING':
+      return 'This offer is no longer pending.';
+    case 'TRADE_EXPIRED':
+      return 'This offer has expired.';
+    case 'DIAMOND_DEBT':
+      return ERRORS.DIAMOND_DEBT;
+    case 'PARTNER_DIAMOND_DEBT':
+      return "Your friend's account is locked by a diamond debt. Try again later.";
+    default:
+      return result?.error || 'Trade request failed';
+  }
+}
+
+function reportError(message: string, err: unknown): void {
+  ErrorHandler.handleError(message, {
+    category: ErrorCategory.NETWORK,
+    severity: ErrorSeverity.ERROR,
+    details: err,
+    showToUser: false
+  });
+  showToast('error', 'Trade error', (err as Error)?.message || 'Something went wrong');
+}
+
+async function runAction(action: () => Promise<void>): Promise<void> {
+  if (isBusy) return;
+  isBusy = true;
+  try {
+    await action();
+  } finally {
+    isBusy = false;
+  }
+}
+
+// ============================================================
+// RENDERING - LISTAS
+// ============================================================
+
+function renderItemChips(items: TradeItem[], money: number): string {
+  const chips = items.map(item => `
+    <span class="trade-chip" style="border-color:${sanitizeHTML(item.color || '#666')}" title="${sanitizeHTML(item.rarity)}">
+      ${sanitizeHTML(item.item_name)} · ${formatCurrency(item.value)}
+    </span>
+  `);
+  if (money > 0) chips.push(`<span class="trade-chip money">${formatCurrency(money)}</span>`);
+  return chips.length ? chips.join('') : '<span class="trade-chip empty">Nothing</span>';
+}
+
+function renderTradeCard(trade: Trade): string {
+  const incoming = trade.direction === 'incoming';
+  const other = incoming ? trade.proposer : trade.recipient;
+  const youGive = incoming ? renderItemChips(trade.requestItems, trade.requestMoney) : renderItemChips(trade.offerItems, trade.offerMoney);
+  const youGet = incoming ? renderItemChips(trade.offerItems, trade.offerMoney) : renderItemChips(trade.requestItems, trade.requestMoney);
+
+  let footer = '';
+  if (trade.status === 'pending') {
+    const expires = new Date(trade.expiresAt).toLocaleString();
+    footer = incoming
+      ? `<button class="friend-primary" data-trade-action="accept" data-trade-id="${trade.id}">Accept</button>
+         <button class="friend-secondary" data-trade-action="decline" data-trade-id="${trade.id}">Decline</button>`
+      : `<button class="friend-secondary" data-trade-action="cancel" data-trade-id="${trade.id}">Cancel</button>`;
+    footer = `<span class="friend-sub">Expires ${expires}</span><div class="friend-actions">${footer}</div>`;
+  } else {
+    const when = trade.resolvedAt ? new Date(trade.resolvedAt).toLocaleString() : '';
+    const reason = trade.status === 'failed' && trade.failureReason ? ` · ${sanitizeHTML(describeError({ error: trade.failureReason }))}` : '';
+    footer = `<span class="trade-status ${trade.status}">${trade.status}</span><span class="friend-sub">${when}${reason}</span>`;
+  }
+
+  return `
+    <div class="trade-card">
+      <div class="trade-card-head">
+        <span class="friend-name">${incoming ? 'From' : 'To'} ${sanitizeHTML(other.username)}</span>
+      </div>
+      <div class="trade-side"><span class="trade-side-label">You give</span><div class="trade-chips">${youGive}</div></div>
+      <div class="trade-side"><span class="trade-side-label">You get</span><div class="trade-chips">${youGet}</div></div>
+      <div class="trade-card-foot">${footer}</div>
+    </div>
+  `;
+}
+
+function renderTradeList(containerId: string, trades: Trade[], emptyText: string): void {
+  const container = document.getElementById(containerId);
+  if (!container) return;
+  container.innerHTML = trades.length
+    ? trades.map(renderTradeCard).join('')
+    : `<div class="friends-empty">${emptyText}</div>`;
+}
+
+function renderTradesBadge(count: number): void {
+  const badge = document.getElementById('trades-incoming-count');
+  if (!badge) return;
+  badge.textContent = String(Math.min(count, 99));
+  badge.style.display = count > 0 ? 'inline-flex' : 'none';
+}
+
+// ============================================================
+// RENDERING - COMPOSER
+// ============================================================
+
+function renderPicker(containerId: string, items: TradeItem[], selected: Set<string>, emptyText: string): void {
+  const container = document.getElementById(containerId);
+  if (!container) return;
+
+  if (!items.length) {
+    container.innerHTML = `<div class="friends-empty">${emptyText}</div>`;
+    return;
+  }
+
+  container.innerHTML = items.map(item => `
+    <button class="trade-pick ${selected.has(item.id) ? 'selected' : ''}" data-item-id="${item.id}" style="border-color:${sanitizeHTML(item.color || '#666')}">
+      <span class="trade-pick-name">${sanitizeHTML(item.item_name)}</span>
+      <span class="trade-pick-meta">${sanitizeHTML(item.rarity)} · ${formatCurrency(item.value)}</span>
+    </button>
+  `).join('');
+}
+
+function sumSelected(items: TradeItem[], selected: Set<string>): number {
+  return items.filter(item => selected.has(item.id)).reduce((sum, item) => sum + item.value, 0);
+}
+
+function readMoneyInput(id: string): number {
+  const value = parseFloat((document.getElementById(id) as HTMLInputElement | null)?.value || '0');
+  return Number.isFinite(value) && value > 0 ? parseFloat(value.toFixed(2)) : 0;
+}
+
+function renderComposerSummary(): void {
+  const summary = document.getElementById('trade-composer-summary');
+  if (!summary) return;
+
+  const give = sumSelected(myItems, selectedOffer) + readMoneyInput('trade-offer-money');
+  const get = sumSelected(friendItems, selectedRequest) + readMoneyInput('trade-request-money');
+  summary.textContent = `You give ${formatCurrency(give)} · You get ${formatCurrency(get)}`;
+}
+
+function renderComposer(): void {
+  const title = document.getElementById('trade-composer-title');
+  if (title) title.textContent = `🤝 Trade with ${composerFriend?.username || ''}`;
+
+  renderPicker('trade-my-items', myItems, selectedOffer, 'Your inventory is empty');
+  renderPicker('trade-friend-items', friendItems, selectedRequest, 'Their inventory is empty');
+  renderComposerSummary();
+}
+
+function togglePick(selected: Set<string>, itemId: string): void {
+  if (selected.has(itemId)) {
+    selected.delete(itemId);
+  } else if (selected.size >= MAX_ITEMS_PER_SIDE) {
+    showToast('info', `Up to ${MAX_ITEMS_PER_SIDE} items per side`);
+    return;
+  } else {
+    selected.add(itemId);
+  }
+  renderComposer();
+}
+
+// ============================================================
+// ACTIONS
+// ============================================================
+
+export async function loadTrades(): Promise<void> {
+  try {
+    const { incoming, outgoing, history } = await callTradesApi('listTrades');
+    renderTradeList('trades-incoming', incoming || [], 'No incoming offers');
+    renderTradeList('trades-outgoing', outgoing || [], 'No sent offers');
+    renderTradeList('trades-history', history || [], 'No trades yet');
+    renderTradesBadge((incoming || []).length);
+  } catch (err) {
+    reportError('load trades error', err);
+  }
+}
+
+export async function openTradeComposer(friend: TradeFriend): Promise<void> {
+  bindTradesUIOnce();
+  composerFriend = friend;
+  selectedOffer.clear();
+  selectedRequest.clear();
+  myItems = [];
+  friendItems = [];
+
+  ['trade-offer-money', 'trade-request-money'].forEach(id => {
+    const input = document.getElementById(id) as HTMLInputElement | null;
+    if (input) input.value = '';
+  });
+
+  document.getElementById('trade-composer-modal')?.classList.remove('hidden');
+  renderComposer();
+
+  try {
+    const result = await callTradesApi('getTradeInventories', { friendId: friend.userId });
+    myItems = result.myItems || [];
+    friendItems = result.friendItems || [];
+    renderComposer();
+  } catch (err) {
+    closeTradeComposer();
+    reportError('load trade inventories error', err);
+  }
+}
+
+export function closeTradeComposer(): void {
+  document.getElementById('trade-composer-modal')?.classList.add('hidden');
+  composerFriend = null;
+}
+
+async function sendTradeOffer(): Promise<void> {
+  if (!composerFriend) return;
+  const friend = composerFriend;
+
+  await runAction(async () => {
+    try {
+      await callTradesApi('createTrade', {
+        friendId: friend.userId,
+        offerItemIds: Array.from(selectedOffer),
+        requestItemIds: Array.from(selectedRequest),
+        offerMoney: readMoneyInput('trade-offer-money'),
+        requestMoney: readMoneyInput('trade-request-money')
+      });
+      closeTradeComposer();
+      showToast('success', 'Offer sent', `Waiting for ${friend.username} to confirm.`);
+      await loadTrades();
+    } catch (err) {
+      reportError('create trade error', err);
+    }
+  });
+}
+
+async function acceptTrade(tradeId: string): Promise<void> {
+  if (!confirm('Accept this trade? Items and money will be swapped immediately.')) return;
+
+  await runAction(async () => {
+    try {
+      const result = await callTradesApi('acceptTrade', { tradeId });
+      if (typeof result.newBalance === 'number') stateManager.updateMoney(result.newBalance);
+      if (typeof window.invalidateInventoryCaches === 'function') {
+        window.invalidateInventoryCaches();
+      }
+      showToast('success', 'Trade completed', 'Check your inventory.');
+    } catch (err) {
+      reportError('accept trade error', err);
+    }
+    await loadTrades();
+  });
+}
+
+async function closeTrade(tradeId: string, action: 'declineTrade' | 'cancelTrade'): Promise<void> {
+  await runAction(async () => {
+    try {
+      await callTradesApi(action, { tradeId });
+      showToast('info', action === 'declineTrade' ? 'Offer declined' : 'Offer cancelled');
+    } catch (err) {
+      reportError('close trade error', err);
+    }
+    await loadTrades();
+  });
+}
+
+// ============================================================
+// BINDINGS
+// ============================================================
+
+function bindTradesUIOnce(): void {
+  if (uiBound) return;
+  uiBound = true;
+
+  document.getElementById('trades-section')?.addEventListener('click', (e) => {
+    const btn = (e.target as HTMLElement).closest<HTMLElement>('[data-trade-action]');
+    const tradeId = btn?.dataset.tradeId;
+    if (!btn || !tradeId) return;
+
+    if (btn.dataset.tradeAction === 'accept') void acceptTrade(tradeId);
+    if (btn.dataset.tradeAction === 'decline') void closeTrade(tradeId, 'declineTrade');
+    if (btn.dataset.tradeAction === 'cancel') void closeTrade(tradeId, 'cancelTrade');
+  });
+
+  document.getElementById('trade-my-items')?.addEventListener('click', (e) => {
+    const pick = (e.target as HTMLElement).closest<HTMLElement>('[data-item-id]');
+    if (pick?.dataset.itemId) togglePick(selectedOffer, pick.dataset.itemId);
+  });
+
+  document.getElementById('trade-friend-items')?.addEventListener('click', (e) => {
+    const pick = (e.target as HTMLElement).closest<HTMLElement>('[data-item-id]');
+    if (pick?.dataset.itemId) togglePick(selectedRequest, pick.dataset.itemId);
+  });
+
+  ['trade-offer-money', 'trade-request-money'].forEach(id => {
+    document.getElementById(id)?.addEventListener('input', renderComposerSummary);
+  });
+
+  document.getElementById('trade-composer-send')?.addEventListener('click', () => {
+    void sendTradeOffer();
+  });
+}
+
+export function initTrades(): void {
+  bindTradesUIOnce();
+}
+
+if (typeof window !== 'undefined') {
+  window.openTradeComposer = openTradeComposer;
+  window.closeTradeComposer = closeTradeComposer;
+}
@@ -0,0 +1,354 @@
+// ============================================================
+// UPGRADER.TS - Aposta itens do inventário por um item mais valioso
+// ============================================================
+
+import { supabase } from './auth';
+import { addCsrfHeader } from '../core/session';
+import { getActiveCatalog, loadCatalog } from '../shared/catalog-store';
+import { getCatalogRarity } from '../shared/case-catalog';
+import {
+  UPGRADE_HOUSE_EDGE,
+  UPGRADE_MAX_STAKE_ITEMS,
+  computeUpgradeChance,
+  getUpgradeTargetValue
+} from '../shared/upgrade-odds';
+import { showAlert, showToast, formatCurrency, sanitizeHTML } from '../shared/effects';
+import { playSound } from '../shared/sfx';
+import { ErrorHandler, ErrorCategory, ErrorSeverity } from '../shared/error-handler';
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+interface StakeItem {
+  id: string;
+  item_name: string;
+  rarity: string;
+  color: string;
+  value: number;
+}
+
+interface UpgradeTarget {
+  key: string;
+  caseId: string;
+  caseName: string;
+  name: string;
+  icon: string;
+  rarity: string;
+  color: string;
+  value: number;
+}
+
+declare global {
+  interface Window {
+    initUpgrader: typeof initUpgrader;
+  }
+}
+
+// ============================================================
+// STATE
+// ============================================================
+
+const ROLL_ANIMATION_MS = 2200;
+const TARGET_LIST_LIMIT = 60;
+
+let inventoryItems: StakeItem[] = [];
+const selectedStake = new Set<string>();
+let selectedTargetKey: string | null = null;
+let isRolling: boolean = false;
+
+// ============================================================
+// DATA
+// ============================================================
+
+function getTargets(): UpgradeTarget[] {
+  const catalog = getActiveCatalog();
+  return catalog.cases.flatMap(caseData => caseData.items.map(item => {
+    const rarity = getCatalogRarity(catalog, item.rarityIndex);
+    return {
+      key: `${caseData.id}::${item.name}`,
+      caseId: caseData.id,
+      caseName: caseData.name,
+      name: item.name,
+      icon: item.icon,
+      rarity: rarity.name,
+      color: rarity.color,
+      value: getUpgradeTargetValue(item)
+    };
+  }));
+}
+
+function getStakeValue(): number {
+  return parseFloat(inventoryItems
+    .filter(item => selectedStake.has(item.id))
+    .reduce((sum, item) => sum + item.value, 0)
+    .toFixed(2));
+}
+
+function getSelectedTarget(): UpgradeTarget | undefined {
+  return getTargets().find(target => target.key === selectedTargetKey);
+}
+
+async function loadInventoryItems(): Promise<void> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user?.id) return;
+
+  const { data, error } = await supabase
+    .from('inventory')
+    .select('id, item_name, rarity, color, value')
+    .eq('user_id', session.user.id)
+    .order('value', { ascending: false });
+
+  if (error) {
+    ErrorHandler.handleDatabaseError('Failed to load inventory for upgrader', error);
+    return;
+  }
+
+  inventoryItems = (data || []).map(item => ({ ...item, value: Number(item.value) || 0 })) as StakeItem[];
+  const ownedIds = new Set(inventoryItems.map(item => item.id));
+  Array.from(selectedStake).forEach(id => {
+    if (!ownedIds.has(id)) selectedStake.delete(id);
+  });
+}
+
+// ============================================================
+// RENDERING
+// ============================================================
+
+function renderStakeList(): void {
+  const container = document.getElementById('upgrader-stake-list');
+  if (!container) return;
+
+  if (!inventoryItems.length) {
+    container.innerHTML = '<div class="battles-empty">Your inventory is empty. Open some cases first!</div>';
+    return;
+  }
+
+  container.innerHTML = inventoryItems.map(item => `
+    <button class="upgrader-item ${selectedStake.has(item.id) ? 'selected' : ''}" data-stake-id="${item.id}" style="border-color:${sanitizeHTML(item.color || '#666')}">
+      <span class="upgrader-item-name">${sanitizeHTML(item.item_name)}</span>
+      <span class="upgrader-item-meta">${sanitizeHTML(item.rarity)} · ${formatCurrency(item.value)}</span>
+    </button>
+  `).join('');
+}
+
+function renderTargetList(): void {
+  const container = document.getElementById('upgrader-target-list');
+  if (!container) return;
+
+  const stakeValue = getStakeValue();
+  const search = ((document.getElementById('upgrader-target-search') as HTMLInputElement | null)?.value || '').trim().toLowerCase();
+  const targets = getTargets()
+    .filter(target => !search || target.name.toLowerCase().includes(search))
+    .filter(target => stakeValue <= 0 || computeUpgradeChance(stakeValue, target.value) !== null)
+    .sort((a, b) => a.value - b.value)
+    .slice(0, TARGET_LIST_LIMIT);
+
+  if (!targets.length) {
+    container.innerHTML = '<div class="battles-empty">No targets available for this stake</div>';
+    return;
+  }
+
+  container.innerHTML = targets.map(target => {
+    const chance = stakeValue > 0 ? computeUpgradeChance(stakeValue, target.value) : null;
+    return `
+      <button class="upgrader-item ${target.key === selectedTargetKey ? 'selected' : ''}" data-target-key="${sanitizeHTML(target.key)}" style="border-color:${sanitizeHTML(target.color)}">
+        <span class="upgrader-item-name">${sanitizeHTML(target.icon)} ${sanitizeHTML(target.name)}</span>
+        <span class="upgrader-item-meta">${sanitizeHTML(target.rarity)} · ${sanitizeHTML(target.caseName)} · ${formatCurrency(target.value)}</span>
+        ${chance !== null ? `<span class="upgrader-item-chance">${(chance * 100).toFixed(2)}%</span>` : ''}
+      </button>
+    `;
+  }).join('');
+}
+
+function renderSummary(): void {
+  const stakeValue = getStakeValue();
+  const target = getSelectedTarget();
+  const chance = target ? computeUpgradeChance(stakeValue, target.value) : null;
+
+  const stakeEl = document.getElementById('upgrader-stake-value');
+  if (stakeEl) stakeEl.textContent = formatCurrency(stakeValue);
+
+  const targetEl = document.getElementById('upgrader-target-value');
+  if (targetEl) targetEl.textContent = target ? `${target.name} · ${formatCurrency(target.value)}` : '—';
+
+  const chanceEl = document.getElementById('upgrader-chance');
+  if (chanceEl) chanceEl.textContent = chance !== null ? `${(chance * 100).toFixed(2)}%` : '—';
+
+  const zone = document.getElementById('upgrader-win-zone');
+  if (zone && !isRolling) zone.style.width = `${(chance || 0) * 100}%`;
+
+  const button = document.getElementById('upgrader-roll-btn') as HTMLButtonElement | null;
+  if (button) button.disabled = isRolling || chance === null || selectedStake.size === 0;
+
+  const edgeEl = document.getElementById('upgrader-house-edge');
+  if (edgeEl) edgeEl.textContent = `${UPGRADE_HOUSE_EDGE * 100}%`;
+}
+
+function renderAll(): void {
+  renderStakeList();
+  renderTargetList();
+  renderSummary();
+}
+
+function renderResult(result: any): void {
+  const resultEl = document.getElementById('upgrader-result');
+  if (!resultEl) return;
+
+  const rollPercent = (result.roll / result.rollScale * 100).toFixed(4);
+  resultEl.className = `upgrader-result ${result.won ? 'won' : 'lost'}`;
+  resultEl.innerHTML = `
+    <strong>${result.won ? `🎉 Upgraded to ${sanitizeHTML(result.item?.item_name || '')}!` : '💥 Upgrade failed'}</strong>
+    <span>Roll ${rollPercent} · needed below ${(result.chance * 100).toFixed(4)}</span>
+    <span class="upgrader-fairness">Server seed hash ${sanitizeHTML(result.fairness.serverSeedHash)} · client seed ${sanitizeHTML(result.fairness.clientSeed)} · nonce ${result.fairness.nonce}</span>
+  `;
+}
+
+// ============================================================
+// ACTIONS
+// ============================================================
+
+function toggleStake(itemId: string): void {
+  if (isRolling) return;
+  if (selectedStake.has(itemId)) {
+    selectedStake.delete(itemId);
+  } else if (selectedStake.size >= UPGRADE_MAX_STAKE_ITEMS) {
+    showToast('info', `Stake up to ${UPGRADE_MAX_STAKE_ITEMS} items`);
+    return;
+  } else {
+    selectedStake.add(itemId);
+  }
+
+  const target = getSelectedTarget();
+  if (target && computeUpgradeChance(getStakeValue(), target.value) === null) {
+    selectedTargetKey = null;
+  }
+  renderAll();
+}
+
+function selectTarget(key: string): void {
+  if (isRolling) return;
+  selectedTargetKey = selectedTargetKey === key ? null : key;
+  renderTargetList();
+  renderSummary();
+}
+
+function describeError(result: any): string {
+  switch (result?.error) {
+    case 'TARGET_TOO_CHEAP':
+      return 'The target must be worth more than your stake.';
+    case 'CHANCE_TOO_LOW':
+      return 'The win chance for this target is too low. Stake more items or pick a cheaper target.';
+    case 'UPGRADE_ITEMS_CHANGED':
+      return 'Your staked items changed. Please reselect them.';
+    default:
+      return result?.error || 'Upgrade failed';
+  }
+}
+
+async function animateRoll(roll: number, rollScale: number): Promise<void> {
+  const marker = document.getElementById('upgrader-marker');
+  if (!marker) return;
+
+  marker.style.transition = 'none';
+  marker.style.left = '0%';
+  void marker.offsetWidth;
+  marker.style.transition = `left ${ROLL_ANIMATION_MS}ms cubic-bezier(0.15, 0.85, 0.35, 1)`;
+  marker.style.left = `${(roll / rollScale) * 100}%`;
+
+  await new Promise(resolve => setTimeout(resolve, ROLL_ANIMATION_MS));
+}
+
+async function rollUpgrade(): Promise<void> {
+  const target = getSelectedTarget();
+  if (isRolling || !target || selectedStake.size === 0) return;
+
+  isRolling = true;
+  renderSummary();
+
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) throw new Error('Not authenticated');
+
+    const response = await fetch('/api/_caseopening', {
+      method: 'POST',
+      headers: await addCsrfHeader({ 'Content-Type': 'application/json' }),
+      body: JSON.stringify({
+        action: 'upgradeItems',
+        userId: session.user.id,
+        authToken: session.access_token,
+        itemIds: Array.from(selectedStake),
+        targetCaseId: target.caseId,
+        targetItemName: target.name
+      })
+    });
+
+    const result = await response.json();
+    if (!response.ok) throw new Error(describeError(result));
+
+    playSound('reel_spin', { volume: 0.25 });
+    await animateRoll(result.roll, result.rollScale);
+    renderResult(result);
+    playSound(result.won ? 'win' : 'error', { volume: 0.6 });
+
+    if (typeof window.invalidateInventoryCaches === 'function') {
+      window.invalidateInventoryCaches();
+    }
+    selectedStake.clear();
+    selectedTargetKey = null;
+    await loadInventoryItems();
+  } catch (err) {
+    ErrorHandler.handleError('upgrade error', {
+      category: ErrorCategory.NETWORK,
+      severity: ErrorSeverity.ERROR,
+      details: err,
+      showToUser: false
+    });
+    showAlert('error', 'Upgrader error', (err as Error)?.message || 'Something went wrong');
+  } finally {
+    isRolling = false;
+    renderAll();
+  }
+}
+
+// ============================================================
+// BINDINGS
+// ============================================================
+
+function bindUpgraderUIOnce(): void {
+  const screen = document.getElementById('upgrader');
+  if (!screen || screen.dataset.bound) return;
+
+  screen.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement;
+    const stakeBtn = target.closest<HTMLElement>('[data-stake-id]');
+    if (stakeBtn?.dataset.stakeId) {
+      toggleStake(stakeBtn.dataset.stakeId);
+      return;
+    }
+    const targetBtn = target.closest<HTMLElement>('[data-target-key]');
+    if (targetBtn?.dataset.targetKey) selectTarget(targetBtn.dataset.targetKey);
+  });
+
+  document.getElementById('upgrader-target-search')?.addEventListener('input', renderTargetList);
+  document.getElementById('upgrader-roll-btn')?.addEventListener('click', () => {
+    void rollUpgrade();
+  });
+
+  screen.dataset.bound = '1';
+}
+
+// ============================================================
+// INITIALIZATION
+// ============================================================
+
+export async function initUpgrader(): Promise<void> {
+  bindUpgraderUIOnce();
+  await loadCatalog();
+  await loadInventoryItems();
+  renderAll();
+}
+
+if (typeof window !== 'undefined') {
+  window.initUpgrader = initUpgrader;
+}
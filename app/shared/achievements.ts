@@ -0,0 +1,177 @@
+// ============================================================
+// ACHIEVEMENTS.TS - Regras e recompensas dos badges
+// ============================================================
+// Compartilhado entre o backend (api/_achievements.ts, que avalia as regras
+// contra player_stats e entrega as recompensas) e o frontend, que só exibe
+// o progresso. Cada badge (BADGE_DEFINITIONS e skill tree, em constants.ts)
+// é uma regra declarativa: métrica de player_stats + alvo.
+
+import { getLevelInfo } from './levels.js';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type AchievementMetric =
+  | 'total_battles'
+  | 'total_wins'
+  | 'money'
+  | 'total_gains'
+  | 'total_spent'
+  | 'best_drop'
+  | 'total_cases_opened'
+  | 'level'
+  | 'badges'
+  | 'main_badges';
+
+export interface AchievementRule {
+  metric: AchievementMetric;
+  target: number;
+  diamonds: number;
+  xp: number;
+}
+
+export interface AchievementStats {
+  xp?: number | null;
+  money?: number | null;
+  total_battles?: number | null;
+  total_wins?: number | null;
+  total_gains?: number | null;
+  total_spent?: number | null;
+  best_drop?: number | null;
+  total_cases_opened?: number | null;
+}
+
+export interface AchievementUnlock {
+  id: string;
+  diamonds: number;
+  xp: number;
+  unlockedAt: string;
+}
+
+export interface AchievementProgress {
+  id: string;
+  current: number;
+  target: number;
+  unlocked: boolean;
+  unlockedAt: string | null;
+}
+
+// ============================================================
+// RULES
+// ============================================================
+
+// Badges principais (perfil); 'ultimate' exige todos os anteriores
+export const MAIN_BADGE_IDS = ['starter', 'lucky', 'veteran', 'rich', 'champion', 'legendary', 'highroller', 'jackpot'];
+
+export const ACHIEVEMENT_RULES: Record<string, AchievementRule> = {
+  // Principais
+  'starter': { metric: 'total_battles', target: 1, diamonds: 10, xp: 50 },
+  'lucky': { metric: 'total_wins', target: 5, diamonds: 10, xp: 100 },
+  'veteran': { metric: 'total_battles', target: 50, diamonds: 10, xp: 200 },
+  'rich': { metric: 'money', target: 1000, diamonds: 25, xp: 300 },
+  'champion': { metric: 'total_wins', target: 20, diamonds: 25, xp: 400 },
+  'legendary': { metric: 'level', target: 10, diamonds: 50, xp: 500 },
+  'highroller': { metric: 'total_spent', target: 10000, diamonds: 50, xp: 750 },
+  'jackpot': { metric: 'best_drop', target: 5000, diamonds: 75, xp: 1000 },
+  'ultimate': { metric: 'main_badges', target: MAIN_BADGE_IDS.length, diamonds: 100, xp: 2000 },
+
+  // Skill tree - batalhas
+  'first-blood': { metric: 'total_wins', target: 1, diamonds: 10, xp: 50 },
+  'warrior': { metric: 'total_wins', target: 50, diamonds: 25, xp: 100 },
+  'slayer': { metric: 'total_wins', target: 250, diamonds: 50, xp: 200 },
+  'berserker': { metric: 'total_wins', target: 1000, diamonds: 100, xp: 500 },
+  'titan': { metric: 'total_wins', target: 5000, diamonds: 250, xp: 1000 },
+
+  // Skill tree - dinheiro (ganhos acumulados)
+  'beggar': { metric: 'total_gains', target: 100, diamonds: 10, xp: 50 },
+  'gold-digger': { metric: 'total_gains', target: 1000, diamonds: 25, xp: 100 },
+  'treasure-hunter': { metric: 'total_gains', target: 10000, diamonds: 50, xp: 200 },
+  'fortune-seeker': { metric: 'total_gains', target: 50000, diamonds: 100, xp: 500 },
+  'midas': { metric: 'total_gains', target: 1000000, diamonds: 500, xp: 2000 },
+
+  // Skill tree - cases
+  'curious': { metric: 'total_cases_opened', target: 10, diamonds: 10, xp: 50 },
+  'unlocksmith': { metric: 'total_cases_opened', target: 100, diamonds: 25, xp: 100 },
+  'loot-master': { metric: 'total_cases_opened', target: 1000, diamonds: 50, xp: 200 },
+  'key-collector': { metric: 'total_cases_opened', target: 15000, diamonds: 100, xp: 500 },
+  'pandora': { metric: 'total_cases_opened', target: 100000, diamonds: 500, xp: 2000 },
+
+  // Skill tree - nível
+  'novice': { metric: 'level', target: 5, diamonds: 10, xp: 50 },
+  'mage': { metric: 'level', target: 25, diamonds: 25, xp: 100 },
+  'warlock': { metric: 'level', target: 50, diamonds: 50, xp: 200 },
+  'ascendant': { metric: 'level', target: 75, diamonds: 100, xp: 500 },
+  'enlightened': { metric: 'level', target: 100, diamonds: 500, xp: 2000 },
+
+  // Skill tree - coletor (badges desbloqueados)
+  'collector': { metric: 'badges', target: 5, diamonds: 10, xp: 50 },
+  'gatherer': { metric: 'badges', target: 15, diamonds: 25, xp: 100 },
+  'achievement-hunter': { metric: 'badges', target: 25, diamonds: 50, xp: 200 },
+  'trophy-master': { metric: 'badges', target: 35, diamonds: 100, xp: 500 },
+  'chosen-one': { metric: 'badges', target: 50, diamonds: 1000, xp: 5000 }
+};
+
+export const ACHIEVEMENT_IDS = Object.keys(ACHIEVEMENT_RULES);
+
+// ============================================================
+// EVALUATION
+// ============================================================
+
+export function getAchievementMetricValue(metric: AchievementMetric, stats: AchievementStats, unlockedIds: string[]): number {
+  switch (metric) {
+    case 'level':
+      return getLevelInfo(Number(stats.xp) || 0).level;
+    case 'badges':
+      return unlockedIds.filter(id => ACHIEVEMENT_RULES[id]).length;
+    case 'main_badges':
+      return MAIN_BADGE_IDS.filter(id => unlockedIds.includes(id)).length;
+    default:
+      return Number(stats[metric]) || 0;
+  }
+}
+
+/**
+ * Badges cujas regras passam com as stats informadas e que ainda não estão
+ * em unlockedIds. Repete a avaliação até estabilizar, já que os badges de
+ * coletor dependem de quantos outros foram desbloqueados.
+ */
+export function findNewAchievements(stats: AchievementStats, unlockedIds: string[]): string[] {
+  const unlocked = new Set(unlockedIds);
+  const found: string[] = [];
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const id of ACHIEVEMENT_IDS) {
+      if (unlocked.has(id)) continue;
+      const rule = ACHIEVEMENT_RULES[id];
+      if (getAchievementMetricValue(rule.metric, stats, Array.from(unlocked)) >= rule.target) {
+        unlocked.add(id);
+        found.push(id);
+        changed = true;
+      }
+    }
+  }
+
+  return found;
+}
+
+export function getAchievementProgress(
+  stats: AchievementStats,
+  unlocked: Record<string, string>
+): AchievementProgress[] {
+  const unlockedIds = Object.keys(unlocked);
+  return ACHIEVEMENT_IDS.map(id => {
+    const rule = ACHIEVEMENT_RULES[id];
+    const isUnlocked = Boolean(unlocked[id]);
+    const current = getAchievementMetricValue(rule.metric, stats, unlockedIds);
+    return {
+      id,
+      current: isUnlocked ? rule.target : Math.min(current, rule.target),
+      target: rule.target,
+      unlocked: isUnlocked,
+      unlockedAt: unlocked[id] || null
+    };
+  });
+}
@@ -0,0 +1,125 @@
+// ============================================================
+// BATTLE-PASS.TS - Temporadas, tiers e recompensas do Battle Pass
+// ============================================================
+// Compartilhado entre o backend (api/_battlepass.ts) e a tela /battle-pass.
+// A temporada é derivada da data (sem cron): cada uma dura
+// BATTLE_PASS_SEASON_DAYS a partir de BATTLE_PASS_EPOCH e o progresso é
+// guardado por (user_id, season), então a virada zera XP e resgates.
+//
+// Trilha free: todos os jogadores. Trilha premium: player_stats.battlepass
+// (assinatura `sub_premium_bp`, ativada em processSuccessfulPayment).
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type BattlePassTrack = 'free' | 'premium';
+
+export type BattlePassReward =
+  | { type: 'money'; amount: number }
+  | { type: 'diamonds'; amount: number }
+  | { type: 'theme'; themeId: string }
+  | { type: 'pass'; passId: string };
+
+export interface BattlePassTier {
+  tier: number;
+  xpRequired: number;
+  free: BattlePassReward | null;
+  premium: BattlePassReward | null;
+}
+
+export interface BattlePassSeason {
+  season: number;
+  startsAt: string;
+  endsAt: string;
+}
+
+export type BattlePassXpSource = 'case_opened' | 'item_sold' | 'badge';
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+export const BATTLE_PASS_EPOCH = '2025-01-01T00:00:00.000Z';
+export const BATTLE_PASS_SEASON_DAYS = 30;
+export const BATTLE_PASS_TIER_COUNT = 30;
+export const BATTLE_PASS_XP_PER_TIER = 500;
+
+// Tema ou pass que o jogador já tem é convertido em diamantes
+export const BATTLE_PASS_DUPLICATE_DIAMONDS = 25;
+
+// XP por evento (case aberta, item vendido, badge conquistado)
+export const BATTLE_PASS_XP: Record<BattlePassXpSource, number> = {
+  case_opened: 10,
+  item_sold: 2,
+  badge: 250
+};
+
+// Recompensas especiais; os demais tiers usam as recompensas padrão abaixo
+const FREE_SPECIAL: Record<number, BattlePassReward> = {
+  5: { type: 'diamonds', amount: 10 },
+  15: { type: 'diamonds', amount: 20 },
+  20: { type: 'pass', passId: 'multi_2x' },
+  25: { type: 'diamonds', amount: 30 },
+  30: { type: 'money', amount: 100 }
+};
+
+const PREMIUM_SPECIAL: Record<number, BattlePassReward> = {
+  5: { type: 'pass', passId: 'quick_roll' },
+  10: { type: 'theme', themeId: 'sunset' },
+  15: { type: 'pass', passId: 'multi_3x' },
+  20: { type: 'theme', themeId: 'aurora' },
+  25: { type: 'pass', passId: 'multi_4x' },
+  30: { type: 'theme', themeId: 'galaxy' }
+};
+
+export const BATTLE_PASS_TIERS: BattlePassTier[] = Array.from({ length: BATTLE_PASS_TIER_COUNT }, (_, i) => {
+  const tier = i + 1;
+  return {
+    tier,
+    xpRequired: tier * BATTLE_PASS_XP_PER_TIER,
+    free: FREE_SPECIAL[tier] ?? (tier % 2 === 0 ? { type: 'money', amount: 5 + tier } : null),
+    premium: PREMIUM_SPECIAL[tier] ?? { type: 'diamonds', amount: 5 + Math.floor(tier / 5) * 5 }
+  };
+});
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getBattlePassSeason(now: Date = new Date()): BattlePassSeason {
+  const epoch = Date.parse(BATTLE_PASS_EPOCH);
+  const seasonMs = BATTLE_PASS_SEASON_DAYS * DAY_MS;
+  const index = Math.max(0, Math.floor((now.getTime() - epoch) / seasonMs));
+  return {
+    season: index + 1,
+    startsAt: new Date(epoch + index * seasonMs).toISOString(),
+    endsAt: new Date(epoch + (index + 1) * seasonMs).toISOString()
+  };
+}
+
+export function getBattlePassTier(tier: number): BattlePassTier | undefined {
+  return BATTLE_PASS_TIERS[tier - 1];
+}
+
+/**
+ * Maior tier alcançado com o XP informado (0 = nenhum).
+ */
+export function getBattlePassLevel(xp: number): number {
+  return Math.min(BATTLE_PASS_TIER_COUNT, Math.floor(Math.max(0, xp) / BATTLE_PASS_XP_PER_TIER));
+}
+
+export function describeBattlePassReward(reward: BattlePassReward): string {
+  switch (reward.type) {
+    case 'money':
+      return `$${reward.amount.toFixed(2)}`;
+    case 'diamonds':
+      return `${reward.amount} 💎`;
+    case 'theme':
+      return `Theme: ${reward.themeId}`;
+    case 'pass':
+      return `Pass: ${reward.passId}`;
+  }
+}
@@ -0,0 +1,372 @@
+// ============================================================
+// CASE-CATALOG.TS - Catálogo versionado de cases e raridades
+// ============================================================
+// Fonte única usada pelo backend (api/_caseopening.ts) e pelo frontend.
+// O catálogo ativo é servido pela action `getCatalog`; este arquivo define
+// os tipos, a validação e o catálogo padrão (versão 1), usado quando não
+// há nenhuma versão publicada na tabela `case_catalogs`.
+//
+// Nunca altere as odds de uma versão existente: publique uma versão nova.
+// Cada abertura guarda `catalog_version` para poder ser reproduzida.
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface CatalogRarity {
+  name: string;
+  chance: number;
+  color: string;
+  icon: string;
+}
+
+export interface CatalogItem {
+  name: string;
+  icon: string;
+  minValue: number;
+  maxValue: number;
+  rarityIndex: number;
+}
+
+// Pity opcional por case (ver applyPity em case-rng.ts)
+export interface CatalogPityRule {
+  rarityIndex: number;
+  softStart?: number;
+  softStep?: number;
+  hardAt?: number;
+}
+
+export interface CatalogCase {
+  id: string;
+  name: string;
+  icon: string;
+  iconImage: string;
+  price: number;
+  color: string;
+  items: CatalogItem[];
+  pity?: CatalogPityRule[];
+}
+
+export interface CaseCatalog {
+  version: number;
+  publishedAt: string;
+  rarities: CatalogRarity[];
+  cases: CatalogCase[];
+}
+
+// ============================================================
+// DEFAULT CATALOG (VERSION 1)
+// ============================================================
+
+export const DEFAULT_CASE_CATALOG: CaseCatalog = {
+  version: 1,
+  publishedAt: '2025-01-01T00:00:00.000Z',
+  rarities: [
+    { name: 'Common', chance: 55, color: '#9ca3af', icon: '⚪' },
+    { name: 'Uncommon', chance: 25, color: '#22c55e', icon: '🟢' },
+    { name: 'Rare', chance: 12, color: '#3b82f6', icon: '🔵' },
+    { name: 'Epic', chance: 5, color: '#a855f7', icon: '🟣' },
+    { name: 'Legendary', chance: 2.5, color: '#eab308', icon: '🟡' },
+    { name: 'Mythic', chance: 0.5, color: '#ef4444', icon: '🔴' }
+  ],
+  cases: [
+    {
+      id: 'starter_box',
+      name: 'Starter Box',
+      icon: '📦',
+      iconImage: '/images/cases/images/starter_box.png',
+      price: 5.0,
+      color: '#9ca3af',
+      items: [
+        { name: 'Basic Coin', icon: '🪙', minValue: 0.50, maxValue: 1.50, rarityIndex: 0 },
+        { name: 'Snack Pack', icon: '🧃', minValue: 1.00, maxValue: 2.80, rarityIndex: 0 },
+        { name: 'Mini Plush', icon: '🧸', minValue: 2.00, maxValue: 4.20, rarityIndex: 1 },
+        { name: 'Old Manual', icon: '📄', minValue: 3.50, maxValue: 6.50, rarityIndex: 2 },
+        { name: 'Collector Pin', icon: '📍', minValue: 6.00, maxValue: 11.00, rarityIndex: 3 },
+        { name: 'Mythic Token', icon: '✨', minValue: 12.00, maxValue: 25.00, rarityIndex: 4 }
+      ]
+    },
+    {
+      id: 'utility_box',
+      name: 'Utility Box',
+      icon: '🧰',
+      iconImage: '/images/cases/images/utility_box.png',
+      price: 9.0,
+      color: '#065f46',
+      items: [
+        { name: 'Small Hammer', icon: '🔨', minValue: 1.50, maxValue: 4.00, rarityIndex: 0 },
+        { name: 'Screwdriver', icon: '🪛', minValue: 2.50, maxValue: 5.50, rarityIndex: 0 },
+        { name: 'Weak Flashlight', icon: '🔦', minValue: 4.00, maxValue: 8.00, rarityIndex: 1 },
+        { name: 'Metal Screw', icon: '🔩', minValue: 7.00, maxValue: 13.00, rarityIndex: 2 },
+        { name: 'Mini Canteen', icon: '🧃', minValue: 11.00, maxValue: 20.00, rarityIndex: 3 },
+        { name: 'Compact Extinguisher', icon: '🧯', minValue: 18.00, maxValue: 35.00, rarityIndex: 4 },
+        { name: 'Prototype Gadget', icon: '🛰️', minValue: 30.00, maxValue: 60.00, rarityIndex: 5 }
+      ]
+    },
+    {
+      id: 'green_box',
+      name: 'Green Box',
+      icon: '📦',
+      iconImage: '/images/cases/images/green_box.png',
+      price: 14.0,
+      color: '#3b82f6',
+      items: [
+        { name: 'Cardboard Stash', icon: '📦', minValue: 2.00, maxValue: 6.00, rarityIndex: 0 },
+        { name: 'Sealed Supply', icon: '📮', minValue: 5.00, maxValue: 11.00, rarityIndex: 1 },
+        { name: 'Crate Cache', icon: '🧰', minValue: 9.00, maxValue: 17.00, rarityIndex: 2 },
+        { name: 'Fortified Box', icon: '🪤', minValue: 15.00, maxValue: 28.00, rarityIndex: 3 },
+        { name: 'Vaulted Shipment', icon: '💼', minValue: 25.00, maxValue: 48.00, rarityIndex: 4 },
+        { name: 'Mythic Cargo', icon: '🎁', minValue: 50.00, maxValue: 95.00, rarityIndex: 5 }
+      ]
+    },
+    {
+      id: 'urban_box',
+      name: 'Urban Box',
+      icon: '🏙️',
+      iconImage: '/images/cases/images/urban_box.png',
+      price: 22.0,
+      color: '#6b7280',
+      items: [
+        { name: 'Street Headphones', icon: '🎧', minValue: 5.00, maxValue: 12.00, rarityIndex: 0 },
+        { name: 'Graffiti Note', icon: '🗒️', minValue: 8.00, maxValue: 18.00, rarityIndex: 1 },
+        { name: 'Keychain Key', icon: '🔑', minValue: 14.00, maxValue: 26.00, rarityIndex: 2 },
+        { name: 'Crushed Can', icon: '🥫', minValue: 22.00, maxValue: 40.00, rarityIndex: 3 },
+        { name: 'Neon Mask', icon: '🎭', minValue: 35.00, maxValue: 65.00, rarityIndex: 4 },
+        { name: 'Underground Pass', icon: '🚇', minValue: 70.00, maxValue: 130.00, rarityIndex: 5 }
+      ]
+    },
+    {
+      id: 'old_stuff',
+      name: 'Old Stuff Box',
+      icon: '🏺',
+      iconImage: '/images/cases/images/old_stuff.png',
+      price: 35.0,
+      color: '#a16207',
+      items: [
+        { name: 'Worn Coin', icon: '🪙', minValue: 8.00, maxValue: 18.00, rarityIndex: 0 },
+        { name: 'Rusty Key', icon: '🗝️', minValue: 15.00, maxValue: 28.00, rarityIndex: 1 },
+        { name: 'Old Scroll', icon: '📜', minValue: 24.00, maxValue: 45.00, rarityIndex: 2 },
+        { name: 'Ancient Compass', icon: '🧭', minValue: 38.00, maxValue: 70.00, rarityIndex: 3 },
+        { name: 'Broken Relic', icon: '🪨', minValue: 65.00, maxValue: 120.00, rarityIndex: 4 },
+        { name: 'Forgotten Medallion', icon: '🏺', minValue: 130.00, maxValue: 250.00, rarityIndex: 5 }
+      ]
+    },
+    {
+      id: 'toy_box',
+      name: 'Toy Box',
+      icon: '🧸',
+      iconImage: '/images/cases/images/toy_box.png',
+      price: 48.0,
+      color: '#ec4899',
+      items: [
+        { name: 'Blue Bunny Plush', icon: '🐰', minValue: 12.00, maxValue: 25.00, rarityIndex: 0 },
+        { name: 'Heart Emoji Ball', icon: '😍', minValue: 20.00, maxValue: 38.00, rarityIndex: 1 },
+        { name: 'Toy Dolphin', icon: '🐬', minValue: 32.00, maxValue: 60.00, rarityIndex: 2 },
+        { name: 'Holographic Stickers', icon: '✨', minValue: 50.00, maxValue: 95.00, rarityIndex: 3 },
+        { name: 'Color Spring', icon: '🌀', minValue: 85.00, maxValue: 160.00, rarityIndex: 4 },
+        { name: 'Limited Figure', icon: '🧩', minValue: 170.00, maxValue: 320.00, rarityIndex: 5 }
+      ]
+    },
+    {
+      id: 'scrap_box',
+      name: 'Scrap Box',
+      icon: '⚙️',
+      iconImage: '/images/cases/images/scrap_box.png',
+      price: 65.0,
+      color: '#525252',
+      items: [
+        { name: 'Metal Gears', icon: '⚙️', minValue: 15.00, maxValue: 32.00, rarityIndex: 0 },
+        { name: 'Old Circuit Board', icon: '🖥️', minValue: 28.00, maxValue: 52.00, rarityIndex: 1 },
+        { name: 'Bolts & Nuts', icon: '🔩', minValue: 45.00, maxValue: 85.00, rarityIndex: 2 },
+        { name: 'Brushed Metal Block', icon: '⬛', minValue: 70.00, maxValue: 135.00, rarityIndex: 3 },
+        { name: 'Alloy Core', icon: '🧊', minValue: 120.00, maxValue: 230.00, rarityIndex: 4 },
+        { name: 'Singularity Scrap', icon: '🌀', minValue: 250.00, maxValue: 480.00, rarityIndex: 5 }
+      ]
+    },
+    {
+      id: 'mixed_box',
+      name: 'Mixed Box',
+      icon: '🧳',
+      iconImage: '/images/cases/images/mixed_box.png',
+      price: 85.0,
+      color: '#22d3ee',
+      items: [
+        { name: 'Thermal Cup', icon: '☕', minValue: 20.00, maxValue: 42.00, rarityIndex: 0 },
+        { name: 'Rest Pillow', icon: '😴', minValue: 35.00, maxValue: 68.00, rarityIndex: 1 },
+        { name: 'Photo Frame', icon: '🖼️', minValue: 55.00, maxValue: 105.00, rarityIndex: 2 },
+        { name: 'Snack Container', icon: '🍱', minValue: 90.00, maxValue: 170.00, rarityIndex: 3 },
+        { name: 'Weekend Bag', icon: '👜', minValue: 150.00, maxValue: 285.00, rarityIndex: 4 },
+        { name: 'Premium Travel Kit', icon: '🧴', minValue: 300.00, maxValue: 550.00, rarityIndex: 5 }
+      ]
+    },
+    {
+      id: 'basic_gun',
+      name: 'Basic Gun',
+      icon: '🔫',
+      iconImage: '/images/cases/images/basic_gun.png',
+      price: 120.0,
+      color: '#ef4444',
+      items: [
+        { name: 'Training Pistol', icon: '🔫', minValue: 30.00, maxValue: 65.00, rarityIndex: 0 },
+        { name: 'Old Revolver', icon: '🤠', minValue: 55.00, maxValue: 110.00, rarityIndex: 1 },
+        { name: 'Rusty SMG', icon: '💥', minValue: 90.00, maxValue: 175.00, rarityIndex: 2 },
+        { name: 'Ammo Pack', icon: '📦', minValue: 140.00, maxValue: 270.00, rarityIndex: 3 },
+        { name: 'Weapon Parts', icon: '🧩', minValue: 240.00, maxValue: 450.00, rarityIndex: 4 },
+        { name: 'Collector Weapon', icon: '🎯', minValue: 500.00, maxValue: 900.00, rarityIndex: 5 }
+      ]
+    },
+    {
+      id: 'travel_box',
+      name: 'Travel Box',
+      icon: '🧭',
+      iconImage: '/images/cases/images/travel_box.png',
+      price: 175.0,
+      color: '#f97316',
+      items: [
+        { name: 'Trail Flashlight', icon: '🔦', minValue: 45.00, maxValue: 90.00, rarityIndex: 0 },
+        { name: 'Adventure Passport', icon: '📘', minValue: 75.00, maxValue: 145.00, rarityIndex: 1 },
+        { name: 'Star Map', icon: '🌌', minValue: 120.00, maxValue: 230.00, rarityIndex: 2 },
+        { name: 'Aluminum Canteen', icon: '🥤', minValue: 190.00, maxValue: 360.00, rarityIndex: 3 },
+        { name: 'Magnetic Compass', icon: '🧭', minValue: 320.00, maxValue: 600.00, rarityIndex: 4 },
+        { name: 'First Aid Kit', icon: '🩹', minValue: 650.00, maxValue: 1200.00, rarityIndex: 5 }
+      ]
+    },
+    {
+      id: 'treasure_chest',
+      name: 'Treasure Chest',
+      icon: '💎',
+      iconImage: '/images/cases/images/treasure_chest.png',
+      price: 250.0,
+      color: '#a855f7',
+      items: [
+        { name: 'Bronze Coin', icon: '🪙', minValue: 60.00, maxValue: 120.00, rarityIndex: 0 },
+        { name: 'Emerald Ring', icon: '💍', minValue: 110.00, maxValue: 210.00, rarityIndex: 1 },
+        { name: 'Sapphire Gem', icon: '💠', minValue: 180.00, maxValue: 350.00, rarityIndex: 2 },
+        { name: 'Ruby Crown', icon: '👑', minValue: 300.00, maxValue: 580.00, rarityIndex: 3 },
+        { name: 'Diamond Scepter', icon: '🔱', minValue: 550.00, maxValue: 1050.00, rarityIndex: 4 },
+        { name: 'Ancient Artifact', icon: '🏺', minValue: 1200.00, maxValue: 2500.00, rarityIndex: 5 }
+      ]
+    },
+    {
+      id: 'military_case',
+      name: 'Military Case',
+      icon: '🪖',
+      iconImage: '/images/cases/images/military_case.png',
+      price: 400.0,
+      color: '#374151',
+      items: [
+        { name: 'Military Helmet', icon: '🪖', minValue: 100.00, maxValue: 200.00, rarityIndex: 0 },
+        { name: 'Ammo Crate', icon: '📦', minValue: 180.00, maxValue: 350.00, rarityIndex: 1 },
+        { name: 'Light Rifle', icon: '🔫', minValue: 300.00, maxValue: 580.00, rarityIndex: 2 },
+        { name: 'Armored Jeep', icon: '🚙', minValue: 500.00, maxValue: 950.00, rarityIndex: 3 },
+        { name: 'Battle Tank', icon: '🛡️', minValue: 900.00, maxValue: 1700.00, rarityIndex: 4 },
+        { name: 'Fighter Jet', icon: '✈️', minValue: 2000.00, maxValue: 4000.00, rarityIndex: 5 }
+      ]
+    }
+  ]
+};
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+export function findCatalogCase(catalog: CaseCatalog, caseId: string | number | undefined): CatalogCase | undefined {
+  if (!caseId) return undefined;
+  const key = typeof caseId === 'string' ? caseId : String(caseId);
+  return catalog.cases.find(c => c.id === key);
+}
+
+export function getCatalogRarity(catalog: CaseCatalog, index: number): CatalogRarity {
+  return catalog.rarities[Math.min(index, catalog.rarities.length - 1)];
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Valida as regras de pity de um case (uma por raridade, que exista no
+ * case e não seja a mais comum dele; pelo menos soft ou hard pity).
+ */
+export function validatePityRules(caseData: Pick<CatalogCase, 'id' | 'items' | 'pity'>, rarityCount: number): string[] {
+  const errors: string[] = [];
+  if (caseData.pity === undefined) return errors;
+  if (!Array.isArray(caseData.pity)) return [`${caseData.id}: pity must be a list`];
+
+  const lowestRarity = Math.min(...caseData.items.map(it => it.rarityIndex));
+  const seen = new Set<number>();
+
+  caseData.pity.forEach((rule, idx) => {
+    const label = `${caseData.id}: pity rule #${idx + 1}`;
+    const validRarity = Number.isInteger(rule?.rarityIndex) && rule.rarityIndex > lowestRarity && rule.rarityIndex < rarityCount;
+    if (!validRarity || !caseData.items.some(it => it.rarityIndex === rule.rarityIndex)) {
+      errors.push(`${label} has an invalid rarity`);
+      return;
+    }
+    if (seen.has(rule.rarityIndex)) errors.push(`${label} repeats a rarity`);
+    seen.add(rule.rarityIndex);
+
+    const hasSoft = rule.softStart !== undefined || rule.softStep !== undefined;
+    const hasHard = rule.hardAt !== undefined;
+    const validSoft = Number.isInteger(rule.softStart) && rule.softStart! >= 1 && isFiniteNumber(rule.softStep) && rule.softStep > 0 && rule.softStep <= 100;
+    const validHard = Number.isInteger(rule.hardAt) && rule.hardAt! >= 2;
+
+    if (hasSoft && !validSoft) errors.push(`${label} has an invalid soft pity`);
+    if (hasHard && !validHard) errors.push(`${label} has an invalid hard pity`);
+    if (!hasSoft && !hasHard) errors.push(`${label} needs a soft or hard pity`);
+    if (validSoft && validHard && rule.softStart! >= rule.hardAt!) {
+      errors.push(`${label}: soft pity must start before hard pity`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Valida a estrutura de um catálogo vindo do banco/rede.
+ * Retorna a lista de problemas encontrados (vazia = válido).
+ */
+export function validateCatalog(catalog: unknown): string[] {
+  const errors: string[] = [];
+  const data = catalog as Partial<CaseCatalog> | null;
+
+  if (!data || typeof data !== 'object') return ['Catalog must be an object'];
+  if (!Number.isInteger(data.version) || (data.version as number) < 1) errors.push('Invalid version');
+  if (!Array.isArray(data.rarities) || data.rarities.length === 0) errors.push('Rarities are required');
+  if (!Array.isArray(data.cases)) errors.push('Cases are required');
+  if (errors.length) return errors;
+
+  data.rarities!.forEach((rarity, idx) => {
+    if (!rarity?.name || !isFiniteNumber(rarity.chance) || rarity.chance <= 0) {
+      errors.push(`Rarity #${idx} is invalid`);
+    }
+  });
+
+  const ids = new Set<string>();
+  data.cases!.forEach((c, idx) => {
+    if (!c?.id || typeof c.id !== 'string') {
+      errors.push(`Case #${idx} has no id`);
+      return;
+    }
+    if (ids.has(c.id)) errors.push(`Duplicate case id: ${c.id}`);
+    ids.add(c.id);
+
+    if (!isFiniteNumber(c.price) || c.price <= 0) errors.push(`${c.id}: invalid price`);
+    if (!Array.isArray(c.items) || c.items.length === 0) {
+      errors.push(`${c.id}: no items`);
+      return;
+    }
+
+    c.items.forEach((item, itemIdx) => {
+      const validRange = isFiniteNumber(item?.minValue) && isFiniteNumber(item?.maxValue) && item.minValue >= 0 && item.minValue <= item.maxValue;
+      const validRarity = Number.isInteger(item?.rarityIndex) && item.rarityIndex >= 0 && item.rarityIndex < data.rarities!.length;
+      if (!item?.name || !validRange || !validRarity) {
+        errors.push(`${c.id}: item #${itemIdx} is invalid`);
+      }
+    });
+
+    errors.push(...validatePityRules(c, data.rarities!.length));
+  });
+
+  return errors;
+}
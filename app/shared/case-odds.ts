@@ -0,0 +1,224 @@
+// ============================================================
+// CASE-ODDS.TS - Probabilidades, valor esperado e simulação de cases
+// ============================================================
+// Usado pelo editor de cases do admin (api/_admin.ts) para mostrar, antes de
+// publicar uma versão do catálogo, o que cada case realmente paga.
+// As probabilidades saem de buildAdjustedPools, o mesmo código que rola as
+// aberturas, então o relatório não pode divergir do jogo. O relatório
+// analítico usa as odds base; a simulação e o status de pity aplicam as
+// regras de pity do case (applyPity).
+
+import { advancePityCounters, applyPity, buildAdjustedPools, generateItemSeeded, normalizePityCounters, type PityCounters } from './case-rng.js';
+import type { CatalogCase, CatalogRarity } from './case-catalog.js';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface ItemOdds {
+  name: string;
+  icon: string;
+  rarity: string;
+  rarityColor: string;
+  probability: number;
+  minValue: number;
+  maxValue: number;
+  averageValue: number;
+  contribution: number;
+}
+
+export interface CaseOddsReport {
+  caseId: string;
+  price: number;
+  items: ItemOdds[];
+  expectedValue: number;
+  returnToPlayer: number;
+  houseEdge: number;
+  variance: number;
+  stdDev: number;
+  profitChance: number;
+}
+
+export interface SimulationResult {
+  openings: number;
+  totalCost: number;
+  totalReturn: number;
+  averageValue: number;
+  returnToPlayer: number;
+  houseEdge: number;
+  stdDev: number;
+  bestValue: number;
+  profitableOpenings: number;
+  rarityCounts: Record<string, number>;
+}
+
+/**
+ * Situação de uma regra de pity para o jogador (loot table e painel
+ * provably fair). Chances em %, somando a raridade protegida e as melhores.
+ */
+export interface PityStatus {
+  rarityIndex: number;
+  rarity: string;
+  rarityColor: string;
+  rarityIcon: string;
+  count: number;
+  softStart?: number;
+  softStep?: number;
+  hardAt?: number;
+  baseChance: number;
+  currentChance: number;
+}
+
+export const MAX_SIMULATION_OPENINGS = 50000;
+
+// ============================================================
+// ANALYTIC REPORT
+// ============================================================
+
+/**
+ * Calcula as odds exatas de um case. O valor de cada item é uniforme em
+ * [minValue, maxValue], então E[v] = (a+b)/2 e E[v²] = (a²+ab+b²)/3.
+ * Valores no preço de tabela (sem desconto de skill tree). Só odds base:
+ * o pity não entra, então em cases com pity EV e house edge ficam abaixo
+ * do real (o admin rotula o relatório e usa a simulação para isso).
+ */
+export function computeCaseOdds(caseData: CatalogCase, rarities: CatalogRarity[]): CaseOddsReport {
+  const pools = buildAdjustedPools(caseData, rarities);
+  let previous = 0;
+  let expectedValue = 0;
+  let secondMoment = 0;
+  let profitChance = 0;
+
+  const items: ItemOdds[] = pools.map(pool => {
+    const probability = (pool.cumulative - previous) / 100;
+    previous = pool.cumulative;
+
+    const { minValue: a, maxValue: b } = pool.item;
+    const averageValue = (a + b) / 2;
+    expectedValue += probability * averageValue;
+    secondMoment += probability * ((a * a + a * b + b * b) / 3);
+
+    // Parcela do intervalo de valores que paga mais que o preço do case
+    if (b > caseData.price) {
+      const profitableShare = b === a ? 1 : (b - Math.max(a, caseData.price)) / (b - a);
+      profitChance += probability * profitableShare;
+    }
+
+    return {
+      name: pool.item.name,
+      icon: pool.item.icon,
+      rarity: pool.rarity.name,
+      rarityColor: pool.rarity.color,
+      probability,
+      minValue: a,
+      maxValue: b,
+      averageValue,
+      contribution: probability * averageValue
+    };
+  });
+
+  const variance = Math.max(secondMoment - expectedValue * expectedValue, 0);
+  const returnToPlayer = caseData.price > 0 ? expectedValue / caseData.price : 0;
+
+  return {
+    caseId: caseData.id,
+    price: caseData.price,
+    items,
+    expectedValue,
+    returnToPlayer,
+    houseEdge: 1 - returnToPlayer,
+    variance,
+    stdDev: Math.sqrt(variance),
+    profitChance
+  };
+}
+
+// ============================================================
+// MONTE-CARLO
+// ============================================================
+
+/**
+ * Simula N aberturas seguidas de um mesmo jogador com o mesmo gerador das
+ * aberturas reais (generateItemSeeded + pity), usando `${seed}:${i}` como
+ * seed de cada abertura.
+ */
+export function simulateOpenings(
+  caseData: CatalogCase,
+  rarities: CatalogRarity[],
+  openings: number,
+  seed: string
+): SimulationResult {
+  const count = Math.max(1, Math.min(Math.floor(openings), MAX_SIMULATION_OPENINGS));
+  const rarityCounts: Record<string, number> = {};
+  let totalReturn = 0;
+  let sumSquares = 0;
+  let bestValue = 0;
+  let profitableOpenings = 0;
+  let pityCounters = normalizePityCounters(caseData.pity, {});
+
+  for (let i = 0; i < count; i++) {
+    const item = generateItemSeeded(caseData, applyPity(caseData, rarities, pityCounters), `${seed}:${i}`);
+    pityCounters = advancePityCounters(caseData.pity, pityCounters, rarities.findIndex(r => r.name === item?.rarity));
+    if (!item) continue;
+
+    totalReturn += item.value;
+    sumSquares += item.value * item.value;
+    if (item.value > bestValue) bestValue = item.value;
+    if (item.value > caseData.price) profitableOpenings++;
+    rarityCounts[item.rarity] = (rarityCounts[item.rarity] || 0) + 1;
+  }
+
+  const totalCost = caseData.price * count;
+  const averageValue = totalReturn / count;
+  const returnToPlayer = totalCost > 0 ? totalReturn / totalCost : 0;
+
+  return {
+    openings: count,
+    totalCost: parseFloat(totalCost.toFixed(2)),
+    totalReturn: parseFloat(totalReturn.toFixed(2)),
+    averageValue,
+    returnToPlayer,
+    houseEdge: 1 - returnToPlayer,
+    stdDev: Math.sqrt(Math.max(sumSquares / count - averageValue * averageValue, 0)),
+    bestValue,
+    profitableOpenings,
+    rarityCounts
+  };
+}
+
+// ============================================================
+// PITY STATUS
+// ============================================================
+
+function sumProtectedChance(rarities: CatalogRarity[], caseData: CatalogCase, rarityIndex: number): number {
+  return buildAdjustedPools(caseData, rarities)
+    .reduce((sum, pool, idx, pools) => {
+      const width = pool.cumulative - (idx > 0 ? pools[idx - 1].cumulative : 0);
+      return pool.item.rarityIndex >= rarityIndex ? sum + width : sum;
+    }, 0);
+}
+
+/**
+ * Status de cada regra de pity do case para os contadores do jogador.
+ */
+export function computePityStatus(caseData: CatalogCase, rarities: CatalogRarity[], rawCounters: unknown): PityStatus[] {
+  const rules = caseData.pity ?? [];
+  const counters: PityCounters = normalizePityCounters(rules, rawCounters);
+  const adjusted = applyPity(caseData, rarities, counters);
+
+  return rules.map(rule => {
+    const rarity = rarities[Math.min(rule.rarityIndex, rarities.length - 1)];
+    return {
+      rarityIndex: rule.rarityIndex,
+      rarity: rarity.name,
+      rarityColor: rarity.color,
+      rarityIcon: rarity.icon,
+      count: counters[String(rule.rarityIndex)] ?? 0,
+      softStart: rule.softStart,
+      softStep: rule.softStep,
+      hardAt: rule.hardAt,
+      baseChance: sumProtectedChance(rarities, caseData, rule.rarityIndex),
+      currentChance: sumProtectedChance(adjusted, caseData, rule.rarityIndex)
+    };
+  });
+}
@@ -0,0 +1,452 @@
+// ============================================================
+// CASE-RNG.TS - RNG determinístico (HMAC-SHA256) compartilhado
+// ============================================================
+// Usado pelo backend (api/_caseopening.ts) e pelo frontend (verificação
+// provably fair). Não pode depender de window/document nem de Node:
+// SHA-256 e HMAC são implementados aqui para rodar de forma síncrona
+// nos dois ambientes e produzir exatamente os mesmos resultados.
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface RollRarity {
+  name: string;
+  chance: number;
+  color: string;
+  icon: string;
+}
+
+export interface RollCaseItem {
+  name: string;
+  icon: string;
+  minValue: number;
+  maxValue: number;
+  rarityIndex: number;
+}
+
+/**
+ * Pity de uma raridade: conta aberturas desde o último drop dela (ou
+ * melhor). A partir de softStart a chance sobe softStep pontos percentuais
+ * por abertura; em hardAt a raridade é garantida.
+ */
+export interface PityRule {
+  rarityIndex: number;
+  softStart?: number;
+  softStep?: number;
+  hardAt?: number;
+}
+
+// Aberturas desde o último drop, por rarityIndex protegido (chave em string por causa do JSON)
+export type PityCounters = Record<string, number>;
+
+export interface RollCase {
+  items: RollCaseItem[];
+  pity?: PityRule[];
+}
+
+export interface AdjustedPool<TItem extends RollCaseItem = RollCaseItem> {
+  item: TItem;
+  rarity: RollRarity;
+  cumulative: number;
+}
+
+export interface RolledItem {
+  name: string;
+  icon: string;
+  value: number;
+  rarity: string;
+  rarityColor: string;
+  rarityIcon: string;
+}
+
+export interface RolledSlot {
+  items: (RolledItem | null)[];
+  winnerIndex: number;
+  winner: RolledItem | null;
+  pityCounters?: PityCounters;
+}
+
+export type SeededRNG = () => number;
+
+// Incrementar se a derivação de números mudar (aberturas antigas guardam a versão)
+export const RNG_VERSION = 'hmac-sha256-v1';
+
+export const REEL_LENGTH = 96;
+export const WINNER_INDEX_MIN = 20;
+export const WINNER_INDEX_SPAN = 57;
+
+export const PITY_COUNTER_MAX = 100_000;
+
+// ============================================================
+// SHA-256 / HMAC-SHA256
+// ============================================================
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+const HMAC_BLOCK_SIZE = 64;
+
+const utf8 = new TextEncoder();
+
+function rotr(value: number, bits: number): number {
+  return (value >>> bits) | (value << (32 - bits));
+}
+
+function toBytes(input: string | Uint8Array): Uint8Array {
+  return typeof input === 'string' ? utf8.encode(input) : input;
+}
+
+function toHex(bytes: Uint8Array): string {
+  let hex = '';
+  for (let i = 0; i < bytes.length; i++) {
+    hex += bytes[i].toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+export function sha256(input: string | Uint8Array): Uint8Array {
+  const data = toBytes(input);
+  const H = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+  ]);
+
+  // Padding: 0x80, zeros e o tamanho em bits (64 bits big-endian)
+  const paddedLength = ((data.length + 9 + 63) >> 6) << 6;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  const bitLength = data.length * 8;
+  view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(paddedLength - 4, bitLength >>> 0);
+
+  const W = new Uint32Array(64);
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let t = 0; t < 16; t++) {
+      W[t] = view.getUint32(offset + t * 4);
+    }
+    for (let t = 16; t < 64; t++) {
+      const s0 = rotr(W[t - 15], 7) ^ rotr(W[t - 15], 18) ^ (W[t - 15] >>> 3);
+      const s1 = rotr(W[t - 2], 17) ^ rotr(W[t - 2], 19) ^ (W[t - 2] >>> 10);
+      W[t] = (W[t - 16] + s0 + W[t - 7] + s1) >>> 0;
+    }
+
+    let a = H[0], b = H[1], c = H[2], d = H[3];
+    let e = H[4], f = H[5], g = H[6], h = H[7];
+
+    for (let t = 0; t < 64; t++) {
+      const S1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const temp1 = (h + S1 + ch + K[t] + W[t]) >>> 0;
+      const S0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (S0 + maj) >>> 0;
+
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) >>> 0;
+    }
+
+    H[0] = (H[0] + a) >>> 0;
+    H[1] = (H[1] + b) >>> 0;
+    H[2] = (H[2] + c) >>> 0;
+    H[3] = (H[3] + d) >>> 0;
+    H[4] = (H[4] + e) >>> 0;
+    H[5] = (H[5] + f) >>> 0;
+    H[6] = (H[6] + g) >>> 0;
+    H[7] = (H[7] + h) >>> 0;
+  }
+
+  const out = new Uint8Array(32);
+  const outView = new DataView(out.buffer);
+  for (let i = 0; i < 8; i++) {
+    outView.setUint32(i * 4, H[i]);
+  }
+  return out;
+}
+
+export function hmacSha256(key: string | Uint8Array, message: string | Uint8Array): Uint8Array {
+  let keyBytes = toBytes(key);
+  if (keyBytes.length > HMAC_BLOCK_SIZE) {
+    keyBytes = sha256(keyBytes);
+  }
+
+  const block = new Uint8Array(HMAC_BLOCK_SIZE);
+  block.set(keyBytes);
+
+  const msgBytes = toBytes(message);
+  const inner = new Uint8Array(HMAC_BLOCK_SIZE + msgBytes.length);
+  const outer = new Uint8Array(HMAC_BLOCK_SIZE + 32);
+  for (let i = 0; i < HMAC_BLOCK_SIZE; i++) {
+    inner[i] = block[i] ^ 0x36;
+    outer[i] = block[i] ^ 0x5c;
+  }
+  inner.set(msgBytes, HMAC_BLOCK_SIZE);
+  outer.set(sha256(inner), HMAC_BLOCK_SIZE);
+
+  return sha256(outer);
+}
+
+export function sha256Hex(input: string | Uint8Array): string {
+  return toHex(sha256(input));
+}
+
+export function hmacSha256Hex(key: string | Uint8Array, message: string | Uint8Array): string {
+  return toHex(hmacSha256(key, message));
+}
+
+// ============================================================
+// SEEDED RNG
+// ============================================================
+
+/**
+ * Fluxo determinístico de bytes: HMAC-SHA256(seed, "0"), HMAC-SHA256(seed, "1"), ...
+ * Cada float consome 8 bytes e usa 53 bits (21 + 32), dividido por 2^53:
+ * todos os valores representáveis em [0, 1) têm exatamente a mesma chance.
+ */
+function createByteStream(seed: string | number) {
+  const key = String(seed);
+  let counter = 0;
+  let block: Uint8Array = new Uint8Array(0);
+  let offset = 0;
+
+  return function nextUint32(): number {
+    if (offset + 4 > block.length) {
+      block = hmacSha256(key, String(counter++));
+      offset = 0;
+    }
+    const value = ((block[offset] << 24) | (block[offset + 1] << 16) | (block[offset + 2] << 8) | block[offset + 3]) >>> 0;
+    offset += 4;
+    return value;
+  };
+}
+
+export function createSeededRNG(seed: string | number): SeededRNG {
+  const nextUint32 = createByteStream(seed);
+
+  return function() {
+    const high = nextUint32() >>> 11;
+    const low = nextUint32();
+    return (high * 0x100000000 + low) / 0x20000000000000;
+  };
+}
+
+export function seededRandom(seed: string | number): number {
+  return createSeededRNG(seed)();
+}
+
+/**
+ * Inteiro uniforme em [0, maxExclusive) por rejection sampling sobre uint32
+ * (sem o viés de módulo de `floor(rng() * n)`).
+ */
+export function seededInt(seed: string | number, maxExclusive: number): number {
+  if (!Number.isInteger(maxExclusive) || maxExclusive < 1 || maxExclusive > 0x100000000) {
+    throw new RangeError('maxExclusive must be an integer between 1 and 2^32');
+  }
+
+  const nextUint32 = createByteStream(seed);
+  const limit = Math.floor(0x100000000 / maxExclusive) * maxExclusive;
+
+  let value = nextUint32();
+  while (value >= limit) {
+    value = nextUint32();
+  }
+  return value % maxExclusive;
+}
+
+// ============================================================
+// CASE ROLLS
+// ============================================================
+
+export function buildAdjustedPools<TItem extends RollCaseItem>(
+  caseData: { items: TItem[] },
+  rarities: RollRarity[]
+): AdjustedPool<TItem>[] {
+  const pools: AdjustedPool<TItem>[] = [];
+  const buckets = rarities.map((rarity, idx) => {
+    const items = caseData.items.filter((it) => it.rarityIndex === idx);
+    return items.length && rarity.chance > 0 ? { rarity, items } : null;
+  }).filter((b): b is { rarity: RollRarity; items: TItem[] } => b !== null);
+
+  if (!buckets.length) return pools;
+
+  const totalBase = buckets.reduce((sum, b) => sum + b.rarity.chance, 0);
+  let cumulative = 0;
+
+  for (const bucket of buckets) {
+    const rarityChance = (bucket.rarity.chance / totalBase) * 100;
+    const perItemChance = rarityChance / bucket.items.length;
+    for (const item of bucket.items) {
+      cumulative += perItemChance;
+      pools.push({ item, rarity: bucket.rarity, cumulative });
+    }
+  }
+
+  // Garantir 100% para evitar gaps de floating point
+  if (pools.length) pools[pools.length - 1].cumulative = 100;
+  return pools;
+}
+
+export function generateItemSeeded(caseData: RollCase, rarities: RollRarity[], seed: string | number): RolledItem | null {
+  const rng = createSeededRNG(seed);
+  const pools = buildAdjustedPools(caseData, rarities);
+  if (!pools.length) {
+    const fallback = caseData.items?.[0];
+    if (!fallback) return null;
+    const rarity = rarities[Math.min(fallback.rarityIndex, rarities.length - 1)];
+    const mid = (fallback.minValue + fallback.maxValue) / 2;
+    return {
+      name: fallback.name,
+      icon: fallback.icon,
+      rarity: rarity.name,
+      rarityIcon: rarity.icon,
+      rarityColor: rarity.color,
+      value: parseFloat(mid.toFixed(2))
+    };
+  }
+
+  const roll = rng() * 100;
+  const hit = pools.find(p => roll <= p.cumulative) || pools[pools.length - 1];
+  const itemValue = hit.item.minValue + (rng() * (hit.item.maxValue - hit.item.minValue));
+
+  return {
+    name: hit.item.name,
+    icon: hit.item.icon,
+    rarity: hit.rarity.name,
+    rarityIcon: hit.rarity.icon,
+    rarityColor: hit.rarity.color,
+    value: parseFloat(itemValue.toFixed(2))
+  };
+}
+
+export function getWinnerIndex(masterSeed: string, slot: number): number {
+  return WINNER_INDEX_MIN + seededInt(`${masterSeed}-slot${slot}-index`, WINNER_INDEX_SPAN);
+}
+
+/**
+ * Gera o reel de cada slot e o índice vencedor a partir do master seed.
+ * `winnerOnly` pula os 95 itens decorativos (verificação rápida).
+ * Com `pityCounters` (e regras de pity no case), o item vencedor de cada
+ * slot usa as chances ajustadas pelos contadores daquele momento e os
+ * contadores avançam slot a slot; os itens decorativos usam as chances base.
+ */
+export function generateRollSlots(
+  caseData: RollCase,
+  rarities: RollRarity[],
+  masterSeed: string,
+  qty: number,
+  { winnerOnly = false, pityCounters }: { winnerOnly?: boolean; pityCounters?: PityCounters } = {}
+): RolledSlot[] {
+  const slots: RolledSlot[] = [];
+  let counters = caseData.pity?.length && pityCounters ? normalizePityCounters(caseData.pity, pityCounters) : null;
+
+  for (let slot = 0; slot < qty; slot++) {
+    const winnerIndex = getWinnerIndex(masterSeed, slot);
+    const winnerRarities = counters ? applyPity(caseData, rarities, counters) : rarities;
+    const items: (RolledItem | null)[] = [];
+
+    if (winnerOnly) {
+      items[winnerIndex] = generateItemSeeded(caseData, winnerRarities, `${masterSeed}-slot${slot}-item${winnerIndex}`);
+    } else {
+      for (let i = 0; i < REEL_LENGTH; i++) {
+        items.push(generateItemSeeded(caseData, i === winnerIndex ? winnerRarities : rarities, `${masterSeed}-slot${slot}-item${i}`));
+      }
+    }
+
+    const winner = items[winnerIndex] ?? null;
+    if (counters) {
+      slots.push({ items, winnerIndex, winner, pityCounters: counters });
+      counters = advancePityCounters(caseData.pity, counters, rarities.findIndex(r => r.name === winner?.rarity));
+    } else {
+      slots.push({ items, winnerIndex, winner });
+    }
+  }
+
+  return slots;
+}
+
+// ============================================================
+// PITY (PROTEÇÃO CONTRA AZAR)
+// ============================================================
+
+function getPityCount(counters: PityCounters, rarityIndex: number): number {
+  return Math.max(0, Math.floor(Number(counters[String(rarityIndex)]) || 0));
+}
+
+/**
+ * Contadores válidos para as regras do case (inteiros >= 0, só as
+ * raridades protegidas). Aceita entrada vinda da rede.
+ */
+export function normalizePityCounters(rules: PityRule[] | undefined, raw: unknown): PityCounters {
+  const source = raw && typeof raw === 'object' ? raw as PityCounters : {};
+  const counters: PityCounters = {};
+  for (const rule of rules ?? []) {
+    counters[String(rule.rarityIndex)] = Math.min(getPityCount(source, rule.rarityIndex), PITY_COUNTER_MAX);
+  }
+  return counters;
+}
+
+/**
+ * Chances de raridade da próxima abertura com os contadores informados.
+ * As regras são aplicadas da raridade mais baixa para a mais alta: cada uma
+ * aumenta a fatia das raridades protegidas (ela e as melhores) e reduz as
+ * inferiores na mesma proporção; o hard pity zera as inferiores.
+ */
+export function applyPity(caseData: RollCase, rarities: RollRarity[], counters: PityCounters): RollRarity[] {
+  const rules = caseData.pity ?? [];
+  if (!rules.length) return rarities;
+
+  const present = rarities.map((rarity, idx) => rarity.chance > 0 && caseData.items.some(it => it.rarityIndex === idx));
+  const total = rarities.reduce((sum, rarity, idx) => sum + (present[idx] ? rarity.chance : 0), 0);
+  if (total <= 0) return rarities;
+
+  let shares = rarities.map((rarity, idx) => (present[idx] ? rarity.chance / total : 0));
+
+  for (const rule of [...rules].sort((a, b) => a.rarityIndex - b.rarityIndex)) {
+    const opening = getPityCount(counters, rule.rarityIndex) + 1;
+    const protectedShare = shares.reduce((sum, share, idx) => sum + (idx >= rule.rarityIndex ? share : 0), 0);
+    if (protectedShare <= 0 || protectedShare >= 1) continue;
+
+    let target = protectedShare;
+    if (rule.hardAt && opening >= rule.hardAt) {
+      target = 1;
+    } else if (rule.softStart && rule.softStep && opening >= rule.softStart) {
+      target = Math.min(1, protectedShare + (rule.softStep / 100) * (opening - rule.softStart + 1));
+    }
+    if (target === protectedShare) continue;
+
+    const up = target / protectedShare;
+    const down = (1 - target) / (1 - protectedShare);
+    shares = shares.map((share, idx) => share * (idx >= rule.rarityIndex ? up : down));
+  }
+
+  return rarities.map((rarity, idx) => ({ ...rarity, chance: shares[idx] * 100 }));
+}
+
+/**
+ * Contadores depois de uma abertura que deu a raridade `rarityIndex`:
+ * zera os protegidos que ela cobre e soma 1 nos demais.
+ */
+export function advancePityCounters(rules: PityRule[] | undefined, counters: PityCounters, rarityIndex: number): PityCounters {
+  const next: PityCounters = {};
+  for (const rule of rules ?? []) {
+    next[String(rule.rarityIndex)] = rarityIndex >= rule.rarityIndex
+      ? 0
+      : Math.min(getPityCount(counters, rule.rarityIndex) + 1, PITY_COUNTER_MAX);
+  }
+  return next;
+}
@@ -0,0 +1,85 @@
+// ============================================================
+// CATALOG-STORE.TS - Catálogo de cases ativo no frontend
+// ============================================================
+// Começa com o catálogo embutido (DEFAULT_CASE_CATALOG) e é substituído
+// pela versão servida pelo backend (`getCatalog`). Versões antigas são
+// buscadas sob demanda para reproduzir aberturas do histórico.
+
+import { DEFAULT_CASE_CATALOG, validateCatalog } from './case-catalog';
+import type { CaseCatalog } from './case-catalog';
+import { ErrorHandler, ErrorCategory, ErrorSeverity } from './error-handler';
+
+type CatalogListener = (catalog: CaseCatalog) => void;
+
+let activeCatalog: CaseCatalog = DEFAULT_CASE_CATALOG;
+let loadPromise: Promise<CaseCatalog> | null = null;
+const catalogsByVersion = new Map<number, CaseCatalog>([[DEFAULT_CASE_CATALOG.version, DEFAULT_CASE_CATALOG]]);
+const listeners = new Set<CatalogListener>();
+
+async function fetchCatalog(version?: number): Promise<CaseCatalog> {
+  const response = await fetch('/api/_caseopening', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action: 'getCatalog', version })
+  });
+
+  const result = await response.json();
+  if (!response.ok || !result?.catalog) {
+    throw new Error(result?.error || 'Failed to load case catalog');
+  }
+
+  const errors = validateCatalog(result.catalog);
+  if (errors.length) {
+    throw new Error(`Invalid case catalog: ${errors[0]}`);
+  }
+
+  const catalog = result.catalog as CaseCatalog;
+  catalogsByVersion.set(catalog.version, catalog);
+  return catalog;
+}
+
+export function getActiveCatalog(): CaseCatalog {
+  return activeCatalog;
+}
+
+export function onCatalogChange(listener: CatalogListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Carrega o catálogo ativo do servidor (single-flight).
+ * Em caso de erro mantém o catálogo atual.
+ */
+export function loadCatalog({ force = false }: { force?: boolean } = {}): Promise<CaseCatalog> {
+  if (loadPromise && !force) return loadPromise;
+
+  loadPromise = fetchCatalog()
+    .then(catalog => {
+      const changed = catalog.version !== activeCatalog.version;
+      activeCatalog = catalog;
+      if (changed) listeners.forEach(listener => listener(catalog));
+      return catalog;
+    })
+    .catch(err => {
+      loadPromise = null;
+      ErrorHandler.handleError('Failed to load case catalog', {
+        category: ErrorCategory.NETWORK,
+        severity: ErrorSeverity.WARNING,
+        details: err,
+        showToUser: false
+      });
+      return activeCatalog;
+    });
+
+  return loadPromise;
+}
+
+/**
+ * Busca uma versão específica (para verificar/replay de aberturas antigas)
+ */
+export async function loadCatalogVersion(version: number): Promise<CaseCatalog> {
+  const cached = catalogsByVersion.get(version);
+  if (cached) return cached;
+  return fetchCatalog(version);
+}
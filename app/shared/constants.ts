@@ -2,6 +2,11 @@
 // CONSTANTS.TS - Configurações e Constantes Globais
 // ============================================================
 
+import { findCatalogCase, getCatalogRarity } from './case-catalog';
+import type { CatalogCase, CatalogItem, CatalogRarity } from './case-catalog';
+import { getActiveCatalog } from './catalog-store';
+import { ACHIEVEMENT_RULES, type AchievementMetric } from './achievements';
+
 // ============================================================
 // SECURITY & CONFIGURATION CONSTANTS
 // ============================================================
@@ -59,6 +64,7 @@ export const ERRORS = {
   STORAGE_QUOTA_EXCEEDED: 'Storage quota exceeded',
   INVALID_USER_ID: 'Invalid user ID format',
   MIGRATION_FAILED: 'State migration failed',
+  DIAMOND_DEBT: 'A refunded or disputed purchase left your diamond balance in debt. Spending diamonds or money, market purchases and listings, and trades are locked until new diamonds cover it.',
 } as const;
 
 export const FEATURES = {
@@ -72,30 +78,9 @@ export const FEATURES = {
 // TYPE DEFINITIONS
 // ============================================================
 
-export interface Rarity {
-  name: string;
-  chance: number;
-  color: string;
-  icon: string;
-}
-
-export interface CaseItem {
-  name: string;
-  icon: string;
-  minValue: number;
-  maxValue: number;
-  rarityIndex: number;
-}
-
-export interface Case {
-  id: string;
-  name: string;
-  icon: string;
-  iconImage: string;
-  price: number;
-  color: string;
-  items: CaseItem[];
-}
+export type Rarity = CatalogRarity;
+export type CaseItem = CatalogItem;
+export type Case = CatalogCase;
 
 export interface SkillTreeBadge {
   x: number;
@@ -116,16 +101,6 @@ export interface SkillTreeCategory {
   badges: string[];
 }
 
-export interface BadgeStats {
-  total_battles?: number;
-  total_wins?: number;
-  money?: number;
-  level?: number;
-  total_spent?: number;
-  best_drop?: number;
-  collected_badges?: string[];
-}
-
 export interface BadgeDefinition {
   id: string;
   icon: string;
@@ -133,7 +108,8 @@ export interface BadgeDefinition {
   nameKey: string;
   desc: string;
   descKey: string;
-  requirement: (stats: BadgeStats) => boolean;
+  metric: AchievementMetric;
+  target: number;
   diamonds: number;
   xp: number;
 }
@@ -168,228 +144,17 @@ export interface MultiOpenRequirements {
 // CASE OPENING CONSTANTS
 // ============================================================
 
-// Rarities with drop chances
-export const RARITIES: Rarity[] = [
-  { name: 'Common', chance: 55, color: '#9ca3af', icon: '⚪' },
-  { name: 'Uncommon', chance: 25, color: '#22c55e', icon: '🟢' },
-  { name: 'Rare', chance: 12, color: '#3b82f6', icon: '🔵' },
-  { name: 'Epic', chance: 5, color: '#a855f7', icon: '🟣' },
-  { name: 'Legendary', chance: 2.5, color: '#eab308', icon: '🟡' },
-  { name: 'Mythic', chance: 0.5, color: '#ef4444', icon: '🔴' }
-];
-
-// Case definitions
-export const OPENING_CASES: Case[] = [
-  // Cases organizadas por valor crescente - valores muito mais altos
-  {
-    id: 'starter_box',
-    name: 'Starter Box',
-    icon: '📦',
-    iconImage: '/images/cases/images/starter_box.png',
-    price: 5.0,
-    color: '#9ca3af',
-    items: [
-      { name: 'Basic Coin', icon: '🪙', minValue: 0.50, maxValue: 1.50, rarityIndex: 0 },
-      { name: 'Snack Pack', icon: '🧃', minValue: 1.00, maxValue: 2.80, rarityIndex: 0 },
-      { name: 'Mini Plush', icon: '🧸', minValue: 2.00, maxValue: 4.20, rarityIndex: 1 },
-      { name: 'Old Manual', icon: '📄', minValue: 3.50, maxValue: 6.50, rarityIndex: 2 },
-      { name: 'Collector Pin', icon: '📍', minValue: 6.00, maxValue: 11.00, rarityIndex: 3 },
-      { name: 'Mythic Token', icon: '✨', minValue: 12.00, maxValue: 25.00, rarityIndex: 4 }
-    ]
-  },
-  {
-    id: 'utility_box',
-    name: 'Utility Box',
-    icon: '🧰',
-    iconImage: '/images/cases/images/utility_box.png',
-    price: 9.0,
-    color: '#065f46',
-    items: [
-      { name: 'Small Hammer', icon: '🔨', minValue: 1.50, maxValue: 4.00, rarityIndex: 0 },
-      { name: 'Screwdriver', icon: '🪛', minValue: 2.50, maxValue: 5.50, rarityIndex: 0 },
-      { name: 'Weak Flashlight', icon: '🔦', minValue: 4.00, maxValue: 8.00, rarityIndex: 1 },
-      { name: 'Metal Screw', icon: '🔩', minValue: 7.00, maxValue: 13.00, rarityIndex: 2 },
-      { name: 'Mini Canteen', icon: '🧃', minValue: 11.00, maxValue: 20.00, rarityIndex: 3 },
-      { name: 'Compact Extinguisher', icon: '🧯', minValue: 18.00, maxValue: 35.00, rarityIndex: 4 },
-      { name: 'Prototype Gadget', icon: '🛰️', minValue: 30.00, maxValue: 60.00, rarityIndex: 5 }
-    ]
-  },
-  {
-    id: 'green_box',
-    name: 'Green Box',
-    icon: '📦',
-    iconImage: '/images/cases/images/green_box.png',
-    price: 14.0,
-    color: '#3b82f6',
-    items: [
-      { name: 'Cardboard Stash', icon: '📦', minValue: 2.00, maxValue: 6.00, rarityIndex: 0 },
-      { name: 'Sealed Supply', icon: '📮', minValue: 5.00, maxValue: 11.00, rarityIndex: 1 },
-      { name: 'Crate Cache', icon: '🧰', minValue: 9.00, maxValue: 17.00, rarityIndex: 2 },
-      { name: 'Fortified Box', icon: '🪤', minValue: 15.00, maxValue: 28.00, rarityIndex: 3 },
-      { name: 'Vaulted Shipment', icon: '💼', minValue: 25.00, maxValue: 48.00, rarityIndex: 4 },
-      { name: 'Mythic Cargo', icon: '🎁', minValue: 50.00, maxValue: 95.00, rarityIndex: 5 }
-    ]
-  },
-  {
-    id: 'urban_box',
-    name: 'Urban Box',
-    icon: '🏙️',
-    iconImage: '/images/cases/images/urban_box.png',
-    price: 22.0,
-    color: '#6b7280',
-    items: [
-      { name: 'Street Headphones', icon: '🎧', minValue: 5.00, maxValue: 12.00, rarityIndex: 0 },
-      { name: 'Graffiti Note', icon: '🗒️', minValue: 8.00, maxValue: 18.00, rarityIndex: 1 },
-      { name: 'Keychain Key', icon: '🔑', minValue: 14.00, maxValue: 26.00, rarityIndex: 2 },
-      { name: 'Crushed Can', icon: '🥫', minValue: 22.00, maxValue: 40.00, rarityIndex: 3 },
-      { name: 'Neon Mask', icon: '🎭', minValue: 35.00, maxValue: 65.00, rarityIndex: 4 },
-      { name: 'Underground Pass', icon: '🚇', minValue: 70.00, maxValue: 130.00, rarityIndex: 5 }
-    ]
-  },
-  {
-    id: 'old_stuff',
-    name: 'Old Stuff Box',
-    icon: '🏺',
-    iconImage: '/images/cases/images/old_stuff.png',
-    price: 35.0,
-    color: '#a16207',
-    items: [
-      { name: 'Worn Coin', icon: '🪙', minValue: 8.00, maxValue: 18.00, rarityIndex: 0 },
-      { name: 'Rusty Key', icon: '🗝️', minValue: 15.00, maxValue: 28.00, rarityIndex: 1 },
-      { name: 'Old Scroll', icon: '📜', minValue: 24.00, maxValue: 45.00, rarityIndex: 2 },
-      { name: 'Ancient Compass', icon: '🧭', minValue: 38.00, maxValue: 70.00, rarityIndex: 3 },
-      { name: 'Broken Relic', icon: '🪨', minValue: 65.00, maxValue: 120.00, rarityIndex: 4 },
-      { name: 'Forgotten Medallion', icon: '🏺', minValue: 130.00, maxValue: 250.00, rarityIndex: 5 }
-    ]
-  },
-  {
-    id: 'toy_box',
-    name: 'Toy Box',
-    icon: '🧸',
-    iconImage: '/images/cases/images/toy_box.png',
-    price: 48.0,
-    color: '#ec4899',
-    items: [
-      { name: 'Blue Bunny Plush', icon: '🐰', minValue: 12.00, maxValue: 25.00, rarityIndex: 0 },
-      { name: 'Heart Emoji Ball', icon: '😍', minValue: 20.00, maxValue: 38.00, rarityIndex: 1 },
-      { name: 'Toy Dolphin', icon: '🐬', minValue: 32.00, maxValue: 60.00, rarityIndex: 2 },
-      { name: 'Holographic Stickers', icon: '✨', minValue: 50.00, maxValue: 95.00, rarityIndex: 3 },
-      { name: 'Color Spring', icon: '🌀', minValue: 85.00, maxValue: 160.00, rarityIndex: 4 },
-      { name: 'Limited Figure', icon: '🧩', minValue: 170.00, maxValue: 320.00, rarityIndex: 5 }
-    ]
-  },
-  {
-    id: 'scrap_box',
-    name: 'Scrap Box',
-    icon: '⚙️',
-    iconImage: '/images/cases/images/scrap_box.png',
-    price: 65.0,
-    color: '#525252',
-    items: [
-      { name: 'Metal Gears', icon: '⚙️', minValue: 15.00, maxValue: 32.00, rarityIndex: 0 },
-      { name: 'Old Circuit Board', icon: '🖥️', minValue: 28.00, maxValue: 52.00, rarityIndex: 1 },
-      { name: 'Bolts & Nuts', icon: '🔩', minValue: 45.00, maxValue: 85.00, rarityIndex: 2 },
-      { name: 'Brushed Metal Block', icon: '⬛', minValue: 70.00, maxValue: 135.00, rarityIndex: 3 },
-      { name: 'Alloy Core', icon: '🧊', minValue: 120.00, maxValue: 230.00, rarityIndex: 4 },
-      { name: 'Singularity Scrap', icon: '🌀', minValue: 250.00, maxValue: 480.00, rarityIndex: 5 }
-    ]
-  },
-  {
-    id: 'mixed_box',
-    name: 'Mixed Box',
-    icon: '🧳',
-    iconImage: '/images/cases/images/mixed_box.png',
-    price: 85.0,
-    color: '#22d3ee',
-    items: [
-      { name: 'Thermal Cup', icon: '☕', minValue: 20.00, maxValue: 42.00, rarityIndex: 0 },
-      { name: 'Rest Pillow', icon: '😴', minValue: 35.00, maxValue: 68.00, rarityIndex: 1 },
-      { name: 'Photo Frame', icon: '🖼️', minValue: 55.00, maxValue: 105.00, rarityIndex: 2 },
-      { name: 'Snack Container', icon: '🍱', minValue: 90.00, maxValue: 170.00, rarityIndex: 3 },
-      { name: 'Weekend Bag', icon: '👜', minValue: 150.00, maxValue: 285.00, rarityIndex: 4 },
-      { name: 'Premium Travel Kit', icon: '🧴', minValue: 300.00, maxValue: 550.00, rarityIndex: 5 }
-    ]
-  },
-  {
-    id: 'basic_gun',
-    name: 'Basic Gun',
-    icon: '🔫',
-    iconImage: '/images/cases/images/basic_gun.png',
-    price: 120.0,
-    color: '#ef4444',
-    items: [
-      { name: 'Training Pistol', icon: '🔫', minValue: 30.00, maxValue: 65.00, rarityIndex: 0 },
-      { name: 'Old Revolver', icon: '🤠', minValue: 55.00, maxValue: 110.00, rarityIndex: 1 },
-      { name: 'Rusty SMG', icon: '💥', minValue: 90.00, maxValue: 175.00, rarityIndex: 2 },
-      { name: 'Ammo Pack', icon: '📦', minValue: 140.00, maxValue: 270.00, rarityIndex: 3 },
-      { name: 'Weapon Parts', icon: '🧩', minValue: 240.00, maxValue: 450.00, rarityIndex: 4 },
-      { name: 'Collector Weapon', icon: '🎯', minValue: 500.00, maxValue: 900.00, rarityIndex: 5 }
-    ]
-  },
-  {
-    id: 'travel_box',
-    name: 'Travel Box',
-    icon: '🧭',
-    iconImage: '/images/cases/images/travel_box.png',
-    price: 175.0,
-    color: '#f97316',
-    items: [
-      { name: 'Trail Flashlight', icon: '🔦', minValue: 45.00, maxValue: 90.00, rarityIndex: 0 },
-      { name: 'Adventure Passport', icon: '📘', minValue: 75.00, maxValue: 145.00, rarityIndex: 1 },
-      { name: 'Star Map', icon: '🌌', minValue: 120.00, maxValue: 230.00, rarityIndex: 2 },
-      { name: 'Aluminum Canteen', icon: '🥤', minValue: 190.00, maxValue: 360.00, rarityIndex: 3 },
-      { name: 'Magnetic Compass', icon: '🧭', minValue: 320.00, maxValue: 600.00, rarityIndex: 4 },
-      { name: 'First Aid Kit', icon: '🩹', minValue: 650.00, maxValue: 1200.00, rarityIndex: 5 }
-    ]
-  },
-  {
-    id: 'treasure_chest',
-    name: 'Treasure Chest',
-    icon: '💎',
-    iconImage: '/images/cases/images/treasure_chest.png',
-    price: 250.0,
-    color: '#a855f7',
-    items: [
-      { name: 'Bronze Coin', icon: '🪙', minValue: 60.00, maxValue: 120.00, rarityIndex: 0 },
-      { name: 'Emerald Ring', icon: '💍', minValue: 110.00, maxValue: 210.00, rarityIndex: 1 },
-      { name: 'Sapphire Gem', icon: '💠', minValue: 180.00, maxValue: 350.00, rarityIndex: 2 },
-      { name: 'Ruby Crown', icon: '👑', minValue: 300.00, maxValue: 580.00, rarityIndex: 3 },
-      { name: 'Diamond Scepter', icon: '🔱', minValue: 550.00, maxValue: 1050.00, rarityIndex: 4 },
-      { name: 'Ancient Artifact', icon: '🏺', minValue: 1200.00, maxValue: 2500.00, rarityIndex: 5 }
-    ]
-  },
-  {
-    id: 'military_case',
-    name: 'Military Case',
-    icon: '🪖',
-    iconImage: '/images/cases/images/military_case.png',
-    price: 400.0,
-    color: '#374151',
-    items: [
-      { name: 'Military Helmet', icon: '🪖', minValue: 100.00, maxValue: 200.00, rarityIndex: 0 },
-      { name: 'Ammo Crate', icon: '📦', minValue: 180.00, maxValue: 350.00, rarityIndex: 1 },
-      { name: 'Light Rifle', icon: '🔫', minValue: 300.00, maxValue: 580.00, rarityIndex: 2 },
-      { name: 'Armored Jeep', icon: '🚙', minValue: 500.00, maxValue: 950.00, rarityIndex: 3 },
-      { name: 'Battle Tank', icon: '🛡️', minValue: 900.00, maxValue: 1700.00, rarityIndex: 4 },
-      { name: 'Fighter Jet', icon: '✈️', minValue: 2000.00, maxValue: 4000.00, rarityIndex: 5 }
-    ]
-  }
-];
-
-// Precomputed lookup (faster than linear .find on every call)
-const CASE_BY_ID = new Map(OPENING_CASES.map(c => [c.id, c]));
+// Cases e raridades vêm do catálogo versionado (app/shared/case-catalog.ts),
+// servido pelo backend via `getCatalog`. Estes helpers usam a versão ativa.
 
 // Get case by ID
 export function getCaseById(caseId: string | number | undefined): Case | undefined {
-  if (!caseId) return undefined;
-  // Most callers pass strings via dataset; normalize defensively.
-  const key = typeof caseId === 'string' ? caseId : String(caseId);
-  return CASE_BY_ID.get(key);
+  return findCatalogCase(getActiveCatalog(), caseId);
 }
 
 // Get rarity by index
 export function getRarityByIndex(index: number): Rarity {
-  return RARITIES[Math.min(index, RARITIES.length - 1)];
+  return getCatalogRarity(getActiveCatalog(), index);
 }
 
 // ============================================================
@@ -398,41 +163,48 @@ export function getRarityByIndex(index: number): Rarity {
 
 export const HUB = { x: 1200, y: 1200 };
 
+// Recompensas e alvos vêm das regras avaliadas no servidor (achievements.ts);
+// `current` é preenchido com o progresso real pela tela do skill tree
+function skillTreeRule(id: string): Pick<SkillTreeBadge, 'diamonds' | 'xp' | 'current' | 'max'> {
+  const rule = ACHIEVEMENT_RULES[id];
+  return { diamonds: rule.diamonds, xp: rule.xp, current: 0, max: rule.target };
+}
+
 export const SKILL_TREE_BADGES: Record<string, SkillTreeBadge> = {
   // BATALHAS (Vermelho)
-  'first-blood': { x: 851, y: 1384, icon: '⚔️', name: 'First Blood', desc: 'Win your first battle', requirement: '1 victory', diamonds: 10, xp: 50, category: 'battles', current: 0, max: 1 },
-  'warrior': { x: 533, y: 1317, icon: '🗡️', name: 'Warrior', desc: 'Become an experienced warrior', requirement: '50 victories', diamonds: 25, xp: 100, category: 'battles', current: 0, max: 50 },
-  'slayer': { x: 257, y: 1105, icon: '🔪', name: 'Slayer', desc: 'Dominate the battlefield', requirement: '250 victories', diamonds: 50, xp: 200, category: 'battles', current: 0, max: 250 },
-  'berserker': { x: 130, y: 781, icon: '😈', name: 'Berserker', desc: 'Fight with uncontrollable fury', requirement: '1000 victories', diamonds: 100, xp: 500, category: 'battles', current: 0, max: 1000 },
-  'titan': { x: 171, y: 362, icon: '🏔️', name: 'Titan', desc: 'A true titan of battles', requirement: '5000 victories', diamonds: 250, xp: 1000, category: 'battles', current: 0, max: 5000 },
+  'first-blood': { x: 851, y: 1384, icon: '⚔️', name: 'First Blood', desc: 'Win your first battle', requirement: '1 victory', category: 'battles', ...skillTreeRule('first-blood') },
+  'warrior': { x: 533, y: 1317, icon: '🗡️', name: 'Warrior', desc: 'Become an experienced warrior', requirement: '50 victories', category: 'battles', ...skillTreeRule('warrior') },
+  'slayer': { x: 257, y: 1105, icon: '🔪', name: 'Slayer', desc: 'Dominate the battlefield', requirement: '250 victories', category: 'battles', ...skillTreeRule('slayer') },
+  'berserker': { x: 130, y: 781, icon: '😈', name: 'Berserker', desc: 'Fight with uncontrollable fury', requirement: '1000 victories', category: 'battles', ...skillTreeRule('berserker') },
+  'titan': { x: 171, y: 362, icon: '🏔️', name: 'Titan', desc: 'A true titan of battles', requirement: '5000 victories', category: 'battles', ...skillTreeRule('titan') },
   
   // DINHEIRO (Amarelo)
-  'beggar': { x: 1412, y: 1412, icon: '💰', name: 'Beggar', desc: 'Your first earnings', requirement: '100 💰', diamonds: 10, xp: 50, category: 'money', current: 0, max: 100 },
-  'gold-digger': { x: 1603, y: 1461, icon: '⛏️', name: 'Gold Digger', desc: 'Accumulate wealth', requirement: '1000 💰', diamonds: 25, xp: 100, category: 'money', current: 0, max: 1000 },
-  'treasure-hunter': { x: 1822, y: 1437, icon: '🗺️', name: 'Treasure Hunter', desc: 'Treasure hunter', requirement: '10000 💰', diamonds: 50, xp: 200, category: 'money', current: 0, max: 10000 },
-  'fortune-seeker': { x: 2029, y: 1331, icon: '🔮', name: 'Fortune Seeker', desc: 'Seek your fortune', requirement: '50000 💰', diamonds: 100, xp: 500, category: 'money', current: 0, max: 50000 },
-  'midas': { x: 2219, y: 1253, icon: '👑', name: 'Midas', desc: 'Everything you touch turns to gold', requirement: '1000000 💰', diamonds: 500, xp: 2000, category: 'money', current: 0, max: 1000000 },
+  'beggar': { x: 1412, y: 1412, icon: '💰', name: 'Beggar', desc: 'Your first earnings', requirement: '100 💰', category: 'money', ...skillTreeRule('beggar') },
+  'gold-digger': { x: 1603, y: 1461, icon: '⛏️', name: 'Gold Digger', desc: 'Accumulate wealth', requirement: '1000 💰', category: 'money', ...skillTreeRule('gold-digger') },
+  'treasure-hunter': { x: 1822, y: 1437, icon: '🗺️', name: 'Treasure Hunter', desc: 'Treasure hunter', requirement: '10000 💰', category: 'money', ...skillTreeRule('treasure-hunter') },
+  'fortune-seeker': { x: 2029, y: 1331, icon: '🔮', name: 'Fortune Seeker', desc: 'Seek your fortune', requirement: '50000 💰', category: 'money', ...skillTreeRule('fortune-seeker') },
+  'midas': { x: 2219, y: 1253, icon: '👑', name: 'Midas', desc: 'Everything you touch turns to gold', requirement: '1000000 💰', category: 'money', ...skillTreeRule('midas') },
   
   // CASES (Roxo)
-  'curious': { x: 1359, y: 943, icon: '🔍', name: 'Curious', desc: 'Your first case', requirement: '10 cases', diamonds: 10, xp: 50, category: 'cases', current: 0, max: 10 },
-  'unlocksmith': { x: 1406, y: 629, icon: '🔓', name: 'Unlocksmith', desc: 'Master of keys', requirement: '100 cases', diamonds: 25, xp: 100, category: 'cases', current: 0, max: 100 },
-  'loot-master': { x: 1378, y: 371, icon: '🎁', name: 'Loot Master', desc: 'Master the art of loot', requirement: '1000 cases', diamonds: 50, xp: 200, category: 'cases', current: 0, max: 1000 },
-  'key-collector': { x: 1219, y: 190, icon: '🗝️', name: 'Key Collector', desc: 'Key collector', requirement: '15000 cases', diamonds: 100, xp: 500, category: 'cases', current: 0, max: 15000 },
-  'pandora': { x: 911, y: 76, icon: '📦', name: 'Pandora', desc: "Open Pandora's box", requirement: '100000 cases', diamonds: 500, xp: 2000, category: 'cases', current: 0, max: 100000 },
+  'curious': { x: 1359, y: 943, icon: '🔍', name: 'Curious', desc: 'Your first case', requirement: '10 cases', category: 'cases', ...skillTreeRule('curious') },
+  'unlocksmith': { x: 1406, y: 629, icon: '🔓', name: 'Unlocksmith', desc: 'Master of keys', requirement: '100 cases', category: 'cases', ...skillTreeRule('unlocksmith') },
+  'loot-master': { x: 1378, y: 371, icon: '🎁', name: 'Loot Master', desc: 'Master the art of loot', requirement: '1000 cases', category: 'cases', ...skillTreeRule('loot-master') },
+  'key-collector': { x: 1219, y: 190, icon: '🗝️', name: 'Key Collector', desc: 'Key collector', requirement: '15000 cases', category: 'cases', ...skillTreeRule('key-collector') },
+  'pandora': { x: 911, y: 76, icon: '📦', name: 'Pandora', desc: "Open Pandora's box", requirement: '100000 cases', category: 'cases', ...skillTreeRule('pandora') },
   
   // LEVEL (Ciano)
-  'novice': { x: 1486, y: 1092, icon: '🎓', name: 'Novice', desc: 'Your first steps', requirement: 'Level 5', diamonds: 10, xp: 50, category: 'level', current: 0, max: 5 },
-  'mage': { x: 1683, y: 984, icon: '🔮', name: 'Mage', desc: 'Become a mage', requirement: 'Level 25', diamonds: 25, xp: 100, category: 'level', current: 0, max: 25 },
-  'warlock': { x: 1813, y: 835, icon: '🧙', name: 'Warlock', desc: 'Master black magic', requirement: 'Level 50', diamonds: 50, xp: 200, category: 'level', current: 0, max: 50 },
-  'ascendant': { x: 1876, y: 610, icon: '⚡', name: 'Ascendant', desc: 'Ascend to a new level', requirement: 'Level 75', diamonds: 100, xp: 500, category: 'level', current: 0, max: 75 },
-  'enlightened': { x: 1822, y: 381, icon: '🌟', name: 'Enlightened', desc: 'Achieve enlightenment', requirement: 'Level 100', diamonds: 500, xp: 2000, category: 'level', current: 0, max: 100 },
+  'novice': { x: 1486, y: 1092, icon: '🎓', name: 'Novice', desc: 'Your first steps', requirement: 'Level 5', category: 'level', ...skillTreeRule('novice') },
+  'mage': { x: 1683, y: 984, icon: '🔮', name: 'Mage', desc: 'Become a mage', requirement: 'Level 25', category: 'level', ...skillTreeRule('mage') },
+  'warlock': { x: 1813, y: 835, icon: '🧙', name: 'Warlock', desc: 'Master black magic', requirement: 'Level 50', category: 'level', ...skillTreeRule('warlock') },
+  'ascendant': { x: 1876, y: 610, icon: '⚡', name: 'Ascendant', desc: 'Ascend to a new level', requirement: 'Level 75', category: 'level', ...skillTreeRule('ascendant') },
+  'enlightened': { x: 1822, y: 381, icon: '🌟', name: 'Enlightened', desc: 'Achieve enlightenment', requirement: 'Level 100', category: 'level', ...skillTreeRule('enlightened') },
   
   // COLETOR (Verde)
-  'collector': { x: 1070, y: 1483, icon: '🎯', name: 'Collector', desc: 'Start your collection', requirement: '5 badges', diamonds: 10, xp: 50, category: 'collector', current: 0, max: 5 },
-  'gatherer': { x: 1219, y: 1749, icon: '📚', name: 'Gatherer', desc: 'Gather knowledge', requirement: '15 badges', diamonds: 25, xp: 100, category: 'collector', current: 0, max: 15 },
-  'achievement-hunter': { x: 1527, y: 1851, icon: '🏅', name: 'Achievement Hunter', desc: 'Achievement hunter', requirement: '25 badges', diamonds: 50, xp: 200, category: 'collector', current: 0, max: 25 },
-  'trophy-master': { x: 1844, y: 1806, icon: '🏆', name: 'Trophy Master', desc: 'Master of trophies', requirement: '35 badges', diamonds: 100, xp: 500, category: 'collector', current: 0, max: 35 },
-  'chosen-one': { x: 2092, y: 1692, icon: '👑', name: 'The Chosen One', desc: 'The chosen among all', requirement: '50 badges', diamonds: 1000, xp: 5000, category: 'collector', current: 0, max: 50 }
+  'collector': { x: 1070, y: 1483, icon: '🎯', name: 'Collector', desc: 'Start your collection', requirement: '5 badges', category: 'collector', ...skillTreeRule('collector') },
+  'gatherer': { x: 1219, y: 1749, icon: '📚', name: 'Gatherer', desc: 'Gather knowledge', requirement: '15 badges', category: 'collector', ...skillTreeRule('gatherer') },
+  'achievement-hunter': { x: 1527, y: 1851, icon: '🏅', name: 'Achievement Hunter', desc: 'Achievement hunter', requirement: '25 badges', category: 'collector', ...skillTreeRule('achievement-hunter') },
+  'trophy-master': { x: 1844, y: 1806, icon: '🏆', name: 'Trophy Master', desc: 'Master of trophies', requirement: '35 badges', category: 'collector', ...skillTreeRule('trophy-master') },
+  'chosen-one': { x: 2092, y: 1692, icon: '👑', name: 'The Chosen One', desc: 'The chosen among all', requirement: '50 badges', category: 'collector', ...skillTreeRule('chosen-one') }
 };
 
 export const SKILL_TREE_CATEGORIES: Record<string, SkillTreeCategory> = {
@@ -455,9 +227,7 @@ export const BADGE_DEFINITIONS: BadgeDefinition[] = [
     nameKey: 'badge_starter',
     desc: 'Join 1 battle',
     descKey: 'badge_starter_desc',
-    requirement: (stats: BadgeStats) => (stats.total_battles ?? 0) >= 1,
-    diamonds: 10,
-    xp: 50
+    ...ACHIEVEMENT_RULES['starter']
   },
   { 
     id: 'lucky',
@@ -466,9 +236,7 @@ export const BADGE_DEFINITIONS: BadgeDefinition[] = [
     nameKey: 'badge_lucky',
     desc: 'Win 5 battles',
     descKey: 'badge_lucky_desc',
-    requirement: (stats: BadgeStats) => (stats.total_wins ?? 0) >= 5,
-    diamonds: 10,
-    xp: 100
+    ...ACHIEVEMENT_RULES['lucky']
   },
   { 
     id: 'veteran',
@@ -477,9 +245,7 @@ export const BADGE_DEFINITIONS: BadgeDefinition[] = [
     nameKey: 'badge_veteran',
     desc: 'Join 50 battles',
     descKey: 'badge_veteran_desc',
-    requirement: (stats: BadgeStats) => (stats.total_battles ?? 0) >= 50,
-    diamonds: 10,
-    xp: 200
+    ...ACHIEVEMENT_RULES['veteran']
   },
   { 
     id: 'rich',
@@ -488,9 +254,7 @@ export const BADGE_DEFINITIONS: BadgeDefinition[] = [
     nameKey: 'badge_rich',
     desc: 'Have 1000 💰',
     descKey: 'badge_rich_desc',
-    requirement: (stats: BadgeStats) => (stats.money ?? 0) >= 1000,
-    diamonds: 25,
-    xp: 300
+    ...ACHIEVEMENT_RULES['rich']
   },
   { 
     id: 'champion',
@@ -499,9 +263,7 @@ export const BADGE_DEFINITIONS: BadgeDefinition[] = [
     nameKey: 'badge_champion',
     desc: 'Win 20 battles',
     descKey: 'badge_champion_desc',
-    requirement: (stats: BadgeStats) => (stats.total_wins ?? 0) >= 20,
-    diamonds: 25,
-    xp: 400
+    ...ACHIEVEMENT_RULES['champion']
   },
   { 
     id: 'legendary',
@@ -510,9 +272,7 @@ export const BADGE_DEFINITIONS: BadgeDefinition[] = [
     nameKey: 'badge_legendary',
     desc: 'Reach level 10',
     descKey: 'badge_legendary_desc',
-    requirement: (stats: BadgeStats) => (stats.level ?? 0) >= 10,
-    diamonds: 50,
-    xp: 500
+    ...ACHIEVEMENT_RULES['legendary']
   },
   { 
     id: 'highroller',
@@ -521,9 +281,7 @@ export const BADGE_DEFINITIONS: BadgeDefinition[] = [
     nameKey: 'badge_highroller',
     desc: 'Spend 10,000 💰 on cases',
     descKey: 'badge_highroller_desc',
-    requirement: (stats: BadgeStats) => (stats.total_spent ?? 0) >= 10000,
-    diamonds: 50,
-    xp: 750
+    ...ACHIEVEMENT_RULES['highroller']
   },
   { 
     id: 'jackpot',
@@ -532,9 +290,7 @@ export const BADGE_DEFINITIONS: BadgeDefinition[] = [
     nameKey: 'badge_jackpot',
     desc: 'Win an item worth more than 5,000 💰',
     descKey: 'badge_jackpot_desc',
-    requirement: (stats: BadgeStats) => (stats.best_drop ?? 0) >= 5000,
-    diamonds: 75,
-    xp: 1000
+    ...ACHIEVEMENT_RULES['jackpot']
   },
   { 
     id: 'ultimate',
@@ -543,13 +299,7 @@ export const BADGE_DEFINITIONS: BadgeDefinition[] = [
     nameKey: 'badge_ultimate',
     desc: 'Collect all other badges',
     descKey: 'badge_ultimate_desc',
-    requirement: (stats: BadgeStats) => {
-      const collected = stats.collected_badges || [];
-      const mainBadges = BADGE_DEFINITIONS.slice(0, 8);
-      return mainBadges.every(b => collected.includes(b.id));
-    },
-    diamonds: 100,
-    xp: 2000
+    ...ACHIEVEMENT_RULES['ultimate']
   }
 ];
 
@@ -663,14 +413,12 @@ export function canOpenQuantity(ownedPasses: string[], quantity: number): boolea
 // ============================================================
 declare global {
   interface Window {
-    RARITIES: typeof RARITIES;
     PAYMENT_CONFIG: typeof PAYMENT_CONFIG;
     PASSES_CONFIG: typeof PASSES_CONFIG;
   }
 }
 
 if (typeof window !== 'undefined') {
-  window.RARITIES = RARITIES;
   window.PAYMENT_CONFIG = PAYMENT_CONFIG;
   window.PASSES_CONFIG = PASSES_CONFIG;
 }
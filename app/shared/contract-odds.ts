@@ -0,0 +1,130 @@
+// ============================================================
+// CONTRACT-ODDS.TS - Contratos: N itens de uma raridade → 1 da próxima
+// ============================================================
+// Compartilhado entre o backend (api/_caseopening.ts, action executeContract)
+// e o inventário, para que o preview de resultados possíveis seja exatamente
+// o sorteio feito no servidor e qualquer contrato possa ser reproduzido a
+// partir do master seed (mesmo par server/client seed + nonce das aberturas).
+//
+// O item sorteado é da raridade seguinte, com peso por case proporcional a
+// quantos itens de entrada vieram dela (`case_name`). O valor do resultado é
+// o valor somado das entradas × um multiplicador uniforme e simétrico em
+// [1 - CONTRACT_VALUE_SPREAD, 1 + CONTRACT_VALUE_SPREAD]: o valor esperado
+// é exatamente o das entradas e o resultado fica sempre dentro desse limite.
+
+import { seededInt } from './case-rng.js';
+import type { CaseCatalog, CatalogCase, CatalogItem } from './case-catalog.js';
+
+export const CONTRACT_INPUT_COUNT = 10;
+export const CONTRACT_VALUE_SPREAD = 0.2;
+const CONTRACT_VALUE_STEPS = 100;
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface ContractInput {
+  rarity: string;
+  value: number;
+  case_name?: string | null;
+}
+
+export interface ContractCandidate {
+  caseData: CatalogCase;
+  item: CatalogItem;
+  chance: number;
+}
+
+export interface ContractOutcome {
+  caseData: CatalogCase;
+  item: CatalogItem;
+  rarityIndex: number;
+  multiplier: number;
+  value: number;
+}
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+/**
+ * Raridade de saída do contrato, ou null se as entradas não formam um
+ * contrato válido (quantidade errada, raridades misturadas ou já no topo).
+ */
+export function getContractTargetRarity(catalog: CaseCatalog, inputs: ContractInput[]): number | null {
+  if (inputs.length !== CONTRACT_INPUT_COUNT) return null;
+  const rarityName = inputs[0].rarity;
+  if (!inputs.every(input => input.rarity === rarityName)) return null;
+
+  const index = catalog.rarities.findIndex(rarity => rarity.name === rarityName);
+  if (index < 0 || index >= catalog.rarities.length - 1) return null;
+  return index + 1;
+}
+
+export function getContractInputValue(inputs: ContractInput[]): number {
+  return parseFloat(inputs.reduce((sum, input) => sum + (Number(input.value) || 0), 0).toFixed(2));
+}
+
+// ============================================================
+// POOL
+// ============================================================
+
+function getWeightedCases(catalog: CaseCatalog, rarityIndex: number, inputs: ContractInput[]) {
+  const eligible = catalog.cases
+    .map(caseData => ({ caseData, items: caseData.items.filter(item => item.rarityIndex === rarityIndex) }))
+    .filter(entry => entry.items.length > 0);
+
+  const weighted = eligible.map(entry => ({
+    ...entry,
+    weight: inputs.filter(input => input.case_name === entry.caseData.name).length
+  }));
+
+  // Nenhuma case de origem tem itens da próxima raridade: todas pesam igual
+  if (!weighted.some(entry => entry.weight > 0)) {
+    return weighted.map(entry => ({ ...entry, weight: 1 }));
+  }
+  return weighted.filter(entry => entry.weight > 0);
+}
+
+/**
+ * Itens possíveis do contrato com a chance de cada um (0-1).
+ */
+export function getContractCandidates(catalog: CaseCatalog, inputs: ContractInput[]): ContractCandidate[] {
+  const rarityIndex = getContractTargetRarity(catalog, inputs);
+  if (rarityIndex === null) return [];
+
+  const cases = getWeightedCases(catalog, rarityIndex, inputs);
+  const totalWeight = cases.reduce((sum, entry) => sum + entry.weight, 0);
+
+  return cases.flatMap(entry => entry.items.map(item => ({
+    caseData: entry.caseData,
+    item,
+    chance: entry.weight / totalWeight / entry.items.length
+  })));
+}
+
+// ============================================================
+// ROLL
+// ============================================================
+
+/**
+ * Sorteia o resultado do contrato a partir do master seed.
+ */
+export function rollContract(catalog: CaseCatalog, inputs: ContractInput[], masterSeed: string): ContractOutcome | null {
+  const rarityIndex = getContractTargetRarity(catalog, inputs);
+  if (rarityIndex === null) return null;
+
+  const cases = getWeightedCases(catalog, rarityIndex, inputs);
+  if (!cases.length) return null;
+
+  const totalWeight = cases.reduce((sum, entry) => sum + entry.weight, 0);
+  let caseRoll = seededInt(`${masterSeed}:contract:case`, totalWeight);
+  const chosen = cases.find(entry => (caseRoll -= entry.weight) < 0) || cases[cases.length - 1];
+  const item = chosen.items[seededInt(`${masterSeed}:contract:item`, chosen.items.length)];
+
+  const step = seededInt(`${masterSeed}:contract:value`, CONTRACT_VALUE_STEPS * 2 + 1);
+  const multiplier = 1 - CONTRACT_VALUE_SPREAD + (step / CONTRACT_VALUE_STEPS) * CONTRACT_VALUE_SPREAD;
+  const value = parseFloat((getContractInputValue(inputs) * multiplier).toFixed(2));
+
+  return { caseData: chosen.caseData, item, rarityIndex, multiplier, value };
+}
@@ -0,0 +1,184 @@
+// ============================================================
+// DAILY-REWARDS.TS - Calendário de login diário, streak e congelamentos
+// ============================================================
+// Compartilhado entre o backend (api/_dailyrewards.ts, que valida e entrega
+// os resgates) e a tela /daily-rewards. O dia de resgate é sempre o dia UTC
+// do servidor, nunca o relógio do cliente: cada jogador tem um único dia de
+// resgate por vez, independente do fuso. A janela de tolerância cobre quem
+// joga à noite em fusos negativos e passa alguns minutos da virada UTC.
+//
+// Recompensas: o calendário de 7 dias se repete ao longo do ciclo de 30
+// dias, com multiplicador crescente por semana e bônus nos marcos
+// (dias 7, 14, 21 e 30). Depois do dia 30 o ciclo recomeça, mas a streak
+// continua contando.
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type DailyReward =
+  | { type: 'money'; amount: number }
+  | { type: 'diamonds'; amount: number }
+  | { type: 'pass'; passId: string };
+
+export interface DailyCalendarDay {
+  day: number;
+  rewards: DailyReward[];
+  milestone: boolean;
+}
+
+export interface StreakResolution {
+  streak: number;
+  freezesUsed: number;
+  missedDays: number;
+  broken: boolean;
+}
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+export const DAILY_WEEK_LENGTH = 7;
+export const DAILY_CYCLE_LENGTH = 30;
+
+// Horas após a virada UTC em que um dia perdido ainda não quebra a streak
+export const STREAK_GRACE_HOURS = 6;
+
+export const STREAK_FREEZE_PRICE = 50; // diamantes
+export const STREAK_FREEZE_MAX = 3;
+
+// Pass que o jogador já tem é convertido em diamantes
+export const DAILY_DUPLICATE_PASS_DIAMONDS = 25;
+
+// Calendário base de 7 dias
+const WEEK_REWARDS: DailyReward[] = [
+  { type: 'money', amount: 0.5 },
+  { type: 'money', amount: 1 },
+  { type: 'diamonds', amount: 5 },
+  { type: 'money', amount: 2 },
+  { type: 'diamonds', amount: 10 },
+  { type: 'money', amount: 3 },
+  { type: 'diamonds', amount: 20 }
+];
+
+// Multiplicador por semana do ciclo (semana 1..5; os dias 29-30 usam a 5ª)
+const WEEK_MULTIPLIERS = [1, 1.5, 2, 2.5, 3];
+
+// Bônus dos marcos do ciclo de 30 dias
+const MILESTONE_REWARDS: Record<number, DailyReward> = {
+  7: { type: 'diamonds', amount: 25 },
+  14: { type: 'pass', passId: 'quick_roll' },
+  21: { type: 'money', amount: 10 },
+  30: { type: 'pass', passId: 'multi_2x' }
+};
+
+const DAY_MS = 86_400_000;
+
+// ============================================================
+// CALENDAR
+// ============================================================
+
+function scaleReward(reward: DailyReward, multiplier: number): DailyReward {
+  switch (reward.type) {
+    case 'money':
+      return { type: 'money', amount: Math.round(reward.amount * multiplier * 100) / 100 };
+    case 'diamonds':
+      return { type: 'diamonds', amount: Math.round(reward.amount * multiplier) };
+    case 'pass':
+      return reward;
+  }
+}
+
+/**
+ * Posição (1..30) de uma streak no ciclo de 30 dias.
+ */
+export function getCycleDay(streak: number): number {
+  return ((Math.max(1, Math.floor(streak)) - 1) % DAILY_CYCLE_LENGTH) + 1;
+}
+
+/**
+ * Recompensas do resgate que leva a streak ao valor informado.
+ */
+export function getDailyRewards(streak: number): DailyReward[] {
+  const day = getCycleDay(streak);
+  const week = Math.floor((day - 1) / DAILY_WEEK_LENGTH);
+  const base = WEEK_REWARDS[(day - 1) % DAILY_WEEK_LENGTH];
+  const rewards = [scaleReward(base, WEEK_MULTIPLIERS[Math.min(week, WEEK_MULTIPLIERS.length - 1)])];
+
+  const milestone = MILESTONE_REWARDS[day];
+  if (milestone) rewards.push(milestone);
+  return rewards;
+}
+
+export const DAILY_CALENDAR: DailyCalendarDay[] = Array.from({ length: DAILY_CYCLE_LENGTH }, (_, i) => ({
+  day: i + 1,
+  rewards: getDailyRewards(i + 1),
+  milestone: Boolean(MILESTONE_REWARDS[i + 1])
+}));
+
+/**
+ * Semana (7 dias) do ciclo que contém cycleDay, para a faixa de 7 dias.
+ */
+export function getCalendarWeek(cycleDay: number): DailyCalendarDay[] {
+  const start = Math.floor((getCycleDay(cycleDay) - 1) / DAILY_WEEK_LENGTH) * DAILY_WEEK_LENGTH;
+  return DAILY_CALENDAR.slice(start, start + DAILY_WEEK_LENGTH);
+}
+
+// ============================================================
+// DAYS & STREAK
+// ============================================================
+
+/**
+ * Dia UTC (YYYY-MM-DD) do instante informado.
+ */
+export function getUtcDayKey(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function getNextUtcDayStart(date: Date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1));
+}
+
+export function daysBetweenDayKeys(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+/**
+ * Calcula a streak do resgate de hoje a partir do último resgate. Dias
+ * perdidos são cobertos primeiro pela janela de tolerância (no máximo um
+ * dia, nas primeiras STREAK_GRACE_HOURS do dia UTC) e depois por
+ * congelamentos; se não bastarem, a streak recomeça em 1.
+ */
+export function resolveStreak(
+  lastClaim: { claimDate: string; streak: number } | null,
+  now: Date,
+  availableFreezes: number
+): StreakResolution {
+  if (!lastClaim) {
+    return { streak: 1, freezesUsed: 0, missedDays: 0, broken: false };
+  }
+
+  const missedDays = Math.max(0, daysBetweenDayKeys(lastClaim.claimDate, getUtcDayKey(now)) - 1);
+  const hoursIntoDay = now.getUTCHours() + now.getUTCMinutes() / 60;
+  const coveredByGrace = missedDays > 0 && hoursIntoDay < STREAK_GRACE_HOURS ? 1 : 0;
+  const uncovered = missedDays - coveredByGrace;
+
+  if (uncovered === 0) {
+    return { streak: lastClaim.streak + 1, freezesUsed: 0, missedDays, broken: false };
+  }
+  if (uncovered <= Math.max(0, availableFreezes)) {
+    return { streak: lastClaim.streak + 1, freezesUsed: uncovered, missedDays, broken: false };
+  }
+  return { streak: 1, freezesUsed: 0, missedDays, broken: true };
+}
+
+export function describeDailyReward(reward: DailyReward): string {
+  switch (reward.type) {
+    case 'money':
+      return `$${reward.amount.toFixed(2)}`;
+    case 'diamonds':
+      return `${reward.amount} 💎`;
+    case 'pass':
+      return `Pass: ${reward.passId}`;
+  }
+}
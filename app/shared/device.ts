@@ -0,0 +1,28 @@
+// ============================================================
+// DEVICE.TS - Identificação de dispositivo
+// ============================================================
+// O cliente gera um id aleatório por instalação (security-manager guarda no
+// localStorage) e o grava em `active_devices.device_hash`. O backend recebe
+// o mesmo id nas aberturas de cases grátis (regras anti-abuso); ids fora do
+// formato, como os hashes de user agent antigos, são ignorados.
+
+const DEVICE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+/**
+ * Extrai nome do navegador do User Agent
+ */
+export function extractBrowserName(userAgent: string): string {
+  if (/Chrome/.test(userAgent)) return 'Chrome';
+  if (/Safari/.test(userAgent)) return 'Safari';
+  if (/Firefox/.test(userAgent)) return 'Firefox';
+  if (/Edge|Edg/.test(userAgent)) return 'Edge';
+  if (/Opera|OPR/.test(userAgent)) return 'Opera';
+  return 'Unknown';
+}
+
+/**
+ * Id de instalação válido (UUID v4 em minúsculas)?
+ */
+export function isValidDeviceId(value: unknown): value is string {
+  return typeof value === 'string' && DEVICE_ID_PATTERN.test(value);
+}
@@ -4,6 +4,8 @@
 
 import { playSound } from './sfx';
 import { ErrorHandler, ErrorCategory, ErrorSeverity } from './error-handler';
+import { seededRandom as hmacSeededRandom } from './case-rng';
+import { formatNumber, getLocale } from './i18n';
 
 // ============ TYPE DEFINITIONS ============
 
@@ -456,7 +458,7 @@ export function showSellConfirmation(count: number, total: number): void {
   if (soldCount) soldCount.textContent = String(count);
   if (soldTotal) {
     soldTotal.textContent = 
-      total.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }) + ' 💰';
+      formatNumber(total, { minimumFractionDigits: 2, maximumFractionDigits: 2 }) + ' 💰';
   }
   
   modal.classList.add('active');
@@ -491,7 +493,7 @@ export function formatDateTime(isoString: string): string {
     minute: '2-digit',
     timeZoneName: 'short'
   };
-  return date.toLocaleString('en-US', options);
+  return date.toLocaleString(getLocale(), options);
 }
 
 /**
@@ -508,18 +510,12 @@ export function hexToRgb(hex: string): RGB {
 }
 
 /**
- * Gera um número aleatório com seed (determinístico)
+ * Gera um número aleatório com seed (determinístico, HMAC-SHA256)
  * @param seed - Seed para geração
  * @returns Número entre 0 e 1
  */
 export function seededRandom(seed: string): number {
-  let hash = 0;
-  for (let i = 0; i < seed.length; i++) {
-    hash = ((hash << 5) - hash) + seed.charCodeAt(i);
-    hash = hash & hash;
-  }
-  const x = Math.sin(hash) * 10000;
-  return x - Math.floor(x);
+  return hmacSeededRandom(seed);
 }
 
 /**
@@ -604,18 +600,19 @@ export function sanitizeHTML(str: string): string {
 }
 
 /**
- * Formata número como moeda
+ * Formata número como moeda, no formato do idioma ativo (ver i18n.ts).
+ * As casas decimais seguem a moeda (ex: 2 para USD/BRL/EUR, 0 para JPY).
  * @param value - Valor numérico
- * @param currency - Código da moeda (USD, BRL, etc)
+ * @param currency - Código ISO 4217 da moeda (USD, BRL, EUR, etc)
  * @returns Valor formatado
  */
 export function formatCurrency(value: number, currency: string = 'USD'): string {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: currency,
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2
-  }).format(value);
+  try {
+    return formatNumber(value, { style: 'currency', currency: currency.toUpperCase() });
+  } catch {
+    // Código de moeda inválido: mostra o valor com o código ao lado
+    return `${formatNumber(value, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+  }
 }
 
 /**
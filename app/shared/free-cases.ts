@@ -0,0 +1,133 @@
+// ============================================================
+// FREE-CASES.TS - Case grátis diário e cases grátis por nível
+// ============================================================
+// Compartilhado entre o backend (api/_caseopening.ts: `getFreeCases` e
+// `openFreeCase`, que aplicam nível, cooldown e regras anti-abuso) e a
+// galeria, que só exibe o status e a contagem regressiva.
+//
+// Os cases grátis ficam fora do catálogo versionado: não têm preço, não
+// entram em batalhas e usam pools próprios de itens baratos. O roll usa o
+// mesmo seed provably fair das aberturas pagas (com as raridades do
+// catálogo ativo), então pode ser verificado pelo mesmo formulário.
+
+import type { CatalogCase } from './case-catalog.js';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface FreeCase extends CatalogCase {
+  // Nível mínimo para liberar o case (1 = case diário de todas as contas)
+  minLevel: number;
+  // Tempo entre duas aberturas do mesmo case pela mesma conta
+  cooldownHours: number;
+}
+
+/**
+ * Status de um case grátis para o jogador (resposta de `getFreeCases`).
+ */
+export interface FreeCaseStatus extends FreeCase {
+  unlocked: boolean;
+  // null = disponível agora
+  nextAvailableAt: string | null;
+}
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+export const FREE_CASES: FreeCase[] = [
+  {
+    id: 'free_daily',
+    name: 'Daily Free Case',
+    icon: '🎁',
+    iconImage: '',
+    price: 0,
+    color: '#22c55e',
+    minLevel: 1,
+    cooldownHours: 24,
+    items: [
+      { name: 'Bottle Cap', icon: '🧢', minValue: 0.01, maxValue: 0.05, rarityIndex: 0 },
+      { name: 'Paper Clip', icon: '📎', minValue: 0.01, maxValue: 0.08, rarityIndex: 0 },
+      { name: 'Lucky Penny', icon: '🪙', minValue: 0.05, maxValue: 0.15, rarityIndex: 1 },
+      { name: 'Pocket Dice', icon: '🎲', minValue: 0.10, maxValue: 0.30, rarityIndex: 1 },
+      { name: 'Silver Ticket', icon: '🎟️', minValue: 0.25, maxValue: 0.60, rarityIndex: 2 }
+    ]
+  },
+  {
+    id: 'free_level_10',
+    name: 'Level 10 Free Case',
+    icon: '🎒',
+    iconImage: '',
+    price: 0,
+    color: '#3b82f6',
+    minLevel: 10,
+    cooldownHours: 24,
+    items: [
+      { name: 'Old Keychain', icon: '🔑', minValue: 0.05, maxValue: 0.15, rarityIndex: 0 },
+      { name: 'Sticker Pack', icon: '🏷️', minValue: 0.05, maxValue: 0.20, rarityIndex: 0 },
+      { name: 'Mini Compass', icon: '🧭', minValue: 0.15, maxValue: 0.40, rarityIndex: 1 },
+      { name: 'Brass Lighter', icon: '🔥', minValue: 0.30, maxValue: 0.80, rarityIndex: 2 },
+      { name: 'Gold Token', icon: '🏅', minValue: 0.75, maxValue: 1.50, rarityIndex: 3 }
+    ]
+  },
+  {
+    id: 'free_level_25',
+    name: 'Level 25 Free Case',
+    icon: '🧳',
+    iconImage: '',
+    price: 0,
+    color: '#a855f7',
+    minLevel: 25,
+    cooldownHours: 48,
+    items: [
+      { name: 'Worn Bandana', icon: '🧣', minValue: 0.10, maxValue: 0.30, rarityIndex: 0 },
+      { name: 'Field Radio', icon: '📻', minValue: 0.20, maxValue: 0.50, rarityIndex: 1 },
+      { name: 'Night Lamp', icon: '🏮', minValue: 0.40, maxValue: 1.00, rarityIndex: 1 },
+      { name: 'Steel Watch', icon: '⌚', minValue: 0.80, maxValue: 1.80, rarityIndex: 2 },
+      { name: 'Crystal Shard', icon: '💠', minValue: 1.50, maxValue: 3.00, rarityIndex: 3 }
+    ]
+  },
+  {
+    id: 'free_level_50',
+    name: 'Level 50 Free Case',
+    icon: '👑',
+    iconImage: '',
+    price: 0,
+    color: '#eab308',
+    minLevel: 50,
+    cooldownHours: 72,
+    items: [
+      { name: 'Veteran Patch', icon: '🎖️', minValue: 0.25, maxValue: 0.60, rarityIndex: 0 },
+      { name: 'Signal Flare', icon: '🧨', minValue: 0.50, maxValue: 1.20, rarityIndex: 1 },
+      { name: 'Silver Chalice', icon: '🏆', minValue: 1.00, maxValue: 2.50, rarityIndex: 2 },
+      { name: 'Royal Seal', icon: '📜', minValue: 2.00, maxValue: 4.00, rarityIndex: 3 },
+      { name: 'Golden Crown', icon: '👑', minValue: 3.50, maxValue: 6.00, rarityIndex: 4 }
+    ]
+  }
+];
+
+const HOUR_MS = 3_600_000;
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+export function getFreeCase(caseId: unknown): FreeCase | undefined {
+  return FREE_CASES.find(c => c.id === caseId);
+}
+
+export function getFreeCaseCooldownMs(freeCase: FreeCase): number {
+  return freeCase.cooldownHours * HOUR_MS;
+}
+
+/**
+ * Próxima abertura liberada depois de `lastOpenedAt`, ou null se já passou.
+ */
+export function getFreeCaseNextAvailable(freeCase: FreeCase, lastOpenedAt: string | null | undefined, now: number = Date.now()): string | null {
+  const last = lastOpenedAt ? Date.parse(lastOpenedAt) : NaN;
+  if (!Number.isFinite(last)) return null;
+
+  const next = last + getFreeCaseCooldownMs(freeCase);
+  return next > now ? new Date(next).toISOString() : null;
+}
@@ -0,0 +1,288 @@
+// ============================================================
+// I18N.TS - Catálogos de mensagens, plural e formatação por idioma
+// ============================================================
+// Os textos de interface vêm de catálogos estáticos em app/shared/locales,
+// carregados sob demanda (um chunk por idioma). Elementos com
+// `data-translate` usam o próprio texto em inglês como chave, ou a chave
+// explícita em `data-translate="..."`. Chaves ausentes seguem a cadeia de
+// fallback (es-MX → es → en → texto original) e ficam registradas no
+// relatório de chaves faltando (window.getMissingTranslations()).
+// Auditoria estática dos catálogos: npm run i18n:check
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type Locale = 'en' | 'pt-BR' | 'es';
+
+export type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+
+/**
+ * Mensagem com plural: a forma é escolhida por Intl.PluralRules a partir de
+ * params.count; 'other' é obrigatória.
+ */
+export type PluralMessage = Partial<Record<PluralCategory, string>> & { other: string };
+
+export type CatalogMessage = string | PluralMessage;
+
+export type MessageCatalog = Record<string, CatalogMessage>;
+
+export type MessageParams = Record<string, string | number>;
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+export const DEFAULT_LOCALE: Locale = 'en';
+export const SUPPORTED_LOCALES: Locale[] = ['en', 'pt-BR', 'es'];
+export const LANGUAGE_STORAGE_KEY = 'language';
+
+// Um import dinâmico por idioma: o Vite gera um chunk separado para cada
+const CATALOG_LOADERS: Record<Locale, () => Promise<MessageCatalog>> = {
+  'en': () => import('./locales/en').then(m => m.default),
+  'pt-BR': () => import('./locales/pt-BR').then(m => m.default),
+  'es': () => import('./locales/es').then(m => m.default)
+};
+
+// Cache antigo da tradução automática (removido na inicialização)
+const LEGACY_TRANSLATION_CACHE_KEY = 'translationCache_v1';
+
+// ============================================================
+// STATE
+// ============================================================
+
+const catalogs: Partial<Record<Locale, MessageCatalog>> = {};
+const catalogPromises: Partial<Record<Locale, Promise<MessageCatalog>>> = {};
+const missingKeys: Partial<Record<Locale, Set<string>>> = {};
+
+let currentLocale: Locale = DEFAULT_LOCALE;
+let fallbackChain: Locale[] = [DEFAULT_LOCALE];
+const pluralRulesCache = new Map<Locale, Intl.PluralRules>();
+
+// ============================================================
+// LOCALES
+// ============================================================
+
+/**
+ * Normaliza espaços para que o texto do HTML (com quebras de linha e
+ * indentação) e a chave do catálogo coincidam.
+ */
+export function normalizeMessageKey(text: string): string {
+  return String(text ?? '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Cadeia de idiomas a consultar para o idioma pedido: o próprio idioma,
+ * depois outro com a mesma língua base (pt → pt-BR, es-MX → es) e por
+ * último o inglês.
+ */
+export function getFallbackChain(requested: string | null | undefined): Locale[] {
+  const chain: Locale[] = [];
+  const value = String(requested || '').trim();
+  const exact = SUPPORTED_LOCALES.find(l => l.toLowerCase() === value.toLowerCase());
+  if (exact) chain.push(exact);
+
+  const base = value.split('-')[0].toLowerCase();
+  const sameLanguage = SUPPORTED_LOCALES.find(l => l.split('-')[0].toLowerCase() === base);
+  if (sameLanguage && !chain.includes(sameLanguage)) chain.push(sameLanguage);
+
+  if (!chain.includes(DEFAULT_LOCALE)) chain.push(DEFAULT_LOCALE);
+  return chain;
+}
+
+export function resolveLocale(requested: string | null | undefined): Locale {
+  return getFallbackChain(requested)[0];
+}
+
+export function getLocale(): Locale {
+  return currentLocale;
+}
+
+export function getStoredLocale(): Locale {
+  try {
+    return resolveLocale(localStorage.getItem(LANGUAGE_STORAGE_KEY));
+  } catch {
+    return DEFAULT_LOCALE;
+  }
+}
+
+export function loadCatalog(locale: Locale): Promise<MessageCatalog> {
+  const loaded = catalogs[locale];
+  if (loaded) return Promise.resolve(loaded);
+
+  if (!catalogPromises[locale]) {
+    catalogPromises[locale] = CATALOG_LOADERS[locale]()
+      .then(catalog => {
+        catalogs[locale] = catalog;
+        return catalog;
+      })
+      .catch(err => {
+        // Permite nova tentativa (ex.: chunk falhou por rede)
+        delete catalogPromises[locale];
+        throw err;
+      });
+  }
+
+  return catalogPromises[locale]!;
+}
+
+/**
+ * Troca o idioma ativo, carregando os catálogos de toda a cadeia de
+ * fallback. Um catálogo que falhe ao carregar é pulado.
+ */
+export async function setLocale(requested: string | null | undefined): Promise<Locale> {
+  const chain = getFallbackChain(requested);
+  await Promise.all(chain.map(locale => loadCatalog(locale).catch(() => null)));
+
+  currentLocale = chain[0];
+  fallbackChain = chain;
+
+  if (typeof document !== 'undefined') {
+    document.documentElement.lang = currentLocale;
+  }
+
+  return currentLocale;
+}
+
+export function clearLegacyTranslationCache(): void {
+  try {
+    localStorage.removeItem(LEGACY_TRANSLATION_CACHE_KEY);
+  } catch {
+    // modo privado: ignorar
+  }
+}
+
+// ============================================================
+// MESSAGES
+// ============================================================
+
+function getPluralRules(locale: Locale): Intl.PluralRules {
+  let rules = pluralRulesCache.get(locale);
+  if (!rules) {
+    rules = new Intl.PluralRules(locale);
+    pluralRulesCache.set(locale, rules);
+  }
+  return rules;
+}
+
+function recordMissing(locale: Locale, key: string): void {
+  if (!missingKeys[locale]) missingKeys[locale] = new Set();
+  missingKeys[locale]!.add(key);
+}
+
+function selectPlural(message: CatalogMessage, locale: Locale, params?: MessageParams): string {
+  if (typeof message === 'string') return message;
+  const count = Number(params?.count ?? 0);
+  const category = getPluralRules(locale).select(count) as PluralCategory;
+  return message[category] ?? message.other;
+}
+
+function interpolate(message: string, params?: MessageParams): string {
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(value) : value;
+  });
+}
+
+/**
+ * Traduz uma chave no idioma ativo. Se nenhum catálogo da cadeia tiver a
+ * chave, usa `fallback` (ou a própria chave) e registra a ausência.
+ */
+export function t(key: string, params?: MessageParams, fallback?: CatalogMessage): string {
+  const normalizedKey = normalizeMessageKey(key);
+
+  for (const locale of fallbackChain) {
+    const message = catalogs[locale]?.[normalizedKey];
+    if (message !== undefined) {
+      if (locale !== currentLocale) recordMissing(currentLocale, normalizedKey);
+      return interpolate(selectPlural(message, locale, params), params);
+    }
+  }
+
+  // Texto-fonte já está em inglês: só falta chave se for outro idioma
+  if (currentLocale !== DEFAULT_LOCALE || fallback === undefined) {
+    recordMissing(currentLocale, normalizedKey);
+  }
+  return interpolate(selectPlural(fallback ?? normalizedKey, currentLocale, params), params);
+}
+
+/**
+ * Nome e descrição de um badge a partir de nameKey/descKey, com o texto em
+ * inglês da definição como fallback (badges sem chave ficam em inglês).
+ */
+export function translateBadge(badge: { name: string; desc: string; nameKey?: string; descKey?: string }): { name: string; desc: string } {
+  return {
+    name: badge.nameKey ? t(badge.nameKey, undefined, badge.name) : badge.name,
+    desc: badge.descKey ? t(badge.descKey, undefined, badge.desc) : badge.desc
+  };
+}
+
+/**
+ * Chaves pedidas em tempo de execução que não existem no catálogo do idioma
+ * (inclui as que caíram no fallback), para repassar aos tradutores.
+ */
+export function getMissingTranslations(): Partial<Record<Locale, string[]>> {
+  const report: Partial<Record<Locale, string[]>> = {};
+  for (const locale of SUPPORTED_LOCALES) {
+    const keys = missingKeys[locale];
+    if (keys?.size) report[locale] = Array.from(keys).sort();
+  }
+  return report;
+}
+
+// ============================================================
+// FORMATTING
+// ============================================================
+
+export function formatNumber(value: number, options?: Intl.NumberFormatOptions): string {
+  return new Intl.NumberFormat(currentLocale, options).format(value);
+}
+
+export function formatDate(value: Date | string | number, options?: Intl.DateTimeFormatOptions): string {
+  return new Date(value).toLocaleDateString(currentLocale, options);
+}
+
+// ============================================================
+// DOM
+// ============================================================
+
+function isPlaceholderElement(element: Element): element is HTMLInputElement | HTMLTextAreaElement {
+  return element.tagName === 'INPUT' || element.tagName === 'TEXTAREA';
+}
+
+function setElementText(element: HTMLElement, text: string): void {
+  if (isPlaceholderElement(element)) {
+    element.placeholder = text;
+    return;
+  }
+
+  const textNode = Array.from(element.childNodes).find(node => node.nodeType === 3 && node.textContent?.trim());
+  if (textNode) {
+    textNode.textContent = text;
+  } else {
+    element.textContent = text;
+  }
+}
+
+/**
+ * Traduz todos os elementos `[data-translate]` dentro de root. O texto
+ * original (inglês) fica em data-original para permitir trocar de idioma
+ * várias vezes.
+ */
+export function translateDom(root: ParentNode = document): void {
+  root.querySelectorAll<HTMLElement>('[data-translate]').forEach(element => {
+    let source = element.getAttribute('data-original');
+    if (source === null) {
+      source = normalizeMessageKey(
+        isPlaceholderElement(element) ? element.placeholder : element.textContent || ''
+      );
+      element.setAttribute('data-original', source);
+    }
+    if (!source) return;
+
+    const key = element.getAttribute('data-translate') || source;
+    setElementText(element, t(key, undefined, source));
+  });
+}
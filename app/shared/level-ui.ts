@@ -0,0 +1,65 @@
+// ============================================================
+// LEVEL-UI.TS - Aplica no frontend o XP e os badges concedidos pela API
+// ============================================================
+// As respostas de abertura de cases e vendas trazem os campos `xp`
+// (XpAward, ver app/shared/levels.ts) e `achievements` (badges
+// desbloqueados): aqui o header, o estado e os popups são atualizados.
+
+import { describeLevelReward, getLevelInfo, type XpAward } from './levels';
+import { showToast, showXPPopup } from './effects';
+import { BADGE_DEFINITIONS, SKILL_TREE_BADGES } from './constants';
+import type { AchievementUnlock } from './achievements';
+import { stateManager } from '../core/state-manager';
+import { t, translateBadge } from './i18n';
+
+/**
+ * Atualiza nível, texto e barra de XP do header.
+ */
+export function renderLevelHeader(totalXP: number): void {
+  const info = getLevelInfo(totalXP);
+
+  const levelEl = document.getElementById('user-level');
+  if (levelEl) levelEl.textContent = String(info.level);
+
+  const xpText = document.getElementById('user-xp');
+  if (xpText) xpText.textContent = `${info.currentXP}/${info.nextLevelXP} XP`;
+
+  const xpBar = document.getElementById('xp-bar-fill');
+  if (xpBar) {
+    xpBar.style.transition = 'width 0.5s ease';
+    xpBar.style.width = `${(info.currentXP / info.nextLevelXP) * 100}%`;
+  }
+}
+
+export function applyXpAward(award: XpAward | null | undefined): void {
+  if (!award || !(award.xpGained > 0)) return;
+
+  stateManager.updateStats({ xp: award.totalXP, level: award.level });
+  if (typeof award.newBalance === 'number') stateManager.updateMoney(award.newBalance);
+  if (typeof award.newDiamonds === 'number') stateManager.updateDiamonds(award.newDiamonds);
+
+  renderLevelHeader(award.totalXP);
+  showXPPopup(award.xpGained, award.currentXP, award.nextLevelXP, award.oldLevel, award.level);
+
+  if (award.rewards.length) {
+    showToast(
+      'success',
+      t('level.rewards_title', { level: award.level }),
+      award.rewards.map(({ reward }) => describeLevelReward(reward)).join(' · ')
+    );
+  }
+}
+
+export function notifyAchievementUnlocks(unlocks: AchievementUnlock[] | null | undefined, newDiamonds?: number): void {
+  if (typeof newDiamonds === 'number') stateManager.updateDiamonds(newDiamonds);
+  if (!unlocks?.length) return;
+
+  unlocks.forEach(unlock => {
+    const badge = SKILL_TREE_BADGES[unlock.id] || BADGE_DEFINITIONS.find(b => b.id === unlock.id);
+    showToast(
+      'success',
+      t('achievement.unlocked', { badge: badge ? `${badge.icon} ${translateBadge(badge).name}` : unlock.id }),
+      `+${unlock.diamonds} 💎 · +${unlock.xp} XP`
+    );
+  });
+}
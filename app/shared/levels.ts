@@ -0,0 +1,142 @@
+// ============================================================
+// LEVELS.TS - Curva de XP, taxas por ação e recompensas de nível
+// ============================================================
+// Compartilhado entre o backend (grantPlayerXp em api/_utils.ts, que é a
+// única fonte de XP) e o frontend, que só exibe o nível a partir de
+// player_stats.xp e dos eventos de level up devolvidos pela API.
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type XpSource = 'case_opened' | 'item_sold' | 'badge' | 'referral' | 'mission';
+
+export type LevelReward =
+  | { type: 'money'; amount: number }
+  | { type: 'diamonds'; amount: number };
+
+export interface LevelInfo {
+  level: number;
+  currentXP: number;
+  nextLevelXP: number;
+  totalXP: number;
+}
+
+export interface LevelUpReward {
+  level: number;
+  reward: LevelReward;
+}
+
+/**
+ * Resultado de um ganho de XP, devolvido nas respostas da API
+ * (campo `xp`) para o frontend exibir o popup / level up.
+ */
+export interface XpAward extends LevelInfo {
+  xpGained: number;
+  oldLevel: number;
+  leveledUp: boolean;
+  rewards: LevelUpReward[];
+  newBalance?: number;
+  newDiamonds?: number;
+}
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+export const LEVEL_CAP = 100;
+
+// Custo linear por nível: LEVEL_XP_BASE no nível 1, +LEVEL_XP_STEP a cada nível
+export const LEVEL_XP_BASE = 100;
+export const LEVEL_XP_STEP = 50;
+
+// XP por ação; badges usam o XP do próprio badge quando informado e
+// missões sempre informam o XP da recompensa
+export const XP_RATES: Record<XpSource, number> = {
+  case_opened: 20,
+  item_sold: 2,
+  badge: 100,
+  referral: 250,
+  mission: 0
+};
+
+// Recompensas especiais; os demais múltiplos de 5 dão diamantes
+const LEVEL_SPECIAL_REWARDS: Record<number, LevelReward[]> = {
+  10: [{ type: 'money', amount: 5 }],
+  25: [{ type: 'money', amount: 15 }, { type: 'diamonds', amount: 50 }],
+  50: [{ type: 'money', amount: 50 }, { type: 'diamonds', amount: 100 }],
+  75: [{ type: 'money', amount: 100 }, { type: 'diamonds', amount: 200 }],
+  100: [{ type: 'money', amount: 250 }, { type: 'diamonds', amount: 500 }]
+};
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * XP necessário para sair do nível informado para o próximo.
+ */
+export function getLevelXpCost(level: number): number {
+  return LEVEL_XP_BASE + (Math.max(1, level) - 1) * LEVEL_XP_STEP;
+}
+
+export function getLevelInfo(totalXP: number): LevelInfo {
+  const xp = Math.max(0, Math.floor(Number(totalXP) || 0));
+  let level = 1;
+  let accumulatedXP = 0;
+
+  while (level < LEVEL_CAP && accumulatedXP + getLevelXpCost(level) <= xp) {
+    accumulatedXP += getLevelXpCost(level);
+    level++;
+  }
+
+  return {
+    level,
+    currentXP: xp - accumulatedXP,
+    nextLevelXP: getLevelXpCost(level),
+    totalXP: xp
+  };
+}
+
+export function getLevelRewards(level: number): LevelReward[] {
+  if (LEVEL_SPECIAL_REWARDS[level]) return LEVEL_SPECIAL_REWARDS[level];
+  return level % 5 === 0 ? [{ type: 'diamonds', amount: level }] : [];
+}
+
+/**
+ * Recompensas de todos os níveis alcançados entre oldLevel (exclusivo) e
+ * newLevel (inclusivo).
+ */
+export function getLevelUpRewards(oldLevel: number, newLevel: number): LevelUpReward[] {
+  const rewards: LevelUpReward[] = [];
+  for (let level = oldLevel + 1; level <= Math.min(newLevel, LEVEL_CAP); level++) {
+    getLevelRewards(level).forEach(reward => rewards.push({ level, reward }));
+  }
+  return rewards;
+}
+
+/**
+ * Junta dois ganhos de XP da mesma requisição (ex.: abertura + badge) em um
+ * só, para o frontend exibir um único popup / level up.
+ */
+export function mergeXpAwards(previous: XpAward | null, next: XpAward | null): XpAward | null {
+  if (!previous || !next) return previous || next;
+  return {
+    ...next,
+    xpGained: previous.xpGained + next.xpGained,
+    oldLevel: previous.oldLevel,
+    leveledUp: next.level > previous.oldLevel,
+    rewards: [...previous.rewards, ...next.rewards],
+    newBalance: next.newBalance ?? previous.newBalance,
+    newDiamonds: next.newDiamonds ?? previous.newDiamonds
+  };
+}
+
+export function describeLevelReward(reward: LevelReward): string {
+  switch (reward.type) {
+    case 'money':
+      return `$${reward.amount.toFixed(2)}`;
+    case 'diamonds':
+      return `${reward.amount} 💎`;
+  }
+}
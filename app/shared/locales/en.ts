@@ -0,0 +1,61 @@
+// ============================================================
+// LOCALES/EN.TS - Catálogo base (inglês)
+// ============================================================
+// Textos de `data-translate` já estão em inglês no HTML e não precisam
+// entrar aqui. Este catálogo guarda só as chaves explícitas (t('...'),
+// nameKey/descKey dos badges), mensagens com plural/parâmetros e textos
+// dinâmicos que a extração não enxerga. Toda chave daqui precisa existir
+// nos outros idiomas (ver npm run i18n:check).
+
+import type { MessageCatalog } from '../i18n';
+
+const messages: MessageCatalog = {
+  // Badges (BADGE_DEFINITIONS)
+  'badge_starter': 'Starter',
+  'badge_starter_desc': 'Join 1 battle',
+  'badge_lucky': 'Lucky',
+  'badge_lucky_desc': 'Win 5 battles',
+  'badge_veteran': 'Veteran',
+  'badge_veteran_desc': 'Join 50 battles',
+  'badge_rich': 'Rich',
+  'badge_rich_desc': 'Have 1000 💰',
+  'badge_champion': 'Champion',
+  'badge_champion_desc': 'Win 20 battles',
+  'badge_legendary': 'Legendary',
+  'badge_legendary_desc': 'Reach level 10',
+  'badge_highroller': 'High Roller',
+  'badge_highroller_desc': 'Spend 10,000 💰 on cases',
+  'badge_jackpot': 'Jackpot',
+  'badge_jackpot_desc': 'Win an item worth more than 5,000 💰',
+  'badge_ultimate': 'Ultimate',
+  'badge_ultimate_desc': 'Collect all other badges',
+
+  // Níveis e conquistas
+  'level.rewards_title': 'Level {level} rewards! 🎁',
+  'achievement.unlocked': 'Badge unlocked: {badge}',
+
+  // Missões
+  'mission.case_opened': 'Open {count} cases',
+  'mission.case_opened_case': 'Open {count} {case} cases',
+  'mission.item_sold': 'Sell {count} items',
+  'mission.item_sold_rarity': 'Sell {count} {rarity} items',
+  'mission.chat_message': 'Send {count} chat messages',
+  'mission.battle_played': 'Play {count} case battles',
+  'mission.battle_won': {
+    one: 'Win {count} case battle',
+    other: 'Win {count} case battles'
+  },
+  'mission.claim': 'Claim',
+  'mission.claimed': 'Claimed',
+  'mission.completed_title': 'Mission complete! 🎯',
+
+  // Assinaturas
+  'Renew': 'Renew',
+  'Subscribe Now': 'Subscribe Now',
+  'subscription.days_remaining': {
+    one: '{count} day remaining · expires {date}',
+    other: '{count} days remaining · expires {date}'
+  }
+};
+
+export default messages;
@@ -0,0 +1,279 @@
+// ============================================================
+// LOCALES/ES.TS - Catálogo em espanhol
+// ============================================================
+
+import type { MessageCatalog } from '../i18n';
+
+const messages: MessageCatalog = {
+  // Badges (BADGE_DEFINITIONS)
+  'badge_starter': 'Principiante',
+  'badge_starter_desc': 'Participa en 1 batalla',
+  'badge_lucky': 'Afortunado',
+  'badge_lucky_desc': 'Gana 5 batallas',
+  'badge_veteran': 'Veterano',
+  'badge_veteran_desc': 'Participa en 50 batallas',
+  'badge_rich': 'Rico',
+  'badge_rich_desc': 'Ten 1000 💰',
+  'badge_champion': 'Campeón',
+  'badge_champion_desc': 'Gana 20 batallas',
+  'badge_legendary': 'Legendario',
+  'badge_legendary_desc': 'Alcanza el nivel 10',
+  'badge_highroller': 'Gran apostador',
+  'badge_highroller_desc': 'Gasta 10.000 💰 en cajas',
+  'badge_jackpot': 'Jackpot',
+  'badge_jackpot_desc': 'Gana un objeto que valga más de 5.000 💰',
+  'badge_ultimate': 'Supremo',
+  'badge_ultimate_desc': 'Consigue todas las demás insignias',
+
+  // Níveis e conquistas
+  'level.rewards_title': '¡Recompensas del nivel {level}! 🎁',
+  'achievement.unlocked': 'Insignia desbloqueada: {badge}',
+
+  // Misiones
+  'mission.case_opened': 'Abre {count} cajas',
+  'mission.case_opened_case': 'Abre {count} cajas {case}',
+  'mission.item_sold': 'Vende {count} objetos',
+  'mission.item_sold_rarity': 'Vende {count} objetos {rarity}',
+  'mission.chat_message': 'Envía {count} mensajes en el chat',
+  'mission.battle_played': 'Juega {count} batallas de cajas',
+  'mission.battle_won': {
+    one: 'Gana {count} batalla de cajas',
+    other: 'Gana {count} batallas de cajas'
+  },
+  'mission.claim': 'Reclamar',
+  'mission.claimed': 'Reclamada',
+  'mission.completed_title': '¡Misión completada! 🎯',
+
+  // Assinaturas
+  'Renew': 'Renovar',
+  'Subscribe Now': 'Suscribirse ahora',
+  'subscription.days_remaining': {
+    one: 'Queda {count} día · vence el {date}',
+    other: 'Quedan {count} días · vence el {date}'
+  },
+
+  // Interface (data-translate)
+  '$0 - $10': '$0 - $10',
+  '$10 - $50': '$10 - $50',
+  '$250+': '$250+',
+  '$50 - $250': '$50 - $250',
+  '30-day calendar': 'Calendario de 30 días',
+  'Admin': 'Admin',
+  'All Prices': 'Todos los precios',
+  'All Rarities': 'Todas las rarezas',
+  'Apply': 'Aplicar',
+  'Automatic (from your region)': 'Automática (según tu región)',
+  'Available to withdraw': 'Disponible para retirar',
+  'Avatar updated successfully!': '¡Avatar actualizado correctamente!',
+  'BADGES': 'INSIGNIAS',
+  'Back': 'Volver',
+  'Battle Pass': 'Pase de Batalla',
+  'Battles': 'Batallas',
+  'Be the first to say something!': '¡Sé el primero en decir algo!',
+  'Benefits:': 'Beneficios:',
+  'Best Drop': 'Mejor drop',
+  'Buy': 'Comprar',
+  'Buy Now': 'Comprar ahora',
+  'Buy Pass': 'Comprar pase',
+  'Buy items listed by other players. Sellers pay a fee of': 'Compra objetos publicados por otros jugadores. Los vendedores pagan una comisión del',
+  'Calculating general rankings...': 'Calculando la clasificación general...',
+  'Cancel': 'Cancelar',
+  'Case': 'Caja',
+  'Case Discount': 'Descuento en cajas',
+  'Cases': 'Cajas',
+  'Cases Opened': 'Cajas abiertas',
+  'Catalog Version': 'Versión del catálogo',
+  'Change Password': 'Cambiar contraseña',
+  'Claim daily': 'Reclamar diario',
+  'Claim once per day (resets at 00:00 UTC). Keep your streak for bigger rewards.': 'Reclama una vez al día (se reinicia a las 00:00 UTC). Mantén tu racha para obtener mejores recompensas.',
+  'Claimed today': 'Reclamado hoy',
+  'Clear filters': 'Limpiar filtros',
+  'Client Seed': 'Seed del cliente',
+  'Close': 'Cerrar',
+  'Commission level': 'Nivel de comisión',
+  'Common': 'Común',
+  'Complete missions to earn money, diamonds and XP. Daily missions reset at 00:00 UTC, weekly missions on Monday.': 'Completa misiones para ganar dinero, diamantes y XP. Las misiones diarias se renuevan a las 00:00 UTC y las semanales el lunes.',
+  'Complete the captcha to continue.': 'Completa el captcha para continuar.',
+  'Confirm New Password': 'Confirmar nueva contraseña',
+  'Confirm Password': 'Confirmar contraseña',
+  'Continue': 'Continuar',
+  'Continue to Checkout': 'Ir al pago',
+  'Contract (0/10)': 'Contrato (0/10)',
+  'Copy': 'Copiar',
+  'Copy share text': 'Copiar texto para compartir',
+  'Create Account': 'Crear cuenta',
+  'Create battle': 'Crear batalla',
+  'Daily Rewards': 'Recompensas diarias',
+  'Daily missions': 'Misiones diarias',
+  'Diamond Packages': 'Paquetes de diamantes',
+  'Edit': 'Editar',
+  'Email': 'Correo electrónico',
+  'Empty inventory': 'Inventario vacío',
+  'Entry cost': 'Costo de entrada',
+  'Epic': 'Épico',
+  'Event Notifications': 'Notificaciones de eventos',
+  'Every case you opened, with its seed. Replay any drop to rebuild the reel from the recorded seed.': 'Cada caja que abriste, con su seed. Repite cualquier drop para reconstruir el reel a partir del seed guardado.',
+  'Everyone opens the same cases. Highest total value takes every item.': 'Todos abren las mismas cajas. El mayor valor total se lleva todos los objetos.',
+  'Export CSV': 'Exportar CSV',
+  'Fill empty seats with bots': 'Completar plazas vacías con bots',
+  'Filters': 'Filtros',
+  'Forgot Password?': '¿Olvidaste tu contraseña?',
+  'Free': 'Gratis',
+  'From': 'Desde',
+  'Hello,': 'Hola,',
+  'Higher First': 'Mayor primero',
+  'Inventory': 'Inventario',
+  'Invite friends, earn coins, withdraw once a day.': 'Invita amigos, gana monedas y retira una vez al día.',
+  'Items sold:': 'Objetos vendidos:',
+  'Leaderboard': 'Clasificación',
+  'Legendary': 'Legendario',
+  'Lifetime earned': 'Total ganado',
+  'List item': 'Publicar objeto',
+  'Listings': 'Publicaciones',
+  'Live Chat': 'Chat en vivo',
+  'Load More': 'Cargar más',
+  'Load more': 'Cargar más',
+  'Loading rankings...': 'Cargando clasificación...',
+  'Loading...': 'Cargando...',
+  'Log Out': 'Cerrar sesión',
+  'Login': 'Iniciar sesión',
+  'Lower First': 'Menor primero',
+  'Lv.': 'Nv.',
+  'Market': 'Mercado',
+  'Missions': 'Misiones',
+  'Most Recent': 'Más recientes',
+  'Mythic': 'Mítico',
+  'New Password': 'Nueva contraseña',
+  'Next Nonce': 'Próximo nonce',
+  'No Sorting': 'Sin ordenar',
+  'No messages yet': 'Aún no hay mensajes',
+  'No players yet': 'Aún no hay jugadores',
+  'No referral events yet. Invite friends to start earning!': 'Aún no hay referidos. ¡Invita amigos para empezar a ganar!',
+  'Nonce': 'Nonce',
+  'Oldest': 'Más antiguos',
+  'One-time purchases with instant delivery': 'Compras únicas con entrega inmediata',
+  'Online': 'En línea',
+  'Open Case': 'Abrir caja',
+  'Open Cases': 'Abrir cajas',
+  'Open battles': 'Batallas abiertas',
+  'Opening History': 'Historial de Aperturas',
+  'Password': 'Contraseña',
+  'Pity Counters': 'Contadores de Pity',
+  'Premium': 'Premium',
+  'Price': 'Precio',
+  'Price history': 'Historial de precios',
+  'Price:': 'Precio:',
+  'Profile': 'Perfil',
+  'Promo code': 'Código promocional',
+  'Public Profile': 'Perfil público',
+  'Quantity': 'Cantidad',
+  'Rare': 'Raro',
+  'Rarity': 'Rareza',
+  'Recent activity': 'Actividad reciente',
+  'Recurring benefits and daily rewards': 'Beneficios recurrentes y recompensas diarias',
+  'Redeem': 'Canjear',
+  'Referral code (optional)': 'Código de referido (opcional)',
+  'Referrals': 'Referidos',
+  'Refresh': 'Actualizar',
+  'Reset': 'Restablecer',
+  'Rotate Seed': 'Cambiar seed',
+  'Sale Completed!': '¡Venta completada!',
+  'Seats': 'Plazas',
+  'Secure payments • Instant delivery • 24/7 support': 'Pagos seguros • Entrega inmediata • Soporte 24/7',
+  'Select Payment Method': 'Selecciona el método de pago',
+  'Select the rarities you want to sell:': 'Selecciona las rarezas que quieres vender:',
+  'Sell All': 'Vender todo',
+  'Sell Selected (0)': 'Vender seleccionados (0)',
+  'Server Seed': 'Seed del servidor',
+  'Server Seed (hashed)': 'Seed del servidor (hash)',
+  'Settings': 'Ajustes',
+  'Share with friends to grant them +100💎 on signup.': 'Compártelo con amigos para que reciban +100💎 al registrarse.',
+  'Show Statistics': 'Mostrar estadísticas',
+  'Sign Up': 'Registrarse',
+  'Skill Tree': 'Árbol de habilidades',
+  'Sort by Date': 'Ordenar por fecha',
+  'Sort by Value': 'Ordenar por valor',
+  'Sound Channels': 'Canales de sonido',
+  'Stake': 'Apuesta',
+  'Stake up to 5 items for a chance at a more valuable one. House edge:': 'Apuesta hasta 5 objetos por la oportunidad de conseguir uno más valioso. Ventaja de la casa:',
+  'Subscriptions': 'Suscripciones',
+  'Target': 'Objetivo',
+  'Target item': 'Objeto objetivo',
+  'The item leaves your inventory while listed. Cancel the listing to get it back; unsold listings return after 7 days.': 'El objeto sale de tu inventario mientras esté publicado. Cancela la publicación para recuperarlo; las publicaciones no vendidas vuelven tras 7 días.',
+  'Themes Shop': 'Tienda de temas',
+  'To': 'Hasta',
+  'Total Cost': 'Costo total',
+  'Total Gains': 'Ganancias totales',
+  'Total Spent': 'Total gastado',
+  'Total Value': 'Valor total',
+  'Total received:': 'Total recibido:',
+  'Total referrals': 'Total de referidos',
+  'Total withdrawn': 'Total retirado',
+  'Type a message...': 'Escribe un mensaje...',
+  'Uncommon': 'Poco común',
+  'Update Password': 'Actualizar contraseña',
+  'Upgrade': 'Mejorar',
+  'Upgrade Discount': 'Mejorar descuento',
+  'Upgrader': 'Upgrader',
+  'Username': 'Nombre de usuario',
+  'Verify': 'Verificar',
+  'Version': 'Versión',
+  'View': 'Ver',
+  'View Recovery Codes': 'Ver códigos de recuperación',
+  'Volume': 'Volumen',
+  'Weekly missions': 'Misiones semanales',
+  'Win chance': 'Probabilidad de ganar',
+  'Wins': 'Victorias',
+  'Withdraw now': 'Retirar ahora',
+  'Withdraw once per day. Earnings go straight to your wallet.': 'Retira una vez al día. Las ganancias van directo a tu billetera.',
+  'Your Position': 'Tu posición',
+  'Your balance:': 'Tu saldo:',
+  'Your items': 'Tus objetos',
+  'Your link': 'Tu enlace',
+  'Your listings': 'Tus publicaciones',
+  'Your recent battles': 'Tus batallas recientes',
+  'ℹ️ App Info': 'ℹ️ Información de la app',
+  '← Back': '← Volver',
+  '▶ Replay': '▶ Repetir',
+  '⚔️ Case Battles': '⚔️ Batallas de cajas',
+  '⚙️ Settings': '⚙️ Ajustes',
+  '⚡ Quick Spin': '⚡ Giro rápido',
+  '❌ No items selected': '❌ Ningún objeto seleccionado',
+  '➕ Zoom In': '➕ Acercar',
+  '➖ Zoom Out': '➖ Alejar',
+  '🆓 Free Cases': '🆓 Cajas Gratis',
+  '🌍 Language': '🌍 Idioma',
+  '🎁 Cases': '🎁 Cajas',
+  '🎉 You Won!': '🎉 ¡Ganaste!',
+  '🎖️ Battle Pass': '🎖️ Pase de Batalla',
+  '🎟️ Redeem Code': '🎟️ Canjear código',
+  '🎯 Missions': '🎯 Misiones',
+  '🏆 Leaderboard': '🏆 Clasificación',
+  '🏪 List on marketplace': '🏪 Publicar en el mercado',
+  '🏪 Marketplace': '🏪 Mercado',
+  '👤 Account': '👤 Cuenta',
+  '💎 Diamond Shop': '💎 Tienda de diamantes',
+  '💡 Drag to navigate • Click badges for details • Use + - 0 for zoom': '💡 Arrastra para navegar • Haz clic en las insignias para ver detalles • Usa + - 0 para el zoom',
+  '💰 Sell Items': '💰 Vender objetos',
+  '💱 Currency': '💱 Moneda',
+  '💵 Total Value:': '💵 Valor total:',
+  '📄 Legal': '📄 Legal',
+  '📅 Daily Rewards': '📅 Recompensas diarias',
+  '📈 Upgrader': '📈 Upgrader',
+  '📊 Quick Actions': '📊 Acciones rápidas',
+  '📜 Opening History': '📜 Historial de Aperturas',
+  '📦 Inventory': '📦 Inventario',
+  '📦 Possible Items': '📦 Objetos posibles',
+  '📦 Selected Items:': '📦 Objetos seleccionados:',
+  '🔄 Reset': '🔄 Restablecer',
+  '🔊 Sound': '🔊 Sonido',
+  '🔍 Verify roll': '🔍 Verificar tirada',
+  '🔐 Two-Factor Authentication': '🔐 Autenticación en dos pasos',
+  '🔒 Privacy': '🔒 Privacidad',
+  '🔔 Notifications': '🔔 Notificaciones',
+  '🛠️ Admin Panel': '🛠️ Panel de administración',
+  '🛡️ Provably Fair': '🛡️ Provably Fair',
+  '🤝 Referral Hub': '🤝 Centro de referidos'
+};
+
+export default messages;
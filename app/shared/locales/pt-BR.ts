@@ -0,0 +1,279 @@
+// ============================================================
+// LOCALES/PT-BR.TS - Catálogo em português (Brasil)
+// ============================================================
+
+import type { MessageCatalog } from '../i18n';
+
+const messages: MessageCatalog = {
+  // Badges (BADGE_DEFINITIONS)
+  'badge_starter': 'Iniciante',
+  'badge_starter_desc': 'Participe de 1 batalha',
+  'badge_lucky': 'Sortudo',
+  'badge_lucky_desc': 'Vença 5 batalhas',
+  'badge_veteran': 'Veterano',
+  'badge_veteran_desc': 'Participe de 50 batalhas',
+  'badge_rich': 'Rico',
+  'badge_rich_desc': 'Tenha 1000 💰',
+  'badge_champion': 'Campeão',
+  'badge_champion_desc': 'Vença 20 batalhas',
+  'badge_legendary': 'Lendário',
+  'badge_legendary_desc': 'Alcance o nível 10',
+  'badge_highroller': 'Apostador',
+  'badge_highroller_desc': 'Gaste 10.000 💰 em cases',
+  'badge_jackpot': 'Jackpot',
+  'badge_jackpot_desc': 'Ganhe um item que valha mais de 5.000 💰',
+  'badge_ultimate': 'Supremo',
+  'badge_ultimate_desc': 'Colete todos os outros badges',
+
+  // Níveis e conquistas
+  'level.rewards_title': 'Recompensas do nível {level}! 🎁',
+  'achievement.unlocked': 'Badge desbloqueado: {badge}',
+
+  // Missões
+  'mission.case_opened': 'Abra {count} caixas',
+  'mission.case_opened_case': 'Abra {count} caixas {case}',
+  'mission.item_sold': 'Venda {count} itens',
+  'mission.item_sold_rarity': 'Venda {count} itens {rarity}',
+  'mission.chat_message': 'Envie {count} mensagens no chat',
+  'mission.battle_played': 'Jogue {count} batalhas de caixas',
+  'mission.battle_won': {
+    one: 'Vença {count} batalha de caixas',
+    other: 'Vença {count} batalhas de caixas'
+  },
+  'mission.claim': 'Resgatar',
+  'mission.claimed': 'Resgatada',
+  'mission.completed_title': 'Missão concluída! 🎯',
+
+  // Assinaturas
+  'Renew': 'Renovar',
+  'Subscribe Now': 'Assinar agora',
+  'subscription.days_remaining': {
+    one: '{count} dia restante · expira em {date}',
+    other: '{count} dias restantes · expira em {date}'
+  },
+
+  // Interface (data-translate)
+  '$0 - $10': '$0 - $10',
+  '$10 - $50': '$10 - $50',
+  '$250+': '$250+',
+  '$50 - $250': '$50 - $250',
+  '30-day calendar': 'Calendário de 30 dias',
+  'Admin': 'Admin',
+  'All Prices': 'Todos os preços',
+  'All Rarities': 'Todas as raridades',
+  'Apply': 'Aplicar',
+  'Automatic (from your region)': 'Automática (pela sua região)',
+  'Available to withdraw': 'Disponível para saque',
+  'Avatar updated successfully!': 'Avatar atualizado com sucesso!',
+  'BADGES': 'BADGES',
+  'Back': 'Voltar',
+  'Battle Pass': 'Passe de Batalha',
+  'Battles': 'Batalhas',
+  'Be the first to say something!': 'Seja o primeiro a dizer algo!',
+  'Benefits:': 'Benefícios:',
+  'Best Drop': 'Melhor drop',
+  'Buy': 'Comprar',
+  'Buy Now': 'Comprar agora',
+  'Buy Pass': 'Comprar passe',
+  'Buy items listed by other players. Sellers pay a fee of': 'Compre itens anunciados por outros jogadores. Os vendedores pagam uma taxa de',
+  'Calculating general rankings...': 'Calculando o ranking geral...',
+  'Cancel': 'Cancelar',
+  'Case': 'Case',
+  'Case Discount': 'Desconto em cases',
+  'Cases': 'Cases',
+  'Cases Opened': 'Cases abertos',
+  'Catalog Version': 'Versão do catálogo',
+  'Change Password': 'Alterar senha',
+  'Claim daily': 'Resgatar diário',
+  'Claim once per day (resets at 00:00 UTC). Keep your streak for bigger rewards.': 'Resgate uma vez por dia (reinicia às 00:00 UTC). Mantenha a sequência para ganhar recompensas maiores.',
+  'Claimed today': 'Resgatado hoje',
+  'Clear filters': 'Limpar filtros',
+  'Client Seed': 'Seed do cliente',
+  'Close': 'Fechar',
+  'Commission level': 'Nível de comissão',
+  'Common': 'Comum',
+  'Complete missions to earn money, diamonds and XP. Daily missions reset at 00:00 UTC, weekly missions on Monday.': 'Complete missões para ganhar dinheiro, diamantes e XP. As missões diárias renovam às 00:00 UTC e as semanais na segunda-feira.',
+  'Complete the captcha to continue.': 'Complete o captcha para continuar.',
+  'Confirm New Password': 'Confirmar nova senha',
+  'Confirm Password': 'Confirmar senha',
+  'Continue': 'Continuar',
+  'Continue to Checkout': 'Ir para o pagamento',
+  'Contract (0/10)': 'Contrato (0/10)',
+  'Copy': 'Copiar',
+  'Copy share text': 'Copiar texto para compartilhar',
+  'Create Account': 'Criar conta',
+  'Create battle': 'Criar batalha',
+  'Daily Rewards': 'Recompensas diárias',
+  'Daily missions': 'Missões diárias',
+  'Diamond Packages': 'Pacotes de diamantes',
+  'Edit': 'Editar',
+  'Email': 'E-mail',
+  'Empty inventory': 'Inventário vazio',
+  'Entry cost': 'Custo de entrada',
+  'Epic': 'Épico',
+  'Event Notifications': 'Notificações de eventos',
+  'Every case you opened, with its seed. Replay any drop to rebuild the reel from the recorded seed.': 'Todos os cases que você abriu, com o seed. Reveja qualquer drop para reconstruir o reel a partir do seed gravado.',
+  'Everyone opens the same cases. Highest total value takes every item.': 'Todos abrem os mesmos cases. Quem tiver o maior valor total leva todos os itens.',
+  'Export CSV': 'Exportar CSV',
+  'Fill empty seats with bots': 'Preencher vagas com bots',
+  'Filters': 'Filtros',
+  'Forgot Password?': 'Esqueceu a senha?',
+  'Free': 'Grátis',
+  'From': 'De',
+  'Hello,': 'Olá,',
+  'Higher First': 'Maior primeiro',
+  'Inventory': 'Inventário',
+  'Invite friends, earn coins, withdraw once a day.': 'Convide amigos, ganhe moedas e saque uma vez por dia.',
+  'Items sold:': 'Itens vendidos:',
+  'Leaderboard': 'Ranking',
+  'Legendary': 'Lendário',
+  'Lifetime earned': 'Total ganho',
+  'List item': 'Anunciar item',
+  'Listings': 'Anúncios',
+  'Live Chat': 'Chat ao vivo',
+  'Load More': 'Carregar mais',
+  'Load more': 'Carregar mais',
+  'Loading rankings...': 'Carregando ranking...',
+  'Loading...': 'Carregando...',
+  'Log Out': 'Sair',
+  'Login': 'Entrar',
+  'Lower First': 'Menor primeiro',
+  'Lv.': 'Nv.',
+  'Market': 'Mercado',
+  'Missions': 'Missões',
+  'Most Recent': 'Mais recentes',
+  'Mythic': 'Mítico',
+  'New Password': 'Nova senha',
+  'Next Nonce': 'Próximo nonce',
+  'No Sorting': 'Sem ordenação',
+  'No messages yet': 'Nenhuma mensagem ainda',
+  'No players yet': 'Nenhum jogador ainda',
+  'No referral events yet. Invite friends to start earning!': 'Nenhuma indicação ainda. Convide amigos para começar a ganhar!',
+  'Nonce': 'Nonce',
+  'Oldest': 'Mais antigos',
+  'One-time purchases with instant delivery': 'Compras únicas com entrega imediata',
+  'Online': 'Online',
+  'Open Case': 'Abrir case',
+  'Open Cases': 'Abrir cases',
+  'Open battles': 'Batalhas abertas',
+  'Opening History': 'Histórico de Aberturas',
+  'Password': 'Senha',
+  'Pity Counters': 'Contadores de Pity',
+  'Premium': 'Premium',
+  'Price': 'Preço',
+  'Price history': 'Histórico de preços',
+  'Price:': 'Preço:',
+  'Profile': 'Perfil',
+  'Promo code': 'Código promocional',
+  'Public Profile': 'Perfil público',
+  'Quantity': 'Quantidade',
+  'Rare': 'Raro',
+  'Rarity': 'Raridade',
+  'Recent activity': 'Atividade recente',
+  'Recurring benefits and daily rewards': 'Benefícios recorrentes e recompensas diárias',
+  'Redeem': 'Resgatar',
+  'Referral code (optional)': 'Código de indicação (opcional)',
+  'Referrals': 'Indicações',
+  'Refresh': 'Atualizar',
+  'Reset': 'Redefinir',
+  'Rotate Seed': 'Trocar seed',
+  'Sale Completed!': 'Venda concluída!',
+  'Seats': 'Vagas',
+  'Secure payments • Instant delivery • 24/7 support': 'Pagamentos seguros • Entrega imediata • Suporte 24/7',
+  'Select Payment Method': 'Selecione a forma de pagamento',
+  'Select the rarities you want to sell:': 'Selecione as raridades que deseja vender:',
+  'Sell All': 'Vender tudo',
+  'Sell Selected (0)': 'Vender selecionados (0)',
+  'Server Seed': 'Seed do servidor',
+  'Server Seed (hashed)': 'Seed do servidor (hash)',
+  'Settings': 'Configurações',
+  'Share with friends to grant them +100💎 on signup.': 'Compartilhe com amigos para eles ganharem +100💎 no cadastro.',
+  'Show Statistics': 'Mostrar estatísticas',
+  'Sign Up': 'Cadastrar',
+  'Skill Tree': 'Árvore de habilidades',
+  'Sort by Date': 'Ordenar por data',
+  'Sort by Value': 'Ordenar por valor',
+  'Sound Channels': 'Canais de som',
+  'Stake': 'Aposta',
+  'Stake up to 5 items for a chance at a more valuable one. House edge:': 'Aposte até 5 itens pela chance de ganhar um mais valioso. Vantagem da casa:',
+  'Subscriptions': 'Assinaturas',
+  'Target': 'Alvo',
+  'Target item': 'Item alvo',
+  'The item leaves your inventory while listed. Cancel the listing to get it back; unsold listings return after 7 days.': 'O item sai do seu inventário enquanto estiver anunciado. Cancele o anúncio para recuperá-lo; anúncios não vendidos voltam após 7 dias.',
+  'Themes Shop': 'Loja de temas',
+  'To': 'Até',
+  'Total Cost': 'Custo total',
+  'Total Gains': 'Ganhos totais',
+  'Total Spent': 'Total gasto',
+  'Total Value': 'Valor total',
+  'Total received:': 'Total recebido:',
+  'Total referrals': 'Total de indicações',
+  'Total withdrawn': 'Total sacado',
+  'Type a message...': 'Digite uma mensagem...',
+  'Uncommon': 'Incomum',
+  'Update Password': 'Atualizar senha',
+  'Upgrade': 'Upgrade',
+  'Upgrade Discount': 'Melhorar desconto',
+  'Upgrader': 'Upgrader',
+  'Username': 'Nome de usuário',
+  'Verify': 'Verificar',
+  'Version': 'Versão',
+  'View': 'Ver',
+  'View Recovery Codes': 'Ver códigos de recuperação',
+  'Volume': 'Volume',
+  'Weekly missions': 'Missões semanais',
+  'Win chance': 'Chance de vitória',
+  'Wins': 'Vitórias',
+  'Withdraw now': 'Sacar agora',
+  'Withdraw once per day. Earnings go straight to your wallet.': 'Saque uma vez por dia. Os ganhos vão direto para sua carteira.',
+  'Your Position': 'Sua posição',
+  'Your balance:': 'Seu saldo:',
+  'Your items': 'Seus itens',
+  'Your link': 'Seu link',
+  'Your listings': 'Seus anúncios',
+  'Your recent battles': 'Suas batalhas recentes',
+  'ℹ️ App Info': 'ℹ️ Sobre o app',
+  '← Back': '← Voltar',
+  '▶ Replay': '▶ Replay',
+  '⚔️ Case Battles': '⚔️ Batalhas de cases',
+  '⚙️ Settings': '⚙️ Configurações',
+  '⚡ Quick Spin': '⚡ Giro rápido',
+  '❌ No items selected': '❌ Nenhum item selecionado',
+  '➕ Zoom In': '➕ Aproximar',
+  '➖ Zoom Out': '➖ Afastar',
+  '🆓 Free Cases': '🆓 Cases Grátis',
+  '🌍 Language': '🌍 Idioma',
+  '🎁 Cases': '🎁 Cases',
+  '🎉 You Won!': '🎉 Você ganhou!',
+  '🎖️ Battle Pass': '🎖️ Passe de Batalha',
+  '🎟️ Redeem Code': '🎟️ Resgatar código',
+  '🎯 Missions': '🎯 Missões',
+  '🏆 Leaderboard': '🏆 Ranking',
+  '🏪 List on marketplace': '🏪 Anunciar no mercado',
+  '🏪 Marketplace': '🏪 Mercado',
+  '👤 Account': '👤 Conta',
+  '💎 Diamond Shop': '💎 Loja de diamantes',
+  '💡 Drag to navigate • Click badges for details • Use + - 0 for zoom': '💡 Arraste para navegar • Clique nos badges para ver detalhes • Use + - 0 para o zoom',
+  '💰 Sell Items': '💰 Vender itens',
+  '💱 Currency': '💱 Moeda',
+  '💵 Total Value:': '💵 Valor total:',
+  '📄 Legal': '📄 Termos legais',
+  '📅 Daily Rewards': '📅 Recompensas diárias',
+  '📈 Upgrader': '📈 Upgrader',
+  '📊 Quick Actions': '📊 Ações rápidas',
+  '📜 Opening History': '📜 Histórico de Aberturas',
+  '📦 Inventory': '📦 Inventário',
+  '📦 Possible Items': '📦 Itens possíveis',
+  '📦 Selected Items:': '📦 Itens selecionados:',
+  '🔄 Reset': '🔄 Redefinir',
+  '🔊 Sound': '🔊 Som',
+  '🔍 Verify roll': '🔍 Verificar rolagem',
+  '🔐 Two-Factor Authentication': '🔐 Autenticação em dois fatores',
+  '🔒 Privacy': '🔒 Privacidade',
+  '🔔 Notifications': '🔔 Notificações',
+  '🛠️ Admin Panel': '🛠️ Painel admin',
+  '🛡️ Provably Fair': '🛡️ Provably Fair',
+  '🤝 Referral Hub': '🤝 Central de indicações'
+};
+
+export default messages;
@@ -0,0 +1,164 @@
+// ============================================================
+// MISSIONS.TS - Missões diárias e semanais (modelos, sorteio e períodos)
+// ============================================================
+// Compartilhado entre o backend (trackMissionProgress em api/_utils.ts, que
+// conta o progresso a partir do audit log, e api/_missions.ts, que entrega
+// as recompensas) e a tela /missions, que só exibe.
+//
+// As missões de cada jogador são sorteadas do pool com um RNG determinístico
+// semeado por userId + período: servidor e cliente chegam ao mesmo sorteio
+// sem guardar nada, e a linha em `player_missions` só nasce no primeiro
+// progresso. Os períodos seguem o relógio UTC do servidor (dia UTC e semana
+// UTC começando na segunda-feira).
+
+import { createSeededRNG } from './case-rng.js';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type MissionPeriod = 'daily' | 'weekly';
+
+export type MissionEvent = 'case_opened' | 'item_sold' | 'chat_message' | 'battle_played' | 'battle_won';
+
+export type MissionReward =
+  | { type: 'money'; amount: number }
+  | { type: 'diamonds'; amount: number }
+  | { type: 'xp'; amount: number };
+
+export interface MissionFilter {
+  caseId?: string;
+  rarity?: string;
+}
+
+export interface MissionTemplate {
+  id: string;
+  period: MissionPeriod;
+  event: MissionEvent;
+  target: number;
+  filter?: MissionFilter;
+  rewards: MissionReward[];
+}
+
+/**
+ * Ocorrência de uma ação do jogador que pode contar para missões.
+ */
+export interface MissionEventData {
+  event: MissionEvent;
+  amount: number;
+  caseId?: string;
+  rarity?: string;
+}
+
+export interface AssignedMission extends MissionTemplate {
+  periodKey: string;
+  endsAt: string;
+}
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+// Quantas missões cada jogador recebe por período
+export const MISSIONS_PER_PERIOD: Record<MissionPeriod, number> = {
+  daily: 3,
+  weekly: 3
+};
+
+export const MISSION_TEMPLATES: MissionTemplate[] = [
+  // Diárias
+  { id: 'daily_open_cases', period: 'daily', event: 'case_opened', target: 10, rewards: [{ type: 'money', amount: 1 }, { type: 'xp', amount: 50 }] },
+  { id: 'daily_open_starter', period: 'daily', event: 'case_opened', target: 5, filter: { caseId: 'starter_box' }, rewards: [{ type: 'money', amount: 0.5 }, { type: 'xp', amount: 30 }] },
+  { id: 'daily_open_urban', period: 'daily', event: 'case_opened', target: 5, filter: { caseId: 'urban_box' }, rewards: [{ type: 'money', amount: 1.5 }, { type: 'xp', amount: 40 }] },
+  { id: 'daily_sell_items', period: 'daily', event: 'item_sold', target: 10, rewards: [{ type: 'money', amount: 0.5 }, { type: 'xp', amount: 30 }] },
+  { id: 'daily_sell_uncommon', period: 'daily', event: 'item_sold', target: 3, filter: { rarity: 'Uncommon' }, rewards: [{ type: 'diamonds', amount: 5 }, { type: 'xp', amount: 30 }] },
+  { id: 'daily_chat', period: 'daily', event: 'chat_message', target: 5, rewards: [{ type: 'diamonds', amount: 3 }] },
+  { id: 'daily_play_battles', period: 'daily', event: 'battle_played', target: 2, rewards: [{ type: 'money', amount: 1 }, { type: 'xp', amount: 40 }] },
+  { id: 'daily_win_battle', period: 'daily', event: 'battle_won', target: 1, rewards: [{ type: 'diamonds', amount: 10 }, { type: 'xp', amount: 50 }] },
+
+  // Semanais
+  { id: 'weekly_open_cases', period: 'weekly', event: 'case_opened', target: 75, rewards: [{ type: 'money', amount: 5 }, { type: 'xp', amount: 250 }] },
+  { id: 'weekly_open_urban', period: 'weekly', event: 'case_opened', target: 20, filter: { caseId: 'urban_box' }, rewards: [{ type: 'money', amount: 4 }, { type: 'diamonds', amount: 20 }] },
+  { id: 'weekly_sell_rare', period: 'weekly', event: 'item_sold', target: 5, filter: { rarity: 'Rare' }, rewards: [{ type: 'diamonds', amount: 25 }, { type: 'xp', amount: 150 }] },
+  { id: 'weekly_sell_epic', period: 'weekly', event: 'item_sold', target: 2, filter: { rarity: 'Epic' }, rewards: [{ type: 'diamonds', amount: 30 }, { type: 'xp', amount: 150 }] },
+  { id: 'weekly_chat', period: 'weekly', event: 'chat_message', target: 10, rewards: [{ type: 'diamonds', amount: 10 }, { type: 'xp', amount: 50 }] },
+  { id: 'weekly_play_battles', period: 'weekly', event: 'battle_played', target: 10, rewards: [{ type: 'money', amount: 4 }, { type: 'xp', amount: 200 }] },
+  { id: 'weekly_win_battles', period: 'weekly', event: 'battle_won', target: 3, rewards: [{ type: 'diamonds', amount: 40 }, { type: 'xp', amount: 200 }] }
+];
+
+const DAY_MS = 86_400_000;
+
+// ============================================================
+// PERIODS
+// ============================================================
+
+/**
+ * Início (UTC) do período que contém o instante informado.
+ */
+function getPeriodStart(period: MissionPeriod, date: Date): Date {
+  const dayStart = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  if (period === 'daily') return new Date(dayStart);
+
+  // getUTCDay: 0 = domingo; a semana começa na segunda
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return new Date(dayStart - daysSinceMonday * DAY_MS);
+}
+
+/**
+ * Chave do período (ex.: "daily:2025-01-06", "weekly:2025-01-06"), usada
+ * na semente do sorteio e em `player_missions.period_key`.
+ */
+export function getMissionPeriodKey(period: MissionPeriod, date: Date = new Date()): string {
+  return `${period}:${getPeriodStart(period, date).toISOString().slice(0, 10)}`;
+}
+
+export function getMissionPeriodEnd(period: MissionPeriod, date: Date = new Date()): Date {
+  const start = getPeriodStart(period, date).getTime();
+  return new Date(start + (period === 'daily' ? DAY_MS : 7 * DAY_MS));
+}
+
+// ============================================================
+// ASSIGNMENT
+// ============================================================
+
+/**
+ * Missões do jogador no período: sorteio sem repetição (Fisher-Yates) do
+ * pool daquele período, semeado por userId + chave do período.
+ */
+export function getAssignedMissions(userId: string, period: MissionPeriod, date: Date = new Date()): AssignedMission[] {
+  const periodKey = getMissionPeriodKey(period, date);
+  const endsAt = getMissionPeriodEnd(period, date).toISOString();
+  const pool = MISSION_TEMPLATES.filter(m => m.period === period);
+  const rng = createSeededRNG(`missions:${userId}:${periodKey}`);
+
+  for (let i = pool.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+
+  return pool
+    .slice(0, MISSIONS_PER_PERIOD[period])
+    .map(template => ({ ...template, periodKey, endsAt }));
+}
+
+export function getAllAssignedMissions(userId: string, date: Date = new Date()): AssignedMission[] {
+  return [...getAssignedMissions(userId, 'daily', date), ...getAssignedMissions(userId, 'weekly', date)];
+}
+
+export function missionMatchesEvent(mission: MissionTemplate, data: MissionEventData): boolean {
+  if (mission.event !== data.event) return false;
+  if (mission.filter?.caseId && mission.filter.caseId !== data.caseId) return false;
+  if (mission.filter?.rarity && mission.filter.rarity !== data.rarity) return false;
+  return true;
+}
+
+export function describeMissionReward(reward: MissionReward): string {
+  switch (reward.type) {
+    case 'money':
+      return `$${reward.amount.toFixed(2)}`;
+    case 'diamonds':
+      return `${reward.amount} 💎`;
+    case 'xp':
+      return `${reward.amount} XP`;
+  }
+}
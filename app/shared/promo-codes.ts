@@ -0,0 +1,222 @@
+// ============================================================
+// PROMO-CODES.TS - Códigos promocionais e de presente
+// ============================================================
+// Compartilhado entre o backend (api/_promocodes.ts resgata, api/_admin.ts
+// cria/edita), o painel admin e as telas de resgate (loja e Settings).
+//
+// Cada código entrega uma recompensa: diamantes, dinheiro, um pass de
+// PASSES_CONFIG, um tema ou um desconto percentual na próxima ordem da loja.
+// Limites: total de usos (`maxUses`, null = ilimitado), usos por jogador e
+// janela de validade. Regras de elegibilidade (conta nova, nível mínimo,
+// nunca ter comprado) são conferidas no servidor no momento do resgate.
+//
+// O desconto não é aplicado na hora: vira um cupom pendente que a próxima
+// ordem criada em api/_shop.ts reserva. Se essa ordem não for paga, o cupom
+// volta a ficar disponível.
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type PromoReward =
+  | { type: 'diamonds'; amount: number }
+  | { type: 'money'; amount: number }
+  | { type: 'pass'; passId: string }
+  | { type: 'theme'; themeId: string }
+  | { type: 'shop_discount'; percentage: number };
+
+export type PromoRewardType = PromoReward['type'];
+
+export interface PromoEligibility {
+  // Só contas criadas há no máximo N dias
+  maxAccountAgeDays: number | null;
+  minLevel: number | null;
+  // Só quem nunca comprou na loja
+  firstPurchaseOnly: boolean;
+}
+
+export interface PromoCode {
+  code: string;
+  reward: PromoReward;
+  maxUses: number | null;
+  perUserLimit: number;
+  uses: number;
+  startsAt: string | null;
+  expiresAt: string | null;
+  eligibility: PromoEligibility;
+  active: boolean;
+  note: string;
+  createdAt?: string;
+  createdBy?: string | null;
+}
+
+export type PromoRedeemError =
+  | 'CODE_NOT_FOUND'
+  | 'CODE_INACTIVE'
+  | 'CODE_NOT_STARTED'
+  | 'CODE_EXPIRED'
+  | 'CODE_EXHAUSTED'
+  | 'CODE_ALREADY_REDEEMED'
+  | 'NOT_ELIGIBLE_ACCOUNT_AGE'
+  | 'NOT_ELIGIBLE_LEVEL'
+  | 'NOT_ELIGIBLE_PURCHASES'
+  | 'DISCOUNT_ALREADY_PENDING';
+
+export interface PromoPlayerContext {
+  accountCreatedAt: string | null;
+  level: number;
+  totalPurchases: number;
+}
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+export const PROMO_CODE_MIN_LENGTH = 4;
+export const PROMO_CODE_MAX_LENGTH = 24;
+const PROMO_CODE_PATTERN = /^[A-Z0-9][A-Z0-9_-]*$/;
+
+export const PROMO_REWARD_TYPES: PromoRewardType[] = ['diamonds', 'money', 'pass', 'theme', 'shop_discount'];
+
+// Mesmos ids de PASSES_CONFIG (app/shared/constants.ts não roda no backend)
+export const PROMO_PASS_IDS = ['quick_roll', 'multi_2x', 'multi_3x', 'multi_4x'];
+
+export const PROMO_MAX_DIAMONDS = 100_000;
+export const PROMO_MAX_MONEY = 10_000;
+export const PROMO_MAX_DISCOUNT = 50;
+export const PROMO_MAX_PER_USER = 100;
+
+// Pass ou tema que o jogador já tem é convertido em diamantes
+export const PROMO_DUPLICATE_DIAMONDS = 25;
+
+export const DEFAULT_PROMO_ELIGIBILITY: PromoEligibility = {
+  maxAccountAgeDays: null,
+  minLevel: null,
+  firstPurchaseOnly: false
+};
+
+const DAY_MS = 86_400_000;
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Formato canônico do código: maiúsculas, sem espaços. Códigos são
+ * comparados sempre nesse formato ("summer 25" e "SUMMER25" são iguais).
+ */
+export function normalizePromoCode(value: unknown): string {
+  if (typeof value !== 'string') return '';
+  return value.replace(/\s+/g, '').toUpperCase();
+}
+
+export function isValidPromoCode(code: string): boolean {
+  return code.length >= PROMO_CODE_MIN_LENGTH
+    && code.length <= PROMO_CODE_MAX_LENGTH
+    && PROMO_CODE_PATTERN.test(code);
+}
+
+export function describePromoReward(reward: PromoReward): string {
+  switch (reward.type) {
+    case 'diamonds':
+      return `${reward.amount} 💎`;
+    case 'money':
+      return `$${reward.amount.toFixed(2)}`;
+    case 'pass':
+      return `Pass: ${reward.passId}`;
+    case 'theme':
+      return `Theme: ${reward.themeId}`;
+    case 'shop_discount':
+      return `${reward.percentage}% off your next shop order`;
+  }
+}
+
+/**
+ * Confere janela, limite global e elegibilidade. O limite por jogador e a
+ * reserva do uso ficam no servidor, que conta os resgates existentes.
+ */
+export function checkPromoCodeAvailability(
+  promo: PromoCode,
+  player: PromoPlayerContext,
+  now: Date = new Date()
+): PromoRedeemError | null {
+  if (!promo.active) return 'CODE_INACTIVE';
+  if (promo.startsAt && Date.parse(promo.startsAt) > now.getTime()) return 'CODE_NOT_STARTED';
+  if (promo.expiresAt && Date.parse(promo.expiresAt) <= now.getTime()) return 'CODE_EXPIRED';
+  if (promo.maxUses !== null && promo.uses >= promo.maxUses) return 'CODE_EXHAUSTED';
+
+  const { maxAccountAgeDays, minLevel, firstPurchaseOnly } = promo.eligibility;
+  if (maxAccountAgeDays !== null) {
+    const createdAt = player.accountCreatedAt ? Date.parse(player.accountCreatedAt) : NaN;
+    if (Number.isNaN(createdAt) || now.getTime() - createdAt > maxAccountAgeDays * DAY_MS) {
+      return 'NOT_ELIGIBLE_ACCOUNT_AGE';
+    }
+  }
+  if (minLevel !== null && player.level < minLevel) return 'NOT_ELIGIBLE_LEVEL';
+  if (firstPurchaseOnly && player.totalPurchases > 0) return 'NOT_ELIGIBLE_PURCHASES';
+
+  return null;
+}
+
+export function describePromoError(error: unknown): string | null {
+  switch (error) {
+    case 'CODE_NOT_FOUND':
+      return 'This code does not exist.';
+    case 'CODE_INACTIVE':
+      return 'This code is no longer active.';
+    case 'CODE_NOT_STARTED':
+      return 'This code is not active yet.';
+    case 'CODE_EXPIRED':
+      return 'This code has expired.';
+    case 'CODE_EXHAUSTED':
+      return 'This code has reached its usage limit.';
+    case 'CODE_ALREADY_REDEEMED':
+      return 'You already redeemed this code.';
+    case 'NOT_ELIGIBLE_ACCOUNT_AGE':
+      return 'This code is only for new accounts.';
+    case 'NOT_ELIGIBLE_LEVEL':
+      return 'Your level is too low for this code.';
+    case 'NOT_ELIGIBLE_PURCHASES':
+      return 'This code is only for players without purchases.';
+    case 'DISCOUNT_ALREADY_PENDING':
+      return 'Use your pending shop discount before redeeming another one.';
+    default:
+      return null;
+  }
+}
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+function isPositiveNumber(value: unknown, max: number): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 && value <= max;
+}
+
+export function validatePromoReward(reward: unknown, isThemeId: (themeId: string) => boolean = () => true): string | null {
+  const data = reward as Partial<Record<string, unknown>> | null;
+  if (!data || typeof data !== 'object' || !PROMO_REWARD_TYPES.includes(data.type as PromoRewardType)) {
+    return 'Invalid reward type';
+  }
+
+  switch (data.type) {
+    case 'diamonds':
+      return Number.isInteger(data.amount) && isPositiveNumber(data.amount, PROMO_MAX_DIAMONDS)
+        ? null
+        : `Diamonds must be a whole number between 1 and ${PROMO_MAX_DIAMONDS}`;
+    case 'money':
+      return isPositiveNumber(data.amount, PROMO_MAX_MONEY)
+        ? null
+        : `Money must be between 0.01 and ${PROMO_MAX_MONEY}`;
+    case 'pass':
+      return typeof data.passId === 'string' && PROMO_PASS_IDS.includes(data.passId) ? null : 'Unknown pass';
+    case 'theme':
+      return typeof data.themeId === 'string' && isThemeId(data.themeId) ? null : 'Unknown theme';
+    case 'shop_discount':
+      return Number.isInteger(data.percentage) && isPositiveNumber(data.percentage, PROMO_MAX_DISCOUNT)
+        ? null
+        : `Discount must be a whole percentage between 1 and ${PROMO_MAX_DISCOUNT}`;
+    default:
+      return 'Invalid reward type';
+  }
+}
@@ -0,0 +1,549 @@
+// ============================================================
+// SHOP-CATALOG.TS - Catálogo versionado da loja (produtos e promoções)
+// ============================================================
+// Fonte única usada pelo backend (api/_shop.ts) e pelo frontend.
+// O catálogo ativo é servido pela action `getCatalog` do _shop; este arquivo
+// define os tipos, o cálculo de preço/bônus, a validação e o catálogo padrão
+// (versão 1), usado quando não há versão publicada em `shop_catalogs`.
+//
+// Preço e bônus são sempre calculados por `calculateShopOffer`: o servidor
+// cobra exatamente o que a loja mostrou. Cada ordem guarda `catalog_version`.
+//
+// Moedas: cada produto tem um preço fixo por moeda (sem cotação ao vivo).
+// USD e BRL são obrigatórios; nas demais, produto sem preço cai para USD.
+// Relatórios usam SHOP_REPORTING_CURRENCY, convertida pela própria tabela de
+// preços do produto (`reportingPrice`).
+//
+// Cupom: desconto de um código promocional (app/shared/promo-codes.ts),
+// aplicado sobre o preço já com flash sale. O total fica limitado a
+// SHOP_MAX_DISCOUNT.
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type ShopCurrency = 'USD' | 'EUR' | 'GBP' | 'BRL' | 'MXN' | 'CAD' | 'AUD';
+
+export const SHOP_CURRENCIES: ShopCurrency[] = ['USD', 'EUR', 'GBP', 'BRL', 'MXN', 'CAD', 'AUD'];
+
+// USD é a moeda de relatório; BRL é a única aceita pelo MercadoPago
+export const SHOP_REQUIRED_CURRENCIES: ShopCurrency[] = ['USD', 'BRL'];
+
+export const SHOP_REPORTING_CURRENCY: ShopCurrency = 'USD';
+
+// Desconto máximo somando flash sale e cupom
+export const SHOP_MAX_DISCOUNT = 90;
+
+export type ShopPrices = Record<'USD' | 'BRL', number> & Partial<Record<ShopCurrency, number>>;
+
+export interface ShopFirstPurchaseBonus {
+  type: 'percentage' | 'fixed';
+  value: number;
+  label: string;
+}
+
+// Janela de venda de um produto por tempo limitado (bundle/oferta)
+export interface ShopAvailability {
+  label: string;
+  startsAt: string;
+  endsAt: string;
+}
+
+export interface ShopPackage {
+  id: string;
+  name: string;
+  icon: string;
+  diamonds: number;
+  prices: ShopPrices;
+  stripePriceId?: string | null;
+  popular?: boolean;
+  firstPurchaseBonus?: ShopFirstPurchaseBonus;
+  availability?: ShopAvailability;
+}
+
+export interface ShopSubscription {
+  id: string;
+  // Nome gravado em shop_orders.product_name / player_stats.active_subscription
+  name: string;
+  displayName: string;
+  icon: string;
+  prices: ShopPrices;
+  stripePriceId?: string | null;
+  duration: number;
+  diamonds: number;
+  dailyDiamonds: number;
+  battlepass?: boolean;
+  benefits: string[];
+  popular?: boolean;
+  // Variante vendida como add-on de outra assinatura (sem card próprio)
+  addonOf?: string;
+}
+
+// bonus = diamantes extras (%), flash_sale = desconto no preço (%).
+// Promoções valem só para pacotes.
+export type ShopPromotionType = 'bonus' | 'flash_sale';
+
+export interface ShopPromotion {
+  id: string;
+  type: ShopPromotionType;
+  label: string;
+  percentage: number;
+  productIds: string[];
+  startsAt: string;
+  endsAt: string;
+}
+
+export interface ShopCatalog {
+  version: number;
+  publishedAt: string;
+  packages: ShopPackage[];
+  subscriptions: ShopSubscription[];
+  promotions: ShopPromotion[];
+}
+
+export type ShopProduct = ShopPackage | ShopSubscription;
+
+export interface ShopOffer {
+  // Moeda cobrada (a pedida ou USD se o produto não tem preço nela)
+  currency: ShopCurrency;
+  price: number;
+  listPrice: number;
+  // `price` em SHOP_REPORTING_CURRENCY
+  reportingPrice: number;
+  discountPercentage: number;
+  couponPercentage: number;
+  bonus: number;
+  bonusType: 'first_purchase' | 'timed' | null;
+  bonusPercentage: number;
+  bonusLabel: string;
+  totalDiamonds: number;
+  promotionIds: string[];
+  // Fim da promoção/oferta mais próxima (para o contador da loja)
+  endsAt: string | null;
+}
+
+// ============================================================
+// DEFAULT CATALOG (VERSION 1)
+// ============================================================
+
+export const DEFAULT_SHOP_CATALOG: ShopCatalog = {
+  version: 1,
+  publishedAt: '2025-01-01T00:00:00.000Z',
+  packages: [
+    {
+      id: 'pkg_250',
+      name: 'STARTER PACK',
+      icon: '💎',
+      diamonds: 250,
+      prices: { USD: 1.99, EUR: 1.99, GBP: 1.79, BRL: 14.99, MXN: 39, CAD: 2.79, AUD: 2.99 },
+      stripePriceId: 'price_1SqJPQC4sph1j0MSvLNLrkwu',
+      firstPurchaseBonus: { type: 'percentage', value: 10, label: '+10% First Purchase' }
+    },
+    {
+      id: 'pkg_600',
+      name: 'BRONZE PACK',
+      icon: '💎',
+      diamonds: 600,
+      prices: { USD: 4.49, EUR: 4.49, GBP: 3.99, BRL: 27.49, MXN: 89, CAD: 5.99, AUD: 6.99 },
+      stripePriceId: 'price_1SqJQYC4sph1j0MSSQkVIedf',
+      popular: true
+    },
+    {
+      id: 'pkg_1400',
+      name: 'SILVER PACK',
+      icon: '💎',
+      diamonds: 1400,
+      prices: { USD: 9.99, EUR: 9.99, GBP: 8.99, BRL: 59.99, MXN: 199, CAD: 13.99, AUD: 14.99 },
+      stripePriceId: 'price_1SqJS8C4sph1j0MSRUeprzMN'
+    },
+    {
+      id: 'pkg_2800',
+      name: 'GOLD PACK',
+      icon: '💎',
+      diamonds: 2800,
+      prices: { USD: 17.99, EUR: 17.99, GBP: 15.99, BRL: 109.99, MXN: 349, CAD: 24.99, AUD: 27.99 },
+      stripePriceId: 'price_1SqJSnC4sph1j0MS33EgkX3J'
+    },
+    {
+      id: 'pkg_3750',
+      name: 'PLATINUM PACK',
+      icon: '💎',
+      diamonds: 3750,
+      prices: { USD: 27.99, EUR: 27.99, GBP: 23.99, BRL: 159.99, MXN: 549, CAD: 38.99, AUD: 42.99 },
+      stripePriceId: 'price_1SqJUlC4sph1j0MShNC5nlRN'
+    }
+  ],
+  subscriptions: [
+    {
+      id: 'sub_premium',
+      name: 'PREMIUM SUBSCRIPTION',
+      displayName: 'PREMIUM SUBSCRIPTION',
+      icon: '👑',
+      prices: { USD: 5.99, EUR: 5.99, GBP: 4.99, BRL: 34.99, MXN: 119, CAD: 7.99, AUD: 8.99 },
+      stripePriceId: 'price_1SqJWNC4sph1j0MSsOMyeaxv',
+      duration: 30,
+      diamonds: 300,
+      dailyDiamonds: 15,
+      benefits: [
+        '300💎 instantly',
+        '15💎 daily (450 total/30 days)',
+        'Premium badge on your profile',
+        'Access to exclusive cases',
+        'Priority support'
+      ],
+      popular: true
+    },
+    {
+      id: 'sub_premium_bp',
+      name: 'PREMIUM SUBSCRIPTION + BP',
+      displayName: 'PREMIUM + BATTLE PASS',
+      icon: '👑',
+      prices: { USD: 9.99, EUR: 9.99, GBP: 8.99, BRL: 59.99, MXN: 199, CAD: 13.99, AUD: 14.99 },
+      stripePriceId: 'price_1SqJXpC4sph1j0MSLgmS9rd8',
+      duration: 30,
+      diamonds: 300,
+      dailyDiamonds: 15,
+      battlepass: true,
+      benefits: [
+        '300💎 instantly',
+        '15💎 daily (450 total/30 days)',
+        'Battle Pass included',
+        'Premium badge on your profile',
+        'Access to exclusive cases',
+        'Priority support'
+      ],
+      addonOf: 'sub_premium'
+    }
+  ],
+  promotions: [
+    {
+      id: 'silver_launch_bonus',
+      type: 'bonus',
+      label: '+40% Limited Time',
+      percentage: 40,
+      productIds: ['pkg_1400'],
+      startsAt: '2025-01-01T00:00:00Z',
+      endsAt: '2026-01-16T23:59:59Z'
+    },
+    {
+      id: 'platinum_bonus',
+      type: 'bonus',
+      label: '+20% Limited Time',
+      percentage: 20,
+      productIds: ['pkg_3750'],
+      startsAt: '2025-01-01T00:00:00Z',
+      endsAt: '2026-02-20T23:59:59Z'
+    }
+  ]
+};
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isValidDate(value: unknown): boolean {
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+}
+
+function roundPrice(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function isShopCurrency(value: unknown): value is ShopCurrency {
+  return typeof value === 'string' && (SHOP_CURRENCIES as string[]).includes(value);
+}
+
+// Países da zona do euro (código ISO da região do locale)
+const EURO_REGIONS = ['AT', 'BE', 'CY', 'DE', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR', 'IE', 'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PT', 'SI', 'SK'];
+
+const REGION_CURRENCIES: Record<string, ShopCurrency> = {
+  US: 'USD',
+  GB: 'GBP',
+  BR: 'BRL',
+  MX: 'MXN',
+  CA: 'CAD',
+  AU: 'AUD',
+  ...Object.fromEntries(EURO_REGIONS.map(region => [region, 'EUR' as ShopCurrency]))
+};
+
+/**
+ * Moeda sugerida para uma lista de locales (ex: navigator.languages),
+ * pela região do primeiro locale que tiver uma. Sem região conhecida: USD.
+ */
+export function detectShopCurrency(locales: readonly string[]): ShopCurrency {
+  for (const locale of locales) {
+    const region = String(locale || '').split(/[-_]/)[1]?.toUpperCase();
+    if (region && REGION_CURRENCIES[region]) return REGION_CURRENCIES[region];
+  }
+  return SHOP_REPORTING_CURRENCY;
+}
+
+/**
+ * Moeda em que o produto é cobrado quando o comprador pede `currency`
+ */
+export function resolveShopCurrency(product: ShopProduct, currency: ShopCurrency): ShopCurrency {
+  return isFiniteNumber(product.prices[currency]) ? currency : SHOP_REPORTING_CURRENCY;
+}
+
+/**
+ * Valor de uma ordem na moeda de relatório. Ordens novas gravam
+ * `reporting_amount`; as antigas são convertidas pelos preços guardados
+ * no metadata. `null` = não há como converter sem cotação.
+ */
+export function getOrderReportingAmount(order: {
+  amount?: number | string | null;
+  currency?: string | null;
+  reporting_amount?: number | string | null;
+  payment_method?: string | null;
+  metadata?: Record<string, any> | null;
+}): number | null {
+  if (order.reporting_amount !== null && order.reporting_amount !== undefined) {
+    return Number(order.reporting_amount) || 0;
+  }
+
+  const amount = Number(order.amount) || 0;
+  const metadata = order.metadata || {};
+  const currency = String(order.currency || metadata.payment_currency || (order.payment_method === 'mercadopago' ? 'BRL' : 'USD')).toUpperCase();
+  if (currency === SHOP_REPORTING_CURRENCY) return amount;
+
+  const listPrice = Number(metadata.list_price ?? metadata.price_brl);
+  const priceUsd = Number(metadata.price_usd);
+  if (listPrice > 0 && priceUsd > 0) {
+    return roundPrice(amount * (priceUsd / listPrice));
+  }
+  return null;
+}
+
+export function isShopPackage(product: ShopProduct): product is ShopPackage {
+  return 'diamonds' in product && !('duration' in product);
+}
+
+export function findShopProduct(catalog: ShopCatalog, productId: string, productType: string): ShopProduct | null {
+  if (productType === 'package') {
+    return catalog.packages.find(p => p.id === productId) || null;
+  }
+  if (productType === 'subscription') {
+    return catalog.subscriptions.find(s => s.id === productId) || null;
+  }
+  return null;
+}
+
+// active_subscription guarda o nome do produto (ou o id, em registros antigos)
+export function findShopSubscription(catalog: ShopCatalog, value: string | null | undefined): ShopSubscription | null {
+  if (!value) return null;
+  return catalog.subscriptions.find(s => s.id === value || s.name === value || s.displayName === value) || null;
+}
+
+/**
+ * Pacotes com janela de venda (bundles/ofertas) só valem dentro dela.
+ */
+export function isShopProductAvailable(product: ShopProduct, now: Date = new Date()): boolean {
+  if (!isShopPackage(product) || !product.availability) return true;
+  const time = now.getTime();
+  return Date.parse(product.availability.startsAt) <= time && time < Date.parse(product.availability.endsAt);
+}
+
+export function isPromotionActive(promotion: ShopPromotion, now: Date = new Date()): boolean {
+  const time = now.getTime();
+  return Date.parse(promotion.startsAt) <= time && time < Date.parse(promotion.endsAt);
+}
+
+export function getActivePromotions(catalog: ShopCatalog, productId: string, now: Date = new Date()): ShopPromotion[] {
+  return catalog.promotions.filter(p => p.productIds.includes(productId) && isPromotionActive(p, now));
+}
+
+/**
+ * Preço e diamantes de um produto para o comprador, na moeda pedida.
+ *
+ * - Flash sale: desconto da maior promoção ativa.
+ * - Bônus: o maior entre o de primeira compra e o da promoção ativa
+ *   (não acumulam, como sempre foi na loja).
+ */
+export function calculateShopOffer(
+  catalog: ShopCatalog,
+  product: ShopProduct,
+  {
+    currency = 'USD',
+    isFirstPurchase = false,
+    couponPercentage = 0,
+    now = new Date()
+  }: { currency?: ShopCurrency; isFirstPurchase?: boolean; couponPercentage?: number; now?: Date } = {}
+): ShopOffer {
+  const chargedCurrency = resolveShopCurrency(product, currency);
+  const listPrice = product.prices[chargedCurrency] as number;
+  const isPackage = isShopPackage(product);
+  const promotions = isPackage ? getActivePromotions(catalog, product.id, now) : [];
+
+  const sale = promotions
+    .filter(p => p.type === 'flash_sale')
+    .sort((a, b) => b.percentage - a.percentage)[0];
+  const discountPercentage = sale ? Math.min(sale.percentage, SHOP_MAX_DISCOUNT) : 0;
+  const coupon = Math.max(0, Math.min(couponPercentage, SHOP_MAX_DISCOUNT));
+  const totalDiscount = Math.min(SHOP_MAX_DISCOUNT, 100 - (100 - discountPercentage) * (100 - coupon) / 100);
+  const price = roundPrice(listPrice * (1 - totalDiscount / 100));
+
+  const baseDiamonds = isPackage ? product.diamonds : 0;
+  let bonus = 0;
+  let bonusType: ShopOffer['bonusType'] = null;
+  let bonusPercentage = 0;
+  let bonusLabel = '';
+
+  if (isPackage && isFirstPurchase && product.firstPurchaseBonus) {
+    const { type, value, label } = product.firstPurchaseBonus;
+    bonus = type === 'percentage' ? Math.floor(baseDiamonds * (value / 100)) : value;
+    bonusType = 'first_purchase';
+    bonusPercentage = type === 'percentage' ? value : Math.round((value / baseDiamonds) * 100);
+    bonusLabel = label;
+  }
+
+  // Bônus temporário (substitui o de primeira compra se maior)
+  const bonusPromotion = promotions
+    .filter(p => p.type === 'bonus')
+    .sort((a, b) => b.percentage - a.percentage)[0];
+  let timedBonus = 0;
+  if (bonusPromotion) {
+    timedBonus = Math.floor(baseDiamonds * (bonusPromotion.percentage / 100));
+    if (timedBonus > bonus) {
+      bonus = timedBonus;
+      bonusType = 'timed';
+      bonusPercentage = bonusPromotion.percentage;
+      bonusLabel = bonusPromotion.label;
+    }
+  }
+
+  const applied = [
+    ...(sale ? [sale] : []),
+    ...(bonusType === 'timed' && bonusPromotion ? [bonusPromotion] : [])
+  ];
+  const ends = [
+    ...applied.map(p => p.endsAt),
+    ...(isPackage && product.availability ? [product.availability.endsAt] : [])
+  ].sort((a, b) => Date.parse(a) - Date.parse(b));
+
+  return {
+    currency: chargedCurrency,
+    price,
+    listPrice,
+    reportingPrice: roundPrice(price * (product.prices[SHOP_REPORTING_CURRENCY] as number / listPrice)),
+    discountPercentage,
+    couponPercentage: coupon,
+    bonus,
+    bonusType,
+    bonusPercentage,
+    bonusLabel,
+    totalDiamonds: baseDiamonds + bonus,
+    promotionIds: applied.map(p => p.id),
+    endsAt: ends[0] || null
+  };
+}
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+function validatePrices(prices: unknown, label: string, errors: string[]): void {
+  const data = prices as Partial<ShopPrices> | null;
+  if (!data || typeof data !== 'object') {
+    errors.push(`${label}: prices are required`);
+    return;
+  }
+  Object.entries(data).forEach(([currency, value]) => {
+    if (!isShopCurrency(currency)) {
+      errors.push(`${label}: unsupported currency ${currency}`);
+    } else if (!isFiniteNumber(value) || value <= 0) {
+      errors.push(`${label}: invalid ${currency} price`);
+    }
+  });
+  SHOP_REQUIRED_CURRENCIES.forEach(currency => {
+    if (data[currency] === undefined) errors.push(`${label}: ${currency} price is required`);
+  });
+}
+
+/**
+ * Valida a estrutura de um catálogo da loja vindo do banco/rede.
+ * Retorna a lista de problemas encontrados (vazia = válido).
+ */
+export function validateShopCatalog(catalog: unknown): string[] {
+  const errors: string[] = [];
+  const data = catalog as Partial<ShopCatalog> | null;
+
+  if (!data || typeof data !== 'object') return ['Catalog must be an object'];
+  if (!Number.isInteger(data.version) || (data.version as number) < 1) errors.push('Invalid version');
+  if (!Array.isArray(data.packages) || data.packages.length === 0) errors.push('Packages are required');
+  if (!Array.isArray(data.subscriptions)) errors.push('Subscriptions are required');
+  if (!Array.isArray(data.promotions)) errors.push('Promotions are required');
+  if (errors.length) return errors;
+
+  const ids = new Set<string>();
+  const packageIds = new Set<string>();
+
+  data.packages!.forEach((pkg, idx) => {
+    if (!pkg?.id || typeof pkg.id !== 'string' || !pkg.name) {
+      errors.push(`Package #${idx} has no id or name`);
+      return;
+    }
+    if (ids.has(pkg.id)) errors.push(`Duplicate product id: ${pkg.id}`);
+    ids.add(pkg.id);
+    packageIds.add(pkg.id);
+
+    if (!Number.isInteger(pkg.diamonds) || pkg.diamonds <= 0) errors.push(`${pkg.id}: invalid diamonds`);
+    validatePrices(pkg.prices, pkg.id, errors);
+
+    if (pkg.firstPurchaseBonus) {
+      const { type, value } = pkg.firstPurchaseBonus;
+      if ((type !== 'percentage' && type !== 'fixed') || !isFiniteNumber(value) || value <= 0) {
+        errors.push(`${pkg.id}: invalid first purchase bonus`);
+      }
+    }
+    if (pkg.availability) {
+      const { startsAt, endsAt } = pkg.availability;
+      if (!isValidDate(startsAt) || !isValidDate(endsAt) || Date.parse(startsAt) >= Date.parse(endsAt)) {
+        errors.push(`${pkg.id}: invalid availability window`);
+      }
+    }
+  });
+
+  data.subscriptions!.forEach((sub, idx) => {
+    if (!sub?.id || typeof sub.id !== 'string' || !sub.name) {
+      errors.push(`Subscription #${idx} has no id or name`);
+      return;
+    }
+    if (ids.has(sub.id)) errors.push(`Duplicate product id: ${sub.id}`);
+    ids.add(sub.id);
+
+    validatePrices(sub.prices, sub.id, errors);
+    if (!Number.isInteger(sub.duration) || sub.duration <= 0) errors.push(`${sub.id}: invalid duration`);
+    if (!Number.isInteger(sub.diamonds) || sub.diamonds < 0) errors.push(`${sub.id}: invalid diamonds`);
+    if (!Number.isInteger(sub.dailyDiamonds) || sub.dailyDiamonds < 0) errors.push(`${sub.id}: invalid daily diamonds`);
+  });
+
+  const promotionIds = new Set<string>();
+  data.promotions!.forEach((promo, idx) => {
+    if (!promo?.id || typeof promo.id !== 'string') {
+      errors.push(`Promotion #${idx} has no id`);
+      return;
+    }
+    if (promotionIds.has(promo.id)) errors.push(`Duplicate promotion id: ${promo.id}`);
+    promotionIds.add(promo.id);
+
+    if (promo.type !== 'bonus' && promo.type !== 'flash_sale') errors.push(`${promo.id}: invalid type`);
+    const maxPercentage = promo.type === 'flash_sale' ? SHOP_MAX_DISCOUNT : 500;
+    if (!isFiniteNumber(promo.percentage) || promo.percentage <= 0 || promo.percentage > maxPercentage) {
+      errors.push(`${promo.id}: invalid percentage`);
+    }
+    if (!isValidDate(promo.startsAt) || !isValidDate(promo.endsAt) || Date.parse(promo.startsAt) >= Date.parse(promo.endsAt)) {
+      errors.push(`${promo.id}: invalid schedule`);
+    }
+    if (!Array.isArray(promo.productIds) || promo.productIds.length === 0) {
+      errors.push(`${promo.id}: no products`);
+    } else if (promo.productIds.some(id => !packageIds.has(id))) {
+      errors.push(`${promo.id}: promotions only apply to existing packages`);
+    }
+  });
+
+  return errors;
+}
@@ -3,8 +3,10 @@
 // ============================================================
 
 import { supabase } from '../features/auth';
+import { addCsrfHeader } from '../core/session';
 import { hexToRgb, showToast, showAlert } from './effects';
 import { ErrorHandler, ErrorCategory, ErrorSeverity } from './error-handler';
+import { ERRORS } from './constants';
 
 // ============================================================
 // TYPE DEFINITIONS
@@ -60,6 +62,7 @@ interface Theme {
 // ============================================================
 // AVAILABLE THEMES
 // ============================================================
+// Preços/ids duplicados em api/_profile.ts (o servidor valida a compra).
 
 export const AVAILABLE_THEMES: Theme[] = [
   {
@@ -808,10 +811,7 @@ export async function loadInitialTheme(): Promise<void> {
           console.warn('⚠️ Tema não desbloqueado, aplicando default');
           applyTheme('default');
 
-          await supabase
-            .from('player_stats')
-            .update({ active_theme: 'default' })
-            .eq('user_id', (window as any).currentUser.id);
+          await callThemeApi('activateTheme', { themeId: 'default' }).catch(() => {});
 
           initialThemeLoaded = true;
           return;
@@ -930,6 +930,38 @@ function renderThemesGrid(unlockedThemes: string[], activeTheme: string): void {
   }).join('');
 }
 
+// ============================================================
+// THEME API
+// ============================================================
+
+/**
+ * Compra/ativação passam pelo backend (/api/_profile): preço validado no
+ * servidor, diamantes debitados com lock otimista e CSRF obrigatório.
+ */
+async function callThemeApi(
+  action: 'purchaseTheme' | 'activateTheme',
+  payload: { themeId: string; price?: number }
+): Promise<{ ok: boolean; result: any }> {
+  const { data: { session } = {} } = await supabase.auth.getSession();
+  if (!session?.access_token || !(window as any).currentUser?.id) {
+    return { ok: false, result: { error: 'Not authenticated' } };
+  }
+
+  const response = await fetch('/api/_profile', {
+    method: 'POST',
+    headers: await addCsrfHeader({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify({
+      action,
+      userId: (window as any).currentUser.id,
+      authToken: session.access_token,
+      ...payload
+    })
+  });
+
+  const result = await response.json().catch(() => ({}));
+  return { ok: response.ok && !!result?.success, result };
+}
+
 // ============================================================
 // THEME PURCHASE MODAL
 // ============================================================
@@ -992,44 +1024,31 @@ export async function confirmThemePurchase(): Promise<void> {
       return;
     }
     
-    const { data: userData, error: fetchError } = await supabase
-      .from('player_stats')
-      .select('unlocked_themes, diamonds')
-      .eq('user_id', (window as any).currentUser.id)
-      .single();
-    
-    if (fetchError) {
-      showAlert('error', 'Loading Failed! ❌', 'Unable to fetch user data. Please try again.');
-      return;
-    }
-    
-    const unlockedThemes = userData.unlocked_themes || ['default'];
-    const unlockedSet = new Set(unlockedThemes);
-    
-    if (unlockedSet.has(theme.id)) {
-      showAlert('info', 'Already Owned! ✅', 'You already own this theme. Click on it to activate.');
-      closeThemePurchaseModal();
+    const { ok, result } = await callThemeApi('purchaseTheme', { themeId: theme.id, price: theme.price });
+
+    if (!ok) {
+      if (result?.error === 'THEME_ALREADY_OWNED') {
+        showAlert('info', 'Already Owned! ✅', 'You already own this theme. Click on it to activate.');
+        closeThemePurchaseModal();
+        loadUserThemes();
+        return;
+      }
+      if (result?.error === 'INSUFFICIENT_DIAMONDS') {
+        const missing = typeof result.needed === 'number' ? result.needed : theme.price;
+        showAlert('error', 'Insufficient Diamonds! 💎', `You need ${missing} more diamonds to buy this theme.`);
+        return;
+      }
+      if (result?.error === 'DIAMOND_DEBT') {
+        showAlert('error', 'Diamonds Locked 🔒', ERRORS.DIAMOND_DEBT);
+        return;
+      }
+      showAlert('error', 'Purchase Failed! ❌', result?.error || 'Unable to complete purchase. Please try again.');
       return;
     }
-    
-    const newDiamonds = userData.diamonds - theme.price;
-    const newUnlockedThemes = [...unlockedThemes, theme.id];
-    
-    const { error: updateError } = await supabase
-      .from('player_stats')
-      .update({
-        diamonds: newDiamonds,
-        unlocked_themes: newUnlockedThemes,
-        active_theme: theme.id
-      })
-      .eq('user_id', (window as any).currentUser.id);
-    
-    if (updateError) {
-      showAlert('error', 'Purchase Failed! ❌', 'Unable to complete purchase. Please try again.');
-      return;
+
+    if ((window as any).playerDiamonds && typeof result.diamonds === 'number') {
+      (window as any).playerDiamonds.value = result.diamonds;
     }
-    
-    (window as any).playerDiamonds.value = newDiamonds;
     if ((window as any).updateMoneyDisplay) {
       (window as any).updateMoneyDisplay();
     }
@@ -1063,13 +1082,15 @@ export async function activateTheme(themeId: string): Promise<void> {
       return;
     }
     
-    const { error } = await supabase
-      .from('player_stats')
-      .update({ active_theme: themeId })
-      .eq('user_id', (window as any).currentUser.id);
+    const { ok, result } = await callThemeApi('activateTheme', { themeId });
     
-    if (error) {
-      ErrorHandler.handleDatabaseError('Erro ao ativar theme', error);
+    if (!ok) {
+      ErrorHandler.handleError('Erro ao ativar theme', {
+        category: ErrorCategory.NETWORK,
+        severity: ErrorSeverity.WARNING,
+        details: result,
+        showToUser: false
+      });
       showAlert('error', 'Activation Failed! ❌', 'Unable to activate theme. Please try again.');
       return;
     }
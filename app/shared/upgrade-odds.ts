@@ -0,0 +1,46 @@
+// ============================================================
+// UPGRADE-ODDS.TS - Chance e roll do modo Upgrader
+// ============================================================
+// Compartilhado entre o backend (api/_caseopening.ts, action upgradeItems)
+// e a tela do Upgrader, para que a chance mostrada antes de confirmar seja
+// exatamente a usada no servidor e qualquer roll possa ser reproduzido a
+// partir do master seed (mesmo par server/client seed + nonce das aberturas).
+
+import { seededInt } from './case-rng.js';
+import type { CatalogItem } from './case-catalog.js';
+
+export const UPGRADE_HOUSE_EDGE = 0.08;
+export const UPGRADE_MIN_CHANCE = 0.01;
+export const UPGRADE_MAX_CHANCE = 0.8;
+export const UPGRADE_MAX_STAKE_ITEMS = 5;
+export const UPGRADE_ROLL_SCALE = 1_000_000;
+
+/**
+ * Valor do item alvo: ponto médio do intervalo de valores do catálogo
+ * (o mesmo averageValue de case-odds).
+ */
+export function getUpgradeTargetValue(item: Pick<CatalogItem, 'minValue' | 'maxValue'>): number {
+  return parseFloat(((item.minValue + item.maxValue) / 2).toFixed(2));
+}
+
+/**
+ * Chance de ganhar = (valor apostado / valor do alvo) × (1 - house edge),
+ * limitada a UPGRADE_MAX_CHANCE. Retorna null se o alvo não vale mais que a
+ * aposta ou se a chance fica abaixo de UPGRADE_MIN_CHANCE.
+ */
+export function computeUpgradeChance(stakeValue: number, targetValue: number): number | null {
+  if (!(stakeValue > 0) || !(targetValue > stakeValue)) return null;
+  const chance = Math.min((stakeValue / targetValue) * (1 - UPGRADE_HOUSE_EDGE), UPGRADE_MAX_CHANCE);
+  return chance >= UPGRADE_MIN_CHANCE ? chance : null;
+}
+
+/**
+ * Roll uniforme em [0, UPGRADE_ROLL_SCALE) derivado do master seed.
+ */
+export function rollUpgrade(masterSeed: string): number {
+  return seededInt(`${masterSeed}:upgrade`, UPGRADE_ROLL_SCALE);
+}
+
+export function isUpgradeWin(roll: number, chance: number): boolean {
+  return roll < Math.floor(chance * UPGRADE_ROLL_SCALE);
+}
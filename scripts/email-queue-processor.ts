@@ -3,9 +3,12 @@
 // ============================================================
 // This script processes pending email queue every day at midnight
 // Use with cron job or scheduler (node-cron, node-schedule, etc)
+// It also runs the subscription lifecycle first (expiry, daily diamonds and
+// renewal reminders), so reminder emails go out in the same run
 
 import cron from 'node-cron';
 import { processEmailQueue } from '../api/_support.js';
+import { runSubscriptionLifecycleJob } from '../api/_shop.js';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -32,6 +35,20 @@ const TIMEZONE = 'America/Sao_Paulo';
 // PROCESSING FUNCTION
 // ============================================================
 
+async function runSubscriptionJob(): Promise<void> {
+  try {
+    const result = await runSubscriptionLifecycleJob();
+    console.log('💎 Subscriptions:');
+    console.log(`   ⌛ Expired: ${result.expired}`);
+    console.log(`   💎 Daily diamonds credited: ${result.credited}`);
+    console.log(`   📧 Reminders queued: ${result.reminders}`);
+    console.log(`   ❌ Failed: ${result.failed}\n`);
+  } catch (error) {
+    // Never block the email queue
+    console.error('💥 Subscription lifecycle job failed:', (error as Error).message);
+  }
+}
+
 async function runDailyEmailJob(): Promise<EmailJobResult> {
   console.log('\n==============================================');
   console.log('🔄 DAILY EMAIL JOB STARTED');
@@ -39,6 +56,8 @@ async function runDailyEmailJob(): Promise<EmailJobResult> {
   console.log('==============================================\n');
   
   try {
+    await runSubscriptionJob();
+
     // Process pending email queue
     const result = await processEmailQueue();
     
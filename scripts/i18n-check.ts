@@ -0,0 +1,148 @@
+// ============================================================
+// I18N CHECK
+// ============================================================
+// Extrai as chaves de tradução dos elementos `data-translate` (index.html
+// e templates em app/**/*.ts) e compara com os catálogos em
+// app/shared/locales. Gera o relatório de chaves faltando por idioma para
+// os tradutores, além das chaves que não são mais usadas.
+//
+// Uso: npm run i18n:check [-- --locale=pt-BR] [-- --json]
+// Sai com código 1 se algum idioma tiver chaves faltando.
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { DEFAULT_LOCALE, SUPPORTED_LOCALES, normalizeMessageKey, type Locale, type MessageCatalog } from '../app/shared/i18n.js';
+import en from '../app/shared/locales/en.js';
+import ptBR from '../app/shared/locales/pt-BR.js';
+import es from '../app/shared/locales/es.js';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+const CATALOGS: Record<Locale, MessageCatalog> = {
+  'en': en,
+  'pt-BR': ptBR,
+  'es': es
+};
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const SOURCE_FILES = ['index.html'];
+const SOURCE_DIRS = ['app'];
+const IGNORED_DIRS = new Set(['backup', 'locales']);
+
+function parseLocales(): Locale[] {
+  const arg = process.argv.find(a => a.startsWith('--locale='));
+  if (!arg) return SUPPORTED_LOCALES.filter(l => l !== DEFAULT_LOCALE);
+  const requested = arg.split('=')[1];
+  const locale = SUPPORTED_LOCALES.find(l => l === requested);
+  if (!locale) {
+    console.error(`Unknown locale "${requested}". Supported: ${SUPPORTED_LOCALES.join(', ')}`);
+    process.exit(1);
+  }
+  return [locale];
+}
+
+// ============================================================
+// EXTRACTION
+// ============================================================
+
+interface ExtractedKey {
+  key: string;
+  locations: string[];
+}
+
+function listSourceFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return IGNORED_DIRS.has(entry.name) ? [] : listSourceFiles(fullPath);
+    return entry.name.endsWith('.ts') ? [fullPath] : [];
+  });
+}
+
+/**
+ * Uma chave por elemento: o valor de `data-translate="..."`, o placeholder
+ * (inputs) ou o texto até a próxima tag. Textos com interpolação de
+ * template (${...}) são dinâmicos e ficam de fora.
+ */
+function extractFromSource(source: string, file: string, keys: Map<string, ExtractedKey>): void {
+  const tagPattern = /<(\w+)((?:[^>"']|"[^"]*"|'[^']*')*?\bdata-translate\b(?:[^>"']|"[^"]*"|'[^']*')*)>([^<]*)/g;
+
+  for (const match of source.matchAll(tagPattern)) {
+    const [, tag, attributes, text] = match;
+    const explicitKey = attributes.match(/\bdata-translate="([^"]+)"/)?.[1];
+    const placeholder = attributes.match(/\bplaceholder="([^"]*)"/)?.[1];
+    const isInput = /^(input|textarea)$/i.test(tag);
+
+    const key = normalizeMessageKey(explicitKey || (isInput ? placeholder || '' : text));
+    if (!key || key.includes('${')) continue;
+
+    const line = source.slice(0, match.index).split('\n').length;
+    const location = `${path.relative(ROOT, file)}:${line}`;
+    const entry = keys.get(key);
+    if (entry) entry.locations.push(location);
+    else keys.set(key, { key, locations: [location] });
+  }
+}
+
+function extractKeys(): Map<string, ExtractedKey> {
+  const keys = new Map<string, ExtractedKey>();
+  const files = [
+    ...SOURCE_FILES.map(f => path.join(ROOT, f)),
+    ...SOURCE_DIRS.flatMap(d => listSourceFiles(path.join(ROOT, d)))
+  ];
+
+  for (const file of files) {
+    extractFromSource(fs.readFileSync(file, 'utf8'), file, keys);
+  }
+  return keys;
+}
+
+// ============================================================
+// REPORT
+// ============================================================
+
+interface LocaleReport {
+  locale: Locale;
+  missing: string[];
+  unused: string[];
+}
+
+function buildReport(locale: Locale, extracted: Map<string, ExtractedKey>): LocaleReport {
+  const catalog = CATALOGS[locale];
+  // Chaves explícitas / mensagens usadas via t() vivem no catálogo em inglês
+  const required = new Set([...extracted.keys(), ...Object.keys(CATALOGS[DEFAULT_LOCALE])]);
+
+  return {
+    locale,
+    missing: Array.from(required).filter(key => catalog[key] === undefined).sort(),
+    unused: Object.keys(catalog).filter(key => !required.has(key)).sort()
+  };
+}
+
+function main(): void {
+  const locales = parseLocales();
+  const extracted = extractKeys();
+  const reports = locales.map(locale => buildReport(locale, extracted));
+
+  if (process.argv.includes('--json')) {
+    console.log(JSON.stringify({ extracted: extracted.size, reports }, null, 2));
+  } else {
+    console.log(`🔎 ${extracted.size} keys extracted from data-translate elements`);
+    for (const report of reports) {
+      const status = report.missing.length ? '❌' : '✅';
+      console.log(`\n${status} ${report.locale}: ${report.missing.length} missing, ${report.unused.length} unused`);
+      report.missing.forEach(key => {
+        const where = extracted.get(key)?.locations[0] || 'app/shared/locales/en.ts';
+        console.log(`   - ${JSON.stringify(key)}  (${where})`);
+      });
+      report.unused.forEach(key => console.log(`   ~ unused: ${JSON.stringify(key)}`));
+    }
+  }
+
+  if (reports.some(r => r.missing.length)) process.exit(1);
+}
+
+main();
@@ -0,0 +1,177 @@
+// ============================================================
+// RNG DISTRIBUTION CHECK
+// ============================================================
+// Abre milhares de cases com o RNG compartilhado (app/shared/case-rng.ts)
+// e compara a frequência de cada raridade com as chances do catálogo
+// embutido (DEFAULT_CASE_CATALOG, normalizadas pelas raridades presentes em cada case) via qui-quadrado.
+//
+// Uso: npm run rng:check [-- --openings=20000]
+// Sai com código 1 se alguma distribuição falhar.
+
+import crypto from 'crypto';
+import { DEFAULT_CASE_CATALOG, type CatalogCase } from '../app/shared/case-catalog.js';
+import {
+  RNG_VERSION,
+  WINNER_INDEX_MIN,
+  WINNER_INDEX_SPAN,
+  buildAdjustedPools,
+  createSeededRNG,
+  generateRollSlots,
+  getWinnerIndex
+} from '../app/shared/case-rng.js';
+
+const RARITIES = DEFAULT_CASE_CATALOG.rarities;
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const DEFAULT_OPENINGS = 20000;
+const UNIFORM_SAMPLES = 100000;
+const UNIFORM_BUCKETS = 20;
+const WINNER_INDEX_SAMPLES = WINNER_INDEX_SPAN * 500;
+const Z_CRITICAL = 3.09; // p = 0.001 (unicaudal)
+
+function parseOpenings(): number {
+  const arg = process.argv.find(a => a.startsWith('--openings='));
+  const value = arg ? parseInt(arg.split('=')[1], 10) : DEFAULT_OPENINGS;
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_OPENINGS;
+}
+
+// ============================================================
+// STATISTICS
+// ============================================================
+
+interface ChiSquareResult {
+  statistic: number;
+  critical: number;
+  passed: boolean;
+}
+
+// Aproximação de Wilson-Hilferty para o valor crítico do qui-quadrado
+function chiSquareCritical(df: number): number {
+  const k = 2 / (9 * df);
+  return df * Math.pow(1 - k + Z_CRITICAL * Math.sqrt(k), 3);
+}
+
+function chiSquare(observed: number[], expected: number[]): ChiSquareResult {
+  let statistic = 0;
+  for (let i = 0; i < observed.length; i++) {
+    if (expected[i] <= 0) continue;
+    statistic += Math.pow(observed[i] - expected[i], 2) / expected[i];
+  }
+  const df = Math.max(1, expected.filter(e => e > 0).length - 1);
+  const critical = chiSquareCritical(df);
+  return { statistic, critical, passed: statistic <= critical };
+}
+
+function randomSeed(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+function formatResult(label: string, result: ChiSquareResult): string {
+  const status = result.passed ? '✅' : '❌';
+  return `${status} ${label.padEnd(24)} χ²=${result.statistic.toFixed(2).padStart(8)}  (crítico ${result.critical.toFixed(2)})`;
+}
+
+// ============================================================
+// CHECKS
+// ============================================================
+
+function checkUniformFloats(): boolean {
+  const rng = createSeededRNG(randomSeed());
+  const observed = new Array(UNIFORM_BUCKETS).fill(0);
+
+  for (let i = 0; i < UNIFORM_SAMPLES; i++) {
+    const value = rng();
+    if (value < 0 || value >= 1) {
+      console.log(`❌ Float fora de [0, 1): ${value}`);
+      return false;
+    }
+    observed[Math.floor(value * UNIFORM_BUCKETS)]++;
+  }
+
+  const expected = new Array(UNIFORM_BUCKETS).fill(UNIFORM_SAMPLES / UNIFORM_BUCKETS);
+  const result = chiSquare(observed, expected);
+  console.log(formatResult('createSeededRNG', result));
+  return result.passed;
+}
+
+function checkWinnerIndex(): boolean {
+  const masterSeed = randomSeed();
+  const observed = new Array(WINNER_INDEX_SPAN).fill(0);
+
+  for (let slot = 0; slot < WINNER_INDEX_SAMPLES; slot++) {
+    observed[getWinnerIndex(masterSeed, slot) - WINNER_INDEX_MIN]++;
+  }
+
+  const expected = new Array(WINNER_INDEX_SPAN).fill(WINNER_INDEX_SAMPLES / WINNER_INDEX_SPAN);
+  const result = chiSquare(observed, expected);
+  console.log(formatResult('winnerIndex', result));
+  return result.passed;
+}
+
+function checkCase(caseData: CatalogCase, openings: number): boolean {
+  const pools = buildAdjustedPools(caseData, RARITIES);
+  const presentRarities = new Set(pools.map(p => p.rarity.name));
+  const totalBase = RARITIES.filter(r => presentRarities.has(r.name)).reduce((sum, r) => sum + r.chance, 0);
+
+  const observed = new Array(RARITIES.length).fill(0);
+  let outOfRange = 0;
+
+  for (let i = 0; i < openings; i++) {
+    const [slot] = generateRollSlots(caseData, RARITIES, randomSeed(), 1, { winnerOnly: true });
+    const winner = slot.winner;
+    if (!winner) {
+      outOfRange++;
+      continue;
+    }
+
+    const rarityIndex = RARITIES.findIndex(r => r.name === winner.rarity);
+    observed[rarityIndex]++;
+
+    const item = caseData.items.find(it => it.name === winner.name && it.rarityIndex === rarityIndex);
+    if (!item || winner.value < item.minValue || winner.value > item.maxValue) {
+      outOfRange++;
+    }
+  }
+
+  const expected = RARITIES.map(r => presentRarities.has(r.name) ? (r.chance / totalBase) * openings : 0);
+  const result = chiSquare(observed, expected);
+  console.log(formatResult(caseData.id, result));
+
+  RARITIES.forEach((rarity, idx) => {
+    if (!expected[idx] && !observed[idx]) return;
+    const observedPct = (observed[idx] / openings) * 100;
+    const expectedPct = (expected[idx] / openings) * 100;
+    console.log(`     ${rarity.icon} ${rarity.name.padEnd(10)} ${observedPct.toFixed(3).padStart(7)}%  esperado ${expectedPct.toFixed(3)}%`);
+  });
+
+  if (outOfRange > 0) {
+    console.log(`   ❌ ${outOfRange} itens inválidos ou fora do intervalo de valor`);
+  }
+
+  return result.passed && outOfRange === 0;
+}
+
+// ============================================================
+// MAIN
+// ============================================================
+
+function main(): void {
+  const openings = parseOpenings();
+  console.log(`🎲 RNG ${RNG_VERSION} - ${openings} aberturas por case\n`);
+
+  let passed = checkUniformFloats();
+  passed = checkWinnerIndex() && passed;
+  console.log('');
+
+  for (const caseData of DEFAULT_CASE_CATALOG.cases) {
+    passed = checkCase(caseData, openings) && passed;
+  }
+
+  console.log(passed ? '\n✅ Todas as distribuições dentro do esperado' : '\n❌ Distribuição fora do esperado');
+  process.exit(passed ? 0 : 1);
+}
+
+main();
@@ -40,6 +40,7 @@ interface VercelResponse {
   status: (code: number) => VercelResponse;
   json: (data: any) => void;
   send: (data: any) => void;
+  end: (data?: any) => void;
   setHeader: (key: string, value: string) => void;
 }
 
@@ -162,6 +163,9 @@ async function handleApiRequest(req: VercelRequest, res: Response, handlerPath:
       send: (data: any) => {
         res.send(data);
       },
+      end: (data?: any) => {
+        res.end(data);
+      },
       setHeader: (key: string, value: string) => {
         res.setHeader(key, value);
       }
@@ -192,6 +196,38 @@ app.all('/api/_caseopening', async (req: VercelRequest, res: Response) => {
   await handleApiRequest(req, res, '../dist/ts/api/_caseopening.js');
 });
 
+app.all('/api/_achievements', async (req: VercelRequest, res: Response) => {
+  await handleApiRequest(req, res, '../dist/ts/api/_achievements.js');
+});
+
+app.all('/api/_battlepass', async (req: VercelRequest, res: Response) => {
+  await handleApiRequest(req, res, '../dist/ts/api/_battlepass.js');
+});
+
+app.all('/api/_dailyrewards', async (req: VercelRequest, res: Response) => {
+  await handleApiRequest(req, res, '../dist/ts/api/_dailyrewards.js');
+});
+
+app.all('/api/_missions', async (req: VercelRequest, res: Response) => {
+  await handleApiRequest(req, res, '../dist/ts/api/_missions.js');
+});
+
+app.all('/api/_promocodes', async (req: VercelRequest, res: Response) => {
+  await handleApiRequest(req, res, '../dist/ts/api/_promocodes.js');
+});
+
+app.all('/api/_battles', async (req: VercelRequest, res: Response) => {
+  await handleApiRequest(req, res, '../dist/ts/api/_battles.js');
+});
+
+app.all('/api/_marketplace', async (req: VercelRequest, res: Response) => {
+  await handleApiRequest(req, res, '../dist/ts/api/_marketplace.js');
+});
+
+app.all('/api/_trades', async (req: VercelRequest, res: Response) => {
+  await handleApiRequest(req, res, '../dist/ts/api/_trades.js');
+});
+
 app.all('/api/_chat', async (req: VercelRequest, res: Response) => {
   await handleApiRequest(req, res, '../dist/ts/api/_chat.js');
 });
@@ -204,6 +240,15 @@ app.all('/api/_shop', async (req: VercelRequest, res: Response) => {
   await handleApiRequest(req, res, '../dist/ts/api/_shop.js');
 });
 
+// Webhooks dos gateways e checkout do gateway sandbox (mesmo handler da loja)
+app.all('/api/webhooks/shop', async (req: VercelRequest, res: Response) => {
+  await handleApiRequest(req, res, '../dist/ts/api/_shop.js');
+});
+
+app.all('/api/sandbox/shop', async (req: VercelRequest, res: Response) => {
+  await handleApiRequest(req, res, '../dist/ts/api/_shop.js');
+});
+
 // Consolidated APIs
 app.all('/api/_profile', async (req: VercelRequest, res: Response) => {
   await handleApiRequest(req, res, '../dist/ts/api/_profile.js');
@@ -242,9 +287,21 @@ app.listen(PORT, () => {
   console.log(`   - http://localhost:${PORT}/api/_app`);
   console.log(`   - http://localhost:${PORT}/api/_admin`);
   console.log(`   - http://localhost:${PORT}/api/_caseopening`);
+  console.log(`   - http://localhost:${PORT}/api/_achievements`);
+  console.log(`   - http://localhost:${PORT}/api/_battlepass`);
+  console.log(`   - http://localhost:${PORT}/api/_dailyrewards`);
+  console.log(`   - http://localhost:${PORT}/api/_missions`);
+  console.log(`   - http://localhost:${PORT}/api/_promocodes`);
+  console.log(`   - http://localhost:${PORT}/api/_battles`);
   console.log(`   - http://localhost:${PORT}/api/_chat`);
   console.log(`   - http://localhost:${PORT}/api/_inventory`);
+  console.log(`   - http://localhost:${PORT}/api/_marketplace`);
   console.log(`   - http://localhost:${PORT}/api/_shop`);
+  console.log(`   - http://localhost:${PORT}/api/webhooks/shop`);
+  if (process.env.PAYMENT_SANDBOX_ENABLED === 'true') {
+    console.log(`   - http://localhost:${PORT}/api/sandbox/shop (sandbox checkout)`);
+  }
+  console.log(`   - http://localhost:${PORT}/api/_trades`);
   console.log(`   - http://localhost:${PORT}/health`);
   console.log('\n✨ Pronto para receber requisições!\n');
 });